@@ -1,11 +1,36 @@
-import OpenAI from 'openai';
 import { prisma } from '../db/prisma';
-import { SavingsTransaction, TransactionType } from '@prisma/client';
-
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { completeChat } from '../db/llmUsage';
+import {
+  SavingsGoal,
+  SavingsGoalAllocation,
+  SavingsGoalStatus,
+  SavingsTransaction,
+  TransactionType,
+  User
+} from '@prisma/client';
+import { fromMinorUnits, toMinorUnits } from '../utils/money';
+import { DisplayRate, toDisplayMinor } from '../fx/conversion';
+import { getDisplayRate } from '../fx/providers';
+import { ProjectableGoal, orderGoalsByPriority, projectGoalCompletions } from '../savings/goalAllocation';
+import { LlmRequest } from './providers';
+import { renderLocalCompletion } from './templates';
+import {
+  RECOMMENDATIONS_SCHEMA,
+  RECOMMENDATION_LIMITS,
+  ParsedRecommendations,
+  RecommendationFeedbackState,
+  filterRecommendations,
+  getRecommendationId,
+  isRecommendationHidden,
+  parseRecommendationsReply
+} from './recommendations';
+import { getRecommendationFeedback } from '../db/recommendationFeedback';
+import { getMoneySettings } from '../db/user';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Recent allocations that set each goal's own rate in MANUAL mode
+const GOAL_RATE_WINDOW_DAYS = 90;
 
 export interface SpendingAnalysis {
   totalSpent: number;
@@ -55,11 +80,23 @@ export interface SavingsProjection {
   currentSavingsRate: number;
   projectedMonthly: number;
   projectedYearly: number;
-  goalAchievementDate?: Date;
+  goals: GoalProjection[];
   recommendedAdjustments: string[];
   confidenceLevel: number;
 }
 
+export interface GoalProjection {
+  goalId: string;
+  name: string;
+  icon: string | null;
+  currency: string;
+  targetAmount: number;
+  savedAmount: number;
+  deadline?: Date;
+  projectedCompletionDate?: Date; // Unset when the goal is out of reach at the current rate
+  onTrack: boolean; // Projected to finish by the deadline, or has no deadline and will finish
+}
+
 export interface AnomalyAlert {
   type: 'unusual_spending' | 'large_transaction' | 'new_merchant' | 'category_spike';
   severity: 'low' | 'medium' | 'high';
@@ -79,7 +116,7 @@ export class AIInsightsService {
       // Filter out non-spending transactions (only roundups indicate spending)
       const spendingTransactions = transactions.filter(t => 
         t.type === TransactionType.ROUNDUP && 
-        t.originalTransactionAmount && 
+        t.originalAmountMinor && 
         t.merchant && 
         t.category
       );
@@ -89,7 +126,7 @@ export class AIInsightsService {
       }
 
       // Calculate basic metrics
-      const totalSpent = spendingTransactions.reduce((sum, t) => sum + (t.originalTransactionAmount || 0), 0);
+      const totalSpent = spendingTransactions.reduce((sum, t) => sum + purchaseAmount(t), 0);
       const averageTransactionAmount = totalSpent / spendingTransactions.length;
 
       // Category breakdown
@@ -98,7 +135,7 @@ export class AIInsightsService {
         const category = t.category || 'Other';
         const existing = categoryMap.get(category) || { amount: 0, count: 0 };
         categoryMap.set(category, {
-          amount: existing.amount + (t.originalTransactionAmount || 0),
+          amount: existing.amount + purchaseAmount(t),
           count: existing.count + 1
         });
       });
@@ -117,9 +154,9 @@ export class AIInsightsService {
         const month = t.createdAt.toISOString().substring(0, 7); // YYYY-MM
         const existing = monthlyMap.get(month) || { spent: 0, count: 0, saved: 0 };
         monthlyMap.set(month, {
-          spent: existing.spent + (t.originalTransactionAmount || 0),
+          spent: existing.spent + purchaseAmount(t),
           count: existing.count + 1,
-          saved: existing.saved + t.amount // roundup amount
+          saved: existing.saved + transactionAmount(t) // roundup amount
         });
       });
 
@@ -136,7 +173,7 @@ export class AIInsightsService {
         const merchant = t.merchant || 'Unknown';
         const existing = merchantMap.get(merchant) || { amount: 0, count: 0, category: t.category || 'Other' };
         merchantMap.set(merchant, {
-          amount: existing.amount + (t.originalTransactionAmount || 0),
+          amount: existing.amount + purchaseAmount(t),
           count: existing.count + 1,
           category: existing.category
         });
@@ -156,7 +193,7 @@ export class AIInsightsService {
       const spendingVelocity = this.calculateSpendingVelocity(monthlyTrend);
 
       // Generate AI insights
-      const insights = await this.generateSpendingInsights(categoryBreakdown, monthlyTrend, spendingVelocity);
+      const insights = await this.generateSpendingInsights(userId, categoryBreakdown, monthlyTrend, spendingVelocity);
 
       return {
         totalSpent,
@@ -174,9 +211,13 @@ export class AIInsightsService {
   }
 
   /**
-   * Generate personalized financial recommendations
+   * Generate personalized financial recommendations, leaving out any the user
+   * has dismissed, done or snoozed
    */
   async generateRecommendations(userId: string): Promise<FinancialRecommendation[]> {
+    const now = new Date();
+    let feedback: RecommendationFeedbackState[] = [];
+
     try {
       // Get user data and recent transactions
       const user = await prisma.user.findUnique({
@@ -193,40 +234,27 @@ export class AIInsightsService {
         throw new Error('User not found');
       }
 
+      feedback = await getRecommendationFeedback(userId);
       const spendingAnalysis = await this.analyzeSpending(userId, user.savingsTransactions);
-      
+
       // Generate AI-powered recommendations
-      const prompt = this.buildRecommendationPrompt(user, spendingAnalysis);
-      
-      const completion = await openai.chat.completions.create({
-        model: "gpt-4",
-        messages: [
-          {
-            role: "system",
-            content: "You are a financial advisor AI that provides personalized, actionable financial recommendations. Focus on practical advice that can help users save more money and improve their financial habits."
-          },
-          {
-            role: "user",
-            content: prompt
-          }
-        ],
-        temperature: 0.7,
-        max_tokens: 1000
-      });
+      const recommendations = filterRecommendations(
+        await this.requestRecommendations(user, spendingAnalysis, feedback, now),
+        feedback,
+        now
+      );
 
-      const aiResponse = completion.choices[0]?.message?.content || '';
-      
-      // Parse AI response and create structured recommendations
-      const recommendations = this.parseRecommendations(aiResponse);
-      
-      return recommendations;
+      return recommendations.length > 0
+        ? recommendations
+        : filterRecommendations(this.getFallbackRecommendations(now), feedback, now);
     } catch (error) {
       console.error('Error generating recommendations:', error);
       // Return fallback recommendations
-      return this.getFallbackRecommendations(userId);
+      return filterRecommendations(this.getFallbackRecommendations(now), feedback, now);
     }
-  }  /**
+  }
 
+  /**
    * Predict savings goals and projections
    */
   async predictSavingsGoals(userId: string): Promise<SavingsProjection> {
@@ -237,11 +265,19 @@ export class AIInsightsService {
           savingsTransactions: {
             where: {
               type: {
-                in: [TransactionType.ROUNDUP, TransactionType.MANUAL, TransactionType.DEPOSIT]
+                in: [TransactionType.ROUNDUP, TransactionType.MANUAL, TransactionType.DEPOSIT, TransactionType.RULE]
               }
             },
             orderBy: { createdAt: 'desc' },
             take: 90 // Last 90 transactions for analysis
+          },
+          savingsGoals: {
+            where: { status: SavingsGoalStatus.ACTIVE },
+            include: {
+              allocations: {
+                where: { createdAt: { gte: new Date(Date.now() - GOAL_RATE_WINDOW_DAYS * DAY_MS) } }
+              }
+            }
           }
         }
       });
@@ -250,9 +286,10 @@ export class AIInsightsService {
         throw new Error('User not found');
       }
 
-      // Calculate current savings rate
+      // Calculate current savings rate in the user's currency
+      const display = await getDisplayRate(user.currency);
       const savingsTransactions = user.savingsTransactions;
-      const totalSavings = savingsTransactions.reduce((sum, t) => sum + t.amount, 0);
+      const totalSavings = savingsTransactions.reduce((sum, t) => sum + transactionAmount(t, display), 0);
       const daysActive = this.calculateDaysActive(savingsTransactions);
       const currentSavingsRate = daysActive > 0 ? totalSavings / daysActive : 0;
 
@@ -260,13 +297,8 @@ export class AIInsightsService {
       const projectedMonthly = currentSavingsRate * 30;
       const projectedYearly = currentSavingsRate * 365;
 
-      // Calculate goal achievement date
-      let goalAchievementDate: Date | undefined;
-      if (user.savingsGoal && currentSavingsRate > 0) {
-        const remainingAmount = user.savingsGoal - user.totalSaved;
-        const daysToGoal = remainingAmount / currentSavingsRate;
-        goalAchievementDate = new Date(Date.now() + daysToGoal * 24 * 60 * 60 * 1000);
-      }
+      // Project each goal's completion date through the user's allocation mode
+      const goals = await this.projectGoals(user, display, currentSavingsRate);
 
       // Generate AI-powered recommendations for improvement
       const recommendedAdjustments = await this.generateSavingsAdjustments(user, currentSavingsRate);
@@ -278,7 +310,7 @@ export class AIInsightsService {
         currentSavingsRate,
         projectedMonthly,
         projectedYearly,
-        goalAchievementDate,
+        goals,
         recommendedAdjustments,
         confidenceLevel
       };
@@ -293,7 +325,7 @@ export class AIInsightsService {
    */
   async detectAnomalies(userId: string, transaction: SavingsTransaction): Promise<AnomalyAlert | null> {
     try {
-      if (transaction.type !== TransactionType.ROUNDUP || !transaction.originalTransactionAmount) {
+      if (transaction.type !== TransactionType.ROUNDUP || !transaction.originalAmountMinor) {
         return null; // Only analyze spending transactions
       }
 
@@ -313,12 +345,12 @@ export class AIInsightsService {
       }
 
       // Calculate baseline metrics
-      const amounts = historicalTransactions.map(t => t.originalTransactionAmount || 0);
+      const amounts = historicalTransactions.map(t => purchaseAmount(t));
       const avgAmount = amounts.reduce((sum, amt) => sum + amt, 0) / amounts.length;
       const stdDev = Math.sqrt(amounts.reduce((sum, amt) => sum + Math.pow(amt - avgAmount, 2), 0) / amounts.length);
 
       // Check for large transaction anomaly
-      const transactionAmount = transaction.originalTransactionAmount;
+      const transactionAmount = purchaseAmount(transaction);
       if (transactionAmount > avgAmount + 3 * stdDev) {
         return {
           type: 'large_transaction',
@@ -347,7 +379,7 @@ export class AIInsightsService {
       // Check for category spending spike
       const categoryTransactions = historicalTransactions.filter(t => t.category === transaction.category);
       if (categoryTransactions.length >= 5) {
-        const categoryAmounts = categoryTransactions.map(t => t.originalTransactionAmount || 0);
+        const categoryAmounts = categoryTransactions.map(t => purchaseAmount(t));
         const categoryAvg = categoryAmounts.reduce((sum, amt) => sum + amt, 0) / categoryAmounts.length;
         
         if (transactionAmount > categoryAvg * 2) {
@@ -401,12 +433,12 @@ export class AIInsightsService {
   }
 
   private async generateSpendingInsights(
+    userId: string,
     categoryBreakdown: CategorySpending[],
     monthlyTrend: MonthlySpending[],
-    spendingVelocity: string
+    spendingVelocity: SpendingAnalysis['spendingVelocity']
   ): Promise<string[]> {
-    try {
-      const prompt = `Based on this spending data, provide 3-5 concise financial insights:
+    const prompt = `Based on this spending data, provide 3-5 concise financial insights:
       
       Top spending categories: ${categoryBreakdown.slice(0, 3).map(c => `${c.category}: $${c.amount.toFixed(2)} (${c.percentage.toFixed(1)}%)`).join(', ')}
       
@@ -414,55 +446,42 @@ export class AIInsightsService {
       
       Provide actionable insights that help the user understand their spending patterns and save more money.`;
 
-      const completion = await openai.chat.completions.create({
-        model: "gpt-3.5-turbo",
-        messages: [
-          {
-            role: "system",
-            content: "You are a financial advisor. Provide brief, actionable insights about spending patterns. Each insight should be one sentence and focus on practical advice."
-          },
-          {
-            role: "user",
-            content: prompt
-          }
-        ],
-        temperature: 0.7,
-        max_tokens: 300
-      });
+    const request: LlmRequest<'spending_insights'> = {
+      task: 'spending_insights',
+      context: { categories: categoryBreakdown.slice(0, 3), spendingVelocity },
+      messages: [
+        {
+          role: "system",
+          content: "You are a financial advisor. Provide brief, actionable insights about spending patterns. Each insight should be one sentence and focus on practical advice."
+        },
+        {
+          role: "user",
+          content: prompt
+        }
+      ],
+      fast: true,
+      temperature: 0.7,
+      maxTokens: 300
+    };
 
-      const response = completion.choices[0]?.message?.content || '';
-      return response.split('\n').filter(line => line.trim().length > 0).slice(0, 5);
+    try {
+      const completion = await completeChat(request, userId);
+      return splitLines(completion.content, 5);
     } catch (error) {
       console.error('Error generating AI insights:', error);
-      return this.getFallbackInsights(categoryBreakdown, spendingVelocity);
+      return splitLines(renderLocalCompletion(request), 5);
     }
   }
 
-  private getFallbackInsights(categoryBreakdown: CategorySpending[], spendingVelocity: string): string[] {
-    const insights: string[] = [];
-    
-    if (categoryBreakdown.length > 0) {
-      const topCategory = categoryBreakdown[0];
-      insights.push(`Your highest spending category is ${topCategory.category} at $${topCategory.amount.toFixed(2)} (${topCategory.percentage.toFixed(1)}% of total spending).`);
-    }
-    
-    if (spendingVelocity === 'increasing') {
-      insights.push('Your spending has been increasing recently - consider reviewing your budget to stay on track with savings goals.');
-    } else if (spendingVelocity === 'decreasing') {
-      insights.push('Great job! Your spending has been decreasing, which means more money available for savings.');
-    }
-    
-    insights.push('Round-up savings are automatically helping you save with every purchase.');
-    
-    return insights;
-  } 
- private buildRecommendationPrompt(user: any, spendingAnalysis: SpendingAnalysis): string {
+  private buildRecommendationPrompt(user: User, spendingAnalysis: SpendingAnalysis, avoid: string[]): string {
+    const { savingsGoal, monthlyTarget } = getMoneySettings(user);
+
     return `Generate 3-5 personalized financial recommendations for this user:
 
 User Profile:
-- Total Saved: $${user.totalSaved}
-- Savings Goal: ${user.savingsGoal ? `$${user.savingsGoal}` : 'Not set'}
-- Monthly Target: ${user.monthlyTarget ? `$${user.monthlyTarget}` : 'Not set'}
+- Total Saved: $${fromMinorUnits(user.totalSavedMinor, user.currency)}
+- Savings Goal: ${savingsGoal ? `$${savingsGoal}` : 'Not set'}
+- Monthly Target: ${monthlyTarget ? `$${monthlyTarget}` : 'Not set'}
 - Risk Tolerance: ${user.riskTolerance}
 - Round-up Enabled: ${user.roundUpEnabled}
 - Auto-invest Enabled: ${user.autoInvestEnabled}
@@ -473,121 +492,161 @@ Spending Analysis:
 - Spending Trend: ${spendingAnalysis.spendingVelocity}
 - Top Categories: ${spendingAnalysis.categoryBreakdown.slice(0, 3).map(c => `${c.category} ($${c.amount.toFixed(2)})`).join(', ')}
 
-Provide specific, actionable recommendations that could help them save more money or improve their financial habits. Focus on practical steps they can take.`;
+Provide specific, actionable recommendations that could help them save more money or improve their financial habits. Focus on practical steps they can take.${avoid.length > 0 ? `
+
+The user has already dismissed, done or snoozed these, so don't suggest them again: ${avoid.join('; ')}` : ''}`;
   }
 
-  private parseRecommendations(aiResponse: string): FinancialRecommendation[] {
-    const recommendations: FinancialRecommendation[] = [];
-    const lines = aiResponse.split('\n').filter(line => line.trim().length > 0);
-    
-    let currentRec: Partial<FinancialRecommendation> = {};
-    
-    for (const line of lines) {
-      const trimmed = line.trim();
-      
-      // Check if this is a new recommendation (starts with number or bullet)
-      if (/^[\d\-\*]/.test(trimmed)) {
-        // Save previous recommendation if exists
-        if (currentRec.title && currentRec.description) {
-          recommendations.push({
-            id: Math.random().toString(36).substr(2, 9),
-            type: this.inferRecommendationType(currentRec.description || ''),
-            title: currentRec.title,
-            description: currentRec.description,
-            impact: this.inferImpact(currentRec.description || ''),
-            actionable: true,
-            createdAt: new Date()
-          });
+  /**
+   * Ask for recommendations as JSON, sending invalid replies back with what
+   * was wrong until one validates or the attempts run out
+   */
+  private async requestRecommendations(
+    user: User,
+    spendingAnalysis: SpendingAnalysis,
+    feedback: RecommendationFeedbackState[],
+    now: Date
+  ): Promise<FinancialRecommendation[]> {
+    const avoid = feedback.filter(entry => isRecommendationHidden(entry, now)).map(entry => entry.title);
+    const { savingsGoal, monthlyTarget } = getMoneySettings(user);
+
+    let request: LlmRequest<'recommendations'> = {
+      task: 'recommendations',
+      context: {
+        roundUpEnabled: user.roundUpEnabled,
+        autoInvestEnabled: user.autoInvestEnabled,
+        monthlyTarget,
+        savingsGoal,
+        totalSpent: spendingAnalysis.totalSpent,
+        categories: spendingAnalysis.categoryBreakdown.slice(0, 3),
+        spendingVelocity: spendingAnalysis.spendingVelocity
+      },
+      messages: [
+        {
+          role: "system",
+          content: "You are a financial advisor AI that provides personalized, actionable financial recommendations. Focus on practical advice that can help users save more money and improve their financial habits. Reply with JSON only."
+        },
+        {
+          role: "user",
+          content: this.buildRecommendationPrompt(user, spendingAnalysis, avoid)
         }
-        
-        // Start new recommendation
-        currentRec = {
-          title: trimmed.replace(/^[\d\-\*\.\s]+/, '').split(':')[0] || trimmed,
-          description: trimmed.replace(/^[\d\-\*\.\s]+/, '')
-        };
-      } else if (currentRec.title) {
-        // Continue description
-        currentRec.description = (currentRec.description || '') + ' ' + trimmed;
+      ],
+      responseSchema: RECOMMENDATIONS_SCHEMA,
+      temperature: 0.7,
+      maxTokens: 1000
+    };
+
+    let parsed: ParsedRecommendations = { recommendations: [], errors: [] };
+
+    for (let attempt = 1; attempt <= RECOMMENDATION_LIMITS.MAX_ATTEMPTS; attempt++) {
+      const completion = await completeChat(request, user.id);
+      parsed = parseRecommendationsReply(completion.content, now);
+
+      if (parsed.errors.length === 0) {
+        break;
       }
-    }
-    
-    // Add the last recommendation
-    if (currentRec.title && currentRec.description) {
-      recommendations.push({
-        id: Math.random().toString(36).substr(2, 9),
-        type: this.inferRecommendationType(currentRec.description || ''),
-        title: currentRec.title,
-        description: currentRec.description,
-        impact: this.inferImpact(currentRec.description || ''),
-        actionable: true,
-        createdAt: new Date()
-      });
-    }
-    
-    return recommendations.slice(0, 5); // Limit to 5 recommendations
-  }
 
-  private inferRecommendationType(description: string): FinancialRecommendation['type'] {
-    const lower = description.toLowerCase();
-    
-    if (lower.includes('save') || lower.includes('budget') || lower.includes('cut')) {
-      return 'savings_opportunity';
-    } else if (lower.includes('spend') || lower.includes('alert') || lower.includes('watch')) {
-      return 'spending_alert';
-    } else if (lower.includes('goal') || lower.includes('target')) {
-      return 'goal_adjustment';
-    } else if (lower.includes('invest') || lower.includes('yield') || lower.includes('return')) {
-      return 'investment_advice';
+      console.warn(`Invalid recommendations reply (attempt ${attempt}):`, parsed.errors);
+      request = {
+        ...request,
+        messages: [
+          ...request.messages,
+          { role: 'assistant', content: completion.content },
+          {
+            role: 'user',
+            content: `That reply did not match the schema: ${parsed.errors.join('; ')}. Reply again with only the JSON object.`
+          }
+        ]
+      };
     }
-    
-    return 'savings_opportunity';
-  }
 
-  private inferImpact(description: string): 'high' | 'medium' | 'low' {
-    const lower = description.toLowerCase();
-    
-    if (lower.includes('significant') || lower.includes('major') || lower.includes('substantial')) {
-      return 'high';
-    } else if (lower.includes('moderate') || lower.includes('some') || lower.includes('consider')) {
-      return 'medium';
+    // Keep whatever was valid in the last reply
+    if (parsed.recommendations.length === 0) {
+      throw new Error(`No valid recommendations after ${RECOMMENDATION_LIMITS.MAX_ATTEMPTS} attempts`);
     }
-    
-    return 'low';
+
+    return parsed.recommendations;
   }
 
-  private async getFallbackRecommendations(userId: string): Promise<FinancialRecommendation[]> {
+  private getFallbackRecommendations(now: Date): FinancialRecommendation[] {
     return [
       {
-        id: 'fallback-1',
+        id: getRecommendationId('savings_opportunity', 'enable-round-ups'),
         type: 'savings_opportunity',
         title: 'Enable Round-up Savings',
         description: 'Automatically round up your purchases to the nearest dollar and save the difference.',
         impact: 'medium',
         actionable: true,
         estimatedSavings: 50,
-        createdAt: new Date()
+        createdAt: now
       },
       {
-        id: 'fallback-2',
+        id: getRecommendationId('goal_adjustment', 'set-monthly-goal'),
         type: 'goal_adjustment',
         title: 'Set a Monthly Savings Goal',
         description: 'Having a specific target helps you stay motivated and track your progress.',
         impact: 'high',
         actionable: true,
-        createdAt: new Date()
+        createdAt: now
       },
       {
-        id: 'fallback-3',
+        id: getRecommendationId('investment_advice', 'enable-auto-invest'),
         type: 'investment_advice',
         title: 'Enable Auto-investing',
         description: 'Let your savings earn yield automatically through DeFi protocols.',
         impact: 'medium',
         actionable: true,
-        createdAt: new Date()
+        createdAt: now
       }
     ];
   }
 
+  private async projectGoals(
+    user: User & { savingsGoals: Array<SavingsGoal & { allocations: SavingsGoalAllocation[] }> },
+    display: DisplayRate,
+    currentSavingsRate: number
+  ): Promise<GoalProjection[]> {
+    const now = new Date();
+
+    // Project in minor units of the user's currency, whatever currency each goal is kept in
+    const goals: ProjectableGoal[] = [];
+    for (const goal of user.savingsGoals) {
+      const goalRate = await getDisplayRate(goal.currency);
+      const toDisplay = (minor: number) => toDisplayMinor(
+        { minor, currency: goal.currency, fxRate: 1 / goalRate.rate },
+        display
+      );
+      const allocatedMinor = goal.allocations.reduce((sum, allocation) => sum + allocation.amountMinor, 0);
+
+      goals.push({
+        ...goal,
+        targetMinor: toDisplay(goal.targetMinor),
+        savedMinor: toDisplay(goal.savedMinor),
+        dailyRateMinor: toDisplay(allocatedMinor) / GOAL_RATE_WINDOW_DAYS
+      });
+    }
+
+    const dailyRateMinor = toMinorUnits(currentSavingsRate, display.currency);
+    const completions = projectGoalCompletions(goals, dailyRateMinor, user.goalAllocationMode, now);
+
+    return orderGoalsByPriority(user.savingsGoals).map(goal => {
+      const projectedCompletionDate = completions.get(goal.id) || undefined;
+
+      return {
+        goalId: goal.id,
+        name: goal.name,
+        icon: goal.icon,
+        currency: goal.currency,
+        targetAmount: fromMinorUnits(goal.targetMinor, goal.currency),
+        savedAmount: fromMinorUnits(goal.savedMinor, goal.currency),
+        deadline: goal.deadline || undefined,
+        projectedCompletionDate,
+        onTrack: !!projectedCompletionDate &&
+          (!goal.deadline || projectedCompletionDate.getTime() <= goal.deadline.getTime())
+      };
+    });
+  }
+
   private calculateDaysActive(transactions: SavingsTransaction[]): number {
     if (transactions.length === 0) return 0;
     
@@ -597,42 +656,45 @@ Provide specific, actionable recommendations that could help them save more mone
     return Math.max(1, Math.ceil((newest.getTime() - oldest.getTime()) / (24 * 60 * 60 * 1000)));
   }
 
-  private async generateSavingsAdjustments(user: any, currentSavingsRate: number): Promise<string[]> {
-    try {
-      const prompt = `Suggest 3-4 specific adjustments to improve savings rate:
+  private async generateSavingsAdjustments(user: User, currentSavingsRate: number): Promise<string[]> {
+    const { savingsGoal } = getMoneySettings(user);
+    const prompt = `Suggest 3-4 specific adjustments to improve savings rate:
       
 Current savings rate: $${currentSavingsRate.toFixed(2)} per day
 Current settings: Round-up ${user.roundUpEnabled ? 'enabled' : 'disabled'}, Auto-invest ${user.autoInvestEnabled ? 'enabled' : 'disabled'}
-Savings goal: ${user.savingsGoal ? `$${user.savingsGoal}` : 'Not set'}
+Savings goal: ${savingsGoal ? `$${savingsGoal}` : 'Not set'}
 
 Provide specific, actionable adjustments to increase savings.`;
 
-      const completion = await openai.chat.completions.create({
-        model: "gpt-3.5-turbo",
-        messages: [
-          {
-            role: "system",
-            content: "Provide brief, specific savings improvement suggestions. Each suggestion should be one sentence."
-          },
-          {
-            role: "user",
-            content: prompt
-          }
-        ],
-        temperature: 0.7,
-        max_tokens: 200
-      });
+    const request: LlmRequest<'savings_adjustments'> = {
+      task: 'savings_adjustments',
+      context: {
+        dailySavingsRate: currentSavingsRate,
+        roundUpEnabled: !!user.roundUpEnabled,
+        autoInvestEnabled: !!user.autoInvestEnabled,
+        savingsGoal
+      },
+      messages: [
+        {
+          role: "system",
+          content: "Provide brief, specific savings improvement suggestions. Each suggestion should be one sentence."
+        },
+        {
+          role: "user",
+          content: prompt
+        }
+      ],
+      fast: true,
+      temperature: 0.7,
+      maxTokens: 200
+    };
 
-      const response = completion.choices[0]?.message?.content || '';
-      return response.split('\n').filter(line => line.trim().length > 0).slice(0, 4);
+    try {
+      const completion = await completeChat(request, user.id);
+      return splitLines(completion.content, 4);
     } catch (error) {
       console.error('Error generating savings adjustments:', error);
-      return [
-        'Increase your round-up amount to save more with each transaction',
-        'Set up automatic weekly transfers to boost your savings rate',
-        'Review and reduce spending in your top expense categories',
-        'Enable auto-investing to earn yield on your savings'
-      ];
+      return splitLines(renderLocalCompletion(request), 4);
     }
   }
 
@@ -644,5 +706,26 @@ Provide specific, actionable adjustments to increase savings.`;
   }
 }
 
+// Insights work in major units of the transaction's currency, or of the display currency when given
+function transactionAmount(transaction: SavingsTransaction, display?: DisplayRate): number {
+  if (!display) {
+    return fromMinorUnits(transaction.amountMinor, transaction.currency);
+  }
+
+  const minor = toDisplayMinor(
+    { minor: transaction.amountMinor, currency: transaction.currency, fxRate: transaction.fxRate },
+    display
+  );
+  return fromMinorUnits(minor, display.currency);
+}
+
+function purchaseAmount(transaction: SavingsTransaction): number {
+  return fromMinorUnits(transaction.originalAmountMinor || 0, transaction.currency);
+}
+
+function splitLines(text: string, limit: number): string[] {
+  return text.split('\n').filter(line => line.trim().length > 0).slice(0, limit);
+}
+
 // Export singleton instance
 export const aiInsightsService = new AIInsightsService();
\ No newline at end of file
@@ -0,0 +1,334 @@
+import OpenAI from 'openai';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { renderLocalCompletion } from './templates';
+
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * What each task's prompt was built from. Providers that don't read prompts,
+ * like the local one, answer from this instead.
+ */
+export interface LlmTaskContexts {
+  spending_insights: {
+    categories: Array<{ category: string; amount: number; percentage: number }>; // Biggest first
+    spendingVelocity: 'increasing' | 'decreasing' | 'stable';
+  };
+  recommendations: {
+    roundUpEnabled: boolean;
+    autoInvestEnabled: boolean;
+    monthlyTarget: number | null;
+    savingsGoal: number | null;
+    totalSpent: number;
+    categories: Array<{ category: string; amount: number; percentage: number }>; // Biggest first
+    spendingVelocity: 'increasing' | 'decreasing' | 'stable';
+  };
+  savings_adjustments: {
+    dailySavingsRate: number;
+    roundUpEnabled: boolean;
+    autoInvestEnabled: boolean;
+    savingsGoal: number | null;
+  };
+}
+
+export type LlmTask = keyof LlmTaskContexts;
+
+export interface LlmRequest<T extends LlmTask = LlmTask> {
+  task: T;
+  context: LlmTaskContexts[T];
+  messages: LlmMessage[];
+  responseSchema?: { name: string; schema: Record<string, unknown> }; // Ask for JSON matching the schema
+  fast?: boolean; // A cheaper model is good enough
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface LlmUsage {
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number | null; // null for models without a known price
+}
+
+export interface LlmCompletion {
+  content: string;
+  provider: string;
+  model: string;
+  usage: LlmUsage;
+}
+
+/**
+ * Source of chat completions. Implementations are registered by name and
+ * selected with the LLM_PROVIDER environment variable.
+ */
+export interface LlmProvider {
+  readonly name: string;
+  complete(request: LlmRequest): Promise<LlmCompletion>;
+}
+
+// USD per million tokens. Model names match an entry exactly or with a
+// dated or other suffix after a dash, using the longest entry that matches.
+export const LLM_PRICING: Record<string, { input: number; output: number }> = {
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'gpt-4': { input: 30, output: 60 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-5': { input: 1.25, output: 10 },
+  'gpt-5-mini': { input: 0.25, output: 2 },
+  'gpt-5-nano': { input: 0.05, output: 0.4 },
+  'o3': { input: 2, output: 8 },
+  'o3-mini': { input: 1.1, output: 4.4 },
+  'o3-pro': { input: 20, output: 80 },
+  'o4-mini': { input: 1.1, output: 4.4 }
+};
+
+/**
+ * What a call cost in USD, or null for models without a price so they
+ * aren't counted as free
+ */
+export function getLlmCost(model: string, promptTokens: number, completionTokens: number): number | null {
+  const match = Object.keys(LLM_PRICING)
+    .filter(name => model === name || model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+
+  if (!match) {
+    console.warn(`No price for LLM model ${model}, recording its cost as unknown`);
+    return null;
+  }
+
+  const price = LLM_PRICING[match];
+  return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+}
+
+// Models that can be held to a JSON schema, and older ones that can only be
+// held to valid JSON, matched on the model name prefix
+const STRUCTURED_OUTPUT_MODELS = ['gpt-4o', 'gpt-4.1', 'gpt-5', 'o3', 'o4'];
+const JSON_MODE_MODELS = ['gpt-4-turbo', 'gpt-3.5-turbo'];
+
+/**
+ * The strictest JSON response format a model supports for a schema, or
+ * undefined for models that support none and are only asked for JSON in the
+ * prompt. Replies that don't match the schema are left to the caller to repair.
+ */
+export function getJsonResponseFormat(
+  model: string,
+  schema: NonNullable<LlmRequest['responseSchema']>
+): OpenAI.Chat.Completions.ChatCompletionCreateParams['response_format'] {
+  if (STRUCTURED_OUTPUT_MODELS.some(prefix => model.startsWith(prefix))) {
+    return { type: 'json_schema', json_schema: { ...schema, strict: true } };
+  }
+
+  if (JSON_MODE_MODELS.some(prefix => model.startsWith(prefix))) {
+    return { type: 'json_object' };
+  }
+
+  return undefined;
+}
+
+/**
+ * Rough token count for providers that don't report one, at about four
+ * characters per token
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * OpenAI chat completions. Uses OPENAI_MODEL, or OPENAI_FAST_MODEL for
+ * requests that prefer a cheaper model.
+ */
+export class OpenAILlmProvider implements LlmProvider {
+  readonly name = 'openai';
+  private client: OpenAI | null = null;
+
+  constructor(
+    private readonly models: { default: string; fast: string } = {
+      default: process.env.OPENAI_MODEL || 'gpt-4o',
+      fast: process.env.OPENAI_FAST_MODEL || 'gpt-4o-mini'
+    }
+  ) {}
+
+  async complete(request: LlmRequest): Promise<LlmCompletion> {
+    const model = request.fast ? this.models.fast : this.models.default;
+
+    const completion = await this.getClient().chat.completions.create({
+      model,
+      messages: request.messages,
+      temperature: request.temperature ?? 0.7,
+      max_tokens: request.maxTokens,
+      ...(request.responseSchema && {
+        response_format: getJsonResponseFormat(model, request.responseSchema)
+      })
+    });
+
+    const promptTokens = completion.usage?.prompt_tokens ?? 0;
+    const completionTokens = completion.usage?.completion_tokens ?? 0;
+
+    return {
+      content: completion.choices[0]?.message?.content || '',
+      provider: this.name,
+      model: completion.model || model,
+      usage: {
+        promptTokens,
+        completionTokens,
+        costUsd: getLlmCost(completion.model || model, promptTokens, completionTokens)
+      }
+    };
+  }
+
+  // Created on first use so the app starts without an API key
+  private getClient(): OpenAI {
+    if (!this.client) {
+      this.client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+    }
+    return this.client;
+  }
+}
+
+/**
+ * Rule-based replies built from each request's context. Deterministic and
+ * free, for local development and deployments without an API key.
+ */
+export class LocalLlmProvider implements LlmProvider {
+  readonly name = 'local';
+
+  async complete(request: LlmRequest): Promise<LlmCompletion> {
+    const content = renderLocalCompletion(request);
+
+    return {
+      content,
+      provider: this.name,
+      model: 'templates',
+      usage: {
+        promptTokens: estimateTokens(request.messages.map(message => message.content).join('\n')),
+        completionTokens: estimateTokens(content),
+        costUsd: 0
+      }
+    };
+  }
+}
+
+// Recorded replies by task. A list is replayed in order, repeating the last.
+export type LlmFixtures = Partial<Record<LlmTask, string | string[]>>;
+
+/**
+ * Replays recorded replies, for tests. Fixtures default to the JSON file at
+ * LLM_FIXTURES_PATH, which the `record` provider writes.
+ */
+export class FixtureLlmProvider implements LlmProvider {
+  readonly name = 'fixture';
+  private readonly calls = new Map<LlmTask, number>();
+
+  constructor(private readonly fixtures: LlmFixtures = loadLlmFixtures(getLlmFixturesPath())) {}
+
+  async complete(request: LlmRequest): Promise<LlmCompletion> {
+    const recorded = this.fixtures[request.task];
+    if (recorded === undefined) {
+      throw new Error(`No recorded LLM reply for ${request.task}`);
+    }
+
+    const replies = Array.isArray(recorded) ? recorded : [recorded];
+    const call = this.calls.get(request.task) ?? 0;
+    this.calls.set(request.task, call + 1);
+
+    const content = replies[Math.min(call, replies.length - 1)];
+
+    return {
+      content,
+      provider: this.name,
+      model: 'fixture',
+      usage: {
+        promptTokens: estimateTokens(request.messages.map(message => message.content).join('\n')),
+        completionTokens: estimateTokens(content),
+        costUsd: 0
+      }
+    };
+  }
+}
+
+/**
+ * Passes requests through to another provider and saves its replies as
+ * fixtures for `FixtureLlmProvider`
+ */
+export class RecordingLlmProvider implements LlmProvider {
+  readonly name: string;
+
+  constructor(
+    private readonly provider: LlmProvider,
+    private readonly path: string = getLlmFixturesPath()
+  ) {
+    this.name = provider.name;
+  }
+
+  async complete(request: LlmRequest): Promise<LlmCompletion> {
+    const completion = await this.provider.complete(request);
+
+    const fixtures = loadLlmFixtures(this.path);
+    const recorded = fixtures[request.task];
+    fixtures[request.task] = [
+      ...(recorded === undefined ? [] : Array.isArray(recorded) ? recorded : [recorded]),
+      completion.content
+    ];
+
+    mkdirSync(dirname(this.path), { recursive: true });
+    writeFileSync(this.path, JSON.stringify(fixtures, null, 2));
+
+    return completion;
+  }
+}
+
+const providerFactories: Record<string, () => LlmProvider> = {
+  openai: () => new OpenAILlmProvider(),
+  local: () => new LocalLlmProvider(),
+  fixture: () => new FixtureLlmProvider(),
+  record: () => new RecordingLlmProvider(new OpenAILlmProvider())
+};
+
+let activeProvider: LlmProvider | null = null;
+
+/**
+ * Register an LLM provider so it can be selected with LLM_PROVIDER
+ */
+export function registerLlmProvider(name: string, factory: () => LlmProvider): void {
+  providerFactories[name] = factory;
+}
+
+/**
+ * Get the configured LLM provider. Defaults to OpenAI when OPENAI_API_KEY is
+ * set and the local provider otherwise.
+ */
+export function getLlmProvider(): LlmProvider {
+  if (!activeProvider) {
+    const name = process.env.LLM_PROVIDER || (process.env.OPENAI_API_KEY ? 'openai' : 'local');
+    const factory = providerFactories[name];
+
+    if (!factory) {
+      throw new Error(`Unknown LLM provider: ${name}`);
+    }
+
+    activeProvider = factory();
+  }
+
+  return activeProvider;
+}
+
+/**
+ * Override the LLM provider, or pass null to go back to the configured one
+ */
+export function setLlmProvider(provider: LlmProvider | null): void {
+  activeProvider = provider;
+}
+
+function getLlmFixturesPath(): string {
+  return process.env.LLM_FIXTURES_PATH || join(process.cwd(), 'test', 'fixtures', 'llm.json');
+}
+
+function loadLlmFixtures(path: string): LlmFixtures {
+  return existsSync(path) ? JSON.parse(readFileSync(path, 'utf8')) : {};
+}
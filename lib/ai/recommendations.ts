@@ -0,0 +1,293 @@
+import { createHash } from 'crypto';
+import type { FinancialRecommendation } from './insights';
+
+export type RecommendationFeedbackAction = 'dismiss' | 'snooze' | 'done';
+
+export type RecommendationFeedbackStatusType = 'DISMISSED' | 'SNOOZED' | 'DONE';
+
+export interface RecommendationFeedbackState {
+  recommendationId: string;
+  title: string;
+  status: RecommendationFeedbackStatusType;
+  snoozedUntil: Date | null;
+}
+
+export interface ParsedRecommendations {
+  recommendations: FinancialRecommendation[]; // The valid ones, repaired where possible
+  errors: string[]; // Why the rest were rejected; empty when the whole reply was valid
+}
+
+export const RECOMMENDATION_TYPES: FinancialRecommendation['type'][] = [
+  'savings_opportunity',
+  'spending_alert',
+  'goal_adjustment',
+  'investment_advice'
+];
+
+export const RECOMMENDATION_IMPACTS: FinancialRecommendation['impact'][] = ['high', 'medium', 'low'];
+
+export const RECOMMENDATION_LIMITS = {
+  MAX_RECOMMENDATIONS: 5,
+  MAX_ATTEMPTS: 3, // Requests per generation, retrying invalid replies
+  MAX_TITLE_LENGTH: 80,
+  MAX_DESCRIPTION_LENGTH: 500,
+  DEFAULT_SNOOZE_DAYS: 7,
+  MAX_SNOOZE_DAYS: 90
+} as const;
+
+export const FEEDBACK_STATUSES: Record<RecommendationFeedbackAction, RecommendationFeedbackStatusType> = {
+  dismiss: 'DISMISSED',
+  snooze: 'SNOOZED',
+  done: 'DONE'
+};
+
+// Structured output schema for recommendation replies. Strict mode needs every
+// field listed as required, so optional ones are nullable instead.
+export const RECOMMENDATIONS_SCHEMA = {
+  name: 'financial_recommendations',
+  schema: {
+    type: 'object',
+    additionalProperties: false,
+    required: ['recommendations'],
+    properties: {
+      recommendations: {
+        type: 'array',
+        items: {
+          type: 'object',
+          additionalProperties: false,
+          required: ['key', 'type', 'title', 'description', 'impact', 'actionable', 'estimatedSavings', 'category'],
+          properties: {
+            key: {
+              type: 'string',
+              description: 'Short kebab-case name for the advice, e.g. "enable-round-ups". Use the same key whenever you give the same advice.'
+            },
+            type: { type: 'string', enum: RECOMMENDATION_TYPES },
+            title: { type: 'string', description: `At most ${RECOMMENDATION_LIMITS.MAX_TITLE_LENGTH} characters` },
+            description: { type: 'string', description: `At most ${RECOMMENDATION_LIMITS.MAX_DESCRIPTION_LENGTH} characters` },
+            impact: { type: 'string', enum: RECOMMENDATION_IMPACTS },
+            actionable: { type: 'boolean' },
+            estimatedSavings: { type: ['number', 'null'], description: 'Dollars the user could save, if it can be estimated' },
+            category: { type: ['string', 'null'], description: 'Spending category the advice is about, if any' }
+          }
+        }
+      }
+    }
+  }
+};
+
+const RECOMMENDATION_ID_PATTERN = /^rec_[0-9a-f]{16}$/;
+
+/**
+ * Stable id for a piece of advice, so feedback on it still applies the next
+ * time it's generated
+ */
+export function getRecommendationId(type: FinancialRecommendation['type'], key: string): string {
+  const hash = createHash('sha256').update(`${type}:${toKey(key)}`).digest('hex');
+  return `rec_${hash.slice(0, 16)}`;
+}
+
+export function isRecommendationId(id: string): boolean {
+  return RECOMMENDATION_ID_PATTERN.test(id);
+}
+
+/**
+ * Parse a model's recommendations reply, repairing what can be repaired:
+ * code fences, text around the JSON, trailing commas, a bare array, the case
+ * of enum values, numbers sent as strings and overlong text. Recommendations
+ * that still don't match the schema are dropped with an error.
+ */
+export function parseRecommendationsReply(reply: string, now: Date = new Date()): ParsedRecommendations {
+  const json = repairJson(reply);
+  if (json === undefined) {
+    return { recommendations: [], errors: ['Reply is not valid JSON'] };
+  }
+
+  const items = Array.isArray(json) ? json : (json as { recommendations?: unknown })?.recommendations;
+  if (!Array.isArray(items)) {
+    return { recommendations: [], errors: ['Reply has no "recommendations" array'] };
+  }
+
+  const recommendations: FinancialRecommendation[] = [];
+  const errors: string[] = [];
+  const seen = new Set<string>();
+
+  items.forEach((item, index) => {
+    const result = repairRecommendation(item, now);
+
+    if (typeof result === 'string') {
+      errors.push(`Recommendation ${index + 1}: ${result}`);
+    } else if (!seen.has(result.id)) {
+      seen.add(result.id);
+      recommendations.push(result);
+    }
+  });
+
+  if (items.length === 0) {
+    errors.push('Reply has no recommendations');
+  }
+
+  return { recommendations, errors };
+}
+
+/**
+ * Whether feedback on a recommendation should keep it from being shown
+ */
+export function isRecommendationHidden(feedback: RecommendationFeedbackState, now: Date = new Date()): boolean {
+  if (feedback.status === 'SNOOZED') {
+    return !!feedback.snoozedUntil && feedback.snoozedUntil.getTime() > now.getTime();
+  }
+  return true;
+}
+
+/**
+ * Drop recommendations the user has dismissed, done or snoozed, keeping at
+ * most the limit
+ */
+export function filterRecommendations(
+  recommendations: FinancialRecommendation[],
+  feedback: RecommendationFeedbackState[],
+  now: Date = new Date()
+): FinancialRecommendation[] {
+  const hidden = new Set(
+    feedback.filter(entry => isRecommendationHidden(entry, now)).map(entry => entry.recommendationId)
+  );
+
+  return recommendations
+    .filter(recommendation => !hidden.has(recommendation.id))
+    .slice(0, RECOMMENDATION_LIMITS.MAX_RECOMMENDATIONS);
+}
+
+/**
+ * Validate feedback on a recommendation, returning an error message or null
+ */
+export function validateRecommendationFeedback(
+  recommendationId: string,
+  action: string,
+  title: string,
+  snoozeDays?: number
+): string | null {
+  if (!isRecommendationId(recommendationId)) {
+    return 'Invalid recommendation id';
+  }
+
+  if (!(action in FEEDBACK_STATUSES)) {
+    return 'Action must be one of dismiss, snooze or done';
+  }
+
+  if (!title || title.trim().length === 0) {
+    return 'Recommendation title is required';
+  }
+
+  if (title.trim().length > RECOMMENDATION_LIMITS.MAX_TITLE_LENGTH) {
+    return `Recommendation title must be at most ${RECOMMENDATION_LIMITS.MAX_TITLE_LENGTH} characters`;
+  }
+
+  if (snoozeDays !== undefined && action !== 'snooze') {
+    return 'Only snoozed recommendations take a number of days';
+  }
+
+  if (snoozeDays !== undefined &&
+      (!Number.isInteger(snoozeDays) || snoozeDays < 1 || snoozeDays > RECOMMENDATION_LIMITS.MAX_SNOOZE_DAYS)) {
+    return `Snooze must be between 1 and ${RECOMMENDATION_LIMITS.MAX_SNOOZE_DAYS} days`;
+  }
+
+  return null;
+}
+
+/**
+ * When a snooze starting now ends
+ */
+export function getSnoozedUntil(now: Date, days: number = RECOMMENDATION_LIMITS.DEFAULT_SNOOZE_DAYS): Date {
+  return new Date(now.getTime() + days * 24 * 60 * 60 * 1000);
+}
+
+// Parse JSON out of a reply, or undefined if it can't be
+function repairJson(reply: string): unknown {
+  const text = reply.replace(/```(?:json)?/gi, '').trim();
+
+  const start = text.search(/[[{]/);
+  const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+  if (start === -1 || end < start) {
+    return undefined;
+  }
+
+  const candidate = text.slice(start, end + 1);
+  for (const attempt of [candidate, candidate.replace(/,\s*([}\]])/g, '$1')]) {
+    try {
+      return JSON.parse(attempt);
+    } catch {
+      // Try the next repair
+    }
+  }
+
+  return undefined;
+}
+
+// A recommendation matching the schema, or why the item can't be used
+function repairRecommendation(item: unknown, now: Date): FinancialRecommendation | string {
+  if (!item || typeof item !== 'object') {
+    return 'not an object';
+  }
+
+  const raw = item as Record<string, unknown>;
+  const title = typeof raw.title === 'string' ? raw.title.trim() : '';
+  const description = typeof raw.description === 'string' ? raw.description.trim() : '';
+
+  if (!title) {
+    return 'title is required';
+  }
+
+  if (!description) {
+    return 'description is required';
+  }
+
+  const type = toEnumValue(raw.type, RECOMMENDATION_TYPES);
+  if (!type) {
+    return `type must be one of ${RECOMMENDATION_TYPES.join(', ')}`;
+  }
+
+  const impact = toEnumValue(raw.impact, RECOMMENDATION_IMPACTS);
+  if (!impact) {
+    return `impact must be one of ${RECOMMENDATION_IMPACTS.join(', ')}`;
+  }
+
+  const key = typeof raw.key === 'string' && toKey(raw.key) ? raw.key : title;
+  const estimatedSavings = toAmount(raw.estimatedSavings);
+  const category = typeof raw.category === 'string' && raw.category.trim() ? raw.category.trim() : undefined;
+
+  return {
+    id: getRecommendationId(type, key),
+    type,
+    title: truncate(title, RECOMMENDATION_LIMITS.MAX_TITLE_LENGTH),
+    description: truncate(description, RECOMMENDATION_LIMITS.MAX_DESCRIPTION_LENGTH),
+    impact,
+    actionable: raw.actionable === undefined || raw.actionable === null
+      ? true
+      : raw.actionable === true || raw.actionable === 'true',
+    ...(estimatedSavings !== undefined && { estimatedSavings }),
+    ...(category && { category }),
+    createdAt: now
+  };
+}
+
+function toEnumValue<T extends string>(value: unknown, allowed: T[]): T | undefined {
+  if (typeof value !== 'string') return undefined;
+
+  const normalized = value.trim().toLowerCase().replace(/[\s-]+/g, '_');
+  return allowed.find(option => option === normalized);
+}
+
+function toAmount(value: unknown): number | undefined {
+  const amount = typeof value === 'string' ? parseFloat(value.replace(/[$,\s]/g, '')) : value;
+  return typeof amount === 'number' && Number.isFinite(amount) && amount > 0
+    ? Math.round(amount * 100) / 100
+    : undefined;
+}
+
+function toKey(value: string): string {
+  return value.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1).trimEnd()}…` : text;
+}
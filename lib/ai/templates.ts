@@ -0,0 +1,137 @@
+import type { LlmRequest, LlmTask, LlmTaskContexts } from './providers';
+
+type Templates = { [T in LlmTask]: (context: LlmTaskContexts[T]) => string };
+
+const TEMPLATES: Templates = {
+  spending_insights: ({ categories, spendingVelocity }) => {
+    const insights: string[] = [];
+
+    if (categories.length > 0) {
+      const top = categories[0];
+      insights.push(`Your highest spending category is ${top.category} at $${top.amount.toFixed(2)} (${top.percentage.toFixed(1)}% of total spending).`);
+    }
+
+    if (spendingVelocity === 'increasing') {
+      insights.push('Your spending has been increasing recently - consider reviewing your budget to stay on track with savings goals.');
+    } else if (spendingVelocity === 'decreasing') {
+      insights.push('Great job! Your spending has been decreasing, which means more money available for savings.');
+    }
+
+    insights.push('Round-up savings are automatically helping you save with every purchase.');
+
+    return insights.join('\n');
+  },
+
+  // Answers in the recommendations JSON schema, with the same keys as the
+  // service's fallbacks so feedback on one applies to the other
+  recommendations: context => {
+    const recommendations: object[] = [];
+    const top = context.categories[0];
+
+    if (!context.roundUpEnabled) {
+      recommendations.push({
+        key: 'enable-round-ups',
+        type: 'savings_opportunity',
+        title: 'Enable Round-up Savings',
+        description: 'Automatically round up your purchases to the nearest dollar and save the difference.',
+        impact: 'medium',
+        actionable: true,
+        estimatedSavings: 50,
+        category: null
+      });
+    }
+
+    if (top && top.percentage >= 30) {
+      recommendations.push({
+        key: `cut-back-${top.category}`,
+        type: 'savings_opportunity',
+        title: `Cut Back on ${top.category}`,
+        description: `${top.category} makes up ${top.percentage.toFixed(0)}% of your spending. Trimming it by a tenth would save about $${(top.amount * 0.1).toFixed(2)}.`,
+        impact: top.percentage >= 50 ? 'high' : 'medium',
+        actionable: true,
+        estimatedSavings: Math.round(top.amount * 10) / 100,
+        category: top.category
+      });
+    }
+
+    if (context.spendingVelocity === 'increasing') {
+      recommendations.push({
+        key: 'watch-rising-spending',
+        type: 'spending_alert',
+        title: 'Watch Your Rising Spending',
+        description: 'Your spending has grown over recent months. Set a weekly budget alert to keep it in check.',
+        impact: 'medium',
+        actionable: true,
+        estimatedSavings: null,
+        category: null
+      });
+    }
+
+    if (!context.monthlyTarget) {
+      recommendations.push({
+        key: 'set-monthly-goal',
+        type: 'goal_adjustment',
+        title: 'Set a Monthly Savings Goal',
+        description: 'Having a specific target helps you stay motivated and track your progress.',
+        impact: 'high',
+        actionable: true,
+        estimatedSavings: null,
+        category: null
+      });
+    }
+
+    if (!context.autoInvestEnabled) {
+      recommendations.push({
+        key: 'enable-auto-invest',
+        type: 'investment_advice',
+        title: 'Enable Auto-investing',
+        description: 'Let your savings earn yield automatically through DeFi protocols.',
+        impact: 'medium',
+        actionable: true,
+        estimatedSavings: null,
+        category: null
+      });
+    }
+
+    recommendations.push({
+      key: 'raise-savings-target',
+      type: 'goal_adjustment',
+      title: 'Review Your Savings Target',
+      description: 'Your savings habits are set up. Consider raising your target a little to save more.',
+      impact: 'low',
+      actionable: true,
+      estimatedSavings: null,
+      category: null
+    });
+
+    return JSON.stringify({ recommendations });
+  },
+
+  savings_adjustments: context => {
+    const adjustments = [
+      context.roundUpEnabled
+        ? 'Increase your round-up amount to save more with each transaction'
+        : 'Turn on round-ups to save the spare change from every purchase',
+      context.dailySavingsRate > 0
+        ? `Set up an automatic weekly transfer of $${(context.dailySavingsRate * 7).toFixed(2)} to double your savings rate`
+        : 'Set up automatic weekly transfers to boost your savings rate',
+      context.savingsGoal
+        ? 'Review and reduce spending in your top expense categories'
+        : 'Set a savings goal so you can see how close you are each week'
+    ];
+
+    if (!context.autoInvestEnabled) {
+      adjustments.push('Enable auto-investing to earn yield on your savings');
+    }
+
+    return adjustments.join('\n');
+  }
+};
+
+/**
+ * Reply to a request from its context alone, the same way every time
+ */
+export function renderLocalCompletion(request: LlmRequest): string {
+  const template = TEMPLATES[request.task] as (context: LlmTaskContexts[LlmTask]) => string;
+  return template(request.context);
+}
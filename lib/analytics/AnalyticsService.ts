@@ -1,4 +1,6 @@
 import { prisma } from '../db/prisma';
+import { TransactionStatus, TransactionType } from '@prisma/client';
+import { DEFAULT_CURRENCY, fromMinorUnits } from '../utils/money';
 import Redis from 'ioredis';
 
 export interface AnalyticsEvent {
@@ -369,10 +371,11 @@ export class AnalyticsService {
       ] = await Promise.all([
         prisma.savingsTransaction.aggregate({
           where: {
-            type: { not: 'withdrawal' },
-            status: 'confirmed'
+            type: { not: TransactionType.WITHDRAWAL },
+            status: TransactionStatus.CONFIRMED,
+            currency: DEFAULT_CURRENCY
           },
-          _sum: { amount: true }
+          _sum: { amountMinor: true }
         }),
         prisma.user.count(),
         prisma.user.count({
@@ -382,19 +385,21 @@ export class AnalyticsService {
         }),
         prisma.savingsTransaction.aggregate({
           where: {
-            type: { not: 'withdrawal' },
-            status: 'confirmed',
+            type: { not: TransactionType.WITHDRAWAL },
+            status: TransactionStatus.CONFIRMED,
+            currency: DEFAULT_CURRENCY,
             createdAt: { gte: previousPeriodStart, lt: startDate }
           },
-          _sum: { amount: true }
+          _sum: { amountMinor: true }
         }),
         prisma.savingsTransaction.findMany({
           where: {
-            type: { not: 'withdrawal' },
-            status: 'confirmed',
+            type: { not: TransactionType.WITHDRAWAL },
+            status: TransactionStatus.CONFIRMED,
+            currency: DEFAULT_CURRENCY,
             createdAt: { gte: startDate }
           },
-          select: { userId: true, amount: true }
+          select: { userId: true, amountMinor: true }
         }),
         prisma.challengeParticipant.count({
           where: {
@@ -408,8 +413,9 @@ export class AnalyticsService {
         })
       ]);
 
-      const currentSavings = totalSavings._sum.amount || 0;
-      const previousSavings = previousPeriodSavings._sum.amount || 0;
+      // Platform totals are reported in the default currency
+      const currentSavings = fromMinorUnits(totalSavings._sum.amountMinor || 0);
+      const previousSavings = fromMinorUnits(previousPeriodSavings._sum.amountMinor || 0);
       
       const savingsGrowthRate = previousSavings > 0 
         ? ((currentSavings - previousSavings) / previousSavings) * 100 
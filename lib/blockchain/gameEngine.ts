@@ -0,0 +1,211 @@
+import { ethers } from 'ethers';
+
+// Subset of the GameEngine ABI used by the backend
+const GAME_ENGINE_ABI = [
+  'function addReferral(address user)',
+  'function updateStreak(address user)',
+  'function userStats(address user) view returns (uint256 totalPoints, uint256 level, uint256 currentStreak, uint256 longestStreak, uint256 lastActivityDate, uint256 totalSaved, uint256 challengesWon, uint256 referrals)',
+  'function createChallenge(string title, string description, uint8 challengeType, uint256 targetAmount, uint256 duration, uint256 entryFee) payable returns (bytes32)',
+  'function joinChallenge(bytes32 challengeId) payable',
+  'function distributeRewards(address[] users, uint256[] amounts, string reason)',
+  'function cancelChallenge(bytes32 challengeId)',
+  'function getChallenge(bytes32 challengeId) view returns (address creator, string title, uint8 challengeType, uint256 targetAmount, uint256 endTime, uint256 totalPrizePool, uint8 status, uint256 participantCount)',
+  'event ChallengeCreated(bytes32 indexed challengeId, address indexed creator, uint256 targetAmount, uint256 duration)',
+  'event ChallengeJoined(bytes32 indexed challengeId, address indexed participant, uint256 timestamp)'
+];
+
+const gameEngineInterface = new ethers.Interface(GAME_ENGINE_ABI);
+
+// GameEngine.ChallengeType, by database challenge type
+const ON_CHAIN_CHALLENGE_TYPES: Record<string, number> = {
+  SAVINGS_AMOUNT: 0,
+  STREAK: 1,
+  SOCIAL: 2
+};
+
+// GameEngine accepts challenges of 1-365 days
+const MAX_ON_CHAIN_DURATION_DAYS = 365;
+
+export interface OnChainChallengeInput {
+  title: string;
+  description: string;
+  type: string;
+  target: number | null; // As stored on the challenge, in minor units for savings challenges
+  duration: number; // in days
+  entryFeeWei: bigint;
+}
+
+export interface OnChainUserStats {
+  totalPoints: number;
+  level: number;
+  currentStreak: number;
+  longestStreak: number;
+  lastActivityDate: Date | null;
+  totalSaved: bigint;
+  challengesWon: number;
+  referrals: number;
+}
+
+/**
+ * Initialize blockchain provider
+ */
+function getProvider(): ethers.JsonRpcProvider {
+  const rpcUrl = process.env.MORPH_RPC_URL || 'https://rpc-quicknode-holesky.morphl2.io';
+  return new ethers.JsonRpcProvider(rpcUrl);
+}
+
+/**
+ * Check whether the GameEngine contract is configured for this environment
+ */
+export function isGameEngineConfigured(): boolean {
+  return !!process.env.GAME_ENGINE_ADDRESS && !!process.env.PRIVATE_KEY;
+}
+
+/**
+ * Get the GameEngine contract address
+ */
+export function getGameEngineAddress(): string {
+  const address = process.env.GAME_ENGINE_ADDRESS;
+  if (!address) {
+    throw new Error('GameEngine contract address not configured');
+  }
+  return address;
+}
+
+/**
+ * Get a GameEngine contract instance, connected to the owner wallet for writes
+ */
+export function getGameEngineContract(withSigner: boolean = true): ethers.Contract {
+  const address = getGameEngineAddress();
+  const provider = getProvider();
+
+  if (!withSigner) {
+    return new ethers.Contract(address, GAME_ENGINE_ABI, provider);
+  }
+
+  if (!process.env.PRIVATE_KEY) {
+    throw new Error('GameEngine owner key not configured');
+  }
+
+  const owner = new ethers.Wallet(process.env.PRIVATE_KEY, provider);
+  return new ethers.Contract(address, GAME_ENGINE_ABI, owner);
+}
+
+/**
+ * Record a referral for a user on chain. Returns once the transaction is
+ * broadcast so its hash can be saved before waiting on it.
+ */
+export async function addReferralOnChain(walletAddress: string): Promise<ethers.ContractTransactionResponse> {
+  const contract = getGameEngineContract();
+  return contract.addReferral(walletAddress);
+}
+
+/**
+ * Record a day of activity for a user on chain. The contract keeps its own
+ * streak in UTC days without freezes or repairs, so it can differ from ours.
+ */
+export async function updateStreakOnChain(walletAddress: string): Promise<string> {
+  const contract = getGameEngineContract();
+  const tx = await contract.updateStreak(walletAddress);
+  await tx.wait();
+  return tx.hash;
+}
+
+/**
+ * Read a user's GameEngine stats
+ */
+export async function getOnChainUserStats(walletAddress: string): Promise<OnChainUserStats> {
+  const contract = getGameEngineContract(false);
+  const stats = await contract.userStats(walletAddress);
+
+  return {
+    totalPoints: Number(stats.totalPoints),
+    level: Number(stats.level),
+    currentStreak: Number(stats.currentStreak),
+    longestStreak: Number(stats.longestStreak),
+    lastActivityDate: stats.lastActivityDate > BigInt(0)
+      ? new Date(Number(stats.lastActivityDate) * 1000)
+      : null,
+    totalSaved: stats.totalSaved,
+    challengesWon: Number(stats.challengesWon),
+    referrals: Number(stats.referrals)
+  };
+}
+
+/**
+ * Encode a createChallenge call, for a participant's wallet to send with the
+ * entry fee as its value
+ */
+export function encodeCreateChallenge(input: OnChainChallengeInput): string {
+  return gameEngineInterface.encodeFunctionData('createChallenge', [
+    input.title,
+    input.description,
+    ON_CHAIN_CHALLENGE_TYPES[input.type] ?? 0,
+    BigInt(Math.max(0, input.target ?? 0)),
+    Math.min(Math.max(input.duration, 1), MAX_ON_CHAIN_DURATION_DAYS),
+    input.entryFeeWei
+  ]);
+}
+
+/**
+ * Encode a joinChallenge call, for a participant's wallet to send with the
+ * entry fee as its value
+ */
+export function encodeJoinChallenge(onChainId: string): string {
+  return gameEngineInterface.encodeFunctionData('joinChallenge', [onChainId]);
+}
+
+/**
+ * Read the id of the challenge created in a createChallenge receipt
+ */
+export function getCreatedChallengeId(receipt: ethers.TransactionReceipt): string | null {
+  for (const log of receipt.logs) {
+    const parsed = gameEngineInterface.parseLog(log);
+    if (parsed?.name === 'ChallengeCreated') {
+      return parsed.args.challengeId;
+    }
+  }
+  return null;
+}
+
+/**
+ * Send a challenge pot payout from the contract balance. Returns once the
+ * transaction is broadcast so its hash can be saved before waiting on it.
+ */
+export async function sendChallengePot(
+  payouts: Array<{ walletAddress: string; amountWei: bigint }>,
+  reason: string
+): Promise<ethers.ContractTransactionResponse> {
+  const contract = getGameEngineContract();
+  return contract.distributeRewards(
+    payouts.map(payout => payout.walletAddress),
+    payouts.map(payout => payout.amountWei),
+    reason
+  );
+}
+
+/**
+ * Get the receipt of a transaction sent earlier, or null while it's pending
+ */
+export async function getTransactionReceipt(txHash: string): Promise<ethers.TransactionReceipt | null> {
+  return getProvider().getTransactionReceipt(txHash);
+}
+
+/**
+ * Look up how a transaction sent earlier turned out
+ */
+export async function getTransactionOutcome(txHash: string): Promise<'pending' | 'confirmed' | 'reverted'> {
+  const receipt = await getTransactionReceipt(txHash);
+  if (!receipt) return 'pending';
+  return receipt.status === 1 ? 'confirmed' : 'reverted';
+}
+
+/**
+ * Cancel a challenge on chain, refunding every participant's entry fee
+ */
+export async function cancelChallengeOnChain(onChainId: string): Promise<string> {
+  const contract = getGameEngineContract();
+  const tx = await contract.cancelChallenge(onChainId);
+  await tx.wait();
+  return tx.hash;
+}
@@ -0,0 +1,134 @@
+import { ethers } from 'ethers';
+import { Money, money, toMajorUnits } from '../utils/money';
+import { getFxSnapshot } from '../fx/providers';
+import { VaultEvent } from '../savings/vaultReconciliation';
+
+// Subset of the SavingsVault ABI used by the backend
+const SAVINGS_VAULT_ABI = [
+  'function withdraw(uint256 amount)',
+  'function getUserBalance(address user) view returns (uint256)',
+  'event Deposit(address indexed user, uint256 amount, uint256 timestamp)',
+  'event Withdrawal(address indexed user, uint256 amount, uint256 timestamp)'
+];
+
+export const savingsVaultInterface = new ethers.Interface(SAVINGS_VAULT_ABI);
+
+export interface VaultLogEvent extends VaultEvent {
+  walletAddress: string; // Lowercase
+}
+
+/**
+ * Initialize blockchain provider
+ */
+function getProvider(): ethers.JsonRpcProvider {
+  const rpcUrl = process.env.MORPH_RPC_URL || 'https://rpc-quicknode-holesky.morphl2.io';
+  return new ethers.JsonRpcProvider(rpcUrl);
+}
+
+/**
+ * Check whether the SavingsVault contract is configured for this environment
+ */
+export function isSavingsVaultConfigured(): boolean {
+  return !!process.env.SAVINGS_VAULT_ADDRESS && !!process.env.VAULT_ASSET_PRICE_USD;
+}
+
+/**
+ * Get the SavingsVault contract address
+ */
+export function getSavingsVaultAddress(): string {
+  const address = process.env.SAVINGS_VAULT_ADDRESS;
+  if (!address) {
+    throw new Error('SavingsVault contract address not configured');
+  }
+  return address;
+}
+
+/**
+ * Get a read-only SavingsVault contract instance
+ */
+export function getSavingsVaultContract(provider: ethers.Provider = getProvider()): ethers.Contract {
+  return new ethers.Contract(getSavingsVaultAddress(), SAVINGS_VAULT_ABI, provider);
+}
+
+/**
+ * Calldata for a withdrawal from the vault by the sending wallet
+ */
+export function encodeWithdraw(amountWei: bigint): string {
+  return savingsVaultInterface.encodeFunctionData('withdraw', [amountWei]);
+}
+
+/**
+ * Price of the vault's native asset in US dollars
+ */
+function getVaultAssetPrice(): number {
+  const price = Number(process.env.VAULT_ASSET_PRICE_USD);
+  if (!(price > 0)) {
+    throw new Error('Vault asset price not configured');
+  }
+  return price;
+}
+
+/**
+ * Convert a savings amount to the vault's native asset, priced in US dollars by
+ * VAULT_ASSET_PRICE_USD. Pass `fxRate` to use a stored rate snapshot instead of
+ * the current rate.
+ */
+export async function toVaultAmount(amount: Money, fxRate?: number): Promise<bigint> {
+  const price = getVaultAssetPrice();
+  const rate = fxRate ?? (await getFxSnapshot(amount.currency)).fxRate;
+  const usd = toMajorUnits(amount) * rate;
+  return ethers.parseEther((usd / price).toFixed(18));
+}
+
+/**
+ * Convert an amount of the vault's native asset to money in `currency` at current rates
+ */
+export async function fromVaultAmount(amountWei: bigint, currency: string): Promise<Money> {
+  const usd = Number(ethers.formatEther(amountWei)) * getVaultAssetPrice();
+  const { fxRate } = await getFxSnapshot(currency);
+  return money(usd / fxRate, currency);
+}
+
+/**
+ * Read Deposit and Withdrawal events for all wallets between two blocks. Logs
+ * are fetched in ranges to stay within RPC provider limits.
+ */
+export async function getVaultEvents(
+  fromBlock: number,
+  toBlock: number,
+  provider: ethers.Provider = getProvider(),
+  blockRange: number = 5000
+): Promise<VaultLogEvent[]> {
+  const contract = getSavingsVaultContract(provider);
+  const events: VaultLogEvent[] = [];
+
+  for (let start = fromBlock; start <= toBlock; start += blockRange) {
+    const end = Math.min(start + blockRange - 1, toBlock);
+    const [deposits, withdrawals] = await Promise.all([
+      contract.queryFilter(contract.filters.Deposit(), start, end),
+      contract.queryFilter(contract.filters.Withdrawal(), start, end)
+    ]);
+
+    for (const log of [...deposits, ...withdrawals]) {
+      if (!(log instanceof ethers.EventLog)) continue;
+
+      events.push({
+        flow: log.eventName === 'Deposit' ? 'DEPOSIT' : 'WITHDRAWAL',
+        walletAddress: (log.args.user as string).toLowerCase(),
+        txHash: log.transactionHash,
+        amountWei: log.args.amount as bigint,
+        blockNumber: log.blockNumber,
+        timestamp: new Date(Number(log.args.timestamp) * 1000)
+      });
+    }
+  }
+
+  return events.sort((a, b) => a.blockNumber - b.blockNumber);
+}
+
+/**
+ * Read a wallet's balance in the vault, in wei
+ */
+export async function getVaultBalance(walletAddress: string): Promise<bigint> {
+  return getSavingsVaultContract().getUserBalance(walletAddress);
+}
@@ -1,6 +1,16 @@
 import { prisma } from './prisma';
-import { Achievement, UserAchievement, AchievementCategory, AchievementRarity, Prisma } from '@prisma/client';
-import { updateUserStats } from './user';
+import { Achievement, UserAchievement, AchievementCategory, AchievementRarity, PointsReason, Prisma } from '@prisma/client';
+import { awardPoints } from './points';
+import { recordActivity } from './activityFeed';
+import { getProfileVisibilities } from './privacy';
+import { anonymizeEntry, getPrivacySettingsShowing } from '../social/privacy';
+import {
+  AchievementCriteria,
+  MetricResolver,
+  createMetricResolver,
+  evaluateAchievementCriteria,
+  parseAchievementCriteria
+} from '../gamification/achievementRules';
 
 export interface CreateAchievementInput {
   name: string;
@@ -9,6 +19,7 @@ export interface CreateAchievementInput {
   category: AchievementCategory;
   rarity: AchievementRarity;
   pointsReward: number;
+  criteria?: AchievementCriteria | null;
 }
 
 export interface AchievementWithProgress extends Achievement {
@@ -33,7 +44,10 @@ export interface AchievementStats {
  */
 export async function createAchievement(input: CreateAchievementInput): Promise<Achievement> {
   return prisma.achievement.create({
-    data: input
+    data: {
+      ...input,
+      criteria: toCriteriaJson(input.criteria)
+    }
   });
 }
 
@@ -79,13 +93,21 @@ export async function getUserAchievements(
     userAchievements.map(ua => [ua.achievementId, ua])
   );
 
-  return allAchievements.map(achievement => ({
-    ...achievement,
-    isUnlocked: unlockedMap.has(achievement.id),
-    unlockedAt: unlockedMap.get(achievement.id)?.unlockedAt,
-    progress: calculateAchievementProgress(userId, achievement),
-    maxProgress: getAchievementMaxProgress(achievement)
-  }));
+  const resolve = createMetricResolver(userId);
+
+  return Promise.all(
+    allAchievements.map(async achievement => {
+      const isUnlocked = unlockedMap.has(achievement.id);
+      const progress = await calculateAchievementProgress(achievement, resolve, isUnlocked);
+
+      return {
+        ...achievement,
+        isUnlocked,
+        unlockedAt: unlockedMap.get(achievement.id)?.unlockedAt,
+        ...progress
+      };
+    })
+  );
 }
 
 /**
@@ -129,11 +151,9 @@ export async function unlockAchievement(
     }
   });
 
-  // Update user's total points
-  await updateUserStats(userId, {
-    totalPoints: {
-      increment: achievement.pointsReward
-    }
+  await awardPoints(userId, achievement.pointsReward, PointsReason.ACHIEVEMENT, {
+    referenceId: achievement.id,
+    dedupeKey: `achievement:${userAchievement.id}`
   });
 
   // Create notification
@@ -150,6 +170,12 @@ export async function unlockAchievement(
     }
   });
 
+  await recordActivity(userId, 'ACHIEVEMENT_UNLOCKED', {
+    achievementId: achievement.id,
+    name: achievement.name,
+    icon: achievement.icon
+  }, `achievement:${userAchievement.id}`);
+
   return userAchievement;
 }
 
@@ -164,10 +190,7 @@ export async function checkAndUnlockAchievements(
   const user = await prisma.user.findUnique({
     where: { id: userId },
     include: {
-      achievements: true,
-      savingsTransactions: {
-        where: { status: 'CONFIRMED' }
-      }
+      achievements: true
     }
   });
 
@@ -175,6 +198,7 @@ export async function checkAndUnlockAchievements(
 
   const unlockedAchievements: UserAchievement[] = [];
   const alreadyUnlocked = new Set(user.achievements.map(ua => ua.achievementId));
+  const resolve = createMetricResolver(userId);
 
   // Get relevant achievements to check
   const achievementsToCheck = await getAchievementsByCategory(
@@ -184,12 +208,7 @@ export async function checkAndUnlockAchievements(
   for (const achievement of achievementsToCheck) {
     if (alreadyUnlocked.has(achievement.id)) continue;
 
-    const shouldUnlock = await checkAchievementCriteria(
-      user,
-      achievement,
-      activityType,
-      activityData
-    );
+    const shouldUnlock = await checkAchievementCriteria(achievement, resolve);
 
     if (shouldUnlock) {
       const userAchievement = await unlockAchievement(userId, achievement.id);
@@ -262,10 +281,12 @@ export async function getUserAchievementStats(userId: string): Promise<Achieveme
 }
 
 /**
- * Get achievement leaderboard
+ * Get achievement leaderboard as `viewerId` may see it. Private users are left
+ * out and users whose stats the viewer can't see are shown anonymously.
  */
 export async function getAchievementLeaderboard(
-  limit: number = 10
+  limit: number = 10,
+  viewerId?: string | null
 ): Promise<Array<{
   userId: string;
   username: string;
@@ -276,7 +297,10 @@ export async function getAchievementLeaderboard(
   totalPoints: number;
 }>> {
   const result = await prisma.user.findMany({
-    where: { isActive: true },
+    where: {
+      isActive: true,
+      privacyLevel: { in: getPrivacySettingsShowing('listed', 'none') }
+    },
     select: {
       id: true,
       username: true,
@@ -284,6 +308,7 @@ export async function getAchievementLeaderboard(
       lastName: true,
       profileImage: true,
       totalPoints: true,
+      privacyLevel: true,
       _count: {
         select: {
           achievements: true
@@ -292,20 +317,22 @@ export async function getAchievementLeaderboard(
     },
     orderBy: [
       { totalPoints: 'desc' },
-      { _count: { achievements: 'desc' } }
+      { achievements: { _count: 'desc' } }
     ],
     take: limit
   });
 
-  return result.map(user => ({
+  const visibilities = await getProfileVisibilities(result, viewerId);
+
+  return result.map(user => anonymizeEntry({
     userId: user.id,
     username: user.username,
-    firstName: user.firstName,
-    lastName: user.lastName,
-    profileImage: user.profileImage,
+    firstName: user.firstName ?? undefined,
+    lastName: user.lastName ?? undefined,
+    profileImage: user.profileImage ?? undefined,
     achievementCount: user._count.achievements,
     totalPoints: user.totalPoints
-  }));
+  }, visibilities.get(user.id)!));
 }
 
 /**
@@ -326,85 +353,52 @@ export async function getRareAchievements(): Promise<Achievement[]> {
  * Get achievement progress for specific achievement
  */
 async function calculateAchievementProgress(
-  userId: string,
-  achievement: Achievement
-): Promise<number> {
-  // This would be implemented based on specific achievement criteria
-  // For now, return 0 as placeholder
-  return 0;
-}
+  achievement: Achievement,
+  resolve: MetricResolver,
+  isUnlocked: boolean
+): Promise<{ progress?: number; maxProgress?: number }> {
+  const criteria = parseAchievementCriteria(achievement.criteria);
 
-/**
- * Get maximum progress value for achievement
- */
-function getAchievementMaxProgress(achievement: Achievement): number {
-  // This would be based on achievement criteria
-  // For now, return 100 as placeholder
-  return 100;
+  // Achievements without criteria are awarded manually and have no progress bar
+  if (!criteria) return {};
+
+  const evaluation = await evaluateAchievementCriteria(criteria, resolve);
+
+  return {
+    progress: isUnlocked ? evaluation.maxProgress : evaluation.progress,
+    maxProgress: evaluation.maxProgress
+  };
 }
 
 /**
  * Check if user meets achievement criteria
  */
 async function checkAchievementCriteria(
-  user: any,
   achievement: Achievement,
-  activityType: string,
-  activityData: any
+  resolve: MetricResolver
 ): Promise<boolean> {
-  switch (achievement.name) {
-    case 'First Save':
-      return user.totalSaved > 0;
-    
-    case 'Century Club':
-      return user.totalSaved >= 100;
-    
-    case 'Thousand Club':
-      return user.totalSaved >= 1000;
-    
-    case 'Week Warrior':
-      return user.longestStreak >= 7;
-    
-    case 'Month Master':
-      return user.longestStreak >= 30;
-    
-    case 'Year Champion':
-      return user.longestStreak >= 365;
-    
-    case 'Social Butterfly':
-      // Check referral count
-      const referralCount = await prisma.user.count({
-        where: {
-          // This would need a referral tracking system
-        }
-      });
-      return referralCount >= 5;
-    
-    case 'Community Builder':
-      // Check referral count
-      const communityReferrals = await prisma.user.count({
-        where: {
-          // This would need a referral tracking system
-        }
-      });
-      return communityReferrals >= 25;
-    
-    case 'Early Adopter':
-      const totalUsers = await prisma.user.count();
-      return totalUsers <= 1000;
-    
-    case 'Challenge Champion':
-      const challengesWon = await prisma.challengeParticipant.count({
-        where: {
-          userId: user.id,
-          rank: 1
-        }
-      });
-      return challengesWon >= 10;
-    
-    default:
-      return false;
+  const criteria = parseAchievementCriteria(achievement.criteria);
+  if (!criteria) return false;
+
+  const evaluation = await evaluateAchievementCriteria(criteria, resolve);
+  return evaluation.met;
+}
+
+/**
+ * Validate criteria before it is stored on an achievement
+ */
+function toCriteriaJson(
+  criteria: AchievementCriteria | null | undefined
+): Prisma.InputJsonValue | typeof Prisma.DbNull | undefined {
+  if (criteria === undefined) return undefined;
+  if (criteria === null) return Prisma.DbNull;
+
+  const parsed = parseAchievementCriteria(criteria);
+  if (!parsed) {
+    throw new Error('Invalid achievement criteria');
   }
+
+  return parsed as unknown as Prisma.InputJsonValue;
 }
 
 /**
@@ -416,7 +410,10 @@ export async function updateAchievement(
 ): Promise<Achievement> {
   return prisma.achievement.update({
     where: { id },
-    data: input
+    data: {
+      ...input,
+      criteria: toCriteriaJson(input.criteria)
+    }
   });
 }
 
@@ -467,11 +464,13 @@ export async function bulkUnlockAchievements(
 }
 
 /**
- * Get users who have unlocked a specific achievement
+ * Get users who have unlocked a specific achievement, leaving out those whose
+ * achievements `viewerId` can't see
  */
 export async function getAchievementHolders(
   achievementId: string,
-  limit: number = 50
+  limit: number = 50,
+  viewerId?: string | null
 ): Promise<Array<{
   userId: string;
   username: string;
@@ -483,7 +482,8 @@ export async function getAchievementHolders(
       user: {
         select: {
           id: true,
-          username: true
+          username: true,
+          privacyLevel: true
         }
       }
     },
@@ -491,7 +491,9 @@ export async function getAchievementHolders(
     take: limit
   });
 
-  return holders.map(holder => ({
+  const visibilities = await getProfileVisibilities(holders.map(holder => holder.user), viewerId);
+
+  return holders.filter(holder => visibilities.get(holder.user.id)!.achievements).map(holder => ({
     userId: holder.user.id,
     username: holder.user.username,
     unlockedAt: holder.unlockedAt
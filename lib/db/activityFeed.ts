@@ -0,0 +1,390 @@
+import { prisma } from './prisma';
+import {
+  Activity,
+  ActivityComment,
+  ActivityReaction,
+  ActivityReactionType,
+  ActivityType,
+  FriendshipStatus,
+  Prisma
+} from '@prisma/client';
+import {
+  ACTIVITY_REACTIONS,
+  ActivityDataByType,
+  ActivityKind,
+  describeActivity,
+  getFeedPageSize,
+  validateComment
+} from '../social/activityFeed';
+import { canViewActivity } from '../social/privacy';
+import { getViewerRelation } from './privacy';
+import { createSocialNotification } from './notifications';
+import { wsIntegration } from '../websocket/integration';
+
+export interface FeedItem {
+  id: string; // The activity id
+  type: ActivityType;
+  user: {
+    id: string;
+    username: string;
+    profileImage: string | null;
+  };
+  message: string;
+  data: Prisma.JsonValue;
+  createdAt: Date;
+  reactionCounts: Record<ActivityReactionType, number>;
+  viewerReaction: ActivityReactionType | null;
+  commentCount: number;
+}
+
+export interface FeedPage {
+  items: FeedItem[]; // Newest first
+  nextCursor: string | null; // Pass as `cursor` for the next page
+}
+
+export interface ActivityCommentWithUser extends ActivityComment {
+  user: FeedItem['user'];
+}
+
+const userSelect = {
+  id: true,
+  username: true,
+  profileImage: true
+} as const;
+
+const activityInclude = {
+  user: { select: userSelect },
+  _count: { select: { comments: true } }
+} as const;
+
+type ActivityWithUser = Prisma.ActivityGetPayload<{ include: typeof activityInclude }>;
+
+/**
+ * Record something a user did and fan it out to their own feed and, unless
+ * their profile is private, their friends' feeds, pushing it to them live.
+ * Events with a `dedupeKey` are only recorded once. The feed is best effort,
+ * so failures are logged rather than thrown.
+ */
+export async function recordActivity<T extends ActivityKind>(
+  userId: string,
+  type: T,
+  data: ActivityDataByType[T],
+  dedupeKey?: string
+): Promise<Activity | null> {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { privacyLevel: true }
+    });
+    if (!user) return null;
+
+    const activity = await prisma.activity.create({
+      data: {
+        userId,
+        type: type as ActivityType,
+        data: data as unknown as Prisma.InputJsonValue,
+        dedupeKey
+      }
+    });
+
+    const friendIds = canViewActivity(user.privacyLevel, 'friend') ? await getFriendIds(userId) : [];
+    const ownerIds = [userId, ...friendIds];
+
+    await prisma.feedEntry.createMany({
+      data: ownerIds.map(ownerId => ({ ownerId, activityId: activity.id, createdAt: activity.createdAt }))
+    });
+
+    await wsIntegration.broadcastActivity(activity.id, ownerIds);
+
+    return activity;
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return null; // Already recorded
+    }
+    console.error(`Error recording ${type} activity for user ${userId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Get a page of the user's feed: their own activity and their friends', newest
+ * first. Friends who have since gone private or been unfriended drop out.
+ */
+export async function getActivityFeed(
+  userId: string,
+  options: { cursor?: string; limit?: number } = {}
+): Promise<FeedPage> {
+  const take = getFeedPageSize(options.limit);
+  const friends = await prisma.user.findMany({
+    where: { id: { in: await getFriendIds(userId) } },
+    select: { id: true, privacyLevel: true }
+  });
+  const visibleFriendIds = friends
+    .filter(friend => canViewActivity(friend.privacyLevel, 'friend'))
+    .map(friend => friend.id);
+
+  const entries = await prisma.feedEntry.findMany({
+    where: {
+      ownerId: userId,
+      activity: { userId: { in: [userId, ...visibleFriendIds] } }
+    },
+    include: { activity: { include: activityInclude } },
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    take: take + 1,
+    ...(options.cursor && { cursor: { id: options.cursor }, skip: 1 })
+  });
+
+  const page = entries.slice(0, take);
+
+  return {
+    items: await toFeedItems(page.map(entry => entry.activity), userId),
+    nextCursor: entries.length > take ? page[page.length - 1].id : null
+  };
+}
+
+/**
+ * Get one user's activity as another user sees it on their profile, under the
+ * owner's privacy setting
+ */
+export async function getUserActivity(
+  targetUserId: string,
+  viewerId: string,
+  options: { cursor?: string; limit?: number } = {}
+): Promise<FeedPage> {
+  const target = await prisma.user.findUnique({
+    where: { id: targetUserId },
+    select: { privacyLevel: true }
+  });
+
+  if (!target) {
+    throw new Error('User not found');
+  }
+
+  const relation = await getViewerRelation(targetUserId, viewerId);
+  if (!canViewActivity(target.privacyLevel, relation)) {
+    return { items: [], nextCursor: null };
+  }
+
+  const take = getFeedPageSize(options.limit);
+  const activities = await prisma.activity.findMany({
+    where: { userId: targetUserId },
+    include: activityInclude,
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    take: take + 1,
+    ...(options.cursor && { cursor: { id: options.cursor }, skip: 1 })
+  });
+
+  const page = activities.slice(0, take);
+
+  return {
+    items: await toFeedItems(page, viewerId),
+    nextCursor: activities.length > take ? page[page.length - 1].id : null
+  };
+}
+
+/**
+ * React to an activity, replacing any earlier reaction by the same user
+ */
+export async function reactToActivity(
+  activityId: string,
+  userId: string,
+  type: ActivityReactionType
+): Promise<ActivityReaction> {
+  if (!ACTIVITY_REACTIONS.includes(type)) {
+    throw new Error(`Reaction must be one of ${ACTIVITY_REACTIONS.join(', ')}`);
+  }
+
+  const activity = await getViewableActivity(activityId, userId);
+
+  const existing = await prisma.activityReaction.findUnique({
+    where: { activityId_userId: { activityId, userId } }
+  });
+
+  const reaction = await prisma.activityReaction.upsert({
+    where: { activityId_userId: { activityId, userId } },
+    create: { activityId, userId, type },
+    update: { type }
+  });
+
+  if (!existing && activity.userId !== userId) {
+    await notifyActivityOwner(activity, userId, 'activity_reaction', { reaction: type });
+  }
+
+  return reaction;
+}
+
+/**
+ * Take back a reaction
+ */
+export async function removeActivityReaction(activityId: string, userId: string): Promise<boolean> {
+  const result = await prisma.activityReaction.deleteMany({
+    where: { activityId, userId }
+  });
+
+  return result.count > 0;
+}
+
+/**
+ * Comment on an activity
+ */
+export async function commentOnActivity(
+  activityId: string,
+  userId: string,
+  body: string
+): Promise<ActivityCommentWithUser> {
+  const error = validateComment(body);
+  if (error) {
+    throw new Error(error);
+  }
+
+  const activity = await getViewableActivity(activityId, userId);
+
+  const comment = await prisma.activityComment.create({
+    data: { activityId, userId, body: body.trim() },
+    include: { user: { select: userSelect } }
+  });
+
+  if (activity.userId !== userId) {
+    await notifyActivityOwner(activity, userId, 'activity_comment', { commentId: comment.id });
+  }
+
+  return comment;
+}
+
+/**
+ * Get an activity's comments, oldest first
+ */
+export async function getActivityComments(
+  activityId: string,
+  userId: string,
+  options: { cursor?: string; limit?: number } = {}
+): Promise<{ comments: ActivityCommentWithUser[]; nextCursor: string | null }> {
+  await getViewableActivity(activityId, userId);
+
+  const take = getFeedPageSize(options.limit);
+  const comments = await prisma.activityComment.findMany({
+    where: { activityId },
+    include: { user: { select: userSelect } },
+    orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    take: take + 1,
+    ...(options.cursor && { cursor: { id: options.cursor }, skip: 1 })
+  });
+
+  const page = comments.slice(0, take);
+
+  return {
+    comments: page,
+    nextCursor: comments.length > take ? page[page.length - 1].id : null
+  };
+}
+
+/**
+ * Delete a comment. Its author and the activity's owner can delete it.
+ */
+export async function deleteActivityComment(commentId: string, userId: string): Promise<ActivityComment> {
+  const comment = await prisma.activityComment.findUnique({
+    where: { id: commentId },
+    include: { activity: { select: { userId: true } } }
+  });
+
+  if (!comment) {
+    throw new Error('Comment not found');
+  }
+
+  if (comment.userId !== userId && comment.activity.userId !== userId) {
+    throw new Error('Only the author or the activity owner can delete a comment');
+  }
+
+  return prisma.activityComment.delete({
+    where: { id: commentId }
+  });
+}
+
+/**
+ * Load an activity the user is allowed to see, as if it didn't exist otherwise
+ */
+async function getViewableActivity(activityId: string, viewerId: string): Promise<Activity> {
+  const activity = await prisma.activity.findUnique({
+    where: { id: activityId },
+    include: { user: { select: { privacyLevel: true } } }
+  });
+
+  if (!activity || !canViewActivity(activity.user.privacyLevel, await getViewerRelation(activity.userId, viewerId))) {
+    throw new Error('Activity not found');
+  }
+
+  return activity;
+}
+
+async function getFriendIds(userId: string): Promise<string[]> {
+  const friendships = await prisma.friendship.findMany({
+    where: {
+      status: FriendshipStatus.ACCEPTED,
+      OR: [{ userId }, { friendId: userId }]
+    },
+    select: { userId: true, friendId: true }
+  });
+
+  // Accepted friendships may be stored in one or both directions
+  return [...new Set(
+    friendships.map(friendship => (friendship.userId === userId ? friendship.friendId : friendship.userId))
+  )];
+}
+
+async function notifyActivityOwner(
+  activity: Activity,
+  fromUserId: string,
+  notificationType: 'activity_reaction' | 'activity_comment',
+  additionalData: Record<string, string>
+): Promise<void> {
+  const fromUser = await prisma.user.findUnique({
+    where: { id: fromUserId },
+    select: { username: true }
+  });
+
+  await createSocialNotification(activity.userId, fromUser?.username || 'A friend', notificationType, {
+    activityId: activity.id,
+    fromUserId,
+    ...additionalData
+  });
+}
+
+/**
+ * Add reaction counts, the viewer's own reaction and rendered messages
+ */
+async function toFeedItems(activities: ActivityWithUser[], viewerId: string): Promise<FeedItem[]> {
+  const activityIds = activities.map(activity => activity.id);
+
+  const [reactionGroups, viewerReactions] = await Promise.all([
+    prisma.activityReaction.groupBy({
+      by: ['activityId', 'type'],
+      where: { activityId: { in: activityIds } },
+      _count: { _all: true }
+    }),
+    prisma.activityReaction.findMany({
+      where: { activityId: { in: activityIds }, userId: viewerId },
+      select: { activityId: true, type: true }
+    })
+  ]);
+
+  return activities.map(activity => {
+    const reactionCounts = Object.fromEntries(ACTIVITY_REACTIONS.map(type => [type, 0])) as Record<ActivityReactionType, number>;
+    for (const group of reactionGroups) {
+      if (group.activityId === activity.id) {
+        reactionCounts[group.type] = group._count._all;
+      }
+    }
+
+    return {
+      id: activity.id,
+      type: activity.type,
+      user: activity.user,
+      message: describeActivity(activity.type, activity.data as unknown as ActivityDataByType[ActivityKind]),
+      data: activity.data,
+      createdAt: activity.createdAt,
+      reactionCounts,
+      viewerReaction: viewerReactions.find(reaction => reaction.activityId === activity.id)?.type ?? null,
+      commentCount: activity._count.comments
+    };
+  });
+}
@@ -1,6 +1,7 @@
 import { prisma } from './prisma';
 import { BankAccount, AccountType } from '@prisma/client';
 import { encrypt, decrypt } from '../utils/encryption';
+import { Money, MoneyJSON, money, moneyFromMinor, toMoneyJSON } from '../utils/money';
 
 export interface CreateBankAccountInput {
   userId: string;
@@ -10,13 +11,13 @@ export interface CreateBankAccountInput {
   bankName: string;
   accountNumber: string; // Will be encrypted
   routingNumber?: string; // Will be encrypted
-  balance?: number;
-  currency?: string;
+  balance?: Money;
+  currency?: string; // Defaults to the balance currency, then USD
 }
 
 export interface UpdateBankAccountInput {
   accountName?: string;
-  balance?: number;
+  balance?: Money;
   isActive?: boolean;
   isVerified?: boolean;
 }
@@ -56,8 +57,8 @@ export async function createBankAccount(
       bankName: input.bankName,
       accountNumber: encryptedAccountNumber,
       routingNumber: encryptedRoutingNumber,
-      balance: input.balance,
-      currency: input.currency || 'USD'
+      balanceMinor: input.balance?.minor,
+      currency: input.balance?.currency || input.currency || 'USD'
     }
   });
 }
@@ -126,10 +127,13 @@ export async function updateBankAccount(
   id: string,
   input: UpdateBankAccountInput
 ): Promise<BankAccount> {
+  const { balance, ...data } = input;
+
   return prisma.bankAccount.update({
     where: { id },
     data: {
-      ...input,
+      ...data,
+      ...(balance && { balanceMinor: balance.minor, currency: balance.currency }),
       updatedAt: new Date()
     }
   });
@@ -166,17 +170,29 @@ export async function deactivateBankAccount(id: string): Promise<BankAccount> {
  */
 export async function updateAccountBalance(
   id: string,
-  balance: number
+  balance: Money
 ): Promise<BankAccount> {
   return prisma.bankAccount.update({
     where: { id },
     data: {
-      balance,
+      balanceMinor: balance.minor,
+      currency: balance.currency,
       updatedAt: new Date()
     }
   });
 }
 
+/**
+ * Get the balance of a bank account as money
+ */
+export function getAccountBalance(
+  account: Pick<BankAccount, 'balanceMinor' | 'currency'>
+): Money | null {
+  return account.balanceMinor !== null
+    ? moneyFromMinor(account.balanceMinor, account.currency)
+    : null;
+}
+
 /**
  * Get bank account by Plaid account ID
  */
@@ -228,9 +244,15 @@ export async function getUserBankAccountsSummary(userId: string) {
     totalAccounts: accounts.length,
     activeAccounts: accounts.filter(a => a.isActive).length,
     verifiedAccounts: accounts.filter(a => a.isVerified).length,
-    totalBalance: accounts
-      .filter(a => a.isActive && a.balance !== null)
-      .reduce((sum, a) => sum + (a.balance || 0), 0),
+    // Balances can't be added across currencies, so they are totalled per currency
+    totalBalances: Object.entries(
+      accounts
+        .filter(a => a.isActive && a.balanceMinor !== null)
+        .reduce((acc, a) => {
+          acc[a.currency] = (acc[a.currency] || 0) + (a.balanceMinor || 0);
+          return acc;
+        }, {} as Record<string, number>)
+    ).map(([currency, minor]): MoneyJSON => toMoneyJSON(moneyFromMinor(minor, currency))),
     accountTypes: accounts.reduce((acc, a) => {
       acc[a.accountType] = (acc[a.accountType] || 0) + 1;
       return acc;
@@ -264,7 +286,7 @@ export async function canUserAddBankAccount(
 export async function syncAccountBalances(
   plaidAccountBalances: Array<{
     plaidAccountId: string;
-    balance: number;
+    balance: number; // Major units of the account currency
   }>
 ): Promise<number> {
   let updatedCount = 0;
@@ -272,7 +294,7 @@ export async function syncAccountBalances(
   for (const { plaidAccountId, balance } of plaidAccountBalances) {
     const account = await getBankAccountByPlaidId(plaidAccountId);
     if (account) {
-      await updateAccountBalance(account.id, balance);
+      await updateAccountBalance(account.id, money(balance, account.currency));
       updatedCount++;
     }
   }
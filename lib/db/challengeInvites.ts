@@ -0,0 +1,507 @@
+import { prisma } from './prisma';
+import {
+  Challenge,
+  ChallengeInvite,
+  ChallengeInviteStatus,
+  ChallengeParticipant,
+  ChallengeStatus,
+  FriendshipStatus
+} from '@prisma/client';
+import { joinChallenge } from './challenges';
+import { createChallengeNotification } from './notifications';
+import { wsIntegration } from '../websocket/integration';
+import {
+  CHALLENGE_INVITE_LIMITS,
+  ChallengeInviteState,
+  checkJoinLink,
+  getInviteStatus,
+  validateJoinLinkOptions
+} from '../gamification/challengeInvites';
+import { signChallengeInviteToken, verifyChallengeInviteToken } from '../security/inviteTokens';
+
+export interface ChallengeInviteDetails {
+  id: string;
+  challengeId: string;
+  status: ChallengeInviteState;
+  isLink: boolean;
+  uses: number;
+  maxUses: number | null;
+  expiresAt: Date;
+  respondedAt: Date | null;
+  createdAt: Date;
+  inviter: {
+    id: string;
+    username: string;
+    profileImage: string | null;
+  };
+  invitee: {
+    id: string;
+    username: string;
+    profileImage: string | null;
+  } | null;
+  challenge: {
+    id: string;
+    title: string;
+    type: string;
+    endDate: Date;
+    isPublic: boolean;
+  };
+}
+
+export interface ChallengeJoinLink {
+  invite: ChallengeInvite;
+  token: string;
+  url: string;
+}
+
+export interface CreateJoinLinkOptions {
+  expiresInDays?: number; // Capped at the challenge's end
+  maxUses?: number | null; // Unlimited when null
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const userSummary = { select: { id: true, username: true, profileImage: true } } as const;
+
+const inviteDetailsInclude = {
+  inviter: userSummary,
+  invitee: userSummary,
+  challenge: {
+    select: { id: true, title: true, type: true, endDate: true, isPublic: true }
+  }
+} as const;
+
+/**
+ * Invite users to a challenge. People already taking part, with a pending
+ * invite, or blocked by or blocking the inviter are skipped.
+ */
+export async function inviteToChallenge(
+  challengeId: string,
+  inviterId: string,
+  inviteeIds: string[]
+): Promise<ChallengeInvite[]> {
+  const uniqueIds = Array.from(new Set(inviteeIds)).filter(id => id !== inviterId);
+  if (uniqueIds.length === 0) {
+    throw new Error('No one to invite');
+  }
+  if (uniqueIds.length > CHALLENGE_INVITE_LIMITS.MAX_INVITEES) {
+    throw new Error(`You can invite up to ${CHALLENGE_INVITE_LIMITS.MAX_INVITEES} people at once`);
+  }
+
+  const challenge = await getInvitableChallenge(challengeId, inviterId);
+  const now = new Date();
+
+  const [users, participants, pendingInvites, blocked] = await Promise.all([
+    prisma.user.findMany({
+      where: { id: { in: uniqueIds }, isActive: true },
+      select: { id: true }
+    }),
+    prisma.challengeParticipant.findMany({
+      where: { challengeId, userId: { in: uniqueIds } },
+      select: { userId: true }
+    }),
+    prisma.challengeInvite.findMany({
+      where: {
+        challengeId,
+        inviteeId: { in: uniqueIds },
+        status: ChallengeInviteStatus.PENDING,
+        expiresAt: { gt: now }
+      },
+      select: { inviteeId: true }
+    }),
+    prisma.friendship.findMany({
+      where: {
+        status: FriendshipStatus.BLOCKED,
+        OR: [
+          { userId: inviterId, friendId: { in: uniqueIds } },
+          { friendId: inviterId, userId: { in: uniqueIds } }
+        ]
+      },
+      select: { userId: true, friendId: true }
+    })
+  ]);
+
+  const skipped = new Set<string>([
+    ...participants.map(p => p.userId),
+    ...pendingInvites.map(invite => invite.inviteeId!),
+    ...blocked.map(friendship => (friendship.userId === inviterId ? friendship.friendId : friendship.userId))
+  ]);
+  const invitees = users.map(user => user.id).filter(id => !skipped.has(id));
+
+  const inviter = await prisma.user.findUnique({
+    where: { id: inviterId },
+    select: { username: true }
+  });
+  const expiresAt = new Date(Math.min(
+    now.getTime() + CHALLENGE_INVITE_LIMITS.INVITE_EXPIRY_DAYS * DAY_MS,
+    challenge.endDate.getTime()
+  ));
+
+  const invites: ChallengeInvite[] = [];
+  for (const inviteeId of invitees) {
+    const invite = await prisma.challengeInvite.create({
+      data: { challengeId, inviterId, inviteeId, expiresAt }
+    });
+    invites.push(invite);
+
+    await createChallengeNotification(inviteeId, challenge.title, 'invited', {
+      challengeId,
+      inviteId: invite.id,
+      inviterId,
+      inviterUsername: inviter?.username
+    });
+    await wsIntegration.broadcastChallengeInvite(inviteeId, challengeId, inviterId);
+  }
+
+  return invites;
+}
+
+/**
+ * Create a shareable join link. The token is signed, so links can't be forged
+ * or pointed at another challenge, and revoking the invite disables it.
+ */
+export async function createChallengeJoinLink(
+  challengeId: string,
+  inviterId: string,
+  options: CreateJoinLinkOptions = {}
+): Promise<ChallengeJoinLink> {
+  const error = validateJoinLinkOptions(options);
+  if (error) {
+    throw new Error(error);
+  }
+
+  const challenge = await getInvitableChallenge(challengeId, inviterId);
+  const expiresInDays = options.expiresInDays ?? CHALLENGE_INVITE_LIMITS.LINK_EXPIRY_DAYS;
+  const expiresAt = new Date(Math.min(Date.now() + expiresInDays * DAY_MS, challenge.endDate.getTime()));
+
+  const invite = await prisma.challengeInvite.create({
+    data: {
+      challengeId,
+      inviterId,
+      maxUses: options.maxUses ?? null,
+      expiresAt
+    }
+  });
+
+  const token = signChallengeInviteToken({ inviteId: invite.id, challengeId }, expiresAt);
+
+  return { invite, token, url: getChallengeJoinLinkUrl(token) };
+}
+
+/**
+ * Get the URL a join link token is shared as
+ */
+export function getChallengeJoinLinkUrl(token: string): string {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || process.env.FRONTEND_URL || 'http://localhost:3000';
+  return `${appUrl}/challenges?invite=${encodeURIComponent(token)}`;
+}
+
+/**
+ * Get the invites waiting for a user's answer
+ */
+export async function getPendingChallengeInvites(userId: string): Promise<ChallengeInviteDetails[]> {
+  const invites = await prisma.challengeInvite.findMany({
+    where: {
+      inviteeId: userId,
+      status: ChallengeInviteStatus.PENDING,
+      expiresAt: { gt: new Date() }
+    },
+    include: inviteDetailsInclude,
+    orderBy: { createdAt: 'desc' }
+  });
+
+  return invites.map(formatInvite);
+}
+
+/**
+ * Get a challenge's invites and join links, for its participants
+ */
+export async function getChallengeInvites(challengeId: string, userId: string): Promise<ChallengeInviteDetails[]> {
+  const participant = await prisma.challengeParticipant.findUnique({
+    where: { userId_challengeId: { userId, challengeId } }
+  });
+
+  if (!participant) {
+    throw new Error('Not participating in this challenge');
+  }
+
+  const invites = await prisma.challengeInvite.findMany({
+    where: { challengeId },
+    include: inviteDetailsInclude,
+    orderBy: { createdAt: 'desc' }
+  });
+
+  return invites.map(formatInvite);
+}
+
+/**
+ * Accept an invite and join the challenge
+ */
+export async function acceptChallengeInvite(
+  inviteId: string,
+  userId: string,
+  teamId?: string
+): Promise<ChallengeParticipant> {
+  const invite = await getPendingInviteFor(inviteId, userId);
+
+  // The accepted invite is what lets the user into a private challenge
+  await prisma.challengeInvite.update({
+    where: { id: invite.id },
+    data: { status: ChallengeInviteStatus.ACCEPTED, respondedAt: new Date() }
+  });
+
+  let participant: ChallengeParticipant;
+  try {
+    participant = await joinChallenge(invite.challengeId, userId, teamId);
+  } catch (error) {
+    await prisma.challengeInvite.update({
+      where: { id: invite.id },
+      data: { status: ChallengeInviteStatus.PENDING, respondedAt: null }
+    });
+    throw error;
+  }
+
+  await notifyInviter(invite, userId, 'invite_accepted');
+
+  return participant;
+}
+
+/**
+ * Decline an invite
+ */
+export async function declineChallengeInvite(inviteId: string, userId: string): Promise<ChallengeInvite> {
+  const invite = await getPendingInviteFor(inviteId, userId);
+
+  const declined = await prisma.challengeInvite.update({
+    where: { id: invite.id },
+    data: { status: ChallengeInviteStatus.DECLINED, respondedAt: new Date() }
+  });
+
+  await notifyInviter(invite, userId, 'invite_declined');
+
+  return declined;
+}
+
+/**
+ * Revoke a pending invite or join link. The inviter and the challenge creator
+ * can revoke.
+ */
+export async function revokeChallengeInvite(inviteId: string, userId: string): Promise<ChallengeInvite> {
+  const invite = await prisma.challengeInvite.findUnique({
+    where: { id: inviteId },
+    include: { challenge: { select: { creatorId: true } } }
+  });
+
+  if (!invite) {
+    throw new Error('Invite not found');
+  }
+
+  if (invite.inviterId !== userId && invite.challenge.creatorId !== userId) {
+    throw new Error('Only the inviter or challenge creator can revoke this invite');
+  }
+
+  if (getInviteStatus(invite) !== ChallengeInviteStatus.PENDING) {
+    throw new Error('Invite is no longer pending');
+  }
+
+  return prisma.challengeInvite.update({
+    where: { id: inviteId },
+    data: { status: ChallengeInviteStatus.EXPIRED, expiresAt: new Date() }
+  });
+}
+
+/**
+ * Look up the challenge behind a join link, so it can be shown before joining
+ */
+export async function previewChallengeJoinLink(token: string): Promise<{
+  challenge: Pick<Challenge, 'id' | 'title' | 'description' | 'type' | 'startDate' | 'endDate'> & { participantCount: number };
+  inviter: { username: string; profileImage: string | null };
+  expiresAt: Date;
+}> {
+  const link = await getJoinLink(token);
+
+  const challenge = await prisma.challenge.findUniqueOrThrow({
+    where: { id: link.challengeId },
+    include: {
+      _count: { select: { participants: true } }
+    }
+  });
+
+  return {
+    challenge: {
+      id: challenge.id,
+      title: challenge.title,
+      description: challenge.description,
+      type: challenge.type,
+      startDate: challenge.startDate,
+      endDate: challenge.endDate,
+      participantCount: challenge._count.participants
+    },
+    inviter: { username: link.inviter.username, profileImage: link.inviter.profileImage },
+    expiresAt: link.expiresAt
+  };
+}
+
+/**
+ * Join a challenge through a join link. Each use is recorded as an accepted
+ * invite for the user who joined.
+ */
+export async function redeemChallengeJoinLink(
+  token: string,
+  userId: string,
+  teamId?: string
+): Promise<ChallengeParticipant> {
+  const link = await getJoinLink(token);
+
+  const accepted = await prisma.challengeInvite.create({
+    data: {
+      challengeId: link.challengeId,
+      inviterId: link.inviterId,
+      inviteeId: userId,
+      status: ChallengeInviteStatus.ACCEPTED,
+      expiresAt: link.expiresAt,
+      respondedAt: new Date()
+    }
+  });
+
+  let participant: ChallengeParticipant;
+  try {
+    participant = await joinChallenge(link.challengeId, userId, teamId);
+  } catch (error) {
+    await prisma.challengeInvite.delete({ where: { id: accepted.id } });
+    throw error;
+  }
+
+  await prisma.challengeInvite.update({
+    where: { id: link.id },
+    data: { uses: { increment: 1 } }
+  });
+  await notifyInviter(accepted, userId, 'invite_accepted');
+
+  return participant;
+}
+
+/**
+ * Mark pending invites past their expiry as expired
+ */
+export async function expireChallengeInvites(now: Date = new Date()): Promise<number> {
+  const result = await prisma.challengeInvite.updateMany({
+    where: {
+      status: ChallengeInviteStatus.PENDING,
+      expiresAt: { lte: now }
+    },
+    data: { status: ChallengeInviteStatus.EXPIRED }
+  });
+
+  return result.count;
+}
+
+/**
+ * An active challenge the user can invite people to: only participants can
+ */
+async function getInvitableChallenge(challengeId: string, inviterId: string): Promise<Challenge> {
+  const challenge = await prisma.challenge.findUnique({
+    where: { id: challengeId },
+    include: {
+      participants: { where: { userId: inviterId }, select: { id: true } }
+    }
+  });
+
+  if (!challenge) {
+    throw new Error('Challenge not found');
+  }
+
+  if (challenge.status !== ChallengeStatus.ACTIVE || challenge.endDate < new Date()) {
+    throw new Error('Challenge is not active');
+  }
+
+  if (challenge.participants.length === 0) {
+    throw new Error('Only participants can invite to this challenge');
+  }
+
+  return challenge;
+}
+
+async function getPendingInviteFor(inviteId: string, userId: string): Promise<ChallengeInvite> {
+  const invite = await prisma.challengeInvite.findUnique({
+    where: { id: inviteId }
+  });
+
+  if (!invite || invite.inviteeId !== userId) {
+    throw new Error('Invite not found');
+  }
+
+  const status = getInviteStatus(invite);
+  if (status === ChallengeInviteStatus.EXPIRED) {
+    throw new Error('Invite has expired');
+  }
+  if (status !== ChallengeInviteStatus.PENDING) {
+    throw new Error('Invite has already been answered');
+  }
+
+  return invite;
+}
+
+async function getJoinLink(token: string) {
+  const payload = verifyChallengeInviteToken(token);
+  if (!payload) {
+    throw new Error('Invalid invite link');
+  }
+
+  const link = await prisma.challengeInvite.findUnique({
+    where: { id: payload.inviteId },
+    include: { inviter: { select: { username: true, profileImage: true } } }
+  });
+
+  if (!link || link.inviteeId !== null || link.challengeId !== payload.challengeId) {
+    throw new Error('Invalid invite link');
+  }
+
+  const error = checkJoinLink(link);
+  if (error) {
+    throw new Error(error);
+  }
+
+  return link;
+}
+
+async function notifyInviter(
+  invite: ChallengeInvite,
+  inviteeId: string,
+  notificationType: 'invite_accepted' | 'invite_declined'
+): Promise<void> {
+  const [challenge, invitee] = await Promise.all([
+    prisma.challenge.findUnique({ where: { id: invite.challengeId }, select: { title: true } }),
+    prisma.user.findUnique({ where: { id: inviteeId }, select: { username: true } })
+  ]);
+
+  if (!challenge) return;
+
+  await createChallengeNotification(invite.inviterId, challenge.title, notificationType, {
+    challengeId: invite.challengeId,
+    inviteId: invite.id,
+    inviteeId,
+    inviteeUsername: invitee?.username
+  });
+}
+
+function formatInvite(invite: ChallengeInvite & {
+  inviter: ChallengeInviteDetails['inviter'];
+  invitee: ChallengeInviteDetails['invitee'];
+  challenge: ChallengeInviteDetails['challenge'];
+}): ChallengeInviteDetails {
+  return {
+    id: invite.id,
+    challengeId: invite.challengeId,
+    status: getInviteStatus(invite),
+    isLink: invite.inviteeId === null,
+    uses: invite.uses,
+    maxUses: invite.maxUses,
+    expiresAt: invite.expiresAt,
+    respondedAt: invite.respondedAt,
+    createdAt: invite.createdAt,
+    inviter: invite.inviter,
+    invitee: invite.invitee,
+    challenge: invite.challenge
+  };
+}
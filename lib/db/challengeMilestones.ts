@@ -0,0 +1,155 @@
+import { prisma } from './prisma';
+import { ChallengeMilestone, ChallengeRewardTier, PointsReason, Prisma } from '@prisma/client';
+import {
+  RankReward,
+  RewardStanding,
+  calculateRankRewards,
+  getReachedMilestones,
+  hasRankedField
+} from '../gamification/challengeMilestones';
+import { getChallengeTarget } from '../gamification/challengeProgress';
+import { createChallengeNotification } from './notifications';
+import { getPointsAwardOperations, syncUserLevel } from './points';
+import { wsIntegration } from '../websocket/integration';
+
+/**
+ * Award every milestone participants have reached but not yet been awarded.
+ * Milestones track a participant's own progress, or their team's in team
+ * challenges. Returns how many milestones were awarded.
+ */
+export async function awardChallengeMilestones(challengeId: string): Promise<number> {
+  const challenge = await prisma.challenge.findUnique({
+    where: { id: challengeId },
+    include: {
+      milestones: { orderBy: { position: 'asc' } },
+      participants: {
+        include: {
+          team: { select: { progress: true } },
+          milestoneAwards: { select: { milestoneId: true } }
+        }
+      }
+    }
+  });
+
+  const target = challenge && getChallengeTarget(challenge);
+  if (!challenge || !target || challenge.milestones.length === 0) return 0;
+
+  let awardedCount = 0;
+
+  for (const participant of challenge.participants) {
+    const progress = challenge.teamScoring ? participant.team?.progress ?? 0 : participant.currentProgress;
+    const awarded = new Set(participant.milestoneAwards.map(award => award.milestoneId));
+    const reached = getReachedMilestones(challenge.milestones, progress, target)
+      .filter(milestone => !awarded.has(milestone.id));
+
+    for (const milestone of reached) {
+      if (await awardMilestone(challenge.title, participant, milestone)) {
+        awardedCount++;
+      }
+    }
+  }
+
+  return awardedCount;
+}
+
+/**
+ * Record a reached milestone and credit its points, then tell the participant
+ * and the challenge room. Returns false when it was already awarded.
+ */
+async function awardMilestone(
+  challengeTitle: string,
+  participant: { id: string; userId: string; challengeId: string },
+  milestone: ChallengeMilestone
+): Promise<boolean> {
+  let awardId: string;
+
+  try {
+    const [award] = await prisma.$transaction([
+      prisma.challengeMilestoneAward.create({
+        data: {
+          milestoneId: milestone.id,
+          participantId: participant.id,
+          points: milestone.points
+        }
+      }),
+      prisma.challengeParticipant.update({
+        where: { id: participant.id },
+        data: { pointsEarned: { increment: milestone.points } }
+      }),
+      ...getPointsAwardOperations(participant.userId, milestone.points, PointsReason.CHALLENGE_MILESTONE, {
+        referenceId: milestone.id
+      })
+    ]);
+    awardId = award.id;
+  } catch (error) {
+    // Another recalculation got there first
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return false;
+    }
+    throw error;
+  }
+
+  await syncUserLevel(participant.userId);
+  await createChallengeNotification(participant.userId, challengeTitle, 'milestone', {
+    challengeId: participant.challengeId,
+    milestoneId: milestone.id,
+    percent: milestone.percent,
+    points: milestone.points
+  });
+  await wsIntegration.broadcastMilestoneReached(awardId);
+
+  return true;
+}
+
+/**
+ * Grant final rewards by rank tier to a finished challenge's participants and
+ * return them by participant id. Team challenges rank teams, and members who
+ * made progress of their own share their team's tier.
+ */
+export async function grantRankRewards(
+  challenge: { id: string; teamScoring: string | null },
+  participants: Array<{ id: string; userId: string; teamId: string | null; currentProgress: number }>
+): Promise<Map<string, RankReward>> {
+  // A creator and a friend or two could otherwise farm rank rewards
+  if (!hasRankedField(participants.map(p => p.currentProgress))) {
+    return new Map();
+  }
+
+  let rewards: RankReward[];
+
+  if (challenge.teamScoring) {
+    const teams = await prisma.challengeTeam.findMany({
+      where: { challengeId: challenge.id },
+      select: { id: true, progress: true }
+    });
+    const teamRewards = new Map(calculateRankRewards(teams).map(reward => [reward.id, reward]));
+
+    rewards = participants.flatMap(participant => {
+      const teamReward = participant.teamId ? teamRewards.get(participant.teamId) : undefined;
+      return teamReward && participant.currentProgress > 0 ? [{ ...teamReward, id: participant.id }] : [];
+    });
+  } else {
+    const standings: RewardStanding[] = participants.map(p => ({ id: p.id, progress: p.currentProgress }));
+    rewards = calculateRankRewards(standings);
+  }
+
+  const userIds = new Map(participants.map(p => [p.id, p.userId]));
+
+  for (const reward of rewards) {
+    await prisma.$transaction([
+      prisma.challengeParticipant.update({
+        where: { id: reward.id },
+        data: {
+          rewardTier: reward.tier as ChallengeRewardTier,
+          pointsEarned: { increment: reward.points }
+        }
+      }),
+      ...getPointsAwardOperations(userIds.get(reward.id)!, reward.points, PointsReason.CHALLENGE_RANK, {
+        referenceId: challenge.id
+      })
+    ]);
+    await syncUserLevel(userIds.get(reward.id)!);
+  }
+
+  return new Map(rewards.map(reward => [reward.id, reward]));
+}
@@ -0,0 +1,424 @@
+import { prisma } from './prisma';
+import { Challenge, ChallengeStake, ChallengeStatus, Prisma, StakeStatus } from '@prisma/client';
+import { ethers } from 'ethers';
+import {
+  cancelChallengeOnChain,
+  encodeCreateChallenge,
+  encodeJoinChallenge,
+  getCreatedChallengeId,
+  getGameEngineAddress,
+  getTransactionOutcome,
+  getTransactionReceipt,
+  isGameEngineConfigured,
+  sendChallengePot
+} from '../blockchain/gameEngine';
+import { broadcastTransaction } from '../web3/walletManager';
+import { calculatePayouts } from '../gamification/stakePayouts';
+
+/**
+ * Lock a participant's buy-in for a staked challenge through their wallet.
+ * The creator's buy-in opens the challenge on GameEngine; everyone else joins
+ * it. Already locked stakes are returned as they are. The stake is claimed
+ * before the buy-in is sent and its hash is saved before waiting on it, so a
+ * buy-in is sent at most once; one whose receipt isn't in yet is checked by
+ * its hash on the next try or by `resolvePendingChallengeStakes`.
+ */
+export async function lockChallengeStake(challenge: Challenge, userId: string): Promise<ChallengeStake> {
+  if (!challenge.stakeWei) {
+    throw new Error('Challenge is not staked');
+  }
+
+  if (!isGameEngineConfigured()) {
+    throw new Error('Staked challenges are not available');
+  }
+
+  const existingStake = await prisma.challengeStake.findUnique({
+    where: { challengeId_userId: { challengeId: challenge.id, userId } }
+  });
+
+  if (existingStake?.status === StakeStatus.LOCKED) {
+    return existingStake;
+  }
+
+  // A buy-in was sent earlier; its receipt says whether it went through
+  if (existingStake?.status === StakeStatus.PENDING) {
+    if (!existingStake.txHash) {
+      throw new Error('Challenge stake is already being locked');
+    }
+    return getLockedStake(await confirmStake(challenge, existingStake, existingStake.txHash));
+  }
+
+  const opensPot = !challenge.onChainId;
+  if (opensPot && challenge.creatorId !== userId) {
+    throw new Error('Challenge stakes are not open yet');
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { walletAddress: true }
+  });
+
+  if (!user?.walletAddress) {
+    throw new Error('A wallet is required for staked challenges');
+  }
+
+  const stake = await claimStake(challenge, userId, user.walletAddress, existingStake);
+
+  const tx = await broadcastTransaction(userId, {
+    to: getGameEngineAddress(),
+    value: ethers.formatEther(challenge.stakeWei),
+    data: opensPot
+      ? encodeCreateChallenge({
+          title: challenge.title,
+          description: challenge.description,
+          type: challenge.type,
+          target: challenge.target,
+          duration: challenge.duration,
+          entryFeeWei: BigInt(challenge.stakeWei)
+        })
+      : encodeJoinChallenge(challenge.onChainId!)
+  });
+
+  if (!tx) {
+    await prisma.challengeStake.update({
+      where: { id: stake.id },
+      data: { status: StakeStatus.FAILED }
+    });
+    throw new Error('Failed to lock challenge stake');
+  }
+
+  await prisma.challengeStake.update({
+    where: { id: stake.id },
+    data: { txHash: tx.hash }
+  });
+
+  try {
+    await tx.wait();
+  } catch (error) {
+    console.error(`Error waiting for stake of user ${userId} in challenge ${challenge.id}:`, error);
+  }
+
+  return getLockedStake(await confirmStake(challenge, stake, tx.hash));
+}
+
+/**
+ * Check buy-ins whose receipt wasn't in when they were sent. Returns the
+ * stakes that were locked, so joins that gave up waiting can be completed.
+ */
+export async function resolvePendingChallengeStakes(): Promise<ChallengeStake[]> {
+  const pending = await prisma.challengeStake.findMany({
+    where: { status: StakeStatus.PENDING, txHash: { not: null } },
+    include: { challenge: true }
+  });
+
+  const locked: ChallengeStake[] = [];
+  for (const { challenge, ...stake } of pending) {
+    try {
+      const resolved = await confirmStake(challenge, stake, stake.txHash!);
+      if (resolved?.status === StakeStatus.LOCKED) {
+        locked.push(resolved);
+      }
+    } catch (error) {
+      console.error(`Error resolving stake ${stake.id}:`, error);
+    }
+  }
+
+  return locked;
+}
+
+/**
+ * Whether a user has a locked buy-in in a challenge
+ */
+export async function hasLockedStake(challengeId: string, userId: string): Promise<boolean> {
+  const stake = await prisma.challengeStake.findUnique({
+    where: { challengeId_userId: { challengeId, userId } },
+    select: { status: true }
+  });
+  return stake?.status === StakeStatus.LOCKED;
+}
+
+/**
+ * Pay a completed challenge's pot to its winners by the challenge's payout
+ * curve. The challenge is claimed as SETTLING before the payout is sent and
+ * its hash is saved before waiting on it, so the pot is paid at most once.
+ * Failures are logged and left for `settlePendingChallengeStakes` to retry.
+ */
+export async function settleChallengeStakes(challengeId: string): Promise<boolean> {
+  const challenge = await prisma.challenge.findUnique({
+    where: { id: challengeId },
+    include: {
+      stakes: { where: { status: StakeStatus.LOCKED } },
+      participants: { select: { userId: true, currentProgress: true } }
+    }
+  });
+
+  if (!challenge?.stakeWei || !challenge.onChainId || challenge.stakes.length === 0) {
+    return false;
+  }
+
+  // A payout was sent earlier; its receipt says whether to record or resend it
+  if (challenge.status === ChallengeStatus.SETTLING) {
+    return challenge.settlementTxHash ? confirmSettlement(challenge, challenge.settlementTxHash) : false;
+  }
+
+  if (challenge.status !== ChallengeStatus.COMPLETED || challenge.settlementTxHash) {
+    return false;
+  }
+
+  const claimed = await prisma.challenge.updateMany({
+    where: { id: challengeId, status: ChallengeStatus.COMPLETED, settlementTxHash: null },
+    data: { status: ChallengeStatus.SETTLING }
+  });
+
+  if (claimed.count === 0) {
+    return false;
+  }
+
+  const stakesById = new Map(challenge.stakes.map(stake => [stake.id, stake]));
+  let tx;
+
+  try {
+    tx = await sendChallengePot(
+      getStakePayouts(challenge)
+        .filter(payout => payout.amountWei > BigInt(0))
+        .map(payout => ({
+          walletAddress: stakesById.get(payout.id)!.walletAddress,
+          amountWei: payout.amountWei
+        })),
+      `Challenge payout: ${challenge.title}`
+    );
+  } catch (error) {
+    console.error(`Error sending stake payout for challenge ${challengeId}:`, error);
+    await prisma.challenge.update({
+      where: { id: challengeId },
+      data: { status: ChallengeStatus.COMPLETED }
+    });
+    return false;
+  }
+
+  await prisma.challenge.update({
+    where: { id: challengeId },
+    data: { settlementTxHash: tx.hash }
+  });
+
+  try {
+    await tx.wait();
+  } catch (error) {
+    console.error(`Error waiting for stake payout for challenge ${challengeId}:`, error);
+  }
+
+  return confirmSettlement(challenge, tx.hash);
+}
+
+/**
+ * Refund every locked buy-in by cancelling the challenge on GameEngine.
+ * Throws when the refund fails so the challenge stays active.
+ */
+export async function refundChallengeStakes(challengeId: string): Promise<void> {
+  const challenge = await prisma.challenge.findUnique({
+    where: { id: challengeId },
+    select: { onChainId: true, status: true, settlementTxHash: true }
+  });
+
+  if (!challenge?.onChainId) return;
+
+  if (challenge.settlementTxHash || challenge.status === ChallengeStatus.SETTLING) {
+    throw new Error('Challenge stakes have already been paid out');
+  }
+
+  const txHash = await cancelChallengeOnChain(challenge.onChainId);
+
+  const lockedStakes = await prisma.challengeStake.findMany({
+    where: { challengeId, status: StakeStatus.LOCKED }
+  });
+
+  await prisma.$transaction(lockedStakes.map(stake => prisma.challengeStake.update({
+    where: { id: stake.id },
+    data: {
+      status: StakeStatus.REFUNDED,
+      payoutWei: stake.amountWei,
+      payoutTxHash: txHash
+    }
+  })));
+}
+
+/**
+ * Settle completed staked challenges whose payout failed or wasn't confirmed
+ * earlier. Sent payouts are checked by their receipt rather than sent again.
+ */
+export async function settlePendingChallengeStakes(): Promise<number> {
+  const unsettled = await prisma.challenge.findMany({
+    where: {
+      stakeWei: { not: null },
+      onChainId: { not: null },
+      OR: [
+        { status: ChallengeStatus.COMPLETED, settlementTxHash: null },
+        { status: ChallengeStatus.SETTLING, settlementTxHash: { not: null } }
+      ]
+    },
+    select: { id: true }
+  });
+
+  let settledCount = 0;
+  for (const challenge of unsettled) {
+    if (await settleChallengeStakes(challenge.id)) {
+      settledCount++;
+    }
+  }
+
+  return settledCount;
+}
+
+type SettlingChallenge = Challenge & {
+  stakes: ChallengeStake[];
+  participants: Array<{ userId: string; currentProgress: number }>;
+};
+
+// Each locked stake's share of the pot by its holder's final progress
+function getStakePayouts(challenge: SettlingChallenge) {
+  const progress = new Map(challenge.participants.map(p => [p.userId, p.currentProgress]));
+  const potWei = challenge.stakes.reduce((sum, stake) => sum + BigInt(stake.amountWei), BigInt(0));
+  return calculatePayouts(
+    potWei,
+    challenge.stakes.map(stake => ({ id: stake.id, progress: progress.get(stake.userId) ?? 0 })),
+    challenge.payoutCurve
+  );
+}
+
+// Record a mined payout, or release the claim on a reverted one so the next
+// run sends it again. Pending payouts are left for the next run to check.
+async function confirmSettlement(challenge: SettlingChallenge, txHash: string): Promise<boolean> {
+  try {
+    const outcome = await getTransactionOutcome(txHash);
+
+    if (outcome === 'pending') {
+      return false;
+    }
+
+    if (outcome === 'reverted') {
+      await prisma.challenge.updateMany({
+        where: { id: challenge.id, status: ChallengeStatus.SETTLING, settlementTxHash: txHash },
+        data: { status: ChallengeStatus.COMPLETED, settlementTxHash: null }
+      });
+      return false;
+    }
+
+    await prisma.$transaction([
+      prisma.challenge.update({
+        where: { id: challenge.id },
+        data: { status: ChallengeStatus.COMPLETED }
+      }),
+      ...getStakePayouts(challenge).map(payout => prisma.challengeStake.update({
+        where: { id: payout.id },
+        data: {
+          status: payout.amountWei > BigInt(0) ? StakeStatus.PAID : StakeStatus.LOST,
+          payoutWei: payout.amountWei.toString(),
+          payoutTxHash: payout.amountWei > BigInt(0) ? txHash : null
+        }
+      }))
+    ]);
+
+    return true;
+  } catch (error) {
+    console.error(`Error confirming stake payout for challenge ${challenge.id}:`, error);
+    return false;
+  }
+}
+
+// Claim a new or failed stake for sending. Only one caller can hold the claim,
+// so concurrent joins and retries don't send the buy-in twice.
+async function claimStake(
+  challenge: Challenge,
+  userId: string,
+  walletAddress: string,
+  existingStake: ChallengeStake | null
+): Promise<ChallengeStake> {
+  const data = {
+    walletAddress,
+    amountWei: challenge.stakeWei!,
+    status: StakeStatus.PENDING,
+    txHash: null
+  };
+
+  if (!existingStake) {
+    try {
+      return await prisma.challengeStake.create({
+        data: { challengeId: challenge.id, userId, ...data }
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new Error('Challenge stake is already being locked');
+      }
+      throw error;
+    }
+  }
+
+  const claimed = await prisma.challengeStake.updateMany({
+    where: { id: existingStake.id, status: StakeStatus.FAILED },
+    data
+  });
+
+  if (claimed.count === 0) {
+    throw new Error('Challenge stake is already being locked');
+  }
+
+  return { ...existingStake, ...data };
+}
+
+// Record a sent buy-in from its receipt. A mined one locks the stake, and the
+// creator's also opens the pot; a reverted one fails it, and a pot that never
+// opened is cancelled. Returns null while the receipt isn't in. A stake is
+// never moved back from LOCKED.
+async function confirmStake(
+  challenge: Challenge,
+  stake: Pick<ChallengeStake, 'id' | 'userId'>,
+  txHash: string
+): Promise<ChallengeStake | null> {
+  const receipt = await getTransactionReceipt(txHash);
+
+  if (!receipt) {
+    return null;
+  }
+
+  const opensPot = !challenge.onChainId && challenge.creatorId === stake.userId;
+  const onChainId = receipt.status === 1 && opensPot ? getCreatedChallengeId(receipt) : null;
+
+  if (receipt.status !== 1 || (opensPot && !onChainId)) {
+    await prisma.$transaction([
+      prisma.challengeStake.updateMany({
+        where: { id: stake.id, status: StakeStatus.PENDING },
+        data: { status: StakeStatus.FAILED }
+      }),
+      ...(opensPot ? [prisma.challenge.updateMany({
+        where: { id: challenge.id, onChainId: null, status: ChallengeStatus.ACTIVE },
+        data: { status: ChallengeStatus.CANCELLED }
+      })] : [])
+    ]);
+  } else {
+    await prisma.$transaction([
+      ...(onChainId ? [prisma.challenge.update({
+        where: { id: challenge.id },
+        data: { onChainId }
+      })] : []),
+      prisma.challengeStake.updateMany({
+        where: { id: stake.id, status: StakeStatus.PENDING },
+        data: { status: StakeStatus.LOCKED }
+      })
+    ]);
+  }
+
+  return prisma.challengeStake.findUniqueOrThrow({ where: { id: stake.id } });
+}
+
+// The stake once its buy-in is confirmed, or why it isn't locked
+function getLockedStake(stake: ChallengeStake | null): ChallengeStake {
+  if (!stake) {
+    throw new Error('Challenge stake is still being confirmed, try again shortly');
+  }
+
+  if (stake.status !== StakeStatus.LOCKED) {
+    throw new Error('Failed to lock challenge stake');
+  }
+
+  return stake;
+}
@@ -0,0 +1,398 @@
+import { prisma } from './prisma';
+import {
+  Challenge,
+  ChallengeRecurrence,
+  ChallengeSeries,
+  ChallengeStatus,
+  ChallengeTemplate,
+  ChallengeType
+} from '@prisma/client';
+import { createChallenge, joinChallenge } from './challenges';
+import {
+  SeasonSummary,
+  getNextSeasonStart,
+  getSeasonDuration,
+  renderTemplateText,
+  summarizeSeasons,
+  validateChallengeTemplate
+} from '../gamification/challengeTemplates';
+import { getChallengeTarget, toChallengeTarget } from '../gamification/challengeProgress';
+
+export interface ChallengeTemplateInput {
+  slug: string;
+  title: string;
+  description: string;
+  type: ChallengeType;
+  targetAmount?: number | null; // In progress units, like a challenge's
+  duration: number; // in days
+  recurrence?: ChallengeRecurrence | null;
+  isActive?: boolean;
+}
+
+// A template with its target in progress units, the way admins set it
+export type ChallengeTemplateWithTarget = Omit<ChallengeTemplate, 'target'> & {
+  targetAmount: number | null;
+};
+
+export interface CreateFromTemplateOptions {
+  startDate?: Date;
+  // Defaults to the template's recurrence; null starts a one-off challenge
+  recurrence?: ChallengeRecurrence | null;
+}
+
+export interface ChallengeSeasonEntry {
+  challengeId: string;
+  season: number;
+  title: string;
+  startDate: Date;
+  endDate: Date;
+  status: ChallengeStatus;
+  participantCount: number;
+  leader: { // The winner once the season is over
+    userId: string;
+    username: string;
+    progress: number;
+  } | null;
+  userProgress: number | null; // null when the user didn't take part
+  userRank: number | null;
+}
+
+export interface ChallengeSeasonHistory {
+  seriesId: string;
+  title: string;
+  recurrence: ChallengeRecurrence;
+  isActive: boolean;
+  nextStartDate: Date;
+  seasons: ChallengeSeasonEntry[]; // Newest first
+  summary: SeasonSummary;
+}
+
+/**
+ * Get challenge templates, active ones only unless asked otherwise
+ */
+export async function getChallengeTemplates(includeInactive: boolean = false): Promise<ChallengeTemplateWithTarget[]> {
+  const templates = await prisma.challengeTemplate.findMany({
+    where: includeInactive ? {} : { isActive: true },
+    orderBy: { title: 'asc' }
+  });
+
+  return templates.map(withTargetAmount);
+}
+
+/**
+ * Create a challenge template with admin-defined defaults
+ */
+export async function createChallengeTemplate(input: ChallengeTemplateInput): Promise<ChallengeTemplateWithTarget> {
+  const error = validateChallengeTemplate(input);
+  if (error) {
+    throw new Error(error);
+  }
+
+  const existing = await prisma.challengeTemplate.findUnique({
+    where: { slug: input.slug }
+  });
+  if (existing) {
+    throw new Error('Template with this slug already exists');
+  }
+
+  const template = await prisma.challengeTemplate.create({
+    data: {
+      slug: input.slug,
+      title: input.title,
+      description: input.description,
+      type: input.type,
+      target: toChallengeTarget(input.type, input.targetAmount),
+      duration: input.duration,
+      recurrence: input.recurrence ?? null,
+      isActive: input.isActive ?? true
+    }
+  });
+
+  return withTargetAmount(template);
+}
+
+/**
+ * Update a template's defaults. Challenges already started from it keep theirs.
+ */
+export async function updateChallengeTemplate(
+  id: string,
+  input: Partial<ChallengeTemplateInput>
+): Promise<ChallengeTemplateWithTarget> {
+  const template = await prisma.challengeTemplate.findUnique({ where: { id } });
+  if (!template) {
+    throw new Error('Template not found');
+  }
+
+  // Fields left out keep their current value
+  const changes = Object.fromEntries(
+    Object.entries(input).filter(([, value]) => value !== undefined)
+  ) as Partial<ChallengeTemplateInput>;
+  const updated = { ...withTargetAmount(template), ...changes };
+  const error = validateChallengeTemplate(updated);
+  if (error) {
+    throw new Error(error);
+  }
+
+  if (updated.slug !== template.slug) {
+    const existing = await prisma.challengeTemplate.findUnique({
+      where: { slug: updated.slug }
+    });
+    if (existing) {
+      throw new Error('Template with this slug already exists');
+    }
+  }
+
+  const saved = await prisma.challengeTemplate.update({
+    where: { id },
+    data: {
+      slug: updated.slug,
+      title: updated.title,
+      description: updated.description,
+      type: updated.type,
+      target: toChallengeTarget(updated.type, updated.targetAmount),
+      duration: updated.duration,
+      recurrence: updated.recurrence ?? null,
+      isActive: updated.isActive
+    }
+  });
+
+  return withTargetAmount(saved);
+}
+
+/**
+ * Start a challenge from a template. Recurring ones start a series whose
+ * first season begins at `startDate`.
+ */
+export async function createChallengeFromTemplate(
+  templateId: string,
+  creatorId: string,
+  options: CreateFromTemplateOptions = {}
+): Promise<Challenge> {
+  const template = await prisma.challengeTemplate.findUnique({
+    where: { id: templateId }
+  });
+
+  if (!template || !template.isActive) {
+    throw new Error('Template not found');
+  }
+
+  const startDate = options.startDate || new Date();
+  const recurrence = options.recurrence === undefined ? template.recurrence : options.recurrence;
+
+  if (!recurrence) {
+    return createChallenge({
+      creatorId,
+      title: renderTemplateText(template.title, startDate),
+      description: renderTemplateText(template.description, startDate),
+      type: template.type,
+      targetAmount: getChallengeTarget(template) ?? undefined,
+      duration: template.duration,
+      startDate,
+      templateId: template.id
+    });
+  }
+
+  const error = validateChallengeTemplate({ ...withTargetAmount(template), recurrence });
+  if (error) {
+    throw new Error(error);
+  }
+
+  const series = await prisma.challengeSeries.create({
+    data: {
+      creatorId,
+      templateId: template.id,
+      title: template.title,
+      description: template.description,
+      type: template.type,
+      target: template.target,
+      duration: template.duration,
+      recurrence,
+      nextStartDate: startDate
+    }
+  });
+
+  try {
+    return await startNextSeason(series);
+  } catch (error) {
+    await prisma.challengeSeries.delete({ where: { id: series.id } });
+    throw error;
+  }
+}
+
+/**
+ * Start the next season of every active series that's due, carrying the
+ * previous season's members over
+ */
+export async function spawnRecurringChallenges(now: Date = new Date()): Promise<number> {
+  const dueSeries = await prisma.challengeSeries.findMany({
+    where: {
+      isActive: true,
+      nextStartDate: { lte: now }
+    }
+  });
+
+  let spawnedCount = 0;
+
+  for (const series of dueSeries) {
+    try {
+      await startNextSeason(series, now);
+      spawnedCount++;
+    } catch (error) {
+      console.error(`Error starting next season of series ${series.id}:`, error);
+    }
+  }
+
+  return spawnedCount;
+}
+
+/**
+ * Create a series' next instance and move `nextStartDate` on. Seasons missed
+ * while the job wasn't running are skipped rather than backfilled.
+ */
+async function startNextSeason(series: ChallengeSeries, now: Date = series.nextStartDate): Promise<Challenge> {
+  const [firstSeason, lastSeason] = await Promise.all([
+    prisma.challenge.findFirst({
+      where: { seriesId: series.id },
+      orderBy: { season: 'asc' },
+      select: { startDate: true }
+    }),
+    prisma.challenge.findFirst({
+      where: { seriesId: series.id },
+      orderBy: { season: 'desc' },
+      include: { participants: { select: { userId: true } } }
+    })
+  ]);
+
+  // Monthly series stay on the first season's day of the month
+  const anchorDay = (firstSeason?.startDate ?? series.nextStartDate).getUTCDate();
+
+  let startDate = series.nextStartDate;
+  let nextStartDate = getNextSeasonStart(startDate, series.recurrence, anchorDay);
+  while (nextStartDate <= now) {
+    startDate = nextStartDate;
+    nextStartDate = getNextSeasonStart(startDate, series.recurrence, anchorDay);
+  }
+
+  const season = (lastSeason?.season ?? 0) + 1;
+
+  const challenge = await createChallenge({
+    creatorId: series.creatorId,
+    title: renderTemplateText(series.title, startDate, season),
+    description: renderTemplateText(series.description, startDate, season),
+    type: series.type,
+    targetAmount: getChallengeTarget(series) ?? undefined,
+    duration: getSeasonDuration(startDate, nextStartDate, series.duration),
+    startDate,
+    templateId: series.templateId ?? undefined,
+    seriesId: series.id,
+    season
+  });
+
+  await prisma.challengeSeries.update({
+    where: { id: series.id },
+    data: { nextStartDate }
+  });
+
+  for (const participant of lastSeason?.participants ?? []) {
+    if (participant.userId === series.creatorId) continue;
+
+    try {
+      await joinChallenge(challenge.id, participant.userId);
+    } catch (error) {
+      console.error(`Error carrying ${participant.userId} over to challenge ${challenge.id}:`, error);
+    }
+  }
+
+  return challenge;
+}
+
+/**
+ * Stop a series from starting new seasons. The current season runs to its end.
+ */
+export async function stopChallengeSeries(seriesId: string, userId: string): Promise<ChallengeSeries> {
+  const series = await prisma.challengeSeries.findUnique({
+    where: { id: seriesId }
+  });
+
+  if (!series) {
+    throw new Error('Series not found');
+  }
+
+  if (series.creatorId !== userId) {
+    throw new Error('Only the series creator can stop it');
+  }
+
+  return prisma.challengeSeries.update({
+    where: { id: seriesId },
+    data: { isActive: false }
+  });
+}
+
+/**
+ * Get every season of a series with the user's result in each, so they can
+ * compare themselves with past seasons
+ */
+export async function getChallengeSeasonHistory(
+  seriesId: string,
+  userId: string
+): Promise<ChallengeSeasonHistory> {
+  const series = await prisma.challengeSeries.findUnique({
+    where: { id: seriesId },
+    include: {
+      challenges: {
+        orderBy: { season: 'desc' },
+        include: {
+          participants: {
+            orderBy: { currentProgress: 'desc' },
+            include: { user: { select: { username: true } } }
+          }
+        }
+      }
+    }
+  });
+
+  if (!series) {
+    throw new Error('Series not found');
+  }
+
+  const seasons: ChallengeSeasonEntry[] = series.challenges.map(challenge => {
+    const [leader] = challenge.participants;
+    const participation = challenge.participants.find(p => p.userId === userId);
+
+    return {
+      challengeId: challenge.id,
+      season: challenge.season ?? 0,
+      title: challenge.title,
+      startDate: challenge.startDate,
+      endDate: challenge.endDate,
+      status: challenge.status,
+      participantCount: challenge.participants.length,
+      leader: leader
+        ? { userId: leader.userId, username: leader.user.username, progress: leader.currentProgress }
+        : null,
+      userProgress: participation?.currentProgress ?? null,
+      userRank: participation
+        ? participation.rank ?? challenge.participants.indexOf(participation) + 1
+        : null
+    };
+  });
+
+  return {
+    seriesId: series.id,
+    title: seasons[0]?.title ?? renderTemplateText(series.title, series.nextStartDate),
+    recurrence: series.recurrence,
+    isActive: series.isActive,
+    nextStartDate: series.nextStartDate,
+    seasons,
+    summary: summarizeSeasons(seasons.map(({ season, userProgress, userRank }) => ({
+      season,
+      progress: userProgress,
+      rank: userRank
+    })))
+  };
+}
+
+function withTargetAmount(template: ChallengeTemplate): ChallengeTemplateWithTarget {
+  const { target, ...rest } = template;
+  return { ...rest, targetAmount: getChallengeTarget({ type: template.type, target }) };
+}
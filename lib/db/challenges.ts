@@ -1,14 +1,72 @@
 import { prisma } from './prisma';
-import { Challenge, ChallengeParticipant, ChallengeType, ChallengeStatus, Prisma } from '@prisma/client';
+import {
+  Challenge,
+  ChallengeInviteStatus,
+  ChallengeParticipant,
+  ChallengeType,
+  ChallengeStatus,
+  FriendshipStatus,
+  PayoutCurve,
+  Prisma,
+  PrivacyLevel,
+  TeamScoring,
+  TransactionStatus
+} from '@prisma/client';
+import {
+  ChallengeActivity,
+  ChallengeWindow,
+  calculateChallengeProgress,
+  getChallengeTarget,
+  getChallengeWindow,
+  isChallengeTargetMet,
+  toChallengeTarget
+} from '../gamification/challengeProgress';
+import {
+  pickBalancedTeam,
+  rankByProgress,
+  resolveTeamNames,
+  scoreTeam,
+  validateTeamSetup,
+  validateTeamsInput
+} from '../gamification/challengeTeams';
+import { parseStake, validateStake } from '../gamification/stakePayouts';
+import {
+  getChallengeMilestones,
+  validateMilestones
+} from '../gamification/challengeMilestones';
+import { BASE_DISPLAY_RATE, sumInDisplayCurrency } from '../fx/conversion';
+import { wsIntegration } from '../websocket/integration';
+import { getProfileVisibilities, getViewerRelations } from './privacy';
+import { anonymizeEntry, getProfileVisibility } from '../social/privacy';
+import { SAVINGS_TRANSACTION_TYPES, sumByCurrency } from './savingsLedger';
+import {
+  hasLockedStake,
+  lockChallengeStake,
+  refundChallengeStakes,
+  resolvePendingChallengeStakes,
+  settleChallengeStakes,
+  settlePendingChallengeStakes
+} from './challengeStakes';
+import { awardChallengeMilestones, grantRankRewards } from './challengeMilestones';
+import { recordActivity } from './activityFeed';
 
 export interface CreateChallengeInput {
   creatorId: string;
   title: string;
   description: string;
   type: ChallengeType;
-  targetAmount?: number;
+  targetAmount?: number; // In progress units: dollars saved, days of streak or friends added
   duration: number; // in days
   startDate?: Date;
+  isPublic?: boolean; // Private challenges are joined by invitation only
+  teams?: number | string[]; // Team count or names, for a team challenge
+  teamScoring?: TeamScoring; // SUM by default
+  stake?: string; // Buy-in in ETH, for a staked challenge
+  payoutCurve?: PayoutCurve; // WINNER_TAKES_ALL by default
+  milestones?: number[]; // Percents of the target, 25/50/75/100 by default
+  templateId?: string;
+  seriesId?: string; // With `season`, for an instance of a recurring challenge
+  season?: number;
 }
 
 export interface UpdateChallengeInput {
@@ -23,26 +81,68 @@ export interface ChallengeWithParticipants extends Challenge {
   creator: {
     id: string;
     username: string;
-    firstName?: string;
-    lastName?: string;
-    profileImage?: string;
+    firstName?: string | null;
+    lastName?: string | null;
+    profileImage?: string | null;
   };
   participants: Array<{
     id: string;
     userId: string;
     currentProgress: number;
-    rank?: number;
+    rank?: number | null;
     joinedAt: Date;
     user: {
       username: string;
-      firstName?: string;
-      lastName?: string;
-      profileImage?: string;
+      firstName?: string | null;
+      lastName?: string | null;
+      profileImage?: string | null;
     };
   }>;
+  targetAmount: number | null; // The target in progress units, like CreateChallengeInput
   participantCount: number;
   isParticipating?: boolean;
   userProgress?: number;
+  teams?: Array<{
+    id: string;
+    name: string;
+    progress: number;
+    rank: number | null;
+  }>;
+  milestones?: Array<{
+    id: string;
+    position: number;
+    percent: number;
+    points: number;
+  }>;
+  reachedMilestoneIds?: string[]; // Milestones the user has been awarded
+}
+
+export interface ChallengeLeaderboardEntry {
+  rank: number;
+  userId: string;
+  username: string;
+  firstName?: string;
+  lastName?: string;
+  profileImage?: string;
+  progress: number;
+  joinedAt: Date;
+  teamId?: string;
+  teamName?: string;
+  teamRank?: number;
+}
+
+export interface ChallengeTeamLeaderboardEntry {
+  rank: number;
+  teamId: string;
+  name: string;
+  progress: number;
+  memberCount: number;
+  members: ChallengeLeaderboardEntry[]; // Ranked within the team
+}
+
+export interface ChallengeLeaderboard {
+  participants: ChallengeLeaderboardEntry[];
+  teams: ChallengeTeamLeaderboardEntry[]; // Empty for individual challenges
 }
 
 export interface ChallengeStats {
@@ -67,22 +167,84 @@ export async function createChallenge(input: CreateChallengeInput): Promise<Chal
   const endDate = new Date(startDate);
   endDate.setDate(endDate.getDate() + input.duration);
 
+  const teamsError = input.teams !== undefined ? validateTeamsInput(input.teams) : null;
+  if (teamsError) {
+    throw new Error(teamsError);
+  }
+
+  const teamNames = input.teams !== undefined ? resolveTeamNames(input.teams) : null;
+  if (teamNames) {
+    const error = validateTeamSetup(teamNames, input.teamScoring);
+    if (error) {
+      throw new Error(error);
+    }
+  }
+
+  const stakeWei = input.stake !== undefined ? parseStake(input.stake) : null;
+  if (input.stake !== undefined) {
+    const error = stakeWei === null ? 'Invalid stake' : validateStake(stakeWei, input.payoutCurve);
+    if (error) {
+      throw new Error(error);
+    }
+    if (teamNames) {
+      throw new Error('Team challenges cannot be staked');
+    }
+  }
+
+  // Milestones are shares of the target, so only challenges with one get them
+  if (input.milestones !== undefined) {
+    const error = validateMilestones(input.milestones, input.type, input.targetAmount);
+    if (error) {
+      throw new Error(error);
+    }
+  }
+  const milestones = getChallengeMilestones(input.type, input.targetAmount, input.milestones);
+
   const challenge = await prisma.challenge.create({
     data: {
       creatorId: input.creatorId,
       title: input.title,
       description: input.description,
       type: input.type,
-      targetAmount: input.targetAmount,
+      target: toChallengeTarget(input.type, input.targetAmount),
       duration: input.duration,
       startDate,
       endDate,
-      status: ChallengeStatus.ACTIVE
+      status: ChallengeStatus.ACTIVE,
+      isPublic: input.isPublic ?? true,
+      templateId: input.templateId,
+      seriesId: input.seriesId,
+      season: input.season,
+      ...(teamNames && {
+        teamScoring: input.teamScoring || TeamScoring.SUM,
+        teams: { create: teamNames.map(name => ({ name })) }
+      }),
+      ...(stakeWei !== null && {
+        stakeWei: stakeWei.toString(),
+        payoutCurve: input.payoutCurve || PayoutCurve.WINNER_TAKES_ALL
+      }),
+      ...(milestones.length > 0 && {
+        milestones: {
+          create: milestones.map((milestone, i) => ({
+            position: i + 1,
+            percent: milestone.percent,
+            points: milestone.points
+          }))
+        }
+      })
     }
   });
 
-  // Automatically add creator as participant
-  await joinChallenge(challenge.id, input.creatorId);
+  // Automatically add creator as participant. Their buy-in opens a staked
+  // challenge on chain, so drop the challenge if it can't be locked.
+  try {
+    await joinChallenge(challenge.id, input.creatorId);
+  } catch (error) {
+    if (stakeWei !== null) {
+      await prisma.challenge.delete({ where: { id: challenge.id } });
+    }
+    throw error;
+  }
 
   return challenge;
 }
@@ -113,7 +275,8 @@ export async function getChallengeById(
               username: true,
               firstName: true,
               lastName: true,
-              profileImage: true
+              profileImage: true,
+              privacyLevel: true
             }
           }
         },
@@ -122,6 +285,14 @@ export async function getChallengeById(
           { currentProgress: 'desc' },
           { joinedAt: 'asc' }
         ]
+      },
+      teams: {
+        select: { id: true, name: true, progress: true, rank: true },
+        orderBy: [{ rank: 'asc' }, { name: 'asc' }]
+      },
+      milestones: {
+        select: { id: true, position: true, percent: true, points: true },
+        orderBy: { position: 'asc' }
       }
     }
   });
@@ -132,11 +303,21 @@ export async function getChallengeById(
     ? challenge.participants.find(p => p.userId === userId)
     : undefined;
 
+  const reachedMilestones = userParticipation
+    ? await prisma.challengeMilestoneAward.findMany({
+        where: { participantId: userParticipation.id },
+        select: { milestoneId: true }
+      })
+    : [];
+
   return {
     ...challenge,
+    targetAmount: getChallengeTarget(challenge),
+    participants: await applyParticipantPrivacy(challenge.participants, userId),
     participantCount: challenge.participants.length,
     isParticipating: !!userParticipation,
-    userProgress: userParticipation?.currentProgress
+    userProgress: userParticipation?.currentProgress,
+    reachedMilestoneIds: reachedMilestones.map(award => award.milestoneId)
   };
 }
 
@@ -152,9 +333,17 @@ export async function getActiveChallenges(
   total: number;
   hasMore: boolean;
 }> {
+  // Private challenges are only listed for their members and invitees
   const where: Prisma.ChallengeWhereInput = {
     status: ChallengeStatus.ACTIVE,
-    endDate: { gt: new Date() }
+    endDate: { gt: new Date() },
+    OR: [
+      { isPublic: true },
+      ...(userId ? [
+        { participants: { some: { userId } } },
+        { invites: { some: { inviteeId: userId, status: ChallengeInviteStatus.PENDING } } }
+      ] : [])
+    ]
   };
 
   const [challenges, total] = await Promise.all([
@@ -177,7 +366,8 @@ export async function getActiveChallenges(
                 username: true,
                 firstName: true,
                 lastName: true,
-                profileImage: true
+                profileImage: true,
+                privacyLevel: true
               }
             }
           },
@@ -192,18 +382,20 @@ export async function getActiveChallenges(
     prisma.challenge.count({ where })
   ]);
 
-  const challengesWithParticipation = challenges.map(challenge => {
+  const challengesWithParticipation = await Promise.all(challenges.map(async challenge => {
     const userParticipation = userId 
       ? challenge.participants.find(p => p.userId === userId)
       : undefined;
 
     return {
       ...challenge,
+      targetAmount: getChallengeTarget(challenge),
+      participants: await applyParticipantPrivacy(challenge.participants, userId),
       participantCount: challenge.participants.length,
       isParticipating: !!userParticipation,
       userProgress: userParticipation?.currentProgress
     };
-  });
+  }));
 
   return {
     challenges: challengesWithParticipation,
@@ -213,11 +405,13 @@ export async function getActiveChallenges(
 }
 
 /**
- * Join a challenge
+ * Join a challenge. In team challenges the user joins `teamId`, or is placed
+ * on the smallest team when none is given.
  */
 export async function joinChallenge(
   challengeId: string,
-  userId: string
+  userId: string,
+  teamId?: string
 ): Promise<ChallengeParticipant> {
   // Check if challenge exists and is active
   const challenge = await prisma.challenge.findUnique({
@@ -250,14 +444,39 @@ export async function joinChallenge(
     throw new Error('User is already participating in this challenge');
   }
 
-  // Add user as participant
+  // Private challenges need an accepted invite or join link
+  if (!challenge.isPublic && challenge.creatorId !== userId) {
+    const invite = await prisma.challengeInvite.findFirst({
+      where: { challengeId, inviteeId: userId, status: ChallengeInviteStatus.ACCEPTED }
+    });
+    if (!invite) {
+      throw new Error('This challenge is invite-only');
+    }
+  }
+
+  const teamAssignment = await resolveJoinTeam(challenge, teamId);
+
+  // Staked challenges take the buy-in before the user is added
+  if (challenge.stakeWei) {
+    await lockChallengeStake(challenge, userId);
+  }
+
+  // Add user as participant, counting what they've done since the challenge started
   const participant = await prisma.challengeParticipant.create({
     data: {
       userId,
       challengeId,
-      currentProgress: 0
+      currentProgress: 0,
+      teamId: teamAssignment
     }
   });
+  await recalculateChallengeProgress(challengeId, [userId]);
+
+  // Joining answers any invites still waiting
+  await prisma.challengeInvite.updateMany({
+    where: { challengeId, inviteeId: userId, status: ChallengeInviteStatus.PENDING },
+    data: { status: ChallengeInviteStatus.ACCEPTED, respondedAt: new Date() }
+  });
 
   // Create notification for challenge creator
   await prisma.notification.create({
@@ -276,6 +495,88 @@ export async function joinChallenge(
   return participant;
 }
 
+/**
+ * Move a participant to another team in a team challenge. Teams are locked
+ * once the challenge starts, so progress can't be carried to the team ahead.
+ */
+export async function switchChallengeTeam(
+  challengeId: string,
+  userId: string,
+  teamId: string,
+  now: Date = new Date()
+): Promise<ChallengeParticipant> {
+  const challenge = await prisma.challenge.findUnique({
+    where: { id: challengeId }
+  });
+
+  if (!challenge) {
+    throw new Error('Challenge not found');
+  }
+
+  if (challenge.status !== ChallengeStatus.ACTIVE) {
+    throw new Error('Challenge is not active');
+  }
+
+  if (challenge.startDate.getTime() <= now.getTime()) {
+    throw new Error('Teams are locked once the challenge has started');
+  }
+
+  const existingParticipation = await prisma.challengeParticipant.findUnique({
+    where: {
+      userId_challengeId: {
+        userId,
+        challengeId
+      }
+    }
+  });
+
+  if (!existingParticipation) {
+    throw new Error('Not participating in this challenge');
+  }
+
+  const participant = await prisma.challengeParticipant.update({
+    where: { id: existingParticipation.id },
+    data: { teamId: await resolveJoinTeam(challenge, teamId) }
+  });
+
+  await updateChallengeRankings(challengeId);
+  await wsIntegration.broadcastChallengeProgress(challengeId);
+  await wsIntegration.broadcastTeamProgress(challengeId);
+
+  return participant;
+}
+
+/**
+ * The team a user should join, checking a chosen team belongs to the challenge
+ */
+async function resolveJoinTeam(challenge: Challenge, teamId?: string): Promise<string | null> {
+  if (!challenge.teamScoring) {
+    if (teamId) {
+      throw new Error('Challenge does not have teams');
+    }
+    return null;
+  }
+
+  const teams = await prisma.challengeTeam.findMany({
+    where: { challengeId: challenge.id },
+    include: { _count: { select: { members: true } } },
+    orderBy: { createdAt: 'asc' }
+  });
+
+  if (teamId) {
+    if (!teams.some(team => team.id === teamId)) {
+      throw new Error('Team not found');
+    }
+    return teamId;
+  }
+
+  return pickBalancedTeam(teams.map(team => ({
+    id: team.id,
+    memberCount: team._count.members,
+    progress: team.progress
+  })));
+}
+
 /**
  * Leave a challenge
  */
@@ -296,6 +597,10 @@ export async function leaveChallenge(
     throw new Error('Challenge creator cannot leave their own challenge');
   }
 
+  if (challenge.stakeWei && await hasLockedStake(challengeId, userId)) {
+    throw new Error('Cannot leave a staked challenge');
+  }
+
   const result = await prisma.challengeParticipant.delete({
     where: {
       userId_challengeId: {
@@ -328,18 +633,152 @@ export async function updateChallengeProgress(
     }
   });
 
+  await awardChallengeMilestones(challengeId);
+
   // Check if challenge is completed
   const challenge = await prisma.challenge.findUnique({
     where: { id: challengeId }
   });
 
-  if (challenge && challenge.targetAmount && progress >= challenge.targetAmount) {
+  if (challenge && isChallengeTargetMet(progress, getChallengeTarget(challenge))) {
     await checkChallengeCompletion(challengeId);
   }
 
   return participant;
 }
 
+/**
+ * Recalculate participants' progress from the savings ledger and friendships
+ * inside the challenge window, then re-rank and broadcast the challenge.
+ * Recalculates every participant unless `userIds` is given.
+ */
+export async function recalculateChallengeProgress(
+  challengeId: string,
+  userIds?: string[],
+  now: Date = new Date()
+): Promise<void> {
+  const challenge = await prisma.challenge.findUnique({
+    where: { id: challengeId },
+    include: {
+      participants: {
+        where: userIds ? { userId: { in: userIds } } : undefined
+      }
+    }
+  });
+
+  if (!challenge) {
+    throw new Error('Challenge not found');
+  }
+
+  const window = getChallengeWindow(challenge, now);
+  if (challenge.status !== ChallengeStatus.ACTIVE || !window) return;
+
+  const target = getChallengeTarget(challenge);
+  let targetMet = false;
+  for (const participant of challenge.participants) {
+    const activity = await getChallengeActivity(participant.userId, challenge.type, window);
+    const progress = calculateChallengeProgress(challenge.type, activity);
+
+    if (progress !== participant.currentProgress) {
+      await prisma.challengeParticipant.update({
+        where: { id: participant.id },
+        data: { currentProgress: progress }
+      });
+    }
+    targetMet = targetMet || isChallengeTargetMet(progress, target);
+  }
+
+  await updateChallengeRankings(challengeId);
+
+  // Teams race to the target together
+  if (challenge.teamScoring) {
+    const teams = await prisma.challengeTeam.findMany({ where: { challengeId } });
+    targetMet = teams.some(team => isChallengeTargetMet(team.progress, target));
+  }
+
+  await awardChallengeMilestones(challengeId);
+
+  if (targetMet) {
+    await checkChallengeCompletion(challengeId);
+  }
+
+  await wsIntegration.broadcastChallengeProgress(challengeId);
+  if (challenge.teamScoring) {
+    await wsIntegration.broadcastTeamProgress(challengeId);
+  }
+}
+
+/**
+ * Recalculate a user's progress in every active challenge they take part in.
+ * Called whenever one of their savings confirms or a friendship is accepted.
+ */
+export async function recalculateUserChallengeProgress(userId: string, now: Date = new Date()): Promise<void> {
+  const participations = await prisma.challengeParticipant.findMany({
+    where: {
+      userId,
+      challenge: {
+        status: ChallengeStatus.ACTIVE,
+        startDate: { lte: now }
+      }
+    },
+    select: { challengeId: true }
+  });
+
+  for (const { challengeId } of participations) {
+    try {
+      await recalculateChallengeProgress(challengeId, [userId], now);
+    } catch (error) {
+      console.error(`Failed to recalculate progress in challenge ${challengeId}:`, error);
+    }
+  }
+}
+
+/**
+ * Gather the activity a challenge type scores, within the challenge window
+ */
+async function getChallengeActivity(
+  userId: string,
+  type: ChallengeType,
+  window: ChallengeWindow
+): Promise<ChallengeActivity> {
+  const activity: ChallengeActivity = { savedBaseMinor: 0, savingDates: [], friendsAdded: 0 };
+  const confirmedSavings: Prisma.SavingsTransactionWhereInput = {
+    userId,
+    status: TransactionStatus.CONFIRMED,
+    type: { in: SAVINGS_TRANSACTION_TYPES },
+    createdAt: { gte: window.start, lte: window.end }
+  };
+
+  if (type === ChallengeType.SAVINGS_AMOUNT) {
+    activity.savedBaseMinor = sumInDisplayCurrency(await sumByCurrency(confirmedSavings), BASE_DISPLAY_RATE).minor;
+  }
+
+  if (type === ChallengeType.STREAK) {
+    const savings = await prisma.savingsTransaction.findMany({
+      where: confirmedSavings,
+      select: { createdAt: true }
+    });
+    activity.savingDates = savings.map(saving => saving.createdAt);
+  }
+
+  if (type === ChallengeType.SOCIAL) {
+    const friendships = await prisma.friendship.findMany({
+      where: {
+        status: FriendshipStatus.ACCEPTED,
+        acceptedAt: { gte: window.start, lte: window.end },
+        OR: [{ userId }, { friendId: userId }]
+      },
+      select: { userId: true, friendId: true }
+    });
+    // Accepted friendships may be stored in one or both directions
+    activity.friendsAdded = new Set(
+      friendships.map(friendship => (friendship.userId === userId ? friendship.friendId : friendship.userId))
+    ).size;
+  }
+
+  return activity;
+}
+
 /**
  * Get user's challenges
  */
@@ -391,6 +830,7 @@ export async function getUserChallenges(
 
   return participations.map(participation => ({
     ...participation.challenge,
+    targetAmount: getChallengeTarget(participation.challenge),
     participantCount: participation.challenge.participants.length,
     isParticipating: true,
     userProgress: participation.currentProgress
@@ -434,6 +874,7 @@ export async function getUserCreatedChallenges(
 
   return challenges.map(challenge => ({
     ...challenge,
+    targetAmount: getChallengeTarget(challenge),
     participantCount: challenge.participants.length,
     isParticipating: challenge.participants.some(p => p.userId === userId),
     userProgress: challenge.participants.find(p => p.userId === userId)?.currentProgress
@@ -441,7 +882,8 @@ export async function getUserCreatedChallenges(
 }
 
 /**
- * Update challenge rankings
+ * Update challenge rankings. In team challenges this also scores and ranks the
+ * teams, and ranks members within their team.
  */
 export async function updateChallengeRankings(challengeId: string): Promise<void> {
   const participants = await prisma.challengeParticipant.findMany({
@@ -456,6 +898,38 @@ export async function updateChallengeRankings(challengeId: string): Promise<void
       data: { rank: i + 1 }
     });
   }
+
+  const challenge = await prisma.challenge.findUnique({
+    where: { id: challengeId },
+    select: { teamScoring: true, teams: { orderBy: { createdAt: 'asc' } } }
+  });
+
+  if (!challenge?.teamScoring) return;
+
+  const scoring = challenge.teamScoring;
+  const teams = rankByProgress(challenge.teams.map(team => {
+    const members = participants.filter(p => p.teamId === team.id);
+    return {
+      id: team.id,
+      progress: scoreTeam(members.map(member => member.currentProgress), scoring),
+      members
+    };
+  }));
+
+  for (const team of teams) {
+    await prisma.challengeTeam.update({
+      where: { id: team.id },
+      data: { progress: team.progress, rank: team.rank }
+    });
+
+    // Members arrive sorted by progress, so their index is their team rank
+    for (let i = 0; i < team.members.length; i++) {
+      await prisma.challengeParticipant.update({
+        where: { id: team.members[i].id },
+        data: { teamRank: i + 1 }
+      });
+    }
+  }
 }
 
 /**
@@ -473,54 +947,131 @@ async function checkChallengeCompletion(challengeId: string): Promise<void> {
 
   if (!challenge) return;
 
+  if (challenge.teamScoring) {
+    await checkTeamChallengeCompletion(challenge);
+    return;
+  }
+
   // Check if challenge should be completed
   const shouldComplete = 
     challenge.endDate < new Date() || 
-    (challenge.targetAmount && 
-     challenge.participants.some(p => p.currentProgress >= challenge.targetAmount));
+    challenge.participants.some(p => isChallengeTargetMet(p.currentProgress, getChallengeTarget(challenge)));
 
   if (shouldComplete && challenge.status === ChallengeStatus.ACTIVE) {
-    // Update challenge status
-    await prisma.challenge.update({
-      where: { id: challengeId },
+    // Only the caller that completes the challenge ranks, settles and rewards it
+    const completed = await prisma.challenge.updateMany({
+      where: { id: challengeId, status: ChallengeStatus.ACTIVE },
       data: { status: ChallengeStatus.COMPLETED }
     });
 
+    if (completed.count === 0) return;
+
     // Update final rankings
     await updateChallengeRankings(challengeId);
 
-    // Notify participants
-    const winner = challenge.participants[0];
-    if (winner) {
-      // Notify winner
+    if (challenge.stakeWei) {
+      await settleChallengeStakes(challengeId);
+    }
+
+    // Reward every participant by rank tier and tell them where they finished
+    const rewards = await grantRankRewards(challenge, challenge.participants);
+
+    for (let i = 0; i < challenge.participants.length; i++) {
+      const participant = challenge.participants[i];
+      const reward = rewards.get(participant.id);
+      const rank = reward?.position ?? i + 1;
+      const earned = reward ? ` and earned ${reward.points} points` : '';
+
       await prisma.notification.create({
         data: {
-          userId: winner.userId,
+          userId: participant.userId,
           type: 'CHALLENGE',
-          title: 'Challenge Won!',
-          message: `Congratulations! You won the challenge "${challenge.title}"`,
+          title: reward?.tier === 'WINNER' ? 'Challenge Won!' : 'Challenge Completed',
+          message: reward?.tier === 'WINNER'
+            ? `Congratulations! You won the challenge "${challenge.title}"${earned}`
+            : `The challenge "${challenge.title}" has ended. You finished in position ${rank}${earned}`,
           data: {
             challengeId: challenge.id,
-            rank: 1
+            rank,
+            rewardTier: reward?.tier ?? null,
+            pointsEarned: reward?.points ?? 0
           }
         }
       });
 
-      // Notify other participants
-      for (let i = 1; i < challenge.participants.length; i++) {
-        const participant = challenge.participants[i];
-        await prisma.notification.create({
+      if (reward) {
+        await recordActivity(participant.userId, 'CHALLENGE_COMPLETED', {
+          challengeId: challenge.id,
+          title: challenge.title,
+          rank,
+          tier: reward.tier
+        }, `challenge_completed:${participant.id}`);
+      }
+    }
+  }
+}
+
+/**
+ * Complete a team challenge once it ends or a team reaches the target, and
+ * tell every member where their team finished
+ */
+async function checkTeamChallengeCompletion(challenge: Challenge): Promise<void> {
+  await updateChallengeRankings(challenge.id);
+
+  const teams = await prisma.challengeTeam.findMany({
+    where: { challengeId: challenge.id },
+    include: {
+      members: { select: { id: true, userId: true, teamId: true, currentProgress: true } }
+    },
+    orderBy: { rank: 'asc' }
+  });
+
+  const shouldComplete =
+    challenge.endDate < new Date() ||
+    teams.some(team => isChallengeTargetMet(team.progress, getChallengeTarget(challenge)));
+
+  if (!shouldComplete || challenge.status !== ChallengeStatus.ACTIVE) return;
+
+  const completed = await prisma.challenge.updateMany({
+    where: { id: challenge.id, status: ChallengeStatus.ACTIVE },
+    data: { status: ChallengeStatus.COMPLETED }
+  });
+
+  if (completed.count === 0) return;
+
+  const rewards = await grantRankRewards(challenge, teams.flatMap(team => team.members));
+
+  for (const team of teams) {
+    const rank = team.rank ?? teams.indexOf(team) + 1;
+    for (const member of team.members) {
+      const reward = rewards.get(member.id);
+      const earned = reward ? ` and earned ${reward.points} points` : '';
+
+      await prisma.notification.create({
+        data: {
+          userId: member.userId,
+          type: 'CHALLENGE',
+          title: rank === 1 ? 'Challenge Won!' : 'Challenge Completed',
+          message: rank === 1
+            ? `Congratulations! Your team ${team.name} won the challenge "${challenge.title}"${earned}`
+            : `The challenge "${challenge.title}" has ended. Your team ${team.name} finished in position ${rank}${earned}`,
           data: {
-            userId: participant.userId,
-            type: 'CHALLENGE',
-            title: 'Challenge Completed',
-            message: `The challenge "${challenge.title}" has ended. You finished in position ${i + 1}`,
-            data: {
-              challengeId: challenge.id,
-              rank: i + 1
-            }
+            challengeId: challenge.id,
+            teamId: team.id,
+            rank,
+            rewardTier: reward?.tier ?? null,
+            pointsEarned: reward?.points ?? 0
           }
-        });
+        }
+      });
+
+      if (reward) {
+        await recordActivity(member.userId, 'CHALLENGE_COMPLETED', {
+          challengeId: challenge.id,
+          title: challenge.title,
+          rank,
+          tier: reward.tier
+        }, `challenge_completed:${member.id}`);
       }
     }
   }
@@ -540,7 +1091,9 @@ export async function getChallengeStats(): Promise<ChallengeStats> {
   ] = await Promise.all([
     prisma.challenge.count(),
     prisma.challenge.count({ where: { status: ChallengeStatus.ACTIVE } }),
-    prisma.challenge.count({ where: { status: ChallengeStatus.COMPLETED } }),
+    prisma.challenge.count({
+      where: { status: { in: [ChallengeStatus.SETTLING, ChallengeStatus.COMPLETED] } }
+    }),
     prisma.challengeParticipant.count(),
     
     prisma.challenge.groupBy({
@@ -596,20 +1149,25 @@ export async function updateChallenge(
   id: string,
   input: UpdateChallengeInput
 ): Promise<Challenge> {
-  const updateData: any = { ...input };
+  const { targetAmount, ...rest } = input;
+  const updateData: Prisma.ChallengeUpdateInput = { ...rest };
   
-  // If duration is updated, recalculate end date
-  if (input.duration) {
+  // If duration is updated, recalculate end date. Targets are stored in the
+  // challenge type's units.
+  if (input.duration || targetAmount !== undefined) {
     const challenge = await prisma.challenge.findUnique({
       where: { id },
-      select: { startDate: true }
+      select: { startDate: true, type: true }
     });
     
-    if (challenge) {
+    if (challenge && input.duration) {
       const endDate = new Date(challenge.startDate);
       endDate.setDate(endDate.getDate() + input.duration);
       updateData.endDate = endDate;
     }
+    if (challenge && targetAmount !== undefined) {
+      updateData.target = toChallengeTarget(challenge.type, targetAmount);
+    }
   }
 
   return prisma.challenge.update({
@@ -622,6 +1180,9 @@ export async function updateChallenge(
  * Cancel challenge
  */
 export async function cancelChallenge(id: string): Promise<Challenge> {
+  // Refund buy-ins first so a failed refund leaves the challenge active
+  await refundChallengeStakes(id);
+
   const challenge = await prisma.challenge.update({
     where: { id },
     data: { status: ChallengeStatus.CANCELLED }
@@ -655,49 +1216,94 @@ export async function cancelChallenge(id: string): Promise<Challenge> {
 }
 
 /**
- * Get challenge leaderboard
+ * Get challenge leaderboard, with a team leaderboard for team challenges.
+ * Participants whose stats `viewerId` can't see keep their place anonymously.
  */
 export async function getChallengeLeaderboard(
-  challengeId: string
-): Promise<Array<{
-  rank: number;
-  userId: string;
-  username: string;
-  firstName?: string;
-  lastName?: string;
-  profileImage?: string;
-  progress: number;
-  joinedAt: Date;
-}>> {
-  const participants = await prisma.challengeParticipant.findMany({
-    where: { challengeId },
-    include: {
-      user: {
-        select: {
-          id: true,
-          username: true,
-          firstName: true,
-          lastName: true,
-          profileImage: true
+  challengeId: string,
+  viewerId?: string | null
+): Promise<ChallengeLeaderboard> {
+  const [participants, teams] = await Promise.all([
+    prisma.challengeParticipant.findMany({
+      where: { challengeId },
+      include: {
+        user: {
+          select: {
+            id: true,
+            username: true,
+            firstName: true,
+            lastName: true,
+            profileImage: true,
+            privacyLevel: true
+          }
+        },
+        team: {
+          select: { name: true }
         }
-      }
-    },
-    orderBy: [
-      { rank: 'asc' },
-      { currentProgress: 'desc' },
-      { joinedAt: 'asc' }
-    ]
-  });
+      },
+      orderBy: [
+        { rank: 'asc' },
+        { currentProgress: 'desc' },
+        { joinedAt: 'asc' }
+      ]
+    }),
+    prisma.challengeTeam.findMany({
+      where: { challengeId },
+      orderBy: [{ rank: 'asc' }, { createdAt: 'asc' }]
+    })
+  ]);
 
-  return participants.map((participant, index) => ({
+  const visibilities = await getProfileVisibilities(participants.map(participant => participant.user), viewerId);
+
+  const entries: ChallengeLeaderboardEntry[] = participants.map((participant, index) => anonymizeEntry({
     rank: participant.rank || index + 1,
     userId: participant.user.id,
     username: participant.user.username,
-    firstName: participant.user.firstName,
-    lastName: participant.user.lastName,
-    profileImage: participant.user.profileImage,
+    firstName: participant.user.firstName ?? undefined,
+    lastName: participant.user.lastName ?? undefined,
+    profileImage: participant.user.profileImage ?? undefined,
     progress: participant.currentProgress,
-    joinedAt: participant.joinedAt
+    joinedAt: participant.joinedAt,
+    teamId: participant.teamId ?? undefined,
+    teamName: participant.team?.name,
+    teamRank: participant.teamRank ?? undefined
+  }, visibilities.get(participant.userId)!));
+
+  return {
+    participants: entries,
+    teams: teams.map((team, index) => {
+      const members = entries
+        .filter(entry => entry.teamId === team.id)
+        .sort((a, b) => (a.teamRank ?? a.rank) - (b.teamRank ?? b.rank));
+
+      return {
+        rank: team.rank || index + 1,
+        teamId: team.id,
+        name: team.name,
+        progress: team.progress,
+        memberCount: members.length,
+        members
+      };
+    })
+  };
+}
+
+/**
+ * Hide the names of participants whose stats the viewer can't see, as on the
+ * leaderboard
+ */
+async function applyParticipantPrivacy<T extends { userId: string; user: { username: string; privacyLevel: PrivacyLevel } }>(
+  participants: T[],
+  viewerId?: string | null
+): Promise<Array<Omit<T, 'user'> & { user: Omit<T['user'], 'privacyLevel'> }>> {
+  const relations = await getViewerRelations(participants.map(participant => participant.userId), viewerId);
+
+  return participants.map(({ user: { privacyLevel, ...user }, ...participant }) => ({
+    ...participant,
+    user: anonymizeEntry(
+      user as Omit<T['user'], 'privacyLevel'> & { username: string },
+      getProfileVisibility(privacyLevel, relations.get(participant.userId) ?? 'none')
+    )
   }));
 }
 
@@ -719,5 +1325,20 @@ export async function processExpiredChallenges(): Promise<number> {
     processedCount++;
   }
 
+  // Buy-ins confirmed after their join gave up waiting still join the challenge
+  for (const stake of await resolvePendingChallengeStakes()) {
+    const participant = await prisma.challengeParticipant.findUnique({
+      where: { userId_challengeId: { userId: stake.userId, challengeId: stake.challengeId } }
+    });
+    if (!participant) {
+      await joinChallenge(stake.challengeId, stake.userId).catch(error =>
+        console.error(`Error joining challenge ${stake.challengeId} after its stake locked:`, error)
+      );
+    }
+  }
+
+  // Retry payouts that failed when their challenge completed
+  await settlePendingChallengeStakes();
+
   return processedCount;
 }
\ No newline at end of file
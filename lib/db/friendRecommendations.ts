@@ -0,0 +1,327 @@
+import { prisma } from './prisma';
+import { FriendshipStatus } from '@prisma/client';
+import {
+  RECOMMENDATION_LIMITS,
+  RecommendationSignals,
+  explainRecommendation,
+  getRecommendationCount,
+  isSimilarLevel,
+  rankRecommendations
+} from '../social/friendRecommendations';
+import { getProfileVisibilities } from './privacy';
+import { getPrivacySettingsShowing, redactProfile } from '../social/privacy';
+
+export interface FriendRecommendation {
+  id: string;
+  username: string;
+  firstName?: string | null;
+  lastName?: string | null;
+  profileImage?: string | null;
+  level?: number;
+  totalPoints?: number;
+  mutualFriends: number;
+  sharedChallenges: number;
+  score: number;
+  reason: string; // e.g. "3 mutual friends, both in Save-March"
+}
+
+const candidateSelect = {
+  id: true,
+  username: true,
+  firstName: true,
+  lastName: true,
+  profileImage: true,
+  level: true,
+  totalPoints: true,
+  country: true,
+  timezone: true,
+  privacyLevel: true
+} as const;
+
+// Ranked recommendations per user. Kept in memory for a few minutes and
+// dropped early when the user's friendships change. Map order is insertion
+// order, so the first entries are the oldest.
+const recommendationCache = new Map<string, { expiresAt: number; recommendations: FriendRecommendation[] }>();
+
+/**
+ * Recommend people the user may know, best first: friends of friends, people
+ * in the same challenges, referral links and savers like them. Only people
+ * the user could find in search are recommended.
+ */
+export async function getFriendRecommendations(
+  userId: string,
+  limit?: number
+): Promise<FriendRecommendation[]> {
+  const count = getRecommendationCount(limit);
+  const cached = recommendationCache.get(userId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.recommendations.slice(0, count);
+  }
+
+  const candidateIds = await getCandidateIds(userId);
+  const [candidates, signals] = await Promise.all([
+    prisma.user.findMany({
+      where: {
+        id: { in: candidateIds },
+        isActive: true,
+        privacyLevel: { in: getPrivacySettingsShowing('listed', 'none') }
+      },
+      select: candidateSelect
+    }),
+    getRecommendationSignals(userId, candidateIds)
+  ]);
+
+  const visibilities = await getProfileVisibilities(candidates, userId);
+
+  const ranked = rankRecommendations(
+    candidates
+      .filter(candidate => visibilities.get(candidate.id)!.listed)
+      .sort((a, b) => b.totalPoints - a.totalPoints)
+      .map(candidate => ({ candidate, signals: signals.get(candidate.id)! })),
+    RECOMMENDATION_LIMITS.MAX_COUNT
+  );
+
+  const recommendations = ranked.map(({ candidate, signals, score, reason }) => {
+    const { id, username, firstName, lastName, profileImage, level, totalPoints } = candidate;
+
+    return {
+      ...redactProfile({ firstName, lastName, profileImage, level, totalPoints }, visibilities.get(id)!),
+      id,
+      username,
+      mutualFriends: signals.mutualFriends,
+      sharedChallenges: signals.sharedChallenges.length,
+      score,
+      reason
+    };
+  });
+
+  cacheRecommendations(userId, recommendations);
+
+  return recommendations.slice(0, count);
+}
+
+/**
+ * What the user has in common with each candidate, in a fixed number of
+ * queries however many candidates there are. Level, shared challenges,
+ * country and timezone only count where the candidate's privacy setting
+ * shows them to the user.
+ */
+export async function getRecommendationSignals(
+  userId: string,
+  candidateIds: string[]
+): Promise<Map<string, RecommendationSignals>> {
+  const [user, friendIds, challenges] = await Promise.all([
+    prisma.user.findUnique({
+      where: { id: userId },
+      select: { level: true, country: true, timezone: true }
+    }),
+    getFriendIds(userId),
+    prisma.challengeParticipant.findMany({
+      where: { userId },
+      select: { challengeId: true, challenge: { select: { title: true } } }
+    })
+  ]);
+
+  const [candidates, mutualFriendships, coParticipations, referrals] = await Promise.all([
+    prisma.user.findMany({
+      where: { id: { in: candidateIds } },
+      select: { id: true, level: true, country: true, timezone: true, privacyLevel: true }
+    }),
+    prisma.friendship.findMany({
+      where: {
+        status: FriendshipStatus.ACCEPTED,
+        OR: [
+          { userId: { in: friendIds }, friendId: { in: candidateIds } },
+          { userId: { in: candidateIds }, friendId: { in: friendIds } }
+        ]
+      },
+      select: { userId: true, friendId: true }
+    }),
+    prisma.challengeParticipant.findMany({
+      where: {
+        challengeId: { in: challenges.map(challenge => challenge.challengeId) },
+        userId: { in: candidateIds }
+      },
+      select: { userId: true, challengeId: true }
+    }),
+    prisma.referral.findMany({
+      where: {
+        OR: [
+          { referrerId: userId, referredUserId: { in: candidateIds } },
+          { referrerId: { in: candidateIds }, referredUserId: userId }
+        ]
+      },
+      select: { referrerId: true, referredUserId: true }
+    })
+  ]);
+
+  const visibilities = await getProfileVisibilities(candidates, userId);
+  const friendIdSet = new Set(friendIds);
+  const challengeTitles = new Map(challenges.map(challenge => [challenge.challengeId, challenge.challenge.title]));
+
+  // Accepted friendships may be stored in one or both directions
+  const mutuals = new Map<string, Set<string>>();
+  for (const friendship of mutualFriendships) {
+    const [candidateId, friendId] = friendIdSet.has(friendship.userId)
+      ? [friendship.friendId, friendship.userId]
+      : [friendship.userId, friendship.friendId];
+    if (!mutuals.has(candidateId)) mutuals.set(candidateId, new Set());
+    mutuals.get(candidateId)!.add(friendId);
+  }
+
+  const signals = new Map<string, RecommendationSignals>();
+  for (const candidate of candidates) {
+    const visibility = visibilities.get(candidate.id)!;
+    const referral = referrals.find(link => link.referrerId === candidate.id || link.referredUserId === candidate.id);
+
+    signals.set(candidate.id, {
+      mutualFriends: mutuals.get(candidate.id)?.size ?? 0,
+      sharedChallenges: !visibility.stats ? [] : coParticipations
+        .filter(participation => participation.userId === candidate.id)
+        .map(participation => challengeTitles.get(participation.challengeId)!),
+      similarLevel: !!user && visibility.stats && isSimilarLevel(user.level, candidate.level),
+      sameCountry: !!user?.country && visibility.identity && user.country === candidate.country,
+      sameTimezone: !!user && visibility.identity && user.timezone === candidate.timezone,
+      referral: !referral ? null : referral.referrerId === userId ? 'you_referred' : 'referred_you'
+    });
+  }
+
+  return signals;
+}
+
+/**
+ * Explain what the user has in common with each of the given users, e.g. to
+ * label search results
+ */
+export async function explainConnections(
+  userId: string,
+  otherUserIds: string[]
+): Promise<Map<string, { mutualFriends: number; reason: string }>> {
+  const signals = await getRecommendationSignals(userId, otherUserIds);
+
+  return new Map(Array.from(signals, ([otherUserId, signal]) => [
+    otherUserId,
+    { mutualFriends: signal.mutualFriends, reason: explainRecommendation(signal) }
+  ]));
+}
+
+/**
+ * Drop cached recommendations, e.g. when users' friendships change
+ */
+export function invalidateFriendRecommendations(...userIds: string[]): void {
+  for (const userId of userIds) {
+    recommendationCache.delete(userId);
+  }
+}
+
+/**
+ * Users worth scoring: friends of friends, people in the user's challenges,
+ * referral links, and savers in the same country or at a similar level.
+ * Anyone the user already has a friendship with, in any state, is left out.
+ */
+async function getCandidateIds(userId: string): Promise<string[]> {
+  const [user, friendships] = await Promise.all([
+    prisma.user.findUnique({
+      where: { id: userId },
+      select: { level: true, country: true }
+    }),
+    prisma.friendship.findMany({
+      where: { OR: [{ userId }, { friendId: userId }] },
+      select: { userId: true, friendId: true, status: true }
+    })
+  ]);
+
+  const excluded = new Set([userId, ...friendships.map(f => (f.userId === userId ? f.friendId : f.userId))]);
+  const friendIds = friendships
+    .filter(f => f.status === FriendshipStatus.ACCEPTED)
+    .map(f => (f.userId === userId ? f.friendId : f.userId));
+
+  const [friendsOfFriends, coParticipants, referrals, similarUsers] = await Promise.all([
+    prisma.friendship.findMany({
+      where: {
+        status: FriendshipStatus.ACCEPTED,
+        OR: [{ userId: { in: friendIds } }, { friendId: { in: friendIds } }]
+      },
+      select: { userId: true, friendId: true }
+    }),
+    prisma.challengeParticipant.findMany({
+      where: { challenge: { participants: { some: { userId } } } },
+      select: { userId: true },
+      distinct: ['userId']
+    }),
+    prisma.referral.findMany({
+      where: { OR: [{ referrerId: userId }, { referredUserId: userId }] },
+      select: { referrerId: true, referredUserId: true }
+    }),
+    prisma.user.findMany({
+      where: {
+        id: { notIn: Array.from(excluded) },
+        isActive: true,
+        OR: [
+          ...(user?.country ? [{ country: user.country }] : []),
+          {
+            level: {
+              gte: (user?.level ?? 1) - RECOMMENDATION_LIMITS.LEVEL_GAP,
+              lte: (user?.level ?? 1) + RECOMMENDATION_LIMITS.LEVEL_GAP
+            }
+          }
+        ]
+      },
+      select: { id: true },
+      orderBy: { totalPoints: 'desc' },
+      take: RECOMMENDATION_LIMITS.CANDIDATE_POOL
+    })
+  ]);
+
+  // Stronger sources first, so they survive the cut to the pool size
+  const candidateIds = new Set<string>();
+  for (const id of [
+    ...referrals.flatMap(referral => [referral.referrerId, referral.referredUserId ?? '']),
+    ...friendsOfFriends.flatMap(friendship => [friendship.userId, friendship.friendId]),
+    ...coParticipants.map(participant => participant.userId),
+    ...similarUsers.map(similar => similar.id)
+  ]) {
+    if (id && !excluded.has(id)) {
+      candidateIds.add(id);
+    }
+  }
+
+  return Array.from(candidateIds).slice(0, RECOMMENDATION_LIMITS.CANDIDATE_POOL);
+}
+
+// Cache a user's recommendations, dropping expired entries and then the
+// oldest ones to stay within the size limit
+function cacheRecommendations(userId: string, recommendations: FriendRecommendation[]): void {
+  const now = Date.now();
+  recommendationCache.delete(userId);
+
+  for (const [cachedUserId, entry] of recommendationCache) {
+    if (entry.expiresAt <= now) {
+      recommendationCache.delete(cachedUserId);
+    }
+  }
+
+  for (const cachedUserId of recommendationCache.keys()) {
+    if (recommendationCache.size < RECOMMENDATION_LIMITS.CACHE_MAX_USERS) break;
+    recommendationCache.delete(cachedUserId);
+  }
+
+  recommendationCache.set(userId, {
+    expiresAt: now + RECOMMENDATION_LIMITS.CACHE_TTL_MS,
+    recommendations
+  });
+}
+
+async function getFriendIds(userId: string): Promise<string[]> {
+  const friendships = await prisma.friendship.findMany({
+    where: {
+      status: FriendshipStatus.ACCEPTED,
+      OR: [{ userId }, { friendId: userId }]
+    },
+    select: { userId: true, friendId: true }
+  });
+
+  return [...new Set(
+    friendships.map(friendship => (friendship.userId === userId ? friendship.friendId : friendship.userId))
+  )];
+}
@@ -0,0 +1,328 @@
+import { prisma } from './prisma';
+import { League, LeagueMember, LeagueOutcome, LeagueTier, PointsReason, Prisma } from '@prisma/client';
+import {
+  LEAGUE_LIMITS,
+  LEAGUE_POINTS_REASONS,
+  RankedLeagueStanding,
+  getLeagueOutcome,
+  getLeagueWeekEnd,
+  getLeagueWeekStart,
+  getLeagueZoneSizes,
+  getLevelBand,
+  getNextTier,
+  rankLeague
+} from '../gamification/leagues';
+import { getProfileVisibilities } from './privacy';
+import { anonymizeEntry } from '../social/privacy';
+import { createSystemNotification } from './notifications';
+
+export interface LeagueEntry {
+  userId: string;
+  username: string;
+  profileImage?: string | null;
+  level?: number;
+  points: number;
+  rank: number;
+  zone: RankedLeagueStanding['zone'];
+  outcome: LeagueOutcome | null; // Set once the week has closed
+  isCurrentUser: boolean;
+}
+
+export interface LeagueStandings {
+  id: string;
+  tier: LeagueTier;
+  weekStart: Date;
+  weekEnd: Date;
+  closed: boolean;
+  promotionCount: number;
+  relegationCount: number;
+  entries: LeagueEntry[]; // Best first
+}
+
+export interface LeagueResult {
+  leagueId: string;
+  tier: LeagueTier;
+  weekStart: Date;
+  points: number;
+  rank: number;
+  outcome: LeagueOutcome;
+}
+
+/**
+ * Put the user in a league for the current week if they aren't in one yet:
+ * the first cohort of their tier and level band with room, or a new one.
+ * Users join when they first earn points in a week or open their league.
+ */
+export async function joinWeeklyLeague(userId: string, now: Date = new Date()): Promise<LeagueMember> {
+  const weekStart = getLeagueWeekStart(now);
+
+  const existing = await prisma.leagueMember.findUnique({
+    where: { userId_weekStart: { userId, weekStart } }
+  });
+  if (existing) {
+    return existing;
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { level: true, leagueTier: true }
+  });
+
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  const levelBand = getLevelBand(user.level);
+  const leagues = await prisma.league.findMany({
+    where: { weekStart, tier: user.leagueTier, levelBand, memberCount: { lt: LEAGUE_LIMITS.COHORT_SIZE } },
+    select: { id: true },
+    orderBy: { createdAt: 'asc' }
+  });
+
+  const leagueId = await claimLeagueSeat(leagues.map(league => league.id))
+    ?? (await prisma.league.create({
+      data: { weekStart, tier: user.leagueTier, levelBand, memberCount: 1 }
+    })).id;
+
+  try {
+    return await prisma.leagueMember.create({
+      data: { leagueId, userId, weekStart }
+    });
+  } catch (error) {
+    // Give the seat back
+    await prisma.league.update({
+      where: { id: leagueId },
+      data: { memberCount: { decrement: 1 } }
+    });
+
+    // Joined concurrently, e.g. by two awards at once
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return prisma.leagueMember.findUniqueOrThrow({
+        where: { userId_weekStart: { userId, weekStart } }
+      });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Get the user's league for the current week, joining one if needed
+ */
+export async function getCurrentLeague(userId: string, now: Date = new Date()): Promise<LeagueStandings> {
+  const membership = await joinWeeklyLeague(userId, now);
+  return getLeagueStandings(membership.leagueId, userId);
+}
+
+/**
+ * Rank a league by points earned in its week. Closed leagues show their final
+ * standings. Members whose privacy setting hides their stats from the viewer
+ * keep their place but aren't named.
+ */
+export async function getLeagueStandings(leagueId: string, viewerId?: string | null): Promise<LeagueStandings> {
+  const league = await prisma.league.findUnique({
+    where: { id: leagueId },
+    include: {
+      members: {
+        include: {
+          user: {
+            select: { id: true, username: true, profileImage: true, level: true, privacyLevel: true }
+          }
+        },
+        orderBy: { joinedAt: 'asc' }
+      }
+    }
+  });
+
+  if (!league) {
+    throw new Error('League not found');
+  }
+
+  const points = league.closedAt
+    ? new Map(league.members.map(member => [member.userId, member.finalPoints ?? 0]))
+    : await getWeeklyPoints(league.members.map(member => member.userId), league.weekStart);
+
+  const ranked = rankLeague(league.tier, league.members.map(member => ({
+    id: member.userId,
+    points: points.get(member.userId) ?? 0
+  })));
+
+  const members = new Map(league.members.map(member => [member.userId, member]));
+  const visibilities = await getProfileVisibilities(league.members.map(member => member.user), viewerId);
+  const { promotion, relegation } = getLeagueZoneSizes(league.tier, league.members.length);
+
+  return {
+    id: league.id,
+    tier: league.tier,
+    weekStart: league.weekStart,
+    weekEnd: getLeagueWeekEnd(league.weekStart),
+    closed: !!league.closedAt,
+    promotionCount: promotion,
+    relegationCount: relegation,
+    entries: ranked.map(standing => {
+      const member = members.get(standing.id)!;
+      const entry = anonymizeEntry({
+        userId: member.userId,
+        username: member.user.username,
+        profileImage: member.user.profileImage,
+        level: member.user.level,
+        points: standing.points,
+        rank: standing.rank,
+        zone: standing.zone,
+        outcome: member.outcome,
+        isCurrentUser: member.userId === viewerId
+      }, visibilities.get(member.userId)!);
+
+      return visibilities.get(member.userId)!.stats ? entry : { ...entry, level: undefined };
+    })
+  };
+}
+
+/**
+ * The user's finished weeks, most recent first
+ */
+export async function getLeagueHistory(userId: string, limit: number = 10): Promise<LeagueResult[]> {
+  const memberships = await prisma.leagueMember.findMany({
+    where: { userId, outcome: { not: null } },
+    include: { league: { select: { tier: true } } },
+    orderBy: { weekStart: 'desc' },
+    take: Math.min(Math.max(limit, 1), 52)
+  });
+
+  return memberships.map(membership => ({
+    leagueId: membership.leagueId,
+    tier: membership.league.tier,
+    weekStart: membership.weekStart,
+    points: membership.finalPoints ?? 0,
+    rank: membership.finalRank ?? 0,
+    outcome: membership.outcome!
+  }));
+}
+
+/**
+ * Close the leagues of weeks that have ended: record final standings, move
+ * the top finishers up a tier and the bottom finishers down, and tell them.
+ * Run at least weekly. Returns how many leagues were closed.
+ */
+export async function processEndedLeagues(now: Date = new Date()): Promise<number> {
+  const leagues = await prisma.league.findMany({
+    where: {
+      closedAt: null,
+      weekStart: { lt: getLeagueWeekStart(now) }
+    },
+    orderBy: { weekStart: 'asc' }
+  });
+
+  let closed = 0;
+
+  for (const league of leagues) {
+    try {
+      if (await closeLeague(league, now)) {
+        closed++;
+      }
+    } catch (error) {
+      console.error(`Failed to close league ${league.id}:`, error);
+    }
+  }
+
+  return closed;
+}
+
+async function closeLeague(league: League, now: Date): Promise<boolean> {
+  // Claim the league so it's only closed once
+  const claimed = await prisma.league.updateMany({
+    where: { id: league.id, closedAt: null },
+    data: { closedAt: now }
+  });
+  if (claimed.count === 0) {
+    return false;
+  }
+
+  let ranked: RankedLeagueStanding[];
+  try {
+    const members = await prisma.leagueMember.findMany({
+      where: { leagueId: league.id },
+      orderBy: { joinedAt: 'asc' }
+    });
+
+    const points = await getWeeklyPoints(members.map(member => member.userId), league.weekStart);
+    ranked = rankLeague(league.tier, members.map(member => ({
+      id: member.userId,
+      points: points.get(member.userId) ?? 0
+    })));
+
+    await prisma.$transaction(ranked.flatMap(standing => {
+      const outcome = getLeagueOutcome(standing) as LeagueOutcome;
+
+      return [
+        prisma.leagueMember.update({
+          where: { userId_weekStart: { userId: standing.id, weekStart: league.weekStart } },
+          data: { finalPoints: standing.points, finalRank: standing.rank, outcome }
+        }),
+        prisma.user.update({
+          where: { id: standing.id },
+          data: { leagueTier: getNextTier(league.tier, outcome) as LeagueTier }
+        })
+      ];
+    }));
+  } catch (error) {
+    // Release the claim so the next run retries
+    await prisma.league.updateMany({
+      where: { id: league.id },
+      data: { closedAt: null }
+    });
+    throw error;
+  }
+
+  for (const standing of ranked) {
+    const outcome = getLeagueOutcome(standing);
+    if (outcome === 'STAYED') continue;
+
+    const tier = getNextTier(league.tier, outcome);
+    const tierName = tier.charAt(0) + tier.slice(1).toLowerCase();
+
+    await createSystemNotification(
+      standing.id,
+      outcome === 'PROMOTED' ? 'Promoted! 🚀' : 'Relegated',
+      outcome === 'PROMOTED'
+        ? `You finished #${standing.rank} in your league and move up to ${tierName} this week.`
+        : `You finished #${standing.rank} in your league and drop to ${tierName} this week. Earn points to climb back up!`,
+      { leagueId: league.id, tier, outcome, rank: standing.rank }
+    );
+  }
+
+  return true;
+}
+
+// Take a seat in the first of the leagues with room, guarded on the count so
+// concurrent joins can't push a cohort past its size. Null when all are full.
+async function claimLeagueSeat(leagueIds: string[]): Promise<string | null> {
+  for (const id of leagueIds) {
+    const claimed = await prisma.league.updateMany({
+      where: { id, memberCount: { lt: LEAGUE_LIMITS.COHORT_SIZE } },
+      data: { memberCount: { increment: 1 } }
+    });
+    if (claimed.count > 0) {
+      return id;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Points each user earned in the league week starting at `weekStart`
+ */
+async function getWeeklyPoints(userIds: string[], weekStart: Date): Promise<Map<string, number>> {
+  const groups = await prisma.pointsLedgerEntry.groupBy({
+    by: ['userId'],
+    where: {
+      userId: { in: userIds },
+      reason: { in: LEAGUE_POINTS_REASONS as PointsReason[] },
+      amount: { gt: 0 },
+      createdAt: { gte: weekStart, lt: getLeagueWeekEnd(weekStart) }
+    },
+    _sum: { amount: true }
+  });
+
+  return new Map(groups.map(group => [group.userId, group._sum.amount ?? 0]));
+}
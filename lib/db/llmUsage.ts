@@ -0,0 +1,112 @@
+import { prisma } from './prisma';
+import { LlmCompletion, LlmRequest, getLlmProvider } from '../ai/providers';
+
+export interface LlmUsageSummary {
+  task: string;
+  provider: string;
+  model: string;
+  calls: number;
+  failures: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+  unpricedCalls: number; // Left out of costUsd
+}
+
+/**
+ * Run a request through the configured LLM provider and record its tokens,
+ * cost and latency. Failed calls are recorded too, then rethrown.
+ */
+export async function completeChat(request: LlmRequest, userId?: string | null): Promise<LlmCompletion> {
+  const provider = getLlmProvider();
+  const startedAt = Date.now();
+
+  try {
+    const completion = await provider.complete(request);
+
+    await recordLlmUsage({
+      userId: userId ?? null,
+      task: request.task,
+      provider: completion.provider,
+      model: completion.model,
+      ...completion.usage,
+      latencyMs: Date.now() - startedAt,
+      success: true
+    });
+
+    return completion;
+  } catch (error) {
+    await recordLlmUsage({
+      userId: userId ?? null,
+      task: request.task,
+      provider: provider.name,
+      model: 'unknown',
+      latencyMs: Date.now() - startedAt,
+      success: false,
+      error: error instanceof Error ? error.message.slice(0, 500) : String(error)
+    });
+    throw error;
+  }
+}
+
+/**
+ * Calls, tokens and cost since a date, by task, provider and model, most
+ * expensive first
+ */
+export async function getLlmUsageSummary(since: Date): Promise<LlmUsageSummary[]> {
+  const [totals, failures, unpriced] = await Promise.all([
+    prisma.llmUsage.groupBy({
+      by: ['task', 'provider', 'model'],
+      where: { createdAt: { gte: since } },
+      _count: { _all: true },
+      _sum: { promptTokens: true, completionTokens: true, costUsd: true }
+    }),
+    prisma.llmUsage.groupBy({
+      by: ['task', 'provider', 'model'],
+      where: { createdAt: { gte: since }, success: false },
+      _count: { _all: true }
+    }),
+    prisma.llmUsage.groupBy({
+      by: ['task', 'provider', 'model'],
+      where: { createdAt: { gte: since }, costUsd: null },
+      _count: { _all: true }
+    })
+  ]);
+
+  const failed = new Map(failures.map(group => [`${group.task}:${group.provider}:${group.model}`, group._count._all]));
+  const unpricedCalls = new Map(unpriced.map(group => [`${group.task}:${group.provider}:${group.model}`, group._count._all]));
+
+  return totals
+    .map(group => ({
+      task: group.task,
+      provider: group.provider,
+      model: group.model,
+      calls: group._count._all,
+      failures: failed.get(`${group.task}:${group.provider}:${group.model}`) ?? 0,
+      promptTokens: group._sum.promptTokens ?? 0,
+      completionTokens: group._sum.completionTokens ?? 0,
+      costUsd: group._sum.costUsd ?? 0,
+      unpricedCalls: unpricedCalls.get(`${group.task}:${group.provider}:${group.model}`) ?? 0
+    }))
+    .sort((a, b) => b.costUsd - a.costUsd);
+}
+
+async function recordLlmUsage(data: {
+  userId: string | null;
+  task: string;
+  provider: string;
+  model: string;
+  promptTokens?: number;
+  completionTokens?: number;
+  costUsd?: number | null;
+  latencyMs: number;
+  success: boolean;
+  error?: string;
+}): Promise<void> {
+  try {
+    await prisma.llmUsage.create({ data });
+  } catch (error) {
+    // Accounting never gets in the way of the reply
+    console.error('Failed to record LLM usage:', error);
+  }
+}
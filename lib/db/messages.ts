@@ -0,0 +1,365 @@
+import { prisma } from './prisma';
+import {
+  Conversation,
+  ConversationMember,
+  ConversationType,
+  FriendshipStatus,
+  Message,
+  Prisma
+} from '@prisma/client';
+import {
+  getDirectConversationKey,
+  getMessagePageSize,
+  validateMessageBody
+} from '../social/messaging';
+import { wsIntegration } from '../websocket/integration';
+
+export interface MessageWithSender extends Message {
+  sender: {
+    id: string;
+    username: string;
+    profileImage: string | null;
+  };
+}
+
+export interface MessagePage {
+  messages: MessageWithSender[]; // Newest first
+  nextCursor: string | null; // Pass as `before` to get older messages
+  readReceipts: Array<{ // Other members' read receipts
+    userId: string;
+    lastReadAt: Date | null;
+  }>;
+}
+
+export interface ConversationSummary {
+  id: string;
+  type: ConversationType;
+  challengeId: string | null;
+  title: string; // The other user's username, or the challenge title
+  otherUser: MessageWithSender['sender'] | null; // Direct conversations only
+  lastMessage: MessageWithSender | null;
+  lastMessageAt: Date;
+  unreadCount: number;
+}
+
+const senderSelect = {
+  id: true,
+  username: true,
+  profileImage: true
+} as const;
+
+/**
+ * Open the direct conversation between two friends, creating it the first
+ * time either of them messages the other
+ */
+export async function getOrCreateDirectConversation(userId: string, otherUserId: string): Promise<Conversation> {
+  if (userId === otherUserId) {
+    throw new Error('Cannot message yourself');
+  }
+
+  await assertCanMessage(userId, otherUserId);
+
+  const directKey = getDirectConversationKey(userId, otherUserId);
+  return prisma.conversation.upsert({
+    where: { directKey },
+    create: {
+      type: ConversationType.DIRECT,
+      directKey,
+      members: { create: [{ userId }, { userId: otherUserId }] }
+    },
+    update: {}
+  });
+}
+
+/**
+ * Open a challenge's chat room, creating it the first time a participant does
+ */
+export async function getOrCreateChallengeConversation(challengeId: string, userId: string): Promise<Conversation> {
+  await assertChallengeParticipant(challengeId, userId);
+
+  const conversation = await prisma.conversation.upsert({
+    where: { challengeId },
+    create: { type: ConversationType.CHALLENGE, challengeId },
+    update: {}
+  });
+  await ensureMember(conversation.id, userId);
+
+  return conversation;
+}
+
+/**
+ * Get the user's conversations, most recently active first, with the last
+ * message and how many messages they haven't read. Challenge rooms are listed
+ * for every participant once anyone has opened them.
+ */
+export async function getUserConversations(userId: string): Promise<ConversationSummary[]> {
+  const blockedIds = await getBlockedUserIds(userId);
+
+  const conversations = await prisma.conversation.findMany({
+    where: {
+      OR: [
+        { type: ConversationType.DIRECT, members: { some: { userId } } },
+        { challenge: { participants: { some: { userId } } } }
+      ]
+    },
+    include: {
+      members: { include: { user: { select: senderSelect } } },
+      challenge: { select: { title: true } },
+      messages: {
+        where: { deletedAt: null, senderId: { notIn: blockedIds } },
+        include: { sender: { select: senderSelect } },
+        orderBy: { createdAt: 'desc' },
+        take: 1
+      }
+    },
+    orderBy: { lastMessageAt: 'desc' }
+  });
+
+  const summaries: ConversationSummary[] = [];
+
+  for (const conversation of conversations) {
+    const member = conversation.members.find(m => m.userId === userId);
+    const otherUser = conversation.type === ConversationType.DIRECT
+      ? conversation.members.find(m => m.userId !== userId)?.user ?? null
+      : null;
+
+    summaries.push({
+      id: conversation.id,
+      type: conversation.type,
+      challengeId: conversation.challengeId,
+      title: otherUser?.username ?? conversation.challenge?.title ?? 'Conversation',
+      otherUser,
+      lastMessage: conversation.messages[0] ?? null,
+      lastMessageAt: conversation.lastMessageAt,
+      unreadCount: await prisma.message.count({
+        where: unreadMessagesWhere(conversation.id, userId, member?.lastReadAt ?? null, blockedIds)
+      })
+    });
+  }
+
+  return summaries;
+}
+
+/**
+ * Get a page of a conversation's history, newest first. Messages from users
+ * the reader has blocked, or who blocked them, are left out of challenge rooms.
+ */
+export async function getConversationMessages(
+  conversationId: string,
+  userId: string,
+  options: { before?: string; limit?: number } = {}
+): Promise<MessagePage> {
+  const conversation = await getConversationForMember(conversationId, userId);
+  const take = getMessagePageSize(options.limit);
+  const blockedIds = conversation.type === ConversationType.CHALLENGE ? await getBlockedUserIds(userId) : [];
+
+  const messages = await prisma.message.findMany({
+    where: {
+      conversationId,
+      ...(blockedIds.length > 0 && { senderId: { notIn: blockedIds } })
+    },
+    include: { sender: { select: senderSelect } },
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    take: take + 1,
+    ...(options.before && { cursor: { id: options.before }, skip: 1 })
+  });
+
+  const page = messages.slice(0, take);
+
+  return {
+    messages: page,
+    nextCursor: messages.length > take ? page[page.length - 1].id : null,
+    readReceipts: conversation.members
+      .filter(member => member.userId !== userId)
+      .map(member => ({ userId: member.userId, lastReadAt: member.lastReadAt }))
+  };
+}
+
+/**
+ * Send a message. Direct messages need the users to still be friends, and are
+ * rejected when either has blocked the other.
+ */
+export async function sendMessage(
+  conversationId: string,
+  senderId: string,
+  body: string
+): Promise<MessageWithSender> {
+  const error = validateMessageBody(body);
+  if (error) {
+    throw new Error(error);
+  }
+
+  const conversation = await getConversationForMember(conversationId, senderId);
+
+  if (conversation.type === ConversationType.DIRECT) {
+    const recipient = conversation.members.find(member => member.userId !== senderId);
+    if (recipient) {
+      await assertCanMessage(senderId, recipient.userId);
+    }
+  }
+
+  // Sending a message reads everything before it
+  const sentAt = new Date();
+  const [message] = await prisma.$transaction([
+    prisma.message.create({
+      data: { conversationId, senderId, body: body.trim(), createdAt: sentAt },
+      include: { sender: { select: senderSelect } }
+    }),
+    prisma.conversation.update({
+      where: { id: conversationId },
+      data: { lastMessageAt: sentAt }
+    }),
+    prisma.conversationMember.update({
+      where: { conversationId_userId: { conversationId, userId: senderId } },
+      data: { lastReadAt: sentAt }
+    })
+  ]);
+
+  await wsIntegration.broadcastNewMessage(message.id);
+
+  return message;
+}
+
+/**
+ * Mark everything in a conversation as read and send the read receipt to the
+ * other members
+ */
+export async function markConversationRead(conversationId: string, userId: string): Promise<Date> {
+  await getConversationForMember(conversationId, userId);
+
+  const readAt = new Date();
+  await prisma.conversationMember.update({
+    where: { conversationId_userId: { conversationId, userId } },
+    data: { lastReadAt: readAt }
+  });
+
+  await wsIntegration.broadcastMessagesRead(conversationId, userId, readAt);
+
+  return readAt;
+}
+
+/**
+ * Delete one of the user's own messages. It stays in the history as a
+ * placeholder with its body cleared.
+ */
+export async function deleteMessage(messageId: string, userId: string): Promise<Message> {
+  const message = await prisma.message.findUnique({
+    where: { id: messageId }
+  });
+
+  if (!message || message.deletedAt) {
+    throw new Error('Message not found');
+  }
+
+  if (message.senderId !== userId) {
+    throw new Error('Only the sender can delete a message');
+  }
+
+  const deleted = await prisma.message.update({
+    where: { id: messageId },
+    data: { body: '', deletedAt: new Date() }
+  });
+
+  await wsIntegration.broadcastMessageDeleted(deleted.conversationId, deleted.id);
+
+  return deleted;
+}
+
+/**
+ * Load a conversation the user can read. Challenge participants become
+ * members of the room the first time they use it.
+ */
+async function getConversationForMember(
+  conversationId: string,
+  userId: string
+): Promise<Conversation & { members: ConversationMember[] }> {
+  const conversation = await prisma.conversation.findUnique({
+    where: { id: conversationId },
+    include: { members: true }
+  });
+
+  if (!conversation) {
+    throw new Error('Conversation not found');
+  }
+
+  const isMember = conversation.members.some(member => member.userId === userId);
+
+  if (conversation.challengeId) {
+    await assertChallengeParticipant(conversation.challengeId, userId);
+    if (!isMember) {
+      conversation.members.push(await ensureMember(conversation.id, userId));
+    }
+  } else if (!isMember) {
+    // Don't reveal other people's conversations
+    throw new Error('Conversation not found');
+  }
+
+  return conversation;
+}
+
+async function ensureMember(conversationId: string, userId: string): Promise<ConversationMember> {
+  return prisma.conversationMember.upsert({
+    where: { conversationId_userId: { conversationId, userId } },
+    create: { conversationId, userId },
+    update: {}
+  });
+}
+
+async function assertCanMessage(userId: string, otherUserId: string): Promise<void> {
+  const friendships = await prisma.friendship.findMany({
+    where: {
+      OR: [
+        { userId, friendId: otherUserId },
+        { userId: otherUserId, friendId: userId }
+      ]
+    },
+    select: { status: true }
+  });
+
+  if (friendships.some(friendship => friendship.status === FriendshipStatus.BLOCKED)) {
+    throw new Error('Cannot message this user');
+  }
+
+  if (!friendships.some(friendship => friendship.status === FriendshipStatus.ACCEPTED)) {
+    throw new Error('You can only message friends');
+  }
+}
+
+async function assertChallengeParticipant(challengeId: string, userId: string): Promise<void> {
+  const participation = await prisma.challengeParticipant.findUnique({
+    where: { userId_challengeId: { userId, challengeId } }
+  });
+
+  if (!participation) {
+    throw new Error('Only challenge participants can use the challenge chat');
+  }
+}
+
+/**
+ * Users the given user has blocked or been blocked by
+ */
+async function getBlockedUserIds(userId: string): Promise<string[]> {
+  const blocks = await prisma.friendship.findMany({
+    where: {
+      status: FriendshipStatus.BLOCKED,
+      OR: [{ userId }, { friendId: userId }]
+    },
+    select: { userId: true, friendId: true }
+  });
+
+  return blocks.map(block => (block.userId === userId ? block.friendId : block.userId));
+}
+
+function unreadMessagesWhere(
+  conversationId: string,
+  userId: string,
+  lastReadAt: Date | null,
+  blockedIds: string[]
+): Prisma.MessageWhereInput {
+  return {
+    conversationId,
+    deletedAt: null,
+    senderId: { notIn: [userId, ...blockedIds] },
+    ...(lastReadAt && { createdAt: { gt: lastReadAt } })
+  };
+}
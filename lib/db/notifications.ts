@@ -1,5 +1,6 @@
 import { prisma } from './prisma';
 import { Notification, NotificationType, Prisma } from '@prisma/client';
+import { Money, formatMoney, toMajorUnits } from '../utils/money';
 
 export interface CreateNotificationInput {
   userId: string;
@@ -268,6 +269,26 @@ export async function createAchievementNotification(
   });
 }
 
+/**
+ * Create level up notification
+ */
+export async function createLevelUpNotification(
+  userId: string,
+  level: number,
+  totalPoints: number
+): Promise<Notification> {
+  return createNotification({
+    userId,
+    type: NotificationType.ACHIEVEMENT,
+    title: 'Level Up! ⭐',
+    message: `You've reached level ${level} with ${totalPoints} points!`,
+    data: {
+      level,
+      totalPoints
+    }
+  });
+}
+
 /**
  * Create savings milestone notification
  */
@@ -288,26 +309,51 @@ export async function createSavingsMilestoneNotification(
   });
 }
 
+/**
+ * Create savings goal completed notification
+ */
+export async function createGoalCompletedNotification(
+  userId: string,
+  goalName: string,
+  target: Money // In the goal's currency
+): Promise<Notification> {
+  return createNotification({
+    userId,
+    type: NotificationType.SAVINGS,
+    title: 'Goal Reached! 🎯',
+    message: `You've saved ${formatMoney(target)} and completed your "${goalName}" goal!`,
+    data: {
+      goalName,
+      targetAmount: toMajorUnits(target),
+      currency: target.currency
+    }
+  });
+}
+
 /**
  * Create challenge notification
  */
 export async function createChallengeNotification(
   userId: string,
   challengeTitle: string,
-  notificationType: 'joined' | 'completed' | 'won' | 'new_participant',
+  notificationType: 'joined' | 'completed' | 'won' | 'new_participant' | 'invited' | 'invite_accepted' | 'invite_declined' | 'milestone',
   additionalData?: any
 ): Promise<Notification> {
   const messages = {
     joined: `You've joined the challenge "${challengeTitle}". Good luck!`,
     completed: `The challenge "${challengeTitle}" has ended. Check your results!`,
     won: `🎉 Congratulations! You won the challenge "${challengeTitle}"!`,
-    new_participant: `Someone new joined your challenge "${challengeTitle}"`
+    new_participant: `Someone new joined your challenge "${challengeTitle}"`,
+    invited: `${additionalData?.inviterUsername || 'A friend'} invited you to the challenge "${challengeTitle}"`,
+    invite_accepted: `${additionalData?.inviteeUsername || 'Someone'} accepted your invite to "${challengeTitle}"`,
+    invite_declined: `${additionalData?.inviteeUsername || 'Someone'} declined your invite to "${challengeTitle}"`,
+    milestone: `You reached ${additionalData?.percent}% of "${challengeTitle}" and earned ${additionalData?.points} points`
   };
 
   return createNotification({
     userId,
     type: NotificationType.CHALLENGE,
-    title: 'Challenge Update',
+    title: notificationType === 'invited' ? 'Challenge Invite' : 'Challenge Update',
     message: messages[notificationType],
     data: {
       challengeTitle,
@@ -323,19 +369,23 @@ export async function createChallengeNotification(
 export async function createSocialNotification(
   userId: string,
   fromUsername: string,
-  notificationType: 'friend_request' | 'friend_accepted' | 'friend_activity',
+  notificationType: 'friend_request' | 'friend_accepted' | 'friend_activity' | 'activity_reaction' | 'activity_comment',
   additionalData?: any
 ): Promise<Notification> {
   const messages = {
     friend_request: `${fromUsername} sent you a friend request`,
     friend_accepted: `${fromUsername} accepted your friend request`,
-    friend_activity: `${fromUsername} ${additionalData?.activity || 'had some activity'}`
+    friend_activity: `${fromUsername} ${additionalData?.activity || 'had some activity'}`,
+    activity_reaction: `${fromUsername} reacted to your activity`,
+    activity_comment: `${fromUsername} commented on your activity`
   };
 
   const titles = {
     friend_request: 'New Friend Request',
     friend_accepted: 'Friend Request Accepted',
-    friend_activity: 'Friend Activity'
+    friend_activity: 'Friend Activity',
+    activity_reaction: 'New Reaction',
+    activity_comment: 'New Comment'
   };
 
   return createNotification({
@@ -374,13 +424,16 @@ export async function createSystemNotification(
  */
 export async function createSecurityNotification(
   userId: string,
-  securityEvent: 'login' | 'password_change' | 'wallet_change' | 'suspicious_activity',
+  securityEvent: 'login' | 'password_change' | 'wallet_change' | 'withdrawal_requested' | 'two_factor_enabled' | 'two_factor_disabled' | 'suspicious_activity',
   additionalData?: any
 ): Promise<Notification> {
   const messages = {
     login: 'New login detected from a different device or location',
     password_change: 'Your password has been successfully changed',
     wallet_change: 'Your wallet address has been updated',
+    withdrawal_requested: 'A withdrawal from your savings was requested',
+    two_factor_enabled: 'Two-factor authentication is now on for your account',
+    two_factor_disabled: 'Two-factor authentication was turned off for your account',
     suspicious_activity: 'Suspicious activity detected on your account'
   };
 
@@ -388,6 +441,9 @@ export async function createSecurityNotification(
     login: 'New Login Detected',
     password_change: 'Password Changed',
     wallet_change: 'Wallet Updated',
+    withdrawal_requested: 'Withdrawal Requested',
+    two_factor_enabled: 'Two-Factor Enabled',
+    two_factor_disabled: 'Two-Factor Disabled',
     suspicious_activity: 'Security Alert'
   };
 
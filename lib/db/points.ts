@@ -0,0 +1,252 @@
+import { prisma } from './prisma';
+import { PointsLedgerEntry, PointsReason, Prisma, User } from '@prisma/client';
+import {
+  LevelProgress,
+  POINTS_REASON_LABELS,
+  getLevelProgress,
+  getPointsPageSize,
+  validateAdjustment,
+  withRunningBalance
+} from '../gamification/points';
+import { calculateLevel } from '../utils/helpers';
+import { createLevelUpNotification } from './notifications';
+import { joinWeeklyLeague } from './leagues';
+import { wsIntegration } from '../websocket/integration';
+
+export interface PointsEntryOptions {
+  referenceId?: string;
+  note?: string;
+  adjustedBy?: string;
+  dedupeKey?: string;
+}
+
+export interface PointsHistoryEntry extends PointsLedgerEntry {
+  label: string;
+  balanceAfter: number;
+}
+
+export interface PointsHistory {
+  totalPoints: number;
+  level: LevelProgress;
+  entries: PointsHistoryEntry[]; // Newest first
+  nextCursor: string | null; // Pass as `cursor` for the next page
+}
+
+/**
+ * Award points to a user, move them up a level if they reached one and enter
+ * them in this week's league. Awards with a `dedupeKey` are only paid once;
+ * repeats return null.
+ */
+export async function awardPoints(
+  userId: string,
+  amount: number,
+  reason: PointsReason,
+  options: PointsEntryOptions = {}
+): Promise<PointsLedgerEntry | null> {
+  if (amount <= 0) {
+    return null;
+  }
+
+  try {
+    const [entry] = await prisma.$transaction(getPointsAwardOperations(userId, amount, reason, options));
+    await syncUserLevel(userId);
+    await joinWeeklyLeague(userId);
+    return entry;
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return null; // Already awarded
+    }
+    throw error;
+  }
+}
+
+/**
+ * The writes that award points, for callers that pay points in the same
+ * transaction as their own changes. Call `syncUserLevel` once it commits.
+ */
+export function getPointsAwardOperations(
+  userId: string,
+  amount: number,
+  reason: PointsReason,
+  options: PointsEntryOptions = {}
+): [Prisma.PrismaPromise<PointsLedgerEntry>, Prisma.PrismaPromise<User>] {
+  return [
+    prisma.pointsLedgerEntry.create({
+      data: { userId, amount, reason, ...options }
+    }),
+    prisma.user.update({
+      where: { id: userId },
+      data: { totalPoints: { increment: amount } }
+    })
+  ];
+}
+
+/**
+ * Spend points from a user's balance. `purchase` can change the user in the
+ * same write, guarded by its own conditions, so a purchase can't be paid for
+ * without being granted or the other way round. Returns null when the user
+ * can't afford it or the guard fails.
+ */
+export async function spendPoints(
+  userId: string,
+  amount: number,
+  reason: PointsReason,
+  options: PointsEntryOptions & {
+    purchase?: { where: Prisma.UserWhereInput; data: Prisma.UserUpdateManyMutationInput };
+  } = {}
+): Promise<PointsLedgerEntry | null> {
+  const { purchase, ...entryOptions } = options;
+
+  // The balance and the ledger change together, so neither can be written without the other
+  const entry = await prisma.$transaction(async tx => {
+    const result = await tx.user.updateMany({
+      where: {
+        ...purchase?.where,
+        id: userId,
+        totalPoints: { gte: amount }
+      },
+      data: {
+        ...purchase?.data,
+        totalPoints: { decrement: amount }
+      }
+    });
+
+    if (result.count === 0) {
+      return null;
+    }
+
+    return tx.pointsLedgerEntry.create({
+      data: { userId, amount: -amount, reason, ...entryOptions }
+    });
+  });
+
+  if (!entry) {
+    return null;
+  }
+
+  await syncUserLevel(userId);
+
+  return entry;
+}
+
+/**
+ * Correct a user's points by hand. Every adjustment needs a note and is
+ * recorded against the admin who made it; balances can't go below zero.
+ */
+export async function adjustPoints(
+  userId: string,
+  amount: number,
+  adminId: string,
+  note: string
+): Promise<PointsLedgerEntry> {
+  const error = validateAdjustment(amount, note);
+  if (error) {
+    throw new Error(error);
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true }
+  });
+
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  const options = { note: note.trim(), adjustedBy: adminId };
+
+  if (amount > 0) {
+    return (await awardPoints(userId, amount, PointsReason.ADMIN_ADJUSTMENT, options))!;
+  }
+
+  const entry = await spendPoints(userId, -amount, PointsReason.ADMIN_ADJUSTMENT, options);
+  if (!entry) {
+    throw new Error('Adjustment would take the balance below zero');
+  }
+
+  return entry;
+}
+
+/**
+ * Persist the level for the user's points. Level follows the balance, so
+ * spending points can take a user back down; only rises are announced.
+ */
+export async function syncUserLevel(userId: string): Promise<number | null> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { level: true, totalPoints: true }
+  });
+  if (!user) return null;
+
+  const level = calculateLevel(user.totalPoints);
+  if (level === user.level) {
+    return level;
+  }
+
+  // Guarded on the old level so concurrent awards announce a level once
+  const result = await prisma.user.updateMany({
+    where: { id: userId, level: user.level },
+    data: { level }
+  });
+
+  if (result.count > 0 && level > user.level) {
+    await createLevelUpNotification(userId, level, user.totalPoints);
+    await wsIntegration.broadcastLevelUp(userId, user.level);
+  }
+
+  return level;
+}
+
+/**
+ * Get a page of the user's points history, newest first, with the balance
+ * after each entry
+ */
+export async function getPointsHistory(
+  userId: string,
+  options: { cursor?: string; limit?: number } = {}
+): Promise<PointsHistory> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { totalPoints: true }
+  });
+
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  const take = getPointsPageSize(options.limit);
+  const entries = await prisma.pointsLedgerEntry.findMany({
+    where: { userId },
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    take: take + 1,
+    ...(options.cursor && { cursor: { id: options.cursor }, skip: 1 })
+  });
+
+  const page = entries.slice(0, take);
+
+  // Work back from the current balance past any newer entries
+  let balance = user.totalPoints;
+  if (page.length > 0) {
+    const newer = await prisma.pointsLedgerEntry.aggregate({
+      where: {
+        userId,
+        OR: [
+          { createdAt: { gt: page[0].createdAt } },
+          { createdAt: page[0].createdAt, id: { gt: page[0].id } }
+        ]
+      },
+      _sum: { amount: true }
+    });
+    balance -= newer._sum.amount ?? 0;
+  }
+
+  return {
+    totalPoints: user.totalPoints,
+    level: getLevelProgress(user.totalPoints),
+    entries: withRunningBalance(page, balance).map(entry => ({
+      ...entry,
+      label: POINTS_REASON_LABELS[entry.reason]
+    })),
+    nextCursor: entries.length > take ? page[page.length - 1].id : null
+  };
+}
@@ -0,0 +1,69 @@
+import { prisma } from './prisma';
+import { FriendshipStatus, PrivacyLevel } from '@prisma/client';
+import { ProfileVisibility, ViewerRelation, getProfileVisibility } from '../social/privacy';
+
+/**
+ * How the viewer is related to each of the given users. Signed-out viewers are
+ * strangers to everyone.
+ */
+export async function getViewerRelations(
+  userIds: string[],
+  viewerId?: string | null
+): Promise<Map<string, ViewerRelation>> {
+  const relations = new Map<string, ViewerRelation>(userIds.map(userId => [userId, 'none']));
+  if (!viewerId) {
+    return relations;
+  }
+
+  if (relations.has(viewerId)) {
+    relations.set(viewerId, 'self');
+  }
+
+  const friendships = await prisma.friendship.findMany({
+    where: {
+      status: { in: [FriendshipStatus.ACCEPTED, FriendshipStatus.BLOCKED] },
+      OR: [
+        { userId: viewerId, friendId: { in: userIds } },
+        { userId: { in: userIds }, friendId: viewerId }
+      ]
+    },
+    select: { userId: true, friendId: true, status: true }
+  });
+
+  for (const friendship of friendships) {
+    const otherId: string = friendship.userId === viewerId ? friendship.friendId : friendship.userId;
+    if (otherId === viewerId) continue;
+
+    // A block in either direction wins over a friendship
+    if (friendship.status === FriendshipStatus.BLOCKED) {
+      relations.set(otherId, 'blocked');
+    } else if (relations.get(otherId) !== 'blocked') {
+      relations.set(otherId, 'friend');
+    }
+  }
+
+  return relations;
+}
+
+/**
+ * How the viewer is related to one user
+ */
+export async function getViewerRelation(userId: string, viewerId?: string | null): Promise<ViewerRelation> {
+  const relations = await getViewerRelations([userId], viewerId);
+  return relations.get(userId) ?? 'none';
+}
+
+/**
+ * What the viewer may see of each of the given users, keyed by user id
+ */
+export async function getProfileVisibilities(
+  users: Array<{ id: string; privacyLevel: PrivacyLevel }>,
+  viewerId?: string | null
+): Promise<Map<string, ProfileVisibility>> {
+  const relations = await getViewerRelations(users.map(user => user.id), viewerId);
+
+  return new Map(users.map(user => [
+    user.id,
+    getProfileVisibility(user.privacyLevel, relations.get(user.id) ?? 'none')
+  ]));
+}
@@ -0,0 +1,62 @@
+import { prisma } from './prisma';
+import { RecommendationFeedback, RecommendationFeedbackStatus } from '@prisma/client';
+import {
+  FEEDBACK_STATUSES,
+  RecommendationFeedbackAction,
+  RecommendationFeedbackState,
+  getSnoozedUntil,
+  validateRecommendationFeedback
+} from '../ai/recommendations';
+
+/**
+ * Dismiss, snooze or mark a recommendation done. Responding again replaces
+ * the earlier response, e.g. to snooze something for longer.
+ */
+export async function setRecommendationFeedback(
+  userId: string,
+  recommendationId: string,
+  input: { action: RecommendationFeedbackAction; title: string; snoozeDays?: number },
+  now: Date = new Date()
+): Promise<RecommendationFeedback> {
+  const error = validateRecommendationFeedback(recommendationId, input.action, input.title, input.snoozeDays);
+  if (error) {
+    throw new Error(error);
+  }
+
+  const status = FEEDBACK_STATUSES[input.action] as RecommendationFeedbackStatus;
+  const data = {
+    title: input.title.trim(),
+    status,
+    snoozedUntil: input.action === 'snooze' ? getSnoozedUntil(now, input.snoozeDays) : null
+  };
+
+  return prisma.recommendationFeedback.upsert({
+    where: { userId_recommendationId: { userId, recommendationId } },
+    create: { userId, recommendationId, ...data },
+    update: data
+  });
+}
+
+/**
+ * Undo the user's response to a recommendation so it can be shown again
+ */
+export async function clearRecommendationFeedback(userId: string, recommendationId: string): Promise<void> {
+  const result = await prisma.recommendationFeedback.deleteMany({
+    where: { userId, recommendationId }
+  });
+
+  if (result.count === 0) {
+    throw new Error('Feedback not found');
+  }
+}
+
+/**
+ * Everything the user has said about recommendations, newest first
+ */
+export async function getRecommendationFeedback(userId: string): Promise<RecommendationFeedbackState[]> {
+  return prisma.recommendationFeedback.findMany({
+    where: { userId },
+    select: { recommendationId: true, title: true, status: true, snoozedUntil: true },
+    orderBy: { updatedAt: 'desc' }
+  });
+}
@@ -0,0 +1,419 @@
+import { prisma } from './prisma';
+import { PointsReason, Referral, ReferralStatus } from '@prisma/client';
+import { generateReferralCode } from '../utils/helpers';
+import { ACHIEVEMENT_POINTS } from '../utils/constants';
+import { checkAndUnlockAchievements } from './achievements';
+import { awardPoints } from './points';
+import { addReferralOnChain, getTransactionOutcome, isGameEngineConfigured } from '../blockchain/gameEngine';
+import {
+  canClaimReferralSync,
+  getReferralAttributionError,
+  getReferralSyncCutoffs,
+  normalizeReferralCode
+} from '../social/referrals';
+
+export interface ReferralStats {
+  referralCode: string;
+  totalInvited: number;
+  signedUp: number;
+  pendingInvites: number;
+  conversionRate: number;
+  syncedOnChain: number;
+  recentReferrals: Array<{
+    id: string;
+    email?: string | null;
+    status: ReferralStatus;
+    username?: string;
+    createdAt: Date;
+    convertedAt?: Date | null;
+  }>;
+}
+
+/**
+ * Get user's referral code, generating one if needed
+ */
+export async function getOrCreateReferralCode(userId: string): Promise<string> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { referralCode: true }
+  });
+
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  if (user.referralCode) {
+    return user.referralCode;
+  }
+
+  // Retry on the unlikely event of a code collision
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const referralCode = generateReferralCode();
+    const existing = await prisma.user.findUnique({
+      where: { referralCode },
+      select: { id: true }
+    });
+
+    if (!existing) {
+      await prisma.user.update({
+        where: { id: userId },
+        data: { referralCode }
+      });
+      return referralCode;
+    }
+  }
+
+  throw new Error('Failed to generate referral code');
+}
+
+/**
+ * Get referral link for a code
+ */
+export function getReferralLink(referralCode: string): string {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || process.env.FRONTEND_URL || 'http://localhost:3000';
+  return `${appUrl}/register?ref=${encodeURIComponent(referralCode)}`;
+}
+
+/**
+ * Record email invitations in the referral ledger
+ */
+export async function createReferralInvites(
+  referrerId: string,
+  emails: string[],
+  message?: string
+): Promise<Referral[]> {
+  const uniqueEmails = Array.from(new Set(emails.map(email => email.trim().toLowerCase())));
+
+  const [existingInvites, existingUsers] = await Promise.all([
+    prisma.referral.findMany({
+      where: {
+        referrerId,
+        email: { in: uniqueEmails }
+      }
+    }),
+    prisma.user.findMany({
+      where: { email: { in: uniqueEmails } },
+      select: { email: true }
+    })
+  ]);
+
+  const invitedEmails = new Map(existingInvites.map(invite => [invite.email, invite]));
+  const registeredEmails = new Set(existingUsers.map(user => user.email.toLowerCase()));
+
+  const referrals: Referral[] = [];
+
+  for (const email of uniqueEmails) {
+    // Already registered users can't be referred
+    if (registeredEmails.has(email)) continue;
+
+    const existing = invitedEmails.get(email);
+    if (existing) {
+      referrals.push(existing);
+      continue;
+    }
+
+    referrals.push(await prisma.referral.create({
+      data: {
+        referrerId,
+        email,
+        message,
+        status: ReferralStatus.INVITED
+      }
+    }));
+  }
+
+  return referrals;
+}
+
+/**
+ * Attribute a newly registered user to the owner of a referral code
+ */
+export async function attributeReferral(
+  referralCode: string,
+  referredUserId: string
+): Promise<Referral | null> {
+  const code = normalizeReferralCode(referralCode);
+  if (!code) {
+    return null;
+  }
+
+  const [referrer, referredUser] = await Promise.all([
+    prisma.user.findUnique({
+      where: { referralCode: code },
+      select: { id: true, isActive: true }
+    }),
+    prisma.user.findUnique({
+      where: { id: referredUserId },
+      select: { id: true, email: true, username: true }
+    })
+  ]);
+
+  if (!referredUser || !referrer || getReferralAttributionError(referrer, referredUser.id)) {
+    return null;
+  }
+
+  // A user can only be referred once
+  const alreadyReferred = await prisma.referral.findUnique({
+    where: { referredUserId }
+  });
+
+  if (alreadyReferred) {
+    return alreadyReferred;
+  }
+
+  // Convert the matching email invite if there is one
+  const invite = await prisma.referral.findFirst({
+    where: {
+      referrerId: referrer.id,
+      email: referredUser.email.toLowerCase(),
+      status: ReferralStatus.INVITED
+    }
+  });
+
+  const referral = invite
+    ? await prisma.referral.update({
+        where: { id: invite.id },
+        data: {
+          referredUserId,
+          status: ReferralStatus.SIGNED_UP,
+          convertedAt: new Date()
+        }
+      })
+    : await prisma.referral.create({
+        data: {
+          referrerId: referrer.id,
+          referredUserId,
+          email: referredUser.email.toLowerCase(),
+          status: ReferralStatus.SIGNED_UP,
+          convertedAt: new Date()
+        }
+      });
+
+  // Notify referrer
+  await prisma.notification.create({
+    data: {
+      userId: referrer.id,
+      type: 'SOCIAL',
+      title: 'Referral Joined',
+      message: `${referredUser.username} joined MorphSave with your referral link`,
+      data: {
+        referralId: referral.id,
+        referredUserId
+      }
+    }
+  });
+
+  await awardPoints(referrer.id, ACHIEVEMENT_POINTS.SOCIAL_INVITE, PointsReason.REFERRAL, {
+    referenceId: referral.id,
+    dedupeKey: `referral:${referral.id}`
+  });
+  await checkAndUnlockAchievements(referrer.id, 'social', { referralId: referral.id });
+
+  // On-chain sync is best effort and not awaited so sign-up doesn't wait on
+  // the chain; failures are retried by syncPendingReferrals
+  syncReferralOnChain(referral.id).catch(error => {
+    console.error(`Failed to sync referral ${referral.id} on chain:`, error);
+  });
+
+  return referral;
+}
+
+/**
+ * Record a converted referral on the GameEngine contract. addReferral isn't
+ * idempotent, so the referral is claimed before sending and its hash saved
+ * before waiting; a referral with a saved hash is resolved by that hash.
+ */
+export async function syncReferralOnChain(referralId: string, now: Date = new Date()): Promise<Referral | null> {
+  if (!isGameEngineConfigured()) {
+    return null;
+  }
+
+  const referral = await prisma.referral.findUnique({
+    where: { id: referralId },
+    include: {
+      referrer: {
+        select: { walletAddress: true }
+      }
+    }
+  });
+
+  if (!referral || referral.status !== ReferralStatus.SIGNED_UP || referral.onChainSyncedAt) {
+    return referral;
+  }
+
+  if (referral.onChainTxHash) {
+    return confirmReferralSync(referralId, referral.onChainTxHash);
+  }
+
+  if (!canClaimReferralSync(referral, now)) {
+    return referral;
+  }
+
+  if (!referral.referrer.walletAddress) {
+    throw new Error('Referrer has no wallet address');
+  }
+
+  const { claimedBefore } = getReferralSyncCutoffs(now);
+  const claimed = await prisma.referral.updateMany({
+    where: {
+      id: referralId,
+      status: ReferralStatus.SIGNED_UP,
+      onChainTxHash: null,
+      onChainSyncedAt: null,
+      OR: [
+        { onChainSyncingAt: null },
+        { onChainSyncingAt: { lt: claimedBefore } }
+      ]
+    },
+    data: { onChainSyncingAt: now }
+  });
+
+  // Another sync got there first
+  if (claimed.count === 0) {
+    return prisma.referral.findUnique({ where: { id: referralId } });
+  }
+
+  let tx;
+  try {
+    tx = await addReferralOnChain(referral.referrer.walletAddress);
+  } catch (error) {
+    // Nothing was sent, so release the claim for the next retry
+    await prisma.referral.update({
+      where: { id: referralId },
+      data: { onChainSyncingAt: null }
+    });
+    throw error;
+  }
+
+  await prisma.referral.update({
+    where: { id: referralId },
+    data: { onChainTxHash: tx.hash }
+  });
+
+  try {
+    await tx.wait();
+  } catch (error) {
+    console.error(`Error waiting for referral ${referralId} sync:`, error);
+  }
+
+  return confirmReferralSync(referralId, tx.hash);
+}
+
+/**
+ * Retry on-chain sync for converted referrals that haven't been recorded yet
+ */
+export async function syncPendingReferrals(limit: number = 50, now: Date = new Date()): Promise<{
+  processed: number;
+  synced: number;
+  failed: number;
+}> {
+  if (!isGameEngineConfigured()) {
+    return { processed: 0, synced: 0, failed: 0 };
+  }
+
+  const { convertedBefore, claimedBefore } = getReferralSyncCutoffs(now);
+  const pending = await prisma.referral.findMany({
+    where: {
+      status: ReferralStatus.SIGNED_UP,
+      onChainSyncedAt: null,
+      convertedAt: { lt: convertedBefore },
+      // Sent transactions are resolved by hash; unsent ones only once any
+      // claim on them has gone stale
+      OR: [
+        { onChainTxHash: { not: null } },
+        { onChainSyncingAt: null },
+        { onChainSyncingAt: { lt: claimedBefore } }
+      ]
+    },
+    orderBy: { convertedAt: 'asc' },
+    take: limit
+  });
+
+  let synced = 0;
+  let failed = 0;
+
+  // Sequential on purpose: all writes come from the same owner wallet
+  for (const referral of pending) {
+    try {
+      const result = await syncReferralOnChain(referral.id, now);
+      if (result?.onChainSyncedAt) {
+        synced++;
+      }
+    } catch (error) {
+      console.error(`Failed to sync referral ${referral.id} on chain:`, error);
+      failed++;
+    }
+  }
+
+  return { processed: pending.length, synced, failed };
+}
+
+/**
+ * Get user's referral statistics
+ */
+export async function getReferralStats(userId: string): Promise<ReferralStats> {
+  const referralCode = await getOrCreateReferralCode(userId);
+
+  const [totalInvited, signedUp, pendingInvites, syncedOnChain, recentReferrals] = await Promise.all([
+    prisma.referral.count({ where: { referrerId: userId } }),
+    prisma.referral.count({ where: { referrerId: userId, status: ReferralStatus.SIGNED_UP } }),
+    prisma.referral.count({ where: { referrerId: userId, status: ReferralStatus.INVITED } }),
+    prisma.referral.count({
+      where: {
+        referrerId: userId,
+        status: ReferralStatus.SIGNED_UP,
+        onChainSyncedAt: { not: null }
+      }
+    }),
+    prisma.referral.findMany({
+      where: { referrerId: userId },
+      include: {
+        referredUser: {
+          select: { username: true }
+        }
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 10
+    })
+  ]);
+
+  return {
+    referralCode,
+    totalInvited,
+    signedUp,
+    pendingInvites,
+    conversionRate: totalInvited > 0 ? (signedUp / totalInvited) * 100 : 0,
+    syncedOnChain,
+    recentReferrals: recentReferrals.map(referral => ({
+      id: referral.id,
+      email: referral.email,
+      status: referral.status,
+      username: referral.referredUser?.username,
+      createdAt: referral.createdAt,
+      convertedAt: referral.convertedAt
+    }))
+  };
+}
+
+// Check a sent referral transaction, clearing it for another attempt if it
+// reverted. Returns the referral unsynced while the transaction is pending.
+async function confirmReferralSync(referralId: string, txHash: string): Promise<Referral | null> {
+  const outcome = await getTransactionOutcome(txHash);
+
+  if (outcome === 'pending') {
+    return prisma.referral.findUnique({ where: { id: referralId } });
+  }
+
+  if (outcome === 'reverted') {
+    await prisma.referral.updateMany({
+      where: { id: referralId, onChainTxHash: txHash },
+      data: { onChainTxHash: null, onChainSyncingAt: null }
+    });
+    throw new Error('Referral sync transaction reverted');
+  }
+
+  return prisma.referral.update({
+    where: { id: referralId },
+    data: { onChainSyncedAt: new Date() }
+  });
+}
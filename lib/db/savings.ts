@@ -1,23 +1,52 @@
 import { prisma } from './prisma';
-import { SavingsTransaction, TransactionType, TransactionStatus, Prisma } from '@prisma/client';
-import { calculateRoundUp } from '../utils/helpers';
+import { SavingsTransaction, TransactionType, TransactionStatus, RoundUpOverflow, Prisma } from '@prisma/client';
+import {
+  ROUND_UP_BONUS_PERIOD_PREFIX,
+  RoundUpCapStatus,
+  buildRoundUpCapStatus,
+  consumeRoundUpCaps,
+  fitsRoundUpCaps,
+  getRoundUpCapWindows,
+  resolveRoundUpCaps
+} from '../savings/roundUpCaps';
+import { RoundUpStrategySettings, calculateStrategyRoundUp } from '../savings/roundUpStrategy';
+import { Money, fromMinorUnits, money, moneyFromMinor, toMajorUnits, toMinorUnits } from '../utils/money';
+import { BASE_DISPLAY_RATE, DisplayRate, FX_BASE_CURRENCY, roundMinor, sumInDisplayCurrency, toDisplayMinor } from '../fx/conversion';
+import { getDisplayRate, getFxSnapshot } from '../fx/providers';
+import { allocateTransactionToGoals } from './savingsGoals';
+import { recalculateUserChallengeProgress } from './challenges';
+import { recordActivity } from './activityFeed';
+import { recordStreakActivity } from './streaks';
+import { getCrossedSavingsMilestones } from '../social/activityFeed';
+import { SAVINGS_TRANSACTION_TYPES, getUserCurrency, sumByCurrency } from './savingsLedger';
 
 export interface CreateSavingsTransactionInput {
   userId: string;
   type: TransactionType;
-  amount: number;
-  currency?: string;
+  amount: Money;
   blockchainTxHash?: string;
+  vaultAmountWei?: bigint; // Amount moved in the SavingsVault, when known
   status?: TransactionStatus;
   
   // Round-up specific fields
-  originalTransactionAmount?: number;
+  originalAmount?: Money;
   merchant?: string;
   category?: string;
   
   // Yield specific fields
   yieldProtocol?: string;
   apy?: number;
+  
+  // Goal to fill first once confirmed
+  goalId?: string;
+}
+
+export interface RoundUpResult {
+  transaction: SavingsTransaction | null; // null when the round-up was dropped
+  outcome: 'SAVED' | 'DEFERRED' | 'DROPPED';
+  roundUpAmount: number;
+  currency: string;
+  caps: RoundUpCapStatus;
 }
 
 export interface TransactionFilters {
@@ -26,13 +55,15 @@ export interface TransactionFilters {
   status?: TransactionStatus;
   dateFrom?: Date;
   dateTo?: Date;
-  minAmount?: number;
+  minAmount?: number; // Major units of `currency`
   maxAmount?: number;
+  currency?: string;
   merchant?: string;
   category?: string;
 }
 
 export interface TransactionStats {
+  currency: string;
   totalAmount: number;
   totalTransactions: number;
   averageAmount: number;
@@ -52,54 +83,181 @@ export async function createSavingsTransaction(
     data: {
       userId: input.userId,
       type: input.type,
-      amount: input.amount,
-      currency: input.currency || 'USD',
+      amountMinor: input.amount.minor,
+      currency: input.amount.currency,
+      ...(await getFxSnapshot(input.amount.currency)),
       blockchainTxHash: input.blockchainTxHash,
+      vaultAmountWei: input.vaultAmountWei?.toString(),
       status: input.status || TransactionStatus.PENDING,
-      originalTransactionAmount: input.originalTransactionAmount,
+      originalAmountMinor: input.originalAmount?.minor,
       merchant: input.merchant,
       category: input.category,
       yieldProtocol: input.yieldProtocol,
-      apy: input.apy
+      apy: input.apy,
+      goalId: input.goalId
     }
   });
 
-  // Update user's total saved amount if transaction is confirmed
-  if (transaction.status === TransactionStatus.CONFIRMED && 
-      (transaction.type === TransactionType.ROUNDUP || 
-       transaction.type === TransactionType.MANUAL ||
-       transaction.type === TransactionType.DEPOSIT)) {
+  // Update user's total saved amount, goals, challenges and streak if transaction is confirmed
+  if (transaction.status === TransactionStatus.CONFIRMED &&
+      SAVINGS_TRANSACTION_TYPES.includes(transaction.type)) {
     await updateUserTotalSaved(input.userId);
+    await allocateTransactionToGoals(transaction);
+    await recalculateUserChallengeProgress(input.userId);
+    await recordStreakActivity(input.userId, transaction.createdAt);
   }
 
   return transaction;
 }
 
 /**
- * Process a round-up transaction
+ * Get the amount of a transaction as money
+ */
+export function getTransactionAmount(
+  transaction: Pick<SavingsTransaction, 'amountMinor' | 'currency'>
+): Money {
+  return moneyFromMinor(transaction.amountMinor, transaction.currency);
+}
+
+/**
+ * Get the original purchase amount of a round-up as money
+ */
+export function getOriginalAmount(
+  transaction: Pick<SavingsTransaction, 'originalAmountMinor' | 'currency'>
+): Money | null {
+  return transaction.originalAmountMinor !== null
+    ? moneyFromMinor(transaction.originalAmountMinor, transaction.currency)
+    : null;
+}
+
+/**
+ * Process a round-up transaction using the user's round-up strategy and multiplier,
+ * enforcing the user's round-up caps. Round-ups over a cap are deferred or dropped
+ * according to the user's preference. Passing `roundUpTo` overrides the strategy
+ * with a next-increment round-up.
  */
 export async function processRoundUp(
   userId: string,
   originalAmount: number,
   merchant: string,
   category: string,
-  roundUpTo: number = 1.0
-): Promise<SavingsTransaction> {
-  const roundUpAmount = calculateRoundUp(originalAmount, roundUpTo);
+  roundUpTo?: number
+): Promise<RoundUpResult> {
+  const { caps, overflow, strategy, currency } = await loadRoundUpSettings(userId);
+
+  const roundUpAmount = calculateStrategyRoundUp(
+    originalAmount,
+    roundUpTo
+      ? { ...strategy, roundUpStrategy: 'NEXT_INCREMENT', roundUpAmount: roundUpTo }
+      : strategy,
+    currency
+  );
   
   if (roundUpAmount === 0) {
     throw new Error('No round-up needed for this transaction');
   }
 
-  return createSavingsTransaction({
+  if (fitsRoundUpCaps(caps, roundUpAmount)) {
+    const transaction = await createSavingsTransaction({
+      userId,
+      type: TransactionType.ROUNDUP,
+      amount: money(roundUpAmount, currency),
+      originalAmount: money(originalAmount, currency),
+      merchant,
+      category,
+      status: TransactionStatus.PENDING
+    });
+
+    return {
+      transaction,
+      outcome: 'SAVED',
+      roundUpAmount,
+      currency,
+      caps: consumeRoundUpCaps(caps, roundUpAmount)
+    };
+  }
+
+  if (overflow === RoundUpOverflow.DROP) {
+    return { transaction: null, outcome: 'DROPPED', roundUpAmount, currency, caps };
+  }
+
+  // Deferred round-ups are released by releaseDeferredRoundUps once there is room
+  const transaction = await createSavingsTransaction({
     userId,
     type: TransactionType.ROUNDUP,
-    amount: roundUpAmount,
-    originalTransactionAmount: originalAmount,
+    amount: money(roundUpAmount, currency),
+    originalAmount: money(originalAmount, currency),
     merchant,
     category,
-    status: TransactionStatus.PENDING
+    status: TransactionStatus.DEFERRED
   });
+
+  return { transaction, outcome: 'DEFERRED', roundUpAmount, currency, caps };
+}
+
+/**
+ * Get how much of the user's round-up caps has been used and what is left
+ */
+export async function getRoundUpCapStatus(
+  userId: string,
+  now: Date = new Date()
+): Promise<RoundUpCapStatus> {
+  const { caps } = await loadRoundUpSettings(userId, now);
+  return caps;
+}
+
+/**
+ * Release deferred round-ups, oldest first, as far as each user's caps allow
+ */
+export async function releaseDeferredRoundUps(now: Date = new Date()): Promise<{
+  users: number;
+  released: number;
+  stillDeferred: number;
+}> {
+  const deferred = await prisma.savingsTransaction.findMany({
+    where: {
+      type: TransactionType.ROUNDUP,
+      status: TransactionStatus.DEFERRED
+    },
+    orderBy: { createdAt: 'asc' }
+  });
+
+  const byUser = deferred.reduce((acc, transaction) => {
+    const transactions = acc.get(transaction.userId) || [];
+    transactions.push(transaction);
+    acc.set(transaction.userId, transactions);
+    return acc;
+  }, new Map<string, SavingsTransaction[]>());
+
+  let released = 0;
+
+  for (const [userId, transactions] of Array.from(byUser.entries())) {
+    let { caps } = await loadRoundUpSettings(userId, now);
+
+    for (const transaction of transactions) {
+      const amount = fromMinorUnits(transaction.amountMinor, transaction.currency);
+
+      // Keep FIFO order: stop at the first round-up that doesn't fit
+      if (!fitsRoundUpCaps(caps, amount)) break;
+
+      await prisma.savingsTransaction.update({
+        where: { id: transaction.id },
+        data: {
+          status: TransactionStatus.PENDING,
+          releasedAt: now
+        }
+      });
+
+      caps = consumeRoundUpCaps(caps, amount);
+      released++;
+    }
+  }
+
+  return {
+    users: byUser.size,
+    released,
+    stillDeferred: deferred.length - released
+  };
 }
 
 /**
@@ -145,11 +303,12 @@ export async function getUserTransactions(
       }
     },
     ...(filters.minAmount || filters.maxAmount) && {
-      amount: {
-        ...(filters.minAmount && { gte: filters.minAmount }),
-        ...(filters.maxAmount && { lte: filters.maxAmount })
+      amountMinor: {
+        ...(filters.minAmount && { gte: toMinorUnits(filters.minAmount, filters.currency) }),
+        ...(filters.maxAmount && { lte: toMinorUnits(filters.maxAmount, filters.currency) })
       }
     },
+    ...(filters.currency && { currency: filters.currency }),
     ...(filters.merchant && { 
       merchant: { contains: filters.merchant, mode: 'insensitive' } 
     }),
@@ -191,25 +350,31 @@ export async function updateTransactionStatus(
     }
   });
 
-  // Update user's total saved if transaction was confirmed
-  if (status === TransactionStatus.CONFIRMED && 
-      (transaction.type === TransactionType.ROUNDUP || 
-       transaction.type === TransactionType.MANUAL ||
-       transaction.type === TransactionType.DEPOSIT)) {
+  // Update user's total saved, goals, challenges and streak if transaction was confirmed
+  if (status === TransactionStatus.CONFIRMED &&
+      SAVINGS_TRANSACTION_TYPES.includes(transaction.type)) {
     await updateUserTotalSaved(transaction.userId);
+    await allocateTransactionToGoals(transaction);
+    await recalculateUserChallengeProgress(transaction.userId);
+    await recordStreakActivity(transaction.userId, transaction.createdAt);
   }
 
   return transaction;
 }
 
 /**
- * Get user's transaction statistics
+ * Get user's transaction statistics in a display currency (the user's currency
+ * by default). Amounts are summed in minor units of the display currency and
+ * rounded once per total.
  */
 export async function getUserTransactionStats(
   userId: string,
   dateFrom?: Date,
-  dateTo?: Date
+  dateTo?: Date,
+  currency?: string
 ): Promise<TransactionStats> {
+  const display = await getDisplayRate(currency || await getUserCurrency(userId));
+
   const where: Prisma.SavingsTransactionWhereInput = {
     userId,
     status: TransactionStatus.CONFIRMED,
@@ -224,7 +389,9 @@ export async function getUserTransactionStats(
   const transactions = await prisma.savingsTransaction.findMany({
     where,
     select: {
-      amount: true,
+      amountMinor: true,
+      currency: true,
+      fxRate: true,
       type: true,
       status: true,
       category: true,
@@ -232,40 +399,39 @@ export async function getUserTransactionStats(
     }
   });
 
-  const totalAmount = transactions.reduce((sum, t) => sum + t.amount, 0);
-  const totalTransactions = transactions.length;
-  const averageAmount = totalTransactions > 0 ? totalAmount / totalTransactions : 0;
+  const displayMinor = (t: typeof transactions[number]) =>
+    toDisplayMinor({ minor: t.amountMinor, currency: t.currency, fxRate: t.fxRate }, display);
+  const toMajor = (minor: number) => fromMinorUnits(roundMinor(minor), display.currency);
 
-  // Group by type
-  const byType = transactions.reduce((acc, t) => {
-    if (!acc[t.type]) {
-      acc[t.type] = { count: 0, amount: 0 };
-    }
-    acc[t.type].count++;
-    acc[t.type].amount += t.amount;
-    return acc;
-  }, {} as Record<TransactionType, { count: number; amount: number }>);
-
-  // Group by status
-  const byStatus = transactions.reduce((acc, t) => {
-    if (!acc[t.status]) {
-      acc[t.status] = { count: 0, amount: 0 };
-    }
-    acc[t.status].count++;
-    acc[t.status].amount += t.amount;
-    return acc;
-  }, {} as Record<TransactionStatus, { count: number; amount: number }>);
+  const totalMinor = transactions.reduce((sum, t) => sum + displayMinor(t), 0);
+  const totalTransactions = transactions.length;
+  const averageAmount = totalTransactions > 0
+    ? toMajor(totalMinor / totalTransactions)
+    : 0;
+
+  // Group amounts in minor units, then convert each group once
+  const groupBy = <K extends string>(key: (t: typeof transactions[number]) => K) => {
+    const groups = transactions.reduce((acc, t) => {
+      const group = key(t);
+      if (!acc[group]) {
+        acc[group] = { count: 0, minor: 0 };
+      }
+      acc[group].count++;
+      acc[group].minor += displayMinor(t);
+      return acc;
+    }, {} as Record<K, { count: number; minor: number }>);
+
+    return Object.fromEntries(
+      Object.entries<{ count: number; minor: number }>(groups).map(([group, { count, minor }]) => [
+        group,
+        { count, amount: toMajor(minor) }
+      ])
+    ) as Record<K, { count: number; amount: number }>;
+  };
 
-  // Group by category
-  const byCategory = transactions.reduce((acc, t) => {
-    const category = t.category || 'Other';
-    if (!acc[category]) {
-      acc[category] = { count: 0, amount: 0 };
-    }
-    acc[category].count++;
-    acc[category].amount += t.amount;
-    return acc;
-  }, {} as Record<string, { count: number; amount: number }>);
+  const byType = groupBy(t => t.type);
+  const byStatus = groupBy(t => t.status);
+  const byCategory = groupBy(t => t.category || 'Other');
 
   // Monthly trend (last 12 months)
   const monthlyTrend = [];
@@ -280,13 +446,14 @@ export async function getUserTransactionStats(
     
     monthlyTrend.push({
       month: monthStart.toISOString().substring(0, 7), // YYYY-MM format
-      amount: monthTransactions.reduce((sum, t) => sum + t.amount, 0),
+      amount: toMajor(monthTransactions.reduce((sum, t) => sum + displayMinor(t), 0)),
       count: monthTransactions.length
     });
   }
 
   return {
-    totalAmount,
+    currency: display.currency,
+    totalAmount: toMajor(totalMinor),
     totalTransactions,
     averageAmount,
     byType,
@@ -339,34 +506,148 @@ export async function getTransactionByBlockchainHash(
 }
 
 /**
- * Update user's total saved amount
+ * Update user's total saved amount, in the user's currency and in the FX base
+ * currency. Call again after the user changes currency. Passing a savings
+ * milestone shares it in the activity feed.
  */
-async function updateUserTotalSaved(userId: string): Promise<void> {
-  const result = await prisma.savingsTransaction.aggregate({
-    where: {
+export async function updateUserTotalSaved(userId: string): Promise<void> {
+  const previous = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { totalSavedBaseMinor: true }
+  });
+
+  const [display, groups] = await Promise.all([
+    getUserCurrency(userId).then(getDisplayRate),
+    sumByCurrency({
       userId,
       status: TransactionStatus.CONFIRMED,
       type: {
-        in: [TransactionType.ROUNDUP, TransactionType.MANUAL, TransactionType.DEPOSIT]
+        in: SAVINGS_TRANSACTION_TYPES
       }
-    },
-    _sum: {
-      amount: true
+    })
+  ]);
+
+  const totalSavedBaseMinor = sumInDisplayCurrency(groups, BASE_DISPLAY_RATE).minor;
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      totalSavedMinor: sumInDisplayCurrency(groups, display).minor,
+      totalSavedBaseMinor
     }
   });
 
-  const totalSaved = result._sum.amount || 0;
+  for (const milestone of getCrossedSavingsMilestones(previous?.totalSavedBaseMinor ?? 0, totalSavedBaseMinor)) {
+    await recordActivity(userId, 'SAVINGS_MILESTONE', {
+      amountMinor: milestone,
+      currency: FX_BASE_CURRENCY
+    }, `savings_milestone:${userId}:${milestone}`);
+  }
+}
 
-  await prisma.user.update({
+/**
+ * Load a user's round-up strategy, cap status and overflow preference
+ */
+async function loadRoundUpSettings(
+  userId: string,
+  now: Date = new Date()
+): Promise<{
+  caps: RoundUpCapStatus;
+  overflow: RoundUpOverflow;
+  strategy: RoundUpStrategySettings;
+  currency: string;
+}> {
+  const user = await prisma.user.findUnique({
     where: { id: userId },
-    data: { totalSaved }
+    select: {
+      currency: true,
+      timezone: true,
+      roundUpStrategy: true,
+      roundUpAmount: true,
+      roundUpFixedAmount: true,
+      roundUpPercentage: true,
+      roundUpMultiplier: true,
+      dailyRoundUpCapMinor: true,
+      weeklyRoundUpCapMinor: true,
+      monthlyRoundUpCapMinor: true,
+      roundUpOverflow: true
+    }
+  });
+
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  const windows = getRoundUpCapWindows(now, user.timezone);
+  const display = await getDisplayRate(user.currency);
+
+  // Round-ups count against the caps from when they were saved, or released if
+  // deferred, and so do the multiplier bonuses paid on them
+  const usedSince = (start: Date) => sumByCurrency({
+    userId,
+    status: { in: [TransactionStatus.PENDING, TransactionStatus.CONFIRMED] },
+    OR: [
+      { type: TransactionType.ROUNDUP, releasedAt: null, createdAt: { gte: start } },
+      { type: TransactionType.ROUNDUP, releasedAt: { gte: start } },
+      {
+        type: TransactionType.RULE,
+        rulePeriodKey: { startsWith: ROUND_UP_BONUS_PERIOD_PREFIX },
+        createdAt: { gte: start }
+      }
+    ]
   });
+
+  // Caps are set in the user's currency
+  const toCap = (minor: number | null) => (minor === null ? null : fromMinorUnits(minor, user.currency));
+  const usedAmount = (groups: Awaited<ReturnType<typeof usedSince>>) =>
+    toMajorUnits(sumInDisplayCurrency(groups, display));
+
+  const [daily, weekly, monthly] = await Promise.all([
+    usedSince(windows.daily.start),
+    usedSince(windows.weekly.start),
+    usedSince(windows.monthly.start)
+  ]);
+
+  return {
+    caps: buildRoundUpCapStatus(
+      resolveRoundUpCaps({
+        dailyRoundUpCap: toCap(user.dailyRoundUpCapMinor),
+        weeklyRoundUpCap: toCap(user.weeklyRoundUpCapMinor),
+        monthlyRoundUpCap: toCap(user.monthlyRoundUpCapMinor)
+      }),
+      {
+        daily: usedAmount(daily),
+        weekly: usedAmount(weekly),
+        monthly: usedAmount(monthly)
+      },
+      windows
+    ),
+    overflow: user.roundUpOverflow,
+    strategy: {
+      roundUpStrategy: user.roundUpStrategy,
+      roundUpAmount: user.roundUpAmount,
+      roundUpFixedAmount: user.roundUpFixedAmount,
+      roundUpPercentage: user.roundUpPercentage,
+      roundUpMultiplier: user.roundUpMultiplier
+    },
+    currency: user.currency
+  };
 }
 
 /**
- * Get user's savings summary
+ * Get user's savings summary in the user's currency
  */
 export async function getUserSavingsSummary(userId: string) {
+  const currency = await getUserCurrency(userId);
+  const display = await getDisplayRate(currency);
+
+  const sumConfirmed = (type: Prisma.SavingsTransactionWhereInput['type']) =>
+    sumByCurrency({
+      userId,
+      status: TransactionStatus.CONFIRMED,
+      type
+    }).then(groups => sumInDisplayCurrency(groups, display).minor);
+
   const [
     totalSaved,
     totalYield,
@@ -374,35 +655,14 @@ export async function getUserSavingsSummary(userId: string) {
     recentTransactions,
     monthlyStats
   ] = await Promise.all([
-    // Total saved (deposits and round-ups)
-    prisma.savingsTransaction.aggregate({
-      where: {
-        userId,
-        status: TransactionStatus.CONFIRMED,
-        type: { in: [TransactionType.ROUNDUP, TransactionType.MANUAL, TransactionType.DEPOSIT] }
-      },
-      _sum: { amount: true }
-    }),
+    // Total saved (deposits, round-ups and rules)
+    sumConfirmed({ in: SAVINGS_TRANSACTION_TYPES }),
     
     // Total yield earned
-    prisma.savingsTransaction.aggregate({
-      where: {
-        userId,
-        status: TransactionStatus.CONFIRMED,
-        type: TransactionType.YIELD
-      },
-      _sum: { amount: true }
-    }),
+    sumConfirmed(TransactionType.YIELD),
     
     // Total withdrawn
-    prisma.savingsTransaction.aggregate({
-      where: {
-        userId,
-        status: TransactionStatus.CONFIRMED,
-        type: TransactionType.WITHDRAWAL
-      },
-      _sum: { amount: true }
-    }),
+    sumConfirmed(TransactionType.WITHDRAWAL),
     
     // Recent transactions
     prisma.savingsTransaction.findMany({
@@ -412,7 +672,8 @@ export async function getUserSavingsSummary(userId: string) {
       select: {
         id: true,
         type: true,
-        amount: true,
+        amountMinor: true,
+        currency: true,
         status: true,
         merchant: true,
         createdAt: true
@@ -423,20 +684,23 @@ export async function getUserSavingsSummary(userId: string) {
     getUserTransactionStats(
       userId,
       new Date(new Date().getFullYear(), new Date().getMonth(), 1),
-      new Date()
+      new Date(),
+      currency
     )
   ]);
 
-  const currentBalance = (totalSaved._sum.amount || 0) + 
-                        (totalYield._sum.amount || 0) - 
-                        (totalWithdrawn._sum.amount || 0);
+  const toMajor = (minor: number) => fromMinorUnits(minor, display.currency);
 
   return {
-    currentBalance,
-    totalSaved: totalSaved._sum.amount || 0,
-    totalYield: totalYield._sum.amount || 0,
-    totalWithdrawn: totalWithdrawn._sum.amount || 0,
-    recentTransactions,
+    currency: display.currency,
+    currentBalance: toMajor(totalSaved + totalYield - totalWithdrawn),
+    totalSaved: toMajor(totalSaved),
+    totalYield: toMajor(totalYield),
+    totalWithdrawn: toMajor(totalWithdrawn),
+    recentTransactions: recentTransactions.map(({ amountMinor, ...transaction }) => ({
+      ...transaction,
+      amount: fromMinorUnits(amountMinor, transaction.currency)
+    })),
     thisMonth: {
       saved: monthlyStats.totalAmount,
       transactions: monthlyStats.totalTransactions
@@ -451,70 +715,100 @@ export async function getUserTopCategories(
   userId: string,
   limit: number = 10
 ): Promise<Array<{ category: string; amount: number; count: number }>> {
+  const display = await getDisplayRate(await getUserCurrency(userId));
+
   const result = await prisma.savingsTransaction.groupBy({
-    by: ['category'],
+    by: ['category', 'currency', 'fxRate'],
     where: {
       userId,
       status: TransactionStatus.CONFIRMED,
       type: TransactionType.ROUNDUP,
       category: { not: null }
     },
-    _sum: { amount: true },
-    _count: { id: true },
-    orderBy: { _sum: { amount: 'desc' } },
-    take: limit
+    _sum: { amountMinor: true },
+    _count: { id: true }
   });
 
-  return result.map(item => ({
-    category: item.category || 'Other',
-    amount: item._sum.amount || 0,
-    count: item._count.id
-  }));
+  return rankInDisplayCurrency(result, item => item.category || 'Other', display)
+    .slice(0, limit)
+    .map(({ key, amount, count }) => ({ category: key, amount, count }));
 }
 
 /**
  * Get user's round-up statistics
  */
 export async function getUserRoundUpStats(userId: string) {
-  const [roundUpStats, merchantStats] = await Promise.all([
-    prisma.savingsTransaction.aggregate({
-      where: {
-        userId,
-        type: TransactionType.ROUNDUP,
-        status: TransactionStatus.CONFIRMED
-      },
-      _sum: { amount: true },
-      _count: { id: true },
-      _avg: { amount: true }
-    }),
-    
-    prisma.savingsTransaction.groupBy({
-      by: ['merchant'],
-      where: {
-        userId,
-        type: TransactionType.ROUNDUP,
-        status: TransactionStatus.CONFIRMED,
-        merchant: { not: null }
-      },
-      _sum: { amount: true },
-      _count: { id: true },
-      orderBy: { _sum: { amount: 'desc' } },
-      take: 5
-    })
-  ]);
+  const display = await getDisplayRate(await getUserCurrency(userId));
+
+  const merchantStats = await prisma.savingsTransaction.groupBy({
+    by: ['merchant', 'currency', 'fxRate'],
+    where: {
+      userId,
+      type: TransactionType.ROUNDUP,
+      status: TransactionStatus.CONFIRMED
+    },
+    _sum: { amountMinor: true },
+    _count: { id: true }
+  });
+
+  const totalMinor = merchantStats.reduce((sum, item) => sum + toDisplayMinor({
+    minor: item._sum.amountMinor || 0,
+    currency: item.currency,
+    fxRate: item.fxRate
+  }, display), 0);
+  const count = merchantStats.reduce((sum, item) => sum + item._count.id, 0);
+  const toMajor = (minor: number) => fromMinorUnits(roundMinor(minor), display.currency);
 
   return {
-    totalRoundUps: roundUpStats._sum.amount || 0,
-    totalTransactions: roundUpStats._count.id,
-    averageRoundUp: roundUpStats._avg.amount || 0,
-    topMerchants: merchantStats.map(item => ({
-      merchant: item.merchant || 'Unknown',
-      amount: item._sum.amount || 0,
-      count: item._count.id
-    }))
+    currency: display.currency,
+    totalRoundUps: toMajor(totalMinor),
+    totalTransactions: count,
+    averageRoundUp: count > 0 ? toMajor(totalMinor / count) : 0,
+    topMerchants: rankInDisplayCurrency(
+      merchantStats.filter(item => item.merchant !== null),
+      item => item.merchant || 'Unknown',
+      display
+    )
+      .slice(0, 5)
+      .map(({ key, amount, count }) => ({ merchant: key, amount, count }))
   };
 }
 
+/**
+ * Merge groups split by currency into one total per key, largest first
+ */
+function rankInDisplayCurrency<T extends {
+  currency: string;
+  fxRate: number;
+  _sum: { amountMinor: number | null };
+  _count: { id: number };
+}>(
+  groups: T[],
+  key: (group: T) => string,
+  display: DisplayRate
+): Array<{ key: string; amount: number; count: number }> {
+  const totals = new Map<string, { minor: number; count: number }>();
+
+  for (const group of groups) {
+    const total = totals.get(key(group)) || { minor: 0, count: 0 };
+    total.minor += toDisplayMinor({
+      minor: group._sum.amountMinor || 0,
+      currency: group.currency,
+      fxRate: group.fxRate
+    }, display);
+    total.count += group._count.id;
+    totals.set(key(group), total);
+  }
+
+  return Array.from(totals.entries())
+    .map(([name, { minor, count }]) => ({
+      key: name,
+      amount: fromMinorUnits(roundMinor(minor), display.currency),
+      count
+    }))
+    .sort((a, b) => b.amount - a.amount);
+}
+
 /**
  * Batch update transaction statuses
  */
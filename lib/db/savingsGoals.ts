@@ -0,0 +1,452 @@
+import { prisma } from './prisma';
+import {
+  GoalAllocationMode,
+  SavingsGoal,
+  SavingsGoalStatus,
+  SavingsTransaction,
+  TransactionStatus
+} from '@prisma/client';
+import {
+  GoalProgress,
+  SAVINGS_GOAL_LIMITS,
+  allocateToGoals,
+  getGoalProgress,
+  orderGoalsByPriority,
+  validateSavingsGoal
+} from '../savings/goalAllocation';
+import { fromMinorUnits, moneyFromMinor, toMinorUnits } from '../utils/money';
+import { roundMinor, toDisplayMinor } from '../fx/conversion';
+import { getDisplayRate } from '../fx/providers';
+import { SAVINGS_TRANSACTION_TYPES, getUserCurrency } from './savingsLedger';
+import { createGoalCompletedNotification } from './notifications';
+
+export interface CreateSavingsGoalInput {
+  userId: string;
+  name: string;
+  target: number; // Major units of the user's currency
+  deadline?: Date | null;
+  priority?: number;
+  icon?: string | null;
+  splitRatio?: number | null;
+}
+
+export type UpdateSavingsGoalInput = Partial<Omit<CreateSavingsGoalInput, 'userId'>> & {
+  status?: SavingsGoalStatus;
+};
+
+export interface SavingsGoalWithProgress {
+  id: string;
+  name: string;
+  icon: string | null;
+  currency: string;
+  targetAmount: number;
+  savedAmount: number;
+  remainingAmount: number;
+  percent: number;
+  deadline: Date | null;
+  daysLeft: number | null;
+  requiredDailyAmount: number | null;
+  priority: number;
+  splitRatio: number | null;
+  status: SavingsGoalStatus;
+  completedAt: Date | null;
+  createdAt: Date;
+}
+
+export interface GoalsOverview {
+  allocationMode: GoalAllocationMode;
+  currency: string;
+  totalSaved: number;
+  allocatedAmount: number;
+  unallocatedAmount: number;
+  goals: SavingsGoalWithProgress[];
+}
+
+/**
+ * Create a savings goal in the user's currency
+ */
+export async function createSavingsGoal(input: CreateSavingsGoalInput): Promise<SavingsGoal> {
+  const error = validateSavingsGoal(input);
+  if (error) {
+    throw new Error(error);
+  }
+
+  const [currency, activeGoals] = await Promise.all([
+    getUserCurrency(input.userId),
+    prisma.savingsGoal.count({
+      where: { userId: input.userId, status: SavingsGoalStatus.ACTIVE }
+    })
+  ]);
+
+  if (activeGoals >= SAVINGS_GOAL_LIMITS.MAX_ACTIVE_GOALS) {
+    throw new Error(`You can have at most ${SAVINGS_GOAL_LIMITS.MAX_ACTIVE_GOALS} active goals`);
+  }
+
+  return prisma.savingsGoal.create({
+    data: {
+      userId: input.userId,
+      name: input.name.trim(),
+      icon: input.icon,
+      targetMinor: toMinorUnits(input.target, currency),
+      currency,
+      deadline: input.deadline,
+      priority: input.priority ?? 1,
+      splitRatio: input.splitRatio
+    }
+  });
+}
+
+/**
+ * Get a user's goals with progress, in allocation order
+ */
+export async function getUserSavingsGoals(
+  userId: string,
+  includeArchived: boolean = false,
+  now: Date = new Date()
+): Promise<SavingsGoalWithProgress[]> {
+  const goals = await prisma.savingsGoal.findMany({
+    where: {
+      userId,
+      ...(!includeArchived && { status: { not: SavingsGoalStatus.ARCHIVED } })
+    },
+    orderBy: { createdAt: 'asc' }
+  });
+
+  return orderGoalsByPriority(goals).map(goal => withProgress(goal, now));
+}
+
+/**
+ * Get one of a user's goals with progress
+ */
+export async function getSavingsGoal(
+  userId: string,
+  goalId: string,
+  now: Date = new Date()
+): Promise<SavingsGoalWithProgress> {
+  const goal = await findUserGoal(userId, goalId);
+  return withProgress(goal, now);
+}
+
+/**
+ * Recent allocations to one of a user's goals, newest first
+ */
+export async function getSavingsGoalAllocations(
+  userId: string,
+  goalId: string,
+  limit: number = 20
+): Promise<Array<{ id: string; amount: number; transactionId: string | null; createdAt: Date }>> {
+  const goal = await findUserGoal(userId, goalId);
+
+  const allocations = await prisma.savingsGoalAllocation.findMany({
+    where: { goalId },
+    orderBy: { createdAt: 'desc' },
+    take: limit
+  });
+
+  return allocations.map(allocation => ({
+    id: allocation.id,
+    amount: fromMinorUnits(allocation.amountMinor, goal.currency),
+    transactionId: allocation.transactionId,
+    createdAt: allocation.createdAt
+  }));
+}
+
+/**
+ * Get a user's goals along with how much of their savings is not yet allocated
+ */
+export async function getGoalsOverview(userId: string): Promise<GoalsOverview> {
+  const [user, goals] = await Promise.all([
+    prisma.user.findUnique({
+      where: { id: userId },
+      select: { currency: true, totalSavedMinor: true, goalAllocationMode: true }
+    }),
+    getUserSavingsGoals(userId, true)
+  ]);
+
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  const allocatedMinor = await getAllocatedMinor(userId, user.currency);
+  const unallocatedMinor = Math.max(0, user.totalSavedMinor - allocatedMinor);
+
+  return {
+    allocationMode: user.goalAllocationMode,
+    currency: user.currency,
+    totalSaved: fromMinorUnits(user.totalSavedMinor, user.currency),
+    allocatedAmount: fromMinorUnits(allocatedMinor, user.currency),
+    unallocatedAmount: fromMinorUnits(unallocatedMinor, user.currency),
+    goals: goals.filter(goal => goal.status !== SavingsGoalStatus.ARCHIVED)
+  };
+}
+
+/**
+ * Update a user's goal. Raising the target reopens a completed goal.
+ */
+export async function updateSavingsGoal(
+  userId: string,
+  goalId: string,
+  input: UpdateSavingsGoalInput
+): Promise<SavingsGoal> {
+  const goal = await findUserGoal(userId, goalId);
+
+  const error = validateSavingsGoal(input);
+  if (error) {
+    throw new Error(error);
+  }
+
+  const { target, status, ...rest } = input;
+  const targetMinor = target !== undefined ? toMinorUnits(target, goal.currency) : goal.targetMinor;
+
+  let nextStatus = status ?? goal.status;
+  if (nextStatus !== SavingsGoalStatus.ARCHIVED) {
+    nextStatus = goal.savedMinor >= targetMinor ? SavingsGoalStatus.COMPLETED : SavingsGoalStatus.ACTIVE;
+  }
+
+  return prisma.savingsGoal.update({
+    where: { id: goalId },
+    data: {
+      ...rest,
+      ...(rest.name !== undefined && { name: rest.name.trim() }),
+      targetMinor,
+      status: nextStatus,
+      completedAt: nextStatus === SavingsGoalStatus.COMPLETED ? goal.completedAt ?? new Date() : null
+    }
+  });
+}
+
+/**
+ * Delete a user's goal. Its allocations return to the unallocated balance.
+ */
+export async function deleteSavingsGoal(userId: string, goalId: string): Promise<void> {
+  const result = await prisma.savingsGoal.deleteMany({
+    where: { id: goalId, userId }
+  });
+
+  if (result.count === 0) {
+    throw new Error('Savings goal not found');
+  }
+}
+
+/**
+ * Set how confirmed savings are allocated to a user's goals
+ */
+export async function setGoalAllocationMode(userId: string, mode: GoalAllocationMode): Promise<void> {
+  await prisma.user.update({
+    where: { id: userId },
+    data: { goalAllocationMode: mode }
+  });
+}
+
+/**
+ * Manually allocate part of the user's unallocated balance to a goal
+ */
+export async function allocateToSavingsGoal(
+  userId: string,
+  goalId: string,
+  amount: number // Major units of the goal's currency
+): Promise<SavingsGoal> {
+  const goal = await findUserGoal(userId, goalId);
+
+  if (goal.status !== SavingsGoalStatus.ACTIVE) {
+    throw new Error('Only active goals can receive allocations');
+  }
+  if (!amount || amount <= 0) {
+    throw new Error('Amount must be greater than 0');
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { currency: true, totalSavedMinor: true }
+  });
+
+  const allocatedMinor = await getAllocatedMinor(userId, user!.currency);
+  const unallocatedMinor = await convertMinor(
+    Math.max(0, user!.totalSavedMinor - allocatedMinor),
+    user!.currency,
+    goal.currency
+  );
+  const amountMinor = toMinorUnits(amount, goal.currency);
+
+  if (amountMinor > unallocatedMinor) {
+    throw new Error('Amount exceeds your unallocated savings');
+  }
+  if (amountMinor > goal.targetMinor - goal.savedMinor) {
+    throw new Error('Amount exceeds what the goal still needs');
+  }
+
+  const [updated] = await recordAllocations(userId, null, [{ goal, minor: amountMinor }]);
+  return updated;
+}
+
+/**
+ * Allocate a confirmed savings transaction to the user's goals. A transaction
+ * directed at a goal fills that goal first; the rest follows the user's
+ * allocation mode. Safe to call more than once per transaction.
+ */
+export async function allocateTransactionToGoals(
+  transaction: SavingsTransaction
+): Promise<SavingsGoal[]> {
+  if (transaction.status !== TransactionStatus.CONFIRMED ||
+      !SAVINGS_TRANSACTION_TYPES.includes(transaction.type)) {
+    return [];
+  }
+
+  const [existing, user, goals] = await Promise.all([
+    prisma.savingsGoalAllocation.count({ where: { transactionId: transaction.id } }),
+    prisma.user.findUnique({
+      where: { id: transaction.userId },
+      select: { currency: true, goalAllocationMode: true }
+    }),
+    prisma.savingsGoal.findMany({
+      where: { userId: transaction.userId, status: SavingsGoalStatus.ACTIVE },
+      orderBy: { createdAt: 'asc' }
+    })
+  ]);
+
+  if (existing > 0 || !user || goals.length === 0) {
+    return [];
+  }
+
+  // Allocate in the user's currency, then record each share in its goal's currency
+  const display = await getDisplayRate(user.currency);
+  let leftMinor = roundMinor(toDisplayMinor(
+    { minor: transaction.amountMinor, currency: transaction.currency, fxRate: transaction.fxRate },
+    display
+  ));
+
+  const remainingMinor = new Map<string, number>();
+  for (const goal of goals) {
+    const minor = await convertMinor(goal.targetMinor - goal.savedMinor, goal.currency, user.currency);
+    remainingMinor.set(goal.id, minor);
+  }
+
+  const shares = new Map<string, number>();
+  const directed = goals.find(goal => goal.id === transaction.goalId);
+  if (directed) {
+    const minor = Math.min(leftMinor, remainingMinor.get(directed.id)!);
+    shares.set(directed.id, minor);
+    remainingMinor.set(directed.id, remainingMinor.get(directed.id)! - minor);
+    leftMinor -= minor;
+  }
+
+  const { allocations } = allocateToGoals(
+    leftMinor,
+    goals.map(goal => ({ ...goal, targetMinor: remainingMinor.get(goal.id)!, savedMinor: 0 })),
+    user.goalAllocationMode
+  );
+  for (const { goalId, minor } of allocations) {
+    shares.set(goalId, (shares.get(goalId) || 0) + minor);
+  }
+
+  const planned: Array<{ goal: SavingsGoal; minor: number }> = [];
+  for (const goal of goals) {
+    const minor = shares.get(goal.id);
+    if (minor) {
+      const goalMinor = await convertMinor(minor, user.currency, goal.currency);
+      planned.push({ goal, minor: Math.min(goalMinor, goal.targetMinor - goal.savedMinor) });
+    }
+  }
+
+  return recordAllocations(transaction.userId, transaction.id, planned.filter(share => share.minor > 0));
+}
+
+/**
+ * Record allocations, update each goal's saved amount and complete goals that reached their target
+ */
+async function recordAllocations(
+  userId: string,
+  transactionId: string | null,
+  shares: Array<{ goal: SavingsGoal; minor: number }>
+): Promise<SavingsGoal[]> {
+  const now = new Date();
+
+  const updated = await prisma.$transaction(shares.flatMap(({ goal, minor }) => {
+    const completed = goal.savedMinor + minor >= goal.targetMinor;
+
+    return [
+      prisma.savingsGoalAllocation.create({
+        data: { goalId: goal.id, userId, transactionId, amountMinor: minor }
+      }),
+      prisma.savingsGoal.update({
+        where: { id: goal.id },
+        data: {
+          savedMinor: { increment: minor },
+          ...(completed && { status: SavingsGoalStatus.COMPLETED, completedAt: now })
+        }
+      })
+    ];
+  }));
+
+  const goals = updated.filter((_, index) => index % 2 === 1) as SavingsGoal[];
+
+  for (const goal of goals) {
+    if (goal.status === SavingsGoalStatus.COMPLETED) {
+      await createGoalCompletedNotification(userId, goal.name, moneyFromMinor(goal.targetMinor, goal.currency));
+    }
+  }
+
+  return goals;
+}
+
+/**
+ * Total allocated to a user's goals, in minor units of `currency`
+ */
+async function getAllocatedMinor(userId: string, currency: string): Promise<number> {
+  const groups = await prisma.savingsGoal.groupBy({
+    by: ['currency'],
+    where: { userId },
+    _sum: { savedMinor: true }
+  });
+
+  let total = 0;
+  for (const group of groups) {
+    total += await convertMinor(group._sum.savedMinor || 0, group.currency, currency);
+  }
+  return total;
+}
+
+// Convert whole minor units between currencies at the current rates
+async function convertMinor(minor: number, from: string, to: string): Promise<number> {
+  if (from === to) return minor;
+
+  const [source, target] = await Promise.all([getDisplayRate(from), getDisplayRate(to)]);
+  return roundMinor(toDisplayMinor({ minor, currency: from, fxRate: 1 / source.rate }, target));
+}
+
+async function findUserGoal(userId: string, goalId: string): Promise<SavingsGoal> {
+  const goal = await prisma.savingsGoal.findFirst({
+    where: { id: goalId, userId }
+  });
+
+  if (!goal) {
+    throw new Error('Savings goal not found');
+  }
+
+  return goal;
+}
+
+function withProgress(goal: SavingsGoal, now: Date): SavingsGoalWithProgress {
+  const progress: GoalProgress = getGoalProgress(goal, now);
+
+  return {
+    id: goal.id,
+    name: goal.name,
+    icon: goal.icon,
+    currency: goal.currency,
+    targetAmount: fromMinorUnits(goal.targetMinor, goal.currency),
+    savedAmount: fromMinorUnits(goal.savedMinor, goal.currency),
+    remainingAmount: fromMinorUnits(progress.remainingMinor, goal.currency),
+    percent: progress.percent,
+    deadline: goal.deadline,
+    daysLeft: progress.daysLeft,
+    requiredDailyAmount: progress.requiredDailyMinor !== null
+      ? fromMinorUnits(progress.requiredDailyMinor, goal.currency)
+      : null,
+    priority: goal.priority,
+    splitRatio: goal.splitRatio,
+    status: goal.status,
+    completedAt: goal.completedAt,
+    createdAt: goal.createdAt
+  };
+}
@@ -0,0 +1,43 @@
+import { prisma } from './prisma';
+import { Prisma, TransactionType } from '@prisma/client';
+import { DEFAULT_CURRENCY } from '../utils/money';
+
+// Ledger helpers shared by the savings, goal and challenge modules. They sit
+// apart from savings.ts so those modules don't import each other.
+
+// Transaction types that add to a user's savings
+export const SAVINGS_TRANSACTION_TYPES: TransactionType[] = [
+  TransactionType.ROUNDUP,
+  TransactionType.MANUAL,
+  TransactionType.DEPOSIT,
+  TransactionType.RULE
+];
+
+/**
+ * Sum transaction amounts per currency and rate snapshot, ready for conversion
+ */
+export async function sumByCurrency(where: Prisma.SavingsTransactionWhereInput) {
+  const groups = await prisma.savingsTransaction.groupBy({
+    by: ['currency', 'fxRate'],
+    where,
+    _sum: { amountMinor: true }
+  });
+
+  return groups.map(group => ({
+    minor: group._sum.amountMinor || 0,
+    currency: group.currency,
+    fxRate: group.fxRate
+  }));
+}
+
+/**
+ * Get the currency a user's balances are kept in
+ */
+export async function getUserCurrency(userId: string): Promise<string> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { currency: true }
+  });
+
+  return user?.currency || DEFAULT_CURRENCY;
+}
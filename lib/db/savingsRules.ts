@@ -0,0 +1,384 @@
+import { prisma } from './prisma';
+import {
+  SavingsRule,
+  SavingsRuleType,
+  SavingsRuleFrequency,
+  SavingsTransaction,
+  TransactionType,
+  TransactionStatus,
+  Prisma
+} from '@prisma/client';
+import {
+  calculateDepositRuleAmount,
+  calculateRoundUpBonus,
+  formatLocalDate,
+  getLocalDate,
+  getScheduledPeriod,
+  validateSavingsRule
+} from '../savings/ruleEngine';
+import {
+  ROUND_UP_BONUS_PERIOD_PREFIX,
+  RoundUpCapStatus,
+  capRoundUpBonus,
+  consumeRoundUpCaps
+} from '../savings/roundUpCaps';
+import { Money, fromMinorUnits, money, moneyFromMinor, toMajorUnits, toMinorUnits } from '../utils/money';
+import { getFxSnapshot } from '../fx/providers';
+import { getOriginalAmount, getTransactionAmount } from './savings';
+import { getUserCurrency } from './savingsLedger';
+
+// Amounts are major units of the user's currency
+export interface CreateSavingsRuleInput {
+  userId: string;
+  name: string;
+  type: SavingsRuleType;
+  isActive?: boolean;
+  amount?: number | null;
+  frequency?: SavingsRuleFrequency | null;
+  dayOfWeek?: number | null;
+  dayOfMonth?: number | null;
+  percentage?: number | null;
+  minTriggerAmount?: number | null;
+  multiplier?: number | null;
+  daysOfWeek?: number[] | null;
+  maxAmount?: number | null;
+}
+
+export type UpdateSavingsRuleInput = Partial<Omit<CreateSavingsRuleInput, 'userId' | 'type'>>;
+
+// A rule with its amounts in major units of the user's currency, as they're entered
+export type SavingsRuleWithAmounts = Omit<SavingsRule, 'amountMinor' | 'minTriggerAmountMinor' | 'maxAmountMinor'> & {
+  amount: number | null;
+  minTriggerAmount: number | null;
+  maxAmount: number | null;
+};
+
+export interface RuleProcessingResult {
+  processed: number;
+  executed: number;
+  skipped: number;
+  failed: number;
+}
+
+/**
+ * Create a savings rule
+ */
+export async function createSavingsRule(input: CreateSavingsRuleInput): Promise<SavingsRuleWithAmounts> {
+  const error = validateSavingsRule(input);
+  if (error) {
+    throw new Error(error);
+  }
+
+  const { amount, minTriggerAmount, maxAmount, ...rule } = input;
+  const currency = await getUserCurrency(input.userId);
+
+  const created = await prisma.savingsRule.create({
+    data: {
+      ...rule,
+      ...toAmountsMinor({ amount, minTriggerAmount, maxAmount }, currency),
+      daysOfWeek: toDaysOfWeekJson(input.daysOfWeek)
+    }
+  });
+
+  return withAmounts(created, currency);
+}
+
+/**
+ * Get user's savings rules
+ */
+export async function getUserSavingsRules(
+  userId: string,
+  activeOnly: boolean = false
+): Promise<SavingsRuleWithAmounts[]> {
+  const [rules, currency] = await Promise.all([
+    prisma.savingsRule.findMany({
+      where: {
+        userId,
+        ...(activeOnly && { isActive: true })
+      },
+      orderBy: { createdAt: 'asc' }
+    }),
+    getUserCurrency(userId)
+  ]);
+
+  return rules.map(rule => withAmounts(rule, currency));
+}
+
+/**
+ * Update a user's savings rule
+ */
+export async function updateSavingsRule(
+  userId: string,
+  ruleId: string,
+  input: UpdateSavingsRuleInput
+): Promise<SavingsRuleWithAmounts> {
+  const rule = await prisma.savingsRule.findFirst({
+    where: { id: ruleId, userId }
+  });
+
+  if (!rule) {
+    throw new Error('Savings rule not found');
+  }
+
+  const currency = await getUserCurrency(userId);
+  const error = validateSavingsRule({ ...withAmounts(rule, currency), ...input });
+  if (error) {
+    throw new Error(error);
+  }
+
+  const { amount, minTriggerAmount, maxAmount, ...changes } = input;
+  const updated = await prisma.savingsRule.update({
+    where: { id: ruleId },
+    data: {
+      ...changes,
+      ...toAmountsMinor({ amount, minTriggerAmount, maxAmount }, currency),
+      daysOfWeek: toDaysOfWeekJson(input.daysOfWeek)
+    }
+  });
+
+  return withAmounts(updated, currency);
+}
+
+/**
+ * Delete a user's savings rule. Transactions it produced keep their history.
+ */
+export async function deleteSavingsRule(userId: string, ruleId: string): Promise<void> {
+  const result = await prisma.savingsRule.deleteMany({
+    where: { id: ruleId, userId }
+  });
+
+  if (result.count === 0) {
+    throw new Error('Savings rule not found');
+  }
+}
+
+/**
+ * Execute all scheduled rules that are due. Safe to run as often as needed:
+ * each rule produces at most one transaction per period.
+ */
+export async function processScheduledSavingsRules(
+  now: Date = new Date()
+): Promise<RuleProcessingResult> {
+  const rules = await prisma.savingsRule.findMany({
+    where: {
+      type: SavingsRuleType.SCHEDULED,
+      isActive: true,
+      user: { isActive: true }
+    },
+    include: {
+      user: {
+        select: { timezone: true, currency: true }
+      }
+    }
+  });
+
+  const result: RuleProcessingResult = {
+    processed: rules.length,
+    executed: 0,
+    skipped: 0,
+    failed: 0
+  };
+
+  for (const rule of rules) {
+    const period = getScheduledPeriod(rule, now, rule.user.timezone);
+
+    // Don't backfill occurrences from before the rule existed
+    const createdOn = formatLocalDate(getLocalDate(rule.createdAt, rule.user.timezone));
+
+    if (!period || period.periodKey === rule.lastPeriodKey || period.occurrence < createdOn) {
+      result.skipped++;
+      continue;
+    }
+
+    try {
+      const transaction = await executeSavingsRule(
+        rule,
+        period.periodKey,
+        moneyFromMinor(rule.amountMinor!, rule.user.currency)
+      );
+      if (transaction) {
+        result.executed++;
+      } else {
+        result.skipped++;
+      }
+    } catch (error) {
+      console.error(`Failed to execute savings rule ${rule.id}:`, error);
+      result.failed++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Apply percentage rules to an incoming deposit
+ */
+export async function applyDepositRules(
+  userId: string,
+  deposit: Money,
+  depositId: string
+): Promise<SavingsTransaction[]> {
+  const [rules, currency] = await Promise.all([
+    prisma.savingsRule.findMany({
+      where: {
+        userId,
+        type: SavingsRuleType.PERCENTAGE_OF_DEPOSIT,
+        isActive: true
+      }
+    }),
+    getUserCurrency(userId)
+  ]);
+
+  const transactions: SavingsTransaction[] = [];
+
+  for (const rule of rules) {
+    const amount = calculateDepositRuleAmount(withAmounts(rule, currency), deposit);
+    if (amount.minor <= 0) continue;
+
+    const transaction = await executeSavingsRule(
+      rule,
+      `deposit:${depositId}`,
+      amount,
+      { originalAmount: deposit }
+    );
+    if (transaction) {
+      transactions.push(transaction);
+    }
+  }
+
+  return transactions;
+}
+
+/**
+ * Apply multiplier rules to a round-up transaction. Bonuses count against the
+ * round-up caps, so each is trimmed to what is left of them; returns the
+ * bonus transactions and the caps after them.
+ */
+export async function applyRoundUpRules(
+  roundUp: SavingsTransaction,
+  caps: RoundUpCapStatus
+): Promise<{ transactions: SavingsTransaction[]; caps: RoundUpCapStatus }> {
+  if (roundUp.type !== TransactionType.ROUNDUP) {
+    return { transactions: [], caps };
+  }
+
+  const [rules, user] = await Promise.all([
+    prisma.savingsRule.findMany({
+      where: {
+        userId: roundUp.userId,
+        type: SavingsRuleType.ROUNDUP_MULTIPLIER,
+        isActive: true
+      }
+    }),
+    prisma.user.findUnique({
+      where: { id: roundUp.userId },
+      select: { timezone: true, currency: true }
+    })
+  ]);
+
+  const { weekday } = getLocalDate(roundUp.createdAt, user?.timezone);
+  const transactions: SavingsTransaction[] = [];
+
+  for (const rule of rules) {
+    const amount = capRoundUpBonus(caps, toMajorUnits(calculateRoundUpBonus(
+      withAmounts(rule, user?.currency ?? roundUp.currency),
+      getTransactionAmount(roundUp),
+      weekday
+    )));
+    if (amount <= 0) continue;
+
+    const periodKey = `${ROUND_UP_BONUS_PERIOD_PREFIX}${roundUp.id}`;
+    const transaction = await executeSavingsRule(rule, periodKey, money(amount, roundUp.currency), {
+      originalAmount: getOriginalAmount(roundUp) ?? undefined,
+      merchant: roundUp.merchant ?? undefined,
+      category: roundUp.category ?? undefined
+    });
+    if (transaction) {
+      transactions.push(transaction);
+      caps = consumeRoundUpCaps(caps, amount);
+    }
+  }
+
+  return { transactions, caps };
+}
+
+/**
+ * Create the transaction for one rule execution.
+ * Returns null if the rule already ran for this period.
+ */
+async function executeSavingsRule(
+  rule: SavingsRule,
+  periodKey: string,
+  amount: Money,
+  details: { originalAmount?: Money; merchant?: string; category?: string } = {}
+): Promise<SavingsTransaction | null> {
+  try {
+    const transaction = await prisma.savingsTransaction.create({
+      data: {
+        userId: rule.userId,
+        type: TransactionType.RULE,
+        amountMinor: amount.minor,
+        originalAmountMinor: details.originalAmount?.minor,
+        currency: amount.currency,
+        ...(await getFxSnapshot(amount.currency)),
+        merchant: details.merchant,
+        category: details.category,
+        status: TransactionStatus.PENDING, // Confirmed after blockchain transaction
+        ruleId: rule.id,
+        rulePeriodKey: periodKey
+      }
+    });
+
+    await prisma.savingsRule.update({
+      where: { id: rule.id },
+      data: {
+        lastRunAt: new Date(),
+        lastPeriodKey: periodKey,
+        runCount: { increment: 1 }
+      }
+    });
+
+    return transaction;
+  } catch (error) {
+    // Unique (ruleId, rulePeriodKey) violation: another run already executed this period
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+// Rule amounts in minor units of the user's currency, leaving out any not given
+function toAmountsMinor(
+  amounts: Pick<CreateSavingsRuleInput, 'amount' | 'minTriggerAmount' | 'maxAmount'>,
+  currency: string
+) {
+  const toMinor = (amount: number | null | undefined) =>
+    amount === undefined || amount === null ? amount : toMinorUnits(amount, currency);
+
+  return {
+    amountMinor: toMinor(amounts.amount),
+    minTriggerAmountMinor: toMinor(amounts.minTriggerAmount),
+    maxAmountMinor: toMinor(amounts.maxAmount)
+  };
+}
+
+function withAmounts(rule: SavingsRule, currency: string): SavingsRuleWithAmounts {
+  const { amountMinor, minTriggerAmountMinor, maxAmountMinor, ...rest } = rule;
+  const toMajor = (minor: number | null) => (minor === null ? null : fromMinorUnits(minor, currency));
+
+  return {
+    ...rest,
+    amount: toMajor(amountMinor),
+    minTriggerAmount: toMajor(minTriggerAmountMinor),
+    maxAmount: toMajor(maxAmountMinor)
+  };
+}
+
+function toDaysOfWeekJson(
+  daysOfWeek: number[] | null | undefined
+): Prisma.InputJsonValue | typeof Prisma.DbNull | undefined {
+  if (daysOfWeek === undefined) return undefined;
+  if (daysOfWeek === null) return Prisma.DbNull;
+  return Array.from(new Set(daysOfWeek)).sort();
+}
@@ -1,5 +1,16 @@
 import { prisma } from './prisma';
 import { Friendship, FriendshipStatus, Prisma } from '@prisma/client';
+import { recalculateUserChallengeProgress } from './challenges';
+import { recordActivity } from './activityFeed';
+import { getProfileVisibilities } from './privacy';
+import {
+    FriendRecommendation,
+    explainConnections,
+    getFriendRecommendations,
+    invalidateFriendRecommendations
+} from './friendRecommendations';
+import { getPrivacySettingsShowing, redactProfile } from '../social/privacy';
+import { NO_REASON } from '../social/friendRecommendations';
 
 export interface FriendshipWithUser extends Friendship {
     friend: {
@@ -92,6 +103,8 @@ export async function sendFriendRequest(
         }
     });
 
+    invalidateFriendRecommendations(userId, friendId);
+
     // Create notification for recipient
     await prisma.notification.create({
         data: {
@@ -149,6 +162,8 @@ export async function acceptFriendRequest(
         }
     });
 
+    invalidateFriendRecommendations(userId, friendship.userId);
+
     // Create notification for requester
     await prisma.notification.create({
         data: {
@@ -163,6 +178,24 @@ export async function acceptFriendRequest(
         }
     });
 
+    // New friends count towards social challenges
+    await recalculateUserChallengeProgress(friendship.userId);
+    await recalculateUserChallengeProgress(userId);
+
+    // Each side shares the new friendship with their own friends
+    const accepter = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { username: true }
+    });
+    await recordActivity(friendship.userId, 'FRIEND_JOINED', {
+        friendId: userId,
+        friendUsername: accepter?.username ?? 'a new friend'
+    }, `friend_joined:${friendship.id}:${friendship.userId}`);
+    await recordActivity(userId, 'FRIEND_JOINED', {
+        friendId: friendship.userId,
+        friendUsername: friendship.user.username
+    }, `friend_joined:${friendship.id}:${userId}`);
+
     return updatedFriendship;
 }
 
@@ -193,6 +226,7 @@ export async function declineFriendRequest(
     await prisma.friendship.delete({
         where: { id: friendshipId }
     });
+    invalidateFriendRecommendations(userId, friendship.userId);
 
     return true;
 }
@@ -221,6 +255,7 @@ export async function removeFriend(
     await prisma.friendship.delete({
         where: { id: friendship.id }
     });
+    invalidateFriendRecommendations(userId, friendId);
 
     return true;
 }
@@ -246,6 +281,8 @@ export async function blockUser(
         }
     });
 
+    invalidateFriendRecommendations(userId, userToBlockId);
+
     // Create blocked relationship
     return prisma.friendship.create({
         data: {
@@ -270,6 +307,7 @@ export async function unblockUser(
             status: FriendshipStatus.BLOCKED
         }
     });
+    invalidateFriendRecommendations(userId, userToUnblockId);
 
     return result.count > 0;
 }
@@ -472,84 +510,13 @@ export async function getMutualFriends(
 }
 
 /**
- * Get friend suggestions for user
+ * Get friend suggestions for user, ranked by what they have in common
  */
 export async function getFriendSuggestions(
     userId: string,
     limit: number = 10
-): Promise<Array<{
-    id: string;
-    username: string;
-    firstName?: string;
-    lastName?: string;
-    profileImage?: string;
-    level: number;
-    totalPoints: number;
-    mutualFriends: number;
-    reason: string;
-}>> {
-    // Get user's current friends and blocked users
-    const [friends, blocked] = await Promise.all([
-        getUserFriends(userId),
-        getBlockedUsers(userId)
-    ]);
-
-    const excludeIds = new Set([
-        userId,
-        ...friends.map(f => f.friend.id),
-        ...blocked.map(b => b.friend.id)
-    ]);
-
-    // Get users with mutual friends
-    const suggestions = await prisma.user.findMany({
-        where: {
-            id: { notIn: Array.from(excludeIds) },
-            isActive: true
-        },
-        select: {
-            id: true,
-            username: true,
-            firstName: true,
-            lastName: true,
-            profileImage: true,
-            level: true,
-            totalPoints: true
-        },
-        take: limit * 2, // Get more to filter and rank
-        orderBy: { totalPoints: 'desc' }
-    });
-
-    // Calculate mutual friends and add reasons
-    const suggestionsWithMutuals = await Promise.all(
-        suggestions.map(async (user) => {
-            const mutualFriends = await getMutualFriends(userId, user.id);
-
-            let reason = 'Active saver';
-            if (mutualFriends.length > 0) {
-                reason = `${mutualFriends.length} mutual friend${mutualFriends.length > 1 ? 's' : ''}`;
-            } else if (user.level >= 5) {
-                reason = 'High level saver';
-            } else if (user.totalPoints > 1000) {
-                reason = 'Top performer';
-            }
-
-            return {
-                ...user,
-                mutualFriends: mutualFriends.length,
-                reason
-            };
-        })
-    );
-
-    // Sort by mutual friends first, then by points
-    return suggestionsWithMutuals
-        .sort((a, b) => {
-            if (a.mutualFriends !== b.mutualFriends) {
-                return b.mutualFriends - a.mutualFriends;
-            }
-            return b.totalPoints - a.totalPoints;
-        })
-        .slice(0, limit);
+): Promise<FriendRecommendation[]> {
+    return getFriendRecommendations(userId, limit);
 }
 
 /**
@@ -650,13 +617,14 @@ export async function searchUsersForFriends(
 ): Promise<Array<{
     id: string;
     username: string;
-    firstName?: string;
-    lastName?: string;
-    profileImage?: string;
-    level: number;
-    totalPoints: number;
+    firstName?: string | null;
+    lastName?: string | null;
+    profileImage?: string | null;
+    level?: number;
+    totalPoints?: number;
     friendshipStatus: FriendshipStatus | 'none';
     mutualFriends: number;
+    reason: string;
 }>> {
     // Get current friends and blocked users to exclude
     const [friends, blocked] = await Promise.all([
@@ -670,15 +638,21 @@ export async function searchUsersForFriends(
         ...blocked.map(b => b.friend.id)
     ]);
 
-    // Search users
+    // Search users who can be found, matching real names only where they're shown
     const users = await prisma.user.findMany({
         where: {
             id: { notIn: Array.from(excludeIds) },
             isActive: true,
+            privacyLevel: { in: getPrivacySettingsShowing('listed', 'none') },
             OR: [
-                { username: { contains: query, mode: 'insensitive' } },
-                { firstName: { contains: query, mode: 'insensitive' } },
-                { lastName: { contains: query, mode: 'insensitive' } }
+                { username: { contains: query } },
+                {
+                    privacyLevel: { in: getPrivacySettingsShowing('identity', 'none') },
+                    OR: [
+                        { firstName: { contains: query } },
+                        { lastName: { contains: query } }
+                    ]
+                }
             ]
         },
         select: {
@@ -688,24 +662,31 @@ export async function searchUsersForFriends(
             lastName: true,
             profileImage: true,
             level: true,
-            totalPoints: true
+            totalPoints: true,
+            privacyLevel: true
         },
         take: limit,
         orderBy: { totalPoints: 'desc' }
     });
 
-    // Add friendship status and mutual friends
+    const [visibilities, connections] = await Promise.all([
+        getProfileVisibilities(users, userId),
+        explainConnections(userId, users.map(user => user.id))
+    ]);
+
+    // Add friendship status and what the user has in common with each result
     const usersWithStatus = await Promise.all(
         users.map(async (user) => {
-            const [friendshipStatus, mutualFriends] = await Promise.all([
-                getFriendshipStatus(userId, user.id),
-                getMutualFriends(userId, user.id)
-            ]);
+            const friendshipStatus = await getFriendshipStatus(userId, user.id);
+            const connection = connections.get(user.id);
 
             return {
-                ...user,
+                ...redactProfile(user, visibilities.get(user.id)!),
+                id: user.id,
+                username: user.username,
                 friendshipStatus: friendshipStatus.status,
-                mutualFriends: mutualFriends.length
+                mutualFriends: connection?.mutualFriends ?? 0,
+                reason: connection?.reason ?? NO_REASON
             };
         })
     );
@@ -713,114 +694,6 @@ export async function searchUsersForFriends(
     return usersWithStatus;
 }
 
-/**
- * Get friendship activity feed
- */
-export async function getFriendshipActivityFeed(
-    userId: string,
-    limit: number = 20
-): Promise<Array<{
-    type: 'friend_joined' | 'achievement_unlocked' | 'challenge_completed' | 'savings_milestone';
-    userId: string;
-    username: string;
-    profileImage?: string;
-    message: string;
-    timestamp: Date;
-    data?: any;
-}>> {
-    const friends = await getUserFriends(userId);
-    const friendIds = friends.map(f => f.friend.id);
-
-    if (friendIds.length === 0) {
-        return [];
-    }
-
-    // Get recent activities from friends
-    const [recentAchievements, recentChallenges] = await Promise.all([
-        // Recent achievements
-        prisma.userAchievement.findMany({
-            where: {
-                userId: { in: friendIds },
-                unlockedAt: {
-                    gte: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000) // Last 7 days
-                }
-            },
-            include: {
-                user: {
-                    select: {
-                        id: true,
-                        username: true,
-                        profileImage: true
-                    }
-                },
-                achievement: {
-                    select: {
-                        name: true,
-                        icon: true
-                    }
-                }
-            },
-            orderBy: { unlockedAt: 'desc' },
-            take: limit / 2
-        }),
-
-        // Recent challenge completions
-        prisma.challengeParticipant.findMany({
-            where: {
-                userId: { in: friendIds },
-                rank: 1, // Winners only
-                challenge: {
-                    status: 'COMPLETED',
-                    endDate: {
-                        gte: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000)
-                    }
-                }
-            },
-            include: {
-                user: {
-                    select: {
-                        id: true,
-                        username: true,
-                        profileImage: true
-                    }
-                },
-                challenge: {
-                    select: {
-                        title: true
-                    }
-                }
-            },
-            orderBy: { challenge: { endDate: 'desc' } },
-            take: limit / 2
-        })
-    ]);
-
-    const activities = [
-        ...recentAchievements.map(ua => ({
-            type: 'achievement_unlocked' as const,
-            userId: ua.user.id,
-            username: ua.user.username,
-            profileImage: ua.user.profileImage,
-            message: `unlocked "${ua.achievement.name}" ${ua.achievement.icon}`,
-            timestamp: ua.unlockedAt,
-            data: { achievementName: ua.achievement.name }
-        })),
-        ...recentChallenges.map(cp => ({
-            type: 'challenge_completed' as const,
-            userId: cp.user.id,
-            username: cp.user.username,
-            profileImage: cp.user.profileImage,
-            message: `won the challenge "${cp.challenge.title}"`,
-            timestamp: cp.challenge.endDate,
-            data: { challengeTitle: cp.challenge.title }
-        }))
-    ];
-
-    return activities
-        .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
-        .slice(0, limit);
-}
-
 /**
  * Get friendship statistics for admin
  */
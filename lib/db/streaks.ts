@@ -0,0 +1,317 @@
+import { prisma } from './prisma';
+import { PointsReason, Prisma } from '@prisma/client';
+import {
+  STREAK_LIMITS,
+  StreakState,
+  StreakUpdate,
+  getLocalDay,
+  getRepairDeadline,
+  getStreakBonus,
+  recordActiveDay,
+  repairStreak,
+  settleMissedDays,
+  validateFreezePurchase,
+  validateRepair
+} from '../gamification/streaks';
+import { checkAndUnlockAchievements } from './achievements';
+import { createSystemNotification } from './notifications';
+import { awardPoints, spendPoints } from './points';
+import { isGameEngineConfigured, updateStreakOnChain } from '../blockchain/gameEngine';
+import { wsIntegration } from '../websocket/integration';
+
+export interface StreakStatus {
+  currentStreak: number;
+  longestStreak: number;
+  lastDay: string | null;
+  savedToday: boolean;
+  freezes: number;
+  freezeCost: number;
+  maxFreezes: number;
+  brokenStreak: number;
+  repairDeadline: Date | null;
+  repairCost: number;
+}
+
+const streakSelect = {
+  timezone: true,
+  walletAddress: true,
+  totalPoints: true,
+  currentStreak: true,
+  longestStreak: true,
+  streakLastDay: true,
+  streakFreezes: true,
+  brokenStreak: true,
+  streakBrokenAt: true
+} as const;
+
+// Streak writes are guarded on the values they were computed from and
+// recomputed from a fresh read when another write got there first
+const STREAK_UPDATE_ATTEMPTS = 3;
+
+type StreakUser = {
+  timezone: string;
+  walletAddress: string | null;
+  totalPoints: number;
+  currentStreak: number;
+  longestStreak: number;
+  streakLastDay: string | null;
+  streakFreezes: number;
+  brokenStreak: number;
+  streakBrokenAt: Date | null;
+};
+
+/**
+ * Count qualifying savings toward the user's streak, on the calendar day it
+ * happened in the user's timezone. Called when a savings transaction is
+ * confirmed; saving more than once a day counts once.
+ */
+export async function recordStreakActivity(userId: string, at: Date = new Date()): Promise<StreakUpdate | null> {
+  const result = await updateStreak(
+    userId,
+    user => recordActiveDay(toStreakState(user), getLocalDay(at, user.timezone), user.timezone),
+    { lastActivityDate: at }
+  );
+  if (!result) return null;
+
+  await afterStreakUpdate(userId, result.user, result.update);
+
+  return result.update;
+}
+
+/**
+ * Catch up the streaks of users who missed a day, using their freezes or
+ * breaking the streak. Run at least daily; days are settled once they have
+ * ended in the user's timezone.
+ */
+export async function processMissedStreaks(now: Date = new Date()): Promise<number> {
+  const users = await prisma.user.findMany({
+    where: { currentStreak: { gt: 0 } },
+    select: { id: true, ...streakSelect }
+  });
+
+  let updated = 0;
+
+  for (const user of users) {
+    if (settleMissedDays(toStreakState(user), getLocalDay(now, user.timezone), user.timezone).events.length === 0) {
+      continue;
+    }
+
+    try {
+      const result = await updateStreak(user.id, current =>
+        settleMissedDays(toStreakState(current), getLocalDay(now, current.timezone), current.timezone)
+      );
+      if (!result || result.update.events.length === 0) continue;
+
+      await afterStreakUpdate(user.id, result.user, result.update);
+      updated++;
+    } catch (error) {
+      console.error(`Failed to settle streak for user ${user.id}:`, error);
+    }
+  }
+
+  return updated;
+}
+
+/**
+ * Get the user's streak as of now, with missed days settled first
+ */
+export async function getStreakStatus(userId: string, now: Date = new Date()): Promise<StreakStatus> {
+  const user = await getSettledStreakUser(userId, now);
+  const today = getLocalDay(now, user.timezone);
+
+  return {
+    currentStreak: user.currentStreak,
+    longestStreak: user.longestStreak,
+    lastDay: user.streakLastDay,
+    savedToday: user.streakLastDay === today && user.currentStreak > 0,
+    freezes: user.streakFreezes,
+    freezeCost: STREAK_LIMITS.FREEZE_COST,
+    maxFreezes: STREAK_LIMITS.MAX_FREEZES,
+    brokenStreak: user.brokenStreak,
+    repairDeadline: getRepairDeadline({ brokenStreak: user.brokenStreak, brokenAt: user.streakBrokenAt }),
+    repairCost: STREAK_LIMITS.REPAIR_COST
+  };
+}
+
+/**
+ * Spend points on a streak freeze, which covers one missed day
+ */
+export async function buyStreakFreeze(userId: string): Promise<StreakStatus> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: streakSelect
+  });
+
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  const error = validateFreezePurchase(user.streakFreezes, user.totalPoints);
+  if (error) {
+    throw new Error(error);
+  }
+
+  // Guarded on freezes so concurrent purchases can't go over the limit
+  const entry = await spendPoints(userId, STREAK_LIMITS.FREEZE_COST, PointsReason.STREAK_FREEZE, {
+    purchase: {
+      where: { streakFreezes: { lt: STREAK_LIMITS.MAX_FREEZES } },
+      data: { streakFreezes: { increment: 1 } }
+    }
+  });
+
+  if (!entry) {
+    throw new Error('Streak freeze could not be bought, please try again');
+  }
+
+  await wsIntegration.broadcastStreakUpdate(userId);
+
+  return getStreakStatus(userId);
+}
+
+/**
+ * Spend points to restore a streak that broke within the last 24 hours
+ */
+export async function repairUserStreak(userId: string, now: Date = new Date()): Promise<StreakStatus> {
+  const user = await getSettledStreakUser(userId, now);
+  const state = toStreakState(user);
+
+  const error = validateRepair(state, user.totalPoints, now);
+  if (error) {
+    throw new Error(error);
+  }
+
+  const update = repairStreak(state, getLocalDay(now, user.timezone));
+
+  // Guarded on the streak being unchanged so a repair is only paid for once
+  // and doesn't undo a freeze bought meanwhile
+  const entry = await spendPoints(userId, STREAK_LIMITS.REPAIR_COST, PointsReason.STREAK_REPAIR, {
+    purchase: {
+      where: toStreakData(state),
+      data: toStreakData(update.state)
+    }
+  });
+
+  if (!entry) {
+    throw new Error('Streak could not be repaired, please try again');
+  }
+
+  await afterStreakUpdate(userId, user, update);
+
+  return getStreakStatus(userId, now);
+}
+
+async function getSettledStreakUser(userId: string, now: Date): Promise<StreakUser> {
+  const result = await updateStreak(userId, user =>
+    settleMissedDays(toStreakState(user), getLocalDay(now, user.timezone), user.timezone)
+  );
+
+  if (!result) {
+    throw new Error('User not found');
+  }
+
+  const { user, update } = result;
+  if (update.events.length === 0) {
+    return user;
+  }
+
+  await afterStreakUpdate(userId, user, update);
+
+  return { ...user, ...toStreakData(update.state) };
+}
+
+// Apply a streak change computed from the user's current streak, saving it
+// only if the streak is still what it was computed from. Returns the user as
+// read and the change, or null if there is no such user.
+async function updateStreak(
+  userId: string,
+  apply: (user: StreakUser) => StreakUpdate,
+  data: Prisma.UserUpdateManyMutationInput = {}
+): Promise<{ user: StreakUser; update: StreakUpdate } | null> {
+  for (let attempt = 0; attempt < STREAK_UPDATE_ATTEMPTS; attempt++) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: streakSelect
+    });
+    if (!user) return null;
+
+    const update = apply(user);
+    if (update.events.length === 0) {
+      if (Object.keys(data).length > 0) {
+        await prisma.user.update({ where: { id: userId }, data });
+      }
+      return { user, update };
+    }
+
+    const result = await prisma.user.updateMany({
+      where: { id: userId, ...toStreakData(toStreakState(user)) },
+      data: { ...data, ...toStreakData(update.state) }
+    });
+
+    if (result.count === 1) {
+      return { user, update };
+    }
+  }
+
+  throw new Error('Streak is being updated, please try again');
+}
+
+function toStreakState(user: StreakUser): StreakState {
+  return {
+    currentStreak: user.currentStreak,
+    longestStreak: user.longestStreak,
+    lastDay: user.streakLastDay,
+    freezes: user.streakFreezes,
+    brokenStreak: user.brokenStreak,
+    brokenAt: user.streakBrokenAt
+  };
+}
+
+function toStreakData(state: StreakState) {
+  return {
+    currentStreak: state.currentStreak,
+    longestStreak: state.longestStreak,
+    streakLastDay: state.lastDay,
+    streakFreezes: state.freezes,
+    brokenStreak: state.brokenStreak,
+    streakBrokenAt: state.brokenAt
+  };
+}
+
+/**
+ * Tell the user, pay weekly streak bonuses, unlock streak achievements and
+ * record new active days on chain. On-chain sync is best effort and runs in
+ * the background; the database streak is the record.
+ */
+async function afterStreakUpdate(userId: string, user: StreakUser, update: StreakUpdate): Promise<void> {
+  if (update.events.length === 0) return;
+
+  await wsIntegration.broadcastStreakUpdate(userId, update.events);
+
+  if (update.events.includes('broken')) {
+    await createSystemNotification(
+      userId,
+      'Streak broken',
+      `Your ${update.state.brokenStreak}-day streak ended. Repair it for ${STREAK_LIMITS.REPAIR_COST} points within 24 hours.`,
+      { brokenStreak: update.state.brokenStreak, repairDeadline: getRepairDeadline(update.state) }
+    );
+  }
+
+  const activeDay = update.events.includes('started') || update.events.includes('extended');
+
+  if (activeDay) {
+    await awardPoints(userId, getStreakBonus(update.state.currentStreak), PointsReason.STREAK_BONUS, {
+      dedupeKey: `streak_bonus:${userId}:${update.state.lastDay}`
+    });
+  }
+
+  if (update.state.currentStreak > user.currentStreak) {
+    await checkAndUnlockAchievements(userId, 'streak', { currentStreak: update.state.currentStreak });
+  }
+
+  // Not awaited so savings and streak requests don't wait on the chain
+  if (activeDay && user.walletAddress && isGameEngineConfigured()) {
+    updateStreakOnChain(user.walletAddress).catch(error => {
+      console.error(`Failed to sync streak for user ${userId} on chain:`, error);
+    });
+  }
+}
@@ -0,0 +1,155 @@
+import { prisma } from './prisma';
+import { findTotpStep, generateTotpSecret, getTotpLockout, getTotpUri } from '../security/totp';
+import { decrypt, encrypt } from '../utils/encryption';
+import { createSecurityNotification } from './notifications';
+
+const TOTP_ISSUER = 'MorphSave';
+
+export interface TwoFactorEnrollment {
+  secret: string; // Base32, for users who type it into their authenticator app
+  otpauthUrl: string; // For a QR code
+}
+
+/**
+ * Start two-factor enrollment with a new secret. It only takes effect once a
+ * code from it is confirmed; starting again replaces an unconfirmed secret.
+ */
+export async function startTwoFactorEnrollment(userId: string): Promise<TwoFactorEnrollment> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { email: true, twoFactorEnabled: true }
+  });
+
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  if (user.twoFactorEnabled) {
+    throw new Error('Two-factor authentication is already enabled');
+  }
+
+  const secret = generateTotpSecret();
+  await prisma.user.update({
+    where: { id: userId },
+    data: { twoFactorSecretEncrypted: encrypt(secret), twoFactorLastStep: null }
+  });
+
+  return { secret, otpauthUrl: getTotpUri(secret, user.email, TOTP_ISSUER) };
+}
+
+/**
+ * Turn two-factor authentication on with a code from the enrolled secret
+ */
+export async function confirmTwoFactorEnrollment(userId: string, code: string, now: Date = new Date()): Promise<void> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { twoFactorEnabled: true, twoFactorSecretEncrypted: true }
+  });
+
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  if (user.twoFactorEnabled) {
+    throw new Error('Two-factor authentication is already enabled');
+  }
+
+  if (!user.twoFactorSecretEncrypted) {
+    throw new Error('Start two-factor enrollment first');
+  }
+
+  if (!await consumeTotpCode(userId, user.twoFactorSecretEncrypted, code, now)) {
+    throw new Error('Invalid two-factor code');
+  }
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { twoFactorEnabled: true }
+  });
+
+  await createSecurityNotification(userId, 'two_factor_enabled');
+}
+
+/**
+ * Turn two-factor authentication off, confirmed with a current code
+ */
+export async function disableTwoFactor(userId: string, code: string, now: Date = new Date()): Promise<void> {
+  if (!await verifyTwoFactorCode(userId, code, now)) {
+    throw new Error('Invalid two-factor code');
+  }
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { twoFactorEnabled: false, twoFactorSecretEncrypted: null, twoFactorLastStep: null }
+  });
+
+  await createSecurityNotification(userId, 'two_factor_disabled');
+}
+
+/**
+ * Check a code from a user's authenticator app. Each code is accepted once;
+ * so is any code older than the last one accepted. Throws while the user is
+ * locked out after too many wrong codes.
+ */
+export async function verifyTwoFactorCode(userId: string, code: string, now: Date = new Date()): Promise<boolean> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { twoFactorEnabled: true, twoFactorSecretEncrypted: true }
+  });
+
+  if (!user?.twoFactorEnabled || !user.twoFactorSecretEncrypted) {
+    return false;
+  }
+
+  return consumeTotpCode(userId, user.twoFactorSecretEncrypted, code, now);
+}
+
+// Accept a code by moving the last step used past it, which only one request
+// can do. The attempt is counted before the code is checked so parallel
+// guesses can't get past the limit.
+async function consumeTotpCode(userId: string, secretEncrypted: string, code: string, now: Date): Promise<boolean> {
+  await countTotpAttempt(userId, now);
+
+  const step = findTotpStep(decrypt(secretEncrypted), code, now);
+  if (step === null) {
+    return false;
+  }
+
+  const result = await prisma.user.updateMany({
+    where: {
+      id: userId,
+      twoFactorSecretEncrypted: secretEncrypted,
+      OR: [{ twoFactorLastStep: null }, { twoFactorLastStep: { lt: step } }]
+    },
+    data: { twoFactorLastStep: step, twoFactorAttempts: 0 }
+  });
+
+  return result.count === 1;
+}
+
+// Count a code attempt, locking the user out once they have tried too many
+async function countTotpAttempt(userId: string, now: Date): Promise<void> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { twoFactorLockedUntil: true }
+  });
+
+  if (user?.twoFactorLockedUntil && user.twoFactorLockedUntil > now) {
+    throw new Error('Too many two-factor attempts, try again later');
+  }
+
+  const { twoFactorAttempts } = await prisma.user.update({
+    where: { id: userId },
+    data: { twoFactorAttempts: { increment: 1 } },
+    select: { twoFactorAttempts: true }
+  });
+
+  const lockedUntil = getTotpLockout(twoFactorAttempts, now);
+  if (lockedUntil) {
+    await prisma.user.update({
+      where: { id: userId },
+      data: { twoFactorAttempts: 0, twoFactorLockedUntil: lockedUntil }
+    });
+    throw new Error('Too many two-factor attempts, try again later');
+  }
+}
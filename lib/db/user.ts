@@ -1,7 +1,19 @@
 import { prisma } from './prisma';
-import { User, Prisma, WalletProvider, RiskTolerance, PrivacyLevel } from '@prisma/client';
+import { User, Prisma, WalletProvider, RiskTolerance, PrivacyLevel, RoundUpOverflow, RoundUpStrategy } from '@prisma/client';
 import bcrypt from 'bcryptjs';
-import { generateUsername } from '../utils/helpers';
+import { generateUsername, generateReferralCode } from '../utils/helpers';
+import { DEFAULT_CURRENCY, fromMinorUnits, toMinorUnits } from '../utils/money';
+import { fromBaseMinor } from '../fx/conversion';
+import { getDisplayRate } from '../fx/providers';
+import { getProfileVisibilities, getViewerRelations } from './privacy';
+import {
+  ProfileVisibility,
+  anonymizeEntry,
+  getPrivacySettingsShowing,
+  getProfileVisibility,
+  isProfileHidden,
+  redactProfile
+} from '../social/privacy';
 
 export interface CreateUserInput {
   email: string;
@@ -23,11 +35,21 @@ export interface UpdateUserInput {
   phoneNumber?: string;
   country?: string;
   timezone?: string;
-  savingsGoal?: number;
+  savingsGoal?: number; // Money settings are major units of the user's currency
   monthlyTarget?: number;
   riskTolerance?: RiskTolerance;
   roundUpEnabled?: boolean;
   roundUpAmount?: number;
+  roundUpStrategy?: RoundUpStrategy;
+  roundUpFixedAmount?: number | null;
+  roundUpPercentage?: number | null;
+  roundUpMultiplier?: number;
+  dailyRoundUpCap?: number | null;
+  weeklyRoundUpCap?: number | null;
+  monthlyRoundUpCap?: number | null;
+  roundUpOverflow?: RoundUpOverflow;
+  dailyWithdrawalLimit?: number | null;
+  withdrawalCoolingOffHours?: number | null;
   notificationsEnabled?: boolean;
   autoInvestEnabled?: boolean;
   autoCompoundEnabled?: boolean;
@@ -47,6 +69,80 @@ export interface UserWithStats extends User {
   };
 }
 
+export interface LeaderboardEntry {
+  id: string;
+  username: string;
+  firstName: string | null;
+  lastName: string | null;
+  profileImage: string | null;
+  level: number;
+  totalPoints: number;
+  totalSaved: number; // Major units of `currency`
+  currency: string;
+  currentStreak: number;
+  longestStreak: number;
+}
+
+// Another user's profile as the viewer may see it. Hidden fields are left out.
+export interface PublicProfile {
+  id: string;
+  username: string;
+  firstName?: string | null;
+  lastName?: string | null;
+  profileImage?: string | null;
+  bio?: string | null;
+  level?: number;
+  totalPoints?: number;
+  currentStreak?: number;
+  longestStreak?: number;
+  totalSaved?: number; // Major units of `currency`
+  currency?: string;
+  achievements?: Array<{
+    id: string;
+    name: string;
+    icon: string;
+    rarity: string;
+    unlockedAt: Date;
+  }>;
+  memberSince: Date;
+}
+
+// Settings entered in major units, with the columns holding them in minor units
+const MONEY_SETTINGS = [
+  ['savingsGoal', 'savingsGoalMinor'],
+  ['monthlyTarget', 'monthlyTargetMinor'],
+  ['dailyRoundUpCap', 'dailyRoundUpCapMinor'],
+  ['weeklyRoundUpCap', 'weeklyRoundUpCapMinor'],
+  ['monthlyRoundUpCap', 'monthlyRoundUpCapMinor'],
+  ['dailyWithdrawalLimit', 'dailyWithdrawalLimitMinor']
+] as const;
+
+type MoneySetting = typeof MONEY_SETTINGS[number][0];
+type MoneySettingColumn = typeof MONEY_SETTINGS[number][1];
+
+const moneySettingsSelect = Object.fromEntries(
+  MONEY_SETTINGS.map(([, column]) => [column, true])
+) as Record<MoneySettingColumn, true>;
+
+const publicProfileSelect = {
+  id: true,
+  username: true,
+  firstName: true,
+  lastName: true,
+  profileImage: true,
+  bio: true,
+  level: true,
+  totalPoints: true,
+  currentStreak: true,
+  longestStreak: true,
+  totalSavedMinor: true,
+  currency: true,
+  createdAt: true,
+  privacyLevel: true
+} as const;
+
+type PublicProfileRow = Prisma.UserGetPayload<{ select: typeof publicProfileSelect }>;
+
 /**
  * Create a new user
  */
@@ -95,6 +191,7 @@ export async function createUser(input: CreateUserInput): Promise<User> {
       walletProvider: userData.walletProvider || WalletProvider.METAMASK,
       firstName: userData.firstName,
       lastName: userData.lastName,
+      referralCode: generateReferralCode(),
     }
   });
 }
@@ -162,15 +259,51 @@ export async function getUserByUsername(username: string): Promise<User | null>
  * Update user information
  */
 export async function updateUser(id: string, input: UpdateUserInput): Promise<User> {
+  // Money settings are written to their minor-unit columns below
+  const settings = Object.fromEntries(
+    Object.entries(input).filter(([key]) => !MONEY_SETTINGS.some(([setting]) => setting === key))
+  ) as Omit<UpdateUserInput, MoneySetting>;
+
+  const current = await prisma.user.findUnique({
+    where: { id },
+    select: { currency: true, ...moneySettingsSelect }
+  });
+
+  if (!current) {
+    throw new Error('User not found');
+  }
+
+  // Money settings are kept in minor units of the user's currency, so follow it when it changes
+  const currency = input.currency ?? current.currency;
+  const moneySettings = Object.fromEntries(MONEY_SETTINGS.map(([setting, column]) => {
+    const amount = input[setting];
+    return [column, amount !== undefined
+      ? amount === null ? null : toMinorUnits(amount, currency)
+      : rescaleMinor(current[column], current.currency, currency)];
+  }));
+
   return prisma.user.update({
     where: { id },
     data: {
-      ...input,
+      ...settings,
+      ...moneySettings,
       updatedAt: new Date()
     }
   });
 }
 
+/**
+ * A user's money settings in major units of their currency, as they're entered
+ */
+export function getMoneySettings(
+  user: Pick<User, 'currency' | MoneySettingColumn>
+): Record<MoneySetting, number | null> {
+  return Object.fromEntries(MONEY_SETTINGS.map(([setting, column]) => {
+    const minor = user[column];
+    return [setting, minor === null ? null : fromMinorUnits(minor, user.currency)];
+  })) as Record<MoneySetting, number | null>;
+}
+
 /**
  * Update user's last login time
  */
@@ -209,8 +342,8 @@ export async function updateUserStats(
     level?: number;
     currentStreak?: number;
     longestStreak?: number;
-    totalSaved?: number;
-    totalYieldEarned?: number;
+    totalSavedMinor?: number;
+    totalYieldEarnedMinor?: number;
     lastActivityDate?: Date;
   }
 ): Promise<User> {
@@ -244,79 +377,152 @@ export async function getUserWithStats(id: string): Promise<UserWithStats | null
 }
 
 /**
- * Search users by username or email
+ * Search users by username or exact email. Real names are only matched where
+ * strangers may see them, and results are redacted for `viewerId`.
  */
 export async function searchUsers(
   query: string,
   limit: number = 10,
-  excludeUserId?: string
-): Promise<User[]> {
-  return prisma.user.findMany({
+  viewerId?: string
+): Promise<PublicProfile[]> {
+  const users = await prisma.user.findMany({
     where: {
       AND: [
         {
           OR: [
-            { username: { contains: query, mode: 'insensitive' } },
-            { email: { contains: query, mode: 'insensitive' } },
-            { firstName: { contains: query, mode: 'insensitive' } },
-            { lastName: { contains: query, mode: 'insensitive' } }
+            { username: { contains: query } },
+            { email: query.toLowerCase() },
+            {
+              privacyLevel: { in: getPrivacySettingsShowing('identity', 'none') },
+              OR: [
+                { firstName: { contains: query } },
+                { lastName: { contains: query } }
+              ]
+            }
           ]
         },
-        excludeUserId ? { id: { not: excludeUserId } } : {},
-        { isActive: true }
+        viewerId ? { id: { not: viewerId } } : {},
+        { isActive: true },
+        { privacyLevel: { in: getPrivacySettingsShowing('listed', 'none') } }
       ]
     },
-    select: {
-      id: true,
-      username: true,
-      firstName: true,
-      lastName: true,
-      profileImage: true,
-      level: true,
-      totalPoints: true,
-      privacyLevel: true
-    },
+    select: publicProfileSelect,
     take: limit,
     orderBy: [
       { totalPoints: 'desc' },
       { createdAt: 'desc' }
     ]
   });
+
+  const visibilities = await getProfileVisibilities(users, viewerId);
+
+  return users
+    .filter(user => visibilities.get(user.id)!.listed)
+    .map(user => toPublicProfile(user, visibilities.get(user.id)!));
+}
+
+/**
+ * Get a user's profile as `viewerId` may see it, with their achievements.
+ * Profiles hidden from the viewer are reported as not found.
+ */
+export async function getPublicProfile(userId: string, viewerId?: string | null): Promise<PublicProfile> {
+  const user = await prisma.user.findFirst({
+    where: { id: userId, isActive: true },
+    select: publicProfileSelect
+  });
+
+  const visibility = user && (await getProfileVisibilities([user], viewerId)).get(user.id)!;
+  if (!user || !visibility || isProfileHidden(visibility)) {
+    throw new Error('User not found');
+  }
+
+  const profile = toPublicProfile(user, visibility);
+  if (!visibility.achievements) {
+    return profile;
+  }
+
+  const achievements = await prisma.userAchievement.findMany({
+    where: { userId },
+    include: { achievement: { select: { name: true, icon: true, rarity: true } } },
+    orderBy: { unlockedAt: 'desc' }
+  });
+
+  return {
+    ...profile,
+    achievements: achievements.map(unlocked => ({
+      id: unlocked.achievementId,
+      name: unlocked.achievement.name,
+      icon: unlocked.achievement.icon,
+      rarity: unlocked.achievement.rarity,
+      unlockedAt: unlocked.unlockedAt
+    }))
+  };
+}
+
+function toPublicProfile(
+  { totalSavedMinor, createdAt, ...user }: PublicProfileRow,
+  visibility: ProfileVisibility
+): PublicProfile {
+  return {
+    ...redactProfile({
+      ...user,
+      totalSaved: fromMinorUnits(totalSavedMinor, user.currency)
+    }, visibility),
+    id: user.id,
+    username: user.username,
+    memberSince: createdAt
+  };
 }
 
 /**
- * Get leaderboard users
+ * Get leaderboard users. Savings are ranked in the FX base currency and
+ * reported in `displayCurrency`. Private users are left out and users whose
+ * stats `viewerId` can't see are shown anonymously.
  */
 export async function getLeaderboard(
   type: 'points' | 'savings' | 'streak' = 'points',
-  limit: number = 10
-): Promise<User[]> {
+  limit: number = 10,
+  displayCurrency: string = DEFAULT_CURRENCY,
+  viewerId?: string | null
+): Promise<LeaderboardEntry[]> {
   const orderBy = {
     points: { totalPoints: 'desc' as const },
-    savings: { totalSaved: 'desc' as const },
+    savings: { totalSavedBaseMinor: 'desc' as const },
     streak: { longestStreak: 'desc' as const }
   };
 
-  return prisma.user.findMany({
-    where: {
-      isActive: true,
-      privacyLevel: { not: PrivacyLevel.PRIVATE }
-    },
-    select: {
-      id: true,
-      username: true,
-      firstName: true,
-      lastName: true,
-      profileImage: true,
-      level: true,
-      totalPoints: true,
-      totalSaved: true,
-      currentStreak: true,
-      longestStreak: true
-    },
-    orderBy: orderBy[type],
-    take: limit
-  });
+  const [display, users] = await Promise.all([
+    getDisplayRate(displayCurrency),
+    prisma.user.findMany({
+      where: {
+        isActive: true,
+        privacyLevel: { in: getPrivacySettingsShowing('listed', 'none') }
+      },
+      select: {
+        id: true,
+        username: true,
+        firstName: true,
+        lastName: true,
+        profileImage: true,
+        level: true,
+        totalPoints: true,
+        totalSavedBaseMinor: true,
+        currentStreak: true,
+        longestStreak: true,
+        privacyLevel: true
+      },
+      orderBy: orderBy[type],
+      take: limit
+    })
+  ]);
+
+  const relations = await getViewerRelations(users.map(user => user.id), viewerId);
+
+  return users.map(({ totalSavedBaseMinor, privacyLevel, ...user }) => anonymizeEntry({
+    ...user,
+    totalSaved: fromBaseMinor(totalSavedBaseMinor, display),
+    currency: display.currency
+  }, getProfileVisibility(privacyLevel, relations.get(user.id) ?? 'none')));
 }
 
 /**
@@ -364,14 +570,17 @@ export async function getUserStatsSummary(id: string) {
       level: true,
       currentStreak: true,
       longestStreak: true,
-      totalSaved: true,
-      totalYieldEarned: true,
+      totalSavedMinor: true,
+      totalYieldEarnedMinor: true,
+      currency: true,
       lastActivityDate: true
     }
   });
 
   if (!user) return null;
 
+  const { totalSavedMinor, totalYieldEarnedMinor, ...stats } = user;
+
   // Get additional computed stats
   const [
     totalTransactions,
@@ -399,7 +608,9 @@ export async function getUserStatsSummary(id: string) {
   ]);
 
   return {
-    ...user,
+    ...stats,
+    totalSaved: fromMinorUnits(totalSavedMinor, user.currency),
+    totalYieldEarned: fromMinorUnits(totalYieldEarnedMinor, user.currency),
     totalTransactions,
     achievementCount,
     challengesWon,
@@ -451,4 +662,8 @@ export async function updateUserWallet(
       updatedAt: new Date()
     }
   });
-}
\ No newline at end of file
+}
+// The same amount in minor units of another currency, e.g. when a user changes currency
+function rescaleMinor(minor: number | null, from: string, to: string): number | null {
+  return minor === null || from === to ? minor : toMinorUnits(fromMinorUnits(minor, from), to);
+}
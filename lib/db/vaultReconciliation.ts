@@ -0,0 +1,286 @@
+import { ethers } from 'ethers';
+import { prisma } from './prisma';
+import { SavingsTransaction, TransactionStatus, TransactionType } from '@prisma/client';
+import {
+  DEFAULT_RECONCILIATION_OPTIONS,
+  LedgerEntry,
+  ReconciliationIssue,
+  ReconciliationOptions,
+  WalletReconciliation,
+  reconcileWallet
+} from '../savings/vaultReconciliation';
+import { sumInDisplayCurrency } from '../fx/conversion';
+import { getDisplayRate } from '../fx/providers';
+import {
+  VaultLogEvent,
+  fromVaultAmount,
+  getVaultEvents,
+  isSavingsVaultConfigured,
+  toVaultAmount
+} from '../blockchain/savingsVault';
+import { batchCheckTransactionConfirmations } from '../blockchain/transactionTracker';
+import { createSavingsTransaction, updateTransactionStatus, updateUserTotalSaved } from './savings';
+import { SAVINGS_TRANSACTION_TYPES, sumByCurrency } from './savingsLedger';
+
+export interface VaultReconciliationOptions extends Partial<Omit<ReconciliationOptions, 'now'>> {
+  provider?: ethers.Provider;
+  fromBlock?: number; // SAVINGS_VAULT_DEPLOY_BLOCK by default
+  toBlock?: number; // Latest block by default
+  repair?: boolean;
+  now?: Date;
+}
+
+export interface WalletReconciliationReport extends WalletReconciliation {
+  userId: string;
+  walletAddress: string;
+  currency: string;
+  totalSavedDriftMinor: number; // Cached User.totalSaved less the confirmed ledger total
+  repairs: string[];
+}
+
+export interface VaultReconciliationReport {
+  fromBlock: number;
+  toBlock: number;
+  wallets: WalletReconciliationReport[]; // Only wallets with something to report
+  unknownWallets: string[]; // Addresses with vault events but no user
+  issueCount: number;
+  repairCount: number;
+}
+
+const VAULT_TRANSACTION_TYPES: TransactionType[] = [...SAVINGS_TRANSACTION_TYPES, TransactionType.WITHDRAWAL];
+
+/**
+ * Reconcile SavingsVault Deposit and Withdrawal events with the savings ledger
+ * for every user with a wallet. Reports balance drift, transactions missing on
+ * either side and PENDING rows that will never confirm, and repairs them on
+ * request. The chain is treated as the source of truth.
+ */
+export async function reconcileVault(
+  options: VaultReconciliationOptions = {}
+): Promise<VaultReconciliationReport> {
+  if (!isSavingsVaultConfigured()) {
+    throw new Error('SavingsVault not configured');
+  }
+
+  const provider = options.provider ?? new ethers.JsonRpcProvider(
+    process.env.MORPH_RPC_URL || 'https://rpc-quicknode-holesky.morphl2.io'
+  );
+  const fromBlock = options.fromBlock ?? Number(process.env.SAVINGS_VAULT_DEPLOY_BLOCK || 0);
+  const toBlock = options.toBlock ?? await provider.getBlockNumber();
+  const rules: ReconciliationOptions = {
+    ...DEFAULT_RECONCILIATION_OPTIONS,
+    ...(options.pendingGraceMs !== undefined && { pendingGraceMs: options.pendingGraceMs }),
+    ...(options.amountToleranceBps !== undefined && { amountToleranceBps: options.amountToleranceBps }),
+    ...(options.matchWindowMs !== undefined && { matchWindowMs: options.matchWindowMs }),
+    now: options.now ?? new Date()
+  };
+
+  const eventsByWallet = new Map<string, VaultLogEvent[]>();
+  for (const event of await getVaultEvents(fromBlock, toBlock, provider)) {
+    eventsByWallet.set(event.walletAddress, [...(eventsByWallet.get(event.walletAddress) || []), event]);
+  }
+
+  const users = await prisma.user.findMany({
+    where: { walletAddress: { not: null } },
+    select: { id: true, walletAddress: true, currency: true, totalSavedMinor: true }
+  });
+
+  const report: VaultReconciliationReport = {
+    fromBlock,
+    toBlock,
+    wallets: [],
+    unknownWallets: [],
+    issueCount: 0,
+    repairCount: 0
+  };
+
+  for (const user of users) {
+    const walletAddress = user.walletAddress!.toLowerCase();
+    const events = eventsByWallet.get(walletAddress) || [];
+    eventsByWallet.delete(walletAddress);
+
+    const rows = await prisma.savingsTransaction.findMany({
+      where: {
+        userId: user.id,
+        type: { in: VAULT_TRANSACTION_TYPES },
+        OR: [
+          { status: { in: [TransactionStatus.PENDING, TransactionStatus.PROCESSING, TransactionStatus.CONFIRMED] } },
+          { blockchainTxHash: { in: events.map(event => event.txHash) } }
+        ]
+      }
+    });
+
+    const ledger = await Promise.all(rows.map(toLedgerEntry));
+    const result = reconcileWallet(events, ledger, rules);
+    const totalSavedDriftMinor = user.totalSavedMinor - await getLedgerTotalSavedMinor(user.id, user.currency);
+
+    const repairs = options.repair
+      ? await repairWallet(user, result.issues, totalSavedDriftMinor)
+      : [];
+
+    report.issueCount += result.issues.length + (totalSavedDriftMinor !== 0 ? 1 : 0);
+    report.repairCount += repairs.length;
+
+    if (result.issues.length > 0 || result.driftWei !== BigInt(0) || totalSavedDriftMinor !== 0) {
+      report.wallets.push({
+        ...result,
+        userId: user.id,
+        walletAddress,
+        currency: user.currency,
+        totalSavedDriftMinor,
+        repairs
+      });
+    }
+  }
+
+  report.unknownWallets = [...eventsByWallet.keys()];
+  return report;
+}
+
+/**
+ * Describe an issue for reports and logs
+ */
+export function describeReconciliationIssue(issue: ReconciliationIssue): string {
+  switch (issue.type) {
+    case 'MISSING_TRANSACTION':
+      return `${issue.event.flow} ${issue.event.txHash} of ${ethers.formatEther(issue.event.amountWei)} is not in the ledger`;
+    case 'MISSING_HASH':
+      return issue.event
+        ? `Transaction ${issue.transactionId} has no hash but matches ${issue.event.txHash}`
+        : `Transaction ${issue.transactionId} is confirmed without a hash`;
+    case 'AMBIGUOUS_MATCH':
+      return `Transaction ${issue.transactionId} has no hash and could be any of ${
+        issue.events.map(event => event.txHash).join(', ')
+      }`;
+    case 'UNKNOWN_HASH':
+      return `Transaction ${issue.transactionId} is confirmed but ${issue.txHash} is not a vault transfer`;
+    case 'UNCONFIRMED':
+      return `Transaction ${issue.transactionId} is on chain in ${issue.event.txHash} but not confirmed`;
+    case 'AMOUNT_MISMATCH':
+      return `Transaction ${issue.transactionId} recorded ${
+        issue.recordedWei === null ? 'no amount' : ethers.formatEther(issue.recordedWei)
+      } but moved ${ethers.formatEther(issue.event.amountWei)}`;
+    case 'ORPHAN_PENDING':
+      return `Transaction ${issue.transactionId} has been pending since before the grace period${
+        issue.txHash ? ` with ${issue.txHash}` : ' without a hash'
+      }`;
+  }
+}
+
+/**
+ * Bring one wallet's ledger in line with the chain. Confirming transactions
+ * also refreshes the user's total saved and goal allocations.
+ */
+async function repairWallet(
+  user: { id: string; currency: string },
+  issues: ReconciliationIssue[],
+  totalSavedDriftMinor: number
+): Promise<string[]> {
+  const repairs: string[] = [];
+
+  const orphanHashes = issues
+    .filter((issue): issue is Extract<ReconciliationIssue, { type: 'ORPHAN_PENDING' }> => issue.type === 'ORPHAN_PENDING')
+    .map(issue => issue.txHash)
+    .filter((txHash): txHash is string => !!txHash);
+  const receipts = orphanHashes.length > 0
+    ? await batchCheckTransactionConfirmations(orphanHashes)
+    : new Map<string, { isConfirmed: boolean; confirmations: number; status: string }>();
+
+  for (const issue of issues) {
+    switch (issue.type) {
+      case 'UNCONFIRMED':
+        await updateTransactionStatus(issue.transactionId, TransactionStatus.CONFIRMED);
+        repairs.push(`Confirmed ${issue.transactionId}`);
+        break;
+
+      case 'AMOUNT_MISMATCH':
+        await recordVaultAmount(issue.transactionId, issue.event.amountWei);
+        repairs.push(`Recorded the on-chain amount of ${issue.transactionId}`);
+        break;
+
+      case 'MISSING_HASH':
+        if (issue.event) {
+          await recordVaultAmount(issue.transactionId, issue.event.amountWei);
+          await updateTransactionStatus(issue.transactionId, TransactionStatus.CONFIRMED, issue.event.txHash);
+          repairs.push(`Linked ${issue.transactionId} to ${issue.event.txHash}`);
+        }
+        break;
+
+      case 'MISSING_TRANSACTION': {
+        const transaction = await createSavingsTransaction({
+          userId: user.id,
+          type: issue.event.flow === 'DEPOSIT' ? TransactionType.DEPOSIT : TransactionType.WITHDRAWAL,
+          amount: await fromVaultAmount(issue.event.amountWei, user.currency),
+          blockchainTxHash: issue.event.txHash,
+          vaultAmountWei: issue.event.amountWei,
+          status: TransactionStatus.CONFIRMED
+        });
+        repairs.push(`Recorded ${issue.event.txHash} as ${transaction.id}`);
+        break;
+      }
+
+      case 'ORPHAN_PENDING': {
+        // A sent transaction is only failed once it reverted; a missing receipt may be an RPC error
+        const receipt = issue.txHash ? receipts.get(issue.txHash) : undefined;
+        if (!issue.txHash || receipt?.status === 'failed') {
+          await updateTransactionStatus(issue.transactionId, TransactionStatus.FAILED);
+          repairs.push(`Failed orphaned ${issue.transactionId}`);
+        }
+        break;
+      }
+
+      case 'UNKNOWN_HASH':
+      case 'AMBIGUOUS_MATCH':
+        // Needs a person to look at it
+        break;
+    }
+  }
+
+  if (totalSavedDriftMinor !== 0 || repairs.length > 0) {
+    await updateUserTotalSaved(user.id);
+    if (totalSavedDriftMinor !== 0) {
+      repairs.push('Recalculated total saved');
+    }
+  }
+
+  return repairs;
+}
+
+async function toLedgerEntry(transaction: SavingsTransaction): Promise<LedgerEntry> {
+  return {
+    id: transaction.id,
+    flow: transaction.type === TransactionType.WITHDRAWAL ? 'WITHDRAWAL' : 'DEPOSIT',
+    status: transaction.status,
+    txHash: transaction.blockchainTxHash,
+    recordedWei: transaction.vaultAmountWei !== null ? BigInt(transaction.vaultAmountWei) : null,
+    estimatedWei: await toVaultAmount(
+      { minor: transaction.amountMinor, currency: transaction.currency },
+      transaction.fxRate
+    ),
+    createdAt: transaction.createdAt,
+    executeAfter: transaction.executeAfter
+  };
+}
+
+async function recordVaultAmount(transactionId: string, amountWei: bigint): Promise<void> {
+  await prisma.savingsTransaction.update({
+    where: { id: transactionId },
+    data: { vaultAmountWei: amountWei.toString() }
+  });
+}
+
+/**
+ * What User.totalSaved should be, in minor units of the user's currency
+ */
+async function getLedgerTotalSavedMinor(userId: string, currency: string): Promise<number> {
+  const [display, groups] = await Promise.all([
+    getDisplayRate(currency),
+    sumByCurrency({
+      userId,
+      status: TransactionStatus.CONFIRMED,
+      type: { in: SAVINGS_TRANSACTION_TYPES }
+    })
+  ]);
+
+  return sumInDisplayCurrency(groups, display).minor;
+}
@@ -0,0 +1,365 @@
+import { prisma } from './prisma';
+import { SavingsTransaction, TransactionStatus, TransactionType } from '@prisma/client';
+import {
+  WithdrawalDecision,
+  checkWithdrawal,
+  getCoolingOffEnd,
+  getWithdrawalDayStart,
+  resolveDailyWithdrawalLimit
+} from '../savings/withdrawalPolicy';
+import { SAVINGS_LIMITS } from '../utils/constants';
+import { fromMinorUnits, money, toMinorUnits } from '../utils/money';
+import { sumInDisplayCurrency } from '../fx/conversion';
+import { getDisplayRate, getFxSnapshot } from '../fx/providers';
+import {
+  encodeWithdraw,
+  getSavingsVaultAddress,
+  getVaultBalance,
+  isSavingsVaultConfigured,
+  toVaultAmount
+} from '../blockchain/savingsVault';
+import { checkTransactionConfirmation } from '../blockchain/transactionTracker';
+import { sendTransaction } from '../web3/walletManager';
+import { getUserSavingsSummary, updateTransactionStatus } from './savings';
+import { sumByCurrency } from './savingsLedger';
+import { createSecurityNotification } from './notifications';
+import { verifyTwoFactorCode } from './twoFactor';
+
+// Longest a withdrawal request can hold the user's lock, should it never release it
+const REQUEST_LOCK_MS = 60 * 1000;
+
+// Withdrawals that count against the balance and today's limits
+const COMMITTED_STATUSES = [TransactionStatus.PENDING, TransactionStatus.PROCESSING, TransactionStatus.CONFIRMED];
+
+export interface WithdrawalRequest {
+  userId: string;
+  amount: number; // Major units of the user's currency
+  twoFactorCode?: string;
+}
+
+export interface WithdrawalResult {
+  outcome: 'SUBMITTED' | 'SCHEDULED' | 'REJECTED';
+  decision: WithdrawalDecision;
+  transaction: SavingsTransaction | null;
+}
+
+export interface WithdrawalStatus {
+  currency: string;
+  availableBalance: number;
+  pendingWithdrawals: number;
+  dailyLimit: number;
+  withdrawnToday: number;
+  remainingToday: number;
+  withdrawalsToday: number;
+  maxWithdrawalsPerDay: number;
+  largeWithdrawalThreshold: number;
+  coolingOffHours: number | null;
+  twoFactorEnabled: boolean;
+}
+
+export interface WithdrawalProcessingResult {
+  processed: number;
+  submitted: number;
+  failed: number;
+}
+
+/**
+ * Get a user's available balance and withdrawal limits for today
+ */
+export async function getWithdrawalStatus(
+  userId: string,
+  now: Date = new Date()
+): Promise<WithdrawalStatus> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      currency: true,
+      timezone: true,
+      dailyWithdrawalLimitMinor: true,
+      withdrawalCoolingOffHours: true,
+      twoFactorEnabled: true
+    }
+  });
+
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  const dayStart = getWithdrawalDayStart(now, user.timezone);
+  const display = await getDisplayRate(user.currency);
+  const sumWithdrawals = (status: TransactionStatus[], since?: Date) =>
+    sumByCurrency({
+      userId,
+      type: TransactionType.WITHDRAWAL,
+      status: { in: status },
+      ...(since && { createdAt: { gte: since } })
+    }).then(groups => sumInDisplayCurrency(groups, display).minor);
+
+  const [summary, pendingMinor, withdrawnTodayMinor, withdrawalsToday] = await Promise.all([
+    getUserSavingsSummary(userId),
+    sumWithdrawals([TransactionStatus.PENDING, TransactionStatus.PROCESSING]),
+    sumWithdrawals(COMMITTED_STATUSES, dayStart),
+    prisma.savingsTransaction.count({
+      where: {
+        userId,
+        type: TransactionType.WITHDRAWAL,
+        status: { in: COMMITTED_STATUSES },
+        createdAt: { gte: dayStart }
+      }
+    })
+  ]);
+
+  // Withdrawals still pending are already committed, so they can't be spent twice
+  const availableMinor = Math.max(0, toMinorUnits(summary.currentBalance, user.currency) - pendingMinor);
+  const dailyLimitMinor = resolveDailyWithdrawalLimit(user, user.currency);
+  const toMajor = (minor: number) => fromMinorUnits(minor, user.currency);
+
+  return {
+    currency: user.currency,
+    availableBalance: toMajor(availableMinor),
+    pendingWithdrawals: toMajor(pendingMinor),
+    dailyLimit: toMajor(dailyLimitMinor),
+    withdrawnToday: toMajor(withdrawnTodayMinor),
+    remainingToday: toMajor(Math.max(0, dailyLimitMinor - withdrawnTodayMinor)),
+    withdrawalsToday,
+    maxWithdrawalsPerDay: SAVINGS_LIMITS.MAX_DAILY_WITHDRAWALS,
+    largeWithdrawalThreshold: SAVINGS_LIMITS.LARGE_WITHDRAWAL,
+    coolingOffHours: user.withdrawalCoolingOffHours,
+    twoFactorEnabled: user.twoFactorEnabled
+  };
+}
+
+/**
+ * Request a withdrawal. It is sent on chain straight away, or once the user's
+ * cooling-off period has passed. Large withdrawals need a two-factor code.
+ */
+export async function requestWithdrawal(
+  request: WithdrawalRequest,
+  now: Date = new Date()
+): Promise<WithdrawalResult> {
+  if (!request.amount || request.amount <= 0) {
+    throw new Error('Amount must be greater than 0');
+  }
+
+  if (!isSavingsVaultConfigured()) {
+    throw new Error('Withdrawals are not available');
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: request.userId },
+    select: {
+      currency: true,
+      walletAddress: true,
+      twoFactorEnabled: true,
+      twoFactorSecretEncrypted: true,
+      withdrawalCoolingOffHours: true
+    }
+  });
+
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  if (!user.walletAddress) {
+    throw new Error('Connect a wallet before withdrawing');
+  }
+
+  // Hold the user's lock from the balance and limit checks until the
+  // withdrawal is recorded, so concurrent requests can't both pass them
+  const locked = await prisma.user.updateMany({
+    where: {
+      id: request.userId,
+      OR: [{ withdrawalLockedUntil: null }, { withdrawalLockedUntil: { lt: now } }]
+    },
+    data: { withdrawalLockedUntil: new Date(now.getTime() + REQUEST_LOCK_MS) }
+  });
+
+  if (locked.count === 0) {
+    throw new Error('Another withdrawal is being requested');
+  }
+
+  const amount = money(request.amount, user.currency);
+  let decision: WithdrawalDecision;
+  let executeAfter: Date | null = null;
+  let transaction: SavingsTransaction | null = null;
+
+  try {
+    const status = await getWithdrawalStatus(request.userId, now);
+    const largeWithdrawalMinor = toMinorUnits(status.largeWithdrawalThreshold, user.currency);
+
+    // Codes can only be used once, so only spend one when it's needed
+    const twoFactorVerified = amount.minor >= largeWithdrawalMinor && !!request.twoFactorCode &&
+      await verifyTwoFactorCode(request.userId, request.twoFactorCode, now);
+
+    decision = checkWithdrawal({
+      amountMinor: amount.minor,
+      availableMinor: toMinorUnits(status.availableBalance, user.currency),
+      withdrawnTodayMinor: toMinorUnits(status.withdrawnToday, user.currency),
+      withdrawalsToday: status.withdrawalsToday,
+      dailyLimitMinor: toMinorUnits(status.dailyLimit, user.currency),
+      largeWithdrawalMinor,
+      twoFactorEnabled: user.twoFactorEnabled && !!user.twoFactorSecretEncrypted,
+      twoFactorVerified
+    });
+
+    if (decision.allowed) {
+      executeAfter = getCoolingOffEnd(now, user);
+      transaction = await prisma.savingsTransaction.create({
+        data: {
+          userId: request.userId,
+          type: TransactionType.WITHDRAWAL,
+          amountMinor: amount.minor,
+          currency: amount.currency,
+          ...(await getFxSnapshot(amount.currency)),
+          status: TransactionStatus.PENDING,
+          executeAfter
+        }
+      });
+    }
+  } finally {
+    await prisma.user.update({
+      where: { id: request.userId },
+      data: { withdrawalLockedUntil: null }
+    });
+  }
+
+  if (!transaction) {
+    if (!decision.allowed && decision.reason === 'TWO_FACTOR_REQUIRED' && request.twoFactorCode) {
+      throw new Error('Invalid two-factor code');
+    }
+    return { outcome: 'REJECTED', decision, transaction: null };
+  }
+
+  await createSecurityNotification(request.userId, 'withdrawal_requested', {
+    transactionId: transaction.id,
+    amount: request.amount,
+    currency: amount.currency,
+    executeAfter
+  });
+
+  if (executeAfter) {
+    return { outcome: 'SCHEDULED', decision, transaction };
+  }
+
+  return { outcome: 'SUBMITTED', decision, transaction: await executeWithdrawal(transaction) };
+}
+
+/**
+ * Cancel a withdrawal that is still in its cooling-off period
+ */
+export async function cancelWithdrawal(userId: string, transactionId: string): Promise<SavingsTransaction> {
+  const result = await prisma.savingsTransaction.updateMany({
+    where: {
+      id: transactionId,
+      userId,
+      type: TransactionType.WITHDRAWAL,
+      status: TransactionStatus.PENDING,
+      blockchainTxHash: null
+    },
+    data: { status: TransactionStatus.CANCELLED }
+  });
+
+  if (result.count === 0) {
+    throw new Error('Withdrawal not found or already sent');
+  }
+
+  return (await prisma.savingsTransaction.findUnique({ where: { id: transactionId } }))!;
+}
+
+/**
+ * Send a pending withdrawal to the SavingsVault from the user's wallet, then
+ * record the hash. The withdrawal is claimed as PROCESSING first so it is only
+ * sent once. The transaction tracker confirms it once it has enough
+ * confirmations; if it already has, it is confirmed here.
+ */
+export async function executeWithdrawal(transaction: SavingsTransaction): Promise<SavingsTransaction> {
+  const claimed = await prisma.savingsTransaction.updateMany({
+    where: { id: transaction.id, status: TransactionStatus.PENDING, blockchainTxHash: null },
+    data: { status: TransactionStatus.PROCESSING }
+  });
+
+  // Cancelled, or already being sent by another run
+  if (claimed.count === 0) {
+    return (await prisma.savingsTransaction.findUnique({ where: { id: transaction.id } }))!;
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: transaction.userId },
+    select: { walletAddress: true }
+  });
+
+  let sentHash: string | null = null;
+
+  try {
+    const amountWei = await toVaultAmount({ minor: transaction.amountMinor, currency: transaction.currency });
+
+    if (!user?.walletAddress || await getVaultBalance(user.walletAddress) < amountWei) {
+      throw new Error('Insufficient vault balance');
+    }
+
+    const sent = await sendTransaction(transaction.userId, {
+      to: getSavingsVaultAddress(),
+      data: encodeWithdraw(amountWei)
+    });
+
+    if (!sent) {
+      throw new Error('Withdrawal transaction was not sent');
+    }
+
+    sentHash = sent.hash;
+    const updated = await prisma.savingsTransaction.update({
+      where: { id: transaction.id },
+      data: {
+        status: TransactionStatus.PENDING,
+        blockchainTxHash: sent.hash,
+        vaultAmountWei: amountWei.toString()
+      }
+    });
+
+    const confirmation = await checkTransactionConfirmation(sent.hash);
+    if (confirmation.isConfirmed) {
+      return updateTransactionStatus(
+        transaction.id,
+        confirmation.status === 'success' ? TransactionStatus.CONFIRMED : TransactionStatus.FAILED
+      );
+    }
+
+    return updated;
+  } catch (error) {
+    console.error(`Failed to execute withdrawal ${transaction.id}:`, error);
+
+    // Once sent, the transaction tracker decides how it ended
+    return sentHash
+      ? updateTransactionStatus(transaction.id, TransactionStatus.PENDING, sentHash)
+      : updateTransactionStatus(transaction.id, TransactionStatus.FAILED);
+  }
+}
+
+/**
+ * Send withdrawals whose cooling-off period has ended
+ */
+export async function processDueWithdrawals(now: Date = new Date()): Promise<WithdrawalProcessingResult> {
+  const due = await prisma.savingsTransaction.findMany({
+    where: {
+      type: TransactionType.WITHDRAWAL,
+      status: TransactionStatus.PENDING,
+      blockchainTxHash: null,
+      executeAfter: { lte: now }
+    },
+    orderBy: { executeAfter: 'asc' },
+    take: 50 // Process in batches
+  });
+
+  const result: WithdrawalProcessingResult = { processed: due.length, submitted: 0, failed: 0 };
+
+  for (const transaction of due) {
+    const updated = await executeWithdrawal(transaction);
+    if (updated.status === TransactionStatus.FAILED) {
+      result.failed++;
+    } else if (updated.blockchainTxHash) {
+      result.submitted++;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,62 @@
+import { Money, fromMinorUnits, getCurrencyExponent, moneyFromMinor } from '../utils/money';
+
+// Currency every transaction's rate snapshot is quoted against
+export const FX_BASE_CURRENCY = 'USD';
+
+export interface FxSnapshot {
+  fxRate: number; // Units of FX_BASE_CURRENCY per unit of the transaction currency
+  fxRateSource: string | null; // null when no conversion was needed
+  fxRateAt: Date;
+}
+
+export interface DisplayRate {
+  currency: string;
+  rate: number; // Units of `currency` per unit of FX_BASE_CURRENCY
+}
+
+// An amount as stored in the ledger, with the rate captured when it was recorded
+export interface LedgerAmount {
+  minor: number;
+  currency: string;
+  fxRate: number;
+}
+
+export const BASE_DISPLAY_RATE: DisplayRate = { currency: FX_BASE_CURRENCY, rate: 1 };
+
+/**
+ * Convert a ledger amount to minor units of the display currency, unrounded so
+ * that sums are only rounded once. Amounts already in the display currency are
+ * never converted. Others go through the base currency using the rate captured
+ * when they were recorded, then the current display rate.
+ */
+export function toDisplayMinor(amount: LedgerAmount, display: DisplayRate): number {
+  if (amount.currency === display.currency) {
+    return amount.minor;
+  }
+
+  const base = fromMinorUnits(amount.minor, amount.currency) * amount.fxRate;
+  return base * display.rate * Math.pow(10, getCurrencyExponent(display.currency));
+}
+
+/**
+ * Sum ledger amounts in a display currency
+ */
+export function sumInDisplayCurrency(amounts: LedgerAmount[], display: DisplayRate): Money {
+  const total = amounts.reduce((sum, amount) => sum + toDisplayMinor(amount, display), 0);
+  return moneyFromMinor(roundMinor(total), display.currency);
+}
+
+/**
+ * Convert a total kept in minor units of the base currency to major units of the display currency
+ */
+export function fromBaseMinor(baseMinor: number, display: DisplayRate): number {
+  const minor = toDisplayMinor({ minor: baseMinor, currency: FX_BASE_CURRENCY, fxRate: 1 }, display);
+  return fromMinorUnits(roundMinor(minor), display.currency);
+}
+
+/**
+ * Round an unrounded minor-unit total to a whole minor unit, half away from zero
+ */
+export function roundMinor(minor: number): number {
+  return Math.sign(minor) * Math.round(Math.abs(minor));
+}
@@ -0,0 +1,130 @@
+import { DisplayRate, FX_BASE_CURRENCY, FxSnapshot } from './conversion';
+
+export interface FxRate {
+  from: string;
+  to: string;
+  rate: number; // Units of `to` per unit of `from`
+  source: string;
+  asOf: Date;
+}
+
+/**
+ * Source of exchange rates. Implementations are registered by name and
+ * selected with the FX_RATE_PROVIDER environment variable.
+ */
+export interface FxRateProvider {
+  readonly name: string;
+  getRate(from: string, to: string): Promise<FxRate>;
+  supports(currency: string): boolean;
+}
+
+// Units of each currency per US dollar, used for local development and tests
+export const FIXTURE_RATES: Record<string, number> = {
+  USD: 1,
+  EUR: 0.92,
+  GBP: 0.79,
+  CAD: 1.36,
+  AUD: 1.52,
+  JPY: 150,
+  CHF: 0.88,
+  INR: 83.2,
+  MXN: 17.1,
+  BRL: 4.95,
+  KRW: 1330,
+  SGD: 1.34
+};
+
+/**
+ * Static rates that never change. Cross rates are derived through USD.
+ */
+export class FixtureFxRateProvider implements FxRateProvider {
+  readonly name = 'fixture';
+
+  constructor(
+    private readonly ratesPerUsd: Record<string, number> = FIXTURE_RATES,
+    private readonly asOf: Date = new Date()
+  ) {}
+
+  async getRate(from: string, to: string): Promise<FxRate> {
+    const fromRate = this.ratesPerUsd[from.toUpperCase()];
+    const toRate = this.ratesPerUsd[to.toUpperCase()];
+
+    if (!fromRate || !toRate) {
+      throw new Error(`No FX rate for ${from} to ${to}`);
+    }
+
+    return {
+      from: from.toUpperCase(),
+      to: to.toUpperCase(),
+      rate: toRate / fromRate,
+      source: this.name,
+      asOf: this.asOf
+    };
+  }
+
+  supports(currency: string): boolean {
+    return currency.toUpperCase() in this.ratesPerUsd;
+  }
+}
+
+const providerFactories: Record<string, () => FxRateProvider> = {
+  fixture: () => new FixtureFxRateProvider()
+};
+
+let activeProvider: FxRateProvider | null = null;
+
+/**
+ * Register an FX rate provider so it can be selected with FX_RATE_PROVIDER
+ */
+export function registerFxRateProvider(name: string, factory: () => FxRateProvider): void {
+  providerFactories[name] = factory;
+}
+
+/**
+ * Get the configured FX rate provider
+ */
+export function getFxRateProvider(): FxRateProvider {
+  if (!activeProvider) {
+    const name = process.env.FX_RATE_PROVIDER || 'fixture';
+    const factory = providerFactories[name];
+
+    if (!factory) {
+      throw new Error(`Unknown FX rate provider: ${name}`);
+    }
+
+    activeProvider = factory();
+  }
+
+  return activeProvider;
+}
+
+/**
+ * Override the FX rate provider, or pass null to go back to the configured one
+ */
+export function setFxRateProvider(provider: FxRateProvider | null): void {
+  activeProvider = provider;
+}
+
+/**
+ * Rate to store on a new transaction in `currency`
+ */
+export async function getFxSnapshot(currency: string, now: Date = new Date()): Promise<FxSnapshot> {
+  if (currency.toUpperCase() === FX_BASE_CURRENCY) {
+    return { fxRate: 1, fxRateSource: null, fxRateAt: now };
+  }
+
+  const rate = await getFxRateProvider().getRate(currency, FX_BASE_CURRENCY);
+  return { fxRate: rate.rate, fxRateSource: rate.source, fxRateAt: rate.asOf };
+}
+
+/**
+ * Current rate for reporting amounts in a display currency
+ */
+export async function getDisplayRate(currency: string): Promise<DisplayRate> {
+  if (currency.toUpperCase() === FX_BASE_CURRENCY) {
+    return { currency: FX_BASE_CURRENCY, rate: 1 };
+  }
+
+  const rate = await getFxRateProvider().getRate(FX_BASE_CURRENCY, currency);
+  return { currency: rate.to, rate: rate.rate };
+}
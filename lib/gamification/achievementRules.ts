@@ -0,0 +1,228 @@
+import { prisma } from '../db/prisma';
+import { DEFAULT_CURRENCY, fromMinorUnits } from '../utils/money';
+
+export type AchievementMetric =
+  | 'totalSaved'
+  | 'longestStreak'
+  | 'currentStreak'
+  | 'challengesWon'
+  | 'referrals'
+  | 'roundUpCount'
+  | 'signupRank';
+
+export type AchievementComparator = 'gte' | 'gt' | 'lte' | 'lt' | 'eq';
+
+export interface AchievementCriteria {
+  metric: AchievementMetric;
+  comparator: AchievementComparator;
+  threshold: number;
+  window?: {
+    days: number; // Only count activity from the last N days
+  };
+}
+
+export interface CriteriaEvaluation {
+  met: boolean;
+  value: number;
+  progress: number;
+  maxProgress: number;
+}
+
+export type MetricResolver = (
+  metric: AchievementMetric,
+  window?: AchievementCriteria['window']
+) => Promise<number>;
+
+export const ACHIEVEMENT_METRICS: AchievementMetric[] = [
+  'totalSaved',
+  'longestStreak',
+  'currentStreak',
+  'challengesWon',
+  'referrals',
+  'roundUpCount',
+  'signupRank'
+];
+
+const COMPARATORS: AchievementComparator[] = ['gte', 'gt', 'lte', 'lt', 'eq'];
+
+// Metrics that describe a point-in-time state and ignore any time window
+const WINDOWLESS_METRICS: AchievementMetric[] = ['longestStreak', 'currentStreak', 'signupRank'];
+
+const SAVINGS_TYPES = ['ROUNDUP', 'MANUAL', 'DEPOSIT', 'RULE'] as const;
+
+/**
+ * Parse a stored criteria definition, returning null if it is missing or malformed
+ */
+export function parseAchievementCriteria(raw: unknown): AchievementCriteria | null {
+  if (!raw || typeof raw !== 'object') return null;
+
+  const { metric, comparator, threshold, window } = raw as {
+    metric?: AchievementMetric;
+    comparator?: AchievementComparator;
+    threshold?: unknown;
+    window?: { days?: unknown } | null;
+  };
+
+  if (!metric || !ACHIEVEMENT_METRICS.includes(metric)) return null;
+  if (!comparator || !COMPARATORS.includes(comparator)) return null;
+  if (typeof threshold !== 'number' || !Number.isFinite(threshold)) return null;
+
+  if (window !== undefined && window !== null) {
+    const days = typeof window === 'object' ? window.days : undefined;
+    if (typeof days !== 'number' || !Number.isInteger(days) || days <= 0) {
+      return null;
+    }
+    return { metric, comparator, threshold, window: { days } };
+  }
+
+  return { metric, comparator, threshold };
+}
+
+/**
+ * Compare a metric value against the criteria and derive progress values
+ */
+export function evaluateCriteria(criteria: AchievementCriteria, value: number): CriteriaEvaluation {
+  const { comparator, threshold } = criteria;
+
+  const met = {
+    gte: value >= threshold,
+    gt: value > threshold,
+    lte: value <= threshold,
+    lt: value < threshold,
+    eq: value === threshold
+  }[comparator];
+
+  // Upper-bound comparators ("join in the first 1000 users") have no meaningful
+  // partial progress, so they are reported as a single step
+  if (comparator === 'lte' || comparator === 'lt' || comparator === 'eq') {
+    return { met, value, progress: met ? 1 : 0, maxProgress: 1 };
+  }
+
+  const maxProgress = comparator === 'gt' ? threshold + 1 : threshold;
+
+  return {
+    met,
+    value,
+    progress: Math.max(0, Math.min(value, maxProgress)),
+    maxProgress
+  };
+}
+
+/**
+ * Create a metric resolver for a user that caches each metric/window lookup
+ */
+export function createMetricResolver(userId: string): MetricResolver {
+  const cache = new Map<string, Promise<number>>();
+
+  return (metric, window) => {
+    const days = window && !WINDOWLESS_METRICS.includes(metric) ? window.days : undefined;
+    const key = `${metric}:${days ?? 'all'}`;
+
+    if (!cache.has(key)) {
+      cache.set(key, resolveMetric(userId, metric, days));
+    }
+
+    return cache.get(key)!;
+  };
+}
+
+/**
+ * Evaluate criteria for a user using the given resolver
+ */
+export async function evaluateAchievementCriteria(
+  criteria: AchievementCriteria,
+  resolve: MetricResolver
+): Promise<CriteriaEvaluation> {
+  const value = await resolve(criteria.metric, criteria.window);
+  return evaluateCriteria(criteria, value);
+}
+
+/**
+ * Load the current value of a metric for a user
+ */
+async function resolveMetric(
+  userId: string,
+  metric: AchievementMetric,
+  windowDays?: number
+): Promise<number> {
+  const since = windowDays
+    ? new Date(Date.now() - windowDays * 24 * 60 * 60 * 1000)
+    : undefined;
+
+  switch (metric) {
+    case 'totalSaved': {
+      // Thresholds are in major units of the user's currency
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { currency: true }
+      });
+      const currency = user?.currency || DEFAULT_CURRENCY;
+
+      const result = await prisma.savingsTransaction.aggregate({
+        where: {
+          userId,
+          currency,
+          status: 'CONFIRMED',
+          type: { in: [...SAVINGS_TYPES] },
+          ...(since && { createdAt: { gte: since } })
+        },
+        _sum: { amountMinor: true }
+      });
+      return fromMinorUnits(result._sum.amountMinor || 0, currency);
+    }
+
+    case 'roundUpCount':
+      return prisma.savingsTransaction.count({
+        where: {
+          userId,
+          status: 'CONFIRMED',
+          type: 'ROUNDUP',
+          ...(since && { createdAt: { gte: since } })
+        }
+      });
+
+    case 'challengesWon':
+      return prisma.challengeParticipant.count({
+        where: {
+          userId,
+          rank: 1,
+          challenge: {
+            status: 'COMPLETED',
+            ...(since && { endDate: { gte: since } })
+          }
+        }
+      });
+
+    case 'longestStreak':
+    case 'currentStreak': {
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { longestStreak: true, currentStreak: true }
+      });
+      return user ? user[metric] : 0;
+    }
+
+    case 'signupRank': {
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { createdAt: true }
+      });
+      if (!user) return Number.MAX_SAFE_INTEGER;
+      return prisma.user.count({
+        where: { createdAt: { lte: user.createdAt } }
+      });
+    }
+
+    case 'referrals':
+      return prisma.referral.count({
+        where: {
+          referrerId: userId,
+          status: 'SIGNED_UP',
+          ...(since && { convertedAt: { gte: since } })
+        }
+      });
+
+    default:
+      return 0;
+  }
+}
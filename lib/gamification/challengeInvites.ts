@@ -0,0 +1,70 @@
+export type ChallengeInviteState = 'PENDING' | 'ACCEPTED' | 'DECLINED' | 'EXPIRED';
+
+export interface InviteSnapshot {
+  status: ChallengeInviteState;
+  expiresAt: Date;
+}
+
+export interface JoinLinkSnapshot extends InviteSnapshot {
+  uses: number;
+  maxUses: number | null;
+}
+
+export const CHALLENGE_INVITE_LIMITS = {
+  INVITE_EXPIRY_DAYS: 7,
+  LINK_EXPIRY_DAYS: 30,
+  MAX_LINK_USES: 100,
+  MAX_INVITEES: 50 // Per request
+} as const;
+
+/**
+ * The status an invite is in now. Pending invites past their expiry count as
+ * expired before the row catches up.
+ */
+export function getInviteStatus(invite: InviteSnapshot, now: Date = new Date()): ChallengeInviteState {
+  return invite.status === 'PENDING' && invite.expiresAt <= now ? 'EXPIRED' : invite.status;
+}
+
+/**
+ * Check a join link can still be used, returning an error message or null
+ */
+export function checkJoinLink(link: JoinLinkSnapshot, now: Date = new Date()): string | null {
+  const status = getInviteStatus(link, now);
+
+  if (status === 'EXPIRED') {
+    return 'Invite link has expired';
+  }
+
+  if (status !== 'PENDING') {
+    return 'Invite link is no longer valid';
+  }
+
+  if (link.maxUses !== null && link.uses >= link.maxUses) {
+    return 'Invite link has been used up';
+  }
+
+  return null;
+}
+
+/**
+ * Validate the options for a new join link, returning an error message or null
+ */
+export function validateJoinLinkOptions(options: { expiresInDays?: number; maxUses?: number | null }): string | null {
+  const { expiresInDays, maxUses } = options;
+
+  if (
+    expiresInDays !== undefined &&
+    (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > CHALLENGE_INVITE_LIMITS.LINK_EXPIRY_DAYS)
+  ) {
+    return `Links can last 1-${CHALLENGE_INVITE_LIMITS.LINK_EXPIRY_DAYS} days`;
+  }
+
+  if (
+    maxUses !== undefined && maxUses !== null &&
+    (!Number.isInteger(maxUses) || maxUses < 1 || maxUses > CHALLENGE_INVITE_LIMITS.MAX_LINK_USES)
+  ) {
+    return `Links can be used 1-${CHALLENGE_INVITE_LIMITS.MAX_LINK_USES} times`;
+  }
+
+  return null;
+}
@@ -0,0 +1,172 @@
+import type { ChallengeProgressType } from './challengeProgress';
+
+export type ChallengeRewardTierType = 'WINNER' | 'PODIUM' | 'TOP_QUARTER' | 'FINISHER';
+
+export interface MilestoneDefinition {
+  percent: number; // Share of the target amount, 1-100
+  points: number;
+}
+
+export interface RewardStanding {
+  id: string;
+  progress: number;
+}
+
+export interface RankReward {
+  id: string;
+  position: number; // Participants tied on progress share a position
+  tier: ChallengeRewardTierType;
+  points: number;
+}
+
+export const MILESTONE_LIMITS = {
+  MAX_MILESTONES: 10,
+  TARGET_POINTS: 100, // For reaching the whole target, shared out by milestone percent
+  MIN_RANKED_PARTICIPANTS: 3 // Participants with progress before rank rewards are paid
+} as const;
+
+// Smallest target milestones are paid for, by challenge type: dollars saved,
+// days of streak or friends added
+export const MIN_MILESTONE_TARGETS: Record<ChallengeProgressType, number> = {
+  SAVINGS_AMOUNT: 50,
+  STREAK: 3,
+  SOCIAL: 3
+};
+
+export const DEFAULT_MILESTONE_PERCENTS = [25, 50, 75, 100];
+
+// Final reward per tier, best first. A participant gets the best tier they qualify for.
+export const RANK_TIER_REWARDS: Array<{ tier: ChallengeRewardTierType; points: number }> = [
+  { tier: 'WINNER', points: 500 },
+  { tier: 'PODIUM', points: 250 },
+  { tier: 'TOP_QUARTER', points: 100 },
+  { tier: 'FINISHER', points: 25 }
+];
+
+/**
+ * Validate the milestone percents asked for on a challenge, returning an
+ * error message or null
+ */
+export function validateMilestones(
+  percents: number[],
+  type: string,
+  targetAmount: number | null | undefined
+): string | null {
+  if (!Array.isArray(percents) || percents.length > MILESTONE_LIMITS.MAX_MILESTONES) {
+    return `A challenge can have at most ${MILESTONE_LIMITS.MAX_MILESTONES} milestones`;
+  }
+
+  if (!targetAmount) {
+    return 'Milestones need a target amount';
+  }
+
+  const minTarget = MIN_MILESTONE_TARGETS[type as ChallengeProgressType] ?? 0;
+  if (targetAmount < minTarget) {
+    return `Milestones need a target of at least ${minTarget}`;
+  }
+
+  for (let i = 0; i < percents.length; i++) {
+    const percent = percents[i];
+
+    if (!Number.isInteger(percent) || percent < 1 || percent > 100) {
+      return 'Milestone percent must be a whole number between 1 and 100';
+    }
+    if (i > 0 && percent <= percents[i - 1]) {
+      return 'Milestones must be in ascending order of percent';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Points for reaching a milestone, its share of the points for the whole target
+ */
+export function getMilestonePoints(percent: number): number {
+  return Math.round(MILESTONE_LIMITS.TARGET_POINTS * percent / 100);
+}
+
+/**
+ * The milestones a new challenge gets, at the percents asked for or the
+ * defaults. Challenges without a big enough target get none.
+ */
+export function getChallengeMilestones(
+  type: string,
+  targetAmount: number | null | undefined,
+  percents: number[] = DEFAULT_MILESTONE_PERCENTS
+): MilestoneDefinition[] {
+  const minTarget = MIN_MILESTONE_TARGETS[type as ChallengeProgressType] ?? 0;
+  if (!targetAmount || targetAmount < minTarget) {
+    return [];
+  }
+
+  return percents.map(percent => ({ percent, points: getMilestonePoints(percent) }));
+}
+
+/**
+ * Progress needed to reach a milestone
+ */
+export function getMilestoneTarget(percent: number, targetAmount: number): number {
+  return targetAmount * percent / 100;
+}
+
+/**
+ * Milestones the progress has reached, in order
+ */
+export function getReachedMilestones<T extends MilestoneDefinition>(
+  milestones: T[],
+  progress: number,
+  targetAmount: number
+): T[] {
+  return milestones.filter(milestone => progress >= getMilestoneTarget(milestone.percent, targetAmount));
+}
+
+/**
+ * The reward tier for a finishing position: the winner, the top three, the top
+ * quarter of the field, or anyone else who made progress
+ */
+export function getRankTier(
+  position: number,
+  participantCount: number,
+  progress: number
+): ChallengeRewardTierType | null {
+  if (progress <= 0) return null;
+  if (position === 1) return 'WINNER';
+  if (position <= 3) return 'PODIUM';
+  if (position <= Math.ceil(participantCount / 4)) return 'TOP_QUARTER';
+  return 'FINISHER';
+}
+
+/**
+ * Whether enough participants made progress for rank rewards to be paid
+ */
+export function hasRankedField(progress: number[]): boolean {
+  return progress.filter(value => value > 0).length >= MILESTONE_LIMITS.MIN_RANKED_PARTICIPANTS;
+}
+
+/**
+ * Final rewards for a finished challenge. Participants tied on progress share
+ * the best position among them; those who made no progress get nothing.
+ */
+export function calculateRankRewards(standings: RewardStanding[]): RankReward[] {
+  const ranked = [...standings].sort((a, b) => b.progress - a.progress);
+  const rewards: RankReward[] = [];
+  let position = 0;
+
+  ranked.forEach((standing, i) => {
+    if (i === 0 || standing.progress !== ranked[i - 1].progress) {
+      position = i + 1;
+    }
+    const tier = getRankTier(position, ranked.length, standing.progress);
+    if (!tier) return;
+
+    rewards.push({
+      id: standing.id,
+      position,
+      tier,
+      points: RANK_TIER_REWARDS.find(reward => reward.tier === tier)!.points
+    });
+  });
+
+  return rewards;
+}
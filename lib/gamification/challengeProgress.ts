@@ -0,0 +1,97 @@
+import { FX_BASE_CURRENCY } from '../fx/conversion';
+import { fromMinorUnits, toMinorUnits } from '../utils/money';
+
+export type ChallengeProgressType = 'SAVINGS_AMOUNT' | 'STREAK' | 'SOCIAL';
+
+export interface ChallengeWindow {
+  start: Date;
+  end: Date;
+}
+
+// What a participant did inside a challenge window
+export interface ChallengeActivity {
+  savedBaseMinor: number; // Confirmed savings, in minor units of the FX base currency
+  savingDates: Date[]; // When each confirmed saving was made
+  friendsAdded: number; // Friendships accepted
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The part of a challenge that has happened so far, or null before it starts
+ */
+export function getChallengeWindow(
+  challenge: { startDate: Date; endDate: Date },
+  now: Date = new Date()
+): ChallengeWindow | null {
+  if (now < challenge.startDate) return null;
+
+  return {
+    start: challenge.startDate,
+    end: now < challenge.endDate ? now : challenge.endDate
+  };
+}
+
+/**
+ * Longest run of consecutive UTC days with at least one saving
+ */
+export function getLongestDailyStreak(dates: Date[]): number {
+  const days = [...new Set(dates.map(date => Math.floor(date.getTime() / DAY_MS)))].sort((a, b) => a - b);
+
+  let longest = 0;
+  let current = 0;
+  days.forEach((day, i) => {
+    current = i > 0 && day === days[i - 1] + 1 ? current + 1 : 1;
+    longest = Math.max(longest, current);
+  });
+
+  return longest;
+}
+
+/**
+ * Progress towards a challenge target: amount saved in the FX base currency,
+ * longest saving streak in days, or friends added
+ */
+export function calculateChallengeProgress(type: ChallengeProgressType, activity: ChallengeActivity): number {
+  switch (type) {
+    case 'SAVINGS_AMOUNT':
+      return fromMinorUnits(activity.savedBaseMinor, FX_BASE_CURRENCY);
+    case 'STREAK':
+      return getLongestDailyStreak(activity.savingDates);
+    case 'SOCIAL':
+      return activity.friendsAdded;
+  }
+}
+
+/**
+ * Whether progress meets a challenge target. Challenges without a target are
+ * only decided when they end.
+ */
+export function isChallengeTargetMet(progress: number, targetAmount: number | null): boolean {
+  return targetAmount !== null && targetAmount > 0 && progress >= targetAmount;
+}
+
+/**
+ * A challenge's target in the units its progress is measured in, or null
+ * when it has none. Savings targets are stored in minor units of the FX base
+ * currency.
+ */
+export function getChallengeTarget(challenge: { type: string; target: number | null }): number | null {
+  if (challenge.target === null) return null;
+
+  return challenge.type === 'SAVINGS_AMOUNT'
+    ? fromMinorUnits(challenge.target, FX_BASE_CURRENCY)
+    : challenge.target;
+}
+
+/**
+ * Convert a target given in progress units to how it's stored. Day and
+ * friend counts round up, since progress towards them is whole.
+ */
+export function toChallengeTarget(type: string, targetAmount: number | null | undefined): number | null {
+  if (targetAmount === null || targetAmount === undefined) return null;
+
+  return type === 'SAVINGS_AMOUNT'
+    ? toMinorUnits(targetAmount, FX_BASE_CURRENCY)
+    : Math.ceil(targetAmount);
+}
@@ -0,0 +1,100 @@
+export type TeamScoringMode = 'SUM' | 'AVERAGE';
+
+export interface TeamStanding {
+  id: string;
+  memberCount: number;
+  progress: number;
+}
+
+export interface RankedItem {
+  id: string;
+  progress: number;
+}
+
+export const TEAM_CHALLENGE_LIMITS = {
+  MIN_TEAMS: 2,
+  MAX_TEAMS: 10,
+  MAX_TEAM_NAME_LENGTH: 30
+} as const;
+
+/**
+ * Check requested teams are a team count or a list of names, within the team
+ * limits, before any names are made from them. Returns an error message or null.
+ */
+export function validateTeamsInput(teams: unknown): string | null {
+  const count = typeof teams === 'number' ? teams : Array.isArray(teams) ? teams.length : null;
+
+  if (count === null || (typeof teams === 'number' && !Number.isInteger(teams))) {
+    return 'Teams must be a team count or a list of team names';
+  }
+
+  if (count < TEAM_CHALLENGE_LIMITS.MIN_TEAMS || count > TEAM_CHALLENGE_LIMITS.MAX_TEAMS) {
+    return `Team challenges need between ${TEAM_CHALLENGE_LIMITS.MIN_TEAMS} and ${TEAM_CHALLENGE_LIMITS.MAX_TEAMS} teams`;
+  }
+
+  if (Array.isArray(teams) && teams.some(name => typeof name !== 'string')) {
+    return 'Team names must be text';
+  }
+
+  return null;
+}
+
+/**
+ * Resolve team names from a team count or a list of names
+ */
+export function resolveTeamNames(teams: number | string[]): string[] {
+  return typeof teams === 'number'
+    ? Array.from({ length: teams }, (_, i) => `Team ${i + 1}`)
+    : teams.map(name => name.trim());
+}
+
+/**
+ * Validate a team setup, returning an error message or null
+ */
+export function validateTeamSetup(names: string[], scoring?: string | null): string | null {
+  if (names.length < TEAM_CHALLENGE_LIMITS.MIN_TEAMS || names.length > TEAM_CHALLENGE_LIMITS.MAX_TEAMS) {
+    return `Team challenges need between ${TEAM_CHALLENGE_LIMITS.MIN_TEAMS} and ${TEAM_CHALLENGE_LIMITS.MAX_TEAMS} teams`;
+  }
+
+  if (names.some(name => !name || name.length > TEAM_CHALLENGE_LIMITS.MAX_TEAM_NAME_LENGTH)) {
+    return `Team names must be 1-${TEAM_CHALLENGE_LIMITS.MAX_TEAM_NAME_LENGTH} characters`;
+  }
+
+  if (new Set(names.map(name => name.toLowerCase())).size !== names.length) {
+    return 'Team names must be unique';
+  }
+
+  if (scoring !== null && scoring !== undefined && scoring !== 'SUM' && scoring !== 'AVERAGE') {
+    return 'Team scoring must be SUM or AVERAGE';
+  }
+
+  return null;
+}
+
+/**
+ * Pick the team a new member should join: the smallest, then the one furthest
+ * behind, so teams stay even as people join
+ */
+export function pickBalancedTeam(teams: TeamStanding[]): string | null {
+  const [team] = [...teams].sort((a, b) => a.memberCount - b.memberCount || a.progress - b.progress);
+  return team?.id ?? null;
+}
+
+/**
+ * Score a team from its members' progress. An empty team scores 0.
+ */
+export function scoreTeam(memberProgress: number[], scoring: TeamScoringMode): number {
+  if (memberProgress.length === 0) return 0;
+
+  const total = memberProgress.reduce((sum, progress) => sum + progress, 0);
+  return scoring === 'AVERAGE' ? total / memberProgress.length : total;
+}
+
+/**
+ * Rank by progress, highest first. Ties keep their input order.
+ */
+export function rankByProgress<T extends RankedItem>(items: T[]): Array<T & { rank: number }> {
+  return [...items]
+    .sort((a, b) => b.progress - a.progress)
+    .map((item, i) => ({ ...item, rank: i + 1 }));
+}
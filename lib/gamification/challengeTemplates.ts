@@ -0,0 +1,182 @@
+export type ChallengeRecurrenceType = 'WEEKLY' | 'MONTHLY';
+
+export interface ChallengeTemplateDefaults {
+  slug: string;
+  title: string;
+  description: string;
+  type: 'SAVINGS_AMOUNT' | 'STREAK' | 'SOCIAL';
+  targetAmount: number | null; // In progress units: dollars saved, days of streak or friends added
+  duration: number; // in days
+  recurrence: ChallengeRecurrenceType | null;
+}
+
+export interface SeasonResult {
+  season: number;
+  progress: number | null; // null when the user didn't take part
+  rank: number | null;
+}
+
+export interface SeasonSummary {
+  seasonsPlayed: number;
+  bestSeason: number | null;
+  bestProgress: number | null;
+  averageProgress: number | null;
+  changeFromLastSeason: number | null; // Latest played season against the one before
+}
+
+export const CHALLENGE_TEMPLATE_LIMITS = {
+  MAX_TITLE_LENGTH: 100,
+  MAX_DURATION_DAYS: 365,
+  // Longest a recurring instance can run before the next one starts
+  MAX_RECURRING_DURATION_DAYS: { WEEKLY: 7, MONTHLY: 31 }
+} as const;
+
+// Templates seeded for admins to adjust
+export const DEFAULT_CHALLENGE_TEMPLATES: ChallengeTemplateDefaults[] = [
+  {
+    slug: 'no-spend-weekend',
+    title: 'No-Spend Weekend',
+    description: 'Skip the weekend splurge and save what you would have spent, on both days.',
+    type: 'STREAK',
+    targetAmount: 2,
+    duration: 2,
+    recurrence: 'WEEKLY'
+  },
+  {
+    slug: '52-week-challenge',
+    title: '52-Week Challenge',
+    description: 'Save $1 in week one, $2 in week two and so on, for $1,378 by the end of the year.',
+    type: 'SAVINGS_AMOUNT',
+    targetAmount: 1378,
+    duration: 364,
+    recurrence: null
+  },
+  {
+    slug: 'save-100-monthly',
+    title: 'Save $100 in {month}',
+    description: 'Put away $100 before the month is out.',
+    type: 'SAVINGS_AMOUNT',
+    targetAmount: 100,
+    duration: 31,
+    recurrence: 'MONTHLY'
+  }
+];
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Validate a template or series setup, returning an error message or null
+ */
+export function validateChallengeTemplate(input: {
+  title: string;
+  description: string;
+  type: string;
+  targetAmount?: number | null;
+  duration: number;
+  recurrence?: string | null;
+}): string | null {
+  if (!input.title || input.title.length > CHALLENGE_TEMPLATE_LIMITS.MAX_TITLE_LENGTH) {
+    return `Title must be 1-${CHALLENGE_TEMPLATE_LIMITS.MAX_TITLE_LENGTH} characters`;
+  }
+
+  if (!input.description) {
+    return 'Description is required';
+  }
+
+  if (!['SAVINGS_AMOUNT', 'STREAK', 'SOCIAL'].includes(input.type)) {
+    return 'Type must be SAVINGS_AMOUNT, STREAK or SOCIAL';
+  }
+
+  if (input.targetAmount !== null && input.targetAmount !== undefined && !(input.targetAmount > 0)) {
+    return 'Target amount must be positive';
+  }
+
+  if (!Number.isInteger(input.duration) || input.duration < 1 || input.duration > CHALLENGE_TEMPLATE_LIMITS.MAX_DURATION_DAYS) {
+    return `Duration must be 1-${CHALLENGE_TEMPLATE_LIMITS.MAX_DURATION_DAYS} days`;
+  }
+
+  if (input.recurrence !== null && input.recurrence !== undefined) {
+    if (input.recurrence !== 'WEEKLY' && input.recurrence !== 'MONTHLY') {
+      return 'Recurrence must be WEEKLY or MONTHLY';
+    }
+
+    const maxDuration = CHALLENGE_TEMPLATE_LIMITS.MAX_RECURRING_DURATION_DAYS[input.recurrence];
+    if (input.duration > maxDuration) {
+      return `${input.recurrence === 'WEEKLY' ? 'Weekly' : 'Monthly'} challenges can last at most ${maxDuration} days`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Start of the instance after the one starting at `start`. Monthly instances
+ * keep the series' day of month, or the month's last day when it's shorter.
+ */
+export function getNextSeasonStart(start: Date, recurrence: ChallengeRecurrenceType, anchorDay: number = start.getUTCDate()): Date {
+  if (recurrence === 'WEEKLY') {
+    return new Date(start.getTime() + 7 * DAY_MS);
+  }
+
+  const next = new Date(start);
+  next.setUTCDate(1);
+  next.setUTCMonth(next.getUTCMonth() + 1);
+  const daysInMonth = new Date(Date.UTC(next.getUTCFullYear(), next.getUTCMonth() + 1, 0)).getUTCDate();
+  next.setUTCDate(Math.min(anchorDay, daysInMonth));
+  return next;
+}
+
+/**
+ * How long an instance runs: the series' duration, cut short so it ends
+ * before the next instance starts
+ */
+export function getSeasonDuration(start: Date, nextStart: Date, duration: number): number {
+  return Math.max(1, Math.min(duration, Math.round((nextStart.getTime() - start.getTime()) / DAY_MS)));
+}
+
+/**
+ * Fill in a template's {month}, {year} and {season} placeholders for an
+ * instance starting at `start`
+ */
+export function renderTemplateText(text: string, start: Date, season?: number | null): string {
+  return text
+    .replace(/\{month\}/g, MONTH_NAMES[start.getUTCMonth()])
+    .replace(/\{year\}/g, String(start.getUTCFullYear()))
+    .replace(/\{season\}/g, season ? String(season) : '');
+}
+
+/**
+ * Summarize a user's results across a series' seasons, oldest first
+ */
+export function summarizeSeasons(results: SeasonResult[]): SeasonSummary {
+  const played = results
+    .filter((result): result is SeasonResult & { progress: number } => result.progress !== null)
+    .sort((a, b) => a.season - b.season);
+
+  if (played.length === 0) {
+    return {
+      seasonsPlayed: 0,
+      bestSeason: null,
+      bestProgress: null,
+      averageProgress: null,
+      changeFromLastSeason: null
+    };
+  }
+
+  const best = played.reduce((top, result) => (result.progress > top.progress ? result : top));
+  const latest = played[played.length - 1];
+  const previous = played[played.length - 2];
+
+  return {
+    seasonsPlayed: played.length,
+    bestSeason: best.season,
+    bestProgress: best.progress,
+    averageProgress: played.reduce((sum, result) => sum + result.progress, 0) / played.length,
+    changeFromLastSeason: previous ? latest.progress - previous.progress : null
+  };
+}
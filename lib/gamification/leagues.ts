@@ -0,0 +1,140 @@
+import { PointsReasonType } from './points';
+
+export type LeagueTierType = 'BRONZE' | 'SILVER' | 'GOLD' | 'PLATINUM' | 'DIAMOND';
+
+export type LeagueOutcomeType = 'PROMOTED' | 'RELEGATED' | 'STAYED';
+
+export interface LeagueStanding {
+  id: string;
+  points: number; // Earned this week
+}
+
+export interface RankedLeagueStanding extends LeagueStanding {
+  rank: number; // 1-based; members tied on points share a rank
+  zone: 'promotion' | 'relegation' | null; // Where they'd finish if the week ended now
+}
+
+// Lowest first
+export const LEAGUE_TIERS: LeagueTierType[] = ['BRONZE', 'SILVER', 'GOLD', 'PLATINUM', 'DIAMOND'];
+
+export const LEAGUE_LIMITS = {
+  COHORT_SIZE: 30,
+  PROMOTION_COUNT: 5, // Top finishers moved up a tier each week
+  RELEGATION_COUNT: 5 // Bottom finishers moved down a tier
+} as const;
+
+// Points that count toward a league: everything earned, but not spending or
+// admin adjustments
+export const LEAGUE_POINTS_REASONS: PointsReasonType[] = [
+  'ACHIEVEMENT',
+  'CHALLENGE_MILESTONE',
+  'CHALLENGE_RANK',
+  'STREAK_BONUS',
+  'REFERRAL'
+];
+
+// Cohorts are drawn from savers within the same band of levels, lowest first
+export const LEAGUE_LEVEL_BANDS: Array<{ minLevel: number; maxLevel: number }> = [
+  { minLevel: 1, maxLevel: 2 },
+  { minLevel: 3, maxLevel: 4 },
+  { minLevel: 5, maxLevel: 7 },
+  { minLevel: 8, maxLevel: Number.MAX_SAFE_INTEGER }
+];
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Start of the league week an instant falls in. Weeks run Monday to Sunday in
+ * UTC so every cohort competes over the same hours.
+ */
+export function getLeagueWeekStart(at: Date): Date {
+  const start = new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), at.getUTCDate()));
+  const daysSinceMonday = (start.getUTCDay() + 6) % 7;
+  start.setUTCDate(start.getUTCDate() - daysSinceMonday);
+  return start;
+}
+
+/**
+ * End of the league week starting at `weekStart`, exclusive
+ */
+export function getLeagueWeekEnd(weekStart: Date): Date {
+  return new Date(weekStart.getTime() + WEEK_MS);
+}
+
+/**
+ * Index into `LEAGUE_LEVEL_BANDS` for a level
+ */
+export function getLevelBand(level: number): number {
+  const band = LEAGUE_LEVEL_BANDS.findIndex(b => level >= b.minLevel && level <= b.maxLevel);
+  return band === -1 ? 0 : band;
+}
+
+/**
+ * How many finishers move up and down in a cohort. The top tier has no
+ * promotion and the bottom tier no relegation, and small cohorts move fewer
+ * people so nobody is in both zones.
+ */
+export function getLeagueZoneSizes(tier: LeagueTierType, cohortSize: number): { promotion: number; relegation: number } {
+  const promotion = tier === 'DIAMOND' ? 0 : Math.min(LEAGUE_LIMITS.PROMOTION_COUNT, Math.ceil(cohortSize / 2));
+  const relegation = tier === 'BRONZE'
+    ? 0
+    : Math.min(LEAGUE_LIMITS.RELEGATION_COUNT, Math.floor(cohortSize / 2), cohortSize - promotion);
+
+  return { promotion, relegation };
+}
+
+/**
+ * Rank a cohort by points earned this week, best first, marking the promotion
+ * and relegation zones. Ties share a rank and keep their given order, so pass
+ * members in the order they joined to favour whoever got there first. Members
+ * who earned nothing can't be promoted.
+ */
+export function rankLeague(tier: LeagueTierType, standings: LeagueStanding[]): RankedLeagueStanding[] {
+  const { promotion, relegation } = getLeagueZoneSizes(tier, standings.length);
+  const sorted = [...standings].sort((a, b) => b.points - a.points);
+
+  return sorted.map((standing, index) => {
+    const rank = index > 0 && sorted[index - 1].points === standing.points
+      ? sorted.findIndex(other => other.points === standing.points) + 1
+      : index + 1;
+
+    let zone: RankedLeagueStanding['zone'] = null;
+    if (index < promotion && standing.points > 0) {
+      zone = 'promotion';
+    } else if (index >= sorted.length - relegation) {
+      zone = 'relegation';
+    }
+
+    return { ...standing, rank, zone };
+  });
+}
+
+/**
+ * The tier a member plays in next week
+ */
+export function getNextTier(tier: LeagueTierType, outcome: LeagueOutcomeType): LeagueTierType {
+  const index = LEAGUE_TIERS.indexOf(tier);
+
+  switch (outcome) {
+    case 'PROMOTED':
+      return LEAGUE_TIERS[Math.min(index + 1, LEAGUE_TIERS.length - 1)];
+    case 'RELEGATED':
+      return LEAGUE_TIERS[Math.max(index - 1, 0)];
+    default:
+      return tier;
+  }
+}
+
+/**
+ * Final outcome for a ranked member
+ */
+export function getLeagueOutcome(standing: RankedLeagueStanding): LeagueOutcomeType {
+  switch (standing.zone) {
+    case 'promotion':
+      return 'PROMOTED';
+    case 'relegation':
+      return 'RELEGATED';
+    default:
+      return 'STAYED';
+  }
+}
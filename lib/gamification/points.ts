@@ -0,0 +1,114 @@
+import { LEVEL_THRESHOLDS } from '../utils/constants';
+import { calculateLevel } from '../utils/helpers';
+
+export type PointsReasonType =
+  | 'ACHIEVEMENT'
+  | 'CHALLENGE_MILESTONE'
+  | 'CHALLENGE_RANK'
+  | 'STREAK_BONUS'
+  | 'REFERRAL'
+  | 'STREAK_FREEZE'
+  | 'STREAK_REPAIR'
+  | 'ADMIN_ADJUSTMENT'
+  | 'OPENING_BALANCE';
+
+export interface LevelProgress {
+  level: number;
+  levelPoints: number; // Points the current level starts at
+  nextLevelPoints: number | null; // Null at the top level
+  progress: number; // Percent of the way to the next level, 0-100
+}
+
+export interface PointsEntryAmount {
+  amount: number;
+}
+
+export const POINTS_LIMITS = {
+  MAX_ADJUSTMENT: 100000, // Either way, per admin adjustment
+  MAX_NOTE_LENGTH: 500,
+  DEFAULT_PAGE_SIZE: 20,
+  MAX_PAGE_SIZE: 100
+} as const;
+
+export const POINTS_REASON_LABELS: Record<PointsReasonType, string> = {
+  ACHIEVEMENT: 'Achievement unlocked',
+  CHALLENGE_MILESTONE: 'Challenge milestone',
+  CHALLENGE_RANK: 'Challenge reward',
+  STREAK_BONUS: 'Streak bonus',
+  REFERRAL: 'Friend joined with your invite',
+  STREAK_FREEZE: 'Streak freeze',
+  STREAK_REPAIR: 'Streak repair',
+  ADMIN_ADJUSTMENT: 'Adjustment',
+  OPENING_BALANCE: 'Opening balance'
+};
+
+export const MAX_LEVEL = LEVEL_THRESHOLDS.length;
+
+/**
+ * Where a points balance stands between levels
+ */
+export function getLevelProgress(points: number): LevelProgress {
+  const level = calculateLevel(points);
+  const levelPoints = LEVEL_THRESHOLDS[level - 1];
+  const nextLevelPoints = level < MAX_LEVEL ? LEVEL_THRESHOLDS[level] : null;
+
+  return {
+    level,
+    levelPoints,
+    nextLevelPoints,
+    progress: nextLevelPoints === null
+      ? 100
+      : Math.floor(((points - levelPoints) / (nextLevelPoints - levelPoints)) * 100)
+  };
+}
+
+/**
+ * Validate an admin adjustment, returning an error message or null
+ */
+export function validateAdjustment(amount: number, note: string): string | null {
+  if (!Number.isInteger(amount) || amount === 0) {
+    return 'Adjustment must be a whole number of points other than zero';
+  }
+
+  if (Math.abs(amount) > POINTS_LIMITS.MAX_ADJUSTMENT) {
+    return `Adjustments are limited to ${POINTS_LIMITS.MAX_ADJUSTMENT} points`;
+  }
+
+  if (!note || note.trim().length === 0) {
+    return 'A note explaining the adjustment is required';
+  }
+
+  if (note.trim().length > POINTS_LIMITS.MAX_NOTE_LENGTH) {
+    return `Note must be at most ${POINTS_LIMITS.MAX_NOTE_LENGTH} characters`;
+  }
+
+  return null;
+}
+
+/**
+ * Add the balance after each entry to a page of history, newest first, given
+ * the balance after the page's newest entry
+ */
+export function withRunningBalance<T extends PointsEntryAmount>(
+  entries: T[],
+  balance: number
+): Array<T & { balanceAfter: number }> {
+  let balanceAfter = balance;
+
+  return entries.map(entry => {
+    const withBalance = { ...entry, balanceAfter };
+    balanceAfter -= entry.amount;
+    return withBalance;
+  });
+}
+
+/**
+ * Clamp a requested history page size
+ */
+export function getPointsPageSize(limit?: number | null): number {
+  if (!limit || !Number.isFinite(limit) || limit < 1) {
+    return POINTS_LIMITS.DEFAULT_PAGE_SIZE;
+  }
+
+  return Math.min(Math.floor(limit), POINTS_LIMITS.MAX_PAGE_SIZE);
+}
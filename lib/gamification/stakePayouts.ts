@@ -0,0 +1,125 @@
+import { ethers } from 'ethers';
+
+export type PayoutCurveType = 'WINNER_TAKES_ALL' | 'TOP_THREE' | 'PROPORTIONAL';
+
+export interface StakeStanding {
+  id: string;
+  progress: number;
+}
+
+export interface StakePayout {
+  id: string;
+  amountWei: bigint;
+}
+
+export const STAKE_LIMITS = {
+  MIN_STAKE_WEI: ethers.parseEther('0.001'),
+  MAX_STAKE_WEI: ethers.parseEther('10')
+} as const;
+
+// Share of the pot per finishing position, in basis points
+export const PAYOUT_CURVES: Record<Exclude<PayoutCurveType, 'PROPORTIONAL'>, number[]> = {
+  WINNER_TAKES_ALL: [10000],
+  TOP_THREE: [5000, 3000, 2000]
+};
+
+/**
+ * Parse a buy-in given in ether, returning null when it isn't a valid amount
+ */
+export function parseStake(stake: unknown): bigint | null {
+  if (typeof stake !== 'string' && typeof stake !== 'number') return null;
+
+  try {
+    return ethers.parseEther(String(stake));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Validate a buy-in and payout curve, returning an error message or null
+ */
+export function validateStake(stakeWei: bigint, curve?: string | null): string | null {
+  if (stakeWei < STAKE_LIMITS.MIN_STAKE_WEI || stakeWei > STAKE_LIMITS.MAX_STAKE_WEI) {
+    return `Stake must be between ${ethers.formatEther(STAKE_LIMITS.MIN_STAKE_WEI)} and ${ethers.formatEther(STAKE_LIMITS.MAX_STAKE_WEI)} ETH`;
+  }
+
+  if (curve !== null && curve !== undefined && curve !== 'PROPORTIONAL' && !(curve in PAYOUT_CURVES)) {
+    return 'Payout curve must be WINNER_TAKES_ALL, TOP_THREE or PROPORTIONAL';
+  }
+
+  return null;
+}
+
+/**
+ * Split a pot between participants by a payout curve.
+ *
+ * Positional curves pay by finishing position; participants tied on progress
+ * share the positions they occupy, and shares for positions nobody reached are
+ * spread over the rest. PROPORTIONAL pays by progress, or evenly when nobody
+ * made any. Rounding dust goes to the top finisher so the payouts always add
+ * up to the pot.
+ */
+export function calculatePayouts(
+  potWei: bigint,
+  standings: StakeStanding[],
+  curve: PayoutCurveType
+): StakePayout[] {
+  if (standings.length === 0) return [];
+
+  const ranked = [...standings].sort((a, b) => b.progress - a.progress);
+  const groups = curve === 'PROPORTIONAL'
+    ? proportionalGroups(ranked)
+    : positionalGroups(ranked, PAYOUT_CURVES[curve]);
+
+  const totalWeight = groups.reduce((sum, group) => sum + group.weight, BigInt(0));
+  const payouts = ranked.map(({ id }) => ({ id, amountWei: BigInt(0) }));
+
+  for (const group of groups) {
+    const groupAmount = potWei * group.weight / totalWeight;
+    const size = BigInt(group.indexes.length);
+    group.indexes.forEach((index, i) => {
+      payouts[index].amountWei = groupAmount / size + (i === 0 ? groupAmount % size : BigInt(0));
+    });
+  }
+
+  const paid = payouts.reduce((sum, payout) => sum + payout.amountWei, BigInt(0));
+  payouts[0].amountWei += potWei - paid;
+
+  return payouts;
+}
+
+interface PayoutGroup {
+  indexes: number[];
+  weight: bigint;
+}
+
+function positionalGroups(ranked: StakeStanding[], shares: number[]): PayoutGroup[] {
+  const groups: PayoutGroup[] = [];
+
+  for (let start = 0; start < ranked.length;) {
+    let end = start + 1;
+    while (end < ranked.length && ranked[end].progress === ranked[start].progress) end++;
+
+    const weight = shares.slice(start, end).reduce((sum, share) => sum + share, 0);
+    if (weight > 0) {
+      groups.push({
+        indexes: Array.from({ length: end - start }, (_, i) => start + i),
+        weight: BigInt(weight)
+      });
+    }
+    start = end;
+  }
+
+  return groups;
+}
+
+function proportionalGroups(ranked: StakeStanding[]): PayoutGroup[] {
+  // Progress is weighted to two decimal places
+  const weights = ranked.map(({ progress }) => BigInt(Math.max(0, Math.round(progress * 100))));
+  const anyProgress = weights.some(weight => weight > BigInt(0));
+
+  return ranked
+    .map((_, index) => ({ indexes: [index], weight: anyProgress ? weights[index] : BigInt(1) }))
+    .filter(group => group.weight > BigInt(0));
+}
@@ -0,0 +1,231 @@
+// A user's streak, counted in calendar days of the user's timezone. Days are
+// ISO dates such as "2024-03-09".
+export interface StreakState {
+  currentStreak: number;
+  longestStreak: number;
+  lastDay: string | null; // Last day the streak covers, by saving or by a freeze
+  freezes: number;
+  brokenStreak: number; // Length of the last broken streak, while it can be repaired
+  brokenAt: Date | null;
+}
+
+export type StreakEvent = 'started' | 'extended' | 'frozen' | 'broken' | 'repaired';
+
+export interface StreakUpdate {
+  state: StreakState;
+  events: StreakEvent[]; // What happened, in order; empty when nothing changed
+  freezesUsed: number;
+}
+
+export const STREAK_LIMITS = {
+  FREEZE_COST: 200, // Points per freeze
+  MAX_FREEZES: 2, // Freezes a user can hold at once
+  REPAIR_COST: 500, // Points to repair a broken streak
+  REPAIR_WINDOW_MS: 24 * 60 * 60 * 1000, // After the streak breaks
+  BONUS_PER_WEEK: 10 // Points per week of streak, paid on each weekly milestone
+} as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The calendar day an instant falls on in a timezone. Unknown timezones count
+ * as UTC.
+ */
+export function getLocalDay(at: Date, timezone: string): string {
+  let format: Intl.DateTimeFormat;
+  try {
+    format = new Intl.DateTimeFormat('en-CA', { timeZone: timezone, year: 'numeric', month: '2-digit', day: '2-digit' });
+  } catch {
+    format = new Intl.DateTimeFormat('en-CA', { timeZone: 'UTC', year: 'numeric', month: '2-digit', day: '2-digit' });
+  }
+
+  const parts = Object.fromEntries(format.formatToParts(at).map(part => [part.type, part.value]));
+  return `${parts.year}-${parts.month}-${parts.day}`;
+}
+
+/**
+ * The instant a calendar day starts in a timezone. Unknown timezones count as
+ * UTC.
+ */
+export function getLocalDayStart(day: string, timezone: string): Date {
+  const utcMidnight = Date.parse(`${day}T00:00:00Z`);
+  const firstGuess = utcMidnight - getUtcOffset(new Date(utcMidnight), timezone);
+
+  // The offset at local midnight can differ from the one at UTC midnight across a DST change
+  return new Date(utcMidnight - getUtcOffset(new Date(firstGuess), timezone));
+}
+
+/**
+ * Whole days from one day to another, negative when `to` comes first
+ */
+export function getDaysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+}
+
+/**
+ * The day a number of days after (or before) another
+ */
+export function addDays(day: string, days: number): string {
+  return new Date(Date.parse(`${day}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Count a day with qualifying savings. Days the user missed since the streak
+ * last counted are covered by freezes when the user holds enough for all of
+ * them; otherwise the streak breaks and starts again at 1. Saving again on a
+ * day already counted, or on an earlier day, changes nothing.
+ */
+export function recordActiveDay(state: StreakState, day: string, timezone: string): StreakUpdate {
+  if (state.lastDay && getDaysBetween(state.lastDay, day) <= 0) {
+    return { state, events: [], freezesUsed: 0 };
+  }
+
+  const settled = settleMissedDays(state, day, timezone);
+  const currentStreak = settled.state.currentStreak + 1;
+
+  return {
+    state: {
+      ...settled.state,
+      currentStreak,
+      longestStreak: Math.max(settled.state.longestStreak, currentStreak),
+      lastDay: day
+    },
+    events: [...settled.events, currentStreak === 1 ? 'started' : 'extended'],
+    freezesUsed: settled.freezesUsed
+  };
+}
+
+/**
+ * Catch a streak up to `today` without counting today itself, which the user
+ * still has time to save on. Missed days are frozen or break the streak, as in
+ * `recordActiveDay`. A streak breaks when its first missed day ends in the
+ * user's timezone, however late the break is noticed.
+ */
+export function settleMissedDays(state: StreakState, today: string, timezone: string): StreakUpdate {
+  if (!state.lastDay || state.currentStreak === 0) {
+    return { state, events: [], freezesUsed: 0 };
+  }
+
+  const missedDays = getDaysBetween(state.lastDay, today) - 1;
+  if (missedDays <= 0) {
+    return { state, events: [], freezesUsed: 0 };
+  }
+
+  if (missedDays <= state.freezes) {
+    return {
+      state: { ...state, freezes: state.freezes - missedDays, lastDay: addDays(today, -1) },
+      events: ['frozen'],
+      freezesUsed: missedDays
+    };
+  }
+
+  const brokenAt = getLocalDayStart(addDays(state.lastDay, 2), timezone);
+
+  return {
+    state: { ...state, currentStreak: 0, brokenStreak: state.currentStreak, brokenAt },
+    events: ['broken'],
+    freezesUsed: 0
+  };
+}
+
+/**
+ * When a broken streak can no longer be repaired, or null if there is none
+ */
+export function getRepairDeadline(state: Pick<StreakState, 'brokenStreak' | 'brokenAt'>): Date | null {
+  if (!state.brokenAt || state.brokenStreak === 0) {
+    return null;
+  }
+
+  return new Date(state.brokenAt.getTime() + STREAK_LIMITS.REPAIR_WINDOW_MS);
+}
+
+/**
+ * Check a streak repair, returning an error message or null
+ */
+export function validateRepair(state: StreakState, points: number, now: Date): string | null {
+  const deadline = getRepairDeadline(state);
+  if (!deadline) {
+    return 'There is no broken streak to repair';
+  }
+
+  if (now.getTime() > deadline.getTime()) {
+    return 'Streaks can only be repaired within 24 hours of breaking';
+  }
+
+  if (points < STREAK_LIMITS.REPAIR_COST) {
+    return `Repairing a streak costs ${STREAK_LIMITS.REPAIR_COST} points`;
+  }
+
+  return null;
+}
+
+/**
+ * Restore a broken streak, joined up with any streak started since. Missed days
+ * are forgiven up to yesterday, so saving today extends the repaired streak.
+ */
+export function repairStreak(state: StreakState, today: string): StreakUpdate {
+  const currentStreak = state.brokenStreak + state.currentStreak;
+
+  return {
+    state: {
+      ...state,
+      currentStreak,
+      longestStreak: Math.max(state.longestStreak, currentStreak),
+      lastDay: state.currentStreak > 0 && state.lastDay ? state.lastDay : addDays(today, -1),
+      brokenStreak: 0,
+      brokenAt: null
+    },
+    events: ['repaired'],
+    freezesUsed: 0
+  };
+}
+
+/**
+ * Check a freeze purchase, returning an error message or null
+ */
+export function validateFreezePurchase(freezes: number, points: number): string | null {
+  if (freezes >= STREAK_LIMITS.MAX_FREEZES) {
+    return `You can hold at most ${STREAK_LIMITS.MAX_FREEZES} streak freezes`;
+  }
+
+  if (points < STREAK_LIMITS.FREEZE_COST) {
+    return `A streak freeze costs ${STREAK_LIMITS.FREEZE_COST} points`;
+  }
+
+  return null;
+}
+
+/**
+ * Bonus points for reaching a streak length: paid on each whole week, growing
+ * with every week, and nothing on other days
+ */
+export function getStreakBonus(currentStreak: number): number {
+  if (currentStreak === 0 || currentStreak % 7 !== 0) {
+    return 0;
+  }
+
+  return (currentStreak / 7) * STREAK_LIMITS.BONUS_PER_WEEK;
+}
+
+// How far a timezone's clocks are ahead of UTC at an instant, in milliseconds
+function getUtcOffset(at: Date, timezone: string): number {
+  let format: Intl.DateTimeFormat;
+  try {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    });
+  } catch {
+    return 0;
+  }
+
+  const parts = Object.fromEntries(format.formatToParts(at).map(part => [part.type, Number(part.value)]));
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return wallClock - Math.floor(at.getTime() / 1000) * 1000;
+}
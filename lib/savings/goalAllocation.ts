@@ -0,0 +1,239 @@
+export type GoalAllocationStrategy = 'PRIORITY' | 'SPLIT' | 'MANUAL';
+
+export interface AllocatableGoal {
+  id: string;
+  targetMinor: number;
+  savedMinor: number;
+  priority: number;
+  splitRatio?: number | null;
+  deadline?: Date | null;
+}
+
+export interface GoalShare {
+  goalId: string;
+  minor: number;
+}
+
+export interface GoalAllocationResult {
+  allocations: GoalShare[];
+  unallocatedMinor: number; // Left over once every goal is full, or everything in MANUAL mode
+}
+
+export interface SavingsGoalDefinition {
+  name?: string | null;
+  target?: number | null;
+  deadline?: Date | null;
+  priority?: number | null;
+  splitRatio?: number | null;
+}
+
+export interface GoalProgress {
+  percent: number; // 0-100
+  remainingMinor: number;
+  daysLeft: number | null; // Until the deadline, null without one
+  requiredDailyMinor: number | null; // To finish by the deadline
+}
+
+export interface ProjectableGoal extends AllocatableGoal {
+  dailyRateMinor?: number; // MANUAL mode only: the goal's own recent allocation rate
+}
+
+export const SAVINGS_GOAL_LIMITS = {
+  MAX_TARGET: 1000000,
+  MAX_NAME_LENGTH: 60,
+  MAX_ACTIVE_GOALS: 20,
+  MAX_PROJECTION_DAYS: 3650
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Validate a savings goal, returning an error message or null
+ */
+export function validateSavingsGoal(goal: SavingsGoalDefinition): string | null {
+  if (goal.name !== undefined &&
+      (!goal.name || !goal.name.trim() || goal.name.length > SAVINGS_GOAL_LIMITS.MAX_NAME_LENGTH)) {
+    return `Goal name must be between 1 and ${SAVINGS_GOAL_LIMITS.MAX_NAME_LENGTH} characters`;
+  }
+  if (goal.target !== undefined &&
+      (!goal.target || goal.target <= 0 || goal.target > SAVINGS_GOAL_LIMITS.MAX_TARGET)) {
+    return `Target must be greater than 0 and at most $${SAVINGS_GOAL_LIMITS.MAX_TARGET}`;
+  }
+  if (goal.deadline && Number.isNaN(goal.deadline.getTime())) {
+    return 'Deadline must be a valid date';
+  }
+  if (goal.priority !== undefined && goal.priority !== null &&
+      (!Number.isInteger(goal.priority) || goal.priority < 1)) {
+    return 'Priority must be a whole number of at least 1';
+  }
+  if (goal.splitRatio !== undefined && goal.splitRatio !== null && !(goal.splitRatio > 0)) {
+    return 'Split ratio must be greater than 0';
+  }
+  return null;
+}
+
+/**
+ * Order goals by priority, then by the nearest deadline
+ */
+export function orderGoalsByPriority<T extends AllocatableGoal>(goals: T[]): T[] {
+  return [...goals].sort((a, b) => {
+    if (a.priority !== b.priority) return a.priority - b.priority;
+    const aDeadline = a.deadline ? a.deadline.getTime() : Infinity;
+    const bDeadline = b.deadline ? b.deadline.getTime() : Infinity;
+    return aDeadline - bDeadline;
+  });
+}
+
+/**
+ * Split an amount between goals. PRIORITY fills goals in order; SPLIT shares the
+ * amount by split ratio, passing a full goal's excess on to the others. No goal
+ * receives more than it needs to reach its target.
+ */
+export function allocateToGoals(
+  amountMinor: number,
+  goals: AllocatableGoal[],
+  strategy: GoalAllocationStrategy
+): GoalAllocationResult {
+  const remaining = new Map(goals.map(goal => [goal.id, getRemainingMinor(goal)]));
+  const allocated = new Map<string, number>();
+  let left = amountMinor;
+
+  const give = (goalId: string, minor: number) => {
+    allocated.set(goalId, (allocated.get(goalId) || 0) + minor);
+    remaining.set(goalId, remaining.get(goalId)! - minor);
+    left -= minor;
+  };
+
+  if (strategy === 'PRIORITY') {
+    for (const goal of orderGoalsByPriority(goals)) {
+      if (left <= 0) break;
+      give(goal.id, Math.min(left, remaining.get(goal.id)!));
+    }
+  } else if (strategy === 'SPLIT') {
+    // Each pass either places everything or fills at least one goal
+    while (left > 0) {
+      const open = orderGoalsByPriority(goals).filter(goal => remaining.get(goal.id)! > 0);
+      if (open.length === 0) break;
+
+      const shares = splitByRatio(left, open.map(goal => goal.splitRatio || 1));
+      open.forEach((goal, index) => give(goal.id, Math.min(shares[index], remaining.get(goal.id)!)));
+    }
+  }
+
+  return {
+    allocations: goals
+      .filter(goal => (allocated.get(goal.id) || 0) > 0)
+      .map(goal => ({ goalId: goal.id, minor: allocated.get(goal.id)! })),
+    unallocatedMinor: left
+  };
+}
+
+/**
+ * Progress towards a goal and the daily amount needed to meet its deadline
+ */
+export function getGoalProgress(goal: AllocatableGoal, now: Date = new Date()): GoalProgress {
+  const remainingMinor = getRemainingMinor(goal);
+  const percent = goal.targetMinor > 0
+    ? Math.min(100, Math.round((goal.savedMinor / goal.targetMinor) * 10000) / 100)
+    : 100;
+
+  if (!goal.deadline) {
+    return { percent, remainingMinor, daysLeft: null, requiredDailyMinor: null };
+  }
+
+  const daysLeft = Math.max(0, Math.ceil((goal.deadline.getTime() - now.getTime()) / DAY_MS));
+  const requiredDailyMinor = remainingMinor === 0
+    ? 0
+    : Math.ceil(remainingMinor / Math.max(1, daysLeft));
+
+  return { percent, remainingMinor, daysLeft, requiredDailyMinor };
+}
+
+/**
+ * Project when each goal will be reached if saving continues at `dailyRateMinor`,
+ * routed through the allocation strategy. Goals that would take longer than
+ * MAX_PROJECTION_DAYS, or that receive nothing, get no date.
+ */
+export function projectGoalCompletions(
+  goals: ProjectableGoal[],
+  dailyRateMinor: number,
+  strategy: GoalAllocationStrategy,
+  now: Date = new Date()
+): Map<string, Date | null> {
+  const completions = new Map<string, Date | null>(goals.map(goal => [goal.id, null]));
+  const remaining = new Map(goals.map(goal => [goal.id, getRemainingMinor(goal)]));
+  let elapsedDays = 0;
+
+  for (const goal of goals) {
+    if (remaining.get(goal.id) === 0) completions.set(goal.id, now);
+  }
+
+  // Between completions every open goal fills at a constant rate, so jump from one completion to the next
+  while (elapsedDays < SAVINGS_GOAL_LIMITS.MAX_PROJECTION_DAYS) {
+    const open = orderGoalsByPriority(goals).filter(goal => remaining.get(goal.id)! > 0);
+    const rates = getDailyRates(open, dailyRateMinor, strategy);
+
+    const next = open
+      .filter(goal => rates.get(goal.id)! > 0)
+      .map(goal => remaining.get(goal.id)! / rates.get(goal.id)!)
+      .reduce((soonest, days) => Math.min(soonest, days), Infinity);
+
+    if (next === Infinity || elapsedDays + next > SAVINGS_GOAL_LIMITS.MAX_PROJECTION_DAYS) break;
+
+    elapsedDays += next;
+    for (const goal of open) {
+      const left = remaining.get(goal.id)! - rates.get(goal.id)! * next;
+      if (left <= 1e-6) {
+        remaining.set(goal.id, 0);
+        completions.set(goal.id, new Date(now.getTime() + Math.ceil(elapsedDays) * DAY_MS));
+      } else {
+        remaining.set(goal.id, left);
+      }
+    }
+  }
+
+  return completions;
+}
+
+function getRemainingMinor(goal: AllocatableGoal): number {
+  return Math.max(0, goal.targetMinor - goal.savedMinor);
+}
+
+function getDailyRates(
+  open: ProjectableGoal[],
+  dailyRateMinor: number,
+  strategy: GoalAllocationStrategy
+): Map<string, number> {
+  const rates = new Map<string, number>(open.map(goal => [goal.id, 0]));
+
+  if (strategy === 'PRIORITY' && open.length > 0) {
+    rates.set(open[0].id, dailyRateMinor);
+  } else if (strategy === 'SPLIT') {
+    const totalRatio = open.reduce((sum, goal) => sum + (goal.splitRatio || 1), 0);
+    open.forEach(goal => rates.set(goal.id, dailyRateMinor * (goal.splitRatio || 1) / totalRatio));
+  } else if (strategy === 'MANUAL') {
+    open.forEach(goal => rates.set(goal.id, goal.dailyRateMinor || 0));
+  }
+
+  return rates;
+}
+
+// Split whole minor units by ratio, handing leftover units to the largest remainders
+function splitByRatio(amountMinor: number, ratios: number[]): number[] {
+  const totalRatio = ratios.reduce((sum, ratio) => sum + ratio, 0);
+  const exact = ratios.map(ratio => (amountMinor * ratio) / totalRatio);
+  const shares = exact.map(Math.floor);
+  let leftover = amountMinor - shares.reduce((sum, share) => sum + share, 0);
+
+  const byRemainder = exact
+    .map((value, index) => ({ index, remainder: value - shares[index] }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+
+  for (const { index } of byRemainder) {
+    if (leftover <= 0) break;
+    shares[index] += 1;
+    leftover -= 1;
+  }
+
+  return shares;
+}
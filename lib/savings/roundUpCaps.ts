@@ -0,0 +1,163 @@
+import { SAVINGS_LIMITS } from '../utils/constants';
+import { addDays, getLocalDay, getLocalDayStart } from '../gamification/streaks';
+
+export type RoundUpCapPeriod = 'daily' | 'weekly' | 'monthly';
+
+export interface RoundUpCapSettings {
+  dailyRoundUpCap?: number | null;
+  weeklyRoundUpCap?: number | null;
+  monthlyRoundUpCap?: number | null;
+}
+
+export type RoundUpCaps = Record<RoundUpCapPeriod, number>;
+
+export type RoundUpCapUsage = Record<RoundUpCapPeriod, number>;
+
+export type RoundUpCapWindows = Record<RoundUpCapPeriod, { start: Date; resetsAt: Date }>;
+
+export interface RoundUpCapState {
+  cap: number;
+  used: number;
+  remaining: number;
+  resetsAt: Date;
+}
+
+export interface RoundUpCapStatus extends Record<RoundUpCapPeriod, RoundUpCapState> {
+  remaining: number; // The tightest of the three caps
+}
+
+export const ROUND_UP_CAP_PERIODS: RoundUpCapPeriod[] = ['daily', 'weekly', 'monthly'];
+
+// Multiplier rule bonuses on a round-up are keyed by this prefix and the round-up
+// id, and count against the caps along with the round-up itself
+export const ROUND_UP_BONUS_PERIOD_PREFIX = 'roundup:';
+
+const MAX_CAPS: RoundUpCaps = {
+  daily: SAVINGS_LIMITS.MAX_DAILY_ROUNDUP,
+  weekly: SAVINGS_LIMITS.MAX_WEEKLY_ROUNDUP,
+  monthly: SAVINGS_LIMITS.MAX_MONTHLY_ROUNDUP
+};
+
+/**
+ * Resolve a user's effective caps. Unset caps use the platform limits,
+ * and user caps can only tighten those limits.
+ */
+export function resolveRoundUpCaps(settings: RoundUpCapSettings): RoundUpCaps {
+  const userCaps: Record<RoundUpCapPeriod, number | null | undefined> = {
+    daily: settings.dailyRoundUpCap,
+    weekly: settings.weeklyRoundUpCap,
+    monthly: settings.monthlyRoundUpCap
+  };
+
+  return ROUND_UP_CAP_PERIODS.reduce((caps, period) => {
+    const userCap = userCaps[period];
+    caps[period] = userCap !== null && userCap !== undefined
+      ? Math.min(userCap, MAX_CAPS[period])
+      : MAX_CAPS[period];
+    return caps;
+  }, {} as RoundUpCaps);
+}
+
+/**
+ * Calendar windows the caps apply to, in the user's timezone. Weeks start on
+ * Monday.
+ */
+export function getRoundUpCapWindows(now: Date, timezone: string): RoundUpCapWindows {
+  const today = getLocalDay(now, timezone);
+  const daysSinceMonday = (new Date(`${today}T00:00:00Z`).getUTCDay() + 6) % 7;
+  const weekStart = addDays(today, -daysSinceMonday);
+  const monthStart = `${today.slice(0, 8)}01`;
+  const nextMonthStart = `${addDays(monthStart, 31).slice(0, 8)}01`; // 31 days on is always next month
+  const startOf = (day: string) => getLocalDayStart(day, timezone);
+
+  return {
+    daily: { start: startOf(today), resetsAt: startOf(addDays(today, 1)) },
+    weekly: { start: startOf(weekStart), resetsAt: startOf(addDays(weekStart, 7)) },
+    monthly: { start: startOf(monthStart), resetsAt: startOf(nextMonthStart) }
+  };
+}
+
+/**
+ * Combine caps, usage and windows into the status reported to users
+ */
+export function buildRoundUpCapStatus(
+  caps: RoundUpCaps,
+  usage: RoundUpCapUsage,
+  windows: RoundUpCapWindows
+): RoundUpCapStatus {
+  const states = ROUND_UP_CAP_PERIODS.reduce((acc, period) => {
+    const used = roundToCents(usage[period]);
+    acc[period] = {
+      cap: caps[period],
+      used,
+      remaining: Math.max(0, roundToCents(caps[period] - used)),
+      resetsAt: windows[period].resetsAt
+    };
+    return acc;
+  }, {} as Record<RoundUpCapPeriod, RoundUpCapState>);
+
+  return {
+    ...states,
+    remaining: Math.min(...ROUND_UP_CAP_PERIODS.map(period => states[period].remaining))
+  };
+}
+
+/**
+ * Check whether a round-up fits within every cap
+ */
+export function fitsRoundUpCaps(status: RoundUpCapStatus, amount: number): boolean {
+  return Math.round(amount * 100) <= Math.round(status.remaining * 100);
+}
+
+/**
+ * Record a round-up against the caps, returning the updated status
+ */
+export function consumeRoundUpCaps(status: RoundUpCapStatus, amount: number): RoundUpCapStatus {
+  const states = ROUND_UP_CAP_PERIODS.reduce((acc, period) => {
+    const used = roundToCents(status[period].used + amount);
+    acc[period] = {
+      ...status[period],
+      used,
+      remaining: Math.max(0, roundToCents(status[period].cap - used))
+    };
+    return acc;
+  }, {} as Record<RoundUpCapPeriod, RoundUpCapState>);
+
+  return {
+    ...states,
+    remaining: Math.min(...ROUND_UP_CAP_PERIODS.map(period => states[period].remaining))
+  };
+}
+
+/**
+ * Trim a round-up bonus to what is left of the caps
+ */
+export function capRoundUpBonus(status: RoundUpCapStatus, amount: number): number {
+  return Math.max(0, Math.min(roundToCents(amount), status.remaining));
+}
+
+/**
+ * Validate user-provided caps, returning an error message or null if they are valid
+ */
+export function validateRoundUpCaps(settings: RoundUpCapSettings): string | null {
+  const userCaps: Record<RoundUpCapPeriod, number | null | undefined> = {
+    daily: settings.dailyRoundUpCap,
+    weekly: settings.weeklyRoundUpCap,
+    monthly: settings.monthlyRoundUpCap
+  };
+
+  for (const period of ROUND_UP_CAP_PERIODS) {
+    const cap = userCaps[period];
+    if (cap === null || cap === undefined) continue;
+
+    if (typeof cap !== 'number' || !Number.isFinite(cap) || cap <= 0 || cap > MAX_CAPS[period]) {
+      return `${period.charAt(0).toUpperCase()}${period.slice(1)} round-up cap must be more than 0 and at most ${MAX_CAPS[period]}`;
+    }
+  }
+
+  return null;
+}
+
+function roundToCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
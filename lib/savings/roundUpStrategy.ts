@@ -0,0 +1,127 @@
+import { calculateRoundUp } from '../utils/helpers';
+import { ROUND_UP_LIMITS } from '../utils/constants';
+import { DEFAULT_CURRENCY, Money, money, multiplyMoney, percentOf, toMajorUnits } from '../utils/money';
+
+export type RoundUpStrategyKind =
+  | 'NEXT_INCREMENT' // Next multiple of roundUpAmount
+  | 'NEAREST_DOLLAR'
+  | 'NEAREST_FIVE'
+  | 'FIXED_AMOUNT'
+  | 'PERCENTAGE';
+
+export interface RoundUpStrategySettings {
+  roundUpStrategy: RoundUpStrategyKind;
+  roundUpAmount: number;
+  roundUpFixedAmount?: number | null;
+  roundUpPercentage?: number | null;
+  roundUpMultiplier: number;
+}
+
+export const ROUND_UP_STRATEGIES: RoundUpStrategyKind[] = [
+  'NEXT_INCREMENT',
+  'NEAREST_DOLLAR',
+  'NEAREST_FIVE',
+  'FIXED_AMOUNT',
+  'PERCENTAGE'
+];
+
+export const ROUND_UP_STRATEGY_LIMITS = {
+  MIN_FIXED_AMOUNT: 0.01,
+  MAX_FIXED_AMOUNT: 10,
+  MIN_PERCENTAGE: 0.1,
+  MAX_PERCENTAGE: 25,
+  MIN_MULTIPLIER: 1,
+  MAX_MULTIPLIER: 10
+} as const;
+
+/**
+ * Calculate the round-up for a purchase using the user's strategy and multiplier,
+ * in whole minor units of the purchase currency
+ */
+export function calculateStrategyRoundUp(
+  purchaseAmount: number,
+  settings: RoundUpStrategySettings,
+  currency: string = DEFAULT_CURRENCY
+): number {
+  const base = calculateBaseRoundUp(money(purchaseAmount, currency), settings);
+
+  return toMajorUnits(multiplyMoney(base, clampMultiplier(settings.roundUpMultiplier)));
+}
+
+/**
+ * Validate strategy settings, returning an error message or null if they are valid.
+ * Pass the settings as they will be stored, so a strategy is never left without
+ * the parameter it needs.
+ */
+export function validateRoundUpStrategy(settings: Partial<RoundUpStrategySettings>): string | null {
+  const { roundUpStrategy, roundUpFixedAmount, roundUpPercentage, roundUpMultiplier } = settings;
+
+  if (roundUpStrategy !== undefined && !ROUND_UP_STRATEGIES.includes(roundUpStrategy)) {
+    return 'Invalid round-up strategy';
+  }
+
+  if (roundUpFixedAmount !== undefined && roundUpFixedAmount !== null &&
+      (typeof roundUpFixedAmount !== 'number' || !Number.isFinite(roundUpFixedAmount) ||
+       roundUpFixedAmount < ROUND_UP_STRATEGY_LIMITS.MIN_FIXED_AMOUNT ||
+       roundUpFixedAmount > ROUND_UP_STRATEGY_LIMITS.MAX_FIXED_AMOUNT)) {
+    return `Fixed round-up must be between $${ROUND_UP_STRATEGY_LIMITS.MIN_FIXED_AMOUNT} and $${ROUND_UP_STRATEGY_LIMITS.MAX_FIXED_AMOUNT}`;
+  }
+
+  if (roundUpPercentage !== undefined && roundUpPercentage !== null &&
+      (typeof roundUpPercentage !== 'number' || !Number.isFinite(roundUpPercentage) ||
+       roundUpPercentage < ROUND_UP_STRATEGY_LIMITS.MIN_PERCENTAGE ||
+       roundUpPercentage > ROUND_UP_STRATEGY_LIMITS.MAX_PERCENTAGE)) {
+    return `Round-up percentage must be between ${ROUND_UP_STRATEGY_LIMITS.MIN_PERCENTAGE}% and ${ROUND_UP_STRATEGY_LIMITS.MAX_PERCENTAGE}%`;
+  }
+
+  if (roundUpMultiplier !== undefined &&
+      (!Number.isInteger(roundUpMultiplier) ||
+       roundUpMultiplier < ROUND_UP_STRATEGY_LIMITS.MIN_MULTIPLIER ||
+       roundUpMultiplier > ROUND_UP_STRATEGY_LIMITS.MAX_MULTIPLIER)) {
+    return `Round-up multiplier must be a whole number from ${ROUND_UP_STRATEGY_LIMITS.MIN_MULTIPLIER} to ${ROUND_UP_STRATEGY_LIMITS.MAX_MULTIPLIER}`;
+  }
+
+  if (roundUpStrategy === 'FIXED_AMOUNT' && !roundUpFixedAmount) {
+    return 'Fixed round-up strategy requires a fixed amount';
+  }
+
+  if (roundUpStrategy === 'PERCENTAGE' && !roundUpPercentage) {
+    return 'Percentage round-up strategy requires a percentage';
+  }
+
+  return null;
+}
+
+function calculateBaseRoundUp(purchase: Money, settings: RoundUpStrategySettings): Money {
+  const purchaseAmount = toMajorUnits(purchase);
+
+  switch (settings.roundUpStrategy) {
+    case 'NEAREST_DOLLAR':
+      return money(calculateRoundUp(purchaseAmount, 1), purchase.currency);
+
+    case 'NEAREST_FIVE':
+      return money(calculateRoundUp(purchaseAmount, 5), purchase.currency);
+
+    case 'FIXED_AMOUNT':
+      return money(settings.roundUpFixedAmount || 0, purchase.currency);
+
+    case 'PERCENTAGE':
+      return percentOf(purchase, settings.roundUpPercentage || 0);
+
+    case 'NEXT_INCREMENT':
+    default:
+      return money(
+        calculateRoundUp(purchaseAmount, settings.roundUpAmount || ROUND_UP_LIMITS.DEFAULT),
+        purchase.currency
+      );
+  }
+}
+
+function clampMultiplier(multiplier: number): number {
+  if (!Number.isFinite(multiplier)) return ROUND_UP_STRATEGY_LIMITS.MIN_MULTIPLIER;
+
+  return Math.min(
+    ROUND_UP_STRATEGY_LIMITS.MAX_MULTIPLIER,
+    Math.max(ROUND_UP_STRATEGY_LIMITS.MIN_MULTIPLIER, Math.floor(multiplier))
+  );
+}
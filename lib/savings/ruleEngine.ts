@@ -0,0 +1,254 @@
+import { Money, compareMoney, money, moneyFromMinor, multiplyMoney, percentOf } from '../utils/money';
+
+export type SavingsRuleKind = 'SCHEDULED' | 'PERCENTAGE_OF_DEPOSIT' | 'ROUNDUP_MULTIPLIER';
+
+export type SavingsRuleFrequencyKind = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+export interface SavingsRuleDefinition {
+  type: SavingsRuleKind;
+  amount?: number | null;
+  frequency?: SavingsRuleFrequencyKind | null;
+  dayOfWeek?: number | null;
+  dayOfMonth?: number | null;
+  percentage?: number | null;
+  minTriggerAmount?: number | null;
+  multiplier?: number | null;
+  daysOfWeek?: unknown;
+  maxAmount?: number | null;
+}
+
+export interface LocalDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  weekday: number; // 0 = Sunday
+}
+
+export interface ScheduledPeriod {
+  periodKey: string;
+  occurrence: string; // YYYY-MM-DD in the user's timezone
+}
+
+export const SAVINGS_RULE_LIMITS = {
+  MAX_SCHEDULED_AMOUNT: 10000,
+  MAX_PERCENTAGE: 50,
+  MIN_MULTIPLIER: 1,
+  MAX_MULTIPLIER: 10
+};
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Get the calendar date of an instant in the given timezone, falling back to UTC
+ */
+export function getLocalDate(date: Date, timeZone: string = 'UTC'): LocalDate {
+  let formatter: Intl.DateTimeFormat;
+  try {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      weekday: 'short'
+    });
+  } catch {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: 'UTC',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      weekday: 'short'
+    });
+  }
+
+  const parts = Object.fromEntries(
+    formatter.formatToParts(date).map(part => [part.type, part.value])
+  );
+
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    weekday: WEEKDAYS.indexOf(parts.weekday)
+  };
+}
+
+/**
+ * Format a local date as YYYY-MM-DD
+ */
+export function formatLocalDate(date: Pick<LocalDate, 'year' | 'month' | 'day'>): string {
+  return `${date.year}-${String(date.month).padStart(2, '0')}-${String(date.day).padStart(2, '0')}`;
+}
+
+/**
+ * Find the most recent occurrence of a scheduled rule at or before `now`.
+ * The period key identifies that occurrence, so a rule runs at most once per period.
+ */
+export function getScheduledPeriod(
+  rule: SavingsRuleDefinition,
+  now: Date,
+  timeZone: string = 'UTC'
+): ScheduledPeriod | null {
+  if (rule.type !== 'SCHEDULED' || !rule.frequency) return null;
+
+  const today = getLocalDate(now, timeZone);
+
+  switch (rule.frequency) {
+    case 'DAILY': {
+      const occurrence = formatLocalDate(today);
+      return { periodKey: occurrence, occurrence };
+    }
+
+    case 'WEEKLY': {
+      if (rule.dayOfWeek === null || rule.dayOfWeek === undefined) return null;
+      const daysSince = (today.weekday - rule.dayOfWeek + 7) % 7;
+      const occurrence = formatLocalDate(addDays(today, -daysSince));
+      return { periodKey: occurrence, occurrence };
+    }
+
+    case 'MONTHLY': {
+      if (!rule.dayOfMonth) return null;
+
+      let { year, month } = today;
+      if (today.day < clampDayOfMonth(year, month, rule.dayOfMonth)) {
+        month -= 1;
+        if (month === 0) {
+          month = 12;
+          year -= 1;
+        }
+      }
+
+      const day = clampDayOfMonth(year, month, rule.dayOfMonth);
+      return {
+        periodKey: `${year}-${String(month).padStart(2, '0')}`,
+        occurrence: formatLocalDate({ year, month, day })
+      };
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Amount saved by a percentage rule for an incoming deposit, in the deposit's currency
+ */
+export function calculateDepositRuleAmount(
+  rule: SavingsRuleDefinition,
+  deposit: Money
+): Money {
+  const none = moneyFromMinor(0, deposit.currency);
+  if (rule.type !== 'PERCENTAGE_OF_DEPOSIT' || !rule.percentage) return none;
+  if (rule.minTriggerAmount && compareMoney(deposit, money(rule.minTriggerAmount, deposit.currency)) < 0) {
+    return none;
+  }
+
+  return applyMaxAmount(rule, percentOf(deposit, rule.percentage));
+}
+
+/**
+ * Extra amount saved by a multiplier rule on top of a round-up, in the round-up's
+ * currency. A 2x multiplier adds one more round-up's worth.
+ */
+export function calculateRoundUpBonus(
+  rule: SavingsRuleDefinition,
+  roundUp: Money,
+  weekday: number
+): Money {
+  const none = moneyFromMinor(0, roundUp.currency);
+  if (rule.type !== 'ROUNDUP_MULTIPLIER' || !rule.multiplier || rule.multiplier <= 1) return none;
+
+  const days = parseDaysOfWeek(rule.daysOfWeek);
+  if (days.length > 0 && !days.includes(weekday)) return none;
+
+  return applyMaxAmount(rule, multiplyMoney(roundUp, rule.multiplier - 1));
+}
+
+/**
+ * Validate a rule definition, returning an error message or null if it is valid
+ */
+export function validateSavingsRule(rule: SavingsRuleDefinition): string | null {
+  if (rule.maxAmount !== undefined && rule.maxAmount !== null && !(rule.maxAmount > 0)) {
+    return 'Maximum amount must be greater than 0';
+  }
+
+  switch (rule.type) {
+    case 'SCHEDULED':
+      if (!rule.amount || rule.amount <= 0) {
+        return 'Amount must be greater than 0';
+      }
+      if (rule.amount > SAVINGS_RULE_LIMITS.MAX_SCHEDULED_AMOUNT) {
+        return `Amount cannot exceed $${SAVINGS_RULE_LIMITS.MAX_SCHEDULED_AMOUNT}`;
+      }
+      if (!rule.frequency || !['DAILY', 'WEEKLY', 'MONTHLY'].includes(rule.frequency)) {
+        return 'Frequency must be DAILY, WEEKLY or MONTHLY';
+      }
+      if (rule.frequency === 'WEEKLY' && !isDayOfWeek(rule.dayOfWeek)) {
+        return 'Weekly rules require a day of week between 0 and 6';
+      }
+      if (rule.frequency === 'MONTHLY' &&
+          (!Number.isInteger(rule.dayOfMonth) || rule.dayOfMonth! < 1 || rule.dayOfMonth! > 31)) {
+        return 'Monthly rules require a day of month between 1 and 31';
+      }
+      return null;
+
+    case 'PERCENTAGE_OF_DEPOSIT':
+      if (!rule.percentage || rule.percentage <= 0 || rule.percentage > SAVINGS_RULE_LIMITS.MAX_PERCENTAGE) {
+        return `Percentage must be between 0 and ${SAVINGS_RULE_LIMITS.MAX_PERCENTAGE}`;
+      }
+      if (rule.minTriggerAmount !== undefined && rule.minTriggerAmount !== null && rule.minTriggerAmount < 0) {
+        return 'Minimum trigger amount cannot be negative';
+      }
+      return null;
+
+    case 'ROUNDUP_MULTIPLIER': {
+      if (!rule.multiplier ||
+          rule.multiplier <= SAVINGS_RULE_LIMITS.MIN_MULTIPLIER ||
+          rule.multiplier > SAVINGS_RULE_LIMITS.MAX_MULTIPLIER) {
+        return `Multiplier must be greater than ${SAVINGS_RULE_LIMITS.MIN_MULTIPLIER} and at most ${SAVINGS_RULE_LIMITS.MAX_MULTIPLIER}`;
+      }
+      if (rule.daysOfWeek !== undefined && rule.daysOfWeek !== null &&
+          (!Array.isArray(rule.daysOfWeek) || !rule.daysOfWeek.every(isDayOfWeek))) {
+        return 'Days of week must be a list of numbers between 0 and 6';
+      }
+      return null;
+    }
+
+    default:
+      return 'Invalid rule type';
+  }
+}
+
+/**
+ * Parse the stored days-of-week list, ignoring invalid entries
+ */
+export function parseDaysOfWeek(raw: unknown): number[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.filter(isDayOfWeek);
+}
+
+function isDayOfWeek(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 6;
+}
+
+function addDays(date: LocalDate, days: number): LocalDate {
+  const shifted = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return {
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate(),
+    weekday: shifted.getUTCDay()
+  };
+}
+
+function clampDayOfMonth(year: number, month: number, dayOfMonth: number): number {
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  return Math.min(dayOfMonth, daysInMonth);
+}
+
+function applyMaxAmount(rule: SavingsRuleDefinition, amount: Money): Money {
+  if (!rule.maxAmount) return amount;
+
+  const maxAmount = money(rule.maxAmount, amount.currency);
+  return compareMoney(amount, maxAmount) > 0 ? maxAmount : amount;
+}
@@ -0,0 +1,176 @@
+export type VaultFlow = 'DEPOSIT' | 'WITHDRAWAL';
+
+export interface VaultEvent {
+  flow: VaultFlow;
+  txHash: string;
+  amountWei: bigint;
+  blockNumber: number;
+  timestamp: Date;
+}
+
+export interface LedgerEntry {
+  id: string;
+  flow: VaultFlow;
+  status: 'PENDING' | 'PROCESSING' | 'CONFIRMED' | 'FAILED' | 'CANCELLED' | 'DEFERRED';
+  txHash: string | null;
+  recordedWei: bigint | null; // Amount recorded when the transaction was sent
+  estimatedWei: bigint; // Ledger amount converted at its FX snapshot and the vault asset price
+  createdAt: Date;
+  executeAfter: Date | null;
+}
+
+export interface ReconciliationOptions {
+  now: Date;
+  pendingGraceMs: number; // How long a PENDING row may wait before it is an orphan
+  amountToleranceBps: number; // Allowed gap between an estimated amount and an event
+  matchWindowMs: number; // How far apart a row without a hash and an event may be to be linked
+}
+
+export type ReconciliationIssue =
+  | { type: 'MISSING_TRANSACTION'; event: VaultEvent } // On chain, not in the ledger
+  | { type: 'MISSING_HASH'; transactionId: string; event: VaultEvent | null } // In the ledger without a hash
+  | { type: 'AMBIGUOUS_MATCH'; transactionId: string; events: VaultEvent[] } // Without a hash, and could be any of these
+  | { type: 'UNKNOWN_HASH'; transactionId: string; txHash: string } // Confirmed, but not on chain
+  | { type: 'UNCONFIRMED'; transactionId: string; event: VaultEvent } // On chain, but not confirmed in the ledger
+  | { type: 'AMOUNT_MISMATCH'; transactionId: string; event: VaultEvent; recordedWei: bigint | null } // null when never recorded
+  | { type: 'ORPHAN_PENDING'; transactionId: string; txHash: string | null };
+
+export interface WalletReconciliation {
+  chainDepositedWei: bigint;
+  chainWithdrawnWei: bigint;
+  ledgerDepositedWei: bigint;
+  ledgerWithdrawnWei: bigint;
+  driftWei: bigint; // Net vault balance on chain less the net balance in the ledger
+  issues: ReconciliationIssue[];
+}
+
+export const DEFAULT_RECONCILIATION_OPTIONS: Omit<ReconciliationOptions, 'now'> = {
+  pendingGraceMs: 24 * 60 * 60 * 1000,
+  amountToleranceBps: 200,
+  matchWindowMs: 60 * 60 * 1000
+};
+
+/**
+ * Whether an estimated ledger amount is close enough to an on-chain amount to
+ * be the same transfer. Estimates use today's asset price, so allow some slack.
+ */
+export function amountsMatch(estimatedWei: bigint, amountWei: bigint, toleranceBps: number): boolean {
+  const gap = estimatedWei > amountWei ? estimatedWei - amountWei : amountWei - estimatedWei;
+  return gap * BigInt(10000) <= amountWei * BigInt(toleranceBps);
+}
+
+/**
+ * Compare one wallet's vault events with its ledger rows. Rows are matched to
+ * events by hash first. A row without a hash is only linked to an event when
+ * the match is certain: its recorded amount is exact, or the event is the
+ * only one close to it in amount and time and no other row could claim it.
+ * Events that could belong to a row but aren't certain are held back for a
+ * person to decide, so repairs don't record them twice. Whatever is left over
+ * is drift.
+ */
+export function reconcileWallet(
+  events: VaultEvent[],
+  ledger: LedgerEntry[],
+  options: ReconciliationOptions
+): WalletReconciliation {
+  const issues: ReconciliationIssue[] = [];
+  const unmatched = new Map<string, VaultEvent>();
+
+  for (const event of [...events].sort((a, b) => a.blockNumber - b.blockNumber)) {
+    const existing = unmatched.get(event.txHash);
+    // Several events in one transaction count as a single transfer
+    unmatched.set(event.txHash, existing ? { ...existing, amountWei: existing.amountWei + event.amountWei } : event);
+  }
+
+  const rows = [...ledger].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  const settled: Array<{ flow: VaultFlow; amountWei: bigint }> = [];
+
+  // The ledger balance only counts confirmed rows, at the amount they recorded
+  const settle = (entry: LedgerEntry, fallbackWei: bigint) => {
+    if (entry.status === 'CONFIRMED') {
+      settled.push({ flow: entry.flow, amountWei: entry.recordedWei ?? fallbackWei });
+    }
+  };
+
+  const dueAt = (entry: LedgerEntry) => Math.max(entry.createdAt.getTime(), entry.executeAfter?.getTime() ?? 0);
+  const isStale = (entry: LedgerEntry) => options.now.getTime() - dueAt(entry) > options.pendingGraceMs;
+
+  for (const entry of rows) {
+    if (!entry.txHash) continue;
+
+    const event = unmatched.get(entry.txHash);
+    if (event && event.flow === entry.flow) {
+      unmatched.delete(event.txHash);
+      settle(entry, event.amountWei);
+
+      if (entry.status !== 'CONFIRMED') {
+        issues.push({ type: 'UNCONFIRMED', transactionId: entry.id, event });
+      }
+      if (entry.recordedWei !== event.amountWei) {
+        issues.push({ type: 'AMOUNT_MISMATCH', transactionId: entry.id, event, recordedWei: entry.recordedWei });
+      }
+    } else if (entry.status === 'CONFIRMED') {
+      issues.push({ type: 'UNKNOWN_HASH', transactionId: entry.id, txHash: entry.txHash });
+      settle(entry, entry.estimatedWei);
+    } else if ((entry.status === 'PENDING' || entry.status === 'PROCESSING') && isStale(entry)) {
+      issues.push({ type: 'ORPHAN_PENDING', transactionId: entry.id, txHash: entry.txHash });
+    }
+  }
+
+  type Matcher = (entry: LedgerEntry, event: VaultEvent) => boolean;
+  const isClose: Matcher = (entry, event) => event.flow === entry.flow &&
+    amountsMatch(entry.recordedWei ?? entry.estimatedWei, event.amountWei, options.amountToleranceBps);
+  const isExact: Matcher = (entry, event) => event.flow === entry.flow && event.amountWei === entry.recordedWei;
+  const isNearby: Matcher = (entry, event) => isClose(entry, event) &&
+    Math.abs(event.timestamp.getTime() - dueAt(entry)) <= options.matchWindowMs;
+
+  const hashless = rows.filter(entry => !entry.txHash && ['PENDING', 'PROCESSING', 'CONFIRMED'].includes(entry.status));
+  const unlinked = new Set(hashless);
+
+  // The one event the row matches, if no other unlinked row matches it too
+  const getOnlyMatch = (entry: LedgerEntry, matches: Matcher) => {
+    const events = [...unmatched.values()].filter(event => matches(entry, event));
+    const claimed = events.length === 1 && [...unlinked].some(other => other !== entry && matches(other, events[0]));
+    return events.length === 1 && !claimed ? events[0] : undefined;
+  };
+
+  for (const entry of hashless) {
+    const match = getOnlyMatch(entry, isExact) ?? getOnlyMatch(entry, isNearby);
+    const candidates = [...unmatched.values()].filter(event => isClose(entry, event));
+    unlinked.delete(entry);
+
+    if (match) {
+      issues.push({ type: 'MISSING_HASH', transactionId: entry.id, event: match });
+      unmatched.delete(match.txHash);
+      settle(entry, match.amountWei);
+    } else if (candidates.length > 0) {
+      issues.push({ type: 'AMBIGUOUS_MATCH', transactionId: entry.id, events: candidates });
+      candidates.forEach(event => unmatched.delete(event.txHash));
+      settle(entry, entry.estimatedWei);
+    } else if (entry.status === 'CONFIRMED') {
+      issues.push({ type: 'MISSING_HASH', transactionId: entry.id, event: null });
+      settle(entry, entry.estimatedWei);
+    } else if (isStale(entry)) {
+      issues.push({ type: 'ORPHAN_PENDING', transactionId: entry.id, txHash: null });
+    }
+  }
+
+  for (const event of unmatched.values()) {
+    issues.push({ type: 'MISSING_TRANSACTION', event });
+  }
+
+  const sum = (amounts: bigint[]) => amounts.reduce((total, amount) => total + amount, BigInt(0));
+  const chainDepositedWei = sum(events.filter(e => e.flow === 'DEPOSIT').map(e => e.amountWei));
+  const chainWithdrawnWei = sum(events.filter(e => e.flow === 'WITHDRAWAL').map(e => e.amountWei));
+  const ledgerDepositedWei = sum(settled.filter(s => s.flow === 'DEPOSIT').map(s => s.amountWei));
+  const ledgerWithdrawnWei = sum(settled.filter(s => s.flow === 'WITHDRAWAL').map(s => s.amountWei));
+
+  return {
+    chainDepositedWei,
+    chainWithdrawnWei,
+    ledgerDepositedWei,
+    ledgerWithdrawnWei,
+    driftWei: (chainDepositedWei - chainWithdrawnWei) - (ledgerDepositedWei - ledgerWithdrawnWei),
+    issues
+  };
+}
@@ -0,0 +1,113 @@
+import { SAVINGS_LIMITS } from '../utils/constants';
+import { toMinorUnits } from '../utils/money';
+import { getLocalDay, getLocalDayStart } from '../gamification/streaks';
+
+export interface WithdrawalSettings {
+  dailyWithdrawalLimit?: number | null; // Major units of the user's currency
+  withdrawalCoolingOffHours?: number | null;
+}
+
+// All amounts are minor units of the user's currency
+export interface WithdrawalCheck {
+  amountMinor: number;
+  availableMinor: number; // Current balance less withdrawals still pending
+  withdrawnTodayMinor: number;
+  withdrawalsToday: number;
+  dailyLimitMinor: number;
+  largeWithdrawalMinor: number;
+  twoFactorEnabled: boolean;
+  twoFactorVerified: boolean;
+}
+
+export type WithdrawalDecision =
+  | { allowed: true }
+  | { allowed: false; reason: 'INSUFFICIENT_BALANCE' | 'DAILY_LIMIT' | 'DAILY_COUNT' | 'TWO_FACTOR_REQUIRED' | 'TWO_FACTOR_DISABLED'; message: string };
+
+/**
+ * Resolve a user's daily withdrawal limit in minor units of their currency.
+ * A user limit can only tighten the platform limit.
+ */
+export function resolveDailyWithdrawalLimit(
+  settings: { dailyWithdrawalLimitMinor?: number | null },
+  currency: string
+): number {
+  const platformLimitMinor = toMinorUnits(SAVINGS_LIMITS.MAX_DAILY_WITHDRAWAL, currency);
+  const limitMinor = settings.dailyWithdrawalLimitMinor;
+  return limitMinor !== null && limitMinor !== undefined
+    ? Math.min(limitMinor, platformLimitMinor)
+    : platformLimitMinor;
+}
+
+/**
+ * When the day a withdrawal limit applies to began: local midnight in the
+ * user's timezone
+ */
+export function getWithdrawalDayStart(now: Date, timezone: string): Date {
+  return getLocalDayStart(getLocalDay(now, timezone), timezone);
+}
+
+/**
+ * Validate withdrawal settings, returning an error message or null
+ */
+export function validateWithdrawalSettings(settings: WithdrawalSettings): string | null {
+  const limit = settings.dailyWithdrawalLimit;
+  if (limit !== null && limit !== undefined &&
+      (typeof limit !== 'number' || !Number.isFinite(limit) || limit <= 0 || limit > SAVINGS_LIMITS.MAX_DAILY_WITHDRAWAL)) {
+    return `Daily withdrawal limit must be more than 0 and at most ${SAVINGS_LIMITS.MAX_DAILY_WITHDRAWAL}`;
+  }
+
+  const hours = settings.withdrawalCoolingOffHours;
+  if (hours !== null && hours !== undefined &&
+      (!Number.isInteger(hours) || hours < 0 || hours > SAVINGS_LIMITS.MAX_COOLING_OFF_HOURS)) {
+    return `Cooling-off period must be between 0 and ${SAVINGS_LIMITS.MAX_COOLING_OFF_HOURS} hours`;
+  }
+
+  return null;
+}
+
+/**
+ * Decide whether a withdrawal may go ahead. Balance and limits are checked
+ * before two-factor confirmation so users aren't asked for a code needlessly.
+ */
+export function checkWithdrawal(check: WithdrawalCheck): WithdrawalDecision {
+  if (check.amountMinor > check.availableMinor) {
+    return { allowed: false, reason: 'INSUFFICIENT_BALANCE', message: 'Insufficient balance' };
+  }
+
+  if (check.withdrawalsToday >= SAVINGS_LIMITS.MAX_DAILY_WITHDRAWALS) {
+    return {
+      allowed: false,
+      reason: 'DAILY_COUNT',
+      message: `You can make at most ${SAVINGS_LIMITS.MAX_DAILY_WITHDRAWALS} withdrawals per day`
+    };
+  }
+
+  if (check.withdrawnTodayMinor + check.amountMinor > check.dailyLimitMinor) {
+    return { allowed: false, reason: 'DAILY_LIMIT', message: 'Withdrawal exceeds your daily limit' };
+  }
+
+  if (check.amountMinor >= check.largeWithdrawalMinor) {
+    if (!check.twoFactorEnabled) {
+      return {
+        allowed: false,
+        reason: 'TWO_FACTOR_DISABLED',
+        message: 'Enable two-factor authentication to make large withdrawals'
+      };
+    }
+    if (!check.twoFactorVerified) {
+      return { allowed: false, reason: 'TWO_FACTOR_REQUIRED', message: 'Two-factor confirmation required' };
+    }
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * When a withdrawal requested at `now` may be sent on chain, or null to send it immediately
+ */
+export function getCoolingOffEnd(now: Date, settings: WithdrawalSettings): Date | null {
+  const hours = settings.withdrawalCoolingOffHours;
+  if (!hours) return null;
+
+  return new Date(now.getTime() + hours * 60 * 60 * 1000);
+}
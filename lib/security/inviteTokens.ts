@@ -0,0 +1,56 @@
+import jwt from 'jsonwebtoken';
+
+const CHALLENGE_INVITE_PURPOSE = 'challenge_invite';
+
+export interface ChallengeInviteTokenPayload {
+  inviteId: string;
+  challengeId: string;
+}
+
+function getSigningSecret(): string {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('Invite links are not configured');
+  }
+  return secret;
+}
+
+/**
+ * Sign a shareable challenge join link token that expires with its invite
+ */
+export function signChallengeInviteToken(
+  payload: ChallengeInviteTokenPayload,
+  expiresAt: Date
+): string {
+  return jwt.sign(
+    {
+      purpose: CHALLENGE_INVITE_PURPOSE,
+      inviteId: payload.inviteId,
+      challengeId: payload.challengeId,
+      exp: Math.floor(expiresAt.getTime() / 1000)
+    },
+    getSigningSecret()
+  );
+}
+
+/**
+ * Verify a join link token, returning null when it is forged, expired or
+ * signed for something else
+ */
+export function verifyChallengeInviteToken(token: string): ChallengeInviteTokenPayload | null {
+  try {
+    const decoded = jwt.verify(token, getSigningSecret());
+    if (
+      typeof decoded !== 'object' ||
+      decoded.purpose !== CHALLENGE_INVITE_PURPOSE ||
+      typeof decoded.inviteId !== 'string' ||
+      typeof decoded.challengeId !== 'string'
+    ) {
+      return null;
+    }
+
+    return { inviteId: decoded.inviteId, challengeId: decoded.challengeId };
+  } catch {
+    return null;
+  }
+}
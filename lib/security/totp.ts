@@ -0,0 +1,141 @@
+import crypto from 'crypto';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+// Six-digit codes can be guessed without a limit on tries, so a user is locked
+// out for a while after too many wrong codes in a row
+export const TOTP_ATTEMPT_LIMITS = {
+  maxAttempts: 5,
+  lockoutMs: 15 * 60 * 1000
+};
+
+export interface TotpOptions {
+  digits?: number;
+  period?: number; // Seconds per code
+  window?: number; // Codes either side of the current one that are still accepted
+}
+
+/**
+ * Decode an RFC 4648 base32 secret, as shown to users by authenticator apps
+ */
+export function decodeBase32(secret: string): Buffer {
+  const cleaned = secret.toUpperCase().replace(/[\s=-]/g, '');
+  let bits = '';
+
+  for (const char of cleaned) {
+    const value = BASE32_ALPHABET.indexOf(char);
+    if (value === -1) {
+      throw new Error('Invalid base32 secret');
+    }
+    bits += value.toString(2).padStart(5, '0');
+  }
+
+  const bytes: number[] = [];
+  for (let i = 0; i + 8 <= bits.length; i += 8) {
+    bytes.push(parseInt(bits.slice(i, i + 8), 2));
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * Generate the RFC 6238 time-based code for a secret
+ */
+export function generateTotp(
+  secret: string | Buffer,
+  now: Date = new Date(),
+  options: TotpOptions = {}
+): string {
+  const { digits = 6, period = 30 } = options;
+  const key = typeof secret === 'string' ? decodeBase32(secret) : secret;
+  const counter = Math.floor(now.getTime() / 1000 / period);
+
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = crypto.createHmac('sha1', key).update(message).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const code = (hmac.readUInt32BE(offset) & 0x7fffffff) % Math.pow(10, digits);
+
+  return code.toString().padStart(digits, '0');
+}
+
+/**
+ * Encode bytes as an RFC 4648 base32 secret, without padding
+ */
+export function encodeBase32(bytes: Buffer): string {
+  let bits = '';
+  for (const byte of bytes) {
+    bits += byte.toString(2).padStart(8, '0');
+  }
+
+  let secret = '';
+  for (let i = 0; i < bits.length; i += 5) {
+    secret += BASE32_ALPHABET[parseInt(bits.slice(i, i + 5).padEnd(5, '0'), 2)];
+  }
+
+  return secret;
+}
+
+/**
+ * Generate a random base32 secret to enroll in an authenticator app
+ */
+export function generateTotpSecret(bytes: number = 20): string {
+  return encodeBase32(crypto.randomBytes(bytes));
+}
+
+/**
+ * The otpauth:// URL authenticator apps scan to add an account
+ */
+export function getTotpUri(secret: string, account: string, issuer: string): string {
+  const label = encodeURIComponent(`${issuer}:${account}`);
+  return `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(issuer)}`;
+}
+
+/**
+ * The time step a code belongs to, allowing for small clock drift, or null
+ * when it doesn't match. Recording the last step used stops a code from being
+ * replayed.
+ */
+export function findTotpStep(
+  secret: string | Buffer,
+  token: string,
+  now: Date = new Date(),
+  options: TotpOptions = {}
+): number | null {
+  const { digits = 6, period = 30, window = 1 } = options;
+  if (!new RegExp(`^\\d{${digits}}$`).test(token)) return null;
+
+  const currentStep = Math.floor(now.getTime() / 1000 / period);
+
+  for (let step = -window; step <= window; step++) {
+    const candidate = generateTotp(secret, new Date(now.getTime() + step * period * 1000), { digits, period });
+    if (crypto.timingSafeEqual(Buffer.from(candidate), Buffer.from(token))) {
+      return currentStep + step;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Verify a time-based code, allowing for small clock drift
+ */
+export function verifyTotp(
+  secret: string | Buffer,
+  token: string,
+  now: Date = new Date(),
+  options: TotpOptions = {}
+): boolean {
+  return findTotpStep(secret, token, now, options) !== null;
+}
+
+/**
+ * When a user is locked out after trying a code, counting that attempt,
+ * or null if they may keep trying
+ */
+export function getTotpLockout(attempts: number, now: Date = new Date()): Date | null {
+  return attempts > TOTP_ATTEMPT_LIMITS.maxAttempts
+    ? new Date(now.getTime() + TOTP_ATTEMPT_LIMITS.lockoutMs)
+    : null;
+}
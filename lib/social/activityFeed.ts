@@ -0,0 +1,87 @@
+import { FX_BASE_CURRENCY } from '../fx/conversion';
+import { formatMoney, moneyFromMinor } from '../utils/money';
+
+export type ActivityKind = 'FRIEND_JOINED' | 'ACHIEVEMENT_UNLOCKED' | 'CHALLENGE_COMPLETED' | 'SAVINGS_MILESTONE';
+
+export type ActivityReactionKind = 'LIKE' | 'CELEBRATE' | 'CHEER';
+
+// What each activity type stores for the feed to show
+export interface ActivityDataByType {
+  FRIEND_JOINED: { friendId: string; friendUsername: string };
+  ACHIEVEMENT_UNLOCKED: { achievementId: string; name: string; icon: string };
+  CHALLENGE_COMPLETED: { challengeId: string; title: string; rank: number; tier: string | null };
+  SAVINGS_MILESTONE: { amountMinor: number; currency: string };
+}
+
+export const FEED_LIMITS = {
+  DEFAULT_PAGE_SIZE: 20,
+  MAX_PAGE_SIZE: 50,
+  MAX_COMMENT_LENGTH: 500
+} as const;
+
+export const ACTIVITY_REACTIONS: ActivityReactionKind[] = ['LIKE', 'CELEBRATE', 'CHEER'];
+
+// Lifetime savings worth sharing, in minor units of the FX base currency
+export const SAVINGS_MILESTONES_MINOR = [100, 500, 1000, 2500, 5000, 10000, 25000, 50000, 100000]
+  .map(amount => amount * 100);
+
+/**
+ * Savings milestones passed when lifetime savings go from `previousMinor` to
+ * `currentMinor`. Nothing is passed when savings go down.
+ */
+export function getCrossedSavingsMilestones(previousMinor: number, currentMinor: number): number[] {
+  return SAVINGS_MILESTONES_MINOR.filter(milestone => previousMinor < milestone && currentMinor >= milestone);
+}
+
+/**
+ * The feed line for an activity, to follow the username
+ */
+export function describeActivity<T extends ActivityKind>(type: T, data: ActivityDataByType[T]): string {
+  switch (type) {
+    case 'FRIEND_JOINED': {
+      const { friendUsername } = data as ActivityDataByType['FRIEND_JOINED'];
+      return `is now friends with ${friendUsername}`;
+    }
+    case 'ACHIEVEMENT_UNLOCKED': {
+      const { name, icon } = data as ActivityDataByType['ACHIEVEMENT_UNLOCKED'];
+      return `unlocked "${name}" ${icon}`;
+    }
+    case 'CHALLENGE_COMPLETED': {
+      const { title, rank } = data as ActivityDataByType['CHALLENGE_COMPLETED'];
+      return rank === 1 ? `won the challenge "${title}"` : `finished #${rank} in the challenge "${title}"`;
+    }
+    case 'SAVINGS_MILESTONE': {
+      const { amountMinor, currency } = data as ActivityDataByType['SAVINGS_MILESTONE'];
+      return `has saved ${formatMoney(moneyFromMinor(amountMinor, currency || FX_BASE_CURRENCY))} in total`;
+    }
+    default:
+      return 'had some activity';
+  }
+}
+
+/**
+ * Validate a comment, returning an error message or null
+ */
+export function validateComment(body: unknown): string | null {
+  if (typeof body !== 'string' || body.trim().length === 0) {
+    return 'Comment cannot be empty';
+  }
+
+  if (body.length > FEED_LIMITS.MAX_COMMENT_LENGTH) {
+    return `Comment must be at most ${FEED_LIMITS.MAX_COMMENT_LENGTH} characters`;
+  }
+
+  return null;
+}
+
+/**
+ * Clamp a requested feed page size, falling back to the default for anything
+ * that isn't a positive number
+ */
+export function getFeedPageSize(limit?: number | null): number {
+  if (!limit || !Number.isFinite(limit) || limit < 1) {
+    return FEED_LIMITS.DEFAULT_PAGE_SIZE;
+  }
+
+  return Math.min(Math.floor(limit), FEED_LIMITS.MAX_PAGE_SIZE);
+}
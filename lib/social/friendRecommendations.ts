@@ -0,0 +1,120 @@
+// Why a user might know a recommended friend
+export interface RecommendationSignals {
+  mutualFriends: number;
+  sharedChallenges: string[]; // Titles of challenges both are in
+  similarLevel: boolean;
+  sameCountry: boolean;
+  sameTimezone: boolean;
+  referral: 'referred_you' | 'you_referred' | null;
+}
+
+export const RECOMMENDATION_WEIGHTS = {
+  REFERRAL: 25,
+  MUTUAL_FRIEND: 10,
+  SHARED_CHALLENGE: 8,
+  SIMILAR_LEVEL: 4,
+  SAME_COUNTRY: 3,
+  SAME_TIMEZONE: 2
+} as const;
+
+export const RECOMMENDATION_LIMITS = {
+  DEFAULT_COUNT: 10,
+  MAX_COUNT: 50,
+  CANDIDATE_POOL: 200, // Candidates scored per user
+  MAX_SCORED_MUTUALS: 10, // Mutual friends past this add nothing
+  MAX_SCORED_CHALLENGES: 5,
+  MAX_REASONS: 2, // Parts of the explanation shown
+  LEVEL_GAP: 1, // Levels apart that still count as similar
+  CACHE_TTL_MS: 10 * 60 * 1000,
+  CACHE_MAX_USERS: 1000 // Users whose recommendations are kept in memory at once
+} as const;
+
+export const NO_REASON = 'Active saver';
+
+/**
+ * Whether two savings levels are close enough to count as similar
+ */
+export function isSimilarLevel(level: number, otherLevel: number): boolean {
+  return Math.abs(level - otherLevel) <= RECOMMENDATION_LIMITS.LEVEL_GAP;
+}
+
+/**
+ * Score a candidate. Mutual friends and shared challenges count per friend or
+ * challenge up to a cap, so one signal can't drown out the rest.
+ */
+export function scoreRecommendation(signals: RecommendationSignals): number {
+  return (
+    (signals.referral ? RECOMMENDATION_WEIGHTS.REFERRAL : 0) +
+    Math.min(signals.mutualFriends, RECOMMENDATION_LIMITS.MAX_SCORED_MUTUALS) * RECOMMENDATION_WEIGHTS.MUTUAL_FRIEND +
+    Math.min(signals.sharedChallenges.length, RECOMMENDATION_LIMITS.MAX_SCORED_CHALLENGES) * RECOMMENDATION_WEIGHTS.SHARED_CHALLENGE +
+    (signals.similarLevel ? RECOMMENDATION_WEIGHTS.SIMILAR_LEVEL : 0) +
+    (signals.sameCountry ? RECOMMENDATION_WEIGHTS.SAME_COUNTRY : 0) +
+    (signals.sameTimezone ? RECOMMENDATION_WEIGHTS.SAME_TIMEZONE : 0)
+  );
+}
+
+/**
+ * Explain a recommendation from its strongest signals, such as
+ * "3 mutual friends, both in Save-March"
+ */
+export function explainRecommendation(signals: RecommendationSignals): string {
+  const reasons: string[] = [];
+
+  if (signals.referral === 'referred_you') {
+    reasons.push('Invited you to MorphSave');
+  } else if (signals.referral === 'you_referred') {
+    reasons.push('Joined with your invite');
+  }
+
+  if (signals.mutualFriends > 0) {
+    reasons.push(`${signals.mutualFriends} mutual friend${signals.mutualFriends > 1 ? 's' : ''}`);
+  }
+
+  const [challenge, ...otherChallenges] = signals.sharedChallenges;
+  if (challenge) {
+    reasons.push(otherChallenges.length > 0
+      ? `both in ${challenge} and ${otherChallenges.length} more`
+      : `both in ${challenge}`);
+  }
+
+  if (signals.similarLevel) reasons.push('similar savings level');
+  if (signals.sameCountry) reasons.push('lives in your country');
+  if (signals.sameTimezone) reasons.push('in your timezone');
+
+  if (reasons.length === 0) {
+    return NO_REASON;
+  }
+
+  const explanation = reasons.slice(0, RECOMMENDATION_LIMITS.MAX_REASONS).join(', ');
+  return explanation.charAt(0).toUpperCase() + explanation.slice(1);
+}
+
+/**
+ * Rank candidates best first, dropping those with nothing in common with the
+ * user. Ties keep their given order.
+ */
+export function rankRecommendations<T extends { signals: RecommendationSignals }>(
+  candidates: T[],
+  limit: number = RECOMMENDATION_LIMITS.DEFAULT_COUNT
+): Array<T & { score: number; reason: string }> {
+  return candidates
+    .map(candidate => ({
+      ...candidate,
+      score: scoreRecommendation(candidate.signals),
+      reason: explainRecommendation(candidate.signals)
+    }))
+    .filter(candidate => candidate.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+/**
+ * Clamp a requested number of recommendations
+ */
+export function getRecommendationCount(limit?: number | null): number {
+  if (!limit || !Number.isFinite(limit) || limit < 1) {
+    return RECOMMENDATION_LIMITS.DEFAULT_COUNT;
+  }
+
+  return Math.min(Math.floor(limit), RECOMMENDATION_LIMITS.MAX_COUNT);
+}
@@ -0,0 +1,40 @@
+export const MESSAGE_LIMITS = {
+  MAX_LENGTH: 2000,
+  DEFAULT_PAGE_SIZE: 30,
+  MAX_PAGE_SIZE: 100
+} as const;
+
+/**
+ * The key a direct conversation between two users is stored under, the same
+ * whichever of them opens it
+ */
+export function getDirectConversationKey(userId: string, otherUserId: string): string {
+  return [userId, otherUserId].sort().join(':');
+}
+
+/**
+ * Validate a message body, returning an error message or null
+ */
+export function validateMessageBody(body: unknown): string | null {
+  if (typeof body !== 'string' || body.trim().length === 0) {
+    return 'Message cannot be empty';
+  }
+
+  if (body.length > MESSAGE_LIMITS.MAX_LENGTH) {
+    return `Message must be at most ${MESSAGE_LIMITS.MAX_LENGTH} characters`;
+  }
+
+  return null;
+}
+
+/**
+ * Clamp a requested history page size, falling back to the default for
+ * anything that isn't a positive number
+ */
+export function getMessagePageSize(limit?: number | null): number {
+  if (!limit || !Number.isFinite(limit) || limit < 1) {
+    return MESSAGE_LIMITS.DEFAULT_PAGE_SIZE;
+  }
+
+  return Math.min(Math.floor(limit), MESSAGE_LIMITS.MAX_PAGE_SIZE);
+}
@@ -0,0 +1,133 @@
+export type PrivacySetting = 'PUBLIC' | 'FRIENDS' | 'PRIVATE';
+
+// How the viewer is related to the user being looked at
+export type ViewerRelation = 'self' | 'friend' | 'blocked' | 'none';
+
+// What a viewer may see of another user
+export interface ProfileVisibility {
+  listed: boolean; // Found by username in search, suggestions and leaderboards
+  identity: boolean; // Real name, photo and bio
+  stats: boolean; // Level, points and streaks, and leaderboard entries under their name
+  amounts: boolean; // Money saved
+  achievements: boolean;
+  activity: boolean;
+}
+
+export type VisibilityField = keyof ProfileVisibility;
+
+export const PRIVACY_SETTINGS: PrivacySetting[] = ['PUBLIC', 'FRIENDS', 'PRIVATE'];
+
+// Shown in place of users who appear somewhere they can't be named, such as a
+// challenge leaderboard
+export const ANONYMOUS_USERNAME = 'Private saver';
+
+// Profile fields covered by each part of the policy
+export const PROFILE_FIELD_VISIBILITY: Record<string, VisibilityField> = {
+  firstName: 'identity',
+  lastName: 'identity',
+  profileImage: 'identity',
+  bio: 'identity',
+  level: 'stats',
+  totalPoints: 'stats',
+  currentStreak: 'stats',
+  longestStreak: 'stats',
+  totalSaved: 'amounts',
+  currency: 'amounts',
+  achievements: 'achievements'
+};
+
+const EVERYTHING: ProfileVisibility = {
+  listed: true,
+  identity: true,
+  stats: true,
+  amounts: true,
+  achievements: true,
+  activity: true
+};
+
+const NOTHING: ProfileVisibility = {
+  listed: false,
+  identity: false,
+  stats: false,
+  amounts: false,
+  achievements: false,
+  activity: false
+};
+
+/**
+ * What a viewer may see of a user under the user's privacy setting:
+ *
+ * - PUBLIC shows everything to everyone.
+ * - FRIENDS shows everything to friends; anyone else only finds the username.
+ * - PRIVATE hides the user from search and leaderboards. Friends still see who
+ *   they are, but nothing else.
+ *
+ * Users always see all of themselves, and blocked users see nothing.
+ */
+export function getProfileVisibility(privacy: PrivacySetting, relation: ViewerRelation): ProfileVisibility {
+  if (relation === 'self') return EVERYTHING;
+  if (relation === 'blocked') return NOTHING;
+
+  switch (privacy) {
+    case 'PUBLIC':
+      return EVERYTHING;
+    case 'FRIENDS':
+      return relation === 'friend' ? EVERYTHING : { ...NOTHING, listed: true };
+    default:
+      return relation === 'friend' ? { ...NOTHING, identity: true } : NOTHING;
+  }
+}
+
+/**
+ * Whether a viewer can see someone's activity under their privacy setting
+ */
+export function canViewActivity(privacy: PrivacySetting, relation: ViewerRelation): boolean {
+  return getProfileVisibility(privacy, relation).activity;
+}
+
+/**
+ * The privacy settings under which a viewer with the given relation may see
+ * `field`, for filtering queries up front
+ */
+export function getPrivacySettingsShowing(field: VisibilityField, relation: ViewerRelation): PrivacySetting[] {
+  return PRIVACY_SETTINGS.filter(privacy => getProfileVisibility(privacy, relation)[field]);
+}
+
+/**
+ * Whether a profile is hidden outright, as if the user didn't exist
+ */
+export function isProfileHidden(visibility: ProfileVisibility): boolean {
+  return !visibility.listed && !visibility.identity;
+}
+
+/**
+ * Copy of a profile with the fields the viewer may not see left out. Fields
+ * the policy doesn't cover, such as the id and username, are kept, except the
+ * privacy setting itself.
+ */
+export function redactProfile<T extends object>(profile: T, visibility: ProfileVisibility): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(profile).filter(([field]) => {
+      const part = PROFILE_FIELD_VISIBILITY[field];
+      return field !== 'privacyLevel' && (!part || visibility[part]);
+    })
+  ) as Partial<T>;
+}
+
+/**
+ * Leaderboard entry as the viewer may see it: entries of users whose stats
+ * are hidden keep their place but lose their name and photo
+ */
+export function anonymizeEntry<T extends { username: string }>(entry: T, visibility: ProfileVisibility): T {
+  if (visibility.stats) {
+    return entry;
+  }
+
+  return {
+    ...entry,
+    username: ANONYMOUS_USERNAME,
+    firstName: undefined,
+    lastName: undefined,
+    profileImage: undefined
+  };
+}
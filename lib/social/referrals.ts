@@ -0,0 +1,92 @@
+export type ReferralSyncStatus = 'INVITED' | 'SIGNED_UP';
+
+export interface ReferralSyncState {
+  status: ReferralSyncStatus;
+  convertedAt: Date | null;
+  onChainTxHash: string | null;
+  onChainSyncingAt: Date | null;
+  onChainSyncedAt: Date | null;
+}
+
+export const REFERRAL_SYNC_LIMITS = {
+  // Referrals converted more recently may still be syncing from sign-up, so
+  // retries leave them alone to avoid recording them twice
+  retryDelayMs: 10 * 60 * 1000,
+  // A claim this old without a saved hash belongs to a sync that died before
+  // sending, so it can be taken over
+  claimTimeoutMs: 10 * 60 * 1000
+};
+
+const REFERRAL_CODE_PATTERN = /^[A-Z0-9]{4,16}$/;
+
+/**
+ * Normalise a referral code as typed or pasted by a new user, or null if it
+ * can't be one of ours
+ */
+export function normalizeReferralCode(code: unknown): string | null {
+  if (typeof code !== 'string') return null;
+
+  const normalized = code.trim().toUpperCase();
+  return REFERRAL_CODE_PATTERN.test(normalized) ? normalized : null;
+}
+
+/**
+ * Check whether a referral code owner can be credited with a new user
+ */
+export function getReferralAttributionError(
+  referrer: { id: string; isActive: boolean } | null,
+  referredUserId: string
+): string | null {
+  if (!referrer) {
+    return 'Referral code not found';
+  }
+
+  if (!referrer.isActive) {
+    return 'Referrer account is inactive';
+  }
+
+  if (referrer.id === referredUserId) {
+    return 'Users cannot refer themselves';
+  }
+
+  return null;
+}
+
+/**
+ * Get the cut-offs a sync retry uses to skip fresh referrals and live claims
+ */
+export function getReferralSyncCutoffs(now: Date): { convertedBefore: Date; claimedBefore: Date } {
+  return {
+    convertedBefore: new Date(now.getTime() - REFERRAL_SYNC_LIMITS.retryDelayMs),
+    claimedBefore: new Date(now.getTime() - REFERRAL_SYNC_LIMITS.claimTimeoutMs)
+  };
+}
+
+/**
+ * Check whether a sync may claim a referral and send it on chain
+ */
+export function canClaimReferralSync(referral: ReferralSyncState, now: Date): boolean {
+  if (referral.status !== 'SIGNED_UP' || referral.onChainSyncedAt || referral.onChainTxHash) {
+    return false;
+  }
+
+  const { claimedBefore } = getReferralSyncCutoffs(now);
+  return !referral.onChainSyncingAt || referral.onChainSyncingAt < claimedBefore;
+}
+
+/**
+ * Check whether a sync retry should pick a referral up. Sent transactions
+ * are picked up so they can be resolved by hash.
+ */
+export function isReferralSyncDue(referral: ReferralSyncState, now: Date): boolean {
+  if (referral.status !== 'SIGNED_UP' || referral.onChainSyncedAt || !referral.convertedAt) {
+    return false;
+  }
+
+  const { convertedBefore } = getReferralSyncCutoffs(now);
+  if (referral.convertedAt >= convertedBefore) {
+    return false;
+  }
+
+  return Boolean(referral.onChainTxHash) || canClaimReferralSync(referral, now);
+}
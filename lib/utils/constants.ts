@@ -36,4 +36,10 @@ export const ROUND_UP_LIMITS = {
 export const SAVINGS_LIMITS = {
   MIN_INVESTMENT: 10, // $10 minimum for DeFi investment
   MAX_DAILY_ROUNDUP: 50, // $50 max daily round-ups
+  MAX_WEEKLY_ROUNDUP: 250, // $250 max weekly round-ups
+  MAX_MONTHLY_ROUNDUP: 1000, // $1000 max monthly round-ups
+  MAX_DAILY_WITHDRAWAL: 5000, // $5000 max withdrawn per day
+  MAX_DAILY_WITHDRAWALS: 5, // Withdrawal requests per day
+  LARGE_WITHDRAWAL: 1000, // Withdrawals from $1000 need two-factor confirmation
+  MAX_COOLING_OFF_HOURS: 168, // One week
 } as const
\ No newline at end of file
@@ -1,25 +1,38 @@
 import { type ClassValue, clsx } from "clsx"
 import { twMerge } from "tailwind-merge"
+import { Money, formatMoney, toMinorUnits } from "./money"
+import { LEVEL_THRESHOLDS } from "./constants"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
 
-export function formatCurrency(amount: number, currency: string = 'USD'): string {
+export function formatCurrency(amount: number | Money, currency: string = 'USD'): string {
+  if (typeof amount !== 'number') {
+    return formatMoney(amount)
+  }
+
   return new Intl.NumberFormat('en-US', {
     style: 'currency',
     currency,
   }).format(amount)
 }
 
+export function toCents(amount: number): number {
+  return toMinorUnits(amount, 'USD')
+}
+
 export function calculateRoundUp(amount: number, roundUpTo: number = 1): number {
-  const remainder = amount % roundUpTo
-  return remainder === 0 ? 0 : roundUpTo - remainder
+  // Integer cents avoid floating-point remainders (3.10 % 1 !== 0.1)
+  const amountCents = toCents(amount)
+  const stepCents = toCents(roundUpTo)
+  if (stepCents <= 0) return 0
+
+  const remainder = amountCents % stepCents
+  return remainder === 0 ? 0 : (stepCents - remainder) / 100
 }
 
 export function calculateLevel(points: number): number {
-  const LEVEL_THRESHOLDS = [0, 100, 300, 600, 1000, 1500, 2100, 2800, 3600, 4500, 5500]
-  
   for (let i = LEVEL_THRESHOLDS.length - 1; i >= 0; i--) {
     if (points >= LEVEL_THRESHOLDS[i]) {
       return i + 1
@@ -42,4 +55,16 @@ export function generateUsername(): string {
   const number = Math.floor(Math.random() * 1000)
   
   return `${adjective}${noun}${number}`
+}
+
+export function generateReferralCode(length: number = 8): string {
+  // Unambiguous characters only (no 0/O, 1/I/L)
+  const alphabet = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789'
+  let code = ''
+
+  for (let i = 0; i < length; i++) {
+    code += alphabet[Math.floor(Math.random() * alphabet.length)]
+  }
+
+  return code
 }
\ No newline at end of file
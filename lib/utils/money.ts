@@ -0,0 +1,158 @@
+/**
+ * Money is stored and summed as integer minor units (cents for USD) so that
+ * totals never accumulate binary floating-point rounding errors. Convert to
+ * major units (dollars) only at the edges: user input, API responses and display.
+ */
+export interface Money {
+  minor: number; // Integer amount in the currency's minor unit
+  currency: string;
+}
+
+export interface MoneyJSON {
+  amount: number; // Major units, exact to the currency's minor unit
+  currency: string;
+}
+
+export const DEFAULT_CURRENCY = 'USD';
+
+const exponentCache = new Map<string, number>();
+
+/**
+ * Number of minor-unit digits for a currency (2 for USD, 0 for JPY, 3 for KWD)
+ */
+export function getCurrencyExponent(currency: string = DEFAULT_CURRENCY): number {
+  const code = currency.toUpperCase();
+  const cached = exponentCache.get(code);
+  if (cached !== undefined) return cached;
+
+  let exponent = 2;
+  try {
+    exponent = new Intl.NumberFormat('en-US', { style: 'currency', currency: code })
+      .resolvedOptions().maximumFractionDigits ?? 2;
+  } catch {
+    // Unknown currency codes fall back to two decimals
+  }
+
+  exponentCache.set(code, exponent);
+  return exponent;
+}
+
+/**
+ * Convert a major-unit amount to integer minor units, rounding half away from zero
+ */
+export function toMinorUnits(amount: number, currency: string = DEFAULT_CURRENCY): number {
+  if (!Number.isFinite(amount)) {
+    throw new Error('Invalid money amount');
+  }
+
+  // Drop float error past 15 significant digits so 1.005 becomes 100.5 rather than 100.49999...
+  const shifted = Number((Math.abs(amount) * 10 ** getCurrencyExponent(currency)).toPrecision(15));
+  if (shifted > Number.MAX_SAFE_INTEGER) {
+    throw new Error('Money amount is too large');
+  }
+
+  return Math.sign(amount) * Math.round(shifted);
+}
+
+/**
+ * Convert integer minor units to a major-unit number
+ */
+export function fromMinorUnits(minor: number, currency: string = DEFAULT_CURRENCY): number {
+  return minor / 10 ** getCurrencyExponent(currency);
+}
+
+/**
+ * Create money from a major-unit amount
+ */
+export function money(amount: number, currency: string = DEFAULT_CURRENCY): Money {
+  return { minor: toMinorUnits(amount, currency), currency: currency.toUpperCase() };
+}
+
+/**
+ * Create money from integer minor units
+ */
+export function moneyFromMinor(minor: number, currency: string = DEFAULT_CURRENCY): Money {
+  if (!Number.isInteger(minor)) {
+    throw new Error('Minor units must be an integer');
+  }
+  return { minor, currency: currency.toUpperCase() };
+}
+
+/**
+ * Add amounts in the same currency
+ */
+export function addMoney(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return { minor: a.minor + b.minor, currency: a.currency };
+}
+
+/**
+ * Subtract amounts in the same currency
+ */
+export function subtractMoney(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return { minor: a.minor - b.minor, currency: a.currency };
+}
+
+/**
+ * Sum amounts in the same currency
+ */
+export function sumMoney(values: Money[], currency: string = DEFAULT_CURRENCY): Money {
+  return values.reduce(
+    (total, value) => addMoney(total, value),
+    moneyFromMinor(0, currency)
+  );
+}
+
+/**
+ * Multiply money by a factor, rounding to the nearest minor unit
+ */
+export function multiplyMoney(value: Money, factor: number): Money {
+  const product = value.minor * factor;
+  return { minor: Math.sign(product) * Math.round(Math.abs(product)), currency: value.currency };
+}
+
+/**
+ * Percentage of an amount, e.g. percentOf(money(200), 5) is $10.00
+ */
+export function percentOf(value: Money, percent: number): Money {
+  return multiplyMoney(value, percent / 100);
+}
+
+/**
+ * Compare two amounts in the same currency: negative if a < b, 0 if equal, positive if a > b
+ */
+export function compareMoney(a: Money, b: Money): number {
+  assertSameCurrency(a, b);
+  return a.minor - b.minor;
+}
+
+/**
+ * Major-unit number for a money value
+ */
+export function toMajorUnits(value: Money): number {
+  return fromMinorUnits(value.minor, value.currency);
+}
+
+/**
+ * Serialize money for API responses
+ */
+export function toMoneyJSON(value: Money): MoneyJSON {
+  return { amount: toMajorUnits(value), currency: value.currency };
+}
+
+/**
+ * Format money for display
+ */
+export function formatMoney(value: Money, locale: string = 'en-US'): string {
+  return new Intl.NumberFormat(locale, {
+    style: 'currency',
+    currency: value.currency
+  }).format(toMajorUnits(value));
+}
+
+function assertSameCurrency(a: Money, b: Money): void {
+  if (a.currency !== b.currency) {
+    throw new Error(`Currency mismatch: ${a.currency} and ${b.currency}`);
+  }
+}
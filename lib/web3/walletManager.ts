@@ -275,6 +275,34 @@ export async function sendTransaction(
     gasPrice?: string;
   }
 ): Promise<{ hash: string; receipt?: ethers.TransactionReceipt } | null> {
+  const txResponse = await broadcastTransaction(userId, transaction);
+  if (!txResponse) return null;
+
+  try {
+    return {
+      hash: txResponse.hash,
+      receipt: await txResponse.wait() ?? undefined
+    };
+  } catch (error) {
+    console.error('Error sending transaction:', error);
+    return null;
+  }
+}
+
+/**
+ * Send a transaction from the user's wallet without waiting for it to be
+ * mined, so its hash can be saved first
+ */
+export async function broadcastTransaction(
+  userId: string,
+  transaction: {
+    to: string;
+    value?: string;
+    data?: string;
+    gasLimit?: string;
+    gasPrice?: string;
+  }
+): Promise<ethers.TransactionResponse | null> {
   try {
     const wallet = await getUserWallet(userId);
     if (!wallet) {
@@ -297,13 +325,7 @@ export async function sendTransaction(
       gasPrice: transaction.gasPrice ? BigInt(transaction.gasPrice) : undefined
     };
 
-    // Send transaction
-    const txResponse = await connectedWallet.sendTransaction(tx);
-    
-    return {
-      hash: txResponse.hash,
-      receipt: await txResponse.wait()
-    };
+    return await connectedWallet.sendTransaction(tx);
   } catch (error) {
     console.error('Error sending transaction:', error);
     return null;
@@ -1,5 +1,12 @@
 import { getWebSocketServer } from './server';
+import { FriendshipStatus } from '@prisma/client';
 import { prisma } from '../db/prisma';
+import { fromMinorUnits } from '../utils/money';
+import { ActivityDataByType, ActivityKind, describeActivity } from '../social/activityFeed';
+import { anonymizeEntry, getProfileVisibility } from '../social/privacy';
+import { STREAK_LIMITS, getRepairDeadline } from '../gamification/streaks';
+import { getLevelProgress } from '../gamification/points';
+import { StreakData } from './types';
 
 // Integration functions to broadcast updates from various services
 
@@ -66,7 +73,7 @@ export class WebSocketIntegration {
       getWebSocketServer().broadcastTransactionUpdate(userId, {
         id: transaction.id,
         type: transaction.type as any,
-        amount: transaction.amount,
+        amount: fromMinorUnits(transaction.amountMinor, transaction.currency),
         status: transaction.status as any,
         blockchainTxHash: transaction.blockchainTxHash || undefined,
         timestamp: transaction.createdAt
@@ -89,6 +96,9 @@ export class WebSocketIntegration {
               }
             },
             orderBy: { currentProgress: 'desc' }
+          },
+          teams: {
+            orderBy: { rank: 'asc' }
           }
         }
       });
@@ -104,7 +114,15 @@ export class WebSocketIntegration {
           rank: index + 1
         })),
         totalProgress: challenge.participants.reduce((sum, p) => sum + p.currentProgress, 0),
-        timeRemaining: Math.max(0, challenge.endDate.getTime() - Date.now())
+        timeRemaining: Math.max(0, challenge.endDate.getTime() - Date.now()),
+        ...(challenge.teamScoring && {
+          teams: challenge.teams.map((team, index) => ({
+            teamId: team.id,
+            name: team.name,
+            progress: team.progress,
+            rank: team.rank || index + 1
+          }))
+        })
       };
 
       getWebSocketServer().broadcastChallengeProgress(challengeId, progressData);
@@ -113,28 +131,102 @@ export class WebSocketIntegration {
     }
   }
 
+  async broadcastTeamProgress(challengeId: string) {
+    try {
+      const teams = await prisma.challengeTeam.findMany({
+        where: { challengeId },
+        include: {
+          members: {
+            include: {
+              user: {
+                select: { id: true, username: true }
+              }
+            },
+            orderBy: { currentProgress: 'desc' }
+          }
+        },
+        orderBy: { rank: 'asc' }
+      });
+
+      teams.forEach((team, index) => {
+        getWebSocketServer().broadcastTeamProgress(team.id, {
+          challengeId,
+          teamId: team.id,
+          name: team.name,
+          progress: team.progress,
+          rank: team.rank || index + 1,
+          members: team.members.map((member, memberIndex) => ({
+            userId: member.userId,
+            username: member.user.username,
+            progress: member.currentProgress,
+            teamRank: member.teamRank || memberIndex + 1
+          }))
+        });
+      });
+    } catch (error) {
+      console.error('Error broadcasting team progress:', error);
+    }
+  }
+
+  async broadcastMilestoneReached(awardId: string) {
+    try {
+      const award = await prisma.challengeMilestoneAward.findUnique({
+        where: { id: awardId },
+        include: {
+          milestone: true,
+          participant: {
+            include: {
+              user: {
+                select: { username: true }
+              }
+            }
+          }
+        }
+      });
+
+      if (!award) return;
+
+      getWebSocketServer().broadcastMilestoneReached(award.milestone.challengeId, {
+        challengeId: award.milestone.challengeId,
+        milestoneId: award.milestoneId,
+        position: award.milestone.position,
+        percent: award.milestone.percent,
+        points: award.points,
+        userId: award.participant.userId,
+        username: award.participant.user.username,
+        reachedAt: award.reachedAt
+      });
+    } catch (error) {
+      console.error('Error broadcasting milestone reached:', error);
+    }
+  }
+
   async broadcastLeaderboardUpdate(challengeId: string) {
     try {
       const participants = await prisma.challengeParticipant.findMany({
         where: { challengeId },
         include: {
           user: {
-            select: { id: true, username: true, profileImage: true }
+            select: { id: true, username: true, profileImage: true, privacyLevel: true }
           }
         },
         orderBy: { currentProgress: 'desc' },
         take: 10
       });
 
+      // The whole room gets the same update, so it shows what a stranger may see
       const leaderboardData = {
         challengeId,
-        leaderboard: participants.map((p, index) => ({
-          rank: index + 1,
-          userId: p.userId,
-          username: p.user.username,
-          score: p.currentProgress,
-          avatar: p.user.profileImage || undefined
-        })),
+        leaderboard: participants.map((p, index) => {
+          const user = anonymizeEntry(p.user, getProfileVisibility(p.user.privacyLevel, 'none'));
+          return {
+            rank: index + 1,
+            userId: p.userId,
+            username: user.username,
+            score: p.currentProgress,
+            avatar: user.profileImage || undefined
+          };
+        }),
         lastUpdated: new Date()
       };
 
@@ -172,25 +264,30 @@ export class WebSocketIntegration {
     }
   }
 
-  async broadcastStreakUpdate(userId: string) {
+  async broadcastStreakUpdate(userId: string, events: StreakData['events'] = []) {
     try {
       const user = await prisma.user.findUnique({
         where: { id: userId },
         select: {
           currentStreak: true,
           longestStreak: true,
-          totalPoints: true
+          streakFreezes: true,
+          brokenStreak: true,
+          streakBrokenAt: true
         }
       });
 
       if (!user) return;
 
-      const streakData = {
+      const streakData: StreakData = {
         currentStreak: user.currentStreak,
         longestStreak: user.longestStreak,
-        streakType: 'daily_save' as const,
+        streakType: 'daily_save',
         nextMilestone: Math.ceil((user.currentStreak + 1) / 7) * 7, // Next weekly milestone
-        streakBonus: Math.floor(user.currentStreak / 7) * 10 // 10 points per week
+        streakBonus: Math.floor(user.currentStreak / 7) * STREAK_LIMITS.BONUS_PER_WEEK,
+        events,
+        freezes: user.streakFreezes,
+        repairDeadline: getRepairDeadline({ brokenStreak: user.brokenStreak, brokenAt: user.streakBrokenAt })
       };
 
       getWebSocketServer().broadcastStreakUpdate(userId, streakData);
@@ -199,6 +296,26 @@ export class WebSocketIntegration {
     }
   }
 
+  async broadcastLevelUp(userId: string, previousLevel: number) {
+    try {
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { level: true, totalPoints: true }
+      });
+
+      if (!user) return;
+
+      getWebSocketServer().broadcastLevelUp(userId, {
+        level: user.level,
+        previousLevel,
+        totalPoints: user.totalPoints,
+        nextLevelPoints: getLevelProgress(user.totalPoints).nextLevelPoints
+      });
+    } catch (error) {
+      console.error('Error broadcasting level up:', error);
+    }
+  }
+
   // Social features
   async broadcastChallengeInvite(userId: string, challengeId: string, inviterId: string) {
     try {
@@ -256,6 +373,146 @@ export class WebSocketIntegration {
     }
   }
 
+  // Push a new activity to the feeds it was fanned out to
+  async broadcastActivity(activityId: string, userIds: string[]) {
+    try {
+      const activity = await prisma.activity.findUnique({
+        where: { id: activityId },
+        include: {
+          user: {
+            select: { username: true, profileImage: true }
+          }
+        }
+      });
+
+      if (!activity) return;
+
+      getWebSocketServer().broadcastActivity(userIds, {
+        id: activity.id,
+        type: activity.type,
+        userId: activity.userId,
+        username: activity.user.username,
+        profileImage: activity.user.profileImage || undefined,
+        message: describeActivity(activity.type, activity.data as unknown as ActivityDataByType[ActivityKind]),
+        data: activity.data,
+        createdAt: activity.createdAt
+      });
+    } catch (error) {
+      console.error('Error broadcasting activity:', error);
+    }
+  }
+
+  // Messaging
+  async broadcastNewMessage(messageId: string) {
+    try {
+      const message = await prisma.message.findUnique({
+        where: { id: messageId },
+        include: {
+          sender: {
+            select: { username: true }
+          },
+          conversation: {
+            select: { challengeId: true }
+          }
+        }
+      });
+
+      if (!message) return;
+
+      getWebSocketServer().broadcastNewMessage(await this.getMessageRecipientRooms(message.conversationId, message.senderId), {
+        id: message.id,
+        conversationId: message.conversationId,
+        senderId: message.senderId,
+        senderUsername: message.sender.username,
+        message: message.body,
+        challengeId: message.conversation.challengeId || undefined,
+        timestamp: message.createdAt
+      });
+    } catch (error) {
+      console.error('Error broadcasting new message:', error);
+    }
+  }
+
+  async broadcastMessagesRead(conversationId: string, userId: string, readAt: Date) {
+    try {
+      getWebSocketServer().broadcastMessagesRead(await this.getConversationRooms(conversationId), {
+        conversationId,
+        userId,
+        readAt
+      });
+    } catch (error) {
+      console.error('Error broadcasting read receipt:', error);
+    }
+  }
+
+  async broadcastMessageDeleted(conversationId: string, messageId: string) {
+    try {
+      const conversation = await prisma.conversation.findUnique({
+        where: { id: conversationId },
+        select: { challengeId: true }
+      });
+
+      getWebSocketServer().broadcastMessageDeleted(await this.getConversationRooms(conversationId), {
+        conversationId,
+        messageId,
+        challengeId: conversation?.challengeId || undefined
+      });
+    } catch (error) {
+      console.error('Error broadcasting message deletion:', error);
+    }
+  }
+
+  // Challenge rooms go to the challenge room, direct messages to both users
+  private async getConversationRooms(conversationId: string): Promise<string[]> {
+    const conversation = await prisma.conversation.findUnique({
+      where: { id: conversationId },
+      select: {
+        challengeId: true,
+        members: { select: { userId: true } }
+      }
+    });
+
+    if (!conversation) return [];
+
+    return conversation.challengeId
+      ? [`challenge:${conversation.challengeId}`]
+      : conversation.members.map(member => `user:${member.userId}`);
+  }
+
+  // New messages in challenge rooms go to each participant rather than the
+  // room, leaving out anyone who blocked the sender or was blocked by them, as
+  // their history does
+  private async getMessageRecipientRooms(conversationId: string, senderId: string): Promise<string[]> {
+    const conversation = await prisma.conversation.findUnique({
+      where: { id: conversationId },
+      select: { challengeId: true }
+    });
+
+    if (!conversation?.challengeId) {
+      return this.getConversationRooms(conversationId);
+    }
+
+    const [participants, blocks] = await Promise.all([
+      prisma.challengeParticipant.findMany({
+        where: { challengeId: conversation.challengeId },
+        select: { userId: true }
+      }),
+      prisma.friendship.findMany({
+        where: {
+          status: FriendshipStatus.BLOCKED,
+          OR: [{ userId: senderId }, { friendId: senderId }]
+        },
+        select: { userId: true, friendId: true }
+      })
+    ]);
+
+    const blockedIds = new Set(blocks.map(block => (block.userId === senderId ? block.friendId : block.userId)));
+
+    return participants
+      .filter(participant => !blockedIds.has(participant.userId))
+      .map(participant => `user:${participant.userId}`);
+  }
+
   async broadcastNotification(userId: string, notificationData: any) {
     try {
       getWebSocketServer().broadcastNotification(userId, notificationData);
@@ -2,6 +2,17 @@ import { Server as SocketIOServer, Socket } from 'socket.io';
 import { Server as HTTPServer } from 'http';
 import jwt from 'jsonwebtoken';
 import { prisma } from '../db/prisma';
+import { getOrCreateChallengeConversation, getOrCreateDirectConversation, sendMessage } from '../db/messages';
+import {
+  ActivityData,
+  ChallengeMilestoneData,
+  LevelUpData,
+  MessageData,
+  MessageDeletedData,
+  MessagesReadData,
+  SendMessageData,
+  TeamProgressData
+} from './types';
 
 export interface AuthenticatedSocket extends Socket {
   userId: string;
@@ -103,6 +114,32 @@ export class WebSocketServer {
         socket.emit('left_challenge', { challengeId });
       });
 
+      // Handle team rooms in team challenges
+      socket.on('join_team', async (teamId: string) => {
+        try {
+          // Verify user is on the team
+          const membership = await prisma.challengeParticipant.findFirst({
+            where: {
+              teamId,
+              userId: socket.userId
+            }
+          });
+          
+          if (membership) {
+            socket.join(`team:${teamId}`);
+            socket.emit('joined_team', { challengeId: membership.challengeId, teamId });
+          }
+        } catch (error) {
+          console.error('Error joining team room:', error);
+          socket.emit('error', { message: 'Failed to join team room' });
+        }
+      });
+
+      socket.on('leave_team', (teamId: string) => {
+        socket.leave(`team:${teamId}`);
+        socket.emit('left_team', { teamId });
+      });
+
       // Handle friend rooms
       socket.on('join_friends_room', async () => {
         try {
@@ -125,51 +162,25 @@ export class WebSocketServer {
           socket.emit('error', { message: 'Failed to join friends rooms' });
         }
       });     
- // Handle instant messaging
-      socket.on('send_message', async (data: { recipientId: string; message: string; challengeId?: string }) => {
+
+      // Handle instant messaging. Messages are stored, then broadcast to the
+      // conversation by sendMessage.
+      socket.on('send_message', async (data: SendMessageData) => {
         try {
-          // Verify friendship or challenge participation
-          if (data.challengeId) {
-            // Challenge message
-            const participation = await prisma.challengeParticipant.findFirst({
-              where: {
-                challengeId: data.challengeId,
-                userId: socket.userId
-              }
-            });
-            
-            if (participation) {
-              this.io.to(`challenge:${data.challengeId}`).emit('new_message', {
-                senderId: socket.userId,
-                senderUsername: socket.user.username,
-                message: data.message,
-                challengeId: data.challengeId,
-                timestamp: new Date()
-              });
-            }
-          } else {
-            // Direct message
-            const friendship = await prisma.friendship.findFirst({
-              where: {
-                OR: [
-                  { userId: socket.userId, friendId: data.recipientId },
-                  { userId: data.recipientId, friendId: socket.userId }
-                ],
-                status: 'accepted'
-              }
-            });
-            
-            if (friendship) {
-              this.io.to(`user:${data.recipientId}`).emit('new_message', {
-                senderId: socket.userId,
-                senderUsername: socket.user.username,
-                message: data.message,
-                timestamp: new Date()
-              });
-            }
+          let conversationId = data.conversationId;
+          if (!conversationId && data.challengeId) {
+            conversationId = (await getOrCreateChallengeConversation(data.challengeId, socket.userId)).id;
+          } else if (!conversationId && data.recipientId) {
+            conversationId = (await getOrCreateDirectConversation(socket.userId, data.recipientId)).id;
           }
+
+          if (!conversationId) {
+            throw new Error('Message needs a conversation, recipient or challenge');
+          }
+
+          await sendMessage(conversationId, socket.userId, data.message);
         } catch (error) {
-          socket.emit('error', { message: 'Failed to send message' });
+          socket.emit('error', { message: error instanceof Error ? error.message : 'Failed to send message' });
         }
       });
 
@@ -229,6 +240,14 @@ export class WebSocketServer {
     this.io.to(`challenge:${challengeId}`).emit('challenge_progress_updated', progressData);
   }
 
+  public broadcastTeamProgress(teamId: string, progressData: TeamProgressData) {
+    this.io.to(`team:${teamId}`).emit('team_progress_updated', progressData);
+  }
+
+  public broadcastMilestoneReached(challengeId: string, milestoneData: ChallengeMilestoneData) {
+    this.io.to(`challenge:${challengeId}`).emit('challenge_milestone_reached', milestoneData);
+  }
+
   public broadcastLeaderboardUpdate(challengeId: string, leaderboard: any) {
     this.io.to(`challenge:${challengeId}`).emit('leaderboard_updated', leaderboard);
   }
@@ -247,6 +266,10 @@ export class WebSocketServer {
     this.io.to(`user:${userId}`).emit('streak_updated', streakData);
   }
 
+  public broadcastLevelUp(userId: string, levelData: LevelUpData) {
+    this.io.to(`user:${userId}`).emit('level_up', levelData);
+  }
+
   public broadcastChallengeInvite(userId: string, challengeData: any) {
     this.io.to(`user:${userId}`).emit('challenge_invite', challengeData);
   }
@@ -255,6 +278,22 @@ export class WebSocketServer {
     this.io.to(`user:${userId}`).emit('friend_request', requestData);
   }
 
+  public broadcastNewMessage(rooms: string[], messageData: MessageData) {
+    this.io.to(rooms).emit('new_message', messageData);
+  }
+
+  public broadcastMessagesRead(rooms: string[], readData: MessagesReadData) {
+    this.io.to(rooms).emit('messages_read', readData);
+  }
+
+  public broadcastMessageDeleted(rooms: string[], deletedData: MessageDeletedData) {
+    this.io.to(rooms).emit('message_deleted', deletedData);
+  }
+
+  public broadcastActivity(userIds: string[], activityData: ActivityData) {
+    this.io.to(userIds.map(userId => `user:${userId}`)).emit('activity_created', activityData);
+  }
+
   public broadcastNotification(userId: string, notification: any) {
     this.io.to(`user:${userId}`).emit('notification', notification);
   }
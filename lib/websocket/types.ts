@@ -6,24 +6,32 @@ export interface ServerToClientEvents {
   
   // Challenge and gamification updates
   challenge_progress_updated: (data: ChallengeProgressData) => void;
+  team_progress_updated: (data: TeamProgressData) => void;
+  challenge_milestone_reached: (data: ChallengeMilestoneData) => void;
   leaderboard_updated: (data: LeaderboardData) => void;
   achievement_unlocked: (data: AchievementData) => void;
   streak_updated: (data: StreakData) => void;
+  level_up: (data: LevelUpData) => void;
   
   // Social features
   challenge_invite: (data: ChallengeInviteData) => void;
   friend_request: (data: FriendRequestData) => void;
   friend_achievement: (data: FriendAchievementData) => void;
   friend_offline: (data: { userId: string; username: string }) => void;
+  activity_created: (data: ActivityData) => void;
   
   // Messaging
   new_message: (data: MessageData) => void;
+  messages_read: (data: MessagesReadData) => void;
+  message_deleted: (data: MessageDeletedData) => void;
   user_typing: (data: TypingData) => void;
   user_stopped_typing: (data: TypingStopData) => void;
   
   // Room management
   joined_challenge: (data: { challengeId: string }) => void;
   left_challenge: (data: { challengeId: string }) => void;
+  joined_team: (data: { challengeId: string; teamId: string }) => void;
+  left_team: (data: { teamId: string }) => void;
   
   // General notifications
   notification: (data: NotificationData) => void;
@@ -34,6 +42,8 @@ export interface ClientToServerEvents {
   // Room management
   join_challenge: (challengeId: string) => void;
   leave_challenge: (challengeId: string) => void;
+  join_team: (teamId: string) => void;
+  leave_team: (teamId: string) => void;
   join_friends_room: () => void;
   
   // Messaging
@@ -71,6 +81,37 @@ export interface ChallengeProgressData {
   }>;
   totalProgress: number;
   timeRemaining: number;
+  teams?: Array<{
+    teamId: string;
+    name: string;
+    progress: number;
+    rank: number;
+  }>;
+}
+
+export interface TeamProgressData {
+  challengeId: string;
+  teamId: string;
+  name: string;
+  progress: number;
+  rank: number;
+  members: Array<{
+    userId: string;
+    username: string;
+    progress: number;
+    teamRank: number;
+  }>;
+}
+
+export interface ChallengeMilestoneData {
+  challengeId: string;
+  milestoneId: string;
+  position: number;
+  percent: number;
+  points: number;
+  userId: string;
+  username: string;
+  reachedAt: Date;
 }
 
 export interface LeaderboardData {
@@ -103,6 +144,16 @@ export interface StreakData {
   streakType: 'daily_save' | 'challenge_complete' | 'login';
   nextMilestone: number;
   streakBonus: number;
+  events: Array<'started' | 'extended' | 'frozen' | 'broken' | 'repaired'>; // What changed, in order
+  freezes: number;
+  repairDeadline: Date | null; // Set while a broken streak can be repaired
+}
+
+export interface LevelUpData {
+  level: number;
+  previousLevel: number;
+  totalPoints: number;
+  nextLevelPoints: number | null; // Null at the top level
 }
 
 export interface ChallengeInviteData {
@@ -128,7 +179,20 @@ export interface FriendAchievementData {
   achievement: AchievementData;
 }
 
+export interface ActivityData {
+  id: string;
+  type: 'FRIEND_JOINED' | 'ACHIEVEMENT_UNLOCKED' | 'CHALLENGE_COMPLETED' | 'SAVINGS_MILESTONE';
+  userId: string;
+  username: string;
+  profileImage?: string;
+  message: string;
+  data: unknown;
+  createdAt: Date;
+}
+
 export interface MessageData {
+  id: string;
+  conversationId: string;
   senderId: string;
   senderUsername: string;
   message: string;
@@ -136,7 +200,20 @@ export interface MessageData {
   timestamp: Date;
 }
 
+export interface MessagesReadData {
+  conversationId: string;
+  userId: string;
+  readAt: Date;
+}
+
+export interface MessageDeletedData {
+  conversationId: string;
+  messageId: string;
+  challengeId?: string;
+}
+
 export interface SendMessageData {
+  conversationId?: string; // Or a recipient or challenge, to open the conversation
   recipientId?: string;
   challengeId?: string;
   message: string;
@@ -7,9 +7,17 @@ import {
   BalanceUpdateData,
   TransactionUpdateData,
   ChallengeProgressData,
+  TeamProgressData,
+  ChallengeMilestoneData,
   LeaderboardData,
   AchievementData,
+  StreakData,
+  LevelUpData,
+  ActivityData,
   MessageData,
+  MessagesReadData,
+  MessageDeletedData,
+  SendMessageData,
   NotificationData
 } from './types';
 
@@ -30,7 +38,9 @@ interface UseWebSocketReturn {
   // Event emitters
   joinChallenge: (challengeId: string) => void;
   leaveChallenge: (challengeId: string) => void;
-  sendMessage: (data: { recipientId?: string; challengeId?: string; message: string }) => void;
+  joinTeam: (teamId: string) => void;
+  leaveTeam: (teamId: string) => void;
+  sendMessage: (data: SendMessageData) => void;
   startTyping: (data: { recipientId?: string; challengeId?: string }) => void;
   stopTyping: (data: { recipientId?: string; challengeId?: string }) => void;
   
@@ -38,9 +48,16 @@ interface UseWebSocketReturn {
   onBalanceUpdate: (callback: (data: BalanceUpdateData) => void) => () => void;
   onTransactionUpdate: (callback: (data: TransactionUpdateData) => void) => () => void;
   onChallengeProgress: (callback: (data: ChallengeProgressData) => void) => () => void;
+  onTeamProgress: (callback: (data: TeamProgressData) => void) => () => void;
+  onMilestoneReached: (callback: (data: ChallengeMilestoneData) => void) => () => void;
   onLeaderboardUpdate: (callback: (data: LeaderboardData) => void) => () => void;
   onAchievementUnlocked: (callback: (data: AchievementData) => void) => () => void;
+  onStreakUpdate: (callback: (data: StreakData) => void) => () => void;
+  onLevelUp: (callback: (data: LevelUpData) => void) => () => void;
+  onActivity: (callback: (data: ActivityData) => void) => () => void;
   onNewMessage: (callback: (data: MessageData) => void) => () => void;
+  onMessagesRead: (callback: (data: MessagesReadData) => void) => () => void;
+  onMessageDeleted: (callback: (data: MessageDeletedData) => void) => () => void;
   onNotification: (callback: (data: NotificationData) => void) => () => void;
 }
 
@@ -140,7 +157,15 @@ export const useWebSocket = (
     socket?.emit('leave_challenge', challengeId);
   }, [socket]);
 
-  const sendMessage = useCallback((data: { recipientId?: string; challengeId?: string; message: string }) => {
+  const joinTeam = useCallback((teamId: string) => {
+    socket?.emit('join_team', teamId);
+  }, [socket]);
+
+  const leaveTeam = useCallback((teamId: string) => {
+    socket?.emit('leave_team', teamId);
+  }, [socket]);
+
+  const sendMessage = useCallback((data: SendMessageData) => {
     socket?.emit('send_message', data);
   }, [socket]);
 
@@ -174,6 +199,20 @@ export const useWebSocket = (
     return () => socket.off('challenge_progress_updated', callback);
   }, [socket]);
 
+  const onTeamProgress = useCallback((callback: (data: TeamProgressData) => void) => {
+    if (!socket) return () => {};
+    
+    socket.on('team_progress_updated', callback);
+    return () => socket.off('team_progress_updated', callback);
+  }, [socket]);
+
+  const onMilestoneReached = useCallback((callback: (data: ChallengeMilestoneData) => void) => {
+    if (!socket) return () => {};
+    
+    socket.on('challenge_milestone_reached', callback);
+    return () => socket.off('challenge_milestone_reached', callback);
+  }, [socket]);
+
   const onLeaderboardUpdate = useCallback((callback: (data: LeaderboardData) => void) => {
     if (!socket) return () => {};
     
@@ -188,6 +227,27 @@ export const useWebSocket = (
     return () => socket.off('achievement_unlocked', callback);
   }, [socket]);
 
+  const onStreakUpdate = useCallback((callback: (data: StreakData) => void) => {
+    if (!socket) return () => {};
+    
+    socket.on('streak_updated', callback);
+    return () => socket.off('streak_updated', callback);
+  }, [socket]);
+
+  const onLevelUp = useCallback((callback: (data: LevelUpData) => void) => {
+    if (!socket) return () => {};
+    
+    socket.on('level_up', callback);
+    return () => socket.off('level_up', callback);
+  }, [socket]);
+
+  const onActivity = useCallback((callback: (data: ActivityData) => void) => {
+    if (!socket) return () => {};
+    
+    socket.on('activity_created', callback);
+    return () => socket.off('activity_created', callback);
+  }, [socket]);
+
   const onNewMessage = useCallback((callback: (data: MessageData) => void) => {
     if (!socket) return () => {};
     
@@ -195,6 +255,20 @@ export const useWebSocket = (
     return () => socket.off('new_message', callback);
   }, [socket]);
 
+  const onMessagesRead = useCallback((callback: (data: MessagesReadData) => void) => {
+    if (!socket) return () => {};
+    
+    socket.on('messages_read', callback);
+    return () => socket.off('messages_read', callback);
+  }, [socket]);
+
+  const onMessageDeleted = useCallback((callback: (data: MessageDeletedData) => void) => {
+    if (!socket) return () => {};
+    
+    socket.on('message_deleted', callback);
+    return () => socket.off('message_deleted', callback);
+  }, [socket]);
+
   const onNotification = useCallback((callback: (data: NotificationData) => void) => {
     if (!socket) return () => {};
     
@@ -212,6 +286,8 @@ export const useWebSocket = (
     // Event emitters
     joinChallenge,
     leaveChallenge,
+    joinTeam,
+    leaveTeam,
     sendMessage,
     startTyping,
     stopTyping,
@@ -220,9 +296,16 @@ export const useWebSocket = (
     onBalanceUpdate,
     onTransactionUpdate,
     onChallengeProgress,
+    onTeamProgress,
+    onMilestoneReached,
     onLeaderboardUpdate,
     onAchievementUnlocked,
+    onStreakUpdate,
+    onLevelUp,
+    onActivity,
     onNewMessage,
+    onMessagesRead,
+    onMessageDeleted,
     onNotification
   };
 };
@@ -1,5 +1,7 @@
-import { PrismaClient } from '@prisma/client';
+import { ChallengeStatus, ChallengeType, PrismaClient } from '@prisma/client';
 import bcrypt from 'bcryptjs';
+import { DEFAULT_CHALLENGE_TEMPLATES } from '../lib/gamification/challengeTemplates';
+import { toChallengeTarget } from '../lib/gamification/challengeProgress';
 
 const prisma = new PrismaClient();
 
@@ -15,7 +17,8 @@ async function main() {
       icon: '🎯',
       category: 'SAVINGS',
       rarity: 'COMMON',
-      pointsReward: 100
+      pointsReward: 100,
+      criteria: { metric: 'totalSaved', comparator: 'gt', threshold: 0 }
     },
     {
       name: 'Century Club',
@@ -23,7 +26,8 @@ async function main() {
       icon: '💯',
       category: 'SAVINGS',
       rarity: 'COMMON',
-      pointsReward: 500
+      pointsReward: 500,
+      criteria: { metric: 'totalSaved', comparator: 'gte', threshold: 100 }
     },
     {
       name: 'Thousand Club',
@@ -31,7 +35,8 @@ async function main() {
       icon: '🏆',
       category: 'SAVINGS',
       rarity: 'RARE',
-      pointsReward: 1000
+      pointsReward: 1000,
+      criteria: { metric: 'totalSaved', comparator: 'gte', threshold: 1000 }
     },
     {
       name: 'Week Warrior',
@@ -39,7 +44,8 @@ async function main() {
       icon: '🔥',
       category: 'STREAK',
       rarity: 'COMMON',
-      pointsReward: 200
+      pointsReward: 200,
+      criteria: { metric: 'longestStreak', comparator: 'gte', threshold: 7 }
     },
     {
       name: 'Month Master',
@@ -47,7 +53,8 @@ async function main() {
       icon: '📅',
       category: 'STREAK',
       rarity: 'RARE',
-      pointsReward: 1000
+      pointsReward: 1000,
+      criteria: { metric: 'longestStreak', comparator: 'gte', threshold: 30 }
     },
     {
       name: 'Year Champion',
@@ -55,7 +62,8 @@ async function main() {
       icon: '👑',
       category: 'STREAK',
       rarity: 'LEGENDARY',
-      pointsReward: 5000
+      pointsReward: 5000,
+      criteria: { metric: 'longestStreak', comparator: 'gte', threshold: 365 }
     },
     {
       name: 'Social Butterfly',
@@ -63,7 +71,8 @@ async function main() {
       icon: '🦋',
       category: 'SOCIAL',
       rarity: 'COMMON',
-      pointsReward: 300
+      pointsReward: 300,
+      criteria: { metric: 'referrals', comparator: 'gte', threshold: 5 }
     },
     {
       name: 'Community Builder',
@@ -71,7 +80,8 @@ async function main() {
       icon: '🏗️',
       category: 'SOCIAL',
       rarity: 'EPIC',
-      pointsReward: 1500
+      pointsReward: 1500,
+      criteria: { metric: 'referrals', comparator: 'gte', threshold: 25 }
     },
     {
       name: 'Early Adopter',
@@ -79,7 +89,8 @@ async function main() {
       icon: '🚀',
       category: 'SPECIAL',
       rarity: 'RARE',
-      pointsReward: 1000
+      pointsReward: 1000,
+      criteria: { metric: 'signupRank', comparator: 'lte', threshold: 1000 }
     },
     {
       name: 'Challenge Champion',
@@ -87,18 +98,29 @@ async function main() {
       icon: '🏅',
       category: 'SPECIAL',
       rarity: 'EPIC',
-      pointsReward: 2000
+      pointsReward: 2000,
+      criteria: { metric: 'challengesWon', comparator: 'gte', threshold: 10 }
     }
   ];
 
   for (const achievement of achievements) {
     await prisma.achievement.upsert({
       where: { name: achievement.name },
-      update: {},
+      update: { criteria: achievement.criteria },
       create: achievement as any
     });
   }
 
+  // Create challenge templates; admins adjust them afterwards, so existing ones are kept
+  console.log('Creating challenge templates...');
+  for (const { targetAmount, ...template } of DEFAULT_CHALLENGE_TEMPLATES) {
+    await prisma.challengeTemplate.upsert({
+      where: { slug: template.slug },
+      update: {},
+      create: { ...template, target: toChallengeTarget(template.type, targetAmount) }
+    });
+  }
+
   // Create demo users
   console.log('Creating demo users...');
   const demoUsers = [
@@ -109,7 +131,7 @@ async function main() {
       lastName: 'Johnson',
       walletAddress: '0x1234567890123456789012345678901234567890',
       privateKeyEncrypted: 'encrypted_key_alice',
-      totalSaved: 1250.50,
+      totalSavedMinor: 125050, // $1,250.50
       totalPoints: 1800,
       level: 3,
       currentStreak: 15,
@@ -123,7 +145,7 @@ async function main() {
       lastName: 'Smith',
       walletAddress: '0x2345678901234567890123456789012345678901',
       privateKeyEncrypted: 'encrypted_key_bob',
-      totalSaved: 850.25,
+      totalSavedMinor: 85025, // $850.25
       totalPoints: 1200,
       level: 2,
       currentStreak: 8,
@@ -137,7 +159,7 @@ async function main() {
       lastName: 'Davis',
       walletAddress: '0x3456789012345678901234567890123456789012',
       privateKeyEncrypted: 'encrypted_key_carol',
-      totalSaved: 2100.75,
+      totalSavedMinor: 210075, // $2,100.75
       totalPoints: 2500,
       level: 4,
       currentStreak: 32,
@@ -165,10 +187,10 @@ async function main() {
         data: {
           userId: user.id,
           type: 'ROUNDUP',
-          amount: Math.random() * 5 + 0.5, // $0.50 - $5.50
+          amountMinor: Math.floor(Math.random() * 500) + 50, // $0.50 - $5.50
           currency: 'USD',
           status: 'CONFIRMED',
-          originalTransactionAmount: Math.random() * 50 + 10, // $10 - $60
+          originalAmountMinor: Math.floor(Math.random() * 5000) + 1000, // $10 - $60
           merchant: ['Starbucks', 'Amazon', 'Uber', 'McDonald\'s', 'Target'][Math.floor(Math.random() * 5)],
           category: ['Food', 'Shopping', 'Transportation', 'Entertainment'][Math.floor(Math.random() * 4)],
           blockchainTxHash: `0x${Math.random().toString(16).substr(2, 64)}`,
@@ -183,7 +205,7 @@ async function main() {
         data: {
           userId: user.id,
           type: 'MANUAL',
-          amount: Math.random() * 100 + 50, // $50 - $150
+          amountMinor: Math.floor(Math.random() * 10000) + 5000, // $50 - $150
           currency: 'USD',
           status: 'CONFIRMED',
           blockchainTxHash: `0x${Math.random().toString(16).substr(2, 64)}`,
@@ -201,9 +223,9 @@ async function main() {
     // Give each user some achievements based on their stats
     const userAchievements = [];
     
-    if (user.totalSaved >= 1) userAchievements.push(allAchievements.find(a => a.name === 'First Save'));
-    if (user.totalSaved >= 100) userAchievements.push(allAchievements.find(a => a.name === 'Century Club'));
-    if (user.totalSaved >= 1000) userAchievements.push(allAchievements.find(a => a.name === 'Thousand Club'));
+    if (user.totalSavedMinor >= 100) userAchievements.push(allAchievements.find(a => a.name === 'First Save'));
+    if (user.totalSavedMinor >= 10000) userAchievements.push(allAchievements.find(a => a.name === 'Century Club'));
+    if (user.totalSavedMinor >= 100000) userAchievements.push(allAchievements.find(a => a.name === 'Thousand Club'));
     if (user.longestStreak >= 7) userAchievements.push(allAchievements.find(a => a.name === 'Week Warrior'));
     if (user.longestStreak >= 30) userAchievements.push(allAchievements.find(a => a.name === 'Month Master'));
     
@@ -234,29 +256,29 @@ async function main() {
       creatorId: createdUsers[0].id,
       title: 'Save $500 in 30 Days',
       description: 'Challenge yourself to save $500 in the next 30 days through round-ups and manual deposits!',
-      type: 'SAVINGS_AMOUNT',
+      type: ChallengeType.SAVINGS_AMOUNT,
       targetAmount: 500,
       duration: 30,
       startDate: new Date(),
       endDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000),
-      status: 'ACTIVE'
+      status: ChallengeStatus.ACTIVE
     },
     {
       creatorId: createdUsers[1].id,
       title: '21-Day Streak Challenge',
       description: 'Build a consistent saving habit with a 21-day streak!',
-      type: 'STREAK',
+      type: ChallengeType.STREAK,
       targetAmount: 21,
       duration: 25,
       startDate: new Date(),
       endDate: new Date(Date.now() + 25 * 24 * 60 * 60 * 1000),
-      status: 'ACTIVE'
+      status: ChallengeStatus.ACTIVE
     }
   ];
 
-  for (const challengeData of challenges) {
+  for (const { targetAmount, ...challengeData } of challenges) {
     const challenge = await prisma.challenge.create({
-      data: challengeData
+      data: { ...challengeData, target: toChallengeTarget(challengeData.type, targetAmount) }
     });
 
     // Add participants to challenges
@@ -265,7 +287,7 @@ async function main() {
         data: {
           userId: user.id,
           challengeId: challenge.id,
-          currentProgress: Math.random() * challengeData.targetAmount * 0.7, // 0-70% progress
+          currentProgress: Math.random() * targetAmount * 0.7, // 0-70% progress
           rank: null
         }
       });
@@ -0,0 +1,73 @@
+#!/usr/bin/env tsx
+
+/**
+ * Points ledger backfill
+ * Records the points users held before the points ledger existed as an
+ * opening balance entry, dated when the user joined, so every balance is the
+ * sum of its ledger and points history adds up. Run this once after deploying
+ * the ledger. Safe to re-run: users whose ledger already matches their
+ * balance, or who already have an opening balance, are skipped.
+ */
+
+import { PointsReason } from '@prisma/client';
+import { prisma } from '../lib/db/prisma';
+
+async function backfillUser(user: { id: string; createdAt: Date }): Promise<boolean> {
+  const dedupeKey = `opening_balance:${user.id}`;
+
+  // Read the balance and the ledger together so awards made meanwhile aren't counted twice
+  return prisma.$transaction(async tx => {
+    const [current, ledger, existing] = await Promise.all([
+      tx.user.findUniqueOrThrow({ where: { id: user.id }, select: { totalPoints: true } }),
+      tx.pointsLedgerEntry.aggregate({ where: { userId: user.id }, _sum: { amount: true } }),
+      tx.pointsLedgerEntry.findUnique({ where: { dedupeKey } })
+    ]);
+
+    const missing = current.totalPoints - (ledger._sum.amount ?? 0);
+    if (existing || missing === 0) {
+      return false;
+    }
+
+    await tx.pointsLedgerEntry.create({
+      data: {
+        userId: user.id,
+        amount: missing,
+        reason: PointsReason.OPENING_BALANCE,
+        dedupeKey,
+        createdAt: user.createdAt
+      }
+    });
+    return true;
+  });
+}
+
+async function main() {
+  console.log('Backfilling points ledger opening balances...');
+
+  try {
+    const users = await prisma.user.findMany({
+      select: { id: true, createdAt: true }
+    });
+
+    let backfilled = 0;
+    for (const user of users) {
+      if (await backfillUser(user)) {
+        backfilled++;
+      }
+    }
+
+    console.log(`Opening balances recorded: ${backfilled} of ${users.length} users`);
+  } catch (error) {
+    console.error('Points ledger backfill failed:', error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// Run the backfill
+if (require.main === module) {
+  main();
+}
+
+export { main as backfillPointsLedger };
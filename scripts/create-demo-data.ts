@@ -1,6 +1,8 @@
 import { PrismaClient } from '@prisma/client';
 import { faker } from '@faker-js/faker';
 import bcrypt from 'bcryptjs';
+import { toMinorUnits } from '../lib/utils/money';
+import { toChallengeTarget } from '../lib/gamification/challengeProgress';
 
 const prisma = new PrismaClient();
 
@@ -169,7 +171,7 @@ async function createDemoData() {
           walletAddress,
           level: demoUser.level,
           totalPoints: demoUser.totalPoints,
-          totalSaved: demoUser.totalSaved,
+          totalSavedMinor: toMinorUnits(demoUser.totalSaved),
           currentStreak: demoUser.currentStreak,
           longestStreak: Math.max(demoUser.currentStreak, faker.number.int({ min: 10, max: 100 })),
           roundUpEnabled: true,
@@ -199,11 +201,11 @@ async function createDemoData() {
             id: faker.string.uuid(),
             userId: user.id,
             type: faker.helpers.arrayElement(['roundup', 'manual', 'yield']),
-            amount: faker.number.float({ min: 0.25, max: 25.00, fractionDigits: 2 }),
+            amountMinor: faker.number.int({ min: 25, max: 2500 }),
             currency: 'USD',
             blockchainTxHash: faker.string.hexadecimal({ length: 64 }),
             status: 'confirmed',
-            originalTransactionAmount: faker.number.float({ min: 5, max: 150, fractionDigits: 2 }),
+            originalAmountMinor: faker.number.int({ min: 500, max: 15000 }),
             merchantName: faker.company.name(),
             category: faker.helpers.arrayElement(['food', 'transport', 'shopping', 'entertainment', 'utilities']),
             createdAt: transactionDate,
@@ -292,7 +294,7 @@ async function createDemoData() {
           title: challengeData.title,
           description: challengeData.description,
           type: challengeData.type as any,
-          targetAmount: challengeData.targetAmount,
+          target: toChallengeTarget(challengeData.type.toUpperCase(), challengeData.targetAmount),
           duration: challengeData.duration,
           startDate: faker.date.past({ days: 30 }),
           endDate: faker.date.future({ days: challengeData.duration }),
@@ -0,0 +1,114 @@
+#!/usr/bin/env tsx
+
+/**
+ * Money migration
+ * Converts floating-point money columns to integer minor units. Run this once
+ * before `prisma db push` on databases created before amounts were stored as
+ * minor units. Safe to re-run: columns that were already migrated are skipped.
+ */
+
+import { prisma } from '../lib/db/prisma';
+import { getCurrencyExponent } from '../lib/utils/money';
+
+interface MoneyColumn {
+  table: string;
+  from: string;
+  to: string;
+  nullable: boolean;
+  currency?: string; // SQL for each row's currency, for tables without a currency column
+  scaleIf?: string; // SQL condition for rows that hold money; the rest are whole counts, copied as they are
+}
+
+// Savings rules are in their owner's currency
+const RULE_CURRENCY = '(SELECT "currency" FROM "users" WHERE "users"."id" = "savings_rules"."userId")';
+
+// Challenge targets are money only for savings challenges, in the FX base currency
+const TARGET_COLUMN = { from: 'targetAmount', to: 'target', nullable: true, currency: "'USD'", scaleIf: `"type" = 'SAVINGS_AMOUNT'` };
+
+const MONEY_COLUMNS: MoneyColumn[] = [
+  { table: 'users', from: 'totalSaved', to: 'totalSavedMinor', nullable: false },
+  { table: 'users', from: 'totalYieldEarned', to: 'totalYieldEarnedMinor', nullable: false },
+  { table: 'bank_accounts', from: 'balance', to: 'balanceMinor', nullable: true },
+  { table: 'savings_transactions', from: 'amount', to: 'amountMinor', nullable: false },
+  { table: 'savings_transactions', from: 'originalTransactionAmount', to: 'originalAmountMinor', nullable: true },
+  { table: 'users', from: 'savingsGoal', to: 'savingsGoalMinor', nullable: true },
+  { table: 'users', from: 'monthlyTarget', to: 'monthlyTargetMinor', nullable: true },
+  { table: 'users', from: 'dailyRoundUpCap', to: 'dailyRoundUpCapMinor', nullable: true },
+  { table: 'users', from: 'weeklyRoundUpCap', to: 'weeklyRoundUpCapMinor', nullable: true },
+  { table: 'users', from: 'monthlyRoundUpCap', to: 'monthlyRoundUpCapMinor', nullable: true },
+  { table: 'savings_rules', from: 'amount', to: 'amountMinor', nullable: true, currency: RULE_CURRENCY },
+  { table: 'savings_rules', from: 'minTriggerAmount', to: 'minTriggerAmountMinor', nullable: true, currency: RULE_CURRENCY },
+  { table: 'savings_rules', from: 'maxAmount', to: 'maxAmountMinor', nullable: true, currency: RULE_CURRENCY },
+  { table: 'challenges', ...TARGET_COLUMN },
+  { table: 'challenge_templates', ...TARGET_COLUMN },
+  { table: 'challenge_series', ...TARGET_COLUMN }
+];
+
+async function getColumns(table: string): Promise<string[]> {
+  const columns = await prisma.$queryRawUnsafe<Array<{ name: string }>>(`PRAGMA table_info("${table}")`);
+  return columns.map(column => column.name);
+}
+
+async function migrateColumn(column: MoneyColumn): Promise<number> {
+  const { table, from, to, nullable, currency: currencySql = '"currency"', scaleIf } = column;
+  const columns = await getColumns(table);
+
+  if (!columns.includes(from)) {
+    console.log(`${table}.${from} already migrated`);
+    return 0;
+  }
+
+  if (!columns.includes(to)) {
+    await prisma.$executeRawUnsafe(
+      `ALTER TABLE "${table}" ADD COLUMN "${to}" INTEGER${nullable ? '' : ' NOT NULL DEFAULT 0'}`
+    );
+  }
+
+  // Each row is converted with the exponent of its own currency (2 for USD, 0 for JPY)
+  const currencies = await prisma.$queryRawUnsafe<Array<{ currency: string }>>(
+    `SELECT DISTINCT ${currencySql} AS "currency" FROM "${table}"`
+  );
+
+  let converted = 0;
+  for (const { currency } of currencies) {
+    const factor = Math.pow(10, getCurrencyExponent(currency));
+
+    // The inner ROUND absorbs float error (1.005 * 100 is 100.4999...) before rounding to a whole unit
+    const scaled = `CAST(ROUND(ROUND("${from}" * ${factor}, 6)) AS INTEGER)`;
+    const value = scaleIf ? `CASE WHEN ${scaleIf} THEN ${scaled} ELSE CAST(ROUND("${from}") AS INTEGER) END` : scaled;
+
+    converted += await prisma.$executeRawUnsafe(
+      `UPDATE "${table}" SET "${to}" = ${value} ` +
+      `WHERE ${currencySql} = ? AND "${from}" IS NOT NULL`,
+      currency
+    );
+  }
+
+  await prisma.$executeRawUnsafe(`ALTER TABLE "${table}" DROP COLUMN "${from}"`);
+
+  console.log(`${table}.${from} -> ${to}: ${converted} rows converted`);
+  return converted;
+}
+
+async function main() {
+  console.log('Migrating money columns to minor units...');
+
+  try {
+    for (const column of MONEY_COLUMNS) {
+      await migrateColumn(column);
+    }
+    console.log('Money migration completed');
+  } catch (error) {
+    console.error('Money migration failed:', error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// Run the migration
+if (require.main === module) {
+  main();
+}
+
+export { main as migrateMoneyToMinorUnits };
@@ -0,0 +1,41 @@
+#!/usr/bin/env tsx
+
+/**
+ * Challenge processor
+ * This script should be run periodically (e.g., every hour) to complete
+ * challenges that have ended, retry failed stake payouts, expire stale
+ * invites and start the next season of recurring challenges. Seasons start
+ * after the previous one is completed so its members can be carried over.
+ */
+
+import { processExpiredChallenges } from '../lib/db/challenges';
+import { spawnRecurringChallenges } from '../lib/db/challengeTemplates';
+import { expireChallengeInvites } from '../lib/db/challengeInvites';
+import { prisma } from '../lib/db/prisma';
+
+async function main() {
+  console.log('Processing challenges...');
+
+  try {
+    const completed = await processExpiredChallenges();
+    console.log(`Expired challenges processed: ${completed}`);
+
+    const expired = await expireChallengeInvites();
+    console.log(`Challenge invites expired: ${expired}`);
+
+    const spawned = await spawnRecurringChallenges();
+    console.log(`Recurring challenges started: ${spawned}`);
+  } catch (error) {
+    console.error('Challenge processor failed:', error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// Run the processor
+if (require.main === module) {
+  main();
+}
+
+export { main as processChallenges };
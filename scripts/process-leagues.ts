@@ -0,0 +1,32 @@
+#!/usr/bin/env tsx
+
+/**
+ * League processor
+ * This script should be run weekly (e.g., every Monday just after 00:00 UTC)
+ * to close the leagues of the week that has ended, record final standings and
+ * promote or relegate their members before the new week's leagues fill up.
+ */
+
+import { processEndedLeagues } from '../lib/db/leagues';
+import { prisma } from '../lib/db/prisma';
+
+async function main() {
+  console.log('Processing leagues...');
+
+  try {
+    const closed = await processEndedLeagues();
+    console.log(`Leagues closed: ${closed}`);
+  } catch (error) {
+    console.error('League processor failed:', error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// Run the processor
+if (require.main === module) {
+  main();
+}
+
+export { main as processLeagues };
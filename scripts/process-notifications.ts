@@ -9,6 +9,9 @@
 import { notificationService } from '../lib/notifications/NotificationService';
 import { EmailService } from '../lib/notifications/EmailService';
 import { prisma } from '../lib/db/prisma';
+import { SAVINGS_TRANSACTION_TYPES } from '../lib/db/savingsLedger';
+import { fromMinorUnits } from '../lib/utils/money';
+import { TransactionStatus, TransactionType } from '@prisma/client';
 
 const emailService = new EmailService();
 
@@ -61,13 +64,6 @@ async function sendDailyDigests() {
       }
     },
     include: {
-      savingsTransactions: {
-        where: {
-          createdAt: {
-            gte: new Date(Date.now() - 24 * 60 * 60 * 1000) // Last 24 hours
-          }
-        }
-      },
       userAchievements: {
         where: {
           unlockedAt: {
@@ -90,13 +86,11 @@ async function sendDailyDigests() {
 
   for (const user of users) {
     try {
-      const totalSaved = user.savingsTransactions
-        .filter(tx => tx.type !== 'withdrawal')
-        .reduce((sum, tx) => sum + tx.amount, 0);
-
-      const yieldEarned = user.savingsTransactions
-        .filter(tx => tx.type === 'yield')
-        .reduce((sum, tx) => sum + tx.amount, 0);
+      const { totalSaved, yieldEarned } = await getDigestSavings(
+        user.id,
+        user.currency,
+        new Date(Date.now() - 24 * 60 * 60 * 1000)
+      );
 
       const digestData = {
         totalSaved,
@@ -132,13 +126,6 @@ async function sendWeeklyDigests() {
       }
     },
     include: {
-      savingsTransactions: {
-        where: {
-          createdAt: {
-            gte: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000) // Last 7 days
-          }
-        }
-      },
       userAchievements: {
         where: {
           unlockedAt: {
@@ -161,13 +148,11 @@ async function sendWeeklyDigests() {
 
   for (const user of users) {
     try {
-      const totalSaved = user.savingsTransactions
-        .filter(tx => tx.type !== 'withdrawal')
-        .reduce((sum, tx) => sum + tx.amount, 0);
-
-      const yieldEarned = user.savingsTransactions
-        .filter(tx => tx.type === 'yield')
-        .reduce((sum, tx) => sum + tx.amount, 0);
+      const { totalSaved, yieldEarned } = await getDigestSavings(
+        user.id,
+        user.currency,
+        new Date(Date.now() - 7 * 24 * 60 * 60 * 1000)
+      );
 
       const digestData = {
         totalSaved,
@@ -186,6 +171,32 @@ async function sendWeeklyDigests() {
   }
 }
 
+// Savings and yield confirmed since a date, in the user's currency
+async function getDigestSavings(userId: string, currency: string, since: Date) {
+  const totals = await prisma.savingsTransaction.groupBy({
+    by: ['type'],
+    where: {
+      userId,
+      currency,
+      status: TransactionStatus.CONFIRMED,
+      createdAt: { gte: since }
+    },
+    _sum: { amountMinor: true }
+  });
+
+  const sumTypes = (types: TransactionType[]) => fromMinorUnits(
+    totals
+      .filter(total => types.includes(total.type))
+      .reduce((sum, total) => sum + (total._sum.amountMinor || 0), 0),
+    currency
+  );
+
+  return {
+    totalSaved: sumTypes(SAVINGS_TRANSACTION_TYPES),
+    yieldEarned: sumTypes([TransactionType.YIELD])
+  };
+}
+
 async function cleanupOldData() {
   console.log('Cleaning up old notification data...');
   
@@ -0,0 +1,38 @@
+#!/usr/bin/env tsx
+
+/**
+ * Scheduled savings rule processor
+ * This script should be run periodically (e.g., every hour) to execute recurring
+ * savings rules and release round-ups deferred by the round-up caps.
+ * Each rule runs at most once per period, so overlapping runs are safe.
+ */
+
+import { processScheduledSavingsRules } from '../lib/db/savingsRules';
+import { releaseDeferredRoundUps } from '../lib/db/savings';
+import { prisma } from '../lib/db/prisma';
+
+async function main() {
+  console.log('Processing scheduled savings rules...');
+
+  try {
+    const result = await processScheduledSavingsRules();
+    console.log(
+      `Savings rules processed: ${result.executed} executed, ${result.skipped} skipped, ${result.failed} failed (${result.processed} total)`
+    );
+
+    const deferred = await releaseDeferredRoundUps();
+    console.log(`Deferred round-ups released: ${deferred.released}, still deferred: ${deferred.stillDeferred}`);
+  } catch (error) {
+    console.error('Savings rule processor failed:', error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// Run the processor
+if (require.main === module) {
+  main();
+}
+
+export { main as processSavingsRules };
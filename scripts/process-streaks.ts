@@ -0,0 +1,33 @@
+#!/usr/bin/env tsx
+
+/**
+ * Streak processor
+ * This script should be run at least daily (e.g., every hour, so each
+ * timezone's day is settled soon after it ends) to spend the freezes of users
+ * who missed a day or break their streaks, telling them while the streak can
+ * still be repaired.
+ */
+
+import { processMissedStreaks } from '../lib/db/streaks';
+import { prisma } from '../lib/db/prisma';
+
+async function main() {
+  console.log('Processing streaks...');
+
+  try {
+    const updated = await processMissedStreaks();
+    console.log(`Streaks settled: ${updated}`);
+  } catch (error) {
+    console.error('Streak processor failed:', error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// Run the processor
+if (require.main === module) {
+  main();
+}
+
+export { main as processStreaks };
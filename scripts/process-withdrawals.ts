@@ -0,0 +1,38 @@
+#!/usr/bin/env tsx
+
+/**
+ * Withdrawal processor
+ * This script should be run periodically (e.g., every 15 minutes) to send
+ * withdrawals whose cooling-off period has ended and confirm submitted
+ * transactions once they have enough confirmations.
+ */
+
+import { processDueWithdrawals } from '../lib/db/withdrawals';
+import { monitorPendingTransactions } from '../lib/blockchain/transactionTracker';
+import { prisma } from '../lib/db/prisma';
+
+async function main() {
+  console.log('Processing withdrawals...');
+
+  try {
+    const result = await processDueWithdrawals();
+    console.log(
+      `Withdrawals processed: ${result.submitted} submitted, ${result.failed} failed (${result.processed} total)`
+    );
+
+    const tracked = await monitorPendingTransactions();
+    console.log(`Pending transactions checked: ${tracked.confirmed} confirmed, ${tracked.failed} failed`);
+  } catch (error) {
+    console.error('Withdrawal processor failed:', error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// Run the processor
+if (require.main === module) {
+  main();
+}
+
+export { main as processWithdrawals };
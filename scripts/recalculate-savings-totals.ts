@@ -0,0 +1,37 @@
+#!/usr/bin/env tsx
+
+/**
+ * Savings totals recalculation
+ * Rebuilds each user's cached total saved in their display currency and in the
+ * FX base currency used for leaderboards. Run after `prisma db push` adds the
+ * base currency total, or after changing FX providers.
+ */
+
+import { prisma } from '../lib/db/prisma';
+import { updateUserTotalSaved } from '../lib/db/savings';
+
+async function main() {
+  console.log('Recalculating savings totals...');
+
+  try {
+    const users = await prisma.user.findMany({ select: { id: true } });
+
+    for (const user of users) {
+      await updateUserTotalSaved(user.id);
+    }
+
+    console.log(`Recalculated savings totals for ${users.length} users`);
+  } catch (error) {
+    console.error('Savings totals recalculation failed:', error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// Run the recalculation
+if (require.main === module) {
+  main();
+}
+
+export { main as recalculateSavingsTotals };
@@ -0,0 +1,87 @@
+#!/usr/bin/env tsx
+
+/**
+ * SavingsVault reconciliation
+ * Compares vault Deposit/Withdrawal events with the savings ledger for every
+ * wallet and reports balance drift, missing hashes and orphaned PENDING rows.
+ * This script should be run daily; pass --repair to bring the ledger in line
+ * with the chain.
+ *
+ * Usage:
+ *   tsx scripts/reconcile-vault.ts [--repair] [--rpc-url=<url>] [--from-block=<n>] [--to-block=<n>]
+ *
+ * Against a local Hardhat node (`npm run hardhat:node`, then
+ * `npm run hardhat:deploy:local` and set SAVINGS_VAULT_ADDRESS):
+ *   npm run savings:reconcile:local
+ */
+
+import { ethers } from 'ethers';
+import { describeReconciliationIssue, reconcileVault } from '../lib/db/vaultReconciliation';
+import { fromMinorUnits } from '../lib/utils/money';
+import { prisma } from '../lib/db/prisma';
+
+function getFlag(name: string): string | undefined {
+  const prefix = `--${name}=`;
+  return process.argv.find(arg => arg.startsWith(prefix))?.slice(prefix.length);
+}
+
+async function main() {
+  const repair = process.argv.includes('--repair');
+  const rpcUrl = getFlag('rpc-url');
+  const fromBlock = getFlag('from-block');
+  const toBlock = getFlag('to-block');
+
+  if (rpcUrl) {
+    // The transaction tracker reads receipts from the same node
+    process.env.MORPH_RPC_URL = rpcUrl;
+  }
+
+  console.log(`Reconciling SavingsVault${repair ? ' and repairing the ledger' : ''}...`);
+
+  try {
+    const report = await reconcileVault({
+      repair,
+      fromBlock: fromBlock !== undefined ? Number(fromBlock) : undefined,
+      toBlock: toBlock !== undefined ? Number(toBlock) : undefined
+    });
+
+    console.log(`Blocks ${report.fromBlock}-${report.toBlock}`);
+
+    for (const wallet of report.wallets) {
+      console.log(`\n${wallet.walletAddress} (user ${wallet.userId})`);
+      console.log(
+        `  On chain: ${ethers.formatEther(wallet.chainDepositedWei)} in, ${ethers.formatEther(wallet.chainWithdrawnWei)} out`
+      );
+      console.log(
+        `  Ledger:   ${ethers.formatEther(wallet.ledgerDepositedWei)} in, ${ethers.formatEther(wallet.ledgerWithdrawnWei)} out`
+      );
+      console.log(`  Drift:    ${ethers.formatEther(wallet.driftWei)}`);
+
+      if (wallet.totalSavedDriftMinor !== 0) {
+        console.log(
+          `  Total saved is off by ${fromMinorUnits(wallet.totalSavedDriftMinor, wallet.currency)} ${wallet.currency}`
+        );
+      }
+      wallet.issues.forEach(issue => console.log(`  - ${describeReconciliationIssue(issue)}`));
+      wallet.repairs.forEach(repairDone => console.log(`  * ${repairDone}`));
+    }
+
+    if (report.unknownWallets.length > 0) {
+      console.log(`\nVault events from wallets without a user: ${report.unknownWallets.join(', ')}`);
+    }
+
+    console.log(`\nReconciliation complete: ${report.issueCount} issues, ${report.repairCount} repairs`);
+  } catch (error) {
+    console.error('Vault reconciliation failed:', error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// Run the reconciliation
+if (require.main === module) {
+  main();
+}
+
+export { main as runVaultReconciliation };
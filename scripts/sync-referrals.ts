@@ -0,0 +1,31 @@
+#!/usr/bin/env tsx
+
+/**
+ * Referral on-chain sync
+ * This script should be run periodically to record converted referrals on the
+ * GameEngine contract that failed to sync at signup time.
+ */
+
+import { syncPendingReferrals } from '../lib/db/referrals';
+import { prisma } from '../lib/db/prisma';
+
+async function main() {
+  console.log('Syncing pending referrals...');
+
+  try {
+    const result = await syncPendingReferrals();
+    console.log(`Referral sync completed: ${result.synced}/${result.processed} synced, ${result.failed} failed`);
+  } catch (error) {
+    console.error('Referral sync failed:', error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// Run the sync
+if (require.main === module) {
+  main();
+}
+
+export { main as syncReferrals };
@@ -18,9 +18,9 @@ async function testAIInsights() {
           username: 'testuser',
           walletAddress: '0x1234567890123456789012345678901234567890',
           privateKeyEncrypted: 'encrypted_key_here',
-          totalSaved: 250.75,
-          savingsGoal: 1000,
-          monthlyTarget: 100,
+          totalSavedMinor: 25075,
+          savingsGoalMinor: 100000,
+          monthlyTargetMinor: 10000,
           roundUpEnabled: true,
           autoInvestEnabled: true
         }
@@ -33,8 +33,8 @@ async function testAIInsights() {
       {
         userId: testUser.id,
         type: TransactionType.ROUNDUP,
-        amount: 0.45,
-        originalTransactionAmount: 15.55,
+        amountMinor: 45,
+        originalAmountMinor: 1555,
         merchant: 'Starbucks',
         category: 'Food & Dining',
         status: TransactionStatus.CONFIRMED,
@@ -43,8 +43,8 @@ async function testAIInsights() {
       {
         userId: testUser.id,
         type: TransactionType.ROUNDUP,
-        amount: 0.25,
-        originalTransactionAmount: 8.75,
+        amountMinor: 25,
+        originalAmountMinor: 875,
         merchant: 'McDonald\'s',
         category: 'Food & Dining',
         status: TransactionStatus.CONFIRMED,
@@ -53,8 +53,8 @@ async function testAIInsights() {
       {
         userId: testUser.id,
         type: TransactionType.ROUNDUP,
-        amount: 0.80,
-        originalTransactionAmount: 45.20,
+        amountMinor: 80,
+        originalAmountMinor: 4520,
         merchant: 'Shell Gas Station',
         category: 'Transportation',
         status: TransactionStatus.CONFIRMED,
@@ -63,8 +63,8 @@ async function testAIInsights() {
       {
         userId: testUser.id,
         type: TransactionType.ROUNDUP,
-        amount: 0.35,
-        originalTransactionAmount: 12.65,
+        amountMinor: 35,
+        originalAmountMinor: 1265,
         merchant: 'Target',
         category: 'Shopping',
         status: TransactionStatus.CONFIRMED,
@@ -73,8 +73,8 @@ async function testAIInsights() {
       {
         userId: testUser.id,
         type: TransactionType.ROUNDUP,
-        amount: 0.90,
-        originalTransactionAmount: 67.10,
+        amountMinor: 90,
+        originalAmountMinor: 6710,
         merchant: 'Whole Foods',
         category: 'Groceries',
         status: TransactionStatus.CONFIRMED,
@@ -83,7 +83,7 @@ async function testAIInsights() {
       {
         userId: testUser.id,
         type: TransactionType.MANUAL,
-        amount: 50.00,
+        amountMinor: 5000,
         status: TransactionStatus.CONFIRMED,
         createdAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000)
       }
@@ -139,7 +139,12 @@ async function testAIInsights() {
     console.log(`- Current Savings Rate: $${projections.currentSavingsRate.toFixed(2)}/day`);
     console.log(`- Projected Monthly: $${projections.projectedMonthly.toFixed(2)}`);
     console.log(`- Projected Yearly: $${projections.projectedYearly.toFixed(2)}`);
-    console.log(`- Goal Achievement: ${projections.goalAchievementDate ? projections.goalAchievementDate.toDateString() : 'No goal set'}`);
+    if (projections.goals.length === 0) {
+      console.log('- Goal Achievement: No goals set');
+    }
+    projections.goals.forEach(goal => {
+      console.log(`- Goal "${goal.name}": ${goal.projectedCompletionDate ? goal.projectedCompletionDate.toDateString() : 'Out of reach'}`);
+    });
     console.log(`- Confidence Level: ${(projections.confidenceLevel * 100).toFixed(1)}%`);
     console.log('- Recommended Adjustments:');
     projections.recommendedAdjustments.forEach((adj, i) => console.log(`  ${i + 1}. ${adj}`));
@@ -153,8 +158,8 @@ async function testAIInsights() {
       data: {
         userId: testUser.id,
         type: TransactionType.ROUNDUP,
-        amount: 0.50,
-        originalTransactionAmount: 500.00, // Unusually large
+        amountMinor: 50,
+        originalAmountMinor: 50000, // Unusually large
         merchant: 'Expensive Electronics Store',
         category: 'Shopping',
         status: TransactionStatus.CONFIRMED,
@@ -181,8 +186,8 @@ async function testAIInsights() {
       data: {
         userId: testUser.id,
         type: TransactionType.ROUNDUP,
-        amount: 0.35,
-        originalTransactionAmount: 12.65,
+        amountMinor: 35,
+        originalAmountMinor: 1265,
         merchant: 'Target',
         category: 'Shopping',
         status: TransactionStatus.CONFIRMED,
@@ -35,12 +35,12 @@ async function testDatabase() {
     const updatedUser = await updateUser(user.id, {
       firstName: 'Updated',
       bio: 'Test bio',
-      totalSaved: 100.50
+      totalSavedMinor: 10050 // $100.50
     });
     console.log('✅ User updated:', {
       firstName: updatedUser.firstName,
       bio: updatedUser.bio,
-      totalSaved: updatedUser.totalSaved
+      totalSavedMinor: updatedUser.totalSavedMinor
     });
 
     // Test session creation
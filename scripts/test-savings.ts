@@ -10,6 +10,7 @@ const {
   createBankAccount,
   getUserBankAccounts
 } = require('../lib/db/bankAccount');
+const { money, fromMinorUnits } = require('../lib/utils/money');
 
 async function testSavingsAndTransactions() {
   console.log('🧪 Testing savings and transaction functions...');
@@ -36,7 +37,7 @@ async function testSavingsAndTransactions() {
       bankName: 'Test Bank',
       accountNumber: '1234567890',
       routingNumber: '021000021',
-      balance: 2500.00
+      balance: money(2500.00)
     });
     console.log('✅ Bank account created:', bankAccount.accountName);
 
@@ -47,9 +48,10 @@ async function testSavingsAndTransactions() {
     const roundUp3 = await processRoundUp(user.id, 12.89, 'Uber', 'Transportation');
     
     console.log('✅ Round-ups processed:', {
-      starbucks: `$${roundUp1.amount} (from $${roundUp1.originalTransactionAmount})`,
-      amazon: `$${roundUp2.amount} (from $${roundUp2.originalTransactionAmount})`,
-      uber: `$${roundUp3.amount} (from $${roundUp3.originalTransactionAmount})`
+      starbucks: `$${roundUp1.roundUpAmount} (from $23.67, ${roundUp1.outcome})`,
+      amazon: `$${roundUp2.roundUpAmount} (from $45.23, ${roundUp2.outcome})`,
+      uber: `$${roundUp3.roundUpAmount} (from $12.89, ${roundUp3.outcome})`,
+      remainingDailyCap: `$${roundUp3.caps.daily.remaining}`
     });
 
     // Create manual savings transaction
@@ -57,22 +59,22 @@ async function testSavingsAndTransactions() {
     const manualSaving = await createSavingsTransaction({
       userId: user.id,
       type: 'MANUAL',
-      amount: 100.00,
+      amount: money(100.00),
       status: 'CONFIRMED'
     });
-    console.log('✅ Manual saving created:', `$${manualSaving.amount}`);
+    console.log('✅ Manual saving created:', `$${fromMinorUnits(manualSaving.amountMinor)}`);
 
     // Create yield transaction
     console.log('Creating yield transaction...');
     const yieldTransaction = await createSavingsTransaction({
       userId: user.id,
       type: 'YIELD',
-      amount: 5.25,
+      amount: money(5.25),
       yieldProtocol: 'Compound',
       apy: 4.5,
       status: 'CONFIRMED'
     });
-    console.log('✅ Yield transaction created:', `$${yieldTransaction.amount} from ${yieldTransaction.yieldProtocol}`);
+    console.log('✅ Yield transaction created:', `$${fromMinorUnits(yieldTransaction.amountMinor)} from ${yieldTransaction.yieldProtocol}`);
 
     // Get user transactions
     console.log('Retrieving user transactions...');
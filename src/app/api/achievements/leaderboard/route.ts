@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { withOptionalAuth, AuthenticatedRequest } from '@/lib/middleware/auth';
+import { withOptionalAuth, AuthenticatedRequest } from '../../../../lib/middleware/auth';
 import { getAchievementLeaderboard } from '@/lib/db/achievements';
 
 export async function GET(request: NextRequest) {
@@ -15,7 +15,7 @@ export async function GET(request: NextRequest) {
         );
       }
 
-      const leaderboard = await getAchievementLeaderboard(limit);
+      const leaderboard = await getAchievementLeaderboard(limit, req.user?.id);
 
       return NextResponse.json({
         success: true,
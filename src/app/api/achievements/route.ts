@@ -1,6 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { withAuth, AuthenticatedRequest } from '@/lib/middleware/auth';
-import { getUserAchievements, getUserAchievementStats } from '@/lib/db/achievements';
+import { withAuth, withAdminAuth, AuthenticatedRequest } from '../../../lib/middleware/auth';
+import {
+  createAchievement,
+  getAchievementByName,
+  getUserAchievements,
+  getUserAchievementStats
+} from '@/lib/db/achievements';
+import { parseAchievementCriteria } from '@/lib/gamification/achievementRules';
 
 export async function GET(request: NextRequest) {
   return withAuth(request, async (req: AuthenticatedRequest) => {
@@ -45,4 +51,66 @@ export async function GET(request: NextRequest) {
       );
     }
   });
-}
\ No newline at end of file
+}
+
+export async function POST(request: NextRequest) {
+  return withAdminAuth(request, async (req: AuthenticatedRequest) => {
+    try {
+      const body = await req.json();
+      const { name, description, icon, category, rarity, pointsReward, criteria } = body;
+
+      // Validation
+      if (!name || !description || !icon || !category || !rarity) {
+        return NextResponse.json(
+          { error: 'Name, description, icon, category and rarity are required' },
+          { status: 400 }
+        );
+      }
+
+      if (typeof pointsReward !== 'number' || pointsReward < 0) {
+        return NextResponse.json(
+          { error: 'Points reward must be a non-negative number' },
+          { status: 400 }
+        );
+      }
+
+      const parsedCriteria = criteria ? parseAchievementCriteria(criteria) : null;
+      if (criteria && !parsedCriteria) {
+        return NextResponse.json(
+          { error: 'Invalid achievement criteria' },
+          { status: 400 }
+        );
+      }
+
+      if (await getAchievementByName(name)) {
+        return NextResponse.json(
+          { error: 'Achievement with this name already exists' },
+          { status: 409 }
+        );
+      }
+
+      const achievement = await createAchievement({
+        name,
+        description,
+        icon,
+        category,
+        rarity,
+        pointsReward,
+        criteria: parsedCriteria
+      });
+
+      return NextResponse.json({
+        success: true,
+        achievement
+      }, { status: 201 });
+
+    } catch (error) {
+      console.error('Create achievement error:', error);
+
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  });
+}
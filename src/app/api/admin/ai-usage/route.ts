@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAdminAuth, AuthenticatedRequest } from '../../../../lib/middleware/auth';
+import { getLlmUsageSummary } from '@/lib/db/llmUsage';
+import { getLlmProvider } from '@/lib/ai/providers';
+
+/**
+ * Language model calls, tokens and cost over the last `days` days
+ */
+export async function GET(request: NextRequest) {
+  return withAdminAuth(request, async (req: AuthenticatedRequest) => {
+    try {
+      const { searchParams } = new URL(req.url);
+      const days = parseInt(searchParams.get('days') || '30');
+
+      if (isNaN(days) || days < 1 || days > 365) {
+        return NextResponse.json(
+          { error: 'Days must be between 1 and 365' },
+          { status: 400 }
+        );
+      }
+
+      const usage = await getLlmUsageSummary(new Date(Date.now() - days * 24 * 60 * 60 * 1000));
+
+      return NextResponse.json({
+        success: true,
+        provider: getLlmProvider().name,
+        totalCostUsd: usage.reduce((sum, group) => sum + group.costUsd, 0),
+        unpricedCalls: usage.reduce((sum, group) => sum + group.unpricedCalls, 0),
+        usage
+      });
+
+    } catch (error) {
+      console.error('Get AI usage error:', error);
+
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  });
+}
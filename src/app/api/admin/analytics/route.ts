@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { TransactionStatus } from '@prisma/client';
 import { prisma } from '@/lib/db/prisma';
+import { fromMinorUnits } from '@/lib/utils/money';
 
 export async function GET(request: NextRequest) {
   try {
@@ -73,21 +75,21 @@ export async function GET(request: NextRequest) {
 
     // Financial Metrics
     const savingsAgg = await prisma.savingsTransaction.aggregate({
-      _sum: { amount: true },
+      _sum: { amountMinor: true },
       _count: { id: true },
-      _avg: { amount: true },
       where: {
-        status: 'confirmed',
+        status: TransactionStatus.CONFIRMED,
         createdAt: { gte: startDate }
       }
     });
 
     const totalSavingsAllTime = await prisma.savingsTransaction.aggregate({
-      _sum: { amount: true },
-      where: { status: 'confirmed' }
+      _sum: { amountMinor: true },
+      where: { status: TransactionStatus.CONFIRMED }
     });
 
-    const averageSavingsPerUser = totalUsers > 0 ? (totalSavingsAllTime._sum.amount || 0) / totalUsers : 0;
+    const totalSavings = fromMinorUnits(totalSavingsAllTime._sum.amountMinor || 0);
+    const averageSavingsPerUser = totalUsers > 0 ? totalSavings / totalUsers : 0;
 
     // Calculate average transactions per user
     const averageTransactionsPerUser = totalUsers > 0 ? (savingsAgg._count.id || 0) / totalUsers : 0;
@@ -138,11 +140,13 @@ export async function GET(request: NextRequest) {
         achievementUnlockRate
       },
       financialMetrics: {
-        totalSavings: totalSavingsAllTime._sum.amount || 0,
+        totalSavings,
         averageSavingsPerUser,
         totalTransactions: savingsAgg._count.id || 0,
-        averageTransactionAmount: savingsAgg._avg.amount || 0,
-        yieldGenerated: (totalSavingsAllTime._sum.amount || 0) * 0.042 // Mock 4.2% yield
+        averageTransactionAmount: savingsAgg._count.id > 0
+          ? fromMinorUnits(Math.round((savingsAgg._sum.amountMinor || 0) / savingsAgg._count.id))
+          : 0,
+        yieldGenerated: totalSavings * 0.042 // Mock 4.2% yield
       },
       socialMetrics: {
         totalChallenges,
@@ -196,19 +200,19 @@ async function generateTimeSeriesData(
         break;
       case 'savings':
         const savingsSum = await prisma.savingsTransaction.aggregate({
-          _sum: { amount: true },
+          _sum: { amountMinor: true },
           where: {
             createdAt: { gte: date, lt: nextDate },
-            status: 'confirmed'
+            status: TransactionStatus.CONFIRMED
           }
         });
-        value = savingsSum._sum.amount || 0;
+        value = fromMinorUnits(savingsSum._sum.amountMinor || 0);
         break;
       case 'transactions':
         value = await prisma.savingsTransaction.count({
           where: {
             createdAt: { gte: date, lt: nextDate },
-            status: 'confirmed'
+            status: TransactionStatus.CONFIRMED
           }
         });
         break;
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAdminAuth, AuthenticatedRequest } from '../../../../../lib/middleware/auth';
+import { updateChallengeTemplate } from '@/lib/db/challengeTemplates';
+
+/**
+ * Update a template's defaults, or retire it with `isActive: false`
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { templateId: string } }
+) {
+  return withAdminAuth(request, async (req: AuthenticatedRequest) => {
+    try {
+      const body = await req.json();
+      const { slug, title, description, type, targetAmount, duration, recurrence, isActive } = body;
+
+      const template = await updateChallengeTemplate(params.templateId, {
+        slug,
+        title,
+        description,
+        type,
+        targetAmount,
+        duration,
+        recurrence,
+        isActive
+      });
+
+      return NextResponse.json({
+        success: true,
+        template
+      });
+
+    } catch (error) {
+      console.error('Update challenge template error:', error);
+
+      if (error instanceof Error) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: error.message.includes('not found') ? 404 : 400 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  });
+}
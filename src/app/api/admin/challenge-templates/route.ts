@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAdminAuth, AuthenticatedRequest } from '../../../../lib/middleware/auth';
+import {
+  createChallengeTemplate,
+  getChallengeTemplates
+} from '@/lib/db/challengeTemplates';
+
+export async function GET(request: NextRequest) {
+  return withAdminAuth(request, async () => {
+    try {
+      const templates = await getChallengeTemplates(true);
+
+      return NextResponse.json({
+        success: true,
+        templates
+      });
+
+    } catch (error) {
+      console.error('Get challenge templates error:', error);
+
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  });
+}
+
+export async function POST(request: NextRequest) {
+  return withAdminAuth(request, async (req: AuthenticatedRequest) => {
+    try {
+      const body = await req.json();
+      const { slug, title, description, type, targetAmount, duration, recurrence, isActive } = body;
+
+      if (!slug || !title || !description || !type || !duration) {
+        return NextResponse.json(
+          { error: 'Slug, title, description, type and duration are required' },
+          { status: 400 }
+        );
+      }
+
+      const template = await createChallengeTemplate({
+        slug,
+        title,
+        description,
+        type,
+        targetAmount,
+        duration,
+        recurrence,
+        isActive
+      });
+
+      return NextResponse.json({
+        success: true,
+        template
+      }, { status: 201 });
+
+    } catch (error) {
+      console.error('Create challenge template error:', error);
+
+      if (error instanceof Error) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: error.message.includes('already exists') ? 409 : 400 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  });
+}
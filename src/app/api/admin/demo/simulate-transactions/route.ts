@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db/prisma';
 import { faker } from '@faker-js/faker';
+import { toMinorUnits } from '@/lib/utils/money';
 
 export async function POST(request: NextRequest) {
   try {
@@ -48,12 +49,12 @@ export async function POST(request: NextRequest) {
           id: faker.string.uuid(),
           userId: user.id,
           type: transactionType as any,
-          amount,
+          amountMinor: toMinorUnits(amount),
           currency: 'USD',
           blockchainTxHash: faker.string.hexadecimal({ length: 64 }),
           status: 'confirmed',
-          originalTransactionAmount: transactionType === 'roundup' 
-            ? faker.number.float({ min: 5, max: 150, fractionDigits: 2 })
+          originalAmountMinor: transactionType === 'roundup' 
+            ? toMinorUnits(faker.number.float({ min: 5, max: 150, fractionDigits: 2 }))
             : null,
           merchantName: transactionType === 'roundup' 
             ? faker.company.name()
@@ -70,8 +71,8 @@ export async function POST(request: NextRequest) {
       await prisma.user.update({
         where: { id: user.id },
         data: {
-          totalSaved: {
-            increment: amount
+          totalSavedMinor: {
+            increment: toMinorUnits(amount)
           },
           updatedAt: new Date()
         }
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db/prisma';
+import { unlockAchievement } from '@/lib/db/achievements';
 import { faker } from '@faker-js/faker';
 
 export async function POST(request: NextRequest) {
@@ -42,32 +43,13 @@ export async function POST(request: NextRequest) {
       );
 
       for (const achievement of achievementsToUnlock) {
-        await prisma.userAchievement.create({
-          data: {
-            id: faker.string.uuid(),
-            userId: user.id,
-            achievementId: achievement.id,
-            unlockedAt: new Date(),
-            createdAt: new Date(),
-            updatedAt: new Date()
-          }
-        });
-
-        // Update user's total points
-        await prisma.user.update({
-          where: { id: user.id },
-          data: {
-            totalPoints: {
-              increment: achievement.points
-            },
-            updatedAt: new Date()
-          }
-        });
+        // Unlock the way real activity does, so points are paid through the ledger
+        await unlockAchievement(user.id, achievement.id);
 
         newUnlocks.push({
           user: user.username,
           achievement: achievement.name,
-          points: achievement.points,
+          points: achievement.pointsReward,
           rarity: achievement.rarity
         });
       }
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db/prisma';
 import { faker } from '@faker-js/faker';
+import { getChallengeTarget } from '@/lib/gamification/challengeProgress';
 
 export async function POST(request: NextRequest) {
   try {
@@ -28,19 +29,20 @@ export async function POST(request: NextRequest) {
     const updatedChallenges = [];
 
     for (const challenge of activeChallenges) {
+      const target = getChallengeTarget(challenge);
       const updatedParticipants = [];
 
       for (const participant of challenge.participants) {
         // Simulate progress updates
         const progressIncrease = faker.number.float({ 
           min: 0, 
-          max: (challenge.targetAmount || 50) * 0.1,
+          max: (target || 50) * 0.1,
           fractionDigits: 2 
         });
 
         const newProgress = Math.min(
           participant.currentProgress + progressIncrease,
-          challenge.targetAmount || 100
+          target || 100
         );
 
         await prisma.challengeParticipant.update({
@@ -81,7 +83,7 @@ export async function POST(request: NextRequest) {
           rank: index + 1,
           user: p.user.username,
           progress: p.currentProgress,
-          target: challenge.targetAmount
+          target
         }))
       });
     }
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { TransactionStatus } from '@prisma/client';
 import { prisma } from '@/lib/db/prisma';
+import { fromMinorUnits } from '@/lib/utils/money';
 
 export async function GET(request: NextRequest) {
   try {
@@ -16,13 +18,13 @@ export async function GET(request: NextRequest) {
     // Get savings statistics
     const savingsAgg = await prisma.savingsTransaction.aggregate({
       _sum: {
-        amount: true
+        amountMinor: true
       },
       _count: {
         id: true
       },
       where: {
-        status: 'confirmed'
+        status: TransactionStatus.CONFIRMED
       }
     });
 
@@ -50,7 +52,7 @@ export async function GET(request: NextRequest) {
     const stats = {
       totalUsers,
       activeUsers,
-      totalSavings: Math.round((savingsAgg._sum.amount || 0) * 100) / 100,
+      totalSavings: fromMinorUnits(savingsAgg._sum.amountMinor || 0),
       totalTransactions: savingsAgg._count.id || 0,
       activeChallenges,
       achievementsUnlocked,
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAdminAuth, AuthenticatedRequest } from '../../../../../../lib/middleware/auth';
+import { adjustPoints, getPointsHistory } from '@/lib/db/points';
+
+/**
+ * Audit a user's points history
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { userId: string } }
+) {
+  return withAdminAuth(request, async (req: AuthenticatedRequest) => {
+    try {
+      const { searchParams } = new URL(req.url);
+      const limit = searchParams.get('limit');
+
+      const history = await getPointsHistory(params.userId, {
+        cursor: searchParams.get('cursor') || undefined,
+        limit: limit ? parseInt(limit) : undefined
+      });
+
+      return NextResponse.json({
+        success: true,
+        ...history
+      });
+
+    } catch (error) {
+      console.error('Get user points history error:', error);
+
+      if (error instanceof Error && error.message.includes('not found')) {
+        return NextResponse.json({ error: error.message }, { status: 404 });
+      }
+
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  });
+}
+
+/**
+ * Add or take away points by hand, with a note saying why
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { userId: string } }
+) {
+  return withAdminAuth(request, async (req: AuthenticatedRequest) => {
+    try {
+      const { amount, note } = await req.json();
+
+      const entry = await adjustPoints(
+        params.userId,
+        Number(amount),
+        req.user!.id,
+        typeof note === 'string' ? note : ''
+      );
+
+      return NextResponse.json({
+        success: true,
+        entry
+      }, { status: 201 });
+
+    } catch (error) {
+      console.error('Adjust user points error:', error);
+
+      if (error instanceof Error) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: error.message.includes('not found') ? 404 : 400 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  });
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { verifyPassword, updateLastLogin } from '@/lib/db/user';
 import { createLoginSession } from '@/lib/db/session';
+import { fromMinorUnits } from '@/lib/utils/money';
 
 export async function POST(request: NextRequest) {
   try {
@@ -53,7 +54,8 @@ export async function POST(request: NextRequest) {
       level: user.level,
       totalPoints: user.totalPoints,
       currentStreak: user.currentStreak,
-      totalSaved: user.totalSaved,
+      totalSaved: fromMinorUnits(user.totalSavedMinor, user.currency),
+      currency: user.currency,
       isVerified: user.isVerified,
       lastLoginAt: user.lastLoginAt
     };
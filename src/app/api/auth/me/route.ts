@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { validateSessionAndGetUser } from '@/lib/db/session';
 import { getUserWithStats } from '@/lib/db/user';
+import { fromMinorUnits } from '@/lib/utils/money';
 
 export async function GET(request: NextRequest) {
   try {
@@ -47,9 +48,12 @@ export async function GET(request: NextRequest) {
       totalPoints: userWithStats.totalPoints,
       currentStreak: userWithStats.currentStreak,
       longestStreak: userWithStats.longestStreak,
-      totalSaved: userWithStats.totalSaved,
-      totalYieldEarned: userWithStats.totalYieldEarned,
-      savingsGoal: userWithStats.savingsGoal,
+      totalSaved: fromMinorUnits(userWithStats.totalSavedMinor, userWithStats.currency),
+      totalYieldEarned: fromMinorUnits(userWithStats.totalYieldEarnedMinor, userWithStats.currency),
+      currency: userWithStats.currency,
+      savingsGoal: userWithStats.savingsGoalMinor === null
+        ? null
+        : fromMinorUnits(userWithStats.savingsGoalMinor, userWithStats.currency),
       isVerified: userWithStats.isVerified,
       createdAt: userWithStats.createdAt,
       lastLoginAt: userWithStats.lastLoginAt,
@@ -3,11 +3,12 @@ import { createUser, getUserByEmail, getUserByWalletAddress } from '@/lib/db/use
 import { createSession } from '@/lib/db/session';
 import { generateSecureToken } from '@/lib/utils/encryption';
 import { isValidAddress } from '@/lib/blockchain/transactionTracker';
+import { attributeReferral } from '@/lib/db/referrals';
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { email, username, firstName, lastName, password, walletAddress, walletProvider } = body;
+    const { email, username, firstName, lastName, password, walletAddress, walletProvider, referralCode } = body;
 
     // Validation
     if (!email || !walletAddress) {
@@ -59,6 +60,15 @@ export async function POST(request: NextRequest) {
       walletProvider: walletProvider || 'METAMASK'
     });
 
+    // Referral attribution must never block registration
+    if (referralCode) {
+      try {
+        await attributeReferral(referralCode, user.id);
+      } catch (error) {
+        console.error('Referral attribution error:', error);
+      }
+    }
+
     // Create session
     const session = await createSession({
       userId: user.id,
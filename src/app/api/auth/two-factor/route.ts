@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedRequest } from '../../../../lib/middleware/auth';
+import { disableTwoFactor, startTwoFactorEnrollment } from '@/lib/db/twoFactor';
+
+/**
+ * Start two-factor enrollment. Returns the secret for the user's
+ * authenticator app; it takes effect once a code from it is verified.
+ */
+export async function POST(request: NextRequest) {
+  return withAuth(request, async (req: AuthenticatedRequest) => {
+    try {
+      const enrollment = await startTwoFactorEnrollment(req.user!.id);
+
+      return NextResponse.json({
+        success: true,
+        ...enrollment
+      }, { status: 201 });
+
+    } catch (error) {
+      console.error('Start two-factor enrollment error:', error);
+
+      if (error instanceof Error) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: error.message.includes('not found') ? 404 : 400 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  });
+}
+
+/**
+ * Turn two-factor authentication off. Body: `{ code }`
+ */
+export async function DELETE(request: NextRequest) {
+  return withAuth(request, async (req: AuthenticatedRequest) => {
+    try {
+      const { code } = await req.json();
+
+      await disableTwoFactor(req.user!.id, typeof code === 'string' ? code : '');
+
+      return NextResponse.json({
+        success: true
+      });
+
+    } catch (error) {
+      console.error('Disable two-factor error:', error);
+
+      if (error instanceof Error) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: error.message.startsWith('Too many') ? 429 : 400 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  });
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedRequest } from '../../../../../lib/middleware/auth';
+import { confirmTwoFactorEnrollment } from '@/lib/db/twoFactor';
+
+/**
+ * Finish two-factor enrollment with a code from the authenticator app.
+ * Body: `{ code }`
+ */
+export async function POST(request: NextRequest) {
+  return withAuth(request, async (req: AuthenticatedRequest) => {
+    try {
+      const { code } = await req.json();
+
+      await confirmTwoFactorEnrollment(req.user!.id, typeof code === 'string' ? code : '');
+
+      return NextResponse.json({
+        success: true,
+        twoFactorEnabled: true
+      });
+
+    } catch (error) {
+      console.error('Verify two-factor enrollment error:', error);
+
+      if (error instanceof Error) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: error.message.includes('not found') ? 404 : error.message.startsWith('Too many') ? 429 : 400 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  });
+}
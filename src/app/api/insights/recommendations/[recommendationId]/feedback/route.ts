@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedRequest } from '../../../../../../lib/middleware/auth';
+import { clearRecommendationFeedback, setRecommendationFeedback } from '@/lib/db/recommendationFeedback';
+
+/**
+ * Dismiss, snooze or mark a recommendation done so it isn't shown again.
+ * Body: `{ action: 'dismiss' | 'snooze' | 'done', title, snoozeDays? }`
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { recommendationId: string } }
+) {
+  return withAuth(request, async (req: AuthenticatedRequest) => {
+    try {
+      const { action, title, snoozeDays } = await req.json();
+
+      const feedback = await setRecommendationFeedback(req.user!.id, params.recommendationId, {
+        action,
+        title: typeof title === 'string' ? title : '',
+        snoozeDays: snoozeDays === undefined || snoozeDays === null ? undefined : Number(snoozeDays)
+      });
+
+      return NextResponse.json({
+        success: true,
+        feedback
+      }, { status: 201 });
+
+    } catch (error) {
+      console.error('Set recommendation feedback error:', error);
+
+      if (error instanceof Error) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  });
+}
+
+/**
+ * Undo feedback so the recommendation can be shown again
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { recommendationId: string } }
+) {
+  return withAuth(request, async (req: AuthenticatedRequest) => {
+    try {
+      await clearRecommendationFeedback(req.user!.id, params.recommendationId);
+
+      return NextResponse.json({
+        success: true
+      });
+
+    } catch (error) {
+      console.error('Clear recommendation feedback error:', error);
+
+      if (error instanceof Error && error.message.includes('not found')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  });
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withOptionalAuth, AuthenticatedRequest } from '../../../../lib/middleware/auth';
+import { getLeagueStandings } from '@/lib/db/leagues';
+
+/**
+ * Standings for any league, current or past
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { leagueId: string } }
+) {
+  return withOptionalAuth(request, async (req: AuthenticatedRequest) => {
+    try {
+      const league = await getLeagueStandings(params.leagueId, req.user?.id);
+
+      return NextResponse.json({
+        success: true,
+        league
+      });
+
+    } catch (error) {
+      console.error('Get league standings error:', error);
+
+      if (error instanceof Error && error.message.includes('not found')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  });
+}
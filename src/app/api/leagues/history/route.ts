@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedRequest } from '../../../../lib/middleware/auth';
+import { getLeagueHistory } from '@/lib/db/leagues';
+
+/**
+ * How the caller finished in past weeks, most recent first
+ */
+export async function GET(request: NextRequest) {
+  return withAuth(request, async (req: AuthenticatedRequest) => {
+    try {
+      const { searchParams } = new URL(req.url);
+      const limit = parseInt(searchParams.get('limit') || '10');
+
+      if (isNaN(limit) || limit < 1 || limit > 52) {
+        return NextResponse.json(
+          { error: 'Limit must be between 1 and 52' },
+          { status: 400 }
+        );
+      }
+
+      const history = await getLeagueHistory(req.user!.id, limit);
+
+      return NextResponse.json({
+        success: true,
+        history
+      });
+
+    } catch (error) {
+      console.error('Get league history error:', error);
+      
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  });
+}
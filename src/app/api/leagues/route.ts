@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedRequest } from '../../../lib/middleware/auth';
+import { getCurrentLeague } from '@/lib/db/leagues';
+
+/**
+ * The caller's league for this week, with standings and promotion and
+ * relegation zones
+ */
+export async function GET(request: NextRequest) {
+  return withAuth(request, async (req: AuthenticatedRequest) => {
+    try {
+      const league = await getCurrentLeague(req.user!.id);
+
+      return NextResponse.json({
+        success: true,
+        league
+      });
+
+    } catch (error) {
+      console.error('Get current league error:', error);
+
+      if (error instanceof Error && error.message.includes('not found')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  });
+}
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server'
-import { PrismaClient } from '@prisma/client'
+import { PrismaClient, TransactionType } from '@prisma/client'
+import { fromMinorUnits } from '@/lib/utils/money'
 
 const prisma = new PrismaClient()
 
@@ -39,13 +40,13 @@ export async function GET() {
       metrics.push(`morphsave_transactions_total ${transactionCount}`)
       
       const totalSaved = await prisma.savingsTransaction.aggregate({
-        _sum: { amount: true },
-        where: { type: { in: ['roundup', 'manual'] } }
+        _sum: { amountMinor: true },
+        where: { type: { in: [TransactionType.ROUNDUP, TransactionType.MANUAL] } }
       })
       
       metrics.push(`# HELP morphsave_total_saved_amount Total amount saved by all users`)
       metrics.push(`# TYPE morphsave_total_saved_amount gauge`)
-      metrics.push(`morphsave_total_saved_amount ${totalSaved._sum.amount || 0}`)
+      metrics.push(`morphsave_total_saved_amount ${fromMinorUnits(totalSaved._sum.amountMinor || 0)}`)
       
       const activeUsers = await prisma.user.count({
         where: {
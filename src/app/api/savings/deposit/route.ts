@@ -1,13 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { withAuth, AuthenticatedRequest } from '@/lib/middleware/auth';
-import { createSavingsTransaction } from '@/lib/db/savings';
+import { withAuth, AuthenticatedRequest } from '../../../../lib/middleware/auth';
+import { createSavingsTransaction, getTransactionAmount } from '@/lib/db/savings';
+import { getUserCurrency } from '@/lib/db/savingsLedger';
 import { checkAndUnlockAchievements } from '@/lib/db/achievements';
+import { applyDepositRules } from '@/lib/db/savingsRules';
+import { getSavingsGoal } from '@/lib/db/savingsGoals';
+import { money, formatMoney, toMajorUnits } from '@/lib/utils/money';
+import { getFxRateProvider } from '@/lib/fx/providers';
 
 export async function POST(request: NextRequest) {
   return withAuth(request, async (req: AuthenticatedRequest) => {
     try {
       const body = await req.json();
-      const { amount, type = 'MANUAL' } = body;
+      const { amount, type = 'MANUAL', currency, goalId } = body;
 
       // Validation
       if (!amount || amount <= 0) {
@@ -31,36 +36,67 @@ export async function POST(request: NextRequest) {
         );
       }
 
+      // Deposits may be made in any supported currency, defaulting to the user's own
+      if (currency !== undefined &&
+          (typeof currency !== 'string' || !getFxRateProvider().supports(currency))) {
+        return NextResponse.json(
+          { error: 'Unsupported currency' },
+          { status: 400 }
+        );
+      }
+
+      const depositAmount = money(amount, currency || await getUserCurrency(req.user!.id));
+
+      // Deposits can be directed at a goal, which they fill first once confirmed
+      if (goalId !== undefined) {
+        await getSavingsGoal(req.user!.id, goalId);
+      }
+
       // Create savings transaction
       const transaction = await createSavingsTransaction({
         userId: req.user!.id,
         type: type as 'MANUAL' | 'DEPOSIT',
-        amount,
-        status: 'PENDING' // Will be confirmed after blockchain transaction
+        amount: depositAmount,
+        status: 'PENDING', // Will be confirmed after blockchain transaction
+        goalId
       });
 
+      // Percentage rules only apply to incoming deposits
+      const ruleTransactions = type === 'DEPOSIT'
+        ? await applyDepositRules(req.user!.id, depositAmount, transaction.id)
+        : [];
+
       // Check for achievements
       const newAchievements = await checkAndUnlockAchievements(
         req.user!.id,
         'savings',
-        { transactionAmount: amount }
+        { transactionAmount: toMajorUnits(depositAmount) }
       );
 
       return NextResponse.json({
         success: true,
         transaction: {
           id: transaction.id,
-          amount: transaction.amount,
+          amount: toMajorUnits(depositAmount),
+          currency: transaction.currency,
+          fxRate: transaction.fxRate,
+          goalId: transaction.goalId,
           type: transaction.type,
           status: transaction.status,
           createdAt: transaction.createdAt
         },
+        ruleTransactions: ruleTransactions.map(rt => ({
+          id: rt.id,
+          ruleId: rt.ruleId,
+          amount: toMajorUnits(getTransactionAmount(rt)),
+          status: rt.status
+        })),
         newAchievements: newAchievements.map(ua => ({
           id: ua.achievement.id,
           name: ua.achievement.name,
           pointsReward: ua.achievement.pointsReward
         })),
-        message: `${type === 'MANUAL' ? 'Manual deposit' : 'Deposit'} of $${amount.toFixed(2)} initiated successfully`
+        message: `${type === 'MANUAL' ? 'Manual deposit' : 'Deposit'} of ${formatMoney(depositAmount)} initiated successfully`
       });
 
     } catch (error) {
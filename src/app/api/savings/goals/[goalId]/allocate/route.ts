@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedRequest } from '../../../../../../lib/middleware/auth';
+import { allocateToSavingsGoal, getSavingsGoal } from '@/lib/db/savingsGoals';
+
+// POST /api/savings/goals/[goalId]/allocate - Move unallocated savings into a goal
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { goalId: string } }
+) {
+  return withAuth(request, async (req: AuthenticatedRequest) => {
+    try {
+      const { amount } = await req.json();
+
+      if (typeof amount !== 'number' || amount <= 0) {
+        return NextResponse.json(
+          { error: 'Amount must be greater than 0' },
+          { status: 400 }
+        );
+      }
+
+      await allocateToSavingsGoal(req.user!.id, params.goalId, amount);
+      const goal = await getSavingsGoal(req.user!.id, params.goalId);
+
+      return NextResponse.json({
+        success: true,
+        goal
+      });
+    } catch (error) {
+      console.error('Failed to allocate to savings goal:', error);
+
+      if (error instanceof Error) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: error.message === 'Savings goal not found' ? 404 : 400 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  });
+}
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedRequest } from '../../../../../lib/middleware/auth';
+import {
+  deleteSavingsGoal,
+  getSavingsGoal,
+  getSavingsGoalAllocations,
+  updateSavingsGoal
+} from '@/lib/db/savingsGoals';
+
+const GOAL_STATUSES = ['ACTIVE', 'ARCHIVED'];
+
+// GET /api/savings/goals/[goalId] - Goal progress and recent allocations
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { goalId: string } }
+) {
+  return withAuth(request, async (req: AuthenticatedRequest) => {
+    try {
+      const [goal, allocations] = await Promise.all([
+        getSavingsGoal(req.user!.id, params.goalId),
+        getSavingsGoalAllocations(req.user!.id, params.goalId)
+      ]);
+
+      return NextResponse.json({
+        success: true,
+        goal,
+        allocations
+      });
+    } catch (error) {
+      console.error('Failed to fetch savings goal:', error);
+      return NextResponse.json(
+        { error: 'Savings goal not found' },
+        { status: 404 }
+      );
+    }
+  });
+}
+
+// PATCH /api/savings/goals/[goalId] - Update or archive a savings goal
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { goalId: string } }
+) {
+  return withAuth(request, async (req: AuthenticatedRequest) => {
+    try {
+      const body = await req.json();
+      const { name, target, deadline, priority, icon, splitRatio, status } = body;
+
+      if (status !== undefined && !GOAL_STATUSES.includes(status)) {
+        return NextResponse.json(
+          { error: 'Status must be ACTIVE or ARCHIVED' },
+          { status: 400 }
+        );
+      }
+
+      const goal = await updateSavingsGoal(req.user!.id, params.goalId, {
+        name,
+        target,
+        deadline: deadline === undefined ? undefined : deadline && new Date(deadline),
+        priority,
+        icon,
+        splitRatio,
+        status
+      });
+
+      return NextResponse.json({
+        success: true,
+        goal
+      });
+    } catch (error) {
+      console.error('Failed to update savings goal:', error);
+
+      if (error instanceof Error) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: error.message === 'Savings goal not found' ? 404 : 400 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  });
+}
+
+// DELETE /api/savings/goals/[goalId] - Delete a savings goal
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { goalId: string } }
+) {
+  return withAuth(request, async (req: AuthenticatedRequest) => {
+    try {
+      await deleteSavingsGoal(req.user!.id, params.goalId);
+
+      return NextResponse.json({
+        success: true,
+        message: 'Savings goal deleted'
+      });
+    } catch (error) {
+      console.error('Failed to delete savings goal:', error);
+      return NextResponse.json(
+        { error: 'Savings goal not found' },
+        { status: 404 }
+      );
+    }
+  });
+}
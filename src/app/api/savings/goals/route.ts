@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedRequest } from '../../../../lib/middleware/auth';
+import { createSavingsGoal, getGoalsOverview, setGoalAllocationMode } from '@/lib/db/savingsGoals';
+
+const ALLOCATION_MODES = ['PRIORITY', 'SPLIT', 'MANUAL'];
+
+// GET /api/savings/goals - List user's goals with progress and unallocated savings
+export async function GET(request: NextRequest) {
+  return withAuth(request, async (req: AuthenticatedRequest) => {
+    try {
+      const overview = await getGoalsOverview(req.user!.id);
+
+      return NextResponse.json({
+        success: true,
+        ...overview
+      });
+    } catch (error) {
+      console.error('Failed to fetch savings goals:', error);
+      return NextResponse.json(
+        { error: 'Failed to fetch savings goals' },
+        { status: 500 }
+      );
+    }
+  });
+}
+
+// POST /api/savings/goals - Create a savings goal
+export async function POST(request: NextRequest) {
+  return withAuth(request, async (req: AuthenticatedRequest) => {
+    try {
+      const body = await req.json();
+      const { name, target, deadline, priority, icon, splitRatio } = body;
+
+      if (!name || typeof name !== 'string') {
+        return NextResponse.json(
+          { error: 'Goal name is required' },
+          { status: 400 }
+        );
+      }
+
+      if (typeof target !== 'number') {
+        return NextResponse.json(
+          { error: 'Target must be a number' },
+          { status: 400 }
+        );
+      }
+
+      const goal = await createSavingsGoal({
+        userId: req.user!.id,
+        name,
+        target,
+        deadline: deadline ? new Date(deadline) : null,
+        priority,
+        icon,
+        splitRatio
+      });
+
+      return NextResponse.json({
+        success: true,
+        goal
+      }, { status: 201 });
+    } catch (error) {
+      console.error('Failed to create savings goal:', error);
+
+      if (error instanceof Error) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  });
+}
+
+// PUT /api/savings/goals - Choose how confirmed savings are allocated to goals
+export async function PUT(request: NextRequest) {
+  return withAuth(request, async (req: AuthenticatedRequest) => {
+    try {
+      const { allocationMode } = await req.json();
+
+      if (!ALLOCATION_MODES.includes(allocationMode)) {
+        return NextResponse.json(
+          { error: 'Allocation mode must be PRIORITY, SPLIT or MANUAL' },
+          { status: 400 }
+        );
+      }
+
+      await setGoalAllocationMode(req.user!.id, allocationMode);
+
+      return NextResponse.json({
+        success: true,
+        allocationMode
+      });
+    } catch (error) {
+      console.error('Failed to update goal allocation mode:', error);
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  });
+}
@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { withAuth, AuthenticatedRequest } from '@/lib/middleware/auth';
-import { processRoundUp } from '@/lib/db/savings';
+import { withAuth, AuthenticatedRequest } from '../../../../lib/middleware/auth';
+import { processRoundUp, getRoundUpCapStatus, getTransactionAmount, getOriginalAmount } from '@/lib/db/savings';
 import { checkAndUnlockAchievements } from '@/lib/db/achievements';
+import { applyRoundUpRules } from '@/lib/db/savingsRules';
+import { formatMoney, money, toMajorUnits } from '@/lib/utils/money';
 
 export async function POST(request: NextRequest) {
   return withAuth(request, async (req: AuthenticatedRequest) => {
@@ -24,8 +26,8 @@ export async function POST(request: NextRequest) {
         );
       }
 
-      const roundUpAmount = roundUpTo || 1.0;
-      if (roundUpAmount < 0.5 || roundUpAmount > 5.0) {
+      // An explicit increment overrides the user's round-up strategy
+      if (roundUpTo !== undefined && (roundUpTo < 0.5 || roundUpTo > 5.0)) {
         return NextResponse.json(
           { error: 'Round up amount must be between $0.50 and $5.00' },
           { status: 400 }
@@ -33,38 +35,59 @@ export async function POST(request: NextRequest) {
       }
 
       // Process round-up transaction
-      const transaction = await processRoundUp(
+      const { transaction, outcome, roundUpAmount: savedAmount, currency, caps: roundUpCaps } = await processRoundUp(
         req.user!.id,
         originalAmount,
         merchant,
         category || 'Other',
-        roundUpAmount
+        roundUpTo
       );
 
+      // Multiplier rules only apply to round-ups saved within the caps
+      const { transactions: ruleTransactions, caps } = transaction && outcome === 'SAVED'
+        ? await applyRoundUpRules(transaction, roundUpCaps)
+        : { transactions: [], caps: roundUpCaps };
+
       // Check for achievements
       const newAchievements = await checkAndUnlockAchievements(
         req.user!.id,
         'savings',
-        { transactionAmount: transaction.amount }
+        { transactionAmount: savedAmount }
       );
 
+      const roundUp = formatMoney(money(savedAmount, currency));
+      const messages = {
+        SAVED: `Round-up of ${roundUp} processed successfully`,
+        DEFERRED: `Round-up cap reached, ${roundUp} round-up deferred`,
+        DROPPED: `Round-up cap reached, ${roundUp} round-up skipped`
+      };
+
       return NextResponse.json({
         success: true,
-        transaction: {
+        outcome,
+        transaction: transaction && {
           id: transaction.id,
-          amount: transaction.amount,
-          originalAmount: transaction.originalTransactionAmount,
+          amount: toMajorUnits(getTransactionAmount(transaction)),
+          originalAmount: toMajorUnits(getOriginalAmount(transaction)!),
+          currency: transaction.currency,
           merchant: transaction.merchant,
           category: transaction.category,
           status: transaction.status,
           createdAt: transaction.createdAt
         },
+        ruleTransactions: ruleTransactions.map(rt => ({
+          id: rt.id,
+          ruleId: rt.ruleId,
+          amount: toMajorUnits(getTransactionAmount(rt)),
+          status: rt.status
+        })),
+        caps,
         newAchievements: newAchievements.map(ua => ({
           id: ua.achievement.id,
           name: ua.achievement.name,
           pointsReward: ua.achievement.pointsReward
         })),
-        message: `Round-up of $${transaction.amount.toFixed(2)} processed successfully`
+        message: messages[outcome]
       });
 
     } catch (error) {
@@ -83,4 +106,24 @@ export async function POST(request: NextRequest) {
       );
     }
   });
-}
\ No newline at end of file
+}
+
+// GET /api/savings/roundup - Remaining daily, weekly and monthly round-up caps
+export async function GET(request: NextRequest) {
+  return withAuth(request, async (req: AuthenticatedRequest) => {
+    try {
+      const caps = await getRoundUpCapStatus(req.user!.id);
+
+      return NextResponse.json({
+        success: true,
+        caps
+      });
+    } catch (error) {
+      console.error('Round-up cap status error:', error);
+      return NextResponse.json(
+        { error: 'Failed to fetch round-up caps' },
+        { status: 500 }
+      );
+    }
+  });
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedRequest } from '../../../../../lib/middleware/auth';
+import { deleteSavingsRule, updateSavingsRule } from '@/lib/db/savingsRules';
+
+// PATCH /api/savings/rules/[ruleId] - Update or pause a savings rule
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { ruleId: string } }
+) {
+  return withAuth(request, async (req: AuthenticatedRequest) => {
+    try {
+      const body = await req.json();
+      const {
+        name,
+        isActive,
+        amount,
+        frequency,
+        dayOfWeek,
+        dayOfMonth,
+        percentage,
+        minTriggerAmount,
+        multiplier,
+        daysOfWeek,
+        maxAmount
+      } = body;
+
+      const rule = await updateSavingsRule(req.user!.id, params.ruleId, {
+        name,
+        isActive,
+        amount,
+        frequency,
+        dayOfWeek,
+        dayOfMonth,
+        percentage,
+        minTriggerAmount,
+        multiplier,
+        daysOfWeek,
+        maxAmount
+      });
+
+      return NextResponse.json({
+        success: true,
+        rule
+      });
+    } catch (error) {
+      console.error('Failed to update savings rule:', error);
+
+      if (error instanceof Error) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: error.message === 'Savings rule not found' ? 404 : 400 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  });
+}
+
+// DELETE /api/savings/rules/[ruleId] - Delete a savings rule
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { ruleId: string } }
+) {
+  return withAuth(request, async (req: AuthenticatedRequest) => {
+    try {
+      await deleteSavingsRule(req.user!.id, params.ruleId);
+
+      return NextResponse.json({
+        success: true,
+        message: 'Savings rule deleted'
+      });
+    } catch (error) {
+      console.error('Failed to delete savings rule:', error);
+      return NextResponse.json(
+        { error: 'Savings rule not found' },
+        { status: 404 }
+      );
+    }
+  });
+}
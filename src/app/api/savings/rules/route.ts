@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedRequest } from '../../../../lib/middleware/auth';
+import { createSavingsRule, getUserSavingsRules } from '@/lib/db/savingsRules';
+
+const RULE_TYPES = ['SCHEDULED', 'PERCENTAGE_OF_DEPOSIT', 'ROUNDUP_MULTIPLIER'];
+
+// GET /api/savings/rules - List user's savings rules
+export async function GET(request: NextRequest) {
+  return withAuth(request, async (req: AuthenticatedRequest) => {
+    try {
+      const { searchParams } = new URL(req.url);
+      const activeOnly = searchParams.get('active') === 'true';
+
+      const rules = await getUserSavingsRules(req.user!.id, activeOnly);
+
+      return NextResponse.json({
+        success: true,
+        rules
+      });
+    } catch (error) {
+      console.error('Failed to fetch savings rules:', error);
+      return NextResponse.json(
+        { error: 'Failed to fetch savings rules' },
+        { status: 500 }
+      );
+    }
+  });
+}
+
+// POST /api/savings/rules - Create a savings rule
+export async function POST(request: NextRequest) {
+  return withAuth(request, async (req: AuthenticatedRequest) => {
+    try {
+      const body = await req.json();
+      const {
+        name,
+        type,
+        amount,
+        frequency,
+        dayOfWeek,
+        dayOfMonth,
+        percentage,
+        minTriggerAmount,
+        multiplier,
+        daysOfWeek,
+        maxAmount
+      } = body;
+
+      if (!name || typeof name !== 'string') {
+        return NextResponse.json(
+          { error: 'Rule name is required' },
+          { status: 400 }
+        );
+      }
+
+      if (!RULE_TYPES.includes(type)) {
+        return NextResponse.json(
+          { error: 'Invalid rule type' },
+          { status: 400 }
+        );
+      }
+
+      const rule = await createSavingsRule({
+        userId: req.user!.id,
+        name: name.trim(),
+        type,
+        amount,
+        frequency,
+        dayOfWeek,
+        dayOfMonth,
+        percentage,
+        minTriggerAmount,
+        multiplier,
+        daysOfWeek,
+        maxAmount
+      });
+
+      return NextResponse.json({
+        success: true,
+        rule
+      }, { status: 201 });
+    } catch (error) {
+      console.error('Failed to create savings rule:', error);
+
+      if (error instanceof Error) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  });
+}
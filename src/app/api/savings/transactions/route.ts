@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { withAuth, AuthenticatedRequest } from '@/lib/middleware/auth';
-import { getUserTransactions } from '@/lib/db/savings';
+import { withAuth, AuthenticatedRequest } from '../../../../lib/middleware/auth';
+import { getUserTransactions, getTransactionAmount, getOriginalAmount } from '@/lib/db/savings';
+import { toMajorUnits } from '@/lib/utils/money';
 
 export async function GET(request: NextRequest) {
   return withAuth(request, async (req: AuthenticatedRequest) => {
@@ -37,20 +38,24 @@ export async function GET(request: NextRequest) {
 
       return NextResponse.json({
         success: true,
-        transactions: result.transactions.map(transaction => ({
-          id: transaction.id,
-          type: transaction.type,
-          amount: transaction.amount,
-          currency: transaction.currency,
-          status: transaction.status,
-          blockchainTxHash: transaction.blockchainTxHash,
-          originalTransactionAmount: transaction.originalTransactionAmount,
-          merchant: transaction.merchant,
-          category: transaction.category,
-          yieldProtocol: transaction.yieldProtocol,
-          apy: transaction.apy,
-          createdAt: transaction.createdAt
-        })),
+        transactions: result.transactions.map(transaction => {
+          const originalAmount = getOriginalAmount(transaction);
+
+          return {
+            id: transaction.id,
+            type: transaction.type,
+            amount: toMajorUnits(getTransactionAmount(transaction)),
+            currency: transaction.currency,
+            status: transaction.status,
+            blockchainTxHash: transaction.blockchainTxHash,
+            originalTransactionAmount: originalAmount && toMajorUnits(originalAmount),
+            merchant: transaction.merchant,
+            category: transaction.category,
+            yieldProtocol: transaction.yieldProtocol,
+            apy: transaction.apy,
+            createdAt: transaction.createdAt
+          };
+        }),
         pagination: {
           page,
           limit,
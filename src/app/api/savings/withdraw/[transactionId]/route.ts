@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedRequest } from '../../../../../lib/middleware/auth';
+import { cancelWithdrawal } from '@/lib/db/withdrawals';
+
+// DELETE /api/savings/withdraw/[transactionId] - Cancel a withdrawal during its cooling-off period
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { transactionId: string } }
+) {
+  return withAuth(request, async (req: AuthenticatedRequest) => {
+    try {
+      const transaction = await cancelWithdrawal(req.user!.id, params.transactionId);
+
+      return NextResponse.json({
+        success: true,
+        transaction: {
+          id: transaction.id,
+          status: transaction.status
+        },
+        message: 'Withdrawal cancelled'
+      });
+    } catch (error) {
+      console.error('Failed to cancel withdrawal:', error);
+      return NextResponse.json(
+        { error: 'Withdrawal not found or already sent' },
+        { status: 404 }
+      );
+    }
+  });
+}
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedRequest } from '../../../../lib/middleware/auth';
+import { getWithdrawalStatus, requestWithdrawal } from '@/lib/db/withdrawals';
+import { getTransactionAmount } from '@/lib/db/savings';
+import { formatMoney, toMajorUnits } from '@/lib/utils/money';
+
+// Rejections that need the user to act rather than fix the request
+const REJECTION_STATUS = {
+  INSUFFICIENT_BALANCE: 400,
+  DAILY_LIMIT: 429,
+  DAILY_COUNT: 429,
+  TWO_FACTOR_REQUIRED: 401,
+  TWO_FACTOR_DISABLED: 403
+};
+
+// GET /api/savings/withdraw - Available balance and today's withdrawal limits
+export async function GET(request: NextRequest) {
+  return withAuth(request, async (req: AuthenticatedRequest) => {
+    try {
+      const status = await getWithdrawalStatus(req.user!.id);
+
+      return NextResponse.json({
+        success: true,
+        ...status
+      });
+    } catch (error) {
+      console.error('Failed to fetch withdrawal status:', error);
+      return NextResponse.json(
+        { error: 'Failed to fetch withdrawal status' },
+        { status: 500 }
+      );
+    }
+  });
+}
+
+// POST /api/savings/withdraw - Withdraw savings from the vault
+export async function POST(request: NextRequest) {
+  return withAuth(request, async (req: AuthenticatedRequest) => {
+    try {
+      const body = await req.json();
+      const { amount, twoFactorCode } = body;
+
+      if (typeof amount !== 'number' || amount <= 0) {
+        return NextResponse.json(
+          { error: 'Amount must be greater than 0' },
+          { status: 400 }
+        );
+      }
+
+      if (twoFactorCode !== undefined && typeof twoFactorCode !== 'string') {
+        return NextResponse.json(
+          { error: 'Invalid two-factor code' },
+          { status: 400 }
+        );
+      }
+
+      const result = await requestWithdrawal({
+        userId: req.user!.id,
+        amount,
+        twoFactorCode
+      });
+
+      if (!result.decision.allowed) {
+        return NextResponse.json(
+          {
+            error: result.decision.message,
+            reason: result.decision.reason,
+            requiresTwoFactor: result.decision.reason === 'TWO_FACTOR_REQUIRED'
+          },
+          { status: REJECTION_STATUS[result.decision.reason] }
+        );
+      }
+
+      const transaction = result.transaction!;
+      const withdrawalAmount = getTransactionAmount(transaction);
+
+      return NextResponse.json({
+        success: transaction.status !== 'FAILED',
+        outcome: result.outcome,
+        transaction: {
+          id: transaction.id,
+          amount: toMajorUnits(withdrawalAmount),
+          currency: transaction.currency,
+          status: transaction.status,
+          blockchainTxHash: transaction.blockchainTxHash,
+          executeAfter: transaction.executeAfter,
+          createdAt: transaction.createdAt
+        },
+        message: result.outcome === 'SCHEDULED'
+          ? `Withdrawal of ${formatMoney(withdrawalAmount)} will be sent after your cooling-off period`
+          : transaction.status === 'FAILED'
+            ? `Withdrawal of ${formatMoney(withdrawalAmount)} could not be sent`
+            : `Withdrawal of ${formatMoney(withdrawalAmount)} submitted successfully`
+      }, { status: transaction.status === 'FAILED' ? 502 : 200 });
+
+    } catch (error) {
+      console.error('Withdrawal processing error:', error);
+
+      if (error instanceof Error) {
+        return NextResponse.json(
+          { error: error.message },
+          {
+            status: error.message === 'Invalid two-factor code'
+              ? 401
+              : error.message.startsWith('Too many') ? 429 : 400
+          }
+        );
+      }
+
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  });
+}
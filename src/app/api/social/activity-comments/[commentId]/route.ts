@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedRequest } from '../../../../../lib/middleware/auth';
+import { deleteActivityComment } from '../../../../../../lib/db/activityFeed';
+
+/**
+ * Delete a comment the caller wrote, or one on their own activity
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { commentId: string } }
+) {
+  return withAuth(request, async (req: AuthenticatedRequest) => {
+    try {
+      const comment = await deleteActivityComment(params.commentId, req.user!.id);
+
+      return NextResponse.json({
+        success: true,
+        data: comment
+      });
+    } catch (error) {
+      console.error('Error deleting comment:', error);
+      if (error instanceof Error) {
+        return NextResponse.json(
+          { error: error.message },
+          {
+            status: error.message.includes('not found') ? 404
+              : error.message.startsWith('Only') ? 403
+              : 400
+          }
+        );
+      }
+      return NextResponse.json(
+        { error: 'Failed to delete comment' },
+        { status: 500 }
+      );
+    }
+  });
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedRequest } from '../../../../../../lib/middleware/auth';
+import { acceptChallengeInvite } from '../../../../../../../lib/db/challengeInvites';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { inviteId: string } }
+) {
+  return withAuth(request, async (req: AuthenticatedRequest) => {
+    try {
+      // Team challenges take an optional team, as when joining directly
+      const { teamId } = await request.json().catch(() => ({}));
+
+      const participation = await acceptChallengeInvite(params.inviteId, req.user!.id, teamId);
+
+      return NextResponse.json({
+        success: true,
+        data: participation
+      });
+    } catch (error) {
+      console.error('Error accepting challenge invite:', error);
+      if (error instanceof Error) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: error.message.includes('not found') ? 404 : 400 }
+        );
+      }
+      return NextResponse.json(
+        { error: 'Failed to accept invite' },
+        { status: 500 }
+      );
+    }
+  });
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedRequest } from '../../../../../../lib/middleware/auth';
+import { declineChallengeInvite } from '../../../../../../../lib/db/challengeInvites';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { inviteId: string } }
+) {
+  return withAuth(request, async (req: AuthenticatedRequest) => {
+    try {
+      await declineChallengeInvite(params.inviteId, req.user!.id);
+
+      return NextResponse.json({
+        success: true,
+        message: 'Challenge invite declined'
+      });
+    } catch (error) {
+      console.error('Error declining challenge invite:', error);
+      if (error instanceof Error) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: error.message.includes('not found') ? 404 : 400 }
+        );
+      }
+      return NextResponse.json(
+        { error: 'Failed to decline invite' },
+        { status: 500 }
+      );
+    }
+  });
+}
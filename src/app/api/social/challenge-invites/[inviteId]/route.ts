@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedRequest } from '../../../../../lib/middleware/auth';
+import { revokeChallengeInvite } from '../../../../../../lib/db/challengeInvites';
+
+/**
+ * Revoke a pending invite or join link
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { inviteId: string } }
+) {
+  return withAuth(request, async (req: AuthenticatedRequest) => {
+    try {
+      const invite = await revokeChallengeInvite(params.inviteId, req.user!.id);
+
+      return NextResponse.json({
+        success: true,
+        data: invite
+      });
+    } catch (error) {
+      console.error('Error revoking challenge invite:', error);
+      if (error instanceof Error) {
+        return NextResponse.json(
+          { error: error.message },
+          {
+            status: error.message.includes('not found') ? 404
+              : error.message.startsWith('Only') ? 403
+              : 400
+          }
+        );
+      }
+      return NextResponse.json(
+        { error: 'Failed to revoke invite' },
+        { status: 500 }
+      );
+    }
+  });
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedRequest } from '../../../../../lib/middleware/auth';
+import {
+  previewChallengeJoinLink,
+  redeemChallengeJoinLink
+} from '../../../../../../lib/db/challengeInvites';
+
+/**
+ * Show the challenge behind a join link before joining
+ */
+export async function GET(request: NextRequest) {
+  return withAuth(request, async () => {
+    try {
+      const token = new URL(request.url).searchParams.get('token');
+      if (!token) {
+        return NextResponse.json(
+          { error: 'Token is required' },
+          { status: 400 }
+        );
+      }
+
+      const preview = await previewChallengeJoinLink(token);
+
+      return NextResponse.json({
+        success: true,
+        data: preview
+      });
+    } catch (error) {
+      console.error('Error previewing join link:', error);
+      if (error instanceof Error) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      return NextResponse.json(
+        { error: 'Failed to load invite link' },
+        { status: 500 }
+      );
+    }
+  });
+}
+
+/**
+ * Join a challenge through a join link
+ */
+export async function POST(request: NextRequest) {
+  return withAuth(request, async (req: AuthenticatedRequest) => {
+    try {
+      const { token, teamId } = await request.json();
+      if (!token || typeof token !== 'string') {
+        return NextResponse.json(
+          { error: 'Token is required' },
+          { status: 400 }
+        );
+      }
+
+      const participation = await redeemChallengeJoinLink(token, req.user!.id, teamId);
+
+      return NextResponse.json({
+        success: true,
+        data: participation
+      });
+    } catch (error) {
+      console.error('Error joining through invite link:', error);
+      if (error instanceof Error) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: error.message.includes('not found') ? 404 : 400 }
+        );
+      }
+      return NextResponse.json(
+        { error: 'Failed to join challenge' },
+        { status: 500 }
+      );
+    }
+  });
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedRequest } from '../../../../lib/middleware/auth';
+import { getPendingChallengeInvites } from '../../../../../lib/db/challengeInvites';
+
+/**
+ * Challenge invites waiting for the caller's answer
+ */
+export async function GET(request: NextRequest) {
+  return withAuth(request, async (req: AuthenticatedRequest) => {
+    try {
+      const invites = await getPendingChallengeInvites(req.user!.id);
+
+      return NextResponse.json({
+        success: true,
+        data: invites
+      });
+    } catch (error) {
+      console.error('Error fetching challenge invites:', error);
+      return NextResponse.json(
+        { error: 'Failed to fetch challenge invites' },
+        { status: 500 }
+      );
+    }
+  });
+}
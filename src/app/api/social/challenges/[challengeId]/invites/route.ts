@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedRequest } from '../../../../../../lib/middleware/auth';
+import {
+  createChallengeJoinLink,
+  getChallengeInvites,
+  inviteToChallenge
+} from '../../../../../../../lib/db/challengeInvites';
+
+/**
+ * A challenge's invites and join links, for its participants
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { challengeId: string } }
+) {
+  return withAuth(request, async (req: AuthenticatedRequest) => {
+    try {
+      const invites = await getChallengeInvites(params.challengeId, req.user!.id);
+
+      return NextResponse.json({
+        success: true,
+        data: invites
+      });
+    } catch (error) {
+      console.error('Error fetching challenge invites:', error);
+      if (error instanceof Error && error.message === 'Not participating in this challenge') {
+        return NextResponse.json({ error: error.message }, { status: 403 });
+      }
+      return NextResponse.json(
+        { error: 'Failed to fetch challenge invites' },
+        { status: 500 }
+      );
+    }
+  });
+}
+
+/**
+ * Invite users with `userIds`, or create a shareable join link with
+ * `link: true` and optional `expiresInDays` and `maxUses`
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { challengeId: string } }
+) {
+  return withAuth(request, async (req: AuthenticatedRequest) => {
+    try {
+      const userId = req.user!.id;
+      const { userIds, link, expiresInDays, maxUses } = await request.json();
+
+      if (link) {
+        const joinLink = await createChallengeJoinLink(params.challengeId, userId, {
+          expiresInDays,
+          maxUses
+        });
+
+        return NextResponse.json({
+          success: true,
+          data: joinLink
+        }, { status: 201 });
+      }
+
+      if (!Array.isArray(userIds) || userIds.some(id => typeof id !== 'string')) {
+        return NextResponse.json(
+          { error: 'userIds must be a list of user IDs' },
+          { status: 400 }
+        );
+      }
+
+      const invites = await inviteToChallenge(params.challengeId, userId, userIds);
+
+      return NextResponse.json({
+        success: true,
+        data: invites
+      }, { status: 201 });
+    } catch (error) {
+      console.error('Error inviting to challenge:', error);
+      if (error instanceof Error) {
+        return NextResponse.json(
+          { error: error.message },
+          {
+            status: error.message.includes('not found') ? 404
+              : error.message.startsWith('Only') ? 403
+              : 400
+          }
+        );
+      }
+      return NextResponse.json(
+        { error: 'Failed to invite to challenge' },
+        { status: 500 }
+      );
+    }
+  });
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '../../../../../../lib/db/prisma';
 import { verifyAuth } from '../../../../../../lib/middleware/auth';
+import { joinChallenge } from '../../../../../../../lib/db/challenges';
 
 export async function POST(
   request: NextRequest,
@@ -15,6 +16,8 @@ export async function POST(
 
     const userId = authResult.userId!;
     const { challengeId } = params;
+    // Team challenges take an optional team; without one the user is auto-balanced
+    const { teamId } = await request.json().catch(() => ({}));
 
     // Check if challenge exists and is joinable
     const challenge = await prisma.challenge.findUnique({
@@ -56,15 +59,8 @@ export async function POST(
       );
     }
 
-    // Add user as participant
-    const participation = await prisma.challengeParticipant.create({
-      data: {
-        challengeId: challengeId,
-        userId: userId,
-        currentProgress: 0,
-        isCompleted: false
-      }
-    });
+    // Add user as participant, locking their buy-in for staked challenges
+    const participation = await joinChallenge(challengeId, userId, teamId);
 
     // TODO: Send notification to challenge creator
     // TODO: Award participation achievement points
@@ -75,6 +71,13 @@ export async function POST(
     });
   } catch (error) {
     console.error('Error joining challenge:', error);
+    // Team and stake errors, e.g. a missing wallet or a failed buy-in
+    if (error instanceof Error) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.message.includes('not found') ? 404 : 400 }
+      );
+    }
     return NextResponse.json(
       { error: 'Failed to join challenge' },
       { status: 500 }
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedRequest } from '../../../../../../lib/middleware/auth';
+import { getChallengeLeaderboard } from '../../../../../../../lib/db/challenges';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { challengeId: string } }
+) {
+  return withAuth(request, async (req: AuthenticatedRequest) => {
+    try {
+      const leaderboard = await getChallengeLeaderboard(params.challengeId, req.user!.id);
+
+      return NextResponse.json({
+        success: true,
+        data: leaderboard
+      });
+    } catch (error) {
+      console.error('Error fetching challenge leaderboard:', error);
+      return NextResponse.json(
+        { error: 'Failed to fetch leaderboard' },
+        { status: 500 }
+      );
+    }
+  });
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '../../../../../../lib/db/prisma';
 import { verifyAuth } from '../../../../../../lib/middleware/auth';
+import { hasLockedStake } from '../../../../../../../lib/db/challengeStakes';
 
 export async function POST(
   request: NextRequest,
@@ -51,6 +52,14 @@ export async function POST(
       );
     }
 
+    // Locked buy-ins stay in the pot until the challenge settles or is cancelled
+    if (challenge.stakeWei && await hasLockedStake(challengeId, userId)) {
+      return NextResponse.json(
+        { error: 'Cannot leave a staked challenge' },
+        { status: 400 }
+      );
+    }
+
     // Remove participation
     await prisma.challengeParticipant.delete({
       where: {
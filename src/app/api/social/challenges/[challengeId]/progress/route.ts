@@ -1,7 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '../../../../../../lib/db/prisma';
 import { verifyAuth } from '../../../../../../lib/middleware/auth';
+import { recalculateChallengeProgress } from '../../../../../../../lib/db/challenges';
+import { getChallengeTarget, isChallengeTargetMet } from '../../../../../../../lib/gamification/challengeProgress';
 
+/**
+ * Refresh the caller's progress in a challenge. Progress is derived from the
+ * savings ledger and friendships on the server, so no amount is accepted.
+ */
 export async function POST(
   request: NextRequest,
   { params }: { params: { challengeId: string } }
@@ -15,15 +21,6 @@ export async function POST(
 
     const userId = authResult.userId!;
     const { challengeId } = params;
-    const body = await request.json();
-    const { amount } = body;
-
-    if (!amount || amount <= 0) {
-      return NextResponse.json(
-        { error: 'Valid amount is required' },
-        { status: 400 }
-      );
-    }
 
     // Check if user is participating in the challenge
     const participation = await prisma.challengeParticipant.findFirst({
@@ -51,61 +48,22 @@ export async function POST(
       );
     }
 
-    // Update progress
-    const newProgress = participation.currentProgress + amount;
-    const isCompleted = participation.challenge.targetAmount 
-      ? newProgress >= participation.challenge.targetAmount
-      : false;
+    await recalculateChallengeProgress(challengeId, [userId]);
 
-    const updatedParticipation = await prisma.challengeParticipant.update({
-      where: {
-        id: participation.id
-      },
-      data: {
-        currentProgress: newProgress,
-        isCompleted: isCompleted,
-        lastProgressUpdate: new Date()
-      }
+    const updatedParticipation = await prisma.challengeParticipant.findUniqueOrThrow({
+      where: { id: participation.id }
     });
 
-    // Record daily progress
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-
-    await prisma.challengeDailyProgress.upsert({
-      where: {
-        participantId_date: {
-          participantId: participation.id,
-          date: today
-        }
-      },
-      update: {
-        amount: {
-          increment: amount
-        }
-      },
-      create: {
-        participantId: participation.id,
-        date: today,
-        amount: amount
-      }
-    });
-
-    // Check if this completes the challenge for the user
-    if (isCompleted && !participation.isCompleted) {
-      // TODO: Award completion achievement points
-      // TODO: Send completion notification
-    }
-
-    // Update leaderboard rankings
-    await updateChallengeRankings(challengeId);
-
     return NextResponse.json({
       success: true,
       data: {
-        currentProgress: newProgress,
-        isCompleted: isCompleted,
-        progressAdded: amount
+        currentProgress: updatedParticipation.currentProgress,
+        rank: updatedParticipation.rank,
+        isCompleted: isChallengeTargetMet(
+          updatedParticipation.currentProgress,
+          getChallengeTarget(participation.challenge)
+        ),
+        progressAdded: updatedParticipation.currentProgress - participation.currentProgress
       }
     });
   } catch (error) {
@@ -116,19 +74,3 @@ export async function POST(
     );
   }
 }
-
-// Helper function to update challenge rankings
-async function updateChallengeRankings(challengeId: string) {
-  const participants = await prisma.challengeParticipant.findMany({
-    where: { challengeId },
-    orderBy: { currentProgress: 'desc' }
-  });
-
-  // Update ranks
-  for (let i = 0; i < participants.length; i++) {
-    await prisma.challengeParticipant.update({
-      where: { id: participants[i].id },
-      data: { rank: i + 1 }
-    });
-  }
-}
\ No newline at end of file
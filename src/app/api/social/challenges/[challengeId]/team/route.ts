@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedRequest } from '../../../../../../lib/middleware/auth';
+import { switchChallengeTeam } from '../../../../../../../lib/db/challenges';
+
+/**
+ * Move the caller to another team in a team challenge
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { challengeId: string } }
+) {
+  return withAuth(request, async (req: AuthenticatedRequest) => {
+    try {
+      const userId = req.user!.id;
+      const { teamId } = await request.json();
+
+      if (!teamId || typeof teamId !== 'string') {
+        return NextResponse.json(
+          { error: 'Team is required' },
+          { status: 400 }
+        );
+      }
+
+      const participation = await switchChallengeTeam(params.challengeId, userId, teamId);
+
+      return NextResponse.json({
+        success: true,
+        data: participation
+      });
+    } catch (error) {
+      console.error('Error switching challenge team:', error);
+      if (error instanceof Error) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: error.message.includes('not found') ? 404 : 400 }
+        );
+      }
+      return NextResponse.json(
+        { error: 'Failed to switch team' },
+        { status: 500 }
+      );
+    }
+  });
+}
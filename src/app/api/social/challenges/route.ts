@@ -1,6 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { StakeStatus } from '@prisma/client';
 import { prisma } from '../../../../lib/db/prisma';
 import { verifyAuth } from '../../../../lib/middleware/auth';
+import { updateChallengeRankings } from '../../../../../lib/db/challenges';
+import { lockChallengeStake } from '../../../../../lib/db/challengeStakes';
+import { resolveTeamNames, validateTeamSetup, validateTeamsInput } from '../../../../../lib/gamification/challengeTeams';
+import { parseStake, validateStake } from '../../../../../lib/gamification/stakePayouts';
+import {
+  getChallengeMilestones,
+  validateMilestones
+} from '../../../../../lib/gamification/challengeMilestones';
+import { getChallengeTarget, toChallengeTarget } from '../../../../../lib/gamification/challengeProgress';
 
 export async function GET(request: NextRequest) {
   try {
@@ -22,11 +32,18 @@ export async function GET(request: NextRequest) {
     } else if (status === 'upcoming') {
       whereClause.status = 'UPCOMING';
     } else if (status === 'completed') {
-      whereClause.status = 'COMPLETED';
+      whereClause.status = { in: ['SETTLING', 'COMPLETED'] };
     } else if (status === 'my-challenges') {
       whereClause.creatorId = userId;
     }
 
+    // Private challenges are only listed for their members and invitees
+    whereClause.OR = [
+      { isPublic: true },
+      { participants: { some: { userId } } },
+      { invites: { some: { inviteeId: userId, status: 'PENDING' } } }
+    ];
+
     // Get challenges
     const challenges = await prisma.challenge.findMany({
       where: whereClause,
@@ -68,7 +85,7 @@ export async function GET(request: NextRequest) {
       title: challenge.title,
       description: challenge.description,
       type: challenge.type.toLowerCase(),
-      targetAmount: challenge.targetAmount,
+      targetAmount: getChallengeTarget(challenge),
       duration: challenge.duration,
       startDate: challenge.startDate,
       endDate: challenge.endDate,
@@ -127,7 +144,12 @@ export async function POST(request: NextRequest) {
       duration,
       isPublic,
       maxParticipants,
-      rewards
+      rewards,
+      teams, // Team count or names, for a team challenge
+      teamScoring,
+      stake, // Buy-in in ETH, for a staked challenge
+      payoutCurve,
+      milestones // Percents of the target, e.g. [50, 100]; points are set by the server
     } = body;
 
     // Validate required fields
@@ -138,6 +160,45 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (targetAmount && !(typeof targetAmount === 'number' && targetAmount > 0)) {
+      return NextResponse.json(
+        { error: 'Target amount must be positive' },
+        { status: 400 }
+      );
+    }
+
+    const teamsError = teams !== undefined && teams !== null ? validateTeamsInput(teams) : null;
+    if (teamsError) {
+      return NextResponse.json({ error: teamsError }, { status: 400 });
+    }
+
+    const teamNames = teams !== undefined && teams !== null ? resolveTeamNames(teams) : null;
+    if (teamNames) {
+      const teamError = validateTeamSetup(teamNames, teamScoring);
+      if (teamError) {
+        return NextResponse.json({ error: teamError }, { status: 400 });
+      }
+    }
+
+    const stakeWei = stake !== undefined && stake !== null ? parseStake(stake) : null;
+    if (stake !== undefined && stake !== null) {
+      const stakeError = stakeWei === null ? 'Invalid stake' : validateStake(stakeWei, payoutCurve);
+      if (stakeError) {
+        return NextResponse.json({ error: stakeError }, { status: 400 });
+      }
+      if (teamNames) {
+        return NextResponse.json({ error: 'Team challenges cannot be staked' }, { status: 400 });
+      }
+    }
+
+    if (milestones !== undefined && milestones !== null) {
+      const milestoneError = validateMilestones(milestones, type.toUpperCase(), targetAmount);
+      if (milestoneError) {
+        return NextResponse.json({ error: milestoneError }, { status: 400 });
+      }
+    }
+    const challengeMilestones = getChallengeMilestones(type.toUpperCase(), targetAmount, milestones ?? undefined);
+
     // Calculate start and end dates
     const startDate = new Date();
     const endDate = new Date();
@@ -149,7 +210,7 @@ export async function POST(request: NextRequest) {
         title,
         description,
         type: type.toUpperCase(),
-        targetAmount: targetAmount || null,
+        target: toChallengeTarget(type.toUpperCase(), targetAmount || null),
         duration,
         startDate,
         endDate,
@@ -157,6 +218,25 @@ export async function POST(request: NextRequest) {
         status: 'ACTIVE',
         isPublic: isPublic ?? true,
         maxParticipants: maxParticipants || null,
+        ...(teamNames && {
+          teamScoring: teamScoring || 'SUM',
+          teams: {
+            create: teamNames.map(name => ({ name }))
+          }
+        }),
+        ...(stakeWei !== null && {
+          stakeWei: stakeWei.toString(),
+          payoutCurve: payoutCurve || 'WINNER_TAKES_ALL'
+        }),
+        ...(challengeMilestones.length > 0 && {
+          milestones: {
+            create: challengeMilestones.map((milestone, i) => ({
+              position: i + 1,
+              percent: milestone.percent,
+              points: milestone.points
+            }))
+          }
+        }),
         rewards: {
           create: [
             {
@@ -229,16 +309,52 @@ export async function POST(request: NextRequest) {
             }
           }
         },
-        rewards: true
+        rewards: true,
+        teams: true,
+        milestones: { orderBy: { position: 'asc' } }
       }
     });
 
+    // The creator's buy-in opens a staked challenge on chain
+    if (challenge.stakeWei) {
+      try {
+        await lockChallengeStake(challenge, userId);
+      } catch (stakeError) {
+        const message = stakeError instanceof Error ? stakeError.message : 'Failed to lock challenge stake';
+        const pendingStake = await prisma.challengeStake.findFirst({
+          where: { challengeId: challenge.id, status: StakeStatus.PENDING, txHash: { not: null } }
+        });
+
+        // A buy-in still being mined opens the pot once the challenge
+        // processor sees its receipt, so the challenge has to stay
+        if (pendingStake) {
+          return NextResponse.json({
+            success: true,
+            data: { ...challenge, targetAmount: getChallengeTarget(challenge) },
+            message
+          }, { status: 202 });
+        }
+
+        await prisma.challenge.delete({ where: { id: challenge.id } });
+        return NextResponse.json({ error: message }, { status: 400 });
+      }
+    }
+
+    // The creator starts on the first team
+    if (challenge.teams.length > 0) {
+      await prisma.challengeParticipant.updateMany({
+        where: { challengeId: challenge.id, userId },
+        data: { teamId: challenge.teams[0].id }
+      });
+      await updateChallengeRankings(challenge.id);
+    }
+
     // TODO: Send notifications to friends if public challenge
     // TODO: Award challenge creation achievement points
 
     return NextResponse.json({
       success: true,
-      data: challenge
+      data: { ...challenge, targetAmount: getChallengeTarget(challenge) }
     });
   } catch (error) {
     console.error('Error creating challenge:', error);
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedRequest } from '../../../../../../lib/middleware/auth';
+import {
+  getChallengeSeasonHistory,
+  stopChallengeSeries
+} from '../../../../../../../lib/db/challengeTemplates';
+
+/**
+ * Season history of a recurring challenge, with the caller's result in each
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { seriesId: string } }
+) {
+  return withAuth(request, async (req: AuthenticatedRequest) => {
+    try {
+      const history = await getChallengeSeasonHistory(params.seriesId, req.user!.id);
+
+      return NextResponse.json({
+        success: true,
+        data: history
+      });
+    } catch (error) {
+      console.error('Error fetching challenge series:', error);
+      if (error instanceof Error && error.message.includes('not found')) {
+        return NextResponse.json({ error: error.message }, { status: 404 });
+      }
+      return NextResponse.json(
+        { error: 'Failed to fetch challenge series' },
+        { status: 500 }
+      );
+    }
+  });
+}
+
+/**
+ * Stop a recurring challenge after its current season
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { seriesId: string } }
+) {
+  return withAuth(request, async (req: AuthenticatedRequest) => {
+    try {
+      const series = await stopChallengeSeries(params.seriesId, req.user!.id);
+
+      return NextResponse.json({
+        success: true,
+        data: series
+      });
+    } catch (error) {
+      console.error('Error stopping challenge series:', error);
+      if (error instanceof Error) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: error.message.includes('not found') ? 404 : 403 }
+        );
+      }
+      return NextResponse.json(
+        { error: 'Failed to stop challenge series' },
+        { status: 500 }
+      );
+    }
+  });
+}
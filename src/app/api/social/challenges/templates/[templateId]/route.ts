@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedRequest } from '../../../../../../lib/middleware/auth';
+import { createChallengeFromTemplate } from '../../../../../../../lib/db/challengeTemplates';
+
+/**
+ * Start a challenge from a template. `recurrence` defaults to the template's;
+ * pass null for a one-off challenge.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { templateId: string } }
+) {
+  return withAuth(request, async (req: AuthenticatedRequest) => {
+    try {
+      const userId = req.user!.id;
+      const { recurrence, startDate } = await request.json().catch(() => ({}));
+
+      const start = startDate ? new Date(startDate) : undefined;
+      if (start && isNaN(start.getTime())) {
+        return NextResponse.json(
+          { error: 'Invalid start date' },
+          { status: 400 }
+        );
+      }
+
+      const challenge = await createChallengeFromTemplate(params.templateId, userId, {
+        recurrence,
+        startDate: start
+      });
+
+      return NextResponse.json({
+        success: true,
+        data: challenge
+      }, { status: 201 });
+    } catch (error) {
+      console.error('Error creating challenge from template:', error);
+      if (error instanceof Error) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: error.message.includes('not found') ? 404 : 400 }
+        );
+      }
+      return NextResponse.json(
+        { error: 'Failed to create challenge' },
+        { status: 500 }
+      );
+    }
+  });
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '../../../../../lib/middleware/auth';
+import { getChallengeTemplates } from '../../../../../../lib/db/challengeTemplates';
+
+export async function GET(request: NextRequest) {
+  return withAuth(request, async () => {
+    try {
+      const templates = await getChallengeTemplates();
+
+      return NextResponse.json({
+        success: true,
+        data: templates
+      });
+    } catch (error) {
+      console.error('Error fetching challenge templates:', error);
+      return NextResponse.json(
+        { error: 'Failed to fetch challenge templates' },
+        { status: 500 }
+      );
+    }
+  });
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedRequest } from '../../../../../../lib/middleware/auth';
+import { getConversationMessages, sendMessage } from '../../../../../../../lib/db/messages';
+
+/**
+ * A page of the conversation's history, newest first. Pass the returned
+ * `nextCursor` as `before` for older messages.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { conversationId: string } }
+) {
+  return withAuth(request, async (req: AuthenticatedRequest) => {
+    try {
+      const { searchParams } = new URL(request.url);
+      const page = await getConversationMessages(params.conversationId, req.user!.id, {
+        before: searchParams.get('before') || undefined,
+        limit: parseInt(searchParams.get('limit') || '0') || undefined
+      });
+
+      return NextResponse.json({
+        success: true,
+        data: page
+      });
+    } catch (error) {
+      console.error('Error fetching messages:', error);
+      if (error instanceof Error) {
+        return NextResponse.json(
+          { error: error.message },
+          {
+            status: error.message.includes('not found') ? 404
+              : error.message.startsWith('Only') ? 403
+              : 400
+          }
+        );
+      }
+      return NextResponse.json(
+        { error: 'Failed to fetch messages' },
+        { status: 500 }
+      );
+    }
+  });
+}
+
+/**
+ * Send a message to the conversation
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { conversationId: string } }
+) {
+  return withAuth(request, async (req: AuthenticatedRequest) => {
+    try {
+      const { message } = await request.json();
+      const sent = await sendMessage(params.conversationId, req.user!.id, message);
+
+      return NextResponse.json({
+        success: true,
+        data: sent
+      }, { status: 201 });
+    } catch (error) {
+      console.error('Error sending message:', error);
+      if (error instanceof Error) {
+        return NextResponse.json(
+          { error: error.message },
+          {
+            status: error.message.includes('not found') ? 404
+              : error.message.startsWith('Only') ? 403
+              : 400
+          }
+        );
+      }
+      return NextResponse.json(
+        { error: 'Failed to send message' },
+        { status: 500 }
+      );
+    }
+  });
+}
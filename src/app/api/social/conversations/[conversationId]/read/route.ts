@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedRequest } from '../../../../../../lib/middleware/auth';
+import { markConversationRead } from '../../../../../../../lib/db/messages';
+
+/**
+ * Mark the conversation as read, sending a read receipt to the other members
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { conversationId: string } }
+) {
+  return withAuth(request, async (req: AuthenticatedRequest) => {
+    try {
+      const readAt = await markConversationRead(params.conversationId, req.user!.id);
+
+      return NextResponse.json({
+        success: true,
+        data: { readAt }
+      });
+    } catch (error) {
+      console.error('Error marking conversation read:', error);
+      if (error instanceof Error) {
+        return NextResponse.json(
+          { error: error.message },
+          {
+            status: error.message.includes('not found') ? 404
+              : error.message.startsWith('Only') ? 403
+              : 400
+          }
+        );
+      }
+      return NextResponse.json(
+        { error: 'Failed to mark conversation read' },
+        { status: 500 }
+      );
+    }
+  });
+}
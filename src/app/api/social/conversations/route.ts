@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedRequest } from '../../../../lib/middleware/auth';
+import {
+  getOrCreateChallengeConversation,
+  getOrCreateDirectConversation,
+  getUserConversations
+} from '../../../../../lib/db/messages';
+
+/**
+ * The caller's direct conversations and challenge rooms, with unread counts
+ */
+export async function GET(request: NextRequest) {
+  return withAuth(request, async (req: AuthenticatedRequest) => {
+    try {
+      const conversations = await getUserConversations(req.user!.id);
+
+      return NextResponse.json({
+        success: true,
+        data: {
+          conversations,
+          unreadCount: conversations.reduce((sum, conversation) => sum + conversation.unreadCount, 0)
+        }
+      });
+    } catch (error) {
+      console.error('Error fetching conversations:', error);
+      return NextResponse.json(
+        { error: 'Failed to fetch conversations' },
+        { status: 500 }
+      );
+    }
+  });
+}
+
+/**
+ * Open a direct conversation with a friend (`userId`) or a challenge's room
+ * (`challengeId`)
+ */
+export async function POST(request: NextRequest) {
+  return withAuth(request, async (req: AuthenticatedRequest) => {
+    try {
+      const userId = req.user!.id;
+      const { userId: otherUserId, challengeId } = await request.json();
+
+      if (typeof otherUserId !== 'string' && typeof challengeId !== 'string') {
+        return NextResponse.json(
+          { error: 'A userId or challengeId is required' },
+          { status: 400 }
+        );
+      }
+
+      const conversation = typeof challengeId === 'string'
+        ? await getOrCreateChallengeConversation(challengeId, userId)
+        : await getOrCreateDirectConversation(userId, otherUserId);
+
+      return NextResponse.json({
+        success: true,
+        data: conversation
+      });
+    } catch (error) {
+      console.error('Error opening conversation:', error);
+      if (error instanceof Error) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: error.message.startsWith('Only') ? 403 : 400 }
+        );
+      }
+      return NextResponse.json(
+        { error: 'Failed to open conversation' },
+        { status: 500 }
+      );
+    }
+  });
+}
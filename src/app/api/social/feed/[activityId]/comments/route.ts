@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedRequest } from '../../../../../../lib/middleware/auth';
+import { commentOnActivity, getActivityComments } from '../../../../../../../lib/db/activityFeed';
+
+/**
+ * An activity's comments, oldest first
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { activityId: string } }
+) {
+  return withAuth(request, async (req: AuthenticatedRequest) => {
+    try {
+      const { searchParams } = new URL(request.url);
+      const comments = await getActivityComments(params.activityId, req.user!.id, {
+        cursor: searchParams.get('cursor') || undefined,
+        limit: parseInt(searchParams.get('limit') || '0') || undefined
+      });
+
+      return NextResponse.json({
+        success: true,
+        data: comments
+      });
+    } catch (error) {
+      console.error('Error fetching comments:', error);
+      if (error instanceof Error && error.message.includes('not found')) {
+        return NextResponse.json({ error: error.message }, { status: 404 });
+      }
+      return NextResponse.json(
+        { error: 'Failed to fetch comments' },
+        { status: 500 }
+      );
+    }
+  });
+}
+
+/**
+ * Comment on an activity
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { activityId: string } }
+) {
+  return withAuth(request, async (req: AuthenticatedRequest) => {
+    try {
+      const { body } = await request.json();
+      const comment = await commentOnActivity(params.activityId, req.user!.id, body);
+
+      return NextResponse.json({
+        success: true,
+        data: comment
+      }, { status: 201 });
+    } catch (error) {
+      console.error('Error commenting on activity:', error);
+      if (error instanceof Error) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: error.message.includes('not found') ? 404 : 400 }
+        );
+      }
+      return NextResponse.json(
+        { error: 'Failed to comment on activity' },
+        { status: 500 }
+      );
+    }
+  });
+}
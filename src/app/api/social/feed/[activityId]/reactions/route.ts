@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedRequest } from '../../../../../../lib/middleware/auth';
+import { reactToActivity, removeActivityReaction } from '../../../../../../../lib/db/activityFeed';
+
+/**
+ * React to an activity with `type`, replacing the caller's earlier reaction
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { activityId: string } }
+) {
+  return withAuth(request, async (req: AuthenticatedRequest) => {
+    try {
+      const { type } = await request.json();
+      const reaction = await reactToActivity(params.activityId, req.user!.id, type);
+
+      return NextResponse.json({
+        success: true,
+        data: reaction
+      });
+    } catch (error) {
+      console.error('Error reacting to activity:', error);
+      if (error instanceof Error) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: error.message.includes('not found') ? 404 : 400 }
+        );
+      }
+      return NextResponse.json(
+        { error: 'Failed to react to activity' },
+        { status: 500 }
+      );
+    }
+  });
+}
+
+/**
+ * Take back the caller's reaction
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { activityId: string } }
+) {
+  return withAuth(request, async (req: AuthenticatedRequest) => {
+    try {
+      const removed = await removeActivityReaction(params.activityId, req.user!.id);
+
+      return NextResponse.json({
+        success: true,
+        data: { removed }
+      });
+    } catch (error) {
+      console.error('Error removing reaction:', error);
+      return NextResponse.json(
+        { error: 'Failed to remove reaction' },
+        { status: 500 }
+      );
+    }
+  });
+}
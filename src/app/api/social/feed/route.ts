@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedRequest } from '../../../../lib/middleware/auth';
+import { getActivityFeed, getUserActivity } from '../../../../../lib/db/activityFeed';
+
+/**
+ * The caller's activity feed, or one user's activity with `userId`. Pass the
+ * returned `nextCursor` as `cursor` for the next page.
+ */
+export async function GET(request: NextRequest) {
+  return withAuth(request, async (req: AuthenticatedRequest) => {
+    try {
+      const userId = req.user!.id;
+      const { searchParams } = new URL(request.url);
+      const targetUserId = searchParams.get('userId');
+      const options = {
+        cursor: searchParams.get('cursor') || undefined,
+        limit: parseInt(searchParams.get('limit') || '0') || undefined
+      };
+
+      const feed = targetUserId
+        ? await getUserActivity(targetUserId, userId, options)
+        : await getActivityFeed(userId, options);
+
+      return NextResponse.json({
+        success: true,
+        data: feed
+      });
+    } catch (error) {
+      console.error('Error fetching activity feed:', error);
+      if (error instanceof Error && error.message.includes('not found')) {
+        return NextResponse.json({ error: error.message }, { status: 404 });
+      }
+      return NextResponse.json(
+        { error: 'Failed to fetch activity feed' },
+        { status: 500 }
+      );
+    }
+  });
+}
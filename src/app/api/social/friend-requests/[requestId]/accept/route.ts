@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '../../../../../../lib/db/prisma';
 import { verifyAuth } from '../../../../../../lib/middleware/auth';
+import { recalculateUserChallengeProgress } from '../../../../../../../lib/db/challenges';
 
 export async function POST(
   request: NextRequest,
@@ -59,6 +60,10 @@ export async function POST(
       }
     });
 
+    // New friends count towards social challenges
+    await recalculateUserChallengeProgress(friendRequest.userId);
+    await recalculateUserChallengeProgress(userId);
+
     // TODO: Send notification to the requester
     // TODO: Award friendship achievement points
 
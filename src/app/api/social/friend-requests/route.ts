@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { prisma } from '../../../../lib/db/prisma';
+import { prisma } from '@/lib/db/prisma';
 import { verifyAuth } from '../../../../lib/middleware/auth';
+import { getUserCurrency } from '@/lib/db/savingsLedger';
+import { fromBaseMinor } from '@/lib/fx/conversion';
+import { getDisplayRate } from '@/lib/fx/providers';
 
 export async function GET(request: NextRequest) {
   try {
@@ -11,6 +14,7 @@ export async function GET(request: NextRequest) {
     }
 
     const userId = authResult.userId!;
+    const display = await getDisplayRate(await getUserCurrency(userId));
 
     // Get pending friend requests sent to this user
     const friendRequests = await prisma.friendship.findMany({
@@ -26,7 +30,7 @@ export async function GET(request: NextRequest) {
             email: true,
             profileImage: true,
             level: true,
-            totalSaved: true
+            totalSavedBaseMinor: true
           }
         }
       },
@@ -35,13 +39,21 @@ export async function GET(request: NextRequest) {
       }
     });
 
-    const formattedRequests = friendRequests.map(request => ({
-      id: request.id,
-      fromUserId: request.userId,
-      fromUser: request.user,
-      createdAt: request.createdAt,
-      message: request.message
-    }));
+    const formattedRequests = friendRequests.map(request => {
+      const { totalSavedBaseMinor, ...fromUser } = request.user;
+
+      return {
+        id: request.id,
+        fromUserId: request.userId,
+        fromUser: {
+          ...fromUser,
+          totalSaved: fromBaseMinor(totalSavedBaseMinor, display),
+          currency: display.currency
+        },
+        createdAt: request.createdAt,
+        message: request.message
+      };
+    });
 
     return NextResponse.json({
       success: true,
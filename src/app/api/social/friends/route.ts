@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '../../../../lib/db/prisma';
 import { verifyAuth } from '../../../../lib/middleware/auth';
+import { getUserCurrency } from '@/lib/db/savingsLedger';
+import { fromBaseMinor } from '@/lib/fx/conversion';
+import { getDisplayRate } from '@/lib/fx/providers';
 
 export async function GET(request: NextRequest) {
   try {
@@ -11,6 +14,7 @@ export async function GET(request: NextRequest) {
     }
 
     const userId = authResult.userId!;
+    const display = await getDisplayRate(await getUserCurrency(userId));
 
     // Get user's friends
     const friendships = await prisma.friendship.findMany({
@@ -28,7 +32,7 @@ export async function GET(request: NextRequest) {
             email: true,
             profileImage: true,
             level: true,
-            totalSaved: true,
+            totalSavedBaseMinor: true,
             currentStreak: true,
             lastActiveAt: true,
             createdAt: true
@@ -41,7 +45,7 @@ export async function GET(request: NextRequest) {
             email: true,
             profileImage: true,
             level: true,
-            totalSaved: true,
+            totalSavedBaseMinor: true,
             currentStreak: true,
             lastActiveAt: true,
             createdAt: true
@@ -60,7 +64,8 @@ export async function GET(request: NextRequest) {
         email: friend.email,
         profileImage: friend.profileImage,
         status: 'active',
-        totalSaved: friend.totalSaved,
+        totalSaved: fromBaseMinor(friend.totalSavedBaseMinor, display),
+        currency: display.currency,
         currentStreak: friend.currentStreak,
         level: friend.level,
         mutualFriends: 0, // TODO: Calculate mutual friends
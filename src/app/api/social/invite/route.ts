@@ -1,93 +1,65 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { prisma } from '../../../../lib/db/prisma';
-import { verifyAuth } from '../../../../lib/middleware/auth';
+import { withAuth, AuthenticatedRequest } from '../../../../lib/middleware/auth';
+import {
+  createReferralInvites,
+  getOrCreateReferralCode,
+  getReferralLink
+} from '@/lib/db/referrals';
 
 export async function POST(request: NextRequest) {
-  try {
-    // Verify authentication
-    const authResult = await verifyAuth(request);
-    if (!authResult.success) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
+  return withAuth(request, async (req: AuthenticatedRequest) => {
+    try {
+      const user = req.user!;
+      const body = await req.json();
+      const { emails, message } = body;
 
-    const userId = authResult.userId!;
-    const body = await request.json();
-    const { emails, message } = body;
+      if (!emails || !Array.isArray(emails) || emails.length === 0) {
+        return NextResponse.json(
+          { error: 'Email addresses are required' },
+          { status: 400 }
+        );
+      }
 
-    if (!emails || !Array.isArray(emails) || emails.length === 0) {
-      return NextResponse.json(
-        { error: 'Email addresses are required' },
-        { status: 400 }
+      // Validate email addresses
+      const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+      const validEmails = emails.filter(
+        (email): email is string => typeof email === 'string' && emailRegex.test(email)
       );
-    }
 
-    // Validate email addresses
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    const validEmails = emails.filter(email => emailRegex.test(email));
+      if (validEmails.length === 0) {
+        return NextResponse.json(
+          { error: 'No valid email addresses provided' },
+          { status: 400 }
+        );
+      }
 
-    if (validEmails.length === 0) {
-      return NextResponse.json(
-        { error: 'No valid email addresses provided' },
-        { status: 400 }
-      );
-    }
+      const [invitations, referralCode] = await Promise.all([
+        createReferralInvites(user.id, validEmails, message || undefined),
+        getOrCreateReferralCode(user.id)
+      ]);
 
-    // Get user info for the invitation
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      select: {
-        username: true,
-        email: true
-      }
-    });
+      // Invites aren't emailed from here; the inviter shares the link
+      // themselves, and sign-ups through it convert the recorded invites
+      const inviteLink = getReferralLink(referralCode);
 
-    if (!user) {
+      return NextResponse.json({
+        success: true,
+        data: {
+          invited: invitations.length,
+          inviteLink,
+          invitations: invitations.map(inv => ({
+            id: inv.id,
+            email: inv.email,
+            status: inv.status
+          }))
+        }
+      });
+    } catch (error) {
+      console.error('Error sending invitations:', error);
       return NextResponse.json(
-        { error: 'User not found' },
-        { status: 404 }
+        { error: 'Failed to send invitations' },
+        { status: 500 }
       );
     }
-
-    // Create invitation records
-    const invitations = await Promise.all(
-      validEmails.map(email =>
-        prisma.invitation.create({
-          data: {
-            inviterId: userId,
-            email: email,
-            message: message || null,
-            status: 'SENT'
-          }
-        })
-      )
-    );
-
-    // TODO: Send actual email invitations
-    // For now, we'll just log the invitations
-    console.log('Email invitations to send:', {
-      from: user.email,
-      fromName: user.username,
-      emails: validEmails,
-      message: message,
-      inviteLink: `${process.env.NEXT_PUBLIC_APP_URL}/register?ref=${Buffer.from(userId).toString('base64')}`
-    });
-
-    return NextResponse.json({
-      success: true,
-      data: {
-        sent: validEmails.length,
-        invitations: invitations.map(inv => ({
-          id: inv.id,
-          email: inv.email,
-          status: inv.status
-        }))
-      }
-    });
-  } catch (error) {
-    console.error('Error sending invitations:', error);
-    return NextResponse.json(
-      { error: 'Failed to send invitations' },
-      { status: 500 }
-    );
-  }
-}
\ No newline at end of file
+  });
+}
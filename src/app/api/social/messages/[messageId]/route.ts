@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedRequest } from '../../../../../lib/middleware/auth';
+import { deleteMessage } from '../../../../../../lib/db/messages';
+
+/**
+ * Delete one of the caller's own messages
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { messageId: string } }
+) {
+  return withAuth(request, async (req: AuthenticatedRequest) => {
+    try {
+      const message = await deleteMessage(params.messageId, req.user!.id);
+
+      return NextResponse.json({
+        success: true,
+        data: message
+      });
+    } catch (error) {
+      console.error('Error deleting message:', error);
+      if (error instanceof Error) {
+        return NextResponse.json(
+          { error: error.message },
+          {
+            status: error.message.includes('not found') ? 404
+              : error.message.startsWith('Only') ? 403
+              : 400
+          }
+        );
+      }
+      return NextResponse.json(
+        { error: 'Failed to delete message' },
+        { status: 500 }
+      );
+    }
+  });
+}
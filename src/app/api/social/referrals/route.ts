@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedRequest } from '../../../../lib/middleware/auth';
+import { getReferralLink, getReferralStats } from '@/lib/db/referrals';
+
+export async function GET(request: NextRequest) {
+  return withAuth(request, async (req: AuthenticatedRequest) => {
+    try {
+      const stats = await getReferralStats(req.user!.id);
+
+      return NextResponse.json({
+        success: true,
+        data: {
+          ...stats,
+          referralLink: getReferralLink(stats.referralCode)
+        }
+      });
+    } catch (error) {
+      console.error('Error fetching referral stats:', error);
+      return NextResponse.json(
+        { error: 'Failed to fetch referral stats' },
+        { status: 500 }
+      );
+    }
+  });
+}
@@ -1,6 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { prisma } from '../../../../lib/db/prisma';
+import { prisma } from '@/lib/db/prisma';
 import { verifyAuth } from '../../../../lib/middleware/auth';
+import { getUserCurrency } from '@/lib/db/savingsLedger';
+import { getProfileVisibilities } from '@/lib/db/privacy';
+import { explainConnections } from '@/lib/db/friendRecommendations';
+import { getPrivacySettingsShowing, isProfileHidden } from '@/lib/social/privacy';
+import { fromBaseMinor } from '@/lib/fx/conversion';
+import { getDisplayRate } from '@/lib/fx/providers';
 
 export async function GET(request: NextRequest) {
   try {
@@ -21,48 +27,44 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Get users that are blocked by or have blocked the current user
-    const blockedUsers = await prisma.userBlock.findMany({
+    // Search for users by username or exact email, skipping anyone strangers
+    // can't find. Friends are found whatever their setting.
+    const friendships = await prisma.friendship.findMany({
       where: {
         OR: [
-          { blockerId: userId },
-          { blockedId: userId }
+          { userId: userId },
+          { friendId: userId }
         ]
-      },
-      select: {
-        blockerId: true,
-        blockedId: true
       }
     });
+    const friendIds = friendships
+      .filter(rel => rel.status === 'ACCEPTED')
+      .map(rel => (rel.userId === userId ? rel.friendId : rel.userId));
 
-    const blockedUserIds = new Set([
-      ...blockedUsers.map(b => b.blockerId),
-      ...blockedUsers.map(b => b.blockedId)
-    ]);
-
-    // Search for users by username or email
     const users = await prisma.user.findMany({
       where: {
         AND: [
           {
             id: {
-              not: userId, // Exclude current user
-              notIn: Array.from(blockedUserIds) // Exclude blocked users
-            }
+              not: userId // Exclude current user
+            },
+            isActive: true
+          },
+          {
+            OR: [
+              { privacyLevel: { in: getPrivacySettingsShowing('listed', 'none') } },
+              { id: { in: friendIds } }
+            ]
           },
           {
             OR: [
               {
                 username: {
-                  contains: query,
-                  mode: 'insensitive'
+                  contains: query // Case-insensitive for ASCII in SQLite
                 }
               },
               {
-                email: {
-                  contains: query,
-                  mode: 'insensitive'
-                }
+                email: query.trim().toLowerCase()
               }
             ]
           }
@@ -71,44 +73,48 @@ export async function GET(request: NextRequest) {
       select: {
         id: true,
         username: true,
-        email: true,
         profileImage: true,
         level: true,
-        totalSaved: true,
-        currentStreak: true
+        totalSavedBaseMinor: true,
+        currentStreak: true,
+        privacyLevel: true
       },
       take: 20 // Limit results
     });
 
-    // Get existing friendships and pending requests
-    const existingRelationships = await prisma.friendship.findMany({
-      where: {
-        OR: [
-          { userId: userId, friendId: { in: users.map(u => u.id) } },
-          { userId: { in: users.map(u => u.id) }, friendId: userId }
-        ]
-      }
-    });
+    // Blocked users are left out, and everyone else shows what the policy allows
+    const [visibilities, connections] = await Promise.all([
+      getProfileVisibilities(users, userId),
+      explainConnections(userId, users.map(user => user.id))
+    ]);
 
     const friendshipMap = new Map();
-    existingRelationships.forEach(rel => {
+    friendships.forEach(rel => {
       const otherUserId = rel.userId === userId ? rel.friendId : rel.userId;
       friendshipMap.set(otherUserId, rel.status);
     });
 
-    // Format search results
-    const searchResults = users.map(user => ({
-      id: user.id,
-      username: user.username,
-      email: user.email,
-      profileImage: user.profileImage,
-      level: user.level,
-      totalSaved: user.totalSaved,
-      currentStreak: user.currentStreak,
-      mutualFriends: 0, // TODO: Calculate mutual friends
-      isAlreadyFriend: friendshipMap.get(user.id) === 'ACCEPTED',
-      hasPendingRequest: friendshipMap.get(user.id) === 'PENDING'
-    }));
+    // Format search results in the searcher's currency
+    const display = await getDisplayRate(await getUserCurrency(userId));
+    const searchResults = users
+      .filter(user => !isProfileHidden(visibilities.get(user.id)!))
+      .map(user => {
+        const visibility = visibilities.get(user.id)!;
+
+        return {
+          id: user.id,
+          username: user.username,
+          profileImage: visibility.identity ? user.profileImage : undefined,
+          level: visibility.stats ? user.level : undefined,
+          totalSaved: visibility.amounts ? fromBaseMinor(user.totalSavedBaseMinor, display) : undefined,
+          currency: display.currency,
+          currentStreak: visibility.stats ? user.currentStreak : undefined,
+          mutualFriends: connections.get(user.id)?.mutualFriends ?? 0,
+          reason: connections.get(user.id)?.reason,
+          isAlreadyFriend: friendshipMap.get(user.id) === 'ACCEPTED',
+          hasPendingRequest: friendshipMap.get(user.id) === 'PENDING'
+        };
+      });
 
     return NextResponse.json({
       success: true,
@@ -121,4 +127,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedRequest } from '../../../../lib/middleware/auth';
+import { getFriendSuggestions } from '../../../../../lib/db/social';
+
+/**
+ * People the caller may know, best first, each with why they're suggested
+ */
+export async function GET(request: NextRequest) {
+  return withAuth(request, async (req: AuthenticatedRequest) => {
+    try {
+      const { searchParams } = new URL(request.url);
+      const limit = parseInt(searchParams.get('limit') || '10');
+
+      const suggestions = await getFriendSuggestions(req.user!.id, limit);
+
+      return NextResponse.json({
+        success: true,
+        data: suggestions
+      });
+    } catch (error) {
+      console.error('Error fetching friend suggestions:', error);
+      return NextResponse.json(
+        { error: 'Failed to fetch friend suggestions' },
+        { status: 500 }
+      );
+    }
+  });
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { PrismaClient } from '@prisma/client'
+import { PrismaClient, TransactionStatus, TransactionType } from '@prisma/client'
 import { verifyToken } from '@/lib/middleware/auth'
+import { fromMinorUnits, toMinorUnits } from '@/lib/utils/money'
 
 const prisma = new PrismaClient()
 
@@ -34,14 +35,14 @@ export async function POST(request: NextRequest) {
       const transaction = await prisma.savingsTransaction.create({
         data: {
           userId: authResult.user.id,
-          type: 'roundup',
-          amount: roundUpAmount,
+          type: TransactionType.ROUNDUP,
+          amountMinor: toMinorUnits(roundUpAmount),
           currency: 'USD',
           blockchainTxHash: `0x${Math.random().toString(16).substr(2, 64)}`,
-          status: 'confirmed',
-          originalTransactionAmount: amount,
-          originalTransactionMerchant: merchant,
-          originalTransactionCategory: category || 'other'
+          status: TransactionStatus.CONFIRMED,
+          originalAmountMinor: toMinorUnits(amount),
+          merchant,
+          category: category || 'other'
         }
       })
 
@@ -49,8 +50,8 @@ export async function POST(request: NextRequest) {
       await prisma.user.update({
         where: { id: authResult.user.id },
         data: {
-          totalSaved: {
-            increment: roundUpAmount
+          totalSavedMinor: {
+            increment: toMinorUnits(roundUpAmount)
           }
         }
       })
@@ -59,10 +60,10 @@ export async function POST(request: NextRequest) {
       const totalSaved = await prisma.savingsTransaction.aggregate({
         where: {
           userId: authResult.user.id,
-          type: { in: ['roundup', 'manual'] }
+          type: { in: [TransactionType.ROUNDUP, TransactionType.MANUAL] }
         },
         _sum: {
-          amount: true
+          amountMinor: true
         }
       })
 
@@ -72,7 +73,7 @@ export async function POST(request: NextRequest) {
       const depositCount = await prisma.savingsTransaction.count({
         where: {
           userId: authResult.user.id,
-          type: { in: ['roundup', 'manual'] }
+          type: { in: [TransactionType.ROUNDUP, TransactionType.MANUAL] }
         }
       })
 
@@ -97,7 +98,7 @@ export async function POST(request: NextRequest) {
       }
 
       // Milestone achievements
-      const total = totalSaved._sum.amount || 0
+      const total = fromMinorUnits(totalSaved._sum.amountMinor || 0)
       const milestones = [
         { amount: 100, id: 'hundred_saved', points: 200 },
         { amount: 500, id: 'five_hundred_saved', points: 500 },
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedRequest } from '../../../../lib/middleware/auth';
+import { getPointsHistory } from '@/lib/db/points';
+
+/**
+ * The caller's points history, newest first, with their level progress
+ */
+export async function GET(request: NextRequest) {
+  return withAuth(request, async (req: AuthenticatedRequest) => {
+    try {
+      const { searchParams } = new URL(req.url);
+      const limit = searchParams.get('limit');
+
+      const history = await getPointsHistory(req.user!.id, {
+        cursor: searchParams.get('cursor') || undefined,
+        limit: limit ? parseInt(limit) : undefined
+      });
+
+      return NextResponse.json({
+        success: true,
+        ...history
+      });
+
+    } catch (error) {
+      console.error('Get points history error:', error);
+      
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  });
+}
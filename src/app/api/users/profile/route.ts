@@ -1,6 +1,46 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { withAuth, AuthenticatedRequest } from '@/lib/middleware/auth';
-import { updateUser } from '@/lib/db/user';
+import { withAuth, AuthenticatedRequest } from '../../../../lib/middleware/auth';
+import { updateUser, getUserById, getPublicProfile, getMoneySettings } from '@/lib/db/user';
+import { validateRoundUpCaps } from '@/lib/savings/roundUpCaps';
+import { validateRoundUpStrategy } from '@/lib/savings/roundUpStrategy';
+import { validateWithdrawalSettings } from '@/lib/savings/withdrawalPolicy';
+import { updateUserTotalSaved } from '@/lib/db/savings';
+import { getFxRateProvider } from '@/lib/fx/providers';
+
+/**
+ * A user's profile, `userId` or the caller's own, with only what the caller's
+ * relationship to them allows under their privacy setting
+ */
+export async function GET(request: NextRequest) {
+  return withAuth(request, async (req: AuthenticatedRequest) => {
+    try {
+      const { searchParams } = new URL(req.url);
+      const userId = searchParams.get('userId') || req.user!.id;
+
+      const profile = await getPublicProfile(userId, req.user!.id);
+
+      return NextResponse.json({
+        success: true,
+        profile
+      });
+
+    } catch (error) {
+      console.error('Get profile error:', error);
+
+      if (error instanceof Error && error.message.includes('not found')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  });
+}
 
 export async function PUT(request: NextRequest) {
   return withAuth(request, async (req: AuthenticatedRequest) => {
@@ -20,6 +60,16 @@ export async function PUT(request: NextRequest) {
         riskTolerance,
         roundUpEnabled,
         roundUpAmount,
+        roundUpStrategy,
+        roundUpFixedAmount,
+        roundUpPercentage,
+        roundUpMultiplier,
+        dailyRoundUpCap,
+        weeklyRoundUpCap,
+        monthlyRoundUpCap,
+        roundUpOverflow,
+        dailyWithdrawalLimit,
+        withdrawalCoolingOffHours,
         notificationsEnabled,
         autoInvestEnabled,
         autoCompoundEnabled,
@@ -37,6 +87,47 @@ export async function PUT(request: NextRequest) {
         );
       }
 
+      // Validate the strategy as it will be stored, so changing either the
+      // strategy or its parameter can't leave the strategy without one
+      const strategyChanged = [roundUpStrategy, roundUpFixedAmount, roundUpPercentage]
+        .some(value => value !== undefined);
+      const currentUser = strategyChanged ? await getUserById(req.user!.id) : null;
+      const strategyError = validateRoundUpStrategy({
+        roundUpStrategy: roundUpStrategy !== undefined ? roundUpStrategy : currentUser?.roundUpStrategy,
+        roundUpFixedAmount: roundUpFixedAmount !== undefined ? roundUpFixedAmount : currentUser?.roundUpFixedAmount,
+        roundUpPercentage: roundUpPercentage !== undefined ? roundUpPercentage : currentUser?.roundUpPercentage,
+        roundUpMultiplier
+      });
+      if (strategyError) {
+        return NextResponse.json(
+          { error: strategyError },
+          { status: 400 }
+        );
+      }
+
+      const capError = validateRoundUpCaps({ dailyRoundUpCap, weeklyRoundUpCap, monthlyRoundUpCap });
+      if (capError) {
+        return NextResponse.json(
+          { error: capError },
+          { status: 400 }
+        );
+      }
+
+      const withdrawalError = validateWithdrawalSettings({ dailyWithdrawalLimit, withdrawalCoolingOffHours });
+      if (withdrawalError) {
+        return NextResponse.json(
+          { error: withdrawalError },
+          { status: 400 }
+        );
+      }
+
+      if (roundUpOverflow && !['DEFER', 'DROP'].includes(roundUpOverflow)) {
+        return NextResponse.json(
+          { error: 'Round-up overflow must be DEFER or DROP' },
+          { status: 400 }
+        );
+      }
+
       if (riskTolerance && !['LOW', 'MEDIUM', 'HIGH'].includes(riskTolerance)) {
         return NextResponse.json(
           { error: 'Invalid risk tolerance level' },
@@ -44,6 +135,14 @@ export async function PUT(request: NextRequest) {
         );
       }
 
+      if (currency !== undefined &&
+          (typeof currency !== 'string' || !getFxRateProvider().supports(currency))) {
+        return NextResponse.json(
+          { error: 'Unsupported currency' },
+          { status: 400 }
+        );
+      }
+
       // Update user profile
       const updatedUser = await updateUser(req.user!.id, {
         firstName,
@@ -59,15 +158,30 @@ export async function PUT(request: NextRequest) {
         riskTolerance,
         roundUpEnabled,
         roundUpAmount,
+        roundUpStrategy,
+        roundUpFixedAmount,
+        roundUpPercentage,
+        roundUpMultiplier,
+        dailyRoundUpCap,
+        weeklyRoundUpCap,
+        monthlyRoundUpCap,
+        roundUpOverflow,
+        dailyWithdrawalLimit,
+        withdrawalCoolingOffHours,
         notificationsEnabled,
         autoInvestEnabled,
         autoCompoundEnabled,
         privacyLevel,
-        currency,
+        currency: currency?.toUpperCase(),
         language,
         theme
       });
 
+      // Stored totals are kept in the display currency
+      if (currency !== undefined) {
+        await updateUserTotalSaved(req.user!.id);
+      }
+
       // Return updated user data (excluding sensitive information)
       const userData = {
         id: updatedUser.id,
@@ -81,11 +195,16 @@ export async function PUT(request: NextRequest) {
         phoneNumber: updatedUser.phoneNumber,
         country: updatedUser.country,
         timezone: updatedUser.timezone,
-        savingsGoal: updatedUser.savingsGoal,
-        monthlyTarget: updatedUser.monthlyTarget,
+        ...getMoneySettings(updatedUser), // Goals, round-up caps and the withdrawal limit
         riskTolerance: updatedUser.riskTolerance,
         roundUpEnabled: updatedUser.roundUpEnabled,
         roundUpAmount: updatedUser.roundUpAmount,
+        roundUpStrategy: updatedUser.roundUpStrategy,
+        roundUpFixedAmount: updatedUser.roundUpFixedAmount,
+        roundUpPercentage: updatedUser.roundUpPercentage,
+        roundUpMultiplier: updatedUser.roundUpMultiplier,
+        roundUpOverflow: updatedUser.roundUpOverflow,
+        withdrawalCoolingOffHours: updatedUser.withdrawalCoolingOffHours,
         notificationsEnabled: updatedUser.notificationsEnabled,
         autoInvestEnabled: updatedUser.autoInvestEnabled,
         autoCompoundEnabled: updatedUser.autoCompoundEnabled,
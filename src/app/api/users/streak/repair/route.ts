@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedRequest } from '../../../../../lib/middleware/auth';
+import { repairUserStreak } from '@/lib/db/streaks';
+
+export async function POST(request: NextRequest) {
+  return withAuth(request, async (req: AuthenticatedRequest) => {
+    try {
+      const streak = await repairUserStreak(req.user!.id);
+
+      return NextResponse.json({
+        success: true,
+        streak
+      });
+
+    } catch (error) {
+      console.error('Error repairing streak:', error);
+      if (error instanceof Error) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: error.message.includes('not found') ? 404 : 400 }
+        );
+      }
+      return NextResponse.json(
+        { error: 'Failed to repair streak' },
+        { status: 500 }
+      );
+    }
+  });
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedRequest } from '../../../../lib/middleware/auth';
+import { getStreakStatus } from '@/lib/db/streaks';
+
+export async function GET(request: NextRequest) {
+  return withAuth(request, async (req: AuthenticatedRequest) => {
+    try {
+      const streak = await getStreakStatus(req.user!.id);
+
+      return NextResponse.json({
+        success: true,
+        streak
+      });
+
+    } catch (error) {
+      console.error('Get streak error:', error);
+      
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  });
+}
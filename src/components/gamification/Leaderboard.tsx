@@ -13,7 +13,9 @@ import {
   Minus,
   Crown,
   Users,
-  RefreshCw
+  RefreshCw,
+  Shield,
+  Clock
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 
@@ -25,16 +27,25 @@ interface LeaderboardEntry {
   rank: number;
   previousRank?: number;
   score: number;
-  level: number;
+  level?: number; // Hidden for users who keep their stats private
   totalSaved: number;
   streak: number;
+  zone?: 'promotion' | 'relegation' | null; // League mode only
   isCurrentUser?: boolean;
 }
 
+interface LeagueInfo {
+  tier: 'BRONZE' | 'SILVER' | 'GOLD' | 'PLATINUM' | 'DIAMOND';
+  weekEnd: Date | string;
+  promotionCount: number;
+  relegationCount: number;
+}
+
 interface LeaderboardProps {
   entries: LeaderboardEntry[];
-  type: 'savings' | 'points' | 'streak';
+  type: 'savings' | 'points' | 'streak' | 'league';
   timeframe: 'daily' | 'weekly' | 'monthly' | 'all-time';
+  league?: LeagueInfo; // Required for the league type
   isLoading?: boolean;
   onRefresh?: () => void;
   onViewProfile?: (userId: string) => void;
@@ -46,6 +57,7 @@ const Leaderboard: React.FC<LeaderboardProps> = ({
   entries,
   type,
   timeframe,
+  league,
   isLoading = false,
   onRefresh,
   onViewProfile,
@@ -67,6 +79,8 @@ const Leaderboard: React.FC<LeaderboardProps> = ({
         return Award;
       case 'streak':
         return TrendingUp;
+      case 'league':
+        return Shield;
       default:
         return Trophy;
     }
@@ -80,6 +94,10 @@ const Leaderboard: React.FC<LeaderboardProps> = ({
         return 'Points Leaderboard';
       case 'streak':
         return 'Streak Leaderboard';
+      case 'league':
+        return league
+          ? `${league.tier.charAt(0)}${league.tier.slice(1).toLowerCase()} League`
+          : 'League';
       default:
         return 'Leaderboard';
     }
@@ -95,6 +113,7 @@ const Leaderboard: React.FC<LeaderboardProps> = ({
           maximumFractionDigits: 0,
         }).format(score);
       case 'points':
+      case 'league':
         return `${score.toLocaleString()} pts`;
       case 'streak':
         return `${score} days`;
@@ -142,6 +161,30 @@ const Leaderboard: React.FC<LeaderboardProps> = ({
     }
   };
 
+  const getTimeRemaining = (weekEnd: Date | string) => {
+    const ms = new Date(weekEnd).getTime() - Date.now();
+    if (ms <= 0) return 'Week ended';
+
+    const days = Math.floor(ms / (24 * 60 * 60 * 1000));
+    const hours = Math.floor((ms % (24 * 60 * 60 * 1000)) / (60 * 60 * 1000));
+    return days > 0 ? `${days}d ${hours}h left` : `${hours}h left`;
+  };
+
+  const getZoneClasses = (entry: LeaderboardEntry) => {
+    if (entry.isCurrentUser) {
+      return 'bg-blue-50 border border-blue-200 dark:bg-blue-900/20 dark:border-blue-800';
+    }
+
+    switch (entry.zone) {
+      case 'promotion':
+        return 'bg-green-50 border border-green-200 dark:bg-green-900/20 dark:border-green-800';
+      case 'relegation':
+        return 'bg-red-50 border border-red-200 dark:bg-red-900/20 dark:border-red-800';
+      default:
+        return 'bg-gray-50 hover:bg-gray-100 dark:bg-gray-800 dark:hover:bg-gray-700';
+    }
+  };
+
   const TypeIcon = getTypeIcon();
 
   return (
@@ -170,8 +213,23 @@ const Leaderboard: React.FC<LeaderboardProps> = ({
           </div>
         </div>
 
+        {/* League week and zones */}
+        {type === 'league' && league && (
+          <div className="flex items-center justify-between mt-4 text-xs text-gray-500 dark:text-gray-400">
+            <span className="flex items-center">
+              <Clock className="h-3 w-3 mr-1" />
+              {getTimeRemaining(league.weekEnd)}
+            </span>
+            <span>
+              {league.promotionCount > 0 && `Top ${league.promotionCount} move up`}
+              {league.promotionCount > 0 && league.relegationCount > 0 && ' · '}
+              {league.relegationCount > 0 && `Bottom ${league.relegationCount} move down`}
+            </span>
+          </div>
+        )}
+
         {/* Timeframe Selector */}
-        {onTimeframeChange && (
+        {onTimeframeChange && type !== 'league' && (
           <div className="flex space-x-1 mt-4">
             {timeframes.map((tf) => (
               <Button
@@ -294,9 +352,7 @@ const Leaderboard: React.FC<LeaderboardProps> = ({
                 exit={{ opacity: 0, x: 20 }}
                 transition={{ duration: 0.2, delay: index * 0.05 }}
                 className={`flex items-center justify-between p-3 rounded-lg transition-colors ${
-                  entry.isCurrentUser
-                    ? 'bg-blue-50 border border-blue-200 dark:bg-blue-900/20 dark:border-blue-800'
-                    : 'bg-gray-50 hover:bg-gray-100 dark:bg-gray-800 dark:hover:bg-gray-700'
+                  getZoneClasses(entry)
                 } ${onViewProfile ? 'cursor-pointer' : ''}`}
                 onClick={() => onViewProfile?.(entry.userId)}
               >
@@ -337,14 +393,22 @@ const Leaderboard: React.FC<LeaderboardProps> = ({
                             </span>
                           )}
                         </span>
-                        <Badge variant={getRankBadgeVariant(entry.rank)} size="sm">
-                          Level {entry.level}
-                        </Badge>
+                        {entry.level !== undefined && (
+                          <Badge variant={getRankBadgeVariant(entry.rank)} size="sm">
+                            Level {entry.level}
+                          </Badge>
+                        )}
                       </div>
                       <div className="text-xs text-gray-500 dark:text-gray-400">
                         {type === 'savings' && `Total: ${formatScore(entry.totalSaved, 'savings')}`}
                         {type === 'streak' && `Current streak: ${entry.streak} days`}
-                        {type === 'points' && `Level ${entry.level}`}
+                        {type === 'points' && entry.level !== undefined && `Level ${entry.level}`}
+                        {type === 'league' && entry.zone === 'promotion' && (
+                          <span className="text-green-600 dark:text-green-400">Promotion zone</span>
+                        )}
+                        {type === 'league' && entry.zone === 'relegation' && (
+                          <span className="text-red-600 dark:text-red-400">Relegation zone</span>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -359,7 +423,7 @@ const Leaderboard: React.FC<LeaderboardProps> = ({
                   }`}>
                     {formatScore(entry.score, type)}
                   </div>
-                  {entry.previousRank && (
+                  {entry.previousRank && type !== 'league' && (
                     <div className="text-xs text-gray-500 dark:text-gray-400">
                       {entry.previousRank > entry.rank ? '+' : ''}
                       {entry.previousRank - entry.rank} from last period
@@ -57,7 +57,16 @@ interface SavingsProjection {
   currentSavingsRate: number;
   projectedMonthly: number;
   projectedYearly: number;
-  goalAchievementDate?: Date;
+  goals: Array<{
+    goalId: string;
+    name: string;
+    icon: string | null;
+    targetAmount: number;
+    savedAmount: number;
+    deadline?: Date | string;
+    projectedCompletionDate?: Date | string;
+    onTrack: boolean;
+  }>;
   recommendedAdjustments: string[];
   confidenceLevel: number;
 }
@@ -111,6 +120,25 @@ export const InsightsPanel: React.FC = () => {
     setRefreshing(false);
   };
 
+  // Remembered on the server so the recommendation isn't generated again
+  const handleRecommendationFeedback = async (
+    recommendation: FinancialRecommendation,
+    action: 'dismiss' | 'snooze' | 'done'
+  ) => {
+    try {
+      const response = await fetch(`/api/insights/recommendations/${recommendation.id}/feedback`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, title: recommendation.title })
+      });
+      if (!response.ok) {
+        throw new Error('Failed to save recommendation feedback');
+      }
+    } catch (error) {
+      console.error('Error saving recommendation feedback:', error);
+    }
+  };
+
   const getVelocityIcon = (velocity: string) => {
     switch (velocity) {
       case 'increasing':
@@ -272,7 +300,11 @@ export const InsightsPanel: React.FC = () => {
       )}
 
       {activeTab === 'recommendations' && (
-        <RecommendationsCard recommendations={recommendations} onRefresh={handleRefresh} />
+        <RecommendationsCard
+          recommendations={recommendations}
+          onRefresh={handleRefresh}
+          onFeedback={handleRecommendationFeedback}
+        />
       )}
 
       {activeTab === 'projections' && savingsProjection && (
@@ -10,7 +10,9 @@ import {
   CheckCircle, 
   Clock,
   DollarSign,
-  ArrowRight
+  ArrowRight,
+  BellOff,
+  X
 } from 'lucide-react';
 
 interface FinancialRecommendation {
@@ -25,16 +27,21 @@ interface FinancialRecommendation {
   createdAt: Date;
 }
 
+type RecommendationFeedbackAction = 'dismiss' | 'snooze' | 'done';
+
 interface RecommendationsCardProps {
   recommendations: FinancialRecommendation[];
   onRefresh: () => void;
+  onFeedback?: (recommendation: FinancialRecommendation, action: RecommendationFeedbackAction) => void;
 }
 
 export const RecommendationsCard: React.FC<RecommendationsCardProps> = ({ 
   recommendations, 
-  onRefresh 
+  onRefresh,
+  onFeedback
 }) => {
   const [completedRecommendations, setCompletedRecommendations] = useState<Set<string>>(new Set());
+  const [hiddenRecommendations, setHiddenRecommendations] = useState<Set<string>>(new Set());
   const [expandedRecommendation, setExpandedRecommendation] = useState<string | null>(null);
 
   const getRecommendationIcon = (type: FinancialRecommendation['type']) => {
@@ -80,8 +87,13 @@ export const RecommendationsCard: React.FC<RecommendationsCardProps> = ({
     }
   };
 
-  const handleMarkCompleted = (recommendationId: string) => {
-    setCompletedRecommendations(prev => new Set([...prev, recommendationId]));
+  const handleFeedback = (recommendation: FinancialRecommendation, action: RecommendationFeedbackAction) => {
+    if (action === 'done') {
+      setCompletedRecommendations(prev => new Set([...prev, recommendation.id]));
+    } else {
+      setHiddenRecommendations(prev => new Set([...prev, recommendation.id]));
+    }
+    onFeedback?.(recommendation, action);
   };
 
   const handleToggleExpanded = (recommendationId: string) => {
@@ -90,7 +102,9 @@ export const RecommendationsCard: React.FC<RecommendationsCardProps> = ({
     );
   };
 
-  const activeRecommendations = recommendations.filter(rec => !completedRecommendations.has(rec.id));
+  const activeRecommendations = recommendations.filter(rec => 
+    !completedRecommendations.has(rec.id) && !hiddenRecommendations.has(rec.id)
+  );
   const completedCount = completedRecommendations.size;
 
   return (
@@ -200,9 +214,32 @@ export const RecommendationsCard: React.FC<RecommendationsCardProps> = ({
                         </span>
                       </div>
                       
+                      {onFeedback && (
+                        <>
+                          <Button
+                            onClick={() => handleFeedback(recommendation, 'snooze')}
+                            size="sm"
+                            variant="ghost"
+                            className="flex items-center gap-1"
+                            title="Hide for a week"
+                          >
+                            <BellOff className="w-3 h-3" />
+                            <span>Snooze</span>
+                          </Button>
+                          <Button
+                            onClick={() => handleFeedback(recommendation, 'dismiss')}
+                            size="sm"
+                            variant="ghost"
+                            aria-label="Dismiss"
+                          >
+                            <X className="w-3 h-3" />
+                          </Button>
+                        </>
+                      )}
+
                       {recommendation.actionable && (
                         <Button
-                          onClick={() => handleMarkCompleted(recommendation.id)}
+                          onClick={() => handleFeedback(recommendation, 'done')}
                           size="sm"
                           variant="primary"
                           className="flex items-center gap-1"
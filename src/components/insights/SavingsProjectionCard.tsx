@@ -3,11 +3,22 @@
 import React from 'react';
 import { TrendingUp, Calendar, Target, BarChart3, AlertCircle } from 'lucide-react';
 
+interface GoalProjection {
+  goalId: string;
+  name: string;
+  icon: string | null;
+  targetAmount: number;
+  savedAmount: number;
+  deadline?: Date | string;
+  projectedCompletionDate?: Date | string;
+  onTrack: boolean;
+}
+
 interface SavingsProjection {
   currentSavingsRate: number;
   projectedMonthly: number;
   projectedYearly: number;
-  goalAchievementDate?: Date;
+  goals: GoalProjection[];
   recommendedAdjustments: string[];
   confidenceLevel: number;
 }
@@ -29,17 +40,17 @@ export const SavingsProjectionCard: React.FC<SavingsProjectionCardProps> = ({ pr
     return 'Low Confidence';
   };
 
-  const formatDate = (date: Date) => {
-    return date.toLocaleDateString('en-US', { 
+  const formatDate = (date: Date | string) => {
+    return new Date(date).toLocaleDateString('en-US', { 
       year: 'numeric', 
       month: 'long', 
       day: 'numeric' 
     });
   };
 
-  const getDaysUntilGoal = (goalDate: Date) => {
+  const getDaysUntilGoal = (goalDate: Date | string) => {
     const today = new Date();
-    const diffTime = goalDate.getTime() - today.getTime();
+    const diffTime = new Date(goalDate).getTime() - today.getTime();
     const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
     return diffDays;
   };
@@ -92,25 +103,38 @@ export const SavingsProjectionCard: React.FC<SavingsProjectionCardProps> = ({ pr
       </div>
 
       {/* Goal Achievement */}
-      {projection.goalAchievementDate && (
+      {projection.goals.length > 0 && (
         <div className="mb-8 p-4 bg-gradient-to-r from-blue-50 to-green-50 rounded-lg border border-blue-200">
           <div className="flex items-center gap-3 mb-3">
             <Target className="w-5 h-5 text-blue-600" />
             <h4 className="font-medium text-gray-900">Goal Achievement Projection</h4>
           </div>
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            <div>
-              <div className="text-sm text-gray-600 mb-1">Estimated Achievement Date</div>
-              <div className="font-semibold text-gray-900">
-                {formatDate(projection.goalAchievementDate)}
-              </div>
-            </div>
-            <div>
-              <div className="text-sm text-gray-600 mb-1">Days Until Goal</div>
-              <div className="font-semibold text-gray-900">
-                {getDaysUntilGoal(projection.goalAchievementDate)} days
+          <div className="space-y-3">
+            {projection.goals.map(goal => (
+              <div key={goal.goalId} className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <div className="font-medium text-gray-900">
+                    {goal.icon && <span className="mr-1">{goal.icon}</span>}
+                    {goal.name}
+                  </div>
+                  <div className="text-sm text-gray-600">
+                    ${goal.savedAmount.toFixed(2)} of ${goal.targetAmount.toFixed(2)}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-sm text-gray-600 mb-1">Estimated Achievement Date</div>
+                  <div className={`font-semibold ${goal.onTrack ? 'text-gray-900' : 'text-red-600'}`}>
+                    {goal.projectedCompletionDate ? formatDate(goal.projectedCompletionDate) : 'Out of reach'}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-sm text-gray-600 mb-1">Days Until Goal</div>
+                  <div className="font-semibold text-gray-900">
+                    {goal.projectedCompletionDate ? `${getDaysUntilGoal(goal.projectedCompletionDate)} days` : '-'}
+                  </div>
+                </div>
               </div>
-            </div>
+            ))}
           </div>
         </div>
       )}
@@ -32,7 +32,8 @@ export const LiveChallengeProgress: React.FC<LiveChallengeProgressProps> = ({
     stopTyping,
     onChallengeProgress,
     onLeaderboardUpdate,
-    onNewMessage
+    onNewMessage,
+    onMessageDeleted
   } = useWebSocketContext();
 
   const [progress, setProgress] = useState<ChallengeProgressData | null>(null);
@@ -56,6 +57,48 @@ export const LiveChallengeProgress: React.FC<LiveChallengeProgressProps> = ({
     };
   }, [isConnected, challengeId, joinChallenge, leaveChallenge]);
 
+  useEffect(() => {
+    // Load the chat history the user missed while away
+    const loadHistory = async () => {
+      try {
+        const conversationResponse = await fetch('/api/social/conversations', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ challengeId })
+        });
+        if (!conversationResponse.ok) return;
+
+        const { data: conversation } = await conversationResponse.json();
+        const historyResponse = await fetch(`/api/social/conversations/${conversation.id}/messages`);
+        if (!historyResponse.ok) return;
+
+        const { data: history } = await historyResponse.json();
+        setMessages(history.messages
+          .filter((message: { deletedAt: string | null }) => !message.deletedAt)
+          .reverse()
+          .map((message: { id: string; senderId: string; sender: { username: string }; body: string; createdAt: string }) => ({
+            id: message.id,
+            conversationId: conversation.id,
+            senderId: message.senderId,
+            senderUsername: message.sender.username,
+            message: message.body,
+            challengeId,
+            timestamp: new Date(message.createdAt)
+          })));
+
+        await fetch(`/api/social/conversations/${conversation.id}/read`, { method: 'POST' });
+      } catch (error) {
+        console.error('Error loading challenge chat:', error);
+      }
+    };
+
+    if (challengeId) {
+      loadHistory();
+    }
+  }, [challengeId]);
+
   useEffect(() => {
     // Set up real-time event listeners
     const unsubscribeProgress = onChallengeProgress((data) => {
@@ -85,13 +128,20 @@ export const LiveChallengeProgress: React.FC<LiveChallengeProgressProps> = ({
       }
     });
 
+    const unsubscribeDeleted = onMessageDeleted((data) => {
+      if (data.challengeId === challengeId) {
+        setMessages(prev => prev.filter(message => message.id !== data.messageId));
+      }
+    });
+
     // Cleanup subscriptions
     return () => {
       unsubscribeProgress();
       unsubscribeLeaderboard();
       unsubscribeMessages();
+      unsubscribeDeleted();
     };
-  }, [challengeId, userId, onChallengeProgress, onLeaderboardUpdate, onNewMessage]);
+  }, [challengeId, userId, onChallengeProgress, onLeaderboardUpdate, onNewMessage, onMessageDeleted]);
 
   const handleSendMessage = () => {
     if (newMessage.trim() && isJoined) {
@@ -248,9 +298,9 @@ export const LiveChallengeProgress: React.FC<LiveChallengeProgressProps> = ({
         
         {/* Messages */}
         <div className="h-64 overflow-y-auto mb-4 space-y-2 border rounded-lg p-3 bg-gray-50">
-          {messages.map((message, index) => (
+          {messages.map((message) => (
             <div 
-              key={index}
+              key={message.id}
               className={`flex ${message.senderId === userId ? 'justify-end' : 'justify-start'}`}
             >
               <div className={`max-w-xs px-3 py-2 rounded-lg ${
@@ -53,13 +53,6 @@ interface ChallengeParticipant {
   currentProgress: number;
   rank: number;
   isCompleted: boolean;
-  dailyProgress: DailyProgress[];
-}
-
-interface DailyProgress {
-  date: Date;
-  amount: number;
-  isActive: boolean;
 }
 
 interface ChallengeReward {
@@ -447,26 +440,21 @@ const ProgressTab: React.FC<{
       {userProgress ? (
         <div className="space-y-4">
           <div className="p-4 bg-blue-50 rounded-lg">
-            <h5 className="font-medium text-blue-900 mb-2">Your Daily Progress</h5>
-            <div className="grid grid-cols-7 gap-2">
-              {userProgress.dailyProgress?.slice(-7).map((day, index) => (
-                <div
-                  key={index}
-                  className={`p-2 rounded text-center text-xs ${
-                    day.isActive 
-                      ? 'bg-green-100 text-green-800' 
-                      : 'bg-gray-100 text-gray-600'
-                  }`}
-                >
-                  <div className="font-medium">${day.amount.toFixed(0)}</div>
-                  <div>{day.date.toLocaleDateString('en-US', { weekday: 'short' })}</div>
-                </div>
-              ))}
+            <h5 className="font-medium text-blue-900 mb-2">Your Progress</h5>
+            <div className="text-2xl font-bold text-blue-900">
+              {challenge.type === 'savings_amount'
+                ? `$${userProgress.currentProgress.toFixed(2)}`
+                : userProgress.currentProgress}
+              {challenge.targetAmount && (
+                <span className="text-base font-normal text-blue-700">
+                  {' '}of {challenge.type === 'savings_amount' ? `$${challenge.targetAmount}` : challenge.targetAmount}
+                </span>
+              )}
             </div>
           </div>
           
           <div className="text-center text-gray-600">
-            <p>Keep up the great work! Your consistency is paying off.</p>
+            <p>Progress is counted from your confirmed savings and new friends since the challenge started.</p>
           </div>
         </div>
       ) : (
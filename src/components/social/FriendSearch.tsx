@@ -1,6 +1,7 @@
 'use client';
 
 import React, { useState, useEffect, useCallback } from 'react';
+import Image from 'next/image';
 import { Button } from '../ui/Button';
 import { Input } from '../ui/Input';
 import { Search, UserPlus, Users, Trophy, TrendingUp } from 'lucide-react';
@@ -9,22 +10,47 @@ import { debounce } from 'lodash';
 interface SearchResult {
     id: string;
     username: string;
-    email: string;
     profileImage?: string;
-    level: number;
-    totalSaved: number;
-    currentStreak: number;
+    level?: number; // Left out when the user's privacy setting hides it
+    totalSaved?: number;
+    currentStreak?: number;
     mutualFriends: number;
+    reason?: string; // What the user has in common with them
     isAlreadyFriend: boolean;
     hasPendingRequest: boolean;
 }
 
+interface Suggestion {
+    id: string;
+    username: string;
+    profileImage?: string;
+    level?: number;
+    reason: string; // e.g. "3 mutual friends, both in Save-March"
+}
+
 export const FriendSearch: React.FC = () => {
     const [searchQuery, setSearchQuery] = useState('');
     const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
     const [loading, setLoading] = useState(false);
     const [hasSearched, setHasSearched] = useState(false);
     const [sendingRequests, setSendingRequests] = useState<Set<string>>(new Set());
+    const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+
+    useEffect(() => {
+        const fetchSuggestions = async () => {
+            try {
+                const response = await fetch('/api/social/suggestions?limit=5');
+                if (response.ok) {
+                    const data = await response.json();
+                    setSuggestions(data.data);
+                }
+            } catch (error) {
+                console.error('Error fetching friend suggestions:', error);
+            }
+        };
+
+        fetchSuggestions();
+    }, []);
 
     // Debounced search function
     const debouncedSearch = useCallback(
@@ -78,6 +104,7 @@ export const FriendSearch: React.FC = () => {
                         ? { ...user, hasPendingRequest: true }
                         : user
                 ));
+                setSuggestions(prev => prev.filter(suggestion => suggestion.id !== userId));
             }
         } catch (error) {
             console.error('Error sending friend request:', error);
@@ -159,20 +186,31 @@ export const FriendSearch: React.FC = () => {
                                 <div className="flex-1">
                                     <div className="flex items-center gap-2 mb-1">
                                         <h3 className="font-semibold text-gray-900">{user.username}</h3>
-                                        <div className="flex items-center gap-1 text-yellow-600">
-                                            <Trophy className="w-3 h-3" />
-                                            <span className="text-xs font-medium">Level {user.level}</span>
-                                        </div>
+                                        {user.level !== undefined && (
+                                            <div className="flex items-center gap-1 text-yellow-600">
+                                                <Trophy className="w-3 h-3" />
+                                                <span className="text-xs font-medium">Level {user.level}</span>
+                                            </div>
+                                        )}
                                     </div>
                                     <div className="flex items-center gap-4 text-sm text-gray-600">
-                                        <div className="flex items-center gap-1">
-                                            <TrendingUp className="w-3 h-3" />
-                                            <span>${user.totalSaved.toFixed(2)} saved</span>
-                                        </div>
-                                        <div>
-                                            {user.currentStreak} day streak
-                                        </div>
-                                        {user.mutualFriends > 0 && (
+                                        {user.totalSaved !== undefined && (
+                                            <div className="flex items-center gap-1">
+                                                <TrendingUp className="w-3 h-3" />
+                                                <span>${user.totalSaved.toFixed(2)} saved</span>
+                                            </div>
+                                        )}
+                                        {user.currentStreak !== undefined && (
+                                            <div>
+                                                {user.currentStreak} day streak
+                                            </div>
+                                        )}
+                                        {user.reason ? (
+                                            <div className="flex items-center gap-1">
+                                                <Users className="w-3 h-3" />
+                                                <span>{user.reason}</span>
+                                            </div>
+                                        ) : user.mutualFriends > 0 && (
                                             <div className="flex items-center gap-1">
                                                 <Users className="w-3 h-3" />
                                                 <span>{user.mutualFriends} mutual friends</span>
@@ -208,7 +246,56 @@ export const FriendSearch: React.FC = () => {
                 </div>
             )}
 
-            {!hasSearched && !loading && (
+            {!hasSearched && !loading && suggestions.length > 0 && (
+                <div className="space-y-4">
+                    <h3 className="text-lg font-semibold text-gray-900">People You May Know</h3>
+
+                    {suggestions.map((suggestion) => (
+                        <div
+                            key={suggestion.id}
+                            className="flex items-center justify-between p-4 border border-gray-200 rounded-lg hover:shadow-md transition-shadow"
+                        >
+                            <div className="flex items-center gap-4">
+                                {suggestion.profileImage ? (
+                                    <Image
+                                        src={suggestion.profileImage}
+                                        alt={suggestion.username}
+                                        width={48}
+                                        height={48}
+                                        className="w-12 h-12 rounded-full object-cover"
+                                    />
+                                ) : (
+                                    <div className="w-12 h-12 bg-blue-100 rounded-full flex items-center justify-center">
+                                        <span className="text-blue-600 font-semibold">
+                                            {suggestion.username.charAt(0).toUpperCase()}
+                                        </span>
+                                    </div>
+                                )}
+
+                                <div className="flex-1">
+                                    <h3 className="font-semibold text-gray-900 mb-1">{suggestion.username}</h3>
+                                    <div className="flex items-center gap-1 text-sm text-gray-600">
+                                        <Users className="w-3 h-3" />
+                                        <span>{suggestion.reason}</span>
+                                    </div>
+                                </div>
+                            </div>
+
+                            <Button
+                                onClick={() => handleSendFriendRequest(suggestion.id)}
+                                disabled={sendingRequests.has(suggestion.id)}
+                                size="sm"
+                                className="flex items-center gap-1"
+                            >
+                                <UserPlus className="w-3 h-3" />
+                                {sendingRequests.has(suggestion.id) ? 'Sending...' : 'Add Friend'}
+                            </Button>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {!hasSearched && !loading && suggestions.length === 0 && (
                 <div className="text-center py-8">
                     <Search className="w-12 h-12 text-gray-400 mx-auto mb-4" />
                     <h3 className="text-lg font-medium text-gray-900 mb-2">Find Your Friends</h3>
@@ -1,13 +1,25 @@
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import type { Contract, Log } from "ethers";
+import {
+  encodeCreateChallenge,
+  encodeJoinChallenge,
+  getCreatedChallengeId
+} from "../lib/blockchain/gameEngine";
+import { calculatePayouts } from "../lib/gamification/stakePayouts";
+
 const { expect } = require("chai");
 const { ethers } = require("hardhat");
 
 describe("GameEngine", function () {
-  let gameEngine;
-  let owner, user1, user2, user3;
+  let gameEngine: Contract;
+  let owner: HardhatEthersSigner, user1: HardhatEthersSigner, user2: HardhatEthersSigner, user3: HardhatEthersSigner;
 
   const ENTRY_FEE = ethers.parseEther("0.1");
   const TARGET_AMOUNT = ethers.parseEther("10");
 
+  // connect() loses the contract's method signatures
+  const connectAs = (signer: HardhatEthersSigner) => gameEngine.connect(signer) as Contract;
+
   beforeEach(async function () {
     [owner, user1, user2, user3] = await ethers.getSigners();
     
@@ -110,10 +122,10 @@ describe("GameEngine", function () {
   });
 
   describe("Challenges", function () {
-    let challengeId;
+    let challengeId: string;
 
     beforeEach(async function () {
-      const tx = await gameEngine.connect(user1).createChallenge(
+      const tx = await connectAs(user1).createChallenge(
         "Save $10 Challenge",
         "Save $10 in 30 days",
         0, // SAVINGS_AMOUNT
@@ -124,14 +136,14 @@ describe("GameEngine", function () {
       );
       
       const receipt = await tx.wait();
-      const event = receipt.logs.find(log => {
+      const event = receipt.logs.find((log: Log) => {
         try {
-          return gameEngine.interface.parseLog(log).name === "ChallengeCreated";
+          return gameEngine.interface.parseLog(log)?.name === "ChallengeCreated";
         } catch {
           return false;
         }
       });
-      challengeId = gameEngine.interface.parseLog(event).args.challengeId;
+      challengeId = gameEngine.interface.parseLog(event)!.args.challengeId;
     });
 
     it("Should create challenges", async function () {
@@ -142,7 +154,7 @@ describe("GameEngine", function () {
     });
 
     it("Should allow users to join challenges", async function () {
-      await expect(gameEngine.connect(user2).joinChallenge(challengeId, { value: ENTRY_FEE }))
+      await expect(connectAs(user2).joinChallenge(challengeId, { value: ENTRY_FEE }))
         .to.emit(gameEngine, "ChallengeJoined")
         .withArgs(challengeId, user2.address, await ethers.provider.getBlockNumber() + 1);
       
@@ -153,19 +165,19 @@ describe("GameEngine", function () {
     it("Should prevent joining with insufficient fee", async function () {
       const insufficientFee = ethers.parseEther("0.05");
       
-      await expect(gameEngine.connect(user2).joinChallenge(challengeId, { value: insufficientFee }))
+      await expect(connectAs(user2).joinChallenge(challengeId, { value: insufficientFee }))
         .to.be.revertedWith("Insufficient entry fee");
     });
 
     it("Should prevent duplicate joins", async function () {
-      await gameEngine.connect(user2).joinChallenge(challengeId, { value: ENTRY_FEE });
+      await connectAs(user2).joinChallenge(challengeId, { value: ENTRY_FEE });
       
-      await expect(gameEngine.connect(user2).joinChallenge(challengeId, { value: ENTRY_FEE }))
+      await expect(connectAs(user2).joinChallenge(challengeId, { value: ENTRY_FEE }))
         .to.be.revertedWith("Already joined");
     });
 
     it("Should update challenge progress", async function () {
-      await gameEngine.connect(user2).joinChallenge(challengeId, { value: ENTRY_FEE });
+      await connectAs(user2).joinChallenge(challengeId, { value: ENTRY_FEE });
       
       const progress = ethers.parseEther("5");
       await gameEngine.updateChallengeProgress(challengeId, user2.address, progress);
@@ -175,18 +187,18 @@ describe("GameEngine", function () {
     });
 
     it("Should complete challenge when target is reached", async function () {
-      await gameEngine.connect(user2).joinChallenge(challengeId, { value: ENTRY_FEE });
+      await connectAs(user2).joinChallenge(challengeId, { value: ENTRY_FEE });
       
       await expect(gameEngine.updateChallengeProgress(challengeId, user2.address, TARGET_AMOUNT))
         .to.emit(gameEngine, "ChallengeCompleted")
-        .withArgs(challengeId, user2.address, ENTRY_FEE * 2n);
+        .withArgs(challengeId, user2.address, ENTRY_FEE * BigInt(2));
       
       const challenge = await gameEngine.getChallenge(challengeId);
       expect(challenge.status).to.equal(1); // COMPLETED
     });
 
     it("Should allow owner to cancel challenges", async function () {
-      await gameEngine.connect(user2).joinChallenge(challengeId, { value: ENTRY_FEE });
+      await connectAs(user2).joinChallenge(challengeId, { value: ENTRY_FEE });
       
       await gameEngine.cancelChallenge(challengeId);
       
@@ -195,6 +207,66 @@ describe("GameEngine", function () {
     });
   });
 
+  describe("Staked Challenges", function () {
+    let challengeId: string;
+
+    // Buy-ins are sent from participants' wallets the way the backend sends them
+    beforeEach(async function () {
+      const tx = await user1.sendTransaction({
+        to: await gameEngine.getAddress(),
+        value: ENTRY_FEE,
+        data: encodeCreateChallenge({
+          title: "Staked Savers",
+          description: "Save the most in 30 days",
+          type: "SAVINGS_AMOUNT",
+          target: 10000,
+          duration: 30,
+          entryFeeWei: ENTRY_FEE
+        })
+      });
+      challengeId = getCreatedChallengeId((await tx.wait())!)!;
+
+      for (const user of [user2, user3]) {
+        await user.sendTransaction({
+          to: await gameEngine.getAddress(),
+          value: ENTRY_FEE,
+          data: encodeJoinChallenge(challengeId)
+        });
+      }
+    });
+
+    it("Should escrow every buy-in", async function () {
+      const challenge = await gameEngine.getChallenge(challengeId);
+      expect(challenge.participantCount).to.equal(3);
+      expect(challenge.totalPrizePool).to.equal(ENTRY_FEE * BigInt(3));
+      expect(await ethers.provider.getBalance(await gameEngine.getAddress())).to.equal(ENTRY_FEE * BigInt(3));
+    });
+
+    it("Should settle the pot by a payout curve", async function () {
+      const payouts = calculatePayouts(ENTRY_FEE * BigInt(3), [
+        { id: user1.address, progress: 10 },
+        { id: user2.address, progress: 30 },
+        { id: user3.address, progress: 20 }
+      ], "TOP_THREE");
+
+      await expect(gameEngine.distributeRewards(
+        payouts.map(payout => payout.id),
+        payouts.map(payout => payout.amountWei),
+        "Challenge payout: Staked Savers"
+      )).to.changeEtherBalances(
+        [user2, user3, user1],
+        [ethers.parseEther("0.15"), ethers.parseEther("0.09"), ethers.parseEther("0.06")]
+      );
+
+      expect(await ethers.provider.getBalance(await gameEngine.getAddress())).to.equal(0);
+    });
+
+    it("Should refund every buy-in when cancelled", async function () {
+      await expect(gameEngine.cancelChallenge(challengeId))
+        .to.changeEtherBalances([user1, user2, user3], [ENTRY_FEE, ENTRY_FEE, ENTRY_FEE]);
+    });
+  });
+
   describe("Reward Distribution", function () {
     it("Should distribute rewards to multiple users", async function () {
       const users = [user1.address, user2.address];
@@ -247,7 +319,7 @@ describe("GameEngine", function () {
     });
 
     it("Should reject admin functions from non-owner", async function () {
-      await expect(gameEngine.connect(user1).addAchievement("Test", "Test", 0, 100, 10))
+      await expect(connectAs(user1).addAchievement("Test", "Test", 0, 100, 10))
         .to.be.revertedWithCustomError(gameEngine, "OwnableUnauthorizedAccount");
     });
   });
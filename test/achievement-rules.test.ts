@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import {
+  parseAchievementCriteria,
+  evaluateCriteria,
+  createMetricResolver,
+  evaluateAchievementCriteria
+} from '../lib/gamification/achievementRules';
+import { prisma } from '../lib/db/prisma';
+
+// Mock Prisma
+jest.mock('../lib/db/prisma', () => ({
+  prisma: {
+    user: {
+      findUnique: jest.fn(),
+      count: jest.fn()
+    },
+    savingsTransaction: {
+      aggregate: jest.fn(),
+      count: jest.fn()
+    },
+    challengeParticipant: {
+      count: jest.fn()
+    }
+  }
+}));
+
+describe('Achievement rules engine', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('parseAchievementCriteria', () => {
+    it('should accept a valid definition', () => {
+      expect(parseAchievementCriteria({
+        metric: 'totalSaved',
+        comparator: 'gte',
+        threshold: 100,
+        window: { days: 30 }
+      })).toEqual({
+        metric: 'totalSaved',
+        comparator: 'gte',
+        threshold: 100,
+        window: { days: 30 }
+      });
+    });
+
+    it('should reject unknown metrics, comparators and bad windows', () => {
+      expect(parseAchievementCriteria(null)).toBeNull();
+      expect(parseAchievementCriteria({ metric: 'karma', comparator: 'gte', threshold: 1 })).toBeNull();
+      expect(parseAchievementCriteria({ metric: 'totalSaved', comparator: 'between', threshold: 1 })).toBeNull();
+      expect(parseAchievementCriteria({ metric: 'totalSaved', comparator: 'gte', threshold: '1' })).toBeNull();
+      expect(parseAchievementCriteria({
+        metric: 'totalSaved',
+        comparator: 'gte',
+        threshold: 1,
+        window: { days: 0 }
+      })).toBeNull();
+    });
+  });
+
+  describe('evaluateCriteria', () => {
+    it('should report capped progress for lower-bound criteria', () => {
+      const criteria = { metric: 'totalSaved' as const, comparator: 'gte' as const, threshold: 100 };
+
+      expect(evaluateCriteria(criteria, 40)).toEqual({ met: false, value: 40, progress: 40, maxProgress: 100 });
+      expect(evaluateCriteria(criteria, 250)).toEqual({ met: true, value: 250, progress: 100, maxProgress: 100 });
+    });
+
+    it('should treat upper-bound criteria as a single step', () => {
+      const criteria = { metric: 'signupRank' as const, comparator: 'lte' as const, threshold: 1000 };
+
+      expect(evaluateCriteria(criteria, 12)).toEqual({ met: true, value: 12, progress: 1, maxProgress: 1 });
+      expect(evaluateCriteria(criteria, 1001).met).toBe(false);
+    });
+  });
+
+  describe('createMetricResolver', () => {
+    it('should resolve windowed savings totals and cache lookups', async () => {
+      (prisma.savingsTransaction.aggregate as jest.Mock).mockResolvedValue({ _sum: { amountMinor: 15000 } });
+
+      const resolve = createMetricResolver('user1');
+      const criteria = {
+        metric: 'totalSaved' as const,
+        comparator: 'gte' as const,
+        threshold: 100,
+        window: { days: 7 }
+      };
+
+      const first = await evaluateAchievementCriteria(criteria, resolve);
+      const second = await evaluateAchievementCriteria(criteria, resolve);
+
+      expect(first.met).toBe(true);
+      expect(second.value).toBe(150);
+      expect(prisma.savingsTransaction.aggregate).toHaveBeenCalledTimes(1);
+
+      const where = (prisma.savingsTransaction.aggregate as jest.Mock).mock.calls[0][0].where;
+      expect(where.userId).toBe('user1');
+      expect(where.currency).toBe('USD');
+      expect(where.createdAt.gte).toBeInstanceOf(Date);
+    });
+
+    it('should ignore windows for streak metrics', async () => {
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue({ longestStreak: 12, currentStreak: 3 });
+
+      const resolve = createMetricResolver('user1');
+
+      expect(await resolve('longestStreak', { days: 7 })).toBe(12);
+      expect(await resolve('longestStreak')).toBe(12);
+      expect(prisma.user.findUnique).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  FEED_LIMITS,
+  SAVINGS_MILESTONES_MINOR,
+  describeActivity,
+  getCrossedSavingsMilestones,
+  getFeedPageSize,
+  validateComment
+} from '../lib/social/activityFeed';
+
+describe('Activity feed', () => {
+  it('should find the savings milestones a deposit passes', () => {
+    expect(getCrossedSavingsMilestones(0, 9_999)).toEqual([]);
+    expect(getCrossedSavingsMilestones(9_999, 10_000)).toEqual([10_000]);
+    expect(getCrossedSavingsMilestones(0, 120_000)).toEqual([10_000, 50_000, 100_000]);
+    expect(getCrossedSavingsMilestones(120_000, 60_000)).toEqual([]);
+    expect(getCrossedSavingsMilestones(0, Number.MAX_SAFE_INTEGER)).toEqual(SAVINGS_MILESTONES_MINOR);
+  });
+
+  it('should describe every activity type', () => {
+    expect(describeActivity('FRIEND_JOINED', { friendId: 'u2', friendUsername: 'sam' }))
+      .toBe('is now friends with sam');
+    expect(describeActivity('ACHIEVEMENT_UNLOCKED', { achievementId: 'a1', name: 'First Save', icon: '💰' }))
+      .toBe('unlocked "First Save" 💰');
+    expect(describeActivity('CHALLENGE_COMPLETED', { challengeId: 'c1', title: 'No-Spend', rank: 1, tier: 'WINNER' }))
+      .toBe('won the challenge "No-Spend"');
+    expect(describeActivity('CHALLENGE_COMPLETED', { challengeId: 'c1', title: 'No-Spend', rank: 4, tier: 'FINISHER' }))
+      .toBe('finished #4 in the challenge "No-Spend"');
+    expect(describeActivity('SAVINGS_MILESTONE', { amountMinor: 100_000, currency: 'USD' }))
+      .toBe('has saved $1,000.00 in total');
+  });
+
+  it('should validate comments and page sizes', () => {
+    expect(validateComment('Well done!')).toBeNull();
+    expect(validateComment('  ')).toBe('Comment cannot be empty');
+    expect(validateComment('a'.repeat(FEED_LIMITS.MAX_COMMENT_LENGTH + 1))).toMatch('at most');
+    expect(getFeedPageSize()).toBe(FEED_LIMITS.DEFAULT_PAGE_SIZE);
+    expect(getFeedPageSize(500)).toBe(FEED_LIMITS.MAX_PAGE_SIZE);
+  });
+});
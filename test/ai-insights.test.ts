@@ -1,27 +1,8 @@
-import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
 import { AIInsightsService } from '../lib/ai/insights';
+import { FixtureLlmProvider, setLlmProvider } from '../lib/ai/providers';
 import { TransactionType, TransactionStatus } from '@prisma/client';
 
-// Mock OpenAI
-jest.mock('openai', () => {
-  return {
-    __esModule: true,
-    default: jest.fn().mockImplementation(() => ({
-      chat: {
-        completions: {
-          create: jest.fn().mockResolvedValue({
-            choices: [{
-              message: {
-                content: 'Mocked AI response with insights and recommendations.'
-              }
-            }]
-          })
-        }
-      }
-    }))
-  };
-});
-
 // Mock Prisma
 jest.mock('../lib/db/prisma', () => ({
   prisma: {
@@ -30,16 +11,44 @@ jest.mock('../lib/db/prisma', () => ({
     },
     savingsTransaction: {
       findMany: jest.fn()
+    },
+    llmUsage: {
+      create: jest.fn()
+    },
+    recommendationFeedback: {
+      findMany: jest.fn(() => Promise.resolve([]))
     }
   }
 }));
 
+const recommendationsReply = JSON.stringify({
+  recommendations: [{
+    key: 'cut-dining',
+    type: 'savings_opportunity',
+    title: 'Cut Back on Dining',
+    description: 'Cook at home twice a week to save a significant amount.',
+    impact: 'high',
+    actionable: true,
+    estimatedSavings: 80,
+    category: 'Food & Dining'
+  }]
+});
+
 describe('AIInsightsService', () => {
   let aiInsightsService: AIInsightsService;
   
   beforeEach(() => {
     aiInsightsService = new AIInsightsService();
     jest.clearAllMocks();
+    setLlmProvider(new FixtureLlmProvider({
+      spending_insights: 'Mocked AI response with insights.',
+      savings_adjustments: 'Mocked AI response with adjustments.',
+      recommendations: recommendationsReply
+    }));
+  });
+
+  afterEach(() => {
+    setLlmProvider(null);
   });
 
   describe('analyzeSpending', () => {
@@ -49,46 +58,70 @@ describe('AIInsightsService', () => {
           id: '1',
           userId: 'user1',
           type: TransactionType.ROUNDUP,
-          amount: 0.50,
+          amountMinor: 50,
           currency: 'USD',
           status: TransactionStatus.CONFIRMED,
-          originalTransactionAmount: 15.50,
+          originalAmountMinor: 1550,
           merchant: 'Starbucks',
           category: 'Food & Dining',
           createdAt: new Date('2024-01-15'),
           blockchainTxHash: null,
           yieldProtocol: null,
-          apy: null
+          apy: null,
+          releasedAt: null,
+          ruleId: null,
+          rulePeriodKey: null,
+          fxRate: 1,
+          fxRateSource: null,
+          fxRateAt: null,
+          goalId: null,
+          executeAfter: null, vaultAmountWei: null
         },
         {
           id: '2',
           userId: 'user1',
           type: TransactionType.ROUNDUP,
-          amount: 0.25,
+          amountMinor: 25,
           currency: 'USD',
           status: TransactionStatus.CONFIRMED,
-          originalTransactionAmount: 8.75,
+          originalAmountMinor: 875,
           merchant: 'McDonald\'s',
           category: 'Food & Dining',
           createdAt: new Date('2024-01-16'),
           blockchainTxHash: null,
           yieldProtocol: null,
-          apy: null
+          apy: null,
+          releasedAt: null,
+          ruleId: null,
+          rulePeriodKey: null,
+          fxRate: 1,
+          fxRateSource: null,
+          fxRateAt: null,
+          goalId: null,
+          executeAfter: null, vaultAmountWei: null
         },
         {
           id: '3',
           userId: 'user1',
           type: TransactionType.ROUNDUP,
-          amount: 0.80,
+          amountMinor: 80,
           currency: 'USD',
           status: TransactionStatus.CONFIRMED,
-          originalTransactionAmount: 45.20,
+          originalAmountMinor: 4520,
           merchant: 'Gas Station',
           category: 'Transportation',
           createdAt: new Date('2024-01-17'),
           blockchainTxHash: null,
           yieldProtocol: null,
-          apy: null
+          apy: null,
+          releasedAt: null,
+          ruleId: null,
+          rulePeriodKey: null,
+          fxRate: 1,
+          fxRateSource: null,
+          fxRateAt: null,
+          goalId: null,
+          executeAfter: null, vaultAmountWei: null
         }
       ];
 
@@ -125,31 +158,47 @@ describe('AIInsightsService', () => {
           id: '1',
           userId: 'user1',
           type: TransactionType.MANUAL,
-          amount: 100,
+          amountMinor: 10000,
           currency: 'USD',
           status: TransactionStatus.CONFIRMED,
-          originalTransactionAmount: null,
+          originalAmountMinor: null,
           merchant: null,
           category: null,
           createdAt: new Date('2024-01-15'),
           blockchainTxHash: null,
           yieldProtocol: null,
-          apy: null
+          apy: null,
+          releasedAt: null,
+          ruleId: null,
+          rulePeriodKey: null,
+          fxRate: 1,
+          fxRateSource: null,
+          fxRateAt: null,
+          goalId: null,
+          executeAfter: null, vaultAmountWei: null
         },
         {
           id: '2',
           userId: 'user1',
           type: TransactionType.ROUNDUP,
-          amount: 0.50,
+          amountMinor: 50,
           currency: 'USD',
           status: TransactionStatus.CONFIRMED,
-          originalTransactionAmount: 15.50,
+          originalAmountMinor: 1550,
           merchant: 'Starbucks',
           category: 'Food & Dining',
           createdAt: new Date('2024-01-16'),
           blockchainTxHash: null,
           yieldProtocol: null,
-          apy: null
+          apy: null,
+          releasedAt: null,
+          ruleId: null,
+          rulePeriodKey: null,
+          fxRate: 1,
+          fxRateSource: null,
+          fxRateAt: null,
+          goalId: null,
+          executeAfter: null, vaultAmountWei: null
         }
       ];
 
@@ -168,27 +217,27 @@ describe('AIInsightsService', () => {
       // Mock historical transactions for anomaly detection
       prisma.savingsTransaction.findMany.mockResolvedValue([
         {
-          originalTransactionAmount: 10,
+          originalAmountMinor: 1000,
           merchant: 'Regular Store',
           category: 'Shopping'
         },
         {
-          originalTransactionAmount: 12,
+          originalAmountMinor: 1200,
           merchant: 'Regular Store',
           category: 'Shopping'
         },
         {
-          originalTransactionAmount: 8,
+          originalAmountMinor: 800,
           merchant: 'Another Store',
           category: 'Shopping'
         },
         {
-          originalTransactionAmount: 15,
+          originalAmountMinor: 1500,
           merchant: 'Regular Store',
           category: 'Food & Dining'
         },
         {
-          originalTransactionAmount: 11,
+          originalAmountMinor: 1100,
           merchant: 'Regular Store',
           category: 'Shopping'
         }
@@ -200,16 +249,24 @@ describe('AIInsightsService', () => {
         id: '1',
         userId: 'user1',
         type: TransactionType.ROUNDUP,
-        amount: 0.50,
+        amountMinor: 50,
         currency: 'USD',
         status: TransactionStatus.CONFIRMED,
-        originalTransactionAmount: 500, // Much larger than historical average
+        originalAmountMinor: 50000, // Much larger than historical average
         merchant: 'Expensive Store',
         category: 'Shopping',
         createdAt: new Date(),
         blockchainTxHash: null,
         yieldProtocol: null,
-        apy: null
+        apy: null,
+        releasedAt: null,
+        ruleId: null,
+        rulePeriodKey: null,
+        fxRate: 1,
+        fxRateSource: null,
+        fxRateAt: null,
+        goalId: null,
+        executeAfter: null, vaultAmountWei: null
       };
 
       const anomaly = await aiInsightsService.detectAnomalies('user1', largeTransaction);
@@ -226,16 +283,24 @@ describe('AIInsightsService', () => {
         id: '1',
         userId: 'user1',
         type: TransactionType.ROUNDUP,
-        amount: 0.50,
+        amountMinor: 50,
         currency: 'USD',
         status: TransactionStatus.CONFIRMED,
-        originalTransactionAmount: 10,
+        originalAmountMinor: 1000,
         merchant: 'Brand New Store', // Not in historical data
         category: 'Shopping',
         createdAt: new Date(),
         blockchainTxHash: null,
         yieldProtocol: null,
-        apy: null
+        apy: null,
+        releasedAt: null,
+        ruleId: null,
+        rulePeriodKey: null,
+        fxRate: 1,
+        fxRateSource: null,
+        fxRateAt: null,
+        goalId: null,
+        executeAfter: null, vaultAmountWei: null
       };
 
       const anomaly = await aiInsightsService.detectAnomalies('user1', newMerchantTransaction);
@@ -252,16 +317,24 @@ describe('AIInsightsService', () => {
         id: '1',
         userId: 'user1',
         type: TransactionType.ROUNDUP,
-        amount: 0.50,
+        amountMinor: 50,
         currency: 'USD',
         status: TransactionStatus.CONFIRMED,
-        originalTransactionAmount: 50, // Much higher than category average
+        originalAmountMinor: 5000, // Much higher than category average
         merchant: 'Regular Store',
         category: 'Shopping',
         createdAt: new Date(),
         blockchainTxHash: null,
         yieldProtocol: null,
-        apy: null
+        apy: null,
+        releasedAt: null,
+        ruleId: null,
+        rulePeriodKey: null,
+        fxRate: 1,
+        fxRateSource: null,
+        fxRateAt: null,
+        goalId: null,
+        executeAfter: null, vaultAmountWei: null
       };
 
       const anomaly = await aiInsightsService.detectAnomalies('user1', categorySpike);
@@ -278,16 +351,24 @@ describe('AIInsightsService', () => {
         id: '1',
         userId: 'user1',
         type: TransactionType.ROUNDUP,
-        amount: 0.50,
+        amountMinor: 50,
         currency: 'USD',
         status: TransactionStatus.CONFIRMED,
-        originalTransactionAmount: 10, // Within normal range
+        originalAmountMinor: 1000, // Within normal range
         merchant: 'Regular Store',
         category: 'Shopping',
         createdAt: new Date(),
         blockchainTxHash: null,
         yieldProtocol: null,
-        apy: null
+        apy: null,
+        releasedAt: null,
+        ruleId: null,
+        rulePeriodKey: null,
+        fxRate: 1,
+        fxRateSource: null,
+        fxRateAt: null,
+        goalId: null,
+        executeAfter: null, vaultAmountWei: null
       };
 
       const anomaly = await aiInsightsService.detectAnomalies('user1', normalTransaction);
@@ -300,16 +381,24 @@ describe('AIInsightsService', () => {
         id: '1',
         userId: 'user1',
         type: TransactionType.MANUAL,
-        amount: 100,
+        amountMinor: 10000,
         currency: 'USD',
         status: TransactionStatus.CONFIRMED,
-        originalTransactionAmount: null,
+        originalAmountMinor: null,
         merchant: null,
         category: null,
         createdAt: new Date(),
         blockchainTxHash: null,
         yieldProtocol: null,
-        apy: null
+        apy: null,
+        releasedAt: null,
+        ruleId: null,
+        rulePeriodKey: null,
+        fxRate: 1,
+        fxRateSource: null,
+        fxRateAt: null,
+        goalId: null,
+        executeAfter: null, vaultAmountWei: null
       };
 
       const anomaly = await aiInsightsService.detectAnomalies('user1', manualTransaction);
@@ -324,21 +413,52 @@ describe('AIInsightsService', () => {
     it('should predict savings goals correctly', async () => {
       const mockUser = {
         id: 'user1',
-        totalSaved: 500,
-        savingsGoal: 1000,
+        currency: 'USD',
+        totalSavedMinor: 50000,
+        goalAllocationMode: 'PRIORITY',
         savingsTransactions: [
           {
-            amount: 10,
+            amountMinor: 1000,
+            currency: 'USD',
+            fxRate: 1,
             createdAt: new Date(Date.now() - 10 * 24 * 60 * 60 * 1000) // 10 days ago
           },
           {
-            amount: 15,
+            amountMinor: 1500,
+            currency: 'USD',
+            fxRate: 1,
             createdAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000) // 5 days ago
           },
           {
-            amount: 20,
+            amountMinor: 2000,
+            currency: 'USD',
+            fxRate: 1,
             createdAt: new Date() // Today
           }
+        ],
+        savingsGoals: [
+          {
+            id: 'goal2',
+            name: 'Laptop',
+            icon: null,
+            currency: 'USD',
+            targetMinor: 100000,
+            savedMinor: 0,
+            priority: 2,
+            deadline: null,
+            allocations: []
+          },
+          {
+            id: 'goal1',
+            name: 'Emergency fund',
+            icon: null,
+            currency: 'USD',
+            targetMinor: 50000,
+            savedMinor: 40000,
+            priority: 1,
+            deadline: new Date(Date.now() - 24 * 60 * 60 * 1000),
+            allocations: []
+          }
         ]
       };
 
@@ -350,7 +470,10 @@ describe('AIInsightsService', () => {
       expect(projection.currentSavingsRate).toBeGreaterThan(0);
       expect(projection.projectedMonthly).toBeGreaterThan(0);
       expect(projection.projectedYearly).toBeGreaterThan(0);
-      expect(projection.goalAchievementDate).toBeDefined();
+      expect(projection.goals.map(goal => goal.goalId)).toEqual(['goal1', 'goal2']);
+      expect(projection.goals[1].projectedCompletionDate!.getTime())
+        .toBeGreaterThan(projection.goals[0].projectedCompletionDate!.getTime());
+      expect(projection.goals[0].onTrack).toBe(false); // Deadline already passed
       expect(projection.recommendedAdjustments).toBeDefined();
       expect(Array.isArray(projection.recommendedAdjustments)).toBe(true);
       expect(projection.confidenceLevel).toBeGreaterThan(0);
@@ -360,21 +483,25 @@ describe('AIInsightsService', () => {
     it('should handle user with no savings goal', async () => {
       const mockUser = {
         id: 'user1',
-        totalSaved: 100,
-        savingsGoal: null,
+        currency: 'USD',
+        totalSavedMinor: 10000,
+        goalAllocationMode: 'PRIORITY',
         savingsTransactions: [
           {
-            amount: 10,
+            amountMinor: 1000,
+            currency: 'USD',
+            fxRate: 1,
             createdAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000)
           }
-        ]
+        ],
+        savingsGoals: []
       };
 
       prisma.user.findUnique.mockResolvedValue(mockUser);
 
       const projection = await aiInsightsService.predictSavingsGoals('user1');
 
-      expect(projection.goalAchievementDate).toBeUndefined();
+      expect(projection.goals).toEqual([]);
       expect(projection.currentSavingsRate).toBeGreaterThan(0);
     });
 
@@ -391,7 +518,7 @@ describe('AIInsightsService', () => {
     it('should generate recommendations successfully', async () => {
       const mockUser = {
         id: 'user1',
-        totalSaved: 500,
+        totalSavedMinor: 50000,
         savingsGoal: 1000,
         monthlyTarget: 100,
         riskTolerance: 'MEDIUM',
@@ -422,20 +549,56 @@ describe('AIInsightsService', () => {
       });
     });
 
+    it('should retry replies that don\'t match the schema', async () => {
+      prisma.user.findUnique.mockResolvedValue({
+        id: 'user1',
+        totalSavedMinor: 0,
+        roundUpEnabled: true,
+        autoInvestEnabled: true,
+        savingsTransactions: []
+      });
+      setLlmProvider(new FixtureLlmProvider({ recommendations: ['1. Save more money', recommendationsReply] }));
+
+      const recommendations = await aiInsightsService.generateRecommendations('user1');
+
+      expect(recommendations.map(rec => rec.title)).toEqual(['Cut Back on Dining']);
+      expect(prisma.llmUsage.create).toHaveBeenCalledTimes(2);
+    });
+
+    it('should leave out recommendations the user has dismissed', async () => {
+      prisma.user.findUnique.mockResolvedValue({
+        id: 'user1',
+        totalSavedMinor: 0,
+        savingsTransactions: []
+      });
+      const [recommendation] = await aiInsightsService.generateRecommendations('user1');
+      prisma.recommendationFeedback.findMany.mockResolvedValueOnce([{
+        recommendationId: recommendation.id,
+        title: recommendation.title,
+        status: 'DISMISSED',
+        snoozedUntil: null
+      }]);
+
+      const recommendations = await aiInsightsService.generateRecommendations('user1');
+
+      expect(recommendations.map(rec => rec.id)).not.toContain(recommendation.id);
+      expect(recommendations[0].title).toBe('Enable Round-up Savings'); // Fallbacks fill in
+    });
+
     it('should return fallback recommendations on AI failure', async () => {
       const mockUser = {
         id: 'user1',
-        totalSaved: 0,
+        totalSavedMinor: 0,
         savingsGoal: null,
         savingsTransactions: []
       };
 
       prisma.user.findUnique.mockResolvedValue(mockUser);
 
-      // Mock OpenAI to throw an error
-      const OpenAI = require('openai').default;
-      const mockOpenAI = new OpenAI();
-      mockOpenAI.chat.completions.create.mockRejectedValue(new Error('API Error'));
+      setLlmProvider({
+        name: 'failing',
+        complete: () => Promise.reject(new Error('API Error'))
+      });
 
       const recommendations = await aiInsightsService.generateRecommendations('user1');
 
@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeAll } from '@jest/globals';
+import jwt from 'jsonwebtoken';
+import {
+  CHALLENGE_INVITE_LIMITS,
+  checkJoinLink,
+  getInviteStatus,
+  validateJoinLinkOptions
+} from '../lib/gamification/challengeInvites';
+import {
+  signChallengeInviteToken,
+  verifyChallengeInviteToken
+} from '../lib/security/inviteTokens';
+
+const now = new Date('2026-03-10T12:00:00Z');
+const tomorrow = new Date('2026-03-11T12:00:00Z');
+const yesterday = new Date('2026-03-09T12:00:00Z');
+
+describe('Challenge invites', () => {
+  beforeAll(() => {
+    process.env.JWT_SECRET = 'test-secret';
+  });
+
+  it('should expire pending invites past their expiry', () => {
+    expect(getInviteStatus({ status: 'PENDING', expiresAt: tomorrow }, now)).toBe('PENDING');
+    expect(getInviteStatus({ status: 'PENDING', expiresAt: yesterday }, now)).toBe('EXPIRED');
+    expect(getInviteStatus({ status: 'ACCEPTED', expiresAt: yesterday }, now)).toBe('ACCEPTED');
+  });
+
+  it('should only accept usable join links', () => {
+    const link = { status: 'PENDING' as const, expiresAt: tomorrow, uses: 2, maxUses: 3 };
+
+    expect(checkJoinLink(link, now)).toBeNull();
+    expect(checkJoinLink({ ...link, maxUses: null, uses: 500 }, now)).toBeNull();
+    expect(checkJoinLink({ ...link, uses: 3 }, now)).toBe('Invite link has been used up');
+    expect(checkJoinLink({ ...link, expiresAt: yesterday }, now)).toBe('Invite link has expired');
+    expect(checkJoinLink({ ...link, status: 'EXPIRED' }, now)).toBe('Invite link has expired');
+  });
+
+  it('should validate join link options', () => {
+    expect(validateJoinLinkOptions({})).toBeNull();
+    expect(validateJoinLinkOptions({ expiresInDays: 7, maxUses: 10 })).toBeNull();
+    expect(validateJoinLinkOptions({ expiresInDays: 0 })).toMatch('days');
+    expect(validateJoinLinkOptions({ expiresInDays: CHALLENGE_INVITE_LIMITS.LINK_EXPIRY_DAYS + 1 })).toMatch('days');
+    expect(validateJoinLinkOptions({ maxUses: 0 })).toMatch('times');
+  });
+
+  it('should round-trip signed join link tokens', () => {
+    const token = signChallengeInviteToken(
+      { inviteId: 'invite-1', challengeId: 'challenge-1' },
+      new Date(Date.now() + 60 * 60 * 1000)
+    );
+
+    expect(verifyChallengeInviteToken(token)).toEqual({ inviteId: 'invite-1', challengeId: 'challenge-1' });
+  });
+
+  it('should reject forged, expired and foreign tokens', () => {
+    const payload = { inviteId: 'invite-1', challengeId: 'challenge-1' };
+    const token = signChallengeInviteToken(payload, new Date(Date.now() + 60 * 60 * 1000));
+    const [header, , signature] = token.split('.');
+    const tampered = Buffer.from(JSON.stringify({ ...payload, challengeId: 'challenge-2' })).toString('base64url');
+
+    expect(verifyChallengeInviteToken(`${header}.${tampered}.${signature}`)).toBeNull();
+    expect(verifyChallengeInviteToken(signChallengeInviteToken(payload, new Date(Date.now() - 1000)))).toBeNull();
+    expect(verifyChallengeInviteToken(jwt.sign({ userId: 'user-1' }, 'test-secret'))).toBeNull();
+    expect(verifyChallengeInviteToken(jwt.sign({ ...payload, purpose: 'challenge_invite' }, 'other-secret'))).toBeNull();
+  });
+});
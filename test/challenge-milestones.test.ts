@@ -0,0 +1,91 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  DEFAULT_MILESTONE_PERCENTS,
+  MILESTONE_LIMITS,
+  MIN_MILESTONE_TARGETS,
+  RANK_TIER_REWARDS,
+  calculateRankRewards,
+  getChallengeMilestones,
+  getRankTier,
+  getReachedMilestones,
+  hasRankedField,
+  validateMilestones
+} from '../lib/gamification/challengeMilestones';
+
+describe('Challenge milestones', () => {
+  it('should ship valid default milestones', () => {
+    expect(validateMilestones(DEFAULT_MILESTONE_PERCENTS, 'SAVINGS_AMOUNT', 200)).toBeNull();
+    expect(getChallengeMilestones('SAVINGS_AMOUNT', 200)).toEqual([
+      { percent: 25, points: 25 },
+      { percent: 50, points: 50 },
+      { percent: 75, points: 75 },
+      { percent: 100, points: MILESTONE_LIMITS.TARGET_POINTS }
+    ]);
+  });
+
+  it('should validate milestones', () => {
+    expect(validateMilestones([], 'SAVINGS_AMOUNT', 200)).toBeNull();
+    expect(validateMilestones([0], 'SAVINGS_AMOUNT', 200)).toMatch('percent');
+    expect(validateMilestones([101], 'SAVINGS_AMOUNT', 200)).toMatch('percent');
+    expect(validateMilestones([50, 50], 'SAVINGS_AMOUNT', 200)).toMatch('ascending');
+    expect(validateMilestones([50], 'SAVINGS_AMOUNT', null)).toMatch('need a target amount');
+
+    const tooMany = Array.from({ length: MILESTONE_LIMITS.MAX_MILESTONES + 1 }, (_, i) => i + 1);
+    expect(validateMilestones(tooMany, 'SAVINGS_AMOUNT', 200)).toMatch('at most');
+  });
+
+  it('should only give milestones to challenges with a big enough target', () => {
+    const minTarget = MIN_MILESTONE_TARGETS.SAVINGS_AMOUNT;
+
+    expect(validateMilestones([50], 'SAVINGS_AMOUNT', minTarget - 1)).toMatch(`at least ${minTarget}`);
+    expect(getChallengeMilestones('SAVINGS_AMOUNT', minTarget - 1)).toEqual([]);
+    expect(getChallengeMilestones('STREAK', MIN_MILESTONE_TARGETS.STREAK, [50])).toEqual([{ percent: 50, points: 50 }]);
+    expect(getChallengeMilestones('SOCIAL', null)).toEqual([]);
+  });
+
+  it('should find the milestones progress has reached', () => {
+    const reached = (progress: number) =>
+      getReachedMilestones(getChallengeMilestones('SAVINGS_AMOUNT', 200), progress, 200).map(m => m.percent);
+
+    expect(reached(0)).toEqual([]);
+    expect(reached(49.99)).toEqual([]);
+    expect(reached(50)).toEqual([25]);
+    expect(reached(100)).toEqual([25, 50]);
+    expect(reached(250)).toEqual([25, 50, 75, 100]);
+  });
+
+  it('should place finishers in rank tiers', () => {
+    expect(getRankTier(1, 20, 10)).toBe('WINNER');
+    expect(getRankTier(3, 20, 10)).toBe('PODIUM');
+    expect(getRankTier(5, 20, 10)).toBe('TOP_QUARTER');
+    expect(getRankTier(6, 20, 10)).toBe('FINISHER');
+    expect(getRankTier(1, 20, 0)).toBeNull();
+  });
+
+  it('should reward every finisher, sharing positions on ties', () => {
+    const points = (tier: string) => RANK_TIER_REWARDS.find(reward => reward.tier === tier)!.points;
+
+    expect(calculateRankRewards([
+      { id: 'c', progress: 40 },
+      { id: 'a', progress: 80 },
+      { id: 'b', progress: 80 },
+      { id: 'd', progress: 10 },
+      { id: 'e', progress: 0 }
+    ])).toEqual([
+      { id: 'a', position: 1, tier: 'WINNER', points: points('WINNER') },
+      { id: 'b', position: 1, tier: 'WINNER', points: points('WINNER') },
+      { id: 'c', position: 3, tier: 'PODIUM', points: points('PODIUM') },
+      { id: 'd', position: 4, tier: 'FINISHER', points: points('FINISHER') }
+    ]);
+
+    expect(calculateRankRewards([])).toEqual([]);
+  });
+
+  it('should only pay rank rewards to a big enough field', () => {
+    const field = Array.from({ length: MILESTONE_LIMITS.MIN_RANKED_PARTICIPANTS }, () => 10);
+
+    expect(hasRankedField(field)).toBe(true);
+    expect(hasRankedField(field.slice(1))).toBe(false);
+    expect(hasRankedField([...field.slice(1), 0, 0])).toBe(false);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  ChallengeActivity,
+  calculateChallengeProgress,
+  getChallengeTarget,
+  getChallengeWindow,
+  getLongestDailyStreak,
+  isChallengeTargetMet,
+  toChallengeTarget
+} from '../lib/gamification/challengeProgress';
+
+const activity: ChallengeActivity = {
+  savedBaseMinor: 12345,
+  savingDates: [
+    new Date('2024-03-01T09:00:00Z'),
+    new Date('2024-03-02T23:59:00Z'),
+    new Date('2024-03-02T08:00:00Z'),
+    new Date('2024-03-03T00:01:00Z'),
+    new Date('2024-03-05T12:00:00Z')
+  ],
+  friendsAdded: 2
+};
+
+describe('Challenge progress', () => {
+  it('should score each challenge type from ledger activity', () => {
+    expect(calculateChallengeProgress('SAVINGS_AMOUNT', activity)).toBe(123.45);
+    expect(calculateChallengeProgress('STREAK', activity)).toBe(3);
+    expect(calculateChallengeProgress('SOCIAL', activity)).toBe(2);
+  });
+
+  it('should count the longest run of consecutive saving days', () => {
+    expect(getLongestDailyStreak([])).toBe(0);
+    expect(getLongestDailyStreak([new Date('2024-03-01T12:00:00Z')])).toBe(1);
+    expect(getLongestDailyStreak(activity.savingDates)).toBe(3);
+  });
+
+  it('should only look at the part of the challenge that has happened', () => {
+    const challenge = { startDate: new Date('2024-03-01'), endDate: new Date('2024-03-08') };
+
+    expect(getChallengeWindow(challenge, new Date('2024-02-28'))).toBeNull();
+    expect(getChallengeWindow(challenge, new Date('2024-03-04'))).toEqual({
+      start: challenge.startDate,
+      end: new Date('2024-03-04')
+    });
+    expect(getChallengeWindow(challenge, new Date('2024-04-01'))?.end).toEqual(challenge.endDate);
+  });
+
+  it('should only complete challenges that have a target', () => {
+    expect(isChallengeTargetMet(100, 100)).toBe(true);
+    expect(isChallengeTargetMet(99.99, 100)).toBe(false);
+    expect(isChallengeTargetMet(100, null)).toBe(false);
+  });
+
+  it('should store savings targets in minor units and counts as whole numbers', () => {
+    expect(toChallengeTarget('SAVINGS_AMOUNT', 1378.5)).toBe(137850);
+    expect(toChallengeTarget('STREAK', 2.5)).toBe(3);
+    expect(toChallengeTarget('SOCIAL', undefined)).toBeNull();
+
+    expect(getChallengeTarget({ type: 'SAVINGS_AMOUNT', target: 137850 })).toBe(1378.5);
+    expect(getChallengeTarget({ type: 'STREAK', target: 3 })).toBe(3);
+    expect(getChallengeTarget({ type: 'SAVINGS_AMOUNT', target: null })).toBeNull();
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  TEAM_CHALLENGE_LIMITS,
+  pickBalancedTeam,
+  rankByProgress,
+  resolveTeamNames,
+  scoreTeam,
+  validateTeamSetup,
+  validateTeamsInput
+} from '../lib/gamification/challengeTeams';
+
+describe('Challenge teams', () => {
+  it('should name teams from a count or keep the given names', () => {
+    expect(resolveTeamNames(3)).toEqual(['Team 1', 'Team 2', 'Team 3']);
+    expect(resolveTeamNames([' Savers ', 'Stackers'])).toEqual(['Savers', 'Stackers']);
+  });
+
+  it('should reject team inputs that aren\'t a sensible count or list of names', () => {
+    expect(validateTeamsInput(3)).toBeNull();
+    expect(validateTeamsInput(['Savers', 'Stackers'])).toBeNull();
+    expect(validateTeamsInput('3')).toMatch('team count or a list');
+    expect(validateTeamsInput({ length: 3 })).toMatch('team count or a list');
+    expect(validateTeamsInput(2.5)).toMatch('team count or a list');
+    expect(validateTeamsInput(1e9)).toMatch('between');
+    expect(validateTeamsInput(Array(TEAM_CHALLENGE_LIMITS.MAX_TEAMS + 1).fill('Team'))).toMatch('between');
+    expect(validateTeamsInput(['Savers', 7])).toBe('Team names must be text');
+  });
+
+  it('should validate team setups', () => {
+    expect(validateTeamSetup(['Savers', 'Stackers'], 'AVERAGE')).toBeNull();
+    expect(validateTeamSetup(['Solo'])).toMatch('between');
+    expect(validateTeamSetup(resolveTeamNames(TEAM_CHALLENGE_LIMITS.MAX_TEAMS + 1))).toMatch('between');
+    expect(validateTeamSetup(['Savers', 'savers'])).toBe('Team names must be unique');
+    expect(validateTeamSetup(['Savers', ''])).toMatch('Team names');
+    expect(validateTeamSetup(['Savers', 'Stackers'], 'MAX')).toMatch('SUM or AVERAGE');
+  });
+
+  it('should place new members on the smallest team, then the one behind', () => {
+    expect(pickBalancedTeam([])).toBeNull();
+    expect(pickBalancedTeam([
+      { id: 'a', memberCount: 3, progress: 10 },
+      { id: 'b', memberCount: 2, progress: 50 },
+      { id: 'c', memberCount: 2, progress: 20 }
+    ])).toBe('c');
+  });
+
+  it('should sum or average member progress', () => {
+    expect(scoreTeam([100, 50, 30], 'SUM')).toBe(180);
+    expect(scoreTeam([100, 50, 30], 'AVERAGE')).toBe(60);
+    expect(scoreTeam([], 'AVERAGE')).toBe(0);
+  });
+
+  it('should rank by progress and keep ties in order', () => {
+    expect(rankByProgress([
+      { id: 'a', progress: 10 },
+      { id: 'b', progress: 30 },
+      { id: 'c', progress: 10 }
+    ]).map(({ id, rank }) => [id, rank])).toEqual([['b', 1], ['a', 2], ['c', 3]]);
+  });
+});
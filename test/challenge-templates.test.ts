@@ -0,0 +1,76 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  DEFAULT_CHALLENGE_TEMPLATES,
+  getNextSeasonStart,
+  getSeasonDuration,
+  renderTemplateText,
+  summarizeSeasons,
+  validateChallengeTemplate
+} from '../lib/gamification/challengeTemplates';
+
+const template = {
+  title: 'Save $100 in {month}',
+  description: 'Put away $100',
+  type: 'SAVINGS_AMOUNT',
+  targetAmount: 100,
+  duration: 31,
+  recurrence: 'MONTHLY'
+};
+
+describe('Challenge templates', () => {
+  it('should ship valid default templates', () => {
+    for (const defaults of DEFAULT_CHALLENGE_TEMPLATES) {
+      expect(validateChallengeTemplate(defaults)).toBeNull();
+    }
+  });
+
+  it('should validate templates', () => {
+    expect(validateChallengeTemplate(template)).toBeNull();
+    expect(validateChallengeTemplate({ ...template, title: '' })).toMatch('Title');
+    expect(validateChallengeTemplate({ ...template, type: 'NO_SPEND' })).toMatch('Type');
+    expect(validateChallengeTemplate({ ...template, targetAmount: 0 })).toMatch('Target');
+    expect(validateChallengeTemplate({ ...template, duration: 400, recurrence: null })).toMatch('Duration');
+    expect(validateChallengeTemplate({ ...template, recurrence: 'DAILY' })).toMatch('WEEKLY or MONTHLY');
+    expect(validateChallengeTemplate({ ...template, recurrence: 'WEEKLY' })).toBe('Weekly challenges can last at most 7 days');
+  });
+
+  it('should schedule weekly and monthly seasons', () => {
+    expect(getNextSeasonStart(new Date('2026-03-07T00:00:00Z'), 'WEEKLY'))
+      .toEqual(new Date('2026-03-14T00:00:00Z'));
+    expect(getNextSeasonStart(new Date('2026-03-01T00:00:00Z'), 'MONTHLY'))
+      .toEqual(new Date('2026-04-01T00:00:00Z'));
+
+    // Short months fall back to their last day, then return to the anchor
+    const february = getNextSeasonStart(new Date('2026-01-31T00:00:00Z'), 'MONTHLY');
+    expect(february).toEqual(new Date('2026-02-28T00:00:00Z'));
+    expect(getNextSeasonStart(february, 'MONTHLY', 31)).toEqual(new Date('2026-03-31T00:00:00Z'));
+  });
+
+  it('should end each season before the next one starts', () => {
+    const start = new Date('2026-02-01T00:00:00Z');
+    expect(getSeasonDuration(start, getNextSeasonStart(start, 'MONTHLY'), 31)).toBe(28);
+    expect(getSeasonDuration(start, getNextSeasonStart(start, 'WEEKLY'), 2)).toBe(2);
+  });
+
+  it('should fill in template placeholders', () => {
+    expect(renderTemplateText('Save $100 in {month} {year}', new Date('2026-03-01T00:00:00Z')))
+      .toBe('Save $100 in March 2026');
+    expect(renderTemplateText('No-Spend Weekend #{season}', new Date(), 4)).toBe('No-Spend Weekend #4');
+  });
+
+  it('should compare a user with their past seasons', () => {
+    expect(summarizeSeasons([
+      { season: 3, progress: 80, rank: 2 },
+      { season: 2, progress: null, rank: null },
+      { season: 1, progress: 120, rank: 1 }
+    ])).toEqual({
+      seasonsPlayed: 2,
+      bestSeason: 1,
+      bestProgress: 120,
+      averageProgress: 100,
+      changeFromLastSeason: -40
+    });
+
+    expect(summarizeSeasons([{ season: 1, progress: null, rank: null }]).seasonsPlayed).toBe(0);
+  });
+});
@@ -280,7 +280,12 @@ describe('FriendsList', () => {
 
 describe('FriendSearch', () => {
   beforeEach(() => {
-    (fetch as jest.Mock).mockClear();
+    (fetch as jest.Mock).mockReset();
+    // Suggestions are loaded on mount
+    (fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ data: [] })
+    });
   });
 
   it('renders search interface', () => {
@@ -0,0 +1,77 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  NO_REASON,
+  RECOMMENDATION_LIMITS,
+  RECOMMENDATION_WEIGHTS,
+  RecommendationSignals,
+  explainRecommendation,
+  getRecommendationCount,
+  isSimilarLevel,
+  rankRecommendations,
+  scoreRecommendation
+} from '../lib/social/friendRecommendations';
+
+const nothing: RecommendationSignals = {
+  mutualFriends: 0,
+  sharedChallenges: [],
+  similarLevel: false,
+  sameCountry: false,
+  sameTimezone: false,
+  referral: null
+};
+
+describe('Friend recommendations', () => {
+  it('should score each signal, capping repeated ones', () => {
+    expect(scoreRecommendation(nothing)).toBe(0);
+    expect(scoreRecommendation({ ...nothing, mutualFriends: 3 })).toBe(3 * RECOMMENDATION_WEIGHTS.MUTUAL_FRIEND);
+    expect(scoreRecommendation({ ...nothing, mutualFriends: 100 }))
+      .toBe(RECOMMENDATION_LIMITS.MAX_SCORED_MUTUALS * RECOMMENDATION_WEIGHTS.MUTUAL_FRIEND);
+    expect(scoreRecommendation({
+      ...nothing,
+      sharedChallenges: ['Save-March'],
+      similarLevel: true,
+      sameCountry: true,
+      sameTimezone: true,
+      referral: 'referred_you'
+    })).toBe(
+      RECOMMENDATION_WEIGHTS.SHARED_CHALLENGE +
+      RECOMMENDATION_WEIGHTS.SIMILAR_LEVEL +
+      RECOMMENDATION_WEIGHTS.SAME_COUNTRY +
+      RECOMMENDATION_WEIGHTS.SAME_TIMEZONE +
+      RECOMMENDATION_WEIGHTS.REFERRAL
+    );
+  });
+
+  it('should explain a recommendation from its strongest signals', () => {
+    expect(explainRecommendation({ ...nothing, mutualFriends: 3, sharedChallenges: ['Save-March'] }))
+      .toBe('3 mutual friends, both in Save-March');
+    expect(explainRecommendation({ ...nothing, mutualFriends: 1 })).toBe('1 mutual friend');
+    expect(explainRecommendation({ ...nothing, sharedChallenges: ['Save-March', 'No-Spend', 'Coffee'] }))
+      .toBe('Both in Save-March and 2 more');
+    expect(explainRecommendation({ ...nothing, referral: 'you_referred', mutualFriends: 2, similarLevel: true }))
+      .toBe('Joined with your invite, 2 mutual friends');
+    expect(explainRecommendation({ ...nothing, similarLevel: true, sameCountry: true }))
+      .toBe('Similar savings level, lives in your country');
+    expect(explainRecommendation(nothing)).toBe(NO_REASON);
+  });
+
+  it('should rank best first and drop candidates with nothing in common', () => {
+    const ranked = rankRecommendations([
+      { id: 'a', signals: { ...nothing, sameTimezone: true } },
+      { id: 'b', signals: nothing },
+      { id: 'c', signals: { ...nothing, mutualFriends: 2 } },
+      { id: 'd', signals: { ...nothing, sameTimezone: true } }
+    ]);
+
+    expect(ranked.map(candidate => candidate.id)).toEqual(['c', 'a', 'd']);
+    expect(ranked[0].reason).toBe('2 mutual friends');
+    expect(rankRecommendations(ranked, 1)).toHaveLength(1);
+  });
+
+  it('should compare levels and clamp counts', () => {
+    expect(isSimilarLevel(4, 5)).toBe(true);
+    expect(isSimilarLevel(4, 6)).toBe(false);
+    expect(getRecommendationCount()).toBe(RECOMMENDATION_LIMITS.DEFAULT_COUNT);
+    expect(getRecommendationCount(1000)).toBe(RECOMMENDATION_LIMITS.MAX_COUNT);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect, afterEach } from '@jest/globals';
+import {
+  BASE_DISPLAY_RATE,
+  fromBaseMinor,
+  sumInDisplayCurrency,
+  toDisplayMinor
+} from '../lib/fx/conversion';
+import {
+  FixtureFxRateProvider,
+  FxRateProvider,
+  getDisplayRate,
+  getFxRateProvider,
+  getFxSnapshot,
+  registerFxRateProvider,
+  setFxRateProvider
+} from '../lib/fx/providers';
+
+describe('FX', () => {
+  afterEach(() => {
+    setFxRateProvider(null);
+    delete process.env.FX_RATE_PROVIDER;
+  });
+
+  describe('FixtureFxRateProvider', () => {
+    const provider = new FixtureFxRateProvider();
+
+    it('should derive cross rates through USD', async () => {
+      const rate = await provider.getRate('eur', 'GBP');
+
+      expect(rate.from).toBe('EUR');
+      expect(rate.to).toBe('GBP');
+      expect(rate.rate).toBeCloseTo(0.79 / 0.92, 10);
+      expect(rate.source).toBe('fixture');
+    });
+
+    it('should reject unsupported currencies', async () => {
+      expect(provider.supports('JPY')).toBe(true);
+      expect(provider.supports('XYZ')).toBe(false);
+      await expect(provider.getRate('USD', 'XYZ')).rejects.toThrow('No FX rate for USD to XYZ');
+    });
+  });
+
+  describe('snapshots', () => {
+    it('should not record a source for base currency amounts', async () => {
+      const now = new Date('2024-01-15T12:00:00Z');
+
+      expect(await getFxSnapshot('USD', now)).toEqual({ fxRate: 1, fxRateSource: null, fxRateAt: now });
+    });
+
+    it('should record the rate to the base currency', async () => {
+      const snapshot = await getFxSnapshot('EUR');
+
+      expect(snapshot.fxRate).toBeCloseTo(1 / 0.92, 10);
+      expect(snapshot.fxRateSource).toBe('fixture');
+    });
+  });
+
+  describe('display conversion', () => {
+    it('should pass amounts in the display currency through unchanged', () => {
+      expect(toDisplayMinor({ minor: 1234, currency: 'EUR', fxRate: 1.2 }, { currency: 'EUR', rate: 0.92 })).toBe(1234);
+    });
+
+    it('should convert with the snapshot rate and round the total once', async () => {
+      const total = sumInDisplayCurrency([
+        { minor: 1000, currency: 'EUR', fxRate: 1.1 },
+        { minor: 1000, currency: 'EUR', fxRate: 1.1 },
+        { minor: 250, currency: 'USD', fxRate: 1 }
+      ], BASE_DISPLAY_RATE);
+
+      expect(total).toEqual({ minor: 2450, currency: 'USD' });
+    });
+
+    it('should round to the exponent of the display currency', async () => {
+      const display = await getDisplayRate('JPY');
+
+      expect(display).toEqual({ currency: 'JPY', rate: 150 });
+      expect(sumInDisplayCurrency([{ minor: 333, currency: 'USD', fxRate: 1 }], display)).toEqual({
+        minor: 500,
+        currency: 'JPY'
+      });
+      expect(fromBaseMinor(101, display)).toBe(152);
+    });
+  });
+
+  describe('provider selection', () => {
+    it('should use the provider named by FX_RATE_PROVIDER', () => {
+      const custom: FxRateProvider = new FixtureFxRateProvider({ USD: 1, EUR: 0.5 });
+      registerFxRateProvider('custom', () => custom);
+      process.env.FX_RATE_PROVIDER = 'custom';
+
+      expect(getFxRateProvider()).toBe(custom);
+    });
+
+    it('should reject unknown providers', () => {
+      process.env.FX_RATE_PROVIDER = 'missing';
+
+      expect(() => getFxRateProvider()).toThrow('Unknown FX rate provider: missing');
+    });
+  });
+});
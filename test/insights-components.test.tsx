@@ -106,7 +106,17 @@ const mockSavingsProjection = {
   currentSavingsRate: 5.25,
   projectedMonthly: 157.50,
   projectedYearly: 1890.00,
-  goalAchievementDate: new Date('2024-12-15'),
+  goals: [
+    {
+      goalId: 'goal1',
+      name: 'Emergency fund',
+      icon: null,
+      targetAmount: 1000,
+      savedAmount: 400,
+      projectedCompletionDate: new Date('2024-12-15'),
+      onTrack: true
+    }
+  ],
   recommendedAdjustments: [
     'Increase round-up amount to $2.00 per transaction',
     'Set up weekly automatic transfers of $25',
@@ -0,0 +1,72 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  LEAGUE_LIMITS,
+  getLeagueOutcome,
+  getLeagueWeekEnd,
+  getLeagueWeekStart,
+  getLeagueZoneSizes,
+  getLevelBand,
+  getNextTier,
+  rankLeague
+} from '../lib/gamification/leagues';
+
+function cohort(points: number[]) {
+  return points.map((p, index) => ({ id: `user-${index + 1}`, points: p }));
+}
+
+describe('Leagues', () => {
+  it('should run weeks from Monday to Monday in UTC', () => {
+    const start = getLeagueWeekStart(new Date('2024-03-10T23:30:00Z')); // Sunday
+
+    expect(start.toISOString()).toBe('2024-03-04T00:00:00.000Z');
+    expect(getLeagueWeekStart(new Date('2024-03-11T00:00:00Z')).toISOString()).toBe('2024-03-11T00:00:00.000Z');
+    expect(getLeagueWeekEnd(start).toISOString()).toBe('2024-03-11T00:00:00.000Z');
+  });
+
+  it('should group levels into bands', () => {
+    expect(getLevelBand(1)).toBe(0);
+    expect(getLevelBand(4)).toBe(1);
+    expect(getLevelBand(7)).toBe(2);
+    expect(getLevelBand(10)).toBe(3);
+  });
+
+  it('should size the zones by tier and cohort', () => {
+    expect(getLeagueZoneSizes('SILVER', LEAGUE_LIMITS.COHORT_SIZE)).toEqual({
+      promotion: LEAGUE_LIMITS.PROMOTION_COUNT,
+      relegation: LEAGUE_LIMITS.RELEGATION_COUNT
+    });
+    expect(getLeagueZoneSizes('BRONZE', 30).relegation).toBe(0);
+    expect(getLeagueZoneSizes('DIAMOND', 30).promotion).toBe(0);
+    expect(getLeagueZoneSizes('GOLD', 3)).toEqual({ promotion: 2, relegation: 1 });
+    expect(getLeagueZoneSizes('GOLD', 1)).toEqual({ promotion: 1, relegation: 0 });
+  });
+
+  it('should rank by points with shared ranks for ties', () => {
+    const ranked = rankLeague('GOLD', cohort([10, 50, 30, 30, 0, 5]));
+
+    expect(ranked.map(s => s.id)).toEqual(['user-2', 'user-3', 'user-4', 'user-1', 'user-6', 'user-5']);
+    expect(ranked.map(s => s.rank)).toEqual([1, 2, 2, 4, 5, 6]);
+    expect(ranked.map(s => s.zone)).toEqual([
+      'promotion', 'promotion', 'promotion', 'relegation', 'relegation', 'relegation'
+    ]);
+  });
+
+  it('should not promote members who earned nothing', () => {
+    const ranked = rankLeague('SILVER', cohort([20, 0, 0, 0]));
+
+    expect(ranked.filter(s => s.zone === 'promotion').map(s => s.id)).toEqual(['user-1']);
+    expect(ranked.filter(s => s.zone === 'relegation')).toHaveLength(2);
+  });
+
+  it('should move members between tiers by outcome', () => {
+    const [top, , bottom] = rankLeague('SILVER', cohort([30, 20, 10]));
+
+    expect(getLeagueOutcome(top)).toBe('PROMOTED');
+    expect(getLeagueOutcome(bottom)).toBe('RELEGATED');
+    expect(getNextTier('SILVER', 'PROMOTED')).toBe('GOLD');
+    expect(getNextTier('SILVER', 'RELEGATED')).toBe('BRONZE');
+    expect(getNextTier('DIAMOND', 'PROMOTED')).toBe('DIAMOND');
+    expect(getNextTier('BRONZE', 'RELEGATED')).toBe('BRONZE');
+    expect(getNextTier('GOLD', 'STAYED')).toBe('GOLD');
+  });
+});
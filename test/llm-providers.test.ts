@@ -0,0 +1,145 @@
+import { describe, it, expect, afterEach, jest } from '@jest/globals';
+import { mkdtempSync, readFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  FixtureLlmProvider,
+  LlmProvider,
+  LlmRequest,
+  LocalLlmProvider,
+  RecordingLlmProvider,
+  estimateTokens,
+  getJsonResponseFormat,
+  getLlmCost,
+  getLlmProvider,
+  registerLlmProvider,
+  setLlmProvider
+} from '../lib/ai/providers';
+
+const insightsRequest: LlmRequest<'spending_insights'> = {
+  task: 'spending_insights',
+  context: {
+    categories: [{ category: 'Food & Dining', amount: 120, percentage: 60 }],
+    spendingVelocity: 'increasing'
+  },
+  messages: [{ role: 'user', content: 'Summarise my spending' }]
+};
+
+const recommendationsRequest: LlmRequest<'recommendations'> = {
+  task: 'recommendations',
+  context: {
+    roundUpEnabled: false,
+    autoInvestEnabled: true,
+    monthlyTarget: 200,
+    savingsGoal: null,
+    totalSpent: 200,
+    categories: [{ category: 'Shopping', amount: 80, percentage: 40 }],
+    spendingVelocity: 'stable'
+  },
+  messages: [{ role: 'user', content: 'Recommend something' }]
+};
+
+describe('LLM providers', () => {
+  afterEach(() => {
+    setLlmProvider(null);
+    delete process.env.LLM_PROVIDER;
+  });
+
+  describe('LocalLlmProvider', () => {
+    const provider = new LocalLlmProvider();
+
+    it('should reply the same way every time at no cost', async () => {
+      const first = await provider.complete(insightsRequest);
+      const second = await provider.complete(insightsRequest);
+
+      expect(first.content).toBe(second.content);
+      expect(first.content).toContain('Food & Dining');
+      expect(first.content).toContain('increasing');
+      expect(first.usage.costUsd).toBe(0);
+      expect(first.usage.completionTokens).toBe(estimateTokens(first.content));
+    });
+
+    it('should build recommendations from the user\'s settings', async () => {
+      const { content } = await provider.complete(recommendationsRequest);
+      const keys = JSON.parse(content).recommendations.map((r: { key: string }) => r.key);
+
+      expect(keys).toEqual(['enable-round-ups', 'cut-back-Shopping', 'raise-savings-target']);
+    });
+  });
+
+  describe('FixtureLlmProvider', () => {
+    it('should replay recorded replies in order, repeating the last', async () => {
+      const provider = new FixtureLlmProvider({ spending_insights: ['first', 'second'] });
+
+      expect((await provider.complete(insightsRequest)).content).toBe('first');
+      expect((await provider.complete(insightsRequest)).content).toBe('second');
+      expect((await provider.complete(insightsRequest)).content).toBe('second');
+    });
+
+    it('should fail for tasks without a recording', async () => {
+      const provider = new FixtureLlmProvider({});
+
+      await expect(provider.complete(recommendationsRequest)).rejects.toThrow('No recorded LLM reply for recommendations');
+    });
+
+    it('should replay what the recording provider saved', async () => {
+      const path = join(mkdtempSync(join(tmpdir(), 'llm-')), 'fixtures.json');
+      const recorder = new RecordingLlmProvider(new LocalLlmProvider(), path);
+
+      const recorded = await recorder.complete(insightsRequest);
+      const fixtures = JSON.parse(readFileSync(path, 'utf8'));
+
+      expect(fixtures.spending_insights).toEqual([recorded.content]);
+      expect((await new FixtureLlmProvider(fixtures).complete(insightsRequest)).content).toBe(recorded.content);
+    });
+  });
+
+  describe('cost', () => {
+    it('should price tokens by the longest matching model prefix', () => {
+      expect(getLlmCost('gpt-4-0613', 1000, 500)).toBeCloseTo((1000 * 30 + 500 * 60) / 1_000_000, 10);
+      expect(getLlmCost('gpt-4o-mini-2024-07-18', 1_000_000, 0)).toBeCloseTo(0.15, 10);
+      expect(getLlmCost('gpt-4.1-2025-04-14', 1_000_000, 0)).toBeCloseTo(2, 10);
+      expect(getLlmCost('gpt-5-mini', 0, 1_000_000)).toBeCloseTo(2, 10);
+      expect(getLlmCost('o4-mini', 1_000_000, 0)).toBeCloseTo(1.1, 10);
+    });
+
+    it('should leave models without a price unpriced rather than free', () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      expect(getLlmCost('gpt-4.5-preview', 1000, 1000)).toBeNull();
+      expect(getLlmCost('some-local-model', 1000, 1000)).toBeNull();
+      expect(warn).toHaveBeenCalledTimes(2);
+
+      warn.mockRestore();
+    });
+  });
+
+  describe('response format', () => {
+    const schema = { name: 'reply', schema: { type: 'object' } };
+
+    it('should only ask models that support it to follow the schema', () => {
+      expect(getJsonResponseFormat('gpt-4o-mini', schema)).toEqual({
+        type: 'json_schema',
+        json_schema: { ...schema, strict: true }
+      });
+      expect(getJsonResponseFormat('gpt-4-turbo', schema)).toEqual({ type: 'json_object' });
+      expect(getJsonResponseFormat('gpt-4', schema)).toBeUndefined();
+    });
+  });
+
+  describe('provider selection', () => {
+    it('should use the provider named by LLM_PROVIDER', () => {
+      const custom: LlmProvider = new FixtureLlmProvider({});
+      registerLlmProvider('custom', () => custom);
+      process.env.LLM_PROVIDER = 'custom';
+
+      expect(getLlmProvider()).toBe(custom);
+    });
+
+    it('should reject unknown providers', () => {
+      process.env.LLM_PROVIDER = 'missing';
+
+      expect(() => getLlmProvider()).toThrow('Unknown LLM provider: missing');
+    });
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  MESSAGE_LIMITS,
+  getDirectConversationKey,
+  getMessagePageSize,
+  validateMessageBody
+} from '../lib/social/messaging';
+
+describe('Messaging', () => {
+  it('should key direct conversations the same either way round', () => {
+    expect(getDirectConversationKey('user-b', 'user-a')).toBe('user-a:user-b');
+    expect(getDirectConversationKey('user-a', 'user-b')).toBe('user-a:user-b');
+  });
+
+  it('should validate message bodies', () => {
+    expect(validateMessageBody('Nice saving streak!')).toBeNull();
+    expect(validateMessageBody('   ')).toBe('Message cannot be empty');
+    expect(validateMessageBody(undefined)).toBe('Message cannot be empty');
+    expect(validateMessageBody(42)).toBe('Message cannot be empty');
+    expect(validateMessageBody('a'.repeat(MESSAGE_LIMITS.MAX_LENGTH))).toBeNull();
+    expect(validateMessageBody('a'.repeat(MESSAGE_LIMITS.MAX_LENGTH + 1))).toMatch('at most');
+  });
+
+  it('should clamp history page sizes', () => {
+    expect(getMessagePageSize()).toBe(MESSAGE_LIMITS.DEFAULT_PAGE_SIZE);
+    expect(getMessagePageSize(0)).toBe(MESSAGE_LIMITS.DEFAULT_PAGE_SIZE);
+    expect(getMessagePageSize(-5)).toBe(MESSAGE_LIMITS.DEFAULT_PAGE_SIZE);
+    expect(getMessagePageSize(NaN)).toBe(MESSAGE_LIMITS.DEFAULT_PAGE_SIZE);
+    expect(getMessagePageSize(12.7)).toBe(12);
+    expect(getMessagePageSize(1000)).toBe(MESSAGE_LIMITS.MAX_PAGE_SIZE);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  money,
+  moneyFromMinor,
+  toMinorUnits,
+  fromMinorUnits,
+  getCurrencyExponent,
+  addMoney,
+  sumMoney,
+  percentOf,
+  toMoneyJSON
+} from '../lib/utils/money';
+import { formatCurrency } from '../lib/utils/helpers';
+
+describe('Money', () => {
+  describe('minor units', () => {
+    it('should convert without floating-point drift', () => {
+      expect(toMinorUnits(1.005)).toBe(101);
+      expect(toMinorUnits(0.1 + 0.2)).toBe(30);
+      expect(toMinorUnits(-2.675)).toBe(-268);
+      expect(fromMinorUnits(10050)).toBe(100.5);
+    });
+
+    it('should use the exponent of the currency', () => {
+      expect(getCurrencyExponent('USD')).toBe(2);
+      expect(getCurrencyExponent('JPY')).toBe(0);
+      expect(money(1234.5, 'JPY')).toEqual({ minor: 1235, currency: 'JPY' });
+      expect(fromMinorUnits(1235, 'JPY')).toBe(1235);
+    });
+
+    it('should convert amounts JavaScript prints in exponent form', () => {
+      expect(toMinorUnits(1e-7)).toBe(0);
+      expect(toMinorUnits(5e-3)).toBe(1);
+      expect(toMinorUnits(1e13)).toBe(1e15);
+      expect(fromMinorUnits(1e21)).toBe(1e19);
+      expect(fromMinorUnits(1, 'KWD')).toBe(0.001);
+    });
+
+    it('should reject invalid amounts', () => {
+      expect(() => toMinorUnits(NaN)).toThrow('Invalid money amount');
+      expect(() => toMinorUnits(Infinity)).toThrow('Invalid money amount');
+      expect(() => toMinorUnits(1e21)).toThrow('Money amount is too large');
+      expect(() => moneyFromMinor(1.5)).toThrow('Minor units must be an integer');
+    });
+  });
+
+  describe('arithmetic', () => {
+    it('should sum exactly', () => {
+      const total = sumMoney([money(0.1), money(0.2), money(0.3)]);
+
+      expect(total.minor).toBe(60);
+      expect(toMoneyJSON(total)).toEqual({ amount: 0.6, currency: 'USD' });
+    });
+
+    it('should round percentages to the nearest minor unit', () => {
+      expect(percentOf(money(12.30), 5).minor).toBe(62);
+    });
+
+    it('should not mix currencies', () => {
+      expect(() => addMoney(money(1), money(1, 'EUR'))).toThrow('Currency mismatch: USD and EUR');
+    });
+  });
+
+  describe('formatCurrency', () => {
+    it('should format numbers and money the same way', () => {
+      expect(formatCurrency(1234.5)).toBe('$1,234.50');
+      expect(formatCurrency(money(1234.5))).toBe('$1,234.50');
+      expect(formatCurrency(moneyFromMinor(500, 'JPY'))).toBe('¥500');
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  MAX_LEVEL,
+  POINTS_LIMITS,
+  getLevelProgress,
+  getPointsPageSize,
+  validateAdjustment,
+  withRunningBalance
+} from '../lib/gamification/points';
+import { LEVEL_THRESHOLDS } from '../lib/utils/constants';
+import { calculateLevel } from '../lib/utils/helpers';
+
+describe('Points ledger', () => {
+  it('should calculate levels from the shared thresholds', () => {
+    expect(calculateLevel(0)).toBe(1);
+    expect(calculateLevel(99)).toBe(1);
+    expect(calculateLevel(100)).toBe(2);
+    expect(calculateLevel(LEVEL_THRESHOLDS[LEVEL_THRESHOLDS.length - 1])).toBe(MAX_LEVEL);
+    expect(calculateLevel(1000000)).toBe(MAX_LEVEL);
+  });
+
+  it('should show progress toward the next level', () => {
+    expect(getLevelProgress(0)).toEqual({ level: 1, levelPoints: 0, nextLevelPoints: 100, progress: 0 });
+    expect(getLevelProgress(200)).toEqual({ level: 2, levelPoints: 100, nextLevelPoints: 300, progress: 50 });
+    expect(getLevelProgress(100000)).toMatchObject({ level: MAX_LEVEL, nextLevelPoints: null, progress: 100 });
+  });
+
+  it('should validate admin adjustments', () => {
+    expect(validateAdjustment(50, 'Goodwill after outage')).toBeNull();
+    expect(validateAdjustment(-50, 'Reverse duplicate award')).toBeNull();
+    expect(validateAdjustment(0, 'Nothing')).toMatch('whole number');
+    expect(validateAdjustment(1.5, 'Half')).toMatch('whole number');
+    expect(validateAdjustment(POINTS_LIMITS.MAX_ADJUSTMENT + 1, 'Too much')).toMatch('limited');
+    expect(validateAdjustment(50, '  ')).toMatch('note');
+    expect(validateAdjustment(50, 'x'.repeat(POINTS_LIMITS.MAX_NOTE_LENGTH + 1))).toMatch('at most');
+  });
+
+  it('should work back the balance after each entry', () => {
+    const entries = [{ id: 'c', amount: -200 }, { id: 'b', amount: 50 }, { id: 'a', amount: 100 }];
+
+    expect(withRunningBalance(entries, 350).map(entry => entry.balanceAfter)).toEqual([350, 550, 500]);
+    expect(withRunningBalance([], 10)).toEqual([]);
+  });
+
+  it('should clamp history page sizes', () => {
+    expect(getPointsPageSize()).toBe(POINTS_LIMITS.DEFAULT_PAGE_SIZE);
+    expect(getPointsPageSize(0)).toBe(POINTS_LIMITS.DEFAULT_PAGE_SIZE);
+    expect(getPointsPageSize(5.7)).toBe(5);
+    expect(getPointsPageSize(10000)).toBe(POINTS_LIMITS.MAX_PAGE_SIZE);
+  });
+});
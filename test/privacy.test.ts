@@ -0,0 +1,119 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  ANONYMOUS_USERNAME,
+  PRIVACY_SETTINGS,
+  anonymizeEntry,
+  canViewActivity,
+  getPrivacySettingsShowing,
+  getProfileVisibility,
+  isProfileHidden,
+  redactProfile
+} from '../lib/social/privacy';
+
+const profile = {
+  id: 'u1',
+  username: 'saver',
+  firstName: 'Sam',
+  lastName: 'Lee',
+  profileImage: 'sam.png',
+  bio: 'Saving for a bike',
+  level: 4,
+  totalPoints: 900,
+  currentStreak: 3,
+  longestStreak: 10,
+  totalSaved: 250,
+  currency: 'USD',
+  privacyLevel: 'FRIENDS'
+};
+
+describe('Privacy policy', () => {
+  it('should show everything to the user themselves', () => {
+    for (const privacy of PRIVACY_SETTINGS) {
+      expect(Object.values(getProfileVisibility(privacy, 'self')).every(Boolean)).toBe(true);
+    }
+  });
+
+  it('should show nothing to blocked users', () => {
+    for (const privacy of PRIVACY_SETTINGS) {
+      const visibility = getProfileVisibility(privacy, 'blocked');
+      expect(Object.values(visibility).some(Boolean)).toBe(false);
+      expect(isProfileHidden(visibility)).toBe(true);
+    }
+  });
+
+  it('should show public profiles to everyone', () => {
+    expect(Object.values(getProfileVisibility('PUBLIC', 'none')).every(Boolean)).toBe(true);
+    expect(Object.values(getProfileVisibility('PUBLIC', 'friend')).every(Boolean)).toBe(true);
+  });
+
+  it('should show friends-only profiles to friends and the username to strangers', () => {
+    expect(Object.values(getProfileVisibility('FRIENDS', 'friend')).every(Boolean)).toBe(true);
+    expect(getProfileVisibility('FRIENDS', 'none')).toEqual({
+      listed: true,
+      identity: false,
+      stats: false,
+      amounts: false,
+      achievements: false,
+      activity: false
+    });
+  });
+
+  it('should only show who private users are, and only to friends', () => {
+    expect(getProfileVisibility('PRIVATE', 'friend')).toEqual({
+      listed: false,
+      identity: true,
+      stats: false,
+      amounts: false,
+      achievements: false,
+      activity: false
+    });
+    expect(isProfileHidden(getProfileVisibility('PRIVATE', 'friend'))).toBe(false);
+    expect(isProfileHidden(getProfileVisibility('PRIVATE', 'none'))).toBe(true);
+  });
+
+  it('should apply the policy to activity', () => {
+    expect(canViewActivity('PUBLIC', 'none')).toBe(true);
+    expect(canViewActivity('PUBLIC', 'blocked')).toBe(false);
+    expect(canViewActivity('FRIENDS', 'friend')).toBe(true);
+    expect(canViewActivity('FRIENDS', 'none')).toBe(false);
+    expect(canViewActivity('PRIVATE', 'friend')).toBe(false);
+    expect(canViewActivity('PRIVATE', 'self')).toBe(true);
+  });
+
+  it('should list the settings that show a field, for queries', () => {
+    expect(getPrivacySettingsShowing('listed', 'none')).toEqual(['PUBLIC', 'FRIENDS']);
+    expect(getPrivacySettingsShowing('identity', 'none')).toEqual(['PUBLIC']);
+    expect(getPrivacySettingsShowing('identity', 'friend')).toEqual(PRIVACY_SETTINGS);
+    expect(getPrivacySettingsShowing('activity', 'blocked')).toEqual([]);
+  });
+
+  it('should redact profile fields per level', () => {
+    expect(redactProfile(profile, getProfileVisibility('PUBLIC', 'none'))).toEqual(
+      Object.fromEntries(Object.entries(profile).filter(([field]) => field !== 'privacyLevel'))
+    );
+    expect(redactProfile(profile, getProfileVisibility('FRIENDS', 'none'))).toEqual({ id: 'u1', username: 'saver' });
+    expect(redactProfile(profile, getProfileVisibility('PRIVATE', 'friend'))).toEqual({
+      id: 'u1',
+      username: 'saver',
+      firstName: 'Sam',
+      lastName: 'Lee',
+      profileImage: 'sam.png',
+      bio: 'Saving for a bike'
+    });
+  });
+
+  it('should anonymize leaderboard entries whose stats are hidden', () => {
+    const entry = { userId: 'u1', username: 'saver', firstName: 'Sam', profileImage: 'sam.png', totalPoints: 900 };
+
+    expect(anonymizeEntry(entry, getProfileVisibility('PUBLIC', 'none'))).toBe(entry);
+    expect(anonymizeEntry(entry, getProfileVisibility('FRIENDS', 'none'))).toEqual({
+      userId: 'u1',
+      username: ANONYMOUS_USERNAME,
+      firstName: undefined,
+      lastName: undefined,
+      profileImage: undefined,
+      totalPoints: 900
+    });
+    expect(anonymizeEntry(entry, getProfileVisibility('PRIVATE', 'friend')).username).toBe(ANONYMOUS_USERNAME);
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  RECOMMENDATION_LIMITS,
+  RECOMMENDATIONS_SCHEMA,
+  RecommendationFeedbackState,
+  filterRecommendations,
+  getRecommendationId,
+  getSnoozedUntil,
+  isRecommendationHidden,
+  isRecommendationId,
+  parseRecommendationsReply,
+  validateRecommendationFeedback
+} from '../lib/ai/recommendations';
+
+const now = new Date('2024-03-10T12:00:00Z');
+
+function recommendation(overrides: Record<string, unknown> = {}) {
+  return {
+    key: 'enable-round-ups',
+    type: 'savings_opportunity',
+    title: 'Enable Round-up Savings',
+    description: 'Round up every purchase and save the difference.',
+    impact: 'medium',
+    actionable: true,
+    estimatedSavings: 50,
+    category: null,
+    ...overrides
+  };
+}
+
+function feedback(overrides: Partial<RecommendationFeedbackState> = {}): RecommendationFeedbackState {
+  return {
+    recommendationId: getRecommendationId('savings_opportunity', 'enable-round-ups'),
+    title: 'Enable Round-up Savings',
+    status: 'DISMISSED',
+    snoozedUntil: null,
+    ...overrides
+  };
+}
+
+describe('Recommendations', () => {
+  it('should give the same advice the same id', () => {
+    const id = getRecommendationId('savings_opportunity', 'enable-round-ups');
+
+    expect(isRecommendationId(id)).toBe(true);
+    expect(getRecommendationId('savings_opportunity', ' Enable Round Ups ')).toBe(id);
+    expect(getRecommendationId('goal_adjustment', 'enable-round-ups')).not.toBe(id);
+    expect(isRecommendationId('fallback-1')).toBe(false);
+  });
+
+  it('should require every schema field for strict structured output', () => {
+    const item = (RECOMMENDATIONS_SCHEMA.schema.properties.recommendations.items as {
+      required: string[];
+      properties: Record<string, unknown>;
+    });
+
+    expect([...item.required].sort()).toEqual(Object.keys(item.properties).sort());
+  });
+
+  it('should parse a valid reply', () => {
+    const parsed = parseRecommendationsReply(JSON.stringify({ recommendations: [recommendation()] }), now);
+
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.recommendations).toEqual([{
+      id: getRecommendationId('savings_opportunity', 'enable-round-ups'),
+      type: 'savings_opportunity',
+      title: 'Enable Round-up Savings',
+      description: 'Round up every purchase and save the difference.',
+      impact: 'medium',
+      actionable: true,
+      estimatedSavings: 50,
+      createdAt: now
+    }]);
+  });
+
+  it('should repair fences, trailing commas, bare arrays and loose values', () => {
+    const reply = 'Here you go:\n```json\n[{"key": "cut-dining", "type": "Spending Alert", "title": "Cut dining", ' +
+      '"description": "Eat out less.", "impact": "HIGH", "actionable": "true", "estimatedSavings": "$1,200", },]\n```';
+    const parsed = parseRecommendationsReply(reply, now);
+
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.recommendations[0]).toMatchObject({
+      type: 'spending_alert',
+      impact: 'high',
+      actionable: true,
+      estimatedSavings: 1200
+    });
+  });
+
+  it('should truncate long text and fall back to the title for missing keys', () => {
+    const parsed = parseRecommendationsReply(JSON.stringify({
+      recommendations: [recommendation({ key: '', title: 'x'.repeat(200) })]
+    }), now);
+
+    expect(parsed.recommendations[0].title).toHaveLength(RECOMMENDATION_LIMITS.MAX_TITLE_LENGTH);
+    expect(parsed.recommendations[0].id).toBe(getRecommendationId('savings_opportunity', 'x'.repeat(200)));
+  });
+
+  it('should reject what can\'t be repaired', () => {
+    expect(parseRecommendationsReply('1. Save more money', now).errors).toEqual(['Reply is not valid JSON']);
+    expect(parseRecommendationsReply('{"advice": []}', now).errors).toEqual(['Reply has no "recommendations" array']);
+
+    const parsed = parseRecommendationsReply(JSON.stringify({
+      recommendations: [recommendation(), recommendation({ type: 'lottery_tip' }), recommendation({ description: '' })]
+    }), now);
+
+    expect(parsed.recommendations).toHaveLength(1);
+    expect(parsed.errors).toEqual([
+      expect.stringContaining('Recommendation 2: type must be one of'),
+      'Recommendation 3: description is required'
+    ]);
+  });
+
+  it('should keep one of each piece of advice', () => {
+    const parsed = parseRecommendationsReply(JSON.stringify({
+      recommendations: [recommendation(), recommendation({ title: 'Round up purchases' })]
+    }), now);
+
+    expect(parsed.recommendations).toHaveLength(1);
+  });
+
+  it('should hide dismissed, done and snoozed recommendations until the snooze ends', () => {
+    expect(isRecommendationHidden(feedback(), now)).toBe(true);
+    expect(isRecommendationHidden(feedback({ status: 'DONE' }), now)).toBe(true);
+
+    const snoozed = feedback({ status: 'SNOOZED', snoozedUntil: getSnoozedUntil(now) });
+    expect(isRecommendationHidden(snoozed, now)).toBe(true);
+    expect(isRecommendationHidden(snoozed, getSnoozedUntil(now, RECOMMENDATION_LIMITS.DEFAULT_SNOOZE_DAYS + 1))).toBe(false);
+
+    const { recommendations } = parseRecommendationsReply(JSON.stringify({
+      recommendations: [recommendation(), recommendation({ key: 'set-goal', type: 'goal_adjustment' })]
+    }), now);
+    expect(filterRecommendations(recommendations, [feedback()], now).map(r => r.type)).toEqual(['goal_adjustment']);
+  });
+
+  it('should validate feedback', () => {
+    const id = getRecommendationId('savings_opportunity', 'enable-round-ups');
+
+    expect(validateRecommendationFeedback(id, 'snooze', 'Enable Round-up Savings', 14)).toBeNull();
+    expect(validateRecommendationFeedback('fallback-1', 'done', 'Title')).toMatch('Invalid recommendation id');
+    expect(validateRecommendationFeedback(id, 'ignore', 'Title')).toMatch('Action must be');
+    expect(validateRecommendationFeedback(id, 'done', ' ')).toMatch('title is required');
+    expect(validateRecommendationFeedback(id, 'dismiss', 'Title', 7)).toMatch('Only snoozed');
+    expect(validateRecommendationFeedback(id, 'snooze', 'Title', RECOMMENDATION_LIMITS.MAX_SNOOZE_DAYS + 1)).toMatch('between');
+  });
+});
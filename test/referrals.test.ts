@@ -0,0 +1,72 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  REFERRAL_SYNC_LIMITS,
+  ReferralSyncState,
+  canClaimReferralSync,
+  getReferralAttributionError,
+  isReferralSyncDue,
+  normalizeReferralCode
+} from '../lib/social/referrals';
+
+const now = new Date('2026-03-10T12:00:00Z');
+const minutesAgo = (minutes: number) => new Date(now.getTime() - minutes * 60 * 1000);
+
+const converted = (overrides: Partial<ReferralSyncState> = {}): ReferralSyncState => ({
+  status: 'SIGNED_UP',
+  convertedAt: minutesAgo(60),
+  onChainTxHash: null,
+  onChainSyncingAt: null,
+  onChainSyncedAt: null,
+  ...overrides
+});
+
+describe('Referrals', () => {
+  it('should normalise referral codes from sign-up links', () => {
+    expect(normalizeReferralCode('ABCD2345')).toBe('ABCD2345');
+    expect(normalizeReferralCode(' abcd2345 ')).toBe('ABCD2345');
+    expect(normalizeReferralCode('')).toBeNull();
+    expect(normalizeReferralCode('not a code')).toBeNull();
+    expect(normalizeReferralCode(12345678)).toBeNull();
+    expect(normalizeReferralCode(undefined)).toBeNull();
+  });
+
+  it('should only credit active referrers other than the new user', () => {
+    expect(getReferralAttributionError({ id: 'referrer', isActive: true }, 'new-user')).toBeNull();
+    expect(getReferralAttributionError(null, 'new-user')).toBe('Referral code not found');
+    expect(getReferralAttributionError({ id: 'referrer', isActive: false }, 'new-user'))
+      .toBe('Referrer account is inactive');
+    expect(getReferralAttributionError({ id: 'new-user', isActive: true }, 'new-user'))
+      .toBe('Users cannot refer themselves');
+  });
+
+  it('should leave fresh referrals to the sign-up sync', () => {
+    const retryMinutes = REFERRAL_SYNC_LIMITS.retryDelayMs / 60000;
+
+    expect(isReferralSyncDue(converted(), now)).toBe(true);
+    expect(isReferralSyncDue(converted({ convertedAt: minutesAgo(retryMinutes - 1) }), now)).toBe(false);
+    expect(isReferralSyncDue(converted({ convertedAt: minutesAgo(retryMinutes) }), now)).toBe(false);
+    expect(isReferralSyncDue(converted({ convertedAt: minutesAgo(retryMinutes + 1) }), now)).toBe(true);
+  });
+
+  it('should skip referrals that are invites or already synced', () => {
+    expect(isReferralSyncDue(converted({ status: 'INVITED', convertedAt: null }), now)).toBe(false);
+    expect(isReferralSyncDue(converted({ onChainSyncedAt: minutesAgo(30) }), now)).toBe(false);
+  });
+
+  it('should only claim referrals nobody is sending', () => {
+    const claimMinutes = REFERRAL_SYNC_LIMITS.claimTimeoutMs / 60000;
+
+    expect(canClaimReferralSync(converted(), now)).toBe(true);
+    expect(canClaimReferralSync(converted({ onChainSyncingAt: minutesAgo(1) }), now)).toBe(false);
+    expect(canClaimReferralSync(converted({ onChainSyncingAt: minutesAgo(claimMinutes + 1) }), now)).toBe(true);
+    expect(canClaimReferralSync(converted({ onChainTxHash: '0xabc' }), now)).toBe(false);
+  });
+
+  it('should retry sent referrals by hash rather than sending again', () => {
+    const sent = converted({ onChainTxHash: '0xabc', onChainSyncingAt: minutesAgo(1) });
+
+    expect(canClaimReferralSync(sent, now)).toBe(false);
+    expect(isReferralSyncDue(sent, now)).toBe(true);
+    expect(isReferralSyncDue(converted({ onChainSyncingAt: minutesAgo(1) }), now)).toBe(false);
+  });
+});
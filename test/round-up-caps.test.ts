@@ -0,0 +1,108 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  resolveRoundUpCaps,
+  getRoundUpCapWindows,
+  buildRoundUpCapStatus,
+  fitsRoundUpCaps,
+  consumeRoundUpCaps,
+  capRoundUpBonus,
+  validateRoundUpCaps
+} from '../lib/savings/roundUpCaps';
+import { SAVINGS_LIMITS } from '../lib/utils/constants';
+
+describe('Round-up caps', () => {
+  describe('resolveRoundUpCaps', () => {
+    it('should default to the platform limits', () => {
+      expect(resolveRoundUpCaps({})).toEqual({
+        daily: SAVINGS_LIMITS.MAX_DAILY_ROUNDUP,
+        weekly: SAVINGS_LIMITS.MAX_WEEKLY_ROUNDUP,
+        monthly: SAVINGS_LIMITS.MAX_MONTHLY_ROUNDUP
+      });
+    });
+
+    it('should only let users tighten the limits', () => {
+      const caps = resolveRoundUpCaps({ dailyRoundUpCap: 10, weeklyRoundUpCap: 100000, monthlyRoundUpCap: null });
+
+      expect(caps.daily).toBe(10);
+      expect(caps.weekly).toBe(SAVINGS_LIMITS.MAX_WEEKLY_ROUNDUP);
+      expect(caps.monthly).toBe(SAVINGS_LIMITS.MAX_MONTHLY_ROUNDUP);
+    });
+  });
+
+  describe('getRoundUpCapWindows', () => {
+    it('should start weeks on Monday', () => {
+      // Wednesday
+      const windows = getRoundUpCapWindows(new Date('2024-03-13T15:30:00Z'), 'UTC');
+
+      expect(windows.daily.start).toEqual(new Date('2024-03-13T00:00:00Z'));
+      expect(windows.daily.resetsAt).toEqual(new Date('2024-03-14T00:00:00Z'));
+      expect(windows.weekly.start).toEqual(new Date('2024-03-11T00:00:00Z'));
+      expect(windows.weekly.resetsAt).toEqual(new Date('2024-03-18T00:00:00Z'));
+      expect(windows.monthly.start).toEqual(new Date('2024-03-01T00:00:00Z'));
+      expect(windows.monthly.resetsAt).toEqual(new Date('2024-04-01T00:00:00Z'));
+    });
+
+    it('should treat Sunday as the end of the week', () => {
+      const windows = getRoundUpCapWindows(new Date('2024-03-17T09:00:00Z'), 'UTC');
+      expect(windows.weekly.start).toEqual(new Date('2024-03-11T00:00:00Z'));
+    });
+
+    it('should follow the user\'s timezone', () => {
+      // Still Sunday the 31st in New York, the night the month and week end
+      const windows = getRoundUpCapWindows(new Date('2024-04-01T02:00:00Z'), 'America/New_York');
+
+      expect(windows.daily.start).toEqual(new Date('2024-03-31T04:00:00Z'));
+      expect(windows.weekly.start).toEqual(new Date('2024-03-25T04:00:00Z'));
+      expect(windows.monthly.start).toEqual(new Date('2024-03-01T05:00:00Z'));
+      expect(windows.monthly.resetsAt).toEqual(new Date('2024-04-01T04:00:00Z'));
+    });
+  });
+
+  describe('cap status', () => {
+    const windows = getRoundUpCapWindows(new Date('2024-03-13T00:00:00Z'), 'UTC');
+    const caps = resolveRoundUpCaps({ dailyRoundUpCap: 5 });
+
+    it('should report the tightest remaining cap', () => {
+      const status = buildRoundUpCapStatus(caps, { daily: 4.2, weekly: 30, monthly: 90 }, windows);
+
+      expect(status.daily.remaining).toBe(0.8);
+      expect(status.weekly.remaining).toBe(SAVINGS_LIMITS.MAX_WEEKLY_ROUNDUP - 30);
+      expect(status.remaining).toBe(0.8);
+    });
+
+    it('should accept round-ups that exactly fill the cap', () => {
+      const status = buildRoundUpCapStatus(caps, { daily: 4.2, weekly: 4.2, monthly: 4.2 }, windows);
+
+      expect(fitsRoundUpCaps(status, 0.8)).toBe(true);
+      expect(fitsRoundUpCaps(status, 0.81)).toBe(false);
+    });
+
+    it('should consume round-ups from every period', () => {
+      const status = buildRoundUpCapStatus(caps, { daily: 1, weekly: 1, monthly: 1 }, windows);
+      const updated = consumeRoundUpCaps(status, 0.75);
+
+      expect(updated.daily.used).toBe(1.75);
+      expect(updated.monthly.used).toBe(1.75);
+      expect(updated.remaining).toBe(3.25);
+      expect(updated.daily.resetsAt).toEqual(status.daily.resetsAt);
+    });
+
+    it('should trim round-up bonuses to the remaining cap', () => {
+      const status = buildRoundUpCapStatus(caps, { daily: 4.2, weekly: 4.2, monthly: 4.2 }, windows);
+
+      expect(capRoundUpBonus(status, 0.5)).toBe(0.5);
+      expect(capRoundUpBonus(status, 2)).toBe(0.8);
+      expect(capRoundUpBonus(consumeRoundUpCaps(status, 0.8), 2)).toBe(0);
+    });
+  });
+
+  describe('validateRoundUpCaps', () => {
+    it('should reject caps above the platform limits', () => {
+      expect(validateRoundUpCaps({ dailyRoundUpCap: 20 })).toBeNull();
+      expect(validateRoundUpCaps({ dailyRoundUpCap: 0 })).toMatch(/Daily/);
+      expect(validateRoundUpCaps({ monthlyRoundUpCap: SAVINGS_LIMITS.MAX_MONTHLY_ROUNDUP + 1 })).toBe(
+        `Monthly round-up cap must be more than 0 and at most ${SAVINGS_LIMITS.MAX_MONTHLY_ROUNDUP}`
+      );
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from '@jest/globals';
+import { calculateRoundUp } from '../lib/utils/helpers';
+import {
+  calculateStrategyRoundUp,
+  validateRoundUpStrategy,
+  RoundUpStrategySettings
+} from '../lib/savings/roundUpStrategy';
+
+describe('Round-up strategies', () => {
+  const defaults: RoundUpStrategySettings = {
+    roundUpStrategy: 'NEXT_INCREMENT',
+    roundUpAmount: 1,
+    roundUpMultiplier: 1
+  };
+
+  describe('calculateRoundUp', () => {
+    it('should use exact cents', () => {
+      expect(calculateRoundUp(3.10)).toBe(0.9);
+      expect(calculateRoundUp(23.67)).toBe(0.33);
+      expect(calculateRoundUp(0.29, 0.5)).toBe(0.21);
+      expect(calculateRoundUp(4.00)).toBe(0);
+    });
+  });
+
+  describe('calculateStrategyRoundUp', () => {
+    it('should round to the next increment by default', () => {
+      expect(calculateStrategyRoundUp(12.30, { ...defaults, roundUpAmount: 0.5 })).toBe(0.2);
+    });
+
+    it('should round to the nearest dollar and nearest five', () => {
+      expect(calculateStrategyRoundUp(12.30, { ...defaults, roundUpStrategy: 'NEAREST_DOLLAR' })).toBe(0.7);
+      expect(calculateStrategyRoundUp(12.30, { ...defaults, roundUpStrategy: 'NEAREST_FIVE' })).toBe(2.7);
+      expect(calculateStrategyRoundUp(15, { ...defaults, roundUpStrategy: 'NEAREST_FIVE' })).toBe(0);
+    });
+
+    it('should save a fixed amount or a percentage of the purchase', () => {
+      expect(calculateStrategyRoundUp(12.30, {
+        ...defaults,
+        roundUpStrategy: 'FIXED_AMOUNT',
+        roundUpFixedAmount: 0.75
+      })).toBe(0.75);
+
+      expect(calculateStrategyRoundUp(12.30, {
+        ...defaults,
+        roundUpStrategy: 'PERCENTAGE',
+        roundUpPercentage: 5
+      })).toBe(0.62);
+    });
+
+    it('should work in the minor units of the purchase currency', () => {
+      expect(calculateStrategyRoundUp(1234, {
+        ...defaults,
+        roundUpStrategy: 'PERCENTAGE',
+        roundUpPercentage: 2.5
+      }, 'JPY')).toBe(31);
+
+      expect(calculateStrategyRoundUp(0.1 + 0.2, {
+        ...defaults,
+        roundUpStrategy: 'PERCENTAGE',
+        roundUpPercentage: 10
+      })).toBe(0.03);
+    });
+
+    it('should apply the multiplier in whole cents', () => {
+      expect(calculateStrategyRoundUp(3.10, { ...defaults, roundUpMultiplier: 3 })).toBe(2.7);
+      expect(calculateStrategyRoundUp(3.10, { ...defaults, roundUpMultiplier: 50 })).toBe(9);
+    });
+  });
+
+  describe('validateRoundUpStrategy', () => {
+    it('should require strategy parameters', () => {
+      expect(validateRoundUpStrategy({ roundUpStrategy: 'FIXED_AMOUNT' })).toMatch(/fixed amount/);
+      expect(validateRoundUpStrategy({ roundUpStrategy: 'PERCENTAGE', roundUpPercentage: 2 })).toBeNull();
+      expect(validateRoundUpStrategy({ roundUpStrategy: 'FIXED_AMOUNT', roundUpFixedAmount: null })).toMatch(/fixed amount/);
+      expect(validateRoundUpStrategy({ roundUpStrategy: 'PERCENTAGE', roundUpPercentage: null })).toMatch(/percentage/);
+    });
+
+    it('should reject parameters that aren\'t numbers', () => {
+      expect(validateRoundUpStrategy({ roundUpFixedAmount: '5' as unknown as number })).toMatch(/Fixed round-up/);
+      expect(validateRoundUpStrategy({ roundUpPercentage: NaN })).toMatch(/percentage/);
+    });
+
+    it('should bound the multiplier', () => {
+      expect(validateRoundUpStrategy({ roundUpMultiplier: 10 })).toBeNull();
+      expect(validateRoundUpStrategy({ roundUpMultiplier: 11 })).not.toBeNull();
+      expect(validateRoundUpStrategy({ roundUpMultiplier: 1.5 })).not.toBeNull();
+    });
+  });
+});
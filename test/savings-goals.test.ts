@@ -0,0 +1,138 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  AllocatableGoal,
+  allocateToGoals,
+  getGoalProgress,
+  projectGoalCompletions,
+  validateSavingsGoal
+} from '../lib/savings/goalAllocation';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function goal(overrides: Partial<AllocatableGoal> & { id: string }): AllocatableGoal {
+  return {
+    targetMinor: 10000,
+    savedMinor: 0,
+    priority: 1,
+    ...overrides
+  };
+}
+
+describe('Savings goals', () => {
+  describe('allocateToGoals', () => {
+    it('should fill goals in priority order', () => {
+      const result = allocateToGoals(5000, [
+        goal({ id: 'laptop', priority: 2 }),
+        goal({ id: 'emergency', priority: 1, savedMinor: 8000 })
+      ], 'PRIORITY');
+
+      expect(result.allocations).toEqual([
+        { goalId: 'laptop', minor: 3000 },
+        { goalId: 'emergency', minor: 2000 }
+      ]);
+      expect(result.unallocatedMinor).toBe(0);
+    });
+
+    it('should prefer the nearest deadline between equal priorities', () => {
+      const result = allocateToGoals(100, [
+        goal({ id: 'later', deadline: new Date('2025-06-01') }),
+        goal({ id: 'sooner', deadline: new Date('2025-01-01') })
+      ], 'PRIORITY');
+
+      expect(result.allocations).toEqual([{ goalId: 'sooner', minor: 100 }]);
+    });
+
+    it('should split by ratio without losing a cent', () => {
+      const result = allocateToGoals(1000, [
+        goal({ id: 'a', splitRatio: 1 }),
+        goal({ id: 'b', splitRatio: 1 }),
+        goal({ id: 'c', splitRatio: 1 })
+      ], 'SPLIT');
+
+      expect(result.allocations.map(share => share.minor)).toEqual([334, 333, 333]);
+      expect(result.unallocatedMinor).toBe(0);
+    });
+
+    it('should pass a full goal\'s share on to the others', () => {
+      const result = allocateToGoals(1000, [
+        goal({ id: 'nearly', splitRatio: 3, savedMinor: 9900 }),
+        goal({ id: 'open', splitRatio: 1 })
+      ], 'SPLIT');
+
+      expect(result.allocations).toEqual([
+        { goalId: 'nearly', minor: 100 },
+        { goalId: 'open', minor: 900 }
+      ]);
+    });
+
+    it('should leave the excess unallocated once every goal is full', () => {
+      const result = allocateToGoals(500, [goal({ id: 'a', savedMinor: 9800 })], 'SPLIT');
+
+      expect(result.allocations).toEqual([{ goalId: 'a', minor: 200 }]);
+      expect(result.unallocatedMinor).toBe(300);
+    });
+
+    it('should not allocate in manual mode', () => {
+      expect(allocateToGoals(500, [goal({ id: 'a' })], 'MANUAL')).toEqual({
+        allocations: [],
+        unallocatedMinor: 500
+      });
+    });
+  });
+
+  describe('getGoalProgress', () => {
+    it('should report the daily amount needed to meet the deadline', () => {
+      const now = new Date('2024-01-01T00:00:00Z');
+      const progress = getGoalProgress(
+        goal({ id: 'a', savedMinor: 4000, deadline: new Date('2024-01-31T00:00:00Z') }),
+        now
+      );
+
+      expect(progress).toEqual({ percent: 40, remainingMinor: 6000, daysLeft: 30, requiredDailyMinor: 200 });
+    });
+  });
+
+  describe('projectGoalCompletions', () => {
+    const now = new Date('2024-01-01T00:00:00Z');
+
+    it('should complete priority goals one after another', () => {
+      const completions = projectGoalCompletions([
+        goal({ id: 'first', targetMinor: 1000 }),
+        goal({ id: 'second', priority: 2, targetMinor: 1000 })
+      ], 100, 'PRIORITY', now);
+
+      expect(completions.get('first')).toEqual(new Date(now.getTime() + 10 * DAY_MS));
+      expect(completions.get('second')).toEqual(new Date(now.getTime() + 20 * DAY_MS));
+    });
+
+    it('should speed up split goals once others finish', () => {
+      const completions = projectGoalCompletions([
+        goal({ id: 'small', targetMinor: 500 }),
+        goal({ id: 'large', targetMinor: 1500 })
+      ], 100, 'SPLIT', now);
+
+      // 50/day each for 10 days, then the full 100/day for the remaining 1000
+      expect(completions.get('small')).toEqual(new Date(now.getTime() + 10 * DAY_MS));
+      expect(completions.get('large')).toEqual(new Date(now.getTime() + 20 * DAY_MS));
+    });
+
+    it('should use each goal\'s own rate in manual mode', () => {
+      const completions = projectGoalCompletions([
+        { ...goal({ id: 'funded', targetMinor: 1000 }), dailyRateMinor: 50 },
+        goal({ id: 'idle', targetMinor: 1000 })
+      ], 100, 'MANUAL', now);
+
+      expect(completions.get('funded')).toEqual(new Date(now.getTime() + 20 * DAY_MS));
+      expect(completions.get('idle')).toBeNull();
+    });
+  });
+
+  describe('validateSavingsGoal', () => {
+    it('should reject invalid goals', () => {
+      expect(validateSavingsGoal({ name: ' ', target: 100 })).toMatch('Goal name');
+      expect(validateSavingsGoal({ name: 'Trip', target: 0 })).toMatch('Target');
+      expect(validateSavingsGoal({ priority: 0 })).toMatch('Priority');
+      expect(validateSavingsGoal({ name: 'Trip', target: 500, priority: 2 })).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  getLocalDate,
+  getScheduledPeriod,
+  calculateDepositRuleAmount,
+  calculateRoundUpBonus,
+  validateSavingsRule
+} from '../lib/savings/ruleEngine';
+import { money } from '../lib/utils/money';
+
+describe('Savings rule engine', () => {
+  describe('getScheduledPeriod', () => {
+    // Sunday 2024-03-10 15:00 UTC
+    const now = new Date('2024-03-10T15:00:00Z');
+
+    it('should key daily rules by local date', () => {
+      expect(getScheduledPeriod({ type: 'SCHEDULED', amount: 5, frequency: 'DAILY' }, now))
+        .toEqual({ periodKey: '2024-03-10', occurrence: '2024-03-10' });
+
+      // Already Monday in Tokyo
+      expect(getScheduledPeriod({ type: 'SCHEDULED', amount: 5, frequency: 'DAILY' }, now, 'Asia/Tokyo'))
+        .toEqual({ periodKey: '2024-03-11', occurrence: '2024-03-11' });
+    });
+
+    it('should return the most recent weekly occurrence', () => {
+      const everyFriday = { type: 'SCHEDULED' as const, amount: 20, frequency: 'WEEKLY' as const, dayOfWeek: 5 };
+
+      expect(getScheduledPeriod(everyFriday, now)?.periodKey).toBe('2024-03-08');
+      expect(getScheduledPeriod(everyFriday, new Date('2024-03-08T09:00:00Z'))?.periodKey).toBe('2024-03-08');
+      expect(getScheduledPeriod(everyFriday, new Date('2024-03-07T09:00:00Z'))?.periodKey).toBe('2024-03-01');
+    });
+
+    it('should clamp monthly rules to short months', () => {
+      const endOfMonth = { type: 'SCHEDULED' as const, amount: 100, frequency: 'MONTHLY' as const, dayOfMonth: 31 };
+
+      expect(getScheduledPeriod(endOfMonth, new Date('2024-02-29T12:00:00Z')))
+        .toEqual({ periodKey: '2024-02', occurrence: '2024-02-29' });
+      expect(getScheduledPeriod(endOfMonth, new Date('2024-02-28T12:00:00Z')))
+        .toEqual({ periodKey: '2024-01', occurrence: '2024-01-31' });
+      expect(getScheduledPeriod(endOfMonth, new Date('2024-01-15T12:00:00Z'))?.periodKey).toBe('2023-12');
+    });
+
+    it('should ignore non-scheduled rules', () => {
+      expect(getScheduledPeriod({ type: 'PERCENTAGE_OF_DEPOSIT', percentage: 5 }, now)).toBeNull();
+    });
+  });
+
+  describe('calculateDepositRuleAmount', () => {
+    it('should only trigger on deposits above the threshold', () => {
+      const rule = { type: 'PERCENTAGE_OF_DEPOSIT' as const, percentage: 5, minTriggerAmount: 1000 };
+
+      expect(calculateDepositRuleAmount(rule, money(250))).toEqual(money(0));
+      expect(calculateDepositRuleAmount(rule, money(2345.67))).toEqual(money(117.28));
+    });
+
+    it('should respect the per-execution cap', () => {
+      expect(calculateDepositRuleAmount(
+        { type: 'PERCENTAGE_OF_DEPOSIT', percentage: 10, maxAmount: 50 },
+        money(3000)
+      )).toEqual(money(50));
+    });
+
+    it('should work in the minor units of the deposit currency', () => {
+      const rule = { type: 'PERCENTAGE_OF_DEPOSIT' as const, percentage: 2.5 };
+
+      expect(calculateDepositRuleAmount(rule, money(12345, 'JPY'))).toEqual(money(309, 'JPY'));
+      expect(calculateDepositRuleAmount(rule, money(0.1 + 0.2))).toEqual(money(0.01));
+    });
+  });
+
+  describe('calculateRoundUpBonus', () => {
+    const doubleWeekends = { type: 'ROUNDUP_MULTIPLIER' as const, multiplier: 2, daysOfWeek: [0, 6] };
+
+    it('should add the extra multiple on matching days', () => {
+      expect(calculateRoundUpBonus(doubleWeekends, money(0.33), 6)).toEqual(money(0.33));
+      expect(calculateRoundUpBonus({ ...doubleWeekends, multiplier: 3 }, money(0.33), 0)).toEqual(money(0.66));
+    });
+
+    it('should not apply on other days', () => {
+      expect(calculateRoundUpBonus(doubleWeekends, money(0.33), 3)).toEqual(money(0));
+    });
+  });
+
+  describe('validateSavingsRule', () => {
+    it('should require a schedule for recurring rules', () => {
+      expect(validateSavingsRule({ type: 'SCHEDULED', amount: 20, frequency: 'WEEKLY', dayOfWeek: 5 })).toBeNull();
+      expect(validateSavingsRule({ type: 'SCHEDULED', amount: 20, frequency: 'WEEKLY' })).toMatch(/day of week/);
+      expect(validateSavingsRule({ type: 'SCHEDULED', amount: 0, frequency: 'DAILY' })).toMatch(/Amount/);
+    });
+
+    it('should bound percentages and multipliers', () => {
+      expect(validateSavingsRule({ type: 'PERCENTAGE_OF_DEPOSIT', percentage: 80 })).not.toBeNull();
+      expect(validateSavingsRule({ type: 'ROUNDUP_MULTIPLIER', multiplier: 1 })).not.toBeNull();
+      expect(validateSavingsRule({ type: 'ROUNDUP_MULTIPLIER', multiplier: 2, daysOfWeek: [7] })).not.toBeNull();
+    });
+  });
+
+  it('should fall back to UTC for unknown timezones', () => {
+    expect(getLocalDate(new Date('2024-03-10T23:30:00Z'), 'Not/AZone'))
+      .toEqual({ year: 2024, month: 3, day: 10, weekday: 0 });
+  });
+});
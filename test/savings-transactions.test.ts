@@ -13,6 +13,7 @@ const {
   verifyBankAccount
 } = require('../lib/db/bankAccount');
 const { createUser } = require('../lib/db/user');
+const { money } = require('../lib/utils/money');
 
 const prisma = new PrismaClient();
 
@@ -46,7 +47,7 @@ describe('Savings and Transactions', () => {
       const transactionData = {
         userId: testUser.id,
         type: 'MANUAL',
-        amount: 100.50,
+        amount: money(100.50),
         status: 'CONFIRMED'
       };
 
@@ -54,7 +55,8 @@ describe('Savings and Transactions', () => {
 
       expect(transaction.userId).toBe(testUser.id);
       expect(transaction.type).toBe('MANUAL');
-      expect(transaction.amount).toBe(100.50);
+      expect(transaction.amountMinor).toBe(10050);
+      expect(transaction.currency).toBe('USD');
       expect(transaction.status).toBe('CONFIRMED');
     });
 
@@ -63,16 +65,17 @@ describe('Savings and Transactions', () => {
       const merchant = 'Starbucks';
       const category = 'Food';
 
-      const roundUpTransaction = await processRoundUp(
+      const { transaction: roundUpTransaction, outcome } = await processRoundUp(
         testUser.id,
         originalAmount,
         merchant,
         category
       );
 
+      expect(outcome).toBe('SAVED');
       expect(roundUpTransaction.type).toBe('ROUNDUP');
-      expect(roundUpTransaction.amount).toBe(0.33); // Round up to $24.00
-      expect(roundUpTransaction.originalTransactionAmount).toBe(originalAmount);
+      expect(roundUpTransaction.amountMinor).toBe(33); // Round up to $24.00
+      expect(roundUpTransaction.originalAmountMinor).toBe(2367);
       expect(roundUpTransaction.merchant).toBe(merchant);
       expect(roundUpTransaction.category).toBe(category);
     });
@@ -83,7 +86,7 @@ describe('Savings and Transactions', () => {
         await createSavingsTransaction({
           userId: testUser.id,
           type: 'ROUNDUP',
-          amount: Math.random() * 5 + 0.5,
+          amount: money(Math.random() * 5 + 0.5),
           status: 'CONFIRMED'
         });
       }
@@ -99,7 +102,7 @@ describe('Savings and Transactions', () => {
       const transaction = await createSavingsTransaction({
         userId: testUser.id,
         type: 'MANUAL',
-        amount: 50,
+        amount: money(50),
         status: 'PENDING'
       });
 
@@ -118,7 +121,7 @@ describe('Savings and Transactions', () => {
       await createSavingsTransaction({
         userId: testUser.id,
         type: 'ROUNDUP',
-        amount: 2.50,
+        amount: money(2.50),
         category: 'Food',
         status: 'CONFIRMED'
       });
@@ -126,14 +129,14 @@ describe('Savings and Transactions', () => {
       await createSavingsTransaction({
         userId: testUser.id,
         type: 'MANUAL',
-        amount: 100,
+        amount: money(100),
         status: 'CONFIRMED'
       });
 
       await createSavingsTransaction({
         userId: testUser.id,
         type: 'ROUNDUP',
-        amount: 1.75,
+        amount: money(1.75),
         category: 'Transportation',
         status: 'CONFIRMED'
       });
@@ -152,21 +155,21 @@ describe('Savings and Transactions', () => {
       await createSavingsTransaction({
         userId: testUser.id,
         type: 'ROUNDUP',
-        amount: 25.50,
+        amount: money(25.50),
         status: 'CONFIRMED'
       });
 
       await createSavingsTransaction({
         userId: testUser.id,
         type: 'YIELD',
-        amount: 5.25,
+        amount: money(5.25),
         status: 'CONFIRMED'
       });
 
       await createSavingsTransaction({
         userId: testUser.id,
         type: 'WITHDRAWAL',
-        amount: 10.00,
+        amount: money(10.00),
         status: 'CONFIRMED'
       });
 
@@ -188,7 +191,7 @@ describe('Savings and Transactions', () => {
         bankName: 'Test Bank',
         accountNumber: '1234567890',
         routingNumber: '021000021',
-        balance: 1500.00
+        balance: money(1500.00)
       };
 
       const account = await createBankAccount(accountData);
@@ -197,7 +200,7 @@ describe('Savings and Transactions', () => {
       expect(account.accountName).toBe('My Checking');
       expect(account.accountType).toBe('CHECKING');
       expect(account.bankName).toBe('Test Bank');
-      expect(account.balance).toBe(1500.00);
+      expect(account.balanceMinor).toBe(150000);
       // Account number should be encrypted
       expect(account.accountNumber).not.toBe('1234567890');
     });
@@ -266,7 +269,7 @@ describe('Savings and Transactions', () => {
       const transaction = await createSavingsTransaction({
         userId: testUser.id,
         type: 'ROUNDUP',
-        amount: 5.50,
+        amount: money(5.50),
         status: 'PENDING'
       });
 
@@ -278,18 +281,18 @@ describe('Savings and Transactions', () => {
         where: { id: testUser.id }
       });
 
-      expect(updatedUser.totalSaved).toBe(5.50);
+      expect(updatedUser.totalSavedMinor).toBe(550);
     });
 
     it('should handle multiple transaction types in savings summary', async () => {
       // Create various transaction types
       const transactions = [
-        { type: 'ROUNDUP', amount: 10.25, status: 'CONFIRMED' },
-        { type: 'MANUAL', amount: 50.00, status: 'CONFIRMED' },
-        { type: 'DEPOSIT', amount: 25.75, status: 'CONFIRMED' },
-        { type: 'YIELD', amount: 3.50, status: 'CONFIRMED' },
-        { type: 'WITHDRAWAL', amount: 15.00, status: 'CONFIRMED' },
-        { type: 'ROUNDUP', amount: 2.25, status: 'PENDING' } // Should not count
+        { type: 'ROUNDUP', amount: money(10.25), status: 'CONFIRMED' },
+        { type: 'MANUAL', amount: money(50.00), status: 'CONFIRMED' },
+        { type: 'DEPOSIT', amount: money(25.75), status: 'CONFIRMED' },
+        { type: 'YIELD', amount: money(3.50), status: 'CONFIRMED' },
+        { type: 'WITHDRAWAL', amount: money(15.00), status: 'CONFIRMED' },
+        { type: 'ROUNDUP', amount: money(2.25), status: 'PENDING' } // Should not count
       ];
 
       for (const txData of transactions) {
@@ -0,0 +1,92 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  STAKE_LIMITS,
+  calculatePayouts,
+  parseStake,
+  validateStake
+} from '../lib/gamification/stakePayouts';
+
+const ether = (value: string) => parseStake(value)!;
+
+const amounts = (payouts: Array<{ id: string; amountWei: bigint }>) =>
+  Object.fromEntries(payouts.map(({ id, amountWei }) => [id, amountWei.toString()]));
+
+describe('Stake payouts', () => {
+  it('should parse and validate buy-ins', () => {
+    expect(parseStake('0.01')).toBe(BigInt('10000000000000000'));
+    expect(parseStake('ten')).toBeNull();
+    expect(parseStake(undefined)).toBeNull();
+
+    expect(validateStake(ether('0.01'))).toBeNull();
+    expect(validateStake(ether('0.01'), 'TOP_THREE')).toBeNull();
+    expect(validateStake(STAKE_LIMITS.MIN_STAKE_WEI - BigInt(1))).toMatch('between');
+    expect(validateStake(ether('11'))).toMatch('between');
+    expect(validateStake(ether('0.01'), 'EVERYONE')).toMatch('Payout curve');
+  });
+
+  it('should give the whole pot to the winner', () => {
+    expect(amounts(calculatePayouts(ether('0.3'), [
+      { id: 'a', progress: 10 },
+      { id: 'b', progress: 30 },
+      { id: 'c', progress: 20 }
+    ], 'WINNER_TAKES_ALL'))).toEqual({ a: '0', b: ether('0.3').toString(), c: '0' });
+  });
+
+  it('should split the pot between the top three', () => {
+    expect(amounts(calculatePayouts(ether('1'), [
+      { id: 'a', progress: 40 },
+      { id: 'b', progress: 30 },
+      { id: 'c', progress: 20 },
+      { id: 'd', progress: 10 }
+    ], 'TOP_THREE'))).toEqual({
+      a: ether('0.5').toString(),
+      b: ether('0.3').toString(),
+      c: ether('0.2').toString(),
+      d: '0'
+    });
+  });
+
+  it('should share tied positions and spread unreached ones', () => {
+    // a and b share first and second place
+    expect(amounts(calculatePayouts(ether('1'), [
+      { id: 'a', progress: 30 },
+      { id: 'b', progress: 30 },
+      { id: 'c', progress: 20 }
+    ], 'TOP_THREE'))).toEqual({
+      a: ether('0.4').toString(),
+      b: ether('0.4').toString(),
+      c: ether('0.2').toString()
+    });
+
+    // Nobody finished third, so its share is spread 5:3
+    expect(amounts(calculatePayouts(ether('0.8'), [
+      { id: 'a', progress: 30 },
+      { id: 'b', progress: 10 }
+    ], 'TOP_THREE'))).toEqual({ a: ether('0.5').toString(), b: ether('0.3').toString() });
+  });
+
+  it('should pay by progress, or evenly when nobody made any', () => {
+    expect(amounts(calculatePayouts(ether('1'), [
+      { id: 'a', progress: 75 },
+      { id: 'b', progress: 25 },
+      { id: 'c', progress: 0 }
+    ], 'PROPORTIONAL'))).toEqual({ a: ether('0.75').toString(), b: ether('0.25').toString(), c: '0' });
+
+    expect(amounts(calculatePayouts(BigInt(9), [
+      { id: 'a', progress: 0 },
+      { id: 'b', progress: 0 }
+    ], 'PROPORTIONAL'))).toEqual({ a: '5', b: '4' });
+  });
+
+  it('should always pay out the whole pot', () => {
+    const payouts = calculatePayouts(BigInt(1000), [
+      { id: 'a', progress: 3 },
+      { id: 'b', progress: 3 },
+      { id: 'c', progress: 3 },
+      { id: 'd', progress: 1 }
+    ], 'TOP_THREE');
+
+    expect(payouts.reduce((sum, { amountWei }) => sum + amountWei, BigInt(0))).toBe(BigInt(1000));
+    expect(amounts(payouts)).toEqual({ a: '334', b: '333', c: '333', d: '0' });
+  });
+});
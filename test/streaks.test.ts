@@ -0,0 +1,140 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  STREAK_LIMITS,
+  StreakState,
+  addDays,
+  getDaysBetween,
+  getLocalDay,
+  getRepairDeadline,
+  getStreakBonus,
+  recordActiveDay,
+  repairStreak,
+  settleMissedDays,
+  validateFreezePurchase,
+  validateRepair
+} from '../lib/gamification/streaks';
+
+const now = new Date('2024-03-10T12:00:00Z');
+
+function streak(overrides: Partial<StreakState> = {}): StreakState {
+  return {
+    currentStreak: 3,
+    longestStreak: 5,
+    lastDay: '2024-03-09',
+    freezes: 0,
+    brokenStreak: 0,
+    brokenAt: null,
+    ...overrides
+  };
+}
+
+describe('Streaks', () => {
+  it('should find the calendar day in the user\'s timezone', () => {
+    const at = new Date('2024-03-10T03:30:00Z');
+
+    expect(getLocalDay(at, 'UTC')).toBe('2024-03-10');
+    expect(getLocalDay(at, 'America/New_York')).toBe('2024-03-09');
+    expect(getLocalDay(new Date('2024-03-09T20:00:00Z'), 'Asia/Tokyo')).toBe('2024-03-10');
+    expect(getLocalDay(at, 'Not/AZone')).toBe('2024-03-10');
+  });
+
+  it('should count days between calendar days', () => {
+    expect(getDaysBetween('2024-02-28', '2024-03-01')).toBe(2);
+    expect(getDaysBetween('2024-03-10', '2024-03-09')).toBe(-1);
+    expect(addDays('2024-03-01', -1)).toBe('2024-02-29');
+  });
+
+  it('should start and extend a streak on consecutive days', () => {
+    const started = recordActiveDay(streak({ currentStreak: 0, longestStreak: 0, lastDay: null }), '2024-03-10', 'UTC');
+    expect(started.state).toMatchObject({ currentStreak: 1, longestStreak: 1, lastDay: '2024-03-10' });
+    expect(started.events).toEqual(['started']);
+
+    const extended = recordActiveDay(streak({ currentStreak: 5 }), '2024-03-10', 'UTC');
+    expect(extended.state).toMatchObject({ currentStreak: 6, longestStreak: 6, lastDay: '2024-03-10' });
+    expect(extended.events).toEqual(['extended']);
+  });
+
+  it('should count a day once', () => {
+    const update = recordActiveDay(streak({ lastDay: '2024-03-10' }), '2024-03-10', 'UTC');
+    expect(update.events).toEqual([]);
+    expect(update.state.currentStreak).toBe(3);
+
+    expect(recordActiveDay(streak(), '2024-03-08', 'UTC').events).toEqual([]);
+  });
+
+  it('should cover missed days with freezes', () => {
+    const update = recordActiveDay(streak({ lastDay: '2024-03-07', freezes: 2 }), '2024-03-10', 'UTC');
+
+    expect(update.events).toEqual(['frozen', 'extended']);
+    expect(update.freezesUsed).toBe(2);
+    expect(update.state).toMatchObject({ currentStreak: 4, freezes: 0, lastDay: '2024-03-10' });
+  });
+
+  it('should break the streak when freezes run short', () => {
+    const update = recordActiveDay(streak({ lastDay: '2024-03-07', freezes: 1 }), '2024-03-10', 'UTC');
+
+    expect(update.events).toEqual(['broken', 'started']);
+    expect(update.freezesUsed).toBe(0);
+    expect(update.state).toMatchObject({
+      currentStreak: 1,
+      longestStreak: 5,
+      freezes: 1,
+      brokenStreak: 3,
+      brokenAt: new Date('2024-03-09T00:00:00Z')
+    });
+  });
+
+  it('should settle missed days without counting today', () => {
+    expect(settleMissedDays(streak(), '2024-03-10', 'UTC').events).toEqual([]);
+    expect(settleMissedDays(streak({ currentStreak: 0 }), '2024-03-20', 'UTC').events).toEqual([]);
+
+    const frozen = settleMissedDays(streak({ freezes: 1 }), '2024-03-11', 'UTC');
+    expect(frozen.state).toMatchObject({ currentStreak: 3, freezes: 0, lastDay: '2024-03-10' });
+
+    const broken = settleMissedDays(streak(), '2024-03-11', 'UTC');
+    expect(broken.state).toMatchObject({ currentStreak: 0, brokenStreak: 3, brokenAt: new Date('2024-03-11T00:00:00Z') });
+  });
+
+  it('should break the streak when the first missed day ends in the user\'s timezone', () => {
+    const late = settleMissedDays(streak({ lastDay: '2024-03-05' }), '2024-03-11', 'UTC');
+    expect(late.state.brokenAt).toEqual(new Date('2024-03-07T00:00:00Z'));
+
+    const local = settleMissedDays(streak(), '2024-03-11', 'America/New_York');
+    expect(local.state.brokenAt).toEqual(new Date('2024-03-11T04:00:00Z'));
+  });
+
+  it('should only allow repairs within 24 hours of breaking', () => {
+    const broken = streak({ currentStreak: 0, brokenStreak: 3, brokenAt: now });
+    const deadline = getRepairDeadline(broken)!;
+
+    expect(deadline.getTime() - now.getTime()).toBe(STREAK_LIMITS.REPAIR_WINDOW_MS);
+    expect(validateRepair(broken, STREAK_LIMITS.REPAIR_COST, deadline)).toBeNull();
+    expect(validateRepair(broken, STREAK_LIMITS.REPAIR_COST, new Date(deadline.getTime() + 1))).toMatch('24 hours');
+    expect(validateRepair(broken, STREAK_LIMITS.REPAIR_COST - 1, now)).toMatch('points');
+    expect(validateRepair(streak(), STREAK_LIMITS.REPAIR_COST, now)).toMatch('no broken streak');
+  });
+
+  it('should repair a broken streak so saving today extends it', () => {
+    const repaired = repairStreak(streak({ currentStreak: 0, brokenStreak: 3, brokenAt: now }), '2024-03-11');
+    expect(repaired.events).toEqual(['repaired']);
+    expect(repaired.state).toMatchObject({ currentStreak: 3, lastDay: '2024-03-10', brokenStreak: 0, brokenAt: null });
+    expect(recordActiveDay(repaired.state, '2024-03-11', 'UTC').state.currentStreak).toBe(4);
+
+    const rejoined = repairStreak(streak({ currentStreak: 1, lastDay: '2024-03-11', brokenStreak: 5, brokenAt: now }), '2024-03-11');
+    expect(rejoined.state).toMatchObject({ currentStreak: 6, longestStreak: 6, lastDay: '2024-03-11' });
+  });
+
+  it('should validate freeze purchases', () => {
+    expect(validateFreezePurchase(0, STREAK_LIMITS.FREEZE_COST)).toBeNull();
+    expect(validateFreezePurchase(STREAK_LIMITS.MAX_FREEZES, 10000)).toMatch('at most');
+    expect(validateFreezePurchase(0, STREAK_LIMITS.FREEZE_COST - 1)).toMatch('points');
+  });
+
+  it('should pay a growing bonus on each whole week', () => {
+    expect(getStreakBonus(0)).toBe(0);
+    expect(getStreakBonus(6)).toBe(0);
+    expect(getStreakBonus(7)).toBe(STREAK_LIMITS.BONUS_PER_WEEK);
+    expect(getStreakBonus(8)).toBe(0);
+    expect(getStreakBonus(21)).toBe(3 * STREAK_LIMITS.BONUS_PER_WEEK);
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  DEFAULT_RECONCILIATION_OPTIONS,
+  LedgerEntry,
+  ReconciliationOptions,
+  VaultEvent,
+  amountsMatch,
+  reconcileWallet
+} from '../lib/savings/vaultReconciliation';
+
+const ETH = BigInt(10) ** BigInt(18);
+const now = new Date('2024-03-10T12:00:00Z');
+const options: ReconciliationOptions = { ...DEFAULT_RECONCILIATION_OPTIONS, now };
+
+const event = (txHash: string, amountWei: bigint, overrides: Partial<VaultEvent> = {}): VaultEvent => ({
+  flow: 'DEPOSIT',
+  txHash,
+  amountWei,
+  blockNumber: 1,
+  timestamp: now,
+  ...overrides
+});
+
+const entry = (id: string, overrides: Partial<LedgerEntry> = {}): LedgerEntry => ({
+  id,
+  flow: 'DEPOSIT',
+  status: 'CONFIRMED',
+  txHash: null,
+  recordedWei: null,
+  estimatedWei: ETH,
+  createdAt: new Date('2024-03-01T12:00:00Z'),
+  executeAfter: null,
+  ...overrides
+});
+
+describe('Vault reconciliation', () => {
+  it('should report nothing when the ledger matches the chain', () => {
+    const result = reconcileWallet(
+      [event('0xa', ETH), event('0xb', ETH / BigInt(2), { flow: 'WITHDRAWAL', blockNumber: 2 })],
+      [
+        entry('t1', { txHash: '0xa', recordedWei: ETH }),
+        entry('t2', { flow: 'WITHDRAWAL', txHash: '0xb', recordedWei: ETH / BigInt(2) })
+      ],
+      options
+    );
+
+    expect(result.issues).toEqual([]);
+    expect(result.driftWei).toBe(BigInt(0));
+    expect(result.chainWithdrawnWei).toBe(ETH / BigInt(2));
+  });
+
+  it('should report vault transfers missing from the ledger as drift', () => {
+    const result = reconcileWallet([event('0xa', ETH)], [], options);
+
+    expect(result.issues).toEqual([{ type: 'MISSING_TRANSACTION', event: event('0xa', ETH) }]);
+    expect(result.driftWei).toBe(ETH);
+  });
+
+  it('should link rows without a hash to an event with the exact recorded amount', () => {
+    const result = reconcileWallet(
+      [event('0xa', ETH * BigInt(2)), event('0xb', ETH)],
+      [entry('t1', { recordedWei: ETH })],
+      options
+    );
+
+    expect(result.issues).toEqual([
+      { type: 'MISSING_HASH', transactionId: 't1', event: event('0xb', ETH) },
+      { type: 'MISSING_TRANSACTION', event: event('0xa', ETH * BigInt(2)) }
+    ]);
+  });
+
+  it('should link rows without a hash to the only close event around the time they were due', () => {
+    const nearby = event('0xb', (ETH * BigInt(101)) / BigInt(100), { timestamp: new Date('2024-03-01T12:30:00Z') });
+    const result = reconcileWallet([event('0xa', ETH * BigInt(2)), nearby], [entry('t1')], options);
+
+    expect(result.issues).toEqual([
+      { type: 'MISSING_HASH', transactionId: 't1', event: nearby },
+      { type: 'MISSING_TRANSACTION', event: event('0xa', ETH * BigInt(2)) }
+    ]);
+  });
+
+  it('should leave uncertain matches for a person to decide', () => {
+    const close = event('0xa', (ETH * BigInt(101)) / BigInt(100));
+    const nearby = [
+      event('0xb', ETH, { timestamp: new Date('2024-03-01T12:10:00Z') }),
+      event('0xc', ETH, { timestamp: new Date('2024-03-01T12:20:00Z') })
+    ];
+
+    // Close in amount but days apart
+    expect(reconcileWallet([close], [entry('t1')], options).issues).toEqual([
+      { type: 'AMBIGUOUS_MATCH', transactionId: 't1', events: [close] }
+    ]);
+    // Two events it could be
+    expect(reconcileWallet(nearby, [entry('t1')], options).issues).toEqual([
+      { type: 'AMBIGUOUS_MATCH', transactionId: 't1', events: nearby }
+    ]);
+    // Two rows that could be the same event
+    expect(reconcileWallet(nearby.slice(0, 1), [entry('t1'), entry('t2')], options).issues).toEqual([
+      { type: 'AMBIGUOUS_MATCH', transactionId: 't1', events: nearby.slice(0, 1) },
+      { type: 'MISSING_HASH', transactionId: 't2', event: null }
+    ]);
+  });
+
+  it('should flag pending rows that are on chain or have gone stale', () => {
+    const result = reconcileWallet(
+      [event('0xa', ETH)],
+      [
+        entry('on-chain', { status: 'PENDING', txHash: '0xa', recordedWei: ETH }),
+        entry('stale', { status: 'PENDING', estimatedWei: ETH * BigInt(5) }),
+        entry('cooling-off', { status: 'PENDING', flow: 'WITHDRAWAL', executeAfter: new Date('2024-03-10T00:00:00Z') })
+      ],
+      options
+    );
+
+    expect(result.issues).toEqual([
+      { type: 'UNCONFIRMED', transactionId: 'on-chain', event: event('0xa', ETH) },
+      { type: 'ORPHAN_PENDING', transactionId: 'stale', txHash: null }
+    ]);
+    // Pending rows don't count towards the ledger balance yet
+    expect(result.driftWei).toBe(ETH);
+  });
+
+  it('should report recorded amounts that differ from the chain and unknown hashes', () => {
+    const result = reconcileWallet(
+      [event('0xa', ETH)],
+      [
+        entry('t1', { txHash: '0xa', recordedWei: ETH * BigInt(2) }),
+        entry('t2', { txHash: '0xdead', recordedWei: ETH })
+      ],
+      options
+    );
+
+    expect(result.issues).toEqual([
+      { type: 'AMOUNT_MISMATCH', transactionId: 't1', event: event('0xa', ETH), recordedWei: ETH * BigInt(2) },
+      { type: 'UNKNOWN_HASH', transactionId: 't2', txHash: '0xdead' }
+    ]);
+    expect(result.ledgerDepositedWei).toBe(ETH * BigInt(3));
+    expect(result.driftWei).toBe(-ETH * BigInt(2));
+  });
+
+  it('should compare amounts in basis points', () => {
+    expect(amountsMatch(ETH, (ETH * BigInt(102)) / BigInt(100), 200)).toBe(true);
+    expect(amountsMatch(ETH, (ETH * BigInt(103)) / BigInt(100), 200)).toBe(false);
+  });
+});
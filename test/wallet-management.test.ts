@@ -56,8 +56,8 @@ describe('Wallet Management', () => {
         totalPoints: 0,
         currentStreak: 0,
         longestStreak: 0,
-        totalSaved: 0,
-        totalYieldEarned: 0,
+        totalSavedMinor: 0,
+        totalYieldEarnedMinor: 0,
         roundUpEnabled: true,
         roundUpAmount: 1.0,
         notificationsEnabled: true,
@@ -44,8 +44,8 @@ describe('Wallet Security', () => {
         totalPoints: 0,
         currentStreak: 0,
         longestStreak: 0,
-        totalSaved: 0,
-        totalYieldEarned: 0,
+        totalSavedMinor: 0,
+        totalYieldEarnedMinor: 0,
         roundUpEnabled: true,
         roundUpAmount: 1.0,
         notificationsEnabled: true,
@@ -62,8 +62,8 @@ describe('Wallet Security', () => {
         totalPoints: 0,
         currentStreak: 0,
         longestStreak: 0,
-        totalSaved: 0,
-        totalYieldEarned: 0,
+        totalSavedMinor: 0,
+        totalYieldEarnedMinor: 0,
         roundUpEnabled: true,
         roundUpAmount: 1.0,
         notificationsEnabled: true,
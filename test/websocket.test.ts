@@ -24,8 +24,8 @@ describe('WebSocket Server', () => {
         totalPoints: 0,
         currentStreak: 0,
         longestStreak: 0,
-        totalSaved: 0,
-        totalYieldEarned: 0,
+        totalSavedMinor: 0,
+        totalYieldEarnedMinor: 0,
         isActive: true
       }
     });
@@ -201,8 +201,8 @@ describe('WebSocket Server', () => {
           totalPoints: 0,
           currentStreak: 0,
           longestStreak: 0,
-          totalSaved: 0,
-          totalYieldEarned: 0,
+          totalSavedMinor: 0,
+          totalYieldEarnedMinor: 0,
           isActive: true
         }
       });
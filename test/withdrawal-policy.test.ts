@@ -0,0 +1,133 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  WithdrawalCheck,
+  checkWithdrawal,
+  getCoolingOffEnd,
+  getWithdrawalDayStart,
+  resolveDailyWithdrawalLimit,
+  validateWithdrawalSettings
+} from '../lib/savings/withdrawalPolicy';
+import {
+  TOTP_ATTEMPT_LIMITS,
+  decodeBase32,
+  encodeBase32,
+  findTotpStep,
+  generateTotp,
+  generateTotpSecret,
+  getTotpLockout,
+  verifyTotp
+} from '../lib/security/totp';
+import { SAVINGS_LIMITS } from '../lib/utils/constants';
+
+const baseCheck: WithdrawalCheck = {
+  amountMinor: 10000,
+  availableMinor: 50000,
+  withdrawnTodayMinor: 0,
+  withdrawalsToday: 0,
+  dailyLimitMinor: 100000,
+  largeWithdrawalMinor: 100000,
+  twoFactorEnabled: false,
+  twoFactorVerified: false
+};
+
+describe('Withdrawal policy', () => {
+  describe('checkWithdrawal', () => {
+    it('should allow withdrawals within balance and limits', () => {
+      expect(checkWithdrawal(baseCheck)).toEqual({ allowed: true });
+    });
+
+    it('should reject withdrawals over the available balance', () => {
+      expect(checkWithdrawal({ ...baseCheck, amountMinor: 50001 })).toMatchObject({
+        allowed: false,
+        reason: 'INSUFFICIENT_BALANCE'
+      });
+    });
+
+    it('should enforce the daily amount and count limits', () => {
+      expect(checkWithdrawal({ ...baseCheck, withdrawnTodayMinor: 95000 })).toMatchObject({
+        reason: 'DAILY_LIMIT'
+      });
+      expect(checkWithdrawal({ ...baseCheck, withdrawalsToday: SAVINGS_LIMITS.MAX_DAILY_WITHDRAWALS })).toMatchObject({
+        reason: 'DAILY_COUNT'
+      });
+    });
+
+    it('should require two-factor confirmation for large withdrawals', () => {
+      const large = { ...baseCheck, amountMinor: 100000, availableMinor: 200000, dailyLimitMinor: 500000 };
+
+      expect(checkWithdrawal(large)).toMatchObject({ reason: 'TWO_FACTOR_DISABLED' });
+      expect(checkWithdrawal({ ...large, twoFactorEnabled: true })).toMatchObject({ reason: 'TWO_FACTOR_REQUIRED' });
+      expect(checkWithdrawal({ ...large, twoFactorEnabled: true, twoFactorVerified: true })).toEqual({ allowed: true });
+    });
+  });
+
+  describe('settings', () => {
+    it('should only let users tighten the daily limit', () => {
+      expect(resolveDailyWithdrawalLimit({}, 'USD')).toBe(SAVINGS_LIMITS.MAX_DAILY_WITHDRAWAL * 100);
+      expect(resolveDailyWithdrawalLimit({}, 'JPY')).toBe(SAVINGS_LIMITS.MAX_DAILY_WITHDRAWAL);
+      expect(resolveDailyWithdrawalLimit({ dailyWithdrawalLimitMinor: 20000 }, 'USD')).toBe(20000);
+      expect(validateWithdrawalSettings({ dailyWithdrawalLimit: SAVINGS_LIMITS.MAX_DAILY_WITHDRAWAL + 1 })).toMatch('Daily withdrawal limit');
+      expect(validateWithdrawalSettings({ dailyWithdrawalLimit: 0 })).toMatch('more than 0');
+    });
+
+    it('should start the withdrawal day at local midnight', () => {
+      const now = new Date('2024-03-10T02:00:00Z');
+
+      expect(getWithdrawalDayStart(now, 'UTC')).toEqual(new Date('2024-03-10T00:00:00Z'));
+      expect(getWithdrawalDayStart(now, 'America/New_York')).toEqual(new Date('2024-03-09T05:00:00Z'));
+      expect(getWithdrawalDayStart(now, 'Asia/Tokyo')).toEqual(new Date('2024-03-09T15:00:00Z'));
+      // Daylight saving starts in New York later that day
+      expect(getWithdrawalDayStart(new Date('2024-03-10T20:00:00Z'), 'America/New_York'))
+        .toEqual(new Date('2024-03-10T05:00:00Z'));
+    });
+
+    it('should schedule withdrawals after the cooling-off period', () => {
+      const now = new Date('2024-01-01T12:00:00Z');
+
+      expect(getCoolingOffEnd(now, {})).toBeNull();
+      expect(getCoolingOffEnd(now, { withdrawalCoolingOffHours: 24 })).toEqual(new Date('2024-01-02T12:00:00Z'));
+      expect(validateWithdrawalSettings({ withdrawalCoolingOffHours: 1.5 })).toMatch('Cooling-off period');
+    });
+  });
+
+  describe('TOTP', () => {
+    // RFC 6238 test vectors for the SHA-1 secret "12345678901234567890"
+    const secret = Buffer.from('12345678901234567890');
+
+    it('should match the RFC 6238 test vectors', () => {
+      expect(generateTotp(secret, new Date(59 * 1000), { digits: 8 })).toBe('94287082');
+      expect(generateTotp(secret, new Date(1111111109 * 1000), { digits: 8 })).toBe('07081804');
+    });
+
+    it('should accept base32 secrets and adjacent codes only', () => {
+      const base32 = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+      const now = new Date(1111111109 * 1000);
+
+      expect(decodeBase32(base32)).toEqual(secret);
+      expect(verifyTotp(base32, generateTotp(base32, new Date(now.getTime() - 30 * 1000)), now)).toBe(true);
+      expect(verifyTotp(base32, generateTotp(base32, new Date(now.getTime() - 90 * 1000)), now)).toBe(false);
+      expect(verifyTotp(base32, 'abcdef', now)).toBe(false);
+    });
+
+    it('should tell which time step a code belongs to', () => {
+      const base32 = generateTotpSecret();
+      const now = new Date(1111111109 * 1000);
+      const step = Math.floor(now.getTime() / 30000);
+
+      expect(decodeBase32(base32)).toHaveLength(20);
+      expect(encodeBase32(decodeBase32(base32))).toBe(base32);
+      expect(findTotpStep(base32, generateTotp(base32, now), now)).toBe(step);
+      expect(findTotpStep(base32, generateTotp(base32, new Date(now.getTime() - 30 * 1000)), now)).toBe(step - 1);
+      expect(findTotpStep(base32, '12345', now)).toBeNull();
+    });
+
+    it('should lock users out after too many attempts in a row', () => {
+      const now = new Date('2024-01-01T12:00:00Z');
+
+      expect(getTotpLockout(1, now)).toBeNull();
+      expect(getTotpLockout(TOTP_ATTEMPT_LIMITS.maxAttempts, now)).toBeNull();
+      expect(getTotpLockout(TOTP_ATTEMPT_LIMITS.maxAttempts + 1, now))
+        .toEqual(new Date(now.getTime() + TOTP_ATTEMPT_LIMITS.lockoutMs));
+    });
+  });
+});